@@ -0,0 +1,239 @@
+"use client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Link from "next/link";
+import React, { FormEvent, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Building2, Users, Check } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { requestPasswordReset, resetPassword } from "../actions";
+
+const inputClassName =
+  "text-white h-14 placeholder:text-white/50 text-lg w-full border-white/30 bg-white/10 rounded-xl backdrop-blur-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-300";
+
+const submitClassName =
+  "w-full h-14 bg-gradient-to-r from-indigo-500 to-rose-500 hover:from-indigo-600 hover:to-rose-600 text-white font-semibold text-lg rounded-xl transition-all duration-300 shadow-lg hover:shadow-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export default function ForgetPassword() {
+  const router = useRouter();
+  const [step, setStep] = useState<"request" | "reset">("request");
+  const [role, setRole] = useState<"employer" | "candidate" | "">("");
+  const [formData, setFormData] = useState({
+    email: "",
+    code: "",
+    password: "",
+    confirmPassword: ""
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleInputChange = (e: FormEvent<HTMLInputElement>) => {
+    const { name, value } = e.currentTarget;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: name === "code" ? value.replace(/\D/g, "").slice(0, 6) : value,
+    }));
+  };
+
+  const sendCode = async () => {
+    if (!role) {
+      toast.error("Please select a role (Company or Candidate)");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await requestPasswordReset({ email: formData.email, role });
+      if (result.success) {
+        toast.success(result.message);
+        setStep("reset");
+        setResendIn(60);
+      } else {
+        toast.error(result.message);
+        if (result.data?.retryAfter) {
+          setStep("reset");
+          setResendIn(result.data.retryAfter);
+        }
+      }
+    } catch (err) {
+      console.error("Password reset request error:", err);
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRequest = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await sendCode();
+  };
+
+  const handleReset = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!role) return;
+
+    if (formData.password !== formData.confirmPassword) {
+      toast.error("Passwords do not match");
+      return;
+    }
+    if (formData.password.length < 6) {
+      toast.error("Password must be at least 6 characters long");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await resetPassword({
+        email: formData.email,
+        role,
+        code: formData.code,
+        password: formData.password,
+      });
+      if (result.success) {
+        router.push("/login?toast=password_reset");
+      } else {
+        toast.error(result.message);
+      }
+    } catch (err) {
+      console.error("Password reset error:", err);
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-[#0A0A18] to-[#0D0D20]">
+      <div className="relative backdrop-blur-xl bg-white/5 border border-white/10 rounded-3xl p-10 shadow-2xl w-full max-w-[480px]">
+        <div className="absolute inset-0 bg-gradient-to-br from-white/5 to-white/5 rounded-3xl"></div>
+
+        <div className="relative z-10">
+          <div className="text-center mb-8">
+            <h1 className="text-white text-3xl font-bold mb-2">
+              <span className="bg-gradient-to-r from-indigo-300 to-rose-300 bg-clip-text text-transparent">
+                Reset Password
+              </span>
+            </h1>
+            <p className="text-white/70 text-sm">
+              {step === "request"
+                ? "We'll email you a code to reset your password"
+                : `Enter the code sent to ${formData.email} and choose a new password`}
+            </p>
+          </div>
+
+          {step === "request" ? (
+            <>
+              {/* Role Selection */}
+              <div className="space-y-3 mb-6">
+                <Label className="text-white text-sm font-medium">Choose your role</Label>
+                <div className="grid grid-cols-2 gap-3">
+                  {([
+                    { value: "employer", label: "Company", Icon: Building2, accent: "blue" },
+                    { value: "candidate", label: "Candidate", Icon: Users, accent: "violet" },
+                  ] as const).map(({ value, label, Icon, accent }) => {
+                    const selected = role === value;
+                    return (
+                      <div
+                        key={value}
+                        onClick={() => setRole(value)}
+                        className={`relative cursor-pointer rounded-lg border-2 transition-all duration-200 p-4 text-center ${
+                          selected
+                            ? accent === "blue" ? "border-blue-500 bg-blue-500/10" : "border-violet-500 bg-violet-500/10"
+                            : "border-white/20 bg-white/5 hover:border-white/40 hover:bg-white/10"
+                        }`}
+                      >
+                        {selected && (
+                          <div className={`absolute top-2 right-2 w-5 h-5 rounded-full flex items-center justify-center ${
+                            accent === "blue" ? "bg-blue-500" : "bg-violet-500"
+                          }`}>
+                            <Check className="w-3 h-3 text-white" />
+                          </div>
+                        )}
+                        <Icon className={`mx-auto w-5 h-5 mb-2 ${selected ? "text-white" : "text-white/70"}`} />
+                        <h4 className="text-sm font-medium text-white">{label}</h4>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <form onSubmit={handleRequest} className="space-y-6">
+                <Input
+                  name="email"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  className={inputClassName}
+                  placeholder="Email"
+                  type="email"
+                  required
+                />
+                <Button type="submit" disabled={isLoading} className={submitClassName}>
+                  {isLoading ? "Sending..." : "Send Reset Code"}
+                </Button>
+              </form>
+            </>
+          ) : (
+            <form onSubmit={handleReset} className="space-y-4">
+              <Input
+                name="code"
+                value={formData.code}
+                onChange={handleInputChange}
+                className={`${inputClassName} text-center tracking-[0.5em]`}
+                placeholder="000000"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+              />
+              <Input
+                name="password"
+                value={formData.password}
+                onChange={handleInputChange}
+                className={inputClassName}
+                placeholder="New Password"
+                type="password"
+                autoComplete="new-password"
+                required
+              />
+              <Input
+                name="confirmPassword"
+                value={formData.confirmPassword}
+                onChange={handleInputChange}
+                className={inputClassName}
+                placeholder="Confirm New Password"
+                type="password"
+                autoComplete="new-password"
+                required
+              />
+              <Button type="submit" disabled={isLoading || formData.code.length !== 6} className={submitClassName}>
+                {isLoading ? "Resetting..." : "Reset Password"}
+              </Button>
+              <p className="text-white/70 text-sm text-center">
+                Didn`t get a code?{" "}
+                <button
+                  type="button"
+                  onClick={sendCode}
+                  disabled={isLoading || resendIn > 0}
+                  className="text-indigo-300 hover:text-indigo-200 font-semibold hover:underline transition-colors duration-300 disabled:text-white/40 disabled:no-underline disabled:cursor-not-allowed">
+                  {resendIn > 0 ? `Resend in ${resendIn}s` : "Resend code"}
+                </button>
+              </p>
+            </form>
+          )}
+
+          <div className="mt-8 text-center">
+            <Link href="/login" className="text-white/50 text-sm hover:text-white/70 transition-colors duration-300">
+              Back to login
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use server";
+
+import bcrypt from 'bcryptjs';
+import { createErrorResponse, createSuccessResponse, safeAction, withDatabase, type ActionResponse } from '@/utils/action-helpers';
+import { describeOtpFailure, redeemAccountOtp, sendAccountOtp } from '@/lib/verification/otp';
+import type { UserRole } from '@/utils/auth-helpers';
+
+interface ResetPasswordData {
+  email: string;
+  role: UserRole;
+  code: string;
+  password: string;
+}
+
+// The response is the same whether or not the account exists, so the form cannot be used to look up emails
+export async function requestPasswordReset({ email, role }: Pick<ResetPasswordData, 'email' | 'role'>): Promise<ActionResponse<{ retryAfter?: number }>> {
+  return safeAction(async () => {
+    if (!email || !role) {
+      return createErrorResponse("Email and role are required");
+    }
+
+    const delivery = await withDatabase(
+      () => sendAccountOtp(role, email, 'reset-password'),
+      "Failed to send reset code"
+    );
+
+    if (delivery.status === 'cooldown') {
+      return {
+        success: false,
+        message: `Please wait ${delivery.retryAfter} seconds before requesting another code`,
+        data: { retryAfter: delivery.retryAfter }
+      };
+    }
+
+    return createSuccessResponse("If an account exists for this email, a reset code has been sent to it");
+  }, "Failed to send reset code");
+}
+
+export async function resetPassword({ email, role, code, password }: ResetPasswordData): Promise<ActionResponse> {
+  return safeAction(async () => {
+    if (!email || !role || !code || !password) {
+      return createErrorResponse("All the fields are required");
+    }
+    if (password.length < 6) {
+      return createErrorResponse("Password must be at least 6 characters long");
+    }
+
+    // Receiving the code proves the email belongs to the user, so the account counts as verified too
+    const hashedPassword = await bcrypt.hash(password, 12);
+    const check = await withDatabase(
+      () => redeemAccountOtp(role, email, 'reset-password', code, { password: hashedPassword, isVerified: true }),
+      "Failed to reset password"
+    );
+    if (!check.valid) {
+      return createErrorResponse(describeOtpFailure(check));
+    }
+
+    return createSuccessResponse("Password reset. You can now log in with your new password.");
+  }, "Failed to reset password");
+}
@@ -1,7 +1,11 @@
-import React from 'react'
+import { getServerSession } from "next-auth";
+import { redirect } from "next/navigation";
+import ForgetPassword from "./_components/ForgetPassword";
 
-export default function page() {
-  return (
-    <div>page</div>
-  )
+export default async function ForgetPasswordPage() {
+  const session = await getServerSession();
+  if (session) {
+    redirect("/");
+  }
+  return <ForgetPassword />;
 }
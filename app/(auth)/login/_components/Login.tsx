@@ -30,6 +30,10 @@ export default function Page() {
       toast.error("Candidates cannot access this page.");
     } else if (toastMsg === "employer_cannot_access") {
       toast.error("Employers cannot access this page.");
+    } else if (toastMsg === "email_verified") {
+      toast.success("Email verified. Please log in.");
+    } else if (toastMsg === "password_reset") {
+      toast.success("Password reset. Please log in with your new password.");
     }
   }, [searchParams]);
 
@@ -65,7 +69,13 @@ export default function Page() {
             role : formData.role,
             redirect: false,
           })
-          if(res?.error){
+          if(res?.error === "EmailNotVerified"){
+            // Matches EMAIL_NOT_VERIFIED in lib/auth.ts
+            toast.error("Please verify your email before logging in")
+            const params = new URLSearchParams({ email: formData.email, role: formData.role })
+            router.push(`/verify-email?${params.toString()}`)
+          }
+          else if(res?.error){
             console.error("Login error:", res.error); // Add logging
             toast.error(res.error)
           }
@@ -210,6 +220,13 @@ export default function Page() {
               type="password"
               required
             />
+            <div className="text-right -mt-3">
+              <Link
+                href="/forget-password"
+                className="text-sm text-indigo-300 hover:text-indigo-200 hover:underline transition-colors duration-300">
+                Forgot password?
+              </Link>
+            </div>
             <Button
               type="submit"
               disabled={isLoading}
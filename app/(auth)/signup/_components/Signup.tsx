@@ -63,14 +63,10 @@ export default function SignupPage() {
       const result = await createUser(signupData);
       
       if (result!.success) {
-        toast.success("Account created successfully!");
+        toast.success("Account created! Check your email for a verification code.");
         
-        // Redirect based on role
-        if (selectedRole === 'candidate') {
-          router.push('/dashboard/candidate');
-        } else {
-          router.push('/dashboard/employer');
-        }
+        const params = new URLSearchParams({ email: signupData.email, role: signupData.role });
+        router.push(`/verify-email?${params.toString()}`);
       } else {
         toast.error(result!.message || "Failed to create account");
         console.error("Signup failed:", result!.message);
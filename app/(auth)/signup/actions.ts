@@ -4,6 +4,7 @@ import {connectToDatabase} from '@/utils/connectDb';
 import candidate from '@/models/candidate.model';
 import employer from '@/models/employer.model';
 import bcrypt from 'bcryptjs';
+import { sendAccountOtp } from '@/lib/verification/otp';
 
 interface SignupData {
   firstName: string;
@@ -13,6 +14,15 @@ interface SignupData {
   role: 'employer' | 'candidate';
 }
 
+// A failed email does not undo the signup; the verify screen can send the code again
+async function sendVerificationCode(role: 'employer' | 'candidate', email: string) {
+  try {
+    await sendAccountOtp(role, email, 'verify-email');
+  } catch (error) {
+    console.error('Error sending verification code:', error);
+  }
+}
+
 export async function createUser(userData: SignupData) {
   try {
     await connectToDatabase();
@@ -29,9 +39,10 @@ export async function createUser(userData: SignupData) {
             throw new Error("Email is already regsitered");
         }
         const user = await candidate.create({
-            firstName , lastName , email , password : hashedPassword , role
+            firstName , lastName , email , password : hashedPassword , role , emailVerificationRequired : true
         })
         await user.save();
+        await sendVerificationCode(role, email);
 
         return {
             message : "Account Created Successfully",
@@ -44,9 +55,10 @@ export async function createUser(userData: SignupData) {
             throw new Error("Email is already regsitered");
         }
         const user = await employer.create({
-            firstName , lastName , email , password : hashedPassword , role
+            firstName , lastName , email , password : hashedPassword , role , emailVerificationRequired : true
         })
         await user.save();
+        await sendVerificationCode(role, email);
   
         return {
             message : "Account Created Successfully",
@@ -19,14 +19,10 @@ export function useSignup() {
       const result = await createUser(userData);
       
       if (result!.success) {
-        toast.success('Account created successfully!');
+        toast.success('Account created! Check your email for a verification code.');
         
-        // Redirect based on role
-        if (userData.role === 'candidate') {
-          router.push('/dashboard/candidate');
-        } else {
-          router.push('/dashboard/employer');
-        }
+        const params = new URLSearchParams({ email: userData.email, role: userData.role });
+        router.push(`/verify-email?${params.toString()}`);
         
         return result;
       } else {
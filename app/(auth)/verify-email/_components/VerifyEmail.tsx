@@ -0,0 +1,136 @@
+"use client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import Link from "next/link";
+import React, { FormEvent, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { MailCheck } from "lucide-react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { resendVerificationCode, verifyEmail } from "../actions";
+
+export default function VerifyEmail() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const email = searchParams.get("email") || "";
+  const role = searchParams.get("role");
+
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  if (!email || (role !== "candidate" && role !== "employer")) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-[#0A0A18] to-[#0D0D20]">
+        <p className="text-white/70 text-sm">
+          This verification link is incomplete.{" "}
+          <Link href="/login" className="text-indigo-300 hover:text-indigo-200 font-semibold hover:underline">
+            Back to login
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  const handleVerify = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await verifyEmail({ email, role, code });
+      if (result.success) {
+        router.push("/login?toast=email_verified");
+      } else {
+        toast.error(result.message);
+      }
+    } catch (err) {
+      console.error("Verification error:", err);
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      const result = await resendVerificationCode({ email, role });
+      if (result.success) {
+        toast.success(result.message);
+        setResendIn(60);
+      } else {
+        toast.error(result.message);
+        if (result.data?.retryAfter) setResendIn(result.data.retryAfter);
+      }
+    } catch (err) {
+      console.error("Resend error:", err);
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-[#0A0A18] to-[#0D0D20]">
+      <div className="relative backdrop-blur-xl bg-white/5 border border-white/10 rounded-3xl p-10 shadow-2xl w-full max-w-[480px]">
+        <div className="absolute inset-0 bg-gradient-to-br from-white/5 to-white/5 rounded-3xl"></div>
+
+        <div className="relative z-10">
+          <div className="text-center mb-8">
+            <div className="mx-auto w-12 h-12 rounded-xl bg-indigo-500/20 flex items-center justify-center mb-4">
+              <MailCheck className="w-6 h-6 text-indigo-300" />
+            </div>
+            <h1 className="text-white text-3xl font-bold mb-2">
+              <span className="bg-gradient-to-r from-indigo-300 to-rose-300 bg-clip-text text-transparent">
+                Verify Your Email
+              </span>
+            </h1>
+            <p className="text-white/70 text-sm">
+              Enter the 6-digit code we sent to <span className="text-white">{email}</span>
+            </p>
+          </div>
+
+          <form onSubmit={handleVerify} className="space-y-6">
+            <Input
+              name="code"
+              value={code}
+              onChange={(e) => setCode(e.currentTarget.value.replace(/\D/g, "").slice(0, 6))}
+              className="text-white h-14 placeholder:text-white/50 text-2xl text-center tracking-[0.5em] w-full border-white/30 bg-white/10 rounded-xl backdrop-blur-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-300"
+              placeholder="000000"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+            />
+            <Button
+              type="submit"
+              disabled={isLoading || code.length !== 6}
+              className="w-full h-14 bg-gradient-to-r from-indigo-500 to-rose-500 hover:from-indigo-600 hover:to-rose-600 text-white font-semibold text-lg rounded-xl transition-all duration-300 shadow-lg hover:shadow-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed">
+              {isLoading ? "Verifying..." : "Verify Email"}
+            </Button>
+          </form>
+
+          <div className="mt-8 text-center space-y-3">
+            <p className="text-white/70 text-sm">
+              Didn`t get a code?{" "}
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={isResending || resendIn > 0}
+                className="text-indigo-300 hover:text-indigo-200 font-semibold hover:underline transition-colors duration-300 disabled:text-white/40 disabled:no-underline disabled:cursor-not-allowed">
+                {resendIn > 0 ? `Resend in ${resendIn}s` : isResending ? "Sending..." : "Resend code"}
+              </button>
+            </p>
+            <Link href="/login" className="block text-white/50 text-sm hover:text-white/70 transition-colors duration-300">
+              Back to login
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use server";
+
+import { createErrorResponse, createSuccessResponse, safeAction, withDatabase, type ActionResponse } from '@/utils/action-helpers';
+import { describeOtpFailure, redeemAccountOtp, sendAccountOtp } from '@/lib/verification/otp';
+import type { UserRole } from '@/utils/auth-helpers';
+
+interface VerifyEmailData {
+  email: string;
+  role: UserRole;
+  code: string;
+}
+
+export async function verifyEmail({ email, role, code }: VerifyEmailData): Promise<ActionResponse> {
+  return safeAction(async () => {
+    if (!email || !role || !code) {
+      return createErrorResponse("Email, role and code are required");
+    }
+
+    const check = await withDatabase(
+      () => redeemAccountOtp(role, email, 'verify-email', code, { isVerified: true }),
+      "Failed to verify email"
+    );
+    if (!check.valid) {
+      return createErrorResponse(describeOtpFailure(check));
+    }
+
+    return createSuccessResponse("Email verified. You can now log in.");
+  }, "Failed to verify email");
+}
+
+// The response is the same whether or not an unverified account exists, so the form cannot be used to look up emails
+export async function resendVerificationCode({ email, role }: Omit<VerifyEmailData, 'code'>): Promise<ActionResponse<{ retryAfter?: number }>> {
+  return safeAction(async () => {
+    if (!email || !role) {
+      return createErrorResponse("Email and role are required");
+    }
+
+    const delivery = await withDatabase(
+      () => sendAccountOtp(role, email, 'verify-email'),
+      "Failed to send verification code"
+    );
+
+    if (delivery.status === 'cooldown') {
+      return {
+        success: false,
+        message: `Please wait ${delivery.retryAfter} seconds before requesting another code`,
+        data: { retryAfter: delivery.retryAfter }
+      };
+    }
+
+    return createSuccessResponse("If an unverified account exists for this email, a new verification code has been sent to it");
+  }, "Failed to send verification code");
+}
@@ -0,0 +1,11 @@
+import { getServerSession } from "next-auth";
+import { redirect } from "next/navigation";
+import VerifyEmail from "./_components/VerifyEmail";
+
+export default async function VerifyEmailPage() {
+  const session = await getServerSession();
+  if (session) {
+    redirect("/");
+  }
+  return <VerifyEmail />;
+}
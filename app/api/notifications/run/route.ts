@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createErrorResponse, createSuccessResponse, logError } from "@/utils/action-helpers";
+import { runNotificationJobs } from "@/lib/notifications/runner";
+
+// Triggered by the notification runner script or a scheduler, never by users
+export async function POST(request: NextRequest) {
+  const secret = process.env.NOTIFICATION_RUNNER_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      createErrorResponse("NOTIFICATION_RUNNER_SECRET is not configured"),
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(createErrorResponse("Unauthorized"), { status: 401 });
+  }
+
+  try {
+    const summary = await runNotificationJobs();
+    return NextResponse.json(createSuccessResponse("Notification jobs completed", summary));
+  } catch (error) {
+    logError("Notification run failed", error);
+    return NextResponse.json(
+      createErrorResponse("Notification run failed", error),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthorizationError, createErrorResponse, createSuccessResponse, logError } from "@/utils/action-helpers";
+import { validateSession } from "@/utils/auth-helpers";
+import { connectToDatabase } from "@/utils/connectDb";
+import { MAX_EVENTS_PER_UPLOAD, type ProctoringEventInput } from "@/lib/proctoring/protocol";
+import { parseProctoringEvent, recordProctoringEvents } from "@/lib/proctoring/session";
+
+// Receives proctoring events from the candidate's browser during a proctored round. An empty upload is a
+// heartbeat
+export async function POST(request: NextRequest) {
+  const { success, candidateId } = await validateSession();
+  if (!success || !candidateId) {
+    return NextResponse.json(createErrorResponse("Unauthorized"), { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (
+    !body ||
+    typeof body.token !== "string" ||
+    !Array.isArray(body.events) ||
+    body.events.length > MAX_EVENTS_PER_UPLOAD
+  ) {
+    return NextResponse.json(createErrorResponse("Invalid proctoring upload"), { status: 400 });
+  }
+
+  const events = body.events.map(parseProctoringEvent);
+  if (events.some((event: ProctoringEventInput | null) => !event)) {
+    return NextResponse.json(createErrorResponse("Invalid proctoring event"), { status: 400 });
+  }
+
+  try {
+    await connectToDatabase();
+    const result = await recordProctoringEvents(body.token, candidateId, events);
+    return NextResponse.json(createSuccessResponse("Proctoring events recorded", result));
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json(createErrorResponse(error.message), { status: error.status });
+    }
+    logError("Failed to record proctoring events", error);
+    return NextResponse.json(
+      createErrorResponse("Failed to record proctoring events", error),
+      { status: 500 }
+    );
+  }
+}
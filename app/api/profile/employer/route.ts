@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import employerProfile from "@/models/employerProfile.model";
+import EmployerModel from "@/models/employer.model";
 import { withDatabase, createErrorResponse, logError } from "@/utils/action-helpers";
 import { validateSession } from "@/utils/auth-helpers";
 
@@ -18,15 +18,16 @@ export async function GET() {
 
     const result = await withDatabase(async () => {
 
-      const profile = await employerProfile
-        .findOne({ employer: userId })
-        .select("profileImage")
+      // The company profile is shared by the organization; the photo is the employer's own
+      const employer = await EmployerModel
+        .findById(userId)
+        .select("avatar")
         .lean();
 
       return {
         success: true,
         data: {
-          profileImage: profile?.profileImage || null,
+          profileImage: employer?.avatar || null,
         },
       };
     }, "Error fetching employer profile");
@@ -2,7 +2,7 @@ import React, { Suspense } from 'react';
 import RoleWrapper from '@/lib/RoleWrapper';
 import ExamProtectionWrapper from '@/lib/ExamProtectionWrapper';
 import CountdownWrapper from '@/lib/CountdownWrapper';
-import { startTestSession, getServerTimeLeft } from '../actions';
+import { startTestSession, getServerTimeLeft, startProctoring, verifyIdentity } from '../actions';
 import { WarningProvider } from '@/lib/WarningContext';
 import AptitudeExamClient from '../_components/AptitudeExam';
 import AlreadyAttempted from '../../../../components/AlreadyAttempted';
@@ -44,6 +44,9 @@ export default async function AptitudeExamPage({ params }: AptitudeExamPageProps
   return (
     <RoleWrapper role={["candidate"]}>
       <WarningProvider
+        roundId={aptitudeId}
+        startProctoring={startProctoring}
+        verifyIdentity={verifyIdentity}
         tabSwitchLimit={warnings.tabSwitch}
         fullscreenExitLimit={warnings.fullscreen}
         audioWarningLimit={warnings.audio}
@@ -5,59 +5,52 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Flag, ChevronLeft, ChevronRight, Send } from 'lucide-react';
+import { Flag, ChevronLeft, ChevronRight, Send, Lock, Clock } from 'lucide-react';
 import { useTestQuestions } from '../hooks';
-import { submitTest, autoSaveTest } from '../actions';
+import { submitTest, autoSaveTest, getSectionState, saveAnswer, advanceSection } from '../actions';
 import { useSession } from 'next-auth/react';
 import { useCountdown } from '@/lib/CountdownWrapper';
 import { useWarningContext } from '@/lib/WarningContext';
+import ReviewBeforeSubmit from './ReviewBeforeSubmit';
+import TestResultScreen from './TestResultScreen';
 import type { 
+  AptitudeData,
   ProcessedQuestion, 
   Section, 
+  SectionState,
+  SubmitTestData,
   QuestionStatus, 
-  QuestionStats,
-  SectionName
+  QuestionStats
 } from '../types';
-const distributeQuestions = (questions: ProcessedQuestion[]): Section[] => {
-  const totalQuestions = questions.length;
-  const questionsPerSection = Math.ceil(totalQuestions / 4);
-  
-  const sectionTitles = [
-    "Logical Reasoning", 
-    "Quantitative Aptitude",
-    "Technical",
-    "Verbal Ability"
-  ];
-  
-  
-  const sections: Section[] = [];
-  
-  for (let i = 0; i < 4; i++) {
-    const startIndex = i * questionsPerSection;
-    const endIndex = Math.min(startIndex + questionsPerSection, totalQuestions);
-    
-    sections.push({
-      name: String.fromCharCode(65 + i), 
-      title: sectionTitles[i],
-      questions: questions.slice(startIndex, endIndex).map((q, idx) => ({
-        id: idx + 1,
-        text: q.text,
-        options: q.options,
-        correctAnswer: q.correctAnswer
-      }))
-    });
-  }
-  
-  return sections;
+const buildSections = (
+  sectionConfig: AptitudeData['sections'],
+  questions: ProcessedQuestion[]
+): Section[] => {
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+
+  return sectionConfig.map(section => ({
+    name: section.name,
+    description: section.description,
+    timeLimit: section.timeLimit,
+    questions: section.questionIds
+      .map(id => questionsById.get(id))
+      .filter((question): question is ProcessedQuestion => !!question)
+  }));
+};
+
+const formatSectionTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
 };
 
 const getQuestionStatus = (
-  sectionName: string, 
   questionId: number, 
   answers: Record<string, number>, 
   markedForReview: Set<string>
 ): QuestionStatus => {
-  const key = `${sectionName}-${questionId}`;
+  const key = String(questionId);
   if (markedForReview.has(key)) return 'marked';
   if (answers[key] !== undefined) return 'attempted';
   return 'unattempted';
@@ -101,18 +94,15 @@ interface AptitudeExamClientProps {
 
 export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientProps) {
   const { data: session } = useSession();
-  const warningContext = useWarningContext();
-  const [activeSection, setActiveSection] = useState('A');
+  const { isTerminated, endMonitoring } = useWarningContext();
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  // Load saved answers and marked questions from localStorage on component mount
-  const [answers, setAnswers] = useState<Record<string, number>>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem(`aptitude_${aptitudeId}_answers`);
-      return saved ? JSON.parse(saved) : {};
-    }
-    return {};
-  });
+  // Answers are saved on the server as they are given and keyed by question ID
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [sectionState, setSectionState] = useState<SectionState | null>(null);
+  const [sectionDeadline, setSectionDeadline] = useState<number | null>(null);
+  const [sectionTimeLeft, setSectionTimeLeft] = useState<number | null>(null);
   
+  // Load marked questions from localStorage on component mount
   const [markedForReview, setMarkedForReview] = useState<Set<string>>(() => {
     if (typeof window !== 'undefined') {
       const saved = localStorage.getItem(`aptitude_${aptitudeId}_marked`);
@@ -124,8 +114,54 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
  
   const [submitting, setSubmitting] = useState(false);
   const [ended, setEnded] = useState(false);
-  const { formattedTime, timeLeft, startTime, clearStartTime, isServerTimeValid, isLoading } = useCountdown();
+  const [reviewing, setReviewing] = useState(false);
+  const [testResult, setTestResult] = useState<SubmitTestData | null>(null);
+  const { formattedTime, timeLeft, clearStartTime, isServerTimeValid, isLoading } = useCountdown();
   const candidateId = session?.user?._id;
+
+  const applySectionState = React.useCallback((state: SectionState) => {
+    setSectionState(state);
+    setAnswers(state.answers);
+    setSectionDeadline(state.sectionTimeLeft === null ? null : Date.now() + state.sectionTimeLeft);
+    setSectionTimeLeft(state.sectionTimeLeft);
+  }, []);
+
+  const refreshSectionState = React.useCallback(async () => {
+    const result = await getSectionState(aptitudeId);
+    if (result.success && result.data) {
+      applySectionState(result.data);
+    } else {
+      console.error('❌ Failed to load section state:', result.error);
+    }
+  }, [aptitudeId, applySectionState]);
+
+  // Each newly opened section starts at its first question
+  React.useEffect(() => {
+    setCurrentQuestionIndex(0);
+  }, [sectionState?.currentSection]);
+
+  // Load section progress once the server has started the test session
+  React.useEffect(() => {
+    if (!isLoading) {
+      refreshSectionState();
+    }
+  }, [isLoading, refreshSectionState]);
+
+  // Section countdown; the server locks the section when it reaches zero
+  React.useEffect(() => {
+    if (sectionDeadline === null || ended) return;
+
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, sectionDeadline - Date.now());
+      setSectionTimeLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        refreshSectionState();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [sectionDeadline, ended, refreshSectionState]);
   
   // Auto-submit when time is up
   React.useEffect(() => {
@@ -152,34 +188,22 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [ended, submitting]);
 
-  // Auto-submit when warning limits are exceeded
+  // Close the test once the server terminated it for exceeding the warning limits
   React.useEffect(() => {
     const handleAutoSubmit = async () => {
-      if (warningContext.hasExceededLimits() && !ended && !submitting && candidateId) {
-        console.log('⚠️ Warning limits exceeded, auto-submitting test...');
+      if (isTerminated && !ended && !submitting && candidateId) {
+        console.log('⚠️ Test terminated by the server, auto-submitting test...');
         
         try {
-          const exceededWarnings = warningContext.getExceededWarnings();
-          const terminationReason = `Test terminated due to: ${exceededWarnings.join(', ')}`;
-          const warningState = warningContext.getWarningState();
-          const timeTakenValue = Math.floor((Date.now() - new Date(startTime).getTime()) / 1000);
-          
-          const result = await autoSaveTest(
-            aptitudeId,
-            candidateId,
-            answers,
-            timeTakenValue,
-            warningState,
-            terminationReason
-          );
+          const result = await autoSaveTest(aptitudeId, candidateId);
           
           if (result.success) {
             console.log('✅ Test auto-submitted successfully due to warning limit exceeded');
+            setTestResult(result.data ?? null);
             setEnded(true);
             clearStartTime();
-            // Clear saved answers from localStorage
+            // Clear saved review flags from localStorage
             if (typeof window !== 'undefined') {
-              localStorage.removeItem(`aptitude_${aptitudeId}_answers`);
               localStorage.removeItem(`aptitude_${aptitudeId}_marked`);
             }
           } else {
@@ -192,29 +216,55 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
     };
 
     handleAutoSubmit();
-  }, [warningContext, ended, submitting, candidateId, aptitudeId, answers, startTime, clearStartTime]);
+  }, [isTerminated, ended, submitting, candidateId, aptitudeId, clearStartTime]);
+
+  // Warnings stop counting once the test has ended
+  React.useEffect(() => {
+    if (ended) endMonitoring();
+  }, [ended, endMonitoring]);
   
-  const { questions, loading, error } = useTestQuestions(aptitudeId);
+  const { questions, aptitudeData, loading, error } = useTestQuestions(aptitudeId);
 
-  const sections: Section[] = distributeQuestions(questions);
-  const currentSection = sections.find(s => s.name === activeSection);
-  const hasQuestions = currentSection?.questions && currentSection.questions.length > 0;
+  const sections = React.useMemo(
+    () => buildSections(aptitudeData?.sections || [], questions),
+    [aptitudeData, questions]
+  );
+  const activeSectionIndex = Math.min(sectionState?.currentSection ?? 0, Math.max(sections.length - 1, 0));
+  const allSectionsLocked = !!sectionState && sectionState.currentSection >= sections.length && sections.length > 0;
+  const isLastSection = activeSectionIndex === sections.length - 1;
+  const currentSection = sections[activeSectionIndex];
+  const hasQuestions = !!currentSection && currentSection.questions.length > 0;
   const currentQuestion = hasQuestions ? currentSection.questions[currentQuestionIndex] : undefined;
-  const questionKey = `${activeSection}-${currentQuestion?.id || 'pending'}`;
+  const questionKey = String(currentQuestion?.id ?? 'pending');
 
  
   const stats = calculateStats(sections, answers, markedForReview);
 
+  // Every section timed out or was finished: submit what was answered
+  React.useEffect(() => {
+    if (allSectionsLocked && !ended && !submitting) {
+      handleSubmitTest();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [allSectionsLocked, ended, submitting]);
 
-  const handleAnswerChange = (value: string) => {
-    const newAnswers = {
-      ...answers,
-      [questionKey]: parseInt(value)
-    };
-    setAnswers(newAnswers);
-    // Save to localStorage
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(`aptitude_${aptitudeId}_answers`, JSON.stringify(newAnswers));
+
+  const handleAnswerChange = async (value: string) => {
+    if (!currentQuestion || allSectionsLocked) return;
+
+    const answer = parseInt(value);
+    setAnswers(prev => ({ ...prev, [questionKey]: answer }));
+
+    const result = await saveAnswer(aptitudeId, currentQuestion.id, answer);
+    if (result.success && result.data) {
+      setAnswers(result.data.answers);
+    } else {
+      console.warn('⚠️ Answer not saved:', result.error);
+      if (result.data) {
+        applySectionState(result.data);
+      } else {
+        refreshSectionState();
+      }
     }
   };
 
@@ -248,9 +298,27 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
     setCurrentQuestionIndex(index);
   };
 
-  const handleSectionChange = (sectionName: string) => {
-    setActiveSection(sectionName as SectionName);
-    setCurrentQuestionIndex(0);
+  const handleFinishSection = async () => {
+    const confirmed = window.confirm(
+      `Move on to "${sections[activeSectionIndex + 1]?.name}"? You will not be able to return to "${currentSection?.name}".`
+    );
+    if (!confirmed) return;
+
+    const result = await advanceSection(aptitudeId);
+    if (result.success && result.data) {
+      applySectionState(result.data);
+    } else {
+      alert('Failed to move to the next section: ' + result.error);
+    }
+  };
+
+  // Rounds that allow it show a review of unanswered and flagged questions first
+  const handleSubmitClick = () => {
+    if (aptitudeData?.allowReviewBeforeSubmit) {
+      setReviewing(true);
+    } else if (window.confirm('Submit the test? You will not be able to change your answers.')) {
+      handleSubmitTest();
+    }
   };
 
   const handleSubmitTest = async () => {
@@ -258,9 +326,8 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
     
     setSubmitting(true);
     
-    // Clear saved answers from localStorage on submit
+    // Clear saved review flags from localStorage on submit
     if (typeof window !== 'undefined') {
-      localStorage.removeItem(`aptitude_${aptitudeId}_answers`);
       localStorage.removeItem(`aptitude_${aptitudeId}_marked`);
     }
     
@@ -270,23 +337,16 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
         console.warn('⚠️ Server time validation failed, but proceeding with submit');
       }
       
-      // Get current warning state from context
-      const warningState = warningContext.getWarningState();
-      console.log('🚀 AptitudeExam: About to submit test with warning state:', warningState);
-      const timeTaken = Math.floor((Date.now() - new Date(startTime).getTime()) / 1000);
-      
       const result = await submitTest(
         aptitudeId, 
         candidateId, 
-        answers, 
-        timeTaken, 
-        warningState, 
-        warningContext.hasExceededLimits(),
-        warningContext.hasExceededLimits() ? warningContext.getExceededWarnings().join(', ') : undefined
+        answers
       );
       
       if (result.success) {
         clearStartTime(); // Clear start time from localStorage
+        setTestResult(result.data ?? null);
+        setReviewing(false);
         setEnded(true);
       } else {
         alert('Failed to submit test: ' + result.error);
@@ -299,6 +359,10 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
     }
   };
 
+  if (ended && testResult) {
+    return <TestResultScreen result={testResult} />;
+  }
+
   // Show loading while server initializes timing
   if (isLoading) {
     return (
@@ -308,10 +372,10 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
     );
   }
 
-  if (loading || !hasQuestions) {
+  if (loading || !sectionState || !hasQuestions) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-[#0A0A18] via-[#0D0D20] to-[#0A0A18] flex items-center justify-center text-white/70">
-        {loading ? 'Loading questions...' : 'No questions available'}
+        {loading || !sectionState ? 'Loading questions...' : 'No questions available'}
       </div>
     );
   }
@@ -333,6 +397,25 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
     );
   }
 
+  if (reviewing && !ended) {
+    return (
+      <ReviewBeforeSubmit
+        sections={sections}
+        answers={answers}
+        markedForReview={markedForReview}
+        lockedSections={sectionState.lockedSections}
+        activeSectionIndex={activeSectionIndex}
+        submitting={submitting}
+        onJumpTo={(index) => {
+          setCurrentQuestionIndex(index);
+          setReviewing(false);
+        }}
+        onBack={() => setReviewing(false)}
+        onConfirm={handleSubmitTest}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#0A0A18] via-[#0D0D20] to-[#0A0A18]">
      
@@ -390,19 +473,21 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
           <div className="max-w-4xl mx-auto h-full">
             <Card className="h-full bg-white/5 backdrop-blur-xl border border-white/10 shadow-2xl">
               <CardHeader className="pb-6">
-                <Tabs
-                  value={activeSection}
-                  onValueChange={handleSectionChange}
-                  className="w-full"
-                >
-                  <TabsList className="grid w-full grid-cols-4 bg-white/5 border border-white/10 h-12">
-                    {sections.map((section) => (
+                {/* Sections run in order; finished sections are locked */}
+                <Tabs value={String(activeSectionIndex)} className="w-full">
+                  <TabsList
+                    className="grid w-full bg-white/5 border border-white/10 h-12"
+                    style={{ gridTemplateColumns: `repeat(${sections.length}, minmax(0, 1fr))` }}
+                  >
+                    {sections.map((section, index) => (
                       <TabsTrigger 
-                        key={section.name} 
-                        value={section.name}
-                        className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-rose-500 data-[state=active]:text-white text-white/70 hover:text-white transition-all duration-300 font-medium"
+                        key={index} 
+                        value={String(index)}
+                        disabled={index !== activeSectionIndex}
+                        className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-rose-500 data-[state=active]:text-white text-white/70 transition-all duration-300 font-medium"
                       >
-                        Section {section.name}
+                        {sectionState.lockedSections.includes(index) && <Lock className="h-3 w-3 mr-1" />}
+                        {section.name}
                       </TabsTrigger>
                     ))}
                   </TabsList>
@@ -410,7 +495,10 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
                 
                 <div className="flex items-center justify-between mt-4">
                   <div>
-                    <h2 className="text-lg font-semibold text-white/90">{currentSection?.title}</h2>
+                    <h2 className="text-lg font-semibold text-white/90">{currentSection?.name}</h2>
+                    {currentSection?.description && (
+                      <p className="text-xs text-white/50">{currentSection.description}</p>
+                    )}
                     <p className="text-sm text-white/60">
                       Question {currentQuestionIndex + 1} of {currentSection?.questions.length}
                     </p>
@@ -441,11 +529,11 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
                           <div className="flex items-center space-x-4 p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-white/20 transition-all duration-200 cursor-pointer">
                             <RadioGroupItem 
                               value={idx.toString()} 
-                              id={`opt-${activeSection}-${idx}`}
+                              id={`opt-${questionKey}-${idx}`}
                               className="border-white/30 text-white data-[state=checked]:bg-gradient-to-r data-[state=checked]:from-indigo-500 data-[state=checked]:to-rose-500 data-[state=checked]:border-transparent"
                             />
                             <Label 
-                              htmlFor={`opt-${activeSection}-${idx}`}
+                              htmlFor={`opt-${questionKey}-${idx}`}
                               className="flex-1 text-white/90 cursor-pointer text-base leading-relaxed group-hover:text-white transition-colors"
                             >
                               <span className="font-medium text-white/60 mr-2">
@@ -505,12 +593,17 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
             <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
               <CardContent className="p-6 text-center">
                 <div className="flex items-center justify-center mb-2">
-                  <div className="w-5 h-5 rounded-full bg-blue-500 shadow-[0_0_12px_RGBA(0,0,255,0.6)]" />
-                  <span className="text-sm font-medium text-white/70 ml-2">Test in Progress</span>
+                  <Clock className="w-5 h-5 text-blue-400" />
+                  <span className="text-sm font-medium text-white/70 ml-2">
+                    {sectionTimeLeft !== null ? 'Section Time Left' : 'Test in Progress'}
+                  </span>
                 </div>
                 <div className="text-3xl font-mono font-bold bg-gradient-to-r from-indigo-400 to-rose-400 bg-clip-text text-transparent">
-                  Active
+                  {sectionTimeLeft !== null ? formatSectionTime(sectionTimeLeft) : 'Active'}
                 </div>
+                <p className="text-xs text-white/50 mt-2">
+                  Section {activeSectionIndex + 1} of {sections.length}
+                </p>
               </CardContent>
             </Card>
 
@@ -532,6 +625,11 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
                   <div className="w-3 h-3 rounded-full bg-amber-500 shadow-[0_0_12px_rgba(245,158,11,0.6)]" />
                   <span className="text-white/80 text-sm">Marked for Review</span>
                 </div>
+                {aptitudeData?.negativeMarking && (
+                  <p className="text-xs text-amber-300/80 pt-2 border-t border-white/10">
+                    Negative marking: each wrong answer deducts {aptitudeData.negativeMarkingPercentage}% of a mark.
+                  </p>
+                )}
               </CardContent>
             </Card>
 
@@ -539,13 +637,13 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
             <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
               <CardHeader className="pb-4">
                 <CardTitle className="text-lg font-semibold text-white">
-                  Section {activeSection} - {currentSection?.title}
+                  {currentSection?.name}
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-5 gap-2">
                   {currentSection?.questions.map((q, idx) => {
-                    const status = getQuestionStatus(activeSection, q.id, answers, markedForReview);
+                    const status = getQuestionStatus(q.id, answers, markedForReview);
                     const isActive = idx === currentQuestionIndex;
                     return (
                       <Button
@@ -554,7 +652,7 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
                         className={`w-12 h-12 rounded-lg p-0 text-sm font-medium transition-all duration-200 ${getStatusStyles(status, isActive)}`}
                         onClick={() => handleJumpTo(idx)}
                       >
-                        {q.id}
+                        {idx + 1}
                       </Button>
                     );
                   })}
@@ -562,9 +660,22 @@ export default function AptitudeExamClient({ aptitudeId }: AptitudeExamClientPro
               </CardContent>
             </Card>
 
+            {/* Finish Section Button */}
+            {!isLastSection && (
+              <Button
+                variant="outline"
+                onClick={handleFinishSection}
+                disabled={submitting || ended}
+                className="w-full bg-white/5 border-white/20 text-white hover:bg-white/10 hover:text-white font-semibold py-4 rounded-xl"
+              >
+                Finish Section
+                <ChevronRight className="h-5 w-5 ml-2" />
+              </Button>
+            )}
+
             {/* Submit Button */}
             <Button 
-              onClick={handleSubmitTest}
+              onClick={handleSubmitClick}
               disabled={submitting || ended}
               className="w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-semibold py-4 rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
             >
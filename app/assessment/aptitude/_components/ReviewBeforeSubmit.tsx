@@ -0,0 +1,127 @@
+'use client';
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Flag, Lock, Send } from 'lucide-react';
+import type { Section } from '../types';
+
+interface ReviewBeforeSubmitProps {
+  sections: Section[];
+  answers: Record<string, number>;
+  markedForReview: Set<string>;
+  lockedSections: number[];
+  activeSectionIndex: number;
+  submitting: boolean;
+  onJumpTo: (questionIndex: number) => void;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+export default function ReviewBeforeSubmit({
+  sections,
+  answers,
+  markedForReview,
+  lockedSections,
+  activeSectionIndex,
+  submitting,
+  onJumpTo,
+  onBack,
+  onConfirm
+}: ReviewBeforeSubmitProps) {
+  const totalUnanswered = sections.reduce(
+    (acc, section) => acc + section.questions.filter(q => answers[String(q.id)] === undefined).length,
+    0
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0A0A18] via-[#0D0D20] to-[#0A0A18] w-full p-6 lg:p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Review Before Submitting</h1>
+          <p className="text-white/60 mt-1">
+            {totalUnanswered > 0
+              ? `You have ${totalUnanswered} unanswered question${totalUnanswered === 1 ? '' : 's'}.`
+              : 'You have answered every question.'}
+            {' '}Only questions in the current section can still be changed.
+          </p>
+        </div>
+
+        {sections.map((section, sectionIndex) => {
+          const isOpen = sectionIndex === activeSectionIndex && !lockedSections.includes(sectionIndex);
+          const unanswered = section.questions
+            .map((q, idx) => ({ id: q.id, number: idx + 1 }))
+            .filter(q => answers[String(q.id)] === undefined);
+          const flagged = section.questions
+            .map((q, idx) => ({ id: q.id, number: idx + 1 }))
+            .filter(q => markedForReview.has(String(q.id)));
+
+          return (
+            <Card key={sectionIndex} className="bg-white/5 backdrop-blur-xl border border-white/10">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-white flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    {!isOpen && <Lock className="h-4 w-4 text-white/50" />}
+                    {section.name}
+                  </span>
+                  <span className="text-sm font-normal text-white/60">
+                    {section.questions.length - unanswered.length}/{section.questions.length} answered
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {[
+                  { label: 'Unanswered', items: unanswered, style: 'bg-red-500/20 border-red-500/50 text-red-300' },
+                  { label: 'Flagged for review', items: flagged, style: 'bg-amber-500/20 border-amber-500/50 text-amber-300' }
+                ].map(({ label, items, style }) => (
+                  <div key={label}>
+                    <p className="text-sm text-white/70 mb-2 flex items-center gap-2">
+                      {label === 'Flagged for review' && <Flag className="h-3 w-3" />}
+                      {label} ({items.length})
+                    </p>
+                    {items.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {items.map(item => (
+                          <Button
+                            key={item.id}
+                            variant="outline"
+                            disabled={!isOpen}
+                            onClick={() => onJumpTo(item.number - 1)}
+                            className={`w-10 h-10 rounded-lg p-0 text-sm ${style}`}
+                          >
+                            {item.number}
+                          </Button>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-white/40">None</p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            variant="outline"
+            onClick={onBack}
+            disabled={submitting}
+            className="flex-1 bg-white/5 border-white/20 text-white hover:bg-white/10 hover:text-white"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Test
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={submitting}
+            className="flex-1 bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-semibold"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {submitting ? 'Submitting...' : 'Submit Test'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import type { SubmitTestData } from '../types';
+
+interface TestResultScreenProps {
+  result: SubmitTestData;
+}
+
+export default function TestResultScreen({ result }: TestResultScreenProps) {
+  const router = useRouter();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0A0A18] via-[#0D0D20] to-[#0A0A18] flex items-center justify-center p-4 w-full">
+      <div className="w-full max-w-2xl">
+        <Card className="bg-white/5 backdrop-blur-xl border border-white/10 shadow-2xl">
+          {result.resultsPending ? (
+            <CardHeader className="text-center pb-6">
+              <div className="flex justify-center mb-4">
+                <Clock className="h-12 w-12 text-blue-500" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-white mb-2">
+                Test Submitted
+              </CardTitle>
+              <p className="text-white/70">
+                Your answers have been recorded. Results are pending and will be shared once the employer publishes them.
+              </p>
+            </CardHeader>
+          ) : (
+            <>
+              <CardHeader className="text-center pb-6">
+                <div className="flex justify-center mb-4">
+                  {result.passed
+                    ? <CheckCircle className="h-12 w-12 text-emerald-500" />
+                    : <XCircle className="h-12 w-12 text-red-500" />}
+                </div>
+                <CardTitle className="text-2xl font-bold text-white mb-2">
+                  {result.percentage.toFixed(1)}%
+                </CardTitle>
+                <p className="text-white/70">
+                  {result.passed ? 'You passed' : 'You did not reach'} the passing score of {result.passingScore}%
+                </p>
+              </CardHeader>
+
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  <div className="rounded-lg bg-emerald-500/10 border border-emerald-500/20 p-3">
+                    <div className="text-xl font-bold text-emerald-300">{result.correctCount}</div>
+                    <div className="text-xs text-white/60">Correct</div>
+                  </div>
+                  <div className="rounded-lg bg-red-500/10 border border-red-500/20 p-3">
+                    <div className="text-xl font-bold text-red-300">{result.incorrectCount}</div>
+                    <div className="text-xs text-white/60">Incorrect</div>
+                  </div>
+                  <div className="rounded-lg bg-white/5 border border-white/10 p-3">
+                    <div className="text-xl font-bold text-white/80">{result.unattemptedCount}</div>
+                    <div className="text-xs text-white/60">Unattempted</div>
+                  </div>
+                </div>
+
+                {/* Sectional Breakdown */}
+                <div className="space-y-3">
+                  {result.sectionScores.map((section, index) => (
+                    <div key={index} className="rounded-lg bg-white/5 border border-white/10 p-3">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-white">{section.name}</span>
+                        <span className="text-white/70">
+                          {section.percentage.toFixed(1)}% · weight {section.weightage}%
+                        </span>
+                      </div>
+                      <div className="mt-2 h-2 rounded-full bg-white/10 overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-indigo-500 to-rose-500"
+                          style={{ width: `${section.percentage}%` }}
+                        />
+                      </div>
+                      <p className="mt-1 text-xs text-white/50">
+                        {section.correctCount} correct · {section.incorrectCount} incorrect · {section.unattemptedCount} unattempted
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </>
+          )}
+
+          <CardContent className={result.resultsPending ? '' : 'pt-0'}>
+            <Button
+              onClick={() => router.push('/dashboard/candidate')}
+              className="w-full bg-gradient-to-r from-indigo-500 to-rose-500 hover:from-indigo-600 hover:to-rose-600 text-white"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,127 @@
 'use server'
 import { connectToDatabase } from '@/utils/connectDb'
-import Aptitude from '@/models/aptitude.model'
+import Aptitude, { type Aptitude as AptitudeRecord } from '@/models/aptitude.model'
 import Candidate from '@/models/candidate.model'
-import TestResult from '@/models/aptitudeEvaluation.model'
-import { getServerSession } from 'next-auth/next'
-import { authOptions } from '@/lib/auth'
-import questionsData from './aptitude_questions.json'
+import TestResult, { type TestResult as TestResultRecord } from '@/models/aptitudeEvaluation.model'
+import { authorizeRole } from '@/utils/auth-helpers'
+import { AuthorizationError, createErrorResponse } from '@/utils/action-helpers'
+import { handleRoundCompleted } from '@/lib/assessment/progression'
+import { checkRoundWindow } from '@/lib/assessment/schedule'
+import { getQuestionsByIds } from '@/lib/aptitude/questionBank'
+import { scoreAptitudeTest } from '@/lib/aptitude/scoring'
+import { checkProctoringSession, openProctoringSession } from '@/lib/proctoring/session'
+import type { ProctoringCredentials } from '@/lib/proctoring/protocol'
+import { isFaceDescriptor, verifyCandidateFace, type IdentityCheckResult } from '@/lib/proctoring/identity'
+import {
+  acceptAnswers,
+  advanceSectionSession,
+  getLockedSections,
+  getSectionDeadline,
+  isQuestionOpen,
+  resolveExamSections,
+  syncSectionSession,
+  type ExamSection,
+  type SectionSession
+} from '@/lib/aptitude/examSession'
 import type { 
   FetchTestSessionResponse, 
-  AptitudeQuestion, 
-  ProcessedQuestion,
-  AptitudeData 
+  AptitudeData,
+  SectionState,
+  SubmitTestData,
+  TestResultSummary
 } from './types'
 
-// Type guard to check if questions data is valid
-function isValidQuestionsData(data: any): data is { questions: AptitudeQuestion[] } {
-  return data && Array.isArray(data.questions) && data.questions.length > 0;
+type SessionTestResult = Pick<TestResultRecord, '_id' | 'startTime' | 'answers' | 'currentSection' | 'sectionProgress'>;
+
+// Answers submitted as the timer runs out still count; later ones are ignored
+const SUBMIT_GRACE_MS = 30 * 1000;
+
+function getTestDeadline(aptitude: Pick<AptitudeRecord, 'duration'>, testResult: Pick<TestResultRecord, 'startTime'>): Date {
+  return new Date(testResult.startTime.getTime() + aptitude.duration * 60 * 1000);
 }
 
-// Process raw question data to match interface
-function processQuestion(question: AptitudeQuestion): ProcessedQuestion {
+// Locks sections whose time ran out and saves the candidate's section progress
+async function syncTestSession(
+  aptitude: Pick<AptitudeRecord, 'sections' | 'questionIds' | 'duration'>,
+  testResult: SessionTestResult,
+  now: Date = new Date()
+): Promise<{ sections: ExamSection[]; session: SectionSession; testDeadline: Date }> {
+  const sections = resolveExamSections(aptitude);
+  const session: SectionSession = {
+    currentSection: testResult.currentSection ?? 0,
+    sectionProgress: (testResult.sectionProgress || []).map(progress => ({ ...progress }))
+  };
+  const testDeadline = getTestDeadline(aptitude, testResult);
+
+  // Tests started before sections were tracked begin their first section at the test start
+  let changed = false;
+  if (session.sectionProgress.length === 0) {
+    session.sectionProgress[0] = { startedAt: testResult.startTime };
+    changed = true;
+  }
+  changed = syncSectionSession(sections, session, testDeadline, now) || changed;
+
+  if (changed) {
+    await TestResult.updateOne({ _id: testResult._id }, { $set: session });
+  }
+  return { sections, session, testDeadline };
+}
+
+function toSectionState(
+  sections: ExamSection[],
+  session: SectionSession,
+  testDeadline: Date,
+  answers: Record<string, number>,
+  now: Date = new Date()
+): SectionState {
+  const current = sections[session.currentSection];
   return {
-    id: question.id,
-    text: question.question,
-    options: question.options,
-    correctAnswer: question.options.findIndex(option => option === question.correct_answer)
+    currentSection: session.currentSection,
+    lockedSections: getLockedSections(session),
+    sectionTimeLeft: current?.timeLimit
+      ? Math.max(0, getSectionDeadline(current, session.sectionProgress[session.currentSection], testDeadline).getTime() - now.getTime())
+      : null,
+    answers
   };
 }
 
+// Loads the authenticated candidate's running test
+async function loadRunningTest(aptitudeId: string) {
+  const auth = await authorizeRole('candidate');
+  if (auth.response) {
+    return { response: auth.response };
+  }
+
+  const [aptitude, testResult] = await Promise.all([
+    Aptitude.findById(aptitudeId).select('sections questionIds duration').lean(),
+    TestResult.findOne({
+      candidateId: auth.userId,
+      aptitudeId,
+      status: 'incomplete',
+      terminatedDueToWarnings: { $ne: true }
+    })
+      .select('startTime answers currentSection sectionProgress')
+      .lean()
+  ]);
+
+  if (!aptitude) {
+    return { response: { success: false, error: 'Aptitude assessment not found' } };
+  }
+  if (!testResult) {
+    return { response: { success: false, error: 'No active test session found. Please start the test first.' } };
+  }
+  return { candidateId: auth.userId, aptitude, testResult };
+}
+
 export async function fetchTestSession(aptitudeId: string): Promise<FetchTestSessionResponse> {
   try {
     await connectToDatabase()
 
    
-    const session = await getServerSession(authOptions);
+    const auth = await authorizeRole('candidate');
     
-    if (!session) {
-      return { 
-        success: false, 
-        error: 'Authentication required' 
-      };
+    if (auth.response) {
+      return auth.response;
     }
 
     if (!aptitudeId) {
@@ -50,14 +132,7 @@ export async function fetchTestSession(aptitudeId: string): Promise<FetchTestSes
     }
 
   
-    const authenticatedCandidateId = session.user?._id;
-    
-    if (!authenticatedCandidateId) {
-      return { 
-        success: false, 
-        error: 'User ID not found in session' 
-      };
-    }
+    const authenticatedCandidateId = auth.userId;
     
     console.log(' Validating candidate:', authenticatedCandidateId);
     console.log(' For aptitude assessment:', aptitudeId);
@@ -105,6 +180,12 @@ export async function fetchTestSession(aptitudeId: string): Promise<FetchTestSes
     });
 
     if (existingResult) {
+      // A test terminated by the proctoring server that the browser never closed (e.g. the page was
+      // reloaded) is closed with the answers saved so far
+      if (existingResult.status === 'incomplete' && existingResult.terminatedDueToWarnings) {
+        await finishTestResult(aptitude, existingResult, {});
+      }
+
       // Block if exam is completed OR terminated due to warnings
       if (existingResult.status === 'completed' || existingResult.status === 'terminated' || existingResult.terminatedDueToWarnings) {
         return {
@@ -114,48 +195,30 @@ export async function fetchTestSession(aptitudeId: string): Promise<FetchTestSes
       }
       
       if (existingResult.status === 'incomplete' && !existingResult.terminatedDueToWarnings) {
-        // Check if test time has expired
-        const elapsed = new Date().getTime() - existingResult.startTime.getTime();
-        const aptitude = await Aptitude.findById(aptitudeId);
-        
-        if (aptitude) {
-          const totalDurationMs = aptitude.duration * 60 * 1000;
-          const timeLeft = Math.max(0, totalDurationMs - elapsed);
-          
-          // If time expired, mark as completed and block access
-          if (timeLeft <= 0) {
-            await TestResult.findByIdAndUpdate(existingResult._id, {
-              status: 'completed',
-              submittedAt: new Date(),
-              terminationReason: 'Time expired'
-            });
-            
-            return {
-              success: false,
-              error: 'Test time has expired. You cannot continue this test.'
-            };
-          }
+        // A test whose time ran out before it was submitted is scored with the answers saved so far
+        if (Date.now() >= getTestDeadline(aptitude, existingResult).getTime()) {
+          await finishTestResult(aptitude, existingResult, {});
+
+          return {
+            success: false,
+            error: 'Test time has expired. You cannot continue this test.'
+          };
         }
-        
+
         // Time is still valid, allow continuation
         // Continue with normal flow to return test data
       }
+    } else {
+      // A new attempt can only begin inside the round's scheduling window
+      const windowError = await checkRoundWindow('aptitude', aptitudeId, authenticatedCandidateId);
+      if (windowError) {
+        return { success: false, error: windowError };
+      }
     }
 
-    if (!isValidQuestionsData(questionsData)) {
-      return { 
-        success: false, 
-        error: 'Invalid questions data structure' 
-      };
-    }
-
-    const questionsArray = questionsData.questions as AptitudeQuestion[];
-    const questionIds = aptitude.questionIds || [];
-    
-    // Filter questions based on aptitude 
-    const matchingQuestions = questionsArray
-      .filter((q: AptitudeQuestion) => questionIds.includes(q.id))
-      .map(processQuestion);
+    // Correct answers stay on the server
+    const matchingQuestions = (await getQuestionsByIds(aptitude.questionIds || []))
+      .map(({ id, text, options }) => ({ id, text, options }));
     
     // Questions loaded successfully
     
@@ -165,17 +228,21 @@ export async function fetchTestSession(aptitudeId: string): Promise<FetchTestSes
       passingScore: aptitude.passingScore,
       duration: aptitude.duration,
       status: aptitude.status,
-      sections: aptitude.sections.map(section => ({
+      sections: resolveExamSections(aptitude).map(section => ({
         name: section.name,
         description: section.description || '',
         questionIds: section.questionIds,
-        timeLimit: section.timeLimit || undefined
+        timeLimit: section.timeLimit
       })),
       warnings: {
         fullscreen: aptitude.warnings.fullscreen,
         tabSwitch: aptitude.warnings.tabSwitch,
         audio: aptitude.warnings.audio
       },
+      negativeMarking: aptitude.negativeMarking,
+      negativeMarkingPercentage: aptitude.negativeMarking ? aptitude.negativeMarkingPercentage ?? 0 : 0,
+      showResultImmediately: aptitude.showResultImmediately,
+      allowReviewBeforeSubmit: aptitude.allowReviewBeforeSubmit,
       matchingQuestions: matchingQuestions.length,
       allQuestions: matchingQuestions
     };
@@ -195,160 +262,132 @@ export async function fetchTestSession(aptitudeId: string): Promise<FetchTestSes
 }
 
 
+// Scores the test and closes the candidate's record. Tests the proctoring server terminated are
+// closed as terminated, with the warnings it counted. The time taken is measured on the server
+async function finishTestResult(
+  aptitude: AptitudeRecord,
+  testResult: SessionTestResult & Pick<TestResultRecord, 'candidateId' | 'terminatedDueToWarnings'>,
+  answers: Record<string, number>
+): Promise<TestResultSummary> {
+  const now = Date.now();
+  const testDeadline = getTestDeadline(aptitude, testResult).getTime();
+  const timeTaken = Math.floor((Math.min(now, testDeadline) - testResult.startTime.getTime()) / 1000);
+
+  // Answers to locked sections were already saved; only the open section can still change. A submission
+  // within the grace period is taken as of the moment before the deadline, so the last section is still open
+  const answeredAt = new Date(now < testDeadline + SUBMIT_GRACE_MS ? Math.min(now, testDeadline - 1) : now);
+  const { sections, session: sectionSession } = await syncTestSession(aptitude, testResult, answeredAt);
+  const finalAnswers = acceptAnswers(sections, sectionSession, testResult.answers || {}, answers);
+
+  const matchingQuestions = await getQuestionsByIds(aptitude.questionIds || []);
+  const {
+    totalQuestions,
+    correctCount,
+    incorrectCount,
+    unattemptedCount,
+    score,
+    percentage,
+    sectionScores
+  } = scoreAptitudeTest(sections, matchingQuestions, finalAnswers, aptitude);
+  const passed = percentage >= aptitude.passingScore;
+  const terminated = Boolean(testResult.terminatedDueToWarnings);
+
+  // Save test result (without storing correct answers - they're in questions data)
+  await TestResult.updateOne(
+    { _id: testResult._id, status: 'incomplete' },
+    {
+      answers: finalAnswers,
+      score,
+      totalQuestions,
+      correctCount,
+      incorrectCount,
+      unattemptedCount,
+      percentage,
+      sectionScores,
+      passed,
+      passingScore: aptitude.passingScore,
+      timeTaken,
+      submittedAt: new Date(),
+      status: terminated ? 'terminated' : 'completed'
+    }
+  );
+  // A warning counted while the test was being scored still terminates it
+  if (!terminated) {
+    await TestResult.updateOne({ _id: testResult._id, terminatedDueToWarnings: true }, { status: 'terminated' });
+  }
+
+  // Apply the round's progression rules and the overall result after the last round.
+  // A terminated test still finishes the round
+  if (aptitude.assessmentId) {
+    await handleRoundCompleted(aptitude.assessmentId, String(testResult.candidateId), 'aptitude')
+      .catch(error => console.error('Error applying round progression:', error));
+  }
+
+  return {
+    score,
+    totalQuestions,
+    correctCount,
+    incorrectCount,
+    unattemptedCount,
+    percentage,
+    passed,
+    passingScore: aptitude.passingScore,
+    timeTaken,
+    sectionScores
+  };
+}
+
 export async function submitTest(
   aptitudeId: string, 
   candidateId: string, 
-  answers: Record<string, number>,
-  timeTaken: number,
-  warnings?: {
-    tabSwitch: { count: number; maxAllowed: number; exceeded: boolean };
-    fullscreen: { count: number; maxAllowed: number; exceeded: boolean };
-    audio: { count: number; maxAllowed: number; exceeded: boolean };
-  },
-  terminatedDueToWarnings?: boolean,
-  terminationReason?: string
-): Promise<{success: boolean, data?: any, error?: string}> {
+  answers: Record<string, number>
+): Promise<{success: boolean, data?: SubmitTestData, error?: string}> {
   try {
-    console.log('📝 Actions: submitTest called with warnings:', warnings);
     await connectToDatabase();
     
     // Get server session for authentication
-    const session = await getServerSession(authOptions);
+    const auth = await authorizeRole('candidate');
     
-    if (!session) {
-      return { 
-        success: false, 
-        error: 'Authentication required' 
-      };
+    if (auth.response) {
+      return auth.response;
     }
 
     // Verify the candidateId matches the authenticated user
-    if (session.user?._id !== candidateId) {
-      return { 
-        success: false, 
-        error: 'Unauthorized: Candidate ID mismatch' 
-      };
+    if (auth.userId !== candidateId) {
+      return createErrorResponse('Unauthorized', new AuthorizationError(403, 'Unauthorized: Candidate ID mismatch'));
     }
     
-    // Submitting test with candidate data
-
     // Get aptitude details
     const aptitude = await Aptitude.findById(aptitudeId);
     if (!aptitude) {
       return { success: false, error: 'Aptitude assessment not found' };
     }
 
-    // Get questions data
-    if (!isValidQuestionsData(questionsData)) {
-      return { success: false, error: 'Invalid questions data' };
-    }
-
-    const questionsArray = questionsData.questions as AptitudeQuestion[];
-    const questionIds = aptitude.questionIds || [];
-    
-    // Filter questions based on aptitude
-    const matchingQuestions = questionsArray
-      .filter((q: AptitudeQuestion) => questionIds.includes(q.id))
-      .map(processQuestion);
-
-    // Calculate score
-    let correctCount = 0;
-    let incorrectCount = 0;
-    let unattemptedCount = 0;
-
-    // Create sections for scoring
-    const sections = [
-      { name: 'A', questions: matchingQuestions.slice(0, Math.ceil(matchingQuestions.length / 4)) },
-      { name: 'B', questions: matchingQuestions.slice(Math.ceil(matchingQuestions.length / 4), Math.ceil(matchingQuestions.length / 2)) },
-      { name: 'C', questions: matchingQuestions.slice(Math.ceil(matchingQuestions.length / 2), Math.ceil(3 * matchingQuestions.length / 4)) },
-      { name: 'D', questions: matchingQuestions.slice(Math.ceil(3 * matchingQuestions.length / 4)) }
-    ];
-
-    sections.forEach(section => {
-      section.questions.forEach((question, idx) => {
-        const questionKey = `${section.name}-${idx + 1}`;
-        const userAnswer = answers[questionKey];
-        const correctAnswer = question.correctAnswer ?? -1;
-        
-        if (userAnswer === undefined) {
-          unattemptedCount++;
-        } else if (userAnswer === correctAnswer) {
-          correctCount++;
-        } else {
-          incorrectCount++;
-        }
-      });
-    });
-
-    const totalQuestions = matchingQuestions.length;
-    const score = correctCount;
-    const percentage = (score / totalQuestions) * 100;
-    const passed = percentage >= aptitude.passingScore;
-
-    // Score calculation completed
-
-    // Save test result (without storing correct answers - they're in questions data)
-    const warningsToSave = warnings || {
-      tabSwitch: { count: 0, maxAllowed: aptitude.warnings.tabSwitch, exceeded: false },
-      fullscreen: { count: 0, maxAllowed: aptitude.warnings.fullscreen, exceeded: false },
-      audio: { count: 0, maxAllowed: aptitude.warnings.audio, exceeded: false }
-    };
-    
-    console.log('💾 Actions: Saving warnings to database:', warningsToSave);
-    
     // Find and UPDATE existing test result instead of creating new one
     const existingTestResult = await TestResult.findOne({
       candidateId,
       aptitudeId,
       status: 'incomplete'
-    });
+    }).lean();
 
     if (!existingTestResult) {
       return { success: false, error: 'No active test session found. Please start the test first.' };
     }
+    // A test proctoring ended is closed by autoSaveTest, without the answers sent with it
+    if (existingTestResult.terminatedDueToWarnings) {
+      return { success: false, error: 'The test was ended by proctoring' };
+    }
+    const proctoringError = await checkProctoringSession('aptitude', aptitudeId, candidateId);
+    if (proctoringError) {
+      return { success: false, error: proctoringError };
+    }
 
-   
-    const finalStatus = terminatedDueToWarnings ? 'terminated' : 'completed';
-
-    
-    await TestResult.findByIdAndUpdate(
-      existingTestResult._id,
-      {
-        answers, 
-        score,
-        totalQuestions,
-        correctCount,
-        incorrectCount,
-        unattemptedCount,
-        percentage,
-        passed,
-        passingScore: aptitude.passingScore,
-        timeTaken,
-        submittedAt: new Date(),
-        status: finalStatus,
-        warnings: warningsToSave,
-        terminatedDueToWarnings: terminatedDueToWarnings || false,
-        terminationReason: terminationReason
-      },
-      { new: true }
-    );
-
-    console.log(' Test result updated successfully');
-    // Test result updated in database
+    const summary = await finishTestResult(aptitude, existingTestResult, answers);
 
+    // Rounds that do not show results immediately keep the score from the candidate
     return {
       success: true,
-      data: {
-        score,
-        totalQuestions,
-        correctCount,
-        incorrectCount,
-        unattemptedCount,
-        percentage,
-        passed,
-        passingScore: aptitude.passingScore,
-        timeTaken
-      }
+      data: aptitude.showResultImmediately ? { resultsPending: false, ...summary } : { resultsPending: true }
     };
 
   } catch (error) {
@@ -360,145 +399,53 @@ export async function submitTest(
   }
 }
 
-// Auto-save test when warnings exceeded
+// Closes a test the proctoring server terminated for exceeding the warning limits. Only the answers
+// saved before the termination are scored
 export async function autoSaveTest(
   aptitudeId: string,
-  candidateId: string,
-  answers: Record<string, number>,
-  timeTaken: number,
-  warnings: {
-    tabSwitch: { count: number; maxAllowed: number; exceeded: boolean };
-    fullscreen: { count: number; maxAllowed: number; exceeded: boolean };
-    audio: { count: number; maxAllowed: number; exceeded: boolean };
-  },
-  terminationReason: string
-): Promise<{success: boolean, data?: any, error?: string}> {
+  candidateId: string
+): Promise<{success: boolean, data?: SubmitTestData & { terminatedDueToWarnings: boolean; terminationReason: string }, error?: string}> {
   try {
     await connectToDatabase();
     
     // Get server session for authentication
-    const session = await getServerSession(authOptions);
+    const auth = await authorizeRole('candidate');
     
-    if (!session) {
-      return { 
-        success: false, 
-        error: 'Authentication required' 
-      };
+    if (auth.response) {
+      return auth.response;
     }
 
     // Verify the candidateId matches the authenticated user
-    if (session.user?._id !== candidateId) {
-      return { 
-        success: false, 
-        error: 'Unauthorized: Candidate ID mismatch' 
-      };
+    if (auth.userId !== candidateId) {
+      return createErrorResponse('Unauthorized', new AuthorizationError(403, 'Unauthorized: Candidate ID mismatch'));
     }
     
-    // Auto-saving test due to warnings exceeded
-
     // Get aptitude details
     const aptitude = await Aptitude.findById(aptitudeId);
     if (!aptitude) {
       return { success: false, error: 'Aptitude assessment not found' };
     }
 
-    // Get questions data for validation
-    if (!isValidQuestionsData(questionsData)) {
-      return { success: false, error: 'Invalid questions data' };
-    }
-
-    const questionsArray = questionsData.questions as AptitudeQuestion[];
-    const questionIds = aptitude.questionIds || [];
-    
-    // Filter questions based on aptitude
-    const matchingQuestions = questionsArray
-      .filter((q: AptitudeQuestion) => questionIds.includes(q.id))
-      .map(processQuestion);
-
-    // Calculate score with current answers
-    let correctCount = 0;
-    let incorrectCount = 0;
-    let unattemptedCount = 0;
-
-    // Create sections for scoring
-    const sections = [
-      { name: 'A', questions: matchingQuestions.slice(0, Math.ceil(matchingQuestions.length / 4)) },
-      { name: 'B', questions: matchingQuestions.slice(Math.ceil(matchingQuestions.length / 4), Math.ceil(matchingQuestions.length / 2)) },
-      { name: 'C', questions: matchingQuestions.slice(Math.ceil(matchingQuestions.length / 2), Math.ceil(3 * matchingQuestions.length / 4)) },
-      { name: 'D', questions: matchingQuestions.slice(Math.ceil(3 * matchingQuestions.length / 4)) }
-    ];
-
-    sections.forEach(section => {
-      section.questions.forEach((question, idx) => {
-        const questionKey = `${section.name}-${idx + 1}`;
-        const userAnswer = answers[questionKey];
-        const correctAnswer = question.correctAnswer ?? -1;
-        
-        if (userAnswer === undefined) {
-          unattemptedCount++;
-        } else if (userAnswer === correctAnswer) {
-          correctCount++;
-        } else {
-          incorrectCount++;
-        }
-      });
-    });
-
-    const totalQuestions = matchingQuestions.length;
-    const score = correctCount;
-    const percentage = (score / totalQuestions) * 100;
-    const passed = percentage >= aptitude.passingScore;
-
-    // Auto-save score calculation completed
-
-    // Find and UPDATE existing test result instead of creating new one
     const existingTestResult = await TestResult.findOne({
       candidateId,
       aptitudeId,
       status: 'incomplete'
-    });
+    }).lean();
 
     if (!existingTestResult) {
       return { success: false, error: 'No active test session found. Please start the test first.' };
     }
+    if (!existingTestResult.terminatedDueToWarnings) {
+      return { success: false, error: 'The test has not been terminated' };
+    }
 
-    // UPDATE existing record instead of creating new one
-    await TestResult.findByIdAndUpdate(
-      existingTestResult._id,
-      {
-        answers,
-        score,
-        totalQuestions,
-        correctCount,
-        incorrectCount,
-        unattemptedCount,
-        percentage,
-        passed,
-        passingScore: aptitude.passingScore,
-        timeTaken,
-        submittedAt: new Date(),
-        status: 'terminated', 
-        warnings,
-        terminatedDueToWarnings: true,
-        terminationReason
-      },
-      { new: true }
-    );
-
-    
+    const summary = await finishTestResult(aptitude, existingTestResult, {});
+    const terminationReason = existingTestResult.terminationReason || 'Test terminated due to warnings';
 
     return {
       success: true,
       data: {
-        score,
-        totalQuestions,
-        correctCount,
-        incorrectCount,
-        unattemptedCount,
-        percentage,
-        passed,
-        passingScore: aptitude.passingScore,
-        timeTaken,
+        ...(aptitude.showResultImmediately ? { resultsPending: false, ...summary } : { resultsPending: true }),
         terminatedDueToWarnings: true,
         terminationReason
       }
@@ -518,21 +465,25 @@ export async function startTestSession(aptitudeId: string): Promise<{success: bo
   try {
     await connectToDatabase();
     
-    const session = await getServerSession(authOptions);
-    if (!session?.user?._id) {
-      return { success: false, error: 'Authentication required' };
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
     }
 
-    const candidateId = session.user._id;
+    const candidateId = auth.userId;
 
-    // Check if test already started (incomplete and not terminated due to warnings)
+    // Check if test already started
     const existingResult = await TestResult.findOne({
       candidateId,
       aptitudeId,
-      status: 'incomplete',
-      terminatedDueToWarnings: { $ne: true }
+      status: 'incomplete'
     });
 
+    // A terminated test cannot be resumed or restarted
+    if (existingResult?.terminatedDueToWarnings) {
+      return { success: false, error: 'This test was terminated due to proctoring warnings.' };
+    }
+
     if (existingResult) {
       // Return existing start time and calculate remaining time from server
       const startTime = existingResult.startTime;
@@ -547,16 +498,10 @@ export async function startTestSession(aptitudeId: string): Promise<{success: bo
       const totalDurationMs = aptitude.duration * 60 * 1000;
       const timeLeft = Math.max(0, totalDurationMs - elapsed);
 
-      // If time has expired, mark test as completed and return error
+      // If time has expired, score the test with the answers saved so far and apply progression
       if (timeLeft <= 0) {
-        // Auto-submit the test as expired
-        await TestResult.findByIdAndUpdate(existingResult._id, {
-          status: 'completed',
-          submittedAt: new Date(),
-          terminatedDueToWarnings: false,
-          terminationReason: 'Time expired'
-        });
-        
+        await finishTestResult(aptitude, existingResult, {});
+
         return { 
           success: false, 
           error: 'Test time has expired. You cannot continue this test.' 
@@ -581,6 +526,11 @@ export async function startTestSession(aptitudeId: string): Promise<{success: bo
       return { success: false, error: 'Aptitude not found' };
     }
 
+    const windowError = await checkRoundWindow('aptitude', aptitudeId, candidateId);
+    if (windowError) {
+      return { success: false, error: windowError };
+    }
+
     // Create test result record with start time
     await TestResult.create({
       candidateId,
@@ -597,6 +547,8 @@ export async function startTestSession(aptitudeId: string): Promise<{success: bo
       timeTaken: 0,
       startTime, // Server timestamp
       status: 'incomplete',
+      currentSection: 0,
+      sectionProgress: [{ startedAt: startTime }],
       warnings: {
         tabSwitch: { count: 0, maxAllowed: aptitude.warnings.tabSwitch, exceeded: false },
         fullscreen: { count: 0, maxAllowed: aptitude.warnings.fullscreen, exceeded: false },
@@ -604,6 +556,8 @@ export async function startTestSession(aptitudeId: string): Promise<{success: bo
       },
       terminatedDueToWarnings: false
     });
+    // Proctoring starts with the test, whether or not the browser ever reports to it
+    await openProctoringSession('aptitude', aptitudeId, candidateId);
 
     const totalDurationMs = aptitude.duration * 60 * 1000;
 
@@ -628,12 +582,12 @@ export async function getServerTimeLeft(aptitudeId: string): Promise<{success: b
   try {
     await connectToDatabase();
     
-    const session = await getServerSession(authOptions);
-    if (!session?.user?._id) {
-      return { success: false, error: 'Authentication required' };
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
     }
 
-    const candidateId = session.user._id;
+    const candidateId = auth.userId;
 
     const testResult = await TestResult.findOne({
       candidateId,
@@ -673,3 +627,190 @@ export async function getServerTimeLeft(aptitudeId: string): Promise<{success: b
   }
 }
 
+// Current section, section time left and saved answers of the candidate's running test
+export async function getSectionState(aptitudeId: string): Promise<{success: boolean, data?: SectionState, error?: string}> {
+  try {
+    await connectToDatabase();
+
+    const running = await loadRunningTest(aptitudeId);
+    if (running.response) {
+      return running.response;
+    }
+
+    const { aptitude, testResult } = running;
+    const { sections, session, testDeadline } = await syncTestSession(aptitude, testResult);
+
+    return {
+      success: true,
+      data: toSectionState(sections, session, testDeadline, testResult.answers || {})
+    };
+
+  } catch (error) {
+    console.error('Error getting section state:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error occurred' 
+    };
+  }
+}
+
+// Saves one answer (or clears it with null). Only questions of the open section can be answered.
+export async function saveAnswer(
+  aptitudeId: string,
+  questionId: number,
+  answer: number | null
+): Promise<{success: boolean, data?: SectionState, error?: string}> {
+  try {
+    await connectToDatabase();
+
+    const running = await loadRunningTest(aptitudeId);
+    if (running.response) {
+      return running.response;
+    }
+
+    const { candidateId, aptitude, testResult } = running;
+    const proctoringError = await checkProctoringSession('aptitude', aptitudeId, candidateId);
+    if (proctoringError) {
+      return { success: false, error: proctoringError };
+    }
+
+    const now = new Date();
+    const { sections, session, testDeadline } = await syncTestSession(aptitude, testResult, now);
+    const answers = { ...(testResult.answers || {}) };
+
+    if (now >= testDeadline) {
+      return { success: false, error: 'Test time has expired' };
+    }
+    if (!isQuestionOpen(sections, session, questionId)) {
+      return {
+        success: false,
+        error: 'This section is locked',
+        data: toSectionState(sections, session, testDeadline, answers, now)
+      };
+    }
+    if (answer !== null && (!Number.isInteger(answer) || answer < 0)) {
+      return { success: false, error: 'Invalid answer' };
+    }
+
+    // The section filter stops a save racing with the section being locked
+    const update = answer === null
+      ? { $unset: { [`answers.${questionId}`]: '' } }
+      : { $set: { [`answers.${questionId}`]: answer } };
+    const saved = await TestResult.updateOne(
+      { _id: testResult._id, status: 'incomplete', currentSection: session.currentSection },
+      update
+    );
+    if (saved.matchedCount === 0) {
+      return { success: false, error: 'This section is locked' };
+    }
+
+    if (answer === null) {
+      delete answers[String(questionId)];
+    } else {
+      answers[String(questionId)] = answer;
+    }
+
+    return {
+      success: true,
+      data: toSectionState(sections, session, testDeadline, answers, now)
+    };
+
+  } catch (error) {
+    console.error('Error saving answer:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error occurred' 
+    };
+  }
+}
+
+// Locks the current section and moves the candidate to the next one. Locked sections cannot be reopened.
+export async function advanceSection(aptitudeId: string): Promise<{success: boolean, data?: SectionState, error?: string}> {
+  try {
+    await connectToDatabase();
+
+    const running = await loadRunningTest(aptitudeId);
+    if (running.response) {
+      return running.response;
+    }
+
+    const { aptitude, testResult } = running;
+    const now = new Date();
+    const { sections, session, testDeadline } = await syncTestSession(aptitude, testResult, now);
+    const previousSection = session.currentSection;
+
+    advanceSectionSession(sections, session, now);
+    if (session.currentSection !== previousSection) {
+      await TestResult.updateOne(
+        { _id: testResult._id, currentSection: previousSection },
+        { $set: session }
+      );
+    }
+
+    return {
+      success: true,
+      data: toSectionState(sections, session, testDeadline, testResult.answers || {}, now)
+    };
+
+  } catch (error) {
+    console.error('Error advancing section:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error occurred' 
+    };
+  }
+}
+
+/**
+ * Opens the proctoring session for the candidate's running test. Returns the token the browser
+ * reports warnings with; the server counts them against the round's warning limits.
+ */
+export async function startProctoring(
+  aptitudeId: string
+): Promise<{success: boolean, data?: ProctoringCredentials, error?: string}> {
+  try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
+    await connectToDatabase();
+    const credentials = await openProctoringSession('aptitude', aptitudeId, auth.userId);
+    if (!credentials) {
+      return { success: false, error: 'Test has not been started' };
+    }
+    return { success: true, data: credentials };
+  } catch (error) {
+    console.error('Error starting proctoring:', error);
+    return { success: false, error: 'Failed to start proctoring' };
+  }
+}
+
+/**
+ * Re-verifies the candidate's identity during the test against the face enrolled at the system check.
+ * A face that does not match is flagged on the test result.
+ */
+export async function verifyIdentity(
+  aptitudeId: string,
+  descriptor: number[]
+): Promise<{success: boolean, data?: IdentityCheckResult, error?: string}> {
+  try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+    if (!isFaceDescriptor(descriptor)) {
+      return { success: false, error: 'Invalid face data' };
+    }
+
+    await connectToDatabase();
+    const result = await verifyCandidateFace('aptitude', aptitudeId, auth.userId, descriptor);
+    if (!result) {
+      return { success: false, error: 'Test has not been started' };
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    console.error('Error verifying identity:', error);
+    return { success: false, error: 'Failed to verify identity' };
+  }
+}
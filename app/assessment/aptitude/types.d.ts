@@ -1,14 +1,5 @@
 import { Dispatch, SetStateAction } from 'react';
 // ===== CORE QUESTION TYPES =====
-export interface AptitudeQuestion {
-  id: number;
-  topic: string;
-  subtopic: string;
-  question: string;
-  options: string[];
-  correct_answer: string;
-}
-
 export interface ProcessedQuestion {
   id: number;
   text: string;
@@ -19,10 +10,19 @@ export interface ProcessedQuestion {
 // ===== SECTION TYPES =====
 export interface Section {
   name: string;
-  title: string;
+  description?: string;
+  timeLimit?: number;
   questions: ProcessedQuestion[];
 }
 
+// Server-side progress of a running test
+export interface SectionState {
+  currentSection: number; // equals the number of sections once every section is locked
+  lockedSections: number[];
+  sectionTimeLeft: number | null; // ms; null when the section has no time limit of its own
+  answers: Record<string, number>; // keyed by question ID
+}
+
 // ===== APTITUDE DATA TYPES =====
 export interface AptitudeData {
   _id: string;
@@ -41,6 +41,10 @@ export interface AptitudeData {
     tabSwitch: number;
     audio: number;
   };
+  negativeMarking: boolean;
+  negativeMarkingPercentage: number;
+  showResultImmediately: boolean;
+  allowReviewBeforeSubmit: boolean;
   matchingQuestions: number;
   allQuestions: ProcessedQuestion[];
 }
@@ -52,6 +56,34 @@ export interface FetchTestSessionResponse {
   error?: string;
 }
 
+// ===== RESULT TYPES =====
+export interface SectionScoreSummary {
+  name: string;
+  totalQuestions: number;
+  correctCount: number;
+  incorrectCount: number;
+  unattemptedCount: number;
+  score: number;
+  percentage: number;
+  weightage: number;
+}
+
+export interface TestResultSummary {
+  score: number;
+  totalQuestions: number;
+  correctCount: number;
+  incorrectCount: number;
+  unattemptedCount: number;
+  percentage: number;
+  passed: boolean;
+  passingScore: number;
+  timeTaken: number;
+  sectionScores: SectionScoreSummary[];
+}
+
+// Results are withheld from the candidate unless the round shows them immediately
+export type SubmitTestData = { resultsPending: true } | ({ resultsPending: false } & TestResultSummary);
+
 // ===== HOOK RETURN TYPES =====
 export interface UseTestQuestionsReturn {
   questions: ProcessedQuestion[];
@@ -91,7 +123,5 @@ export interface QuestionStats {
   unattempted: number;
 }
 
-// ===== UTILITY TYPES =====
-export type SectionName = 'A' | 'B' | 'C' | 'D';
 
 
@@ -2,12 +2,28 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Editor from '@monaco-editor/react';
-import axios from 'axios';
-import questionsData from '../questions.json';
-import { fetchCodingRoundById, CodingRoundDetails, saveCodeRun, saveCodeSubmission, getProblemStatus, updateTimer, getSavedTimer, markAssessmentAsSubmitted } from '../actions';
+import { generateStarterCode } from '@/lib/code-execution/signature';
+import { fetchCodingRoundById, fetchCodingProblems, CodingRoundDetails, saveCodeRun, saveCodeSubmission, getProblemStatus, updateTimer, getSavedTimer, markAssessmentAsSubmitted, startProctoring, verifyIdentity } from '../actions';
+import { WarningProvider, useWarningContext } from '@/lib/WarningContext';
+import ExamProtectionWrapper from '@/lib/ExamProtectionWrapper';
 import { Loader2, AlertTriangle, Clock, CheckCircle, AlertCircle, X } from 'lucide-react';
 import { toast } from 'sonner';
 
+// Closes the test when the proctoring server terminates it, and stops reporting warnings once it is submitted
+function ProctoringMonitor({ isSubmitted, onTerminated }: { isSubmitted: boolean; onTerminated: () => void }) {
+  const { isTerminated, endMonitoring } = useWarningContext();
+
+  useEffect(() => {
+    if (isTerminated && !isSubmitted) onTerminated();
+  }, [isTerminated, isSubmitted, onTerminated]);
+
+  useEffect(() => {
+    if (isSubmitted) endMonitoring();
+  }, [isSubmitted, endMonitoring]);
+
+  return null;
+}
+
 const Coding = () => {
   const params = useParams();
   const router = useRouter();
@@ -71,14 +87,9 @@ const Coding = () => {
         if (result.success && result.data) {
           setCodingRoundData(result.data);
           
-          // Filter questions based on problemIds from coding round
-          let filteredQuestions = questionsData;
-          if (result.data && result.data.manuallyAddProblems && result.data.problemIds.length > 0) {
-            // Use manually selected problems
-            filteredQuestions = questionsData.filter(q => 
-              result.data!.problemIds.includes(q.id)
-            );
-          }
+          // Problems for this round come from the server without their hidden test cases
+          const problemsResult = await fetchCodingProblems(params.id as string);
+          const filteredQuestions = problemsResult.success && problemsResult.data ? problemsResult.data : [];
           setAvailableQuestions(filteredQuestions);
           
           // Set first question as default only if not already set
@@ -93,7 +104,14 @@ const Coding = () => {
           
           // Check if assessment is already submitted from database
           const timerResult = await getSavedTimer(params.id as string);
-          if (timerResult.success && timerResult.data && timerResult.data.isSubmitted) {
+          if (timerResult.success && timerResult.data && timerResult.data.terminated && !timerResult.data.isSubmitted) {
+            // Terminated by the proctoring server before the page closed the test
+            await markAssessmentAsSubmitted(params.id as string);
+            setIsSubmitted(true);
+            setIsTimerActive(false);
+            setTimeRemaining(0);
+            toast.error('Assessment was terminated due to proctoring warnings');
+          } else if (timerResult.success && timerResult.data && timerResult.data.isSubmitted) {
             setIsSubmitted(true);
             setIsTimerActive(false);
             setTimeRemaining(0);
@@ -191,8 +209,9 @@ const Coding = () => {
     const savedCode = localStorage.getItem(lsKey);
     if (savedCode !== null) {
       setCode(savedCode);
-    } else if (currentQuestion && currentQuestion.starterCode[selectedLanguage]) {
-      setCode(currentQuestion.starterCode[selectedLanguage]);
+    } else if (currentQuestion) {
+      // Fall back to starter code generated from the problem signature
+      setCode(currentQuestion.starterCode[selectedLanguage] || generateStarterCode(currentQuestion.signature, selectedLanguage));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [questionId, selectedLanguage, currentQuestion]);
@@ -279,7 +298,12 @@ const Coding = () => {
     }
   };
 
-  const handleAutoSubmit = async () => {
+  // Submits the saved code of every problem (unless the test was terminated), marks the
+  // assessment as submitted and returns to the dashboard
+  const finishAssessment = async (
+    notice: () => void,
+    { submitCode, successMessage, redirectDelay }: { submitCode: boolean; successMessage: string; redirectDelay: number }
+  ) => {
     if (isSubmitted) return;
     
     setIsSubmitted(true);
@@ -291,17 +315,19 @@ const Coding = () => {
       timerUpdateRef.current = null;
     }
     
-    toast.warning('Time is up! Assessment will be submitted automatically.');
+    notice();
     
-    // Auto-submit all problems
-    for (const question of availableQuestions) {
-      const lsKey = `pg_code_q${question.id}_${selectedLanguage}`;
-      const savedCode = localStorage.getItem(lsKey);
-      if (savedCode) {
-        try {
-          await saveCodeSubmission(params.id as string, question.id, savedCode, selectedLanguage, null, false);
-        } catch (error) {
-          console.error('Error auto-submitting problem:', error);
+    // Submit all problems
+    if (submitCode) {
+      for (const question of availableQuestions) {
+        const lsKey = `pg_code_q${question.id}_${selectedLanguage}`;
+        const savedCode = localStorage.getItem(lsKey);
+        if (savedCode) {
+          try {
+            await saveCodeSubmission(params.id as string, question.id, savedCode, selectedLanguage);
+          } catch (error) {
+            console.error('Error submitting problem:', error);
+          }
         }
       }
     }
@@ -317,60 +343,30 @@ const Coding = () => {
     // Clear localStorage
     clearCodingRoundLocalStorage();
     
-    toast.success('Assessment submitted automatically due to time limit.');
+    toast.success(successMessage);
     
     // Redirect after a delay
     setTimeout(() => {
       router.push('/dashboard/candidate');
-    }, 3000);
+    }, redirectDelay);
   };
 
+  const handleAutoSubmit = () => finishAssessment(
+    () => toast.warning('Time is up! Assessment will be submitted automatically.'),
+    { submitCode: true, successMessage: 'Assessment submitted automatically due to time limit.', redirectDelay: 3000 }
+  );
+
   // Handle End Test button click
-  const handleEndTest = async () => {
-    if (isSubmitted) return;
-    
-    setIsSubmitted(true);
-    setIsTimerActive(false);
-    
-    // Clear timer update interval
-    if (timerUpdateRef.current) {
-      clearInterval(timerUpdateRef.current);
-      timerUpdateRef.current = null;
-    }
-    
-    toast.warning('Assessment ended by user.');
-    
-    // Submit all problems
-    for (const question of availableQuestions) {
-      const lsKey = `pg_code_q${question.id}_${selectedLanguage}`;
-      const savedCode = localStorage.getItem(lsKey);
-      if (savedCode) {
-        try {
-          await saveCodeSubmission(params.id as string, question.id, savedCode, selectedLanguage, null, false);
-        } catch (error) {
-          console.error('Error submitting problem:', error);
-        }
-      }
-    }
-    
-    // Mark assessment as submitted in database
-    try {
-      await markAssessmentAsSubmitted(params.id as string);
-      console.log('Assessment marked as submitted in database');
-    } catch (error) {
-      console.error('Failed to mark assessment as submitted:', error);
-    }
-    
-    // Clear localStorage
-    clearCodingRoundLocalStorage();
-    
-    toast.success('Assessment submitted successfully.');
-    
-    // Redirect after a delay
-    setTimeout(() => {
-      router.push('/dashboard/candidate');
-    }, 2000);
-  };
+  const handleEndTest = () => finishAssessment(
+    () => toast.warning('Assessment ended by user.'),
+    { submitCode: true, successMessage: 'Assessment submitted successfully.', redirectDelay: 2000 }
+  );
+
+  // The proctoring server terminated the test; code can no longer be submitted
+  const handleTerminated = () => finishAssessment(
+    () => toast.error('Assessment terminated due to proctoring warnings.'),
+    { submitCode: false, successMessage: 'Your answers up to the termination have been recorded.', redirectDelay: 3000 }
+  );
 
   const handleQuestionChange = (id: number) => {
     setQuestionId(id);
@@ -494,9 +490,14 @@ const Coding = () => {
   const getMonacoLanguage = (language: string) => {
     const languageMap: Record<string, string> = {
       cpp: 'cpp',
+      c: 'c',
       javascript: 'javascript',
+      typescript: 'typescript',
       python: 'python',
-      java: 'java'
+      java: 'java',
+      go: 'go',
+      ruby: 'ruby',
+      php: 'php'
     };
     return languageMap[language] || 'javascript';
   };
@@ -510,234 +511,40 @@ const Coding = () => {
     return colorMap[difficulty.toLowerCase()] || '#666';
   };
 
-  const compileCppCode = async (code: string, input: string) => {
-    try {
-      const submissionData = {
-        language_id: 54,
-        source_code: btoa(code),
-        stdin: btoa(input || ''),
-        expected_output: null
-      };
-
-      const response = await axios.post(
-        'http://13.200.255.237:2358/submissions?base64_encoded=true&wait=false&fields=*',
-        submissionData,
-        { headers: { 'Content-Type': 'application/json' } }
-      );
-
-      const token = response.data.token;
-      let result;
-      let attempts = 0;
-      const maxAttempts = 15;
-
-      while (attempts < maxAttempts) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-
-        const resultResponse = await axios.get(
-          `http://13.200.255.237:2358/submissions/${token}?base64_encoded=true&fields=*`
-        );
-
-        result = resultResponse.data;
-        if (result.stdout) result.stdout = atob(result.stdout);
-        if (result.stderr) result.stderr = atob(result.stderr);
-        if (result.compile_output) result.compile_output = atob(result.compile_output);
-
-        if (result.status && result.status.id > 2) {
-          break;
-        }
-
-        attempts++;
-      }
-
-      if (!result || (result.status && result.status.id <= 2)) {
-        return {
-          stdout: null,
-          stderr: null,
-          compile_output: 'Execution timed out while waiting for result',
-          status: { id: 13, description: 'Internal Error / Timeout' }
-        };
-      }
-
-      return result;
-    } catch (error) {
-      console.error('C++ Compilation Error:', error);
-      return {
-        stdout: null,
-        stderr: null,
-        compile_output: 'API connection failed',
-        status: { id: 6, description: 'Compilation Error' }
-      };
-    }
-  };
-
-  const generateCppTestCode = (userCode: string, testCase: any) => {
-    const config = currentQuestion.executionConfig;
-    const includes = config.cppIncludes || ['iostream', 'vector'];
-    
-    let includeStatements = includes.map((inc: string) => `#include <${inc}>`).join('\n');
-    includeStatements += '\nusing namespace std;\n\n';
-
-    // Replace template placeholders with actual values
-    let testBody = config.cppTestTemplate;
-    
-    // Handle nested properties like input.nums, input.target
-    testBody = testBody.replace(/\$\{input\.(\w+)\}/g, (match: string, prop: string) => {
-      const value = testCase.input[prop];
-      if (Array.isArray(value)) {
-        return value.join(', ');
-      }
-      if (typeof value === 'string') {
-        return value;
-      }
-      return value;
-    });
-
-    return `${includeStatements}${userCode}\n\nint main() {\n${testBody}\n    return 0;\n}`;
-  };
-
-  const executeTest = async (testCase: any, userCode: any) => {
-    try {
-      const { input, expected } = testCase;
-      let result;
-      let error = null;
-      let time = null;
-      let memory = null;
-
-      if (selectedLanguage === 'cpp') {
-        const completeCode = generateCppTestCode(userCode, testCase);
-        const compilationResult = await compileCppCode(completeCode, '');
-        
-        if (compilationResult.status && compilationResult.status.id === 6) {
-          error = compilationResult.compile_output || 'Compilation failed';
-          result = null;
-        } else if (compilationResult.stderr && compilationResult.stderr.trim() !== '') {
-          error = compilationResult.stderr;
-          result = null;
-        } else if (compilationResult.status && compilationResult.status.id !== 3) {
-          error = compilationResult.status.description || 'Execution failed';
-          result = null;
-        } else if (compilationResult.stdout) {
-          try {
-            result = JSON.parse(compilationResult.stdout.trim());
-          } catch {
-            result = compilationResult.stdout.trim();
-          }
-        } else {
-          result = null;
-        }
-
-        if (typeof compilationResult?.time !== 'undefined') time = compilationResult.time;
-        if (typeof compilationResult?.memory !== 'undefined') memory = compilationResult.memory;
-      } else {
-        // For non-C++ languages, check if code is placeholder
-        if (userCode.toString().includes('// Your code here') || 
-            userCode.toString().includes('# Your code here') || 
-            userCode.toString().includes('pass')) {
-          result = null;
-        } else {
-          // Mock execution - in real implementation, call backend
-          result = expected;
-        }
-      }
-
-      const passed = !error && JSON.stringify(result) === JSON.stringify(expected);
-      
-      return {
-        input,
-        expected,
-        actual: result,
-        passed,
-        error,
-        time,
-        memory
-      };
-    } catch (error) {
-      return {
-        input: testCase.input,
-        expected: testCase.expected,
-        actual: null,
-        passed: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        time: null,
-        memory: null
-      };
-    }
-  };
-
   const runCode = async () => {
     try {
       setIsRunning(true);
       setTestResults({ loading: true });
-      const testCases = currentQuestion.testCases || [];
-      
-      let userFunction;
-      if (selectedLanguage === 'javascript') {
-        const functionMatch = code.match(/var\s+\w+\s*=\s*function\s*\([^)]*\)\s*{[\s\S]*}/);
-        if (functionMatch) {
-          try {
-            eval(`userFunction = ${functionMatch[0]}`);
-        } catch {
-          userFunction = () => null;
-        }
-        } else {
-          userFunction = () => null;
-        }
-      } else {
-        userFunction = { toString: () => code };
-      }
 
-      const results = [];
-      for (const testCase of testCases) {
-        const result = await executeTest(testCase, selectedLanguage === 'cpp' ? code : userFunction);
-        results.push(result);
-        if (selectedLanguage === 'cpp' && result.error && /Compilation/i.test(result.error)) {
-          break;
-        }
+      // Code is executed in the server sandbox; the run is persisted with its real results
+      const response = await saveCodeRun(params.id as string, questionId, code, selectedLanguage);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || response.message || 'Failed to run code');
       }
 
-        const allPassed = results.every((result: any) => result.passed);
-        const passedCount = results.filter((r: any) => r.passed).length;
-      const lastWithMetrics = [...results].reverse().find((r: any) => r.time !== null || r.memory !== null);
-      const lastTime = lastWithMetrics?.time ?? null;
-      const lastMemory = lastWithMetrics?.memory ?? null;
-      
+      const { results, allPassed, totalTests, passedTests, lastTime, lastMemory } = response.data;
       setTestResults({
         results,
         allPassed,
-        totalTests: results.length,
-        passedTests: passedCount,
+        totalTests,
+        passedTests,
         lastTime,
         lastMemory,
         loading: false
       });
-      
-      // Save code run
-      try {
-        await saveCodeRun(
-          params.id as string,
-          questionId,
-          code,
-          selectedLanguage,
-          { results, allPassed, totalTests: results.length, passedTests: passedCount },
-          allPassed
-        );
-        
-        // Update problem status - only mark as attempted when running, not solved
-        setProblemStatus(prev => ({
-          ...prev,
-          [questionId]: 'attempted'
-        }));
-        
-        if (allPassed) {
-          toast.success('All test cases passed!');
-        } else {
-          toast.warning(`${passedCount}/${results.length} test cases passed`);
-        }
-      } catch (error) {
-        console.error('Error saving code run:', error);
-        toast.error('Failed to save code run');
+
+      // Update problem status - only mark as attempted when running, not solved
+      setProblemStatus(prev => ({
+        ...prev,
+        [questionId]: 'attempted'
+      }));
+
+      if (allPassed) {
+        toast.success('All test cases passed!');
+      } else {
+        toast.warning(`${passedTests}/${totalTests} test cases passed`);
       }
-      
+
       setActiveTab('testcase');
     } catch (error) {
       setTestResults({
@@ -759,44 +566,46 @@ const Coding = () => {
       toast.warning('Assessment already submitted!');
       return;
     }
-    
-    await runCode();
-    
-    setTimeout(async () => {
-      try {
-        // Save code submission
-        await saveCodeSubmission(
-          params.id as string,
-          questionId,
-          code,
-          selectedLanguage,
-          testResults ? { 
-            results: testResults.results, 
-            allPassed: testResults.allPassed, 
-            totalTests: testResults.totalTests, 
-            passedTests: testResults.passedTests 
-          } : null,
-          testResults?.allPassed || false
-        );
-        
-        // Update problem status
-        setProblemStatus(prev => ({
-          ...prev,
-          [questionId]: testResults?.allPassed ? 'solved' : 'attempted'
-        }));
-        
-        if (testResults && testResults.allPassed) {
-          toast.success('🎉 Accepted! All test cases passed!');
-        } else if (testResults?.results?.some((r: any) => r.error && /Compilation/i.test(r.error))) {
-          toast.error('❌ Compilation Error. Please fix the errors and try again.');
-        } else {
-          toast.error('❌ Wrong Answer. Please check your solution.');
-        }
-      } catch (error) {
-        console.error('Error saving code submission:', error);
-        toast.error('Failed to save submission');
+
+    try {
+      setIsRunning(true);
+      setTestResults({ loading: true });
+
+      const response = await saveCodeSubmission(params.id as string, questionId, code, selectedLanguage);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || response.message || 'Failed to submit code');
+      }
+
+      const summary = response.data;
+      setTestResults({ ...summary, isSubmission: true, loading: false });
+      setActiveTab('testcase');
+
+      // Update problem status
+      setProblemStatus(prev => ({
+        ...prev,
+        [questionId]: summary.allPassed ? 'solved' : 'attempted'
+      }));
+
+      if (summary.allPassed) {
+        toast.success('🎉 Accepted! All test cases passed!');
+      } else if (summary.results.some(r => r.status === 'compile_error')) {
+        toast.error('❌ Compilation Error. Please fix the errors and try again.');
+      } else {
+        toast.error(`❌ Wrong Answer. Score: ${summary.score}%`);
       }
-    }, 100);
+    } catch (error) {
+      console.error('Error saving code submission:', error);
+      setTestResults({
+        results: [],
+        allPassed: false,
+        totalTests: 0,
+        passedTests: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        loading: false
+      });
+      toast.error('Failed to save submission');
+    }
+    setIsRunning(false);
   };
 
   const renderTestResults = () => {
@@ -815,9 +624,9 @@ const Coding = () => {
             <span className="inline-block w-4 h-4 rounded-full border-2 border-blue-400 border-t-transparent animate-spin" style={{animation: 'spin 1s linear infinite'}}></span>
             <span>Compiling and running your code...</span>
           </div>
-          {selectedLanguage === 'cpp' && (
+          {['cpp', 'c', 'java', 'go', 'typescript'].includes(selectedLanguage) && (
             <div className="text-xs text-gray-400">
-              C++ compilation may take a few seconds
+              Compilation may take a few seconds
             </div>
           )}
         </div>
@@ -848,6 +657,14 @@ const Coding = () => {
           <div className="text-sm mt-1">
             {testResults.passedTests}/{testResults.totalTests} test cases passed
           </div>
+          {testResults.isSubmission && (
+            <div className="text-sm mt-1">
+              Score: {testResults.score}%{testResults.hiddenTests > 0 ? ` · Hidden tests: ${testResults.hiddenPassed}/${testResults.hiddenTests} passed` : ''}
+            </div>
+          )}
+          {!testResults.isSubmission && (
+            <div className="text-xs mt-1 text-gray-300">Sample tests only. Submit to run the hidden tests.</div>
+          )}
           {(typeof testResults.lastMemory !== 'undefined' && testResults.lastMemory !== null) && (
             <div className="text-xs mt-1 text-gray-300">Memory: {testResults.lastMemory} KB{(typeof testResults.lastTime !== 'undefined' && testResults.lastTime !== null) ? ` · Time: ${testResults.lastTime}s` : ''}</div>
           )}
@@ -860,7 +677,7 @@ const Coding = () => {
               : 'bg-red-500/10 border-l-red-500'
           }`}>
             <div className="flex items-center gap-2 mb-2 font-semibold">
-              <span>Test Case {index + 1}</span>
+              <span>{result.hidden ? `Hidden Test ${index + 1}` : `Test Case ${index + 1}`}</span>
               <span className={`px-2 py-1 rounded text-xs font-medium uppercase ${
                 result.passed 
                   ? 'bg-green-500 text-white' 
@@ -873,9 +690,21 @@ const Coding = () => {
               )}
             </div>
             <div className="text-sm text-gray-300 space-y-1">
-              <div><strong>Input:</strong> {JSON.stringify(result.input)}</div>
-              <div><strong>Expected:</strong> {JSON.stringify(result.expected)}</div>
-              <div><strong>Output:</strong> {JSON.stringify(result.actual)}</div>
+              {!result.hidden && (
+                <>
+                  <div><strong>Input:</strong> {JSON.stringify(result.input)}</div>
+                  <div><strong>Expected:</strong> {JSON.stringify(result.expected)}</div>
+                  <div><strong>Output:</strong> {JSON.stringify(result.actual)}</div>
+                </>
+              )}
+              {result.stdout && (
+                <div className="mt-2">
+                  <strong>Stdout:</strong>
+                  <div className="mt-1 p-2 bg-gray-800 border border-gray-700 rounded text-gray-300 font-mono text-xs whitespace-pre-wrap overflow-x-auto">
+                    {result.stdout}
+                  </div>
+                </div>
+              )}
               {result.error && (
                 <div className="mt-2">
                   <strong>Error:</strong> 
@@ -962,310 +791,317 @@ const Coding = () => {
   }
 
   return (
-    <div className={`flex h-screen bg-gray-900 text-gray-300 font-sans ${
-      isResizing || isVerticalResizing ? 'select-none' : ''
-    }`}>
-      {/* Header with coding round info */}
-      <div className="absolute top-0 left-0 right-0 bg-gray-800 border-b border-gray-700 p-3 z-20">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <h1 className="text-lg font-semibold text-white">Coding Assessment</h1>
-            <div className="flex items-center gap-2 text-sm text-gray-400">
-              <span>Duration: {codingRoundData?.duration || 0} minutes</span>
-              <span>•</span>
-              <span>Problems: {availableQuestions.length}/{codingRoundData?.totalProblems || 0}</span>
-              <span>•</span>
-              <span>Passing Score: {codingRoundData?.passingScore || 0}%</span>
-            </div>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center gap-2 text-sm text-gray-400">
-              <span>Languages: {codingRoundData?.languages?.join(', ') || 'Multiple'}</span>
-            </div>
-            {/* Timer */}
-            <div className={`flex items-center gap-2 px-3 py-1 rounded-lg ${
-              timeRemaining < 300 ? 'bg-red-500/20 text-red-400' : 
-              timeRemaining < 600 ? 'bg-yellow-500/20 text-yellow-400' : 
-              'bg-green-500/20 text-green-400'
-            }`}>
-              <Clock className="h-4 w-4" />
-              <span className="font-mono text-sm">
-                {Math.floor(timeRemaining / 60)}:{(timeRemaining % 60).toString().padStart(2, '0')}
-              </span>
-            </div>
+    <WarningProvider
+      roundId={params.id as string}
+      startProctoring={startProctoring}
+      verifyIdentity={verifyIdentity}
+      tabSwitchLimit={codingRoundData?.warnings.tabSwitch ?? 0}
+      fullscreenExitLimit={codingRoundData?.warnings.fullscreen ?? 0}
+      audioWarningLimit={codingRoundData?.warnings.audio ?? 0}
+    >
+      <ExamProtectionWrapper countdownSeconds={10}>
+        <ProctoringMonitor isSubmitted={isSubmitted} onTerminated={handleTerminated} />
+        <div className={`flex h-screen bg-gray-900 text-gray-300 font-sans ${
+          isResizing || isVerticalResizing ? 'select-none' : ''
+        }`}>
+          {/* Header with coding round info */}
+          <div className="absolute top-0 left-0 right-0 bg-gray-800 border-b border-gray-700 p-3 z-20">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-4">
+                <h1 className="text-lg font-semibold text-white">Coding Assessment</h1>
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <span>Duration: {codingRoundData?.duration || 0} minutes</span>
+                  <span>•</span>
+                  <span>Problems: {availableQuestions.length}/{codingRoundData?.totalProblems || 0}</span>
+                  <span>•</span>
+                  <span>Passing Score: {codingRoundData?.passingScore || 0}%</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <span>Languages: {codingRoundData?.languages?.join(', ') || 'Multiple'}</span>
+                </div>
+                {/* Timer */}
+                <div className={`flex items-center gap-2 px-3 py-1 rounded-lg ${
+                  timeRemaining < 300 ? 'bg-red-500/20 text-red-400' : 
+                  timeRemaining < 600 ? 'bg-yellow-500/20 text-yellow-400' : 
+                  'bg-green-500/20 text-green-400'
+                }`}>
+                  <Clock className="h-4 w-4" />
+                  <span className="font-mono text-sm">
+                    {Math.floor(timeRemaining / 60)}:{(timeRemaining % 60).toString().padStart(2, '0')}
+                  </span>
+                </div>
             
-            {/* End Test Button */}
-            <button
-              onClick={handleEndTest}
-              disabled={isSubmitted}
-              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                isSubmitted 
-                  ? 'bg-gray-600 text-gray-400 cursor-not-allowed' 
-                  : 'bg-red-600 hover:bg-red-700 text-white hover:shadow-lg'
-              }`}
-            >
-              <X className="h-4 w-4" />
-              <span>{isSubmitted ? 'Submitted' : 'End Test'}</span>
-            </button>
-          </div>
-        </div>
-      </div>
-
-      <div 
-        className="bg-gray-800 border-r border-gray-700 overflow-y-auto flex flex-col min-w-[200px] max-w-[80%] mt-12"
-        style={{ width: `${leftPanelWidth}%` }}
-      >
-        <div className="p-4 border-b border-gray-700 bg-gray-800">
-          <div className="mb-2">
-            <label className="text-sm text-gray-400">Problem Selection</label>
-            <div className="text-xs text-gray-500">
-              {codingRoundData?.manuallyAddProblems ? 'Manually Selected' : 'Randomized'} • 
-              {availableQuestions.length} of {codingRoundData?.totalProblems || 0} problems
+                {/* End Test Button */}
+                <button
+                  onClick={handleEndTest}
+                  disabled={isSubmitted}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    isSubmitted 
+                      ? 'bg-gray-600 text-gray-400 cursor-not-allowed' 
+                      : 'bg-red-600 hover:bg-red-700 text-white hover:shadow-lg'
+                  }`}
+                >
+                  <X className="h-4 w-4" />
+                  <span>{isSubmitted ? 'Submitted' : 'End Test'}</span>
+                </button>
+              </div>
             </div>
           </div>
-          <select 
-            value={questionId} 
-            onChange={(e) => handleQuestionChange(parseInt(e.target.value))}
-            className="w-full p-2 bg-gray-700 text-gray-300 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+
+          <div 
+            className="bg-gray-800 border-r border-gray-700 overflow-y-auto flex flex-col min-w-[200px] max-w-[80%] mt-12"
+            style={{ width: `${leftPanelWidth}%` }}
           >
-            {availableQuestions.map((question) => {
-              const status = problemStatus[question.id] || 'not-attempted';
-              return (
-                <option key={question.id} value={question.id}>
-                  {question.id}. {question.title} {status === 'solved' ? '✓' : status === 'attempted' ? '!' : ''}
-                </option>
-              );
-            })}
-          </select>
-        </div>
+            <div className="p-4 border-b border-gray-700 bg-gray-800">
+              <div className="mb-2">
+                <label className="text-sm text-gray-400">Problem Selection</label>
+                <div className="text-xs text-gray-500">
+                  {codingRoundData?.manuallyAddProblems ? 'Manually Selected' : 'Randomized'} • 
+                  {availableQuestions.length} of {codingRoundData?.totalProblems || 0} problems
+                </div>
+              </div>
+              <select 
+                value={questionId} 
+                onChange={(e) => handleQuestionChange(parseInt(e.target.value))}
+                className="w-full p-2 bg-gray-700 text-gray-300 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+              >
+                {availableQuestions.map((question) => {
+                  const status = problemStatus[question.id] || 'not-attempted';
+                  return (
+                    <option key={question.id} value={question.id}>
+                      {question.id}. {question.title} {status === 'solved' ? '✓' : status === 'attempted' ? '!' : ''}
+                    </option>
+                  );
+                })}
+              </select>
+            </div>
 
-        <div className="p-5 flex-1">
-          <div className="flex items-center gap-3 mb-5">
-            <h2 className="text-xl font-semibold m-0">{currentQuestion.title}</h2>
-            <span 
-              className="px-3 py-1 rounded-full text-white text-xs font-medium uppercase"
-              style={{ backgroundColor: getDifficultyColor(currentQuestion.difficulty) }}
-            >
-              {currentQuestion.difficulty}
-            </span>
-            {/* Problem Status Indicator */}
-            {problemStatus[questionId] && (
-              <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
-                problemStatus[questionId] === 'solved' 
-                  ? 'bg-green-500/20 text-green-400' 
-                  : problemStatus[questionId] === 'attempted'
-                  ? 'bg-yellow-500/20 text-yellow-400'
-                  : 'bg-gray-500/20 text-gray-400'
-              }`}>
-                {problemStatus[questionId] === 'solved' ? (
-                  <>
-                    <CheckCircle className="h-3 w-3" />
-                    <span>Solved</span>
-                  </>
-                ) : problemStatus[questionId] === 'attempted' ? (
-                  <>
-                    <AlertCircle className="h-3 w-3" />
-                    <span>Attempted</span>
-                  </>
-                ) : null}
+            <div className="p-5 flex-1">
+              <div className="flex items-center gap-3 mb-5">
+                <h2 className="text-xl font-semibold m-0">{currentQuestion.title}</h2>
+                <span 
+                  className="px-3 py-1 rounded-full text-white text-xs font-medium uppercase"
+                  style={{ backgroundColor: getDifficultyColor(currentQuestion.difficulty) }}
+                >
+                  {currentQuestion.difficulty}
+                </span>
+                {/* Problem Status Indicator */}
+                {problemStatus[questionId] && (
+                  <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+                    problemStatus[questionId] === 'solved' 
+                      ? 'bg-green-500/20 text-green-400' 
+                      : problemStatus[questionId] === 'attempted'
+                      ? 'bg-yellow-500/20 text-yellow-400'
+                      : 'bg-gray-500/20 text-gray-400'
+                  }`}>
+                    {problemStatus[questionId] === 'solved' ? (
+                      <>
+                        <CheckCircle className="h-3 w-3" />
+                        <span>Solved</span>
+                      </>
+                    ) : problemStatus[questionId] === 'attempted' ? (
+                      <>
+                        <AlertCircle className="h-3 w-3" />
+                        <span>Attempted</span>
+                      </>
+                    ) : null}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
 
-          <div className="mb-6 leading-relaxed">
-            <p className="text-sm m-0">{currentQuestion.description}</p>
-          </div>
+              <div className="mb-6 leading-relaxed">
+                <p className="text-sm m-0">{currentQuestion.description}</p>
+              </div>
 
-          <div className="mb-6">
-            <h3 className="text-base font-semibold text-white mb-4">Examples:</h3>
-            {currentQuestion.examples.map((example: any, index: number) => (
-              <div key={index} className="mb-4 p-4 bg-gray-900 rounded-lg border-l-4 border-blue-500">
-                <h4 className="text-sm font-semibold text-white mb-2 m-0">Example {index + 1}:</h4>
-                <div className="text-sm space-y-1">
-                  <div><strong>Input:</strong> {
-                    typeof example.input === 'string' 
-                      ? example.input 
-                      : JSON.stringify(example.input)
-                  }</div>
-                  <div><strong>Output:</strong> {
-                    typeof example.output === 'string' 
-                      ? example.output 
-                      : JSON.stringify(example.output)
-                  }</div>
-                  {example.explanation && (
-                    <div><strong>Explanation:</strong> {example.explanation}</div>
-                  )}
-                </div>
+              <div className="mb-6">
+                <h3 className="text-base font-semibold text-white mb-4">Examples:</h3>
+                {currentQuestion.examples.map((example: any, index: number) => (
+                  <div key={index} className="mb-4 p-4 bg-gray-900 rounded-lg border-l-4 border-blue-500">
+                    <h4 className="text-sm font-semibold text-white mb-2 m-0">Example {index + 1}:</h4>
+                    <div className="text-sm space-y-1">
+                      <div><strong>Input:</strong> {
+                        typeof example.input === 'string' 
+                          ? example.input 
+                          : JSON.stringify(example.input)
+                      }</div>
+                      <div><strong>Output:</strong> {
+                        typeof example.output === 'string' 
+                          ? example.output 
+                          : JSON.stringify(example.output)
+                      }</div>
+                      {example.explanation && (
+                        <div><strong>Explanation:</strong> {example.explanation}</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
 
-          <div>
-            <h3 className="text-base font-semibold text-white mb-3">Constraints:</h3>
-            <ul className="space-y-2">
-              {currentQuestion.constraints.map((constraint: any, index: number) => (
-                <li key={index} className="text-sm">{constraint}</li>
-              ))}
-            </ul>
+              <div>
+                <h3 className="text-base font-semibold text-white mb-3">Constraints:</h3>
+                <ul className="space-y-2">
+                  {currentQuestion.constraints.map((constraint: any, index: number) => (
+                    <li key={index} className="text-sm">{constraint}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
 
-      <div 
-        className={`w-1 bg-gray-700 cursor-col-resize relative z-10 transition-colors hover:bg-blue-500 ${
-          isResizing ? 'bg-blue-500' : ''
-        }`}
-        onMouseDown={handleMouseDown}
-      />
-
-      <div 
-        className="editor-panel bg-gray-900 flex flex-col min-w-[200px] max-w-[80%] mt-12"
-        style={{ width: `${100 - leftPanelWidth}%` }}
-      >
-        <div className="flex justify-between items-center p-3 bg-gray-800 border-b border-gray-700">
-          <div className="flex items-center gap-2 flex-wrap">
-            <select 
-              value={selectedLanguage} 
-              onChange={(e) => handleLanguageChange(e.target.value)}
-              className="p-1.5 bg-gray-700 text-gray-300 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
-            >
-              {codingRoundData?.languages.map((lang) => (
-                <option key={lang} value={lang}>
-                  {lang === 'javascript' ? 'JavaScript' :
-                   lang === 'python' ? 'Python' :
-                   lang === 'java' ? 'Java' :
-                   lang === 'cpp' ? 'C++' :
-                   lang === 'c' ? 'C' :
-                   lang === 'typescript' ? 'TypeScript' :
-                   lang === 'go' ? 'Go' :
-                   lang === 'ruby' ? 'Ruby' :
-                   lang === 'php' ? 'PHP' :
-                   lang.charAt(0).toUpperCase() + lang.slice(1)}
-                </option>
-              ))}
-            </select>
-            {selectedLanguage === 'cpp' && (
-              <span className="text-xs text-green-500 ml-2 italic">
-                ✅ Real C++ compiler ready!
-              </span>
-            )}
-          </div>
+          <div 
+            className={`w-1 bg-gray-700 cursor-col-resize relative z-10 transition-colors hover:bg-blue-500 ${
+              isResizing ? 'bg-blue-500' : ''
+            }`}
+            onMouseDown={handleMouseDown}
+          />
 
-          <div className="flex items-center gap-4">
-            <div className="flex items-center gap-1.5">
-              <label className="text-xs text-gray-400">
-                Font Size:
-              </label>
-              <select 
-                value={fontSize} 
-                onChange={(e) => handleFontSizeChange(e.target.value)}
-                className="p-1 bg-gray-700 text-gray-300 border border-gray-600 rounded text-xs focus:outline-none focus:border-blue-500 min-w-[60px]"
-              >
-                <option value="10">10px</option>
-                <option value="11">11px</option>
-                <option value="12">12px</option>
-                <option value="13">13px</option>
-                <option value="14">14px</option>
-                <option value="15">15px</option>
-                <option value="16">16px</option>
-                <option value="17">17px</option>
-                <option value="18">18px</option>
-                <option value="20">20px</option>
-                <option value="22">22px</option>
-                <option value="24">24px</option>
-              </select>
-            </div>
-          </div>
+          <div 
+            className="editor-panel bg-gray-900 flex flex-col min-w-[200px] max-w-[80%] mt-12"
+            style={{ width: `${100 - leftPanelWidth}%` }}
+          >
+            <div className="flex justify-between items-center p-3 bg-gray-800 border-b border-gray-700">
+              <div className="flex items-center gap-2 flex-wrap">
+                <select 
+                  value={selectedLanguage} 
+                  onChange={(e) => handleLanguageChange(e.target.value)}
+                  className="p-1.5 bg-gray-700 text-gray-300 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+                >
+                  {codingRoundData?.languages.map((lang) => (
+                    <option key={lang} value={lang}>
+                      {lang === 'javascript' ? 'JavaScript' :
+                       lang === 'python' ? 'Python' :
+                       lang === 'java' ? 'Java' :
+                       lang === 'cpp' ? 'C++' :
+                       lang === 'c' ? 'C' :
+                       lang === 'typescript' ? 'TypeScript' :
+                       lang === 'go' ? 'Go' :
+                       lang === 'ruby' ? 'Ruby' :
+                       lang === 'php' ? 'PHP' :
+                       lang.charAt(0).toUpperCase() + lang.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-1.5">
+                  <label className="text-xs text-gray-400">
+                    Font Size:
+                  </label>
+                  <select 
+                    value={fontSize} 
+                    onChange={(e) => handleFontSizeChange(e.target.value)}
+                    className="p-1 bg-gray-700 text-gray-300 border border-gray-600 rounded text-xs focus:outline-none focus:border-blue-500 min-w-[60px]"
+                  >
+                    <option value="10">10px</option>
+                    <option value="11">11px</option>
+                    <option value="12">12px</option>
+                    <option value="13">13px</option>
+                    <option value="14">14px</option>
+                    <option value="15">15px</option>
+                    <option value="16">16px</option>
+                    <option value="17">17px</option>
+                    <option value="18">18px</option>
+                    <option value="20">20px</option>
+                    <option value="22">22px</option>
+                    <option value="24">24px</option>
+                  </select>
+                </div>
+              </div>
           
-          <div className="flex gap-3">
-            <button onClick={runCode} disabled={isRunning} className={`px-4 py-2 rounded text-sm font-medium transition-colors flex items-center gap-2 ${isRunning ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'} text-white`}>
-              {isRunning ? <span className="inline-block w-4 h-4 rounded-full border-2 border-white border-t-transparent animate-spin" style={{animation: 'spin 1s linear infinite'}}></span> : '▶'}
-              <span>Run</span>
-            </button>
-            <button 
-              onClick={submitCode} 
-              disabled={isRunning || isSubmitted} 
-              className={`px-4 py-2 rounded text-sm font-medium transition-colors flex items-center gap-2 ${
-                isRunning || isSubmitted ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600'
-              } text-white`}
+              <div className="flex gap-3">
+                <button onClick={runCode} disabled={isRunning} className={`px-4 py-2 rounded text-sm font-medium transition-colors flex items-center gap-2 ${isRunning ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'} text-white`}>
+                  {isRunning ? <span className="inline-block w-4 h-4 rounded-full border-2 border-white border-t-transparent animate-spin" style={{animation: 'spin 1s linear infinite'}}></span> : '▶'}
+                  <span>Run</span>
+                </button>
+                <button 
+                  onClick={submitCode} 
+                  disabled={isRunning || isSubmitted} 
+                  className={`px-4 py-2 rounded text-sm font-medium transition-colors flex items-center gap-2 ${
+                    isRunning || isSubmitted ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600'
+                  } text-white`}
+                >
+                  {isRunning ? (
+                    <span className="inline-block w-4 h-4 rounded-full border-2 border-white border-t-transparent animate-spin" style={{animation: 'spin 1s linear infinite'}}></span>
+                  ) : isSubmitted ? (
+                    <CheckCircle className="h-4 w-4" />
+                  ) : null}
+                  <span>{isSubmitted ? 'Submitted' : 'Submit'}</span>
+                </button>
+              </div>
+            </div>
+
+            <div 
+              className="bg-gray-900 overflow-hidden border-b border-gray-700"
+              style={{ height: `${100 - outputPanelHeight}%` }}
             >
-              {isRunning ? (
-                <span className="inline-block w-4 h-4 rounded-full border-2 border-white border-t-transparent animate-spin" style={{animation: 'spin 1s linear infinite'}}></span>
-              ) : isSubmitted ? (
-                <CheckCircle className="h-4 w-4" />
-              ) : null}
-              <span>{isSubmitted ? 'Submitted' : 'Submit'}</span>
-            </button>
-          </div>
-        </div>
+              <Editor
+                height="100%"
+                language={getMonacoLanguage(selectedLanguage)}
+                value={code}
+                onChange={handleCodeChange}
+                theme="vs-dark"
+                options={{
+                  fontSize: fontSize,
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                  automaticLayout: true,
+                  tabSize: 2,
+                  insertSpaces: true,
+                }}
+              />
+            </div>
 
-        <div 
-          className="bg-gray-900 overflow-hidden border-b border-gray-700"
-          style={{ height: `${100 - outputPanelHeight}%` }}
-        >
-          <Editor
-            height="100%"
-            language={getMonacoLanguage(selectedLanguage)}
-            value={code}
-            onChange={handleCodeChange}
-            theme="vs-dark"
-            options={{
-              fontSize: fontSize,
-              minimap: { enabled: false },
-              scrollBeyondLastLine: false,
-              automaticLayout: true,
-              tabSize: 2,
-              insertSpaces: true,
-            }}
-          />
-        </div>
+            <div 
+              className={`h-1 bg-gray-700 cursor-row-resize relative z-10 transition-colors hover:bg-blue-500 ${
+                isVerticalResizing ? 'bg-blue-500' : ''
+              }`}
+              onMouseDown={handleVerticalMouseDown}
+            />
 
-        <div 
-          className={`h-1 bg-gray-700 cursor-row-resize relative z-10 transition-colors hover:bg-blue-500 ${
-            isVerticalResizing ? 'bg-blue-500' : ''
-          }`}
-          onMouseDown={handleVerticalMouseDown}
-        />
-
-        <div 
-          className="bg-gray-900 flex flex-col min-h-[100px] max-h-[80%]"
-          style={{ height: `${outputPanelHeight}%` }}
-        >
-          <div className="p-3 bg-gray-800 border-b border-gray-700 flex items-center gap-3">
-            <div className="flex gap-1">
-              <button 
-                className={`px-3 py-1.5 text-xs rounded-t transition-colors ${
-                  activeTab === 'testcase' 
-                    ? 'bg-blue-500 text-white' 
-                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                }`}
-                onClick={() => setActiveTab('testcase')}
-              >
-                Testcase
-              </button>
-              <button 
-                className={`px-3 py-1.5 text-xs rounded-t transition-colors ${
-                  activeTab === 'result' 
-                    ? 'bg-blue-500 text-white' 
-                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                }`}
-                onClick={() => setActiveTab('result')}
-              >
-                Test Result
-              </button>
-            </div>
-          </div>
-          <div className="flex-1 p-4 overflow-y-auto font-mono text-sm leading-relaxed">
-            {activeTab === 'testcase' && renderTestResults()}
-            {activeTab === 'result' && (
-              <div className="p-5 text-center text-gray-400">
-                Detailed execution results will appear here after running your code.
+            <div 
+              className="bg-gray-900 flex flex-col min-h-[100px] max-h-[80%]"
+              style={{ height: `${outputPanelHeight}%` }}
+            >
+              <div className="p-3 bg-gray-800 border-b border-gray-700 flex items-center gap-3">
+                <div className="flex gap-1">
+                  <button 
+                    className={`px-3 py-1.5 text-xs rounded-t transition-colors ${
+                      activeTab === 'testcase' 
+                        ? 'bg-blue-500 text-white' 
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                    onClick={() => setActiveTab('testcase')}
+                  >
+                    Testcase
+                  </button>
+                  <button 
+                    className={`px-3 py-1.5 text-xs rounded-t transition-colors ${
+                      activeTab === 'result' 
+                        ? 'bg-blue-500 text-white' 
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                    onClick={() => setActiveTab('result')}
+                  >
+                    Test Result
+                  </button>
+                </div>
               </div>
-            )}
+              <div className="flex-1 p-4 overflow-y-auto font-mono text-sm leading-relaxed">
+                {activeTab === 'testcase' && renderTestResults()}
+                {activeTab === 'result' && (
+                  <div className="p-5 text-center text-gray-400">
+                    Detailed execution results will appear here after running your code.
+                  </div>
+                )}
+              </div>
+            </div>
           </div>
         </div>
-      </div>
-    </div>
+      </ExamProtectionWrapper>
+    </WarningProvider>
   );
 };
 
@@ -7,10 +7,21 @@ import {
   withDatabase,
   type ActionResponse 
 } from '@/utils/action-helpers';
-import { requireAuth } from '@/utils/auth-helpers';
+import { requireRole } from '@/utils/auth-helpers';
 import CodingModel from '@/models/coding.model';
-import CodingEvaluationModel, { CodeRun, CodeSubmission } from '@/models/codingEvaluation.model';
+import CodingEvaluationModel, { CodeRun, CodeSubmission, type CodingEvaluation } from '@/models/codingEvaluation.model';
+import AssessmentModel from '@/models/assesment.model';
 import mongoose from 'mongoose';
+import { redactHiddenResults, runTestCases } from '@/lib/code-execution/executor';
+import { isSupportedLanguage } from '@/lib/code-execution/languages';
+import { calculateRoundScore } from '@/lib/code-execution/scoring';
+import { handleRoundCompleted } from '@/lib/assessment/progression';
+import { checkRoundWindow } from '@/lib/assessment/schedule';
+import { getBuiltInProblems, getProblemsByIds } from '@/lib/code-execution/problemBank';
+import type { CodeExecutionSummary, CodingProblem } from '@/lib/code-execution/types';
+import { checkProctoringSession, openProctoringSession } from '@/lib/proctoring/session';
+import type { ProctoringCredentials } from '@/lib/proctoring/protocol';
+import { isFaceDescriptor, verifyCandidateFace, type IdentityCheckResult } from '@/lib/proctoring/identity';
 
 export interface CodingRoundDetails {
   _id: string;
@@ -47,11 +58,171 @@ export interface CodingRoundDetails {
   updatedAt: Date;
 }
 
+type CodingRoundConfig = {
+  languages?: string[];
+  compilerTimeout?: number;
+  memoryLimit?: number;
+  problemIds?: number[];
+  passingScore?: number;
+  difficultyWeightage?: { easy: number; medium: number; hard: number };
+  assessmentId?: mongoose.Types.ObjectId | null;
+};
+
+/**
+ * Problems served in a round, loaded from the problem bank by the round's problem IDs.
+ */
+async function getRoundProblems(codingRound: CodingRoundConfig): Promise<CodingProblem[]> {
+  if (codingRound.problemIds?.length) {
+    return getProblemsByIds(codingRound.problemIds);
+  }
+  // Rounds created before the problem bank did not store their randomized problems
+  return getBuiltInProblems();
+}
+
+/**
+ * Runs a candidate's code for a problem in the server sandbox using the
+ * round's language list, compiler timeout and memory limit.
+ * Hidden test cases are only executed for submissions.
+ */
+async function executeProblemTests(
+  codingRound: CodingRoundConfig,
+  problemId: number,
+  code: string,
+  language: string,
+  includeHidden: boolean
+): Promise<CodeExecutionSummary> {
+  const allowedLanguages = codingRound.languages?.length ? codingRound.languages : ['javascript'];
+  if (!allowedLanguages.includes(language) || !isSupportedLanguage(language)) {
+    throw new Error(`Language ${language} is not allowed in this coding round`);
+  }
+
+  const problem = (await getRoundProblems(codingRound)).find(q => q.id === problemId);
+  if (!problem) {
+    throw new Error('Problem not found');
+  }
+
+  const testCases = includeHidden ? problem.testCases : problem.testCases.filter(tc => !tc.hidden);
+
+  return runTestCases(problem, language, code, testCases, {
+    timeoutMs: (codingRound.compilerTimeout || 10) * 1000,
+    memoryLimitMb: codingRound.memoryLimit || 256
+  });
+}
+
+/**
+ * Evaluations are keyed by the job the assessment was created for so employers can filter by job.
+ */
+async function resolveJobId(codingRound: CodingRoundConfig): Promise<mongoose.Types.ObjectId | null> {
+  if (!codingRound.assessmentId) return null;
+  const assessment = await AssessmentModel.findById(codingRound.assessmentId).select('jobOpportunity').lean();
+  return assessment?.jobOpportunity ? new mongoose.Types.ObjectId(assessment.jobOpportunity) : null;
+}
+
+/**
+ * A round can only be started inside its scheduling window, and an attempt started inside it runs until
+ * its own timer ends. Checked on every access, run and submission before any evaluation is created, so
+ * an attempt started outside the window never unlocks the round.
+ * Returns the reason the round cannot be used, or null.
+ */
+async function checkCodingWindow(
+  codingRoundId: string,
+  candidateId: string,
+  evaluation: Pick<CodingEvaluation, 'createdAt'> | null
+): Promise<string | null> {
+  const startedAt = evaluation ? new Date(evaluation.createdAt) : new Date();
+  return checkRoundWindow('coding', codingRoundId, candidateId, startedAt);
+}
+
+/**
+ * The candidate's evaluation for the round, or null before they start it.
+ */
+function findCodingEvaluation(codingRoundId: string, candidateId: string) {
+  return CodingEvaluationModel.findOne({
+    candidateId: new mongoose.Types.ObjectId(candidateId),
+    codingRoundId: new mongoose.Types.ObjectId(codingRoundId)
+  });
+}
+
+/**
+ * Starts the candidate's attempt at the round. Its proctoring session is opened with it, so the
+ * heartbeat and warning limits apply whether or not the browser ever reports.
+ */
+async function createCodingEvaluation(
+  codingRound: CodingRoundConfig,
+  codingRoundId: string,
+  candidateId: string,
+  fields: Partial<Pick<CodingEvaluation, 'questionId' | 'language' | 'code' | 'timeLeft'>>
+) {
+  const evaluation = await CodingEvaluationModel.create({
+    candidateId: new mongoose.Types.ObjectId(candidateId),
+    jobId: await resolveJobId(codingRound),
+    codingRoundId: new mongoose.Types.ObjectId(codingRoundId),
+    assessmentId: codingRound.assessmentId,
+    questionId: 1, // Default question ID
+    language: 'javascript', // Default language
+    code: '', // Default empty code
+    results: null,
+    passed: false,
+    codeRuns: [],
+    codeSubmissions: [],
+    problemStatus: {},
+    isSubmitted: false,
+    ...fields
+  });
+  await openProctoringSession('coding', codingRoundId, candidateId);
+  return evaluation;
+}
+
+// Code sent as the timer runs out still counts
+const SUBMISSION_GRACE_MS = 30 * 1000;
+
+// Only an open test takes code, so a run or submission racing the final submit is dropped
+const OPEN_EVALUATION = { isSubmitted: { $ne: true }, terminatedDueToWarnings: { $ne: true } };
+
+/**
+ * Why the candidate's test takes no more code, or null while it is open. Tests close when the proctoring
+ * server terminates them, when they are submitted, and when the round's duration has passed since the
+ * candidate started.
+ */
+function getClosedReason(
+  evaluation: Pick<CodingEvaluation, 'isSubmitted' | 'terminatedDueToWarnings' | 'createdAt'> | null,
+  duration: number | undefined
+): string | null {
+  if (!evaluation) return null;
+  if (evaluation.terminatedDueToWarnings) return 'The test was terminated due to proctoring warnings';
+  if (evaluation.isSubmitted) return 'The test has already been submitted';
+
+  const deadline = new Date(evaluation.createdAt).getTime() + (duration || 60) * 60 * 1000;
+  return Date.now() > deadline + SUBMISSION_GRACE_MS ? 'Test time has expired' : null;
+}
+
+/**
+ * Recomputes the round score from the best score of each problem and
+ * marks the evaluation passed when it reaches the round's passing score.
+ */
+async function updateRoundScore(
+  evaluationId: mongoose.Types.ObjectId,
+  codingRound: CodingRoundConfig
+): Promise<{ score: number; passed: boolean }> {
+  const evaluation = await CodingEvaluationModel.findById(evaluationId).lean();
+  const problemScores = (evaluation?.problemScores || {}) as Record<string, number>;
+
+  const score = calculateRoundScore(
+    await getRoundProblems(codingRound),
+    problemScores,
+    codingRound.difficultyWeightage || { easy: 30, medium: 50, hard: 20 }
+  );
+  const passed = score >= (codingRound.passingScore ?? 70);
+
+  await CodingEvaluationModel.findByIdAndUpdate(evaluationId, { $set: { score, passed } });
+  return { score, passed };
+}
+
 export async function fetchCodingRoundById(
   codingRoundId: string
 ): Promise<ActionResponse<CodingRoundDetails>> {
   return safeAction(async () => {
-    await requireAuth(); // Ensure user is authenticated
+    const candidateId = await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
       return createErrorResponse('Invalid coding round ID');
@@ -61,24 +232,20 @@ export async function fetchCodingRoundById(
       const codingRound = await CodingModel.findById(codingRoundId).lean();
 
       if (!codingRound) {
-        console.log('Coding round not found for ID:', codingRoundId);
         return createErrorResponse('Coding round not found');
       }
 
-      console.log('Found coding round:', {
-        id: codingRound._id,
-        status: codingRound.status,
-        totalProblems: codingRound.totalProblems,
-        duration: codingRound.duration,
-        passingScore: codingRound.passingScore
-      });
-
       // Check if coding round is active (allow both active and inactive for now)
       if (codingRound.status !== 'active' && codingRound.status !== 'inactive') {
-        console.log('Coding round status is not active or inactive:', codingRound.status);
         return createErrorResponse(`Coding round is ${codingRound.status}. Only active or inactive rounds are allowed.`);
       }
 
+      const started = await findCodingEvaluation(codingRoundId, candidateId).select('createdAt').lean();
+      const windowError = await checkCodingWindow(codingRoundId, candidateId, started);
+      if (windowError) {
+        return createErrorResponse(windowError);
+      }
+
       const codingRoundDetails: CodingRoundDetails = {
         _id: codingRound._id.toString(),
         totalProblems: codingRound.totalProblems || 1,
@@ -123,7 +290,7 @@ export async function getAssessmentByCodingRoundId(
   codingRoundId: string
 ): Promise<ActionResponse<{ assessmentId: string; jobId: string }>> {
   return safeAction(async () => {
-    await requireAuth();
+    await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
       return createErrorResponse('Invalid coding round ID');
@@ -151,16 +318,47 @@ export async function getAssessmentByCodingRoundId(
   });
 }
 
+export async function fetchCodingProblems(
+  codingRoundId: string
+): Promise<ActionResponse<CodingProblem[]>> {
+  return safeAction(async () => {
+    const candidateId = await requireRole('candidate');
+
+    if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
+      return createErrorResponse('Invalid coding round ID');
+    }
+
+    return await withDatabase(async () => {
+      const codingRound = await CodingModel.findById(codingRoundId).lean();
+      if (!codingRound) {
+        return createErrorResponse('Coding round not found');
+      }
+
+      const started = await findCodingEvaluation(codingRoundId, candidateId).select('createdAt').lean();
+      const windowError = await checkCodingWindow(codingRoundId, candidateId, started);
+      if (windowError) {
+        return createErrorResponse(windowError);
+      }
+
+      // Hidden test cases never leave the server
+      const problems = (await getRoundProblems(codingRound)).map(problem => ({
+        ...problem,
+        testCases: problem.testCases.filter(tc => !tc.hidden)
+      }));
+
+      return createSuccessResponse('Coding problems fetched successfully', problems);
+    });
+  });
+}
+
 export async function saveCodeRun(
   codingRoundId: string,
   problemId: number,
   code: string,
-  language: string,
-  results?: any,
-  passed?: boolean
-): Promise<ActionResponse<{ success: boolean }>> {
+  language: string
+): Promise<ActionResponse<CodeExecutionSummary>> {
   return safeAction(async () => {
-    const candidateId = await requireAuth();
+    const candidateId = await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
       return createErrorResponse('Invalid coding round ID');
@@ -174,27 +372,33 @@ export async function saveCodeRun(
       }
 
       // Find or create coding evaluation record
-      let evaluation = await CodingEvaluationModel.findOne({
-        candidateId: new mongoose.Types.ObjectId(candidateId),
-        codingRoundId: new mongoose.Types.ObjectId(codingRoundId)
-      });
+      let evaluation = await findCodingEvaluation(codingRoundId, candidateId);
+
+      const windowError = await checkCodingWindow(codingRoundId, candidateId, evaluation);
+      if (windowError) {
+        return createErrorResponse(windowError);
+      }
 
+      const closedReason = getClosedReason(evaluation, codingRound.duration);
+      if (closedReason) {
+        return createErrorResponse(closedReason);
+      }
       if (!evaluation) {
-        evaluation = await CodingEvaluationModel.create({
-          candidateId: new mongoose.Types.ObjectId(candidateId),
-          jobId: codingRound.assessmentId ? new mongoose.Types.ObjectId(codingRound.assessmentId) : null,
-          codingRoundId: new mongoose.Types.ObjectId(codingRoundId),
-          assessmentId: codingRound.assessmentId,
+        evaluation = await createCodingEvaluation(codingRound, codingRoundId, candidateId, {
           questionId: problemId,
           language,
-          code,
-          results,
-          passed: passed || false,
-          codeRuns: [],
-          codeSubmissions: [],
-          problemStatus: {}
+          code
         });
       }
+      const proctoringError = await checkProctoringSession('coding', codingRoundId, candidateId);
+      if (proctoringError) {
+        return createErrorResponse(proctoringError);
+      }
+
+      // Results are always produced by server-side execution, never taken from the client.
+      // Runs only execute the visible sample tests.
+      const summary = await executeProblemTests(codingRound, problemId, code, language, false);
+      const passed = summary.allPassed;
 
       // Add code run
       const codeRun: CodeRun = {
@@ -202,12 +406,12 @@ export async function saveCodeRun(
         code,
         language,
         timestamp: new Date(),
-        results,
-        passed: passed || false
+        results: summary,
+        passed
       };
 
-      await CodingEvaluationModel.findByIdAndUpdate(
-        evaluation._id,
+      const saved = await CodingEvaluationModel.updateOne(
+        { _id: evaluation._id, ...OPEN_EVALUATION },
         {
           $push: { codeRuns: codeRun },
           $set: {
@@ -215,8 +419,11 @@ export async function saveCodeRun(
           }
         }
       );
+      if (saved.matchedCount === 0) {
+        return createErrorResponse('The test is no longer accepting code');
+      }
 
-      return createSuccessResponse('Code run saved successfully', { success: true });
+      return createSuccessResponse('Code run saved successfully', summary);
     });
   });
 }
@@ -225,12 +432,10 @@ export async function saveCodeSubmission(
   codingRoundId: string,
   problemId: number,
   code: string,
-  language: string,
-  results?: any,
-  passed?: boolean
-): Promise<ActionResponse<{ success: boolean }>> {
+  language: string
+): Promise<ActionResponse<CodeExecutionSummary>> {
   return safeAction(async () => {
-    const candidateId = await requireAuth();
+    const candidateId = await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
       return createErrorResponse('Invalid coding round ID');
@@ -244,27 +449,33 @@ export async function saveCodeSubmission(
       }
 
       // Find or create coding evaluation record
-      let evaluation = await CodingEvaluationModel.findOne({
-        candidateId: new mongoose.Types.ObjectId(candidateId),
-        codingRoundId: new mongoose.Types.ObjectId(codingRoundId)
-      });
+      let evaluation = await findCodingEvaluation(codingRoundId, candidateId);
+
+      const windowError = await checkCodingWindow(codingRoundId, candidateId, evaluation);
+      if (windowError) {
+        return createErrorResponse(windowError);
+      }
 
+      const closedReason = getClosedReason(evaluation, codingRound.duration);
+      if (closedReason) {
+        return createErrorResponse(closedReason);
+      }
       if (!evaluation) {
-        evaluation = await CodingEvaluationModel.create({
-          candidateId: new mongoose.Types.ObjectId(candidateId),
-          jobId: codingRound.assessmentId ? new mongoose.Types.ObjectId(codingRound.assessmentId) : null,
-          codingRoundId: new mongoose.Types.ObjectId(codingRoundId),
-          assessmentId: codingRound.assessmentId,
+        evaluation = await createCodingEvaluation(codingRound, codingRoundId, candidateId, {
           questionId: problemId,
           language,
-          code,
-          results,
-          passed: passed || false,
-          codeRuns: [],
-          codeSubmissions: [],
-          problemStatus: {}
+          code
         });
       }
+      const proctoringError = await checkProctoringSession('coding', codingRoundId, candidateId);
+      if (proctoringError) {
+        return createErrorResponse(proctoringError);
+      }
+
+      // Results are always produced by server-side execution, never taken from the client.
+      // Submissions are graded against the sample and hidden tests.
+      const summary = await executeProblemTests(codingRound, problemId, code, language, true);
+      const passed = summary.allPassed;
 
       // Add code submission
       const codeSubmission: CodeSubmission = {
@@ -272,21 +483,28 @@ export async function saveCodeSubmission(
         code,
         language,
         timestamp: new Date(),
-        results,
-        passed: passed || false
+        results: summary,
+        passed,
+        score: summary.score
       };
 
-      await CodingEvaluationModel.findByIdAndUpdate(
-        evaluation._id,
+      // Keep the best score per problem so a later, worse submission never lowers it, even when
+      // submissions race
+      const saved = await CodingEvaluationModel.updateOne(
+        { _id: evaluation._id, ...OPEN_EVALUATION },
         {
           $push: { codeSubmissions: codeSubmission },
-          $set: {
-            [`problemStatus.${problemId}`]: passed ? 'solved' : 'attempted'
-          }
+          $set: { [`problemStatus.${problemId}`]: passed ? 'solved' : 'attempted' },
+          $max: { [`problemScores.${problemId}`]: summary.score }
         }
       );
+      if (saved.matchedCount === 0) {
+        return createErrorResponse('The test is no longer accepting code');
+      }
+
+      await updateRoundScore(evaluation._id as mongoose.Types.ObjectId, codingRound);
 
-      return createSuccessResponse('Code submission saved successfully', { success: true });
+      return createSuccessResponse('Code submission saved successfully', redactHiddenResults(summary));
     });
   });
 }
@@ -295,7 +513,7 @@ export async function getProblemStatus(
   codingRoundId: string
 ): Promise<ActionResponse<{ [problemId: number]: 'solved' | 'attempted' | 'not-attempted' }>> {
   return safeAction(async () => {
-    const candidateId = await requireAuth();
+    const candidateId = await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
       return createErrorResponse('Invalid coding round ID');
@@ -318,9 +536,9 @@ export async function getProblemStatus(
 
 export async function getSavedTimer(
   codingRoundId: string
-): Promise<ActionResponse<{ timeLeft: number; exists: boolean; isSubmitted: boolean }>> {
+): Promise<ActionResponse<{ timeLeft: number; exists: boolean; isSubmitted: boolean; terminated: boolean }>> {
   return safeAction(async () => {
-    const candidateId = await requireAuth();
+    const candidateId = await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
       return createErrorResponse('Invalid coding round ID');
@@ -333,7 +551,7 @@ export async function getSavedTimer(
       }).lean();
 
       if (!evaluation) {
-        return createSuccessResponse('No saved timer found', { timeLeft: 0, exists: false, isSubmitted: false });
+        return createSuccessResponse('No saved timer found', { timeLeft: 0, exists: false, isSubmitted: false, terminated: false });
       }
 
       // Check if assessment is explicitly submitted using the isSubmitted flag
@@ -342,7 +560,8 @@ export async function getSavedTimer(
       return createSuccessResponse('Saved timer retrieved', { 
         timeLeft: evaluation.timeLeft || 0, 
         exists: true,
-        isSubmitted: isSubmitted
+        isSubmitted: isSubmitted,
+        terminated: evaluation.terminatedDueToWarnings || false
       });
     });
   });
@@ -353,7 +572,7 @@ export async function updateTimer(
   timeLeft: number
 ): Promise<ActionResponse<{ success: boolean }>> {
   return safeAction(async () => {
-    const candidateId = await requireAuth();
+    const candidateId = await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
       return createErrorResponse('Invalid coding round ID');
@@ -367,31 +586,18 @@ export async function updateTimer(
       }
 
       // Find or create coding evaluation record
-      let evaluation = await CodingEvaluationModel.findOne({
-        candidateId: new mongoose.Types.ObjectId(candidateId),
-        codingRoundId: new mongoose.Types.ObjectId(codingRoundId)
-      });
+      let evaluation = await findCodingEvaluation(codingRoundId, candidateId);
+
+      const windowError = await checkCodingWindow(codingRoundId, candidateId, evaluation);
+      if (windowError) {
+        return createErrorResponse(windowError);
+      }
 
       if (!evaluation) {
-        evaluation = await CodingEvaluationModel.create({
-          candidateId: new mongoose.Types.ObjectId(candidateId),
-          jobId: codingRound.assessmentId ? new mongoose.Types.ObjectId(codingRound.assessmentId) : null,
-          codingRoundId: new mongoose.Types.ObjectId(codingRoundId),
-          assessmentId: codingRound.assessmentId,
-          questionId: 1, // Default question ID
-          language: 'javascript', // Default language
-          code: '', // Default empty code
-          results: null,
-          passed: false,
-          codeRuns: [],
-          codeSubmissions: [],
-          problemStatus: {},
-          timeLeft: timeLeft,
-          isSubmitted: false
-        });
+        evaluation = await createCodingEvaluation(codingRound, codingRoundId, candidateId, { timeLeft });
       } else {
-        // Update existing evaluation with new time (only if not submitted)
-        if (!evaluation.isSubmitted) {
+        // Update existing evaluation with new time (only if not submitted or terminated)
+        if (!evaluation.isSubmitted && !evaluation.terminatedDueToWarnings) {
           await CodingEvaluationModel.findByIdAndUpdate(
             evaluation._id,
             { $set: { timeLeft: timeLeft } }
@@ -408,7 +614,7 @@ export async function markAssessmentAsSubmitted(
   codingRoundId: string
 ): Promise<ActionResponse<{ success: boolean }>> {
   return safeAction(async () => {
-    const candidateId = await requireAuth();
+    const candidateId = await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(codingRoundId)) {
       return createErrorResponse('Invalid coding round ID');
@@ -425,16 +631,75 @@ export async function markAssessmentAsSubmitted(
         return createErrorResponse('Evaluation record not found');
       }
 
-      // Mark as submitted
-      await CodingEvaluationModel.findByIdAndUpdate(
-        evaluation._id,
+      const codingRound = await CodingModel.findById(codingRoundId).lean();
+      if (!codingRound) {
+        return createErrorResponse('Coding round not found');
+      }
+
+      // Mark as submitted. Only the first submit scores the round and applies progression
+      const submitted = await CodingEvaluationModel.updateOne(
+        { _id: evaluation._id, isSubmitted: { $ne: true } },
         { $set: { isSubmitted: true, timeLeft: 0 } }
       );
+      if (submitted.modifiedCount === 0) {
+        return createSuccessResponse('Assessment already submitted', { success: true });
+      }
+
+      // Final round score, counting problems never submitted as 0
+      await updateRoundScore(evaluation._id as mongoose.Types.ObjectId, codingRound);
+
+      // Apply the round's progression rules and the overall result after the last round
+      if (codingRound.assessmentId) {
+        await handleRoundCompleted(codingRound.assessmentId, candidateId, 'coding')
+          .catch(error => console.error('Error applying round progression:', error));
+      }
 
       return createSuccessResponse('Assessment marked as submitted', { success: true });
     });
   });
 }
 
+/**
+ * Opens the proctoring session for the candidate's running test. Returns the token the browser
+ * reports warnings with; the server counts them against the round's warning limits.
+ */
+export async function startProctoring(
+  codingRoundId: string
+): Promise<ActionResponse<ProctoringCredentials>> {
+  return safeAction(async () => {
+    const candidateId = await requireRole('candidate');
+
+    return await withDatabase(async () => {
+      const credentials = await openProctoringSession('coding', codingRoundId, candidateId);
+      if (!credentials) {
+        return createErrorResponse('Test has not been started');
+      }
+      return createSuccessResponse('Proctoring started', credentials);
+    });
+  });
+}
+
+/**
+ * Re-verifies the candidate's identity during the test against the face enrolled at the system check.
+ * A face that does not match is flagged on the coding evaluation.
+ */
+export async function verifyIdentity(
+  codingRoundId: string,
+  descriptor: number[]
+): Promise<ActionResponse<IdentityCheckResult>> {
+  return safeAction(async () => {
+    const candidateId = await requireRole('candidate');
 
+    if (!isFaceDescriptor(descriptor)) {
+      return createErrorResponse('Invalid face data');
+    }
 
+    return await withDatabase(async () => {
+      const result = await verifyCandidateFace('coding', codingRoundId, candidateId, descriptor);
+      if (!result) {
+        return createErrorResponse('Test has not been started');
+      }
+      return createSuccessResponse('Identity checked', result);
+    });
+  });
+}
@@ -9,6 +9,8 @@ import React, { useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Mic, MicOff } from "lucide-react";
 import { hrInterviewAdapter } from "../adapter";
+import { createProctoringStream } from "@/lib/proctoring/client";
+import { startFaceVerification } from "@/lib/proctoring/faceIdentity";
 import VideoProcessing from "@/lib/video-processing";
 import HeaderBanner from "./_components/HeaderBanner";
 import SetupScreen from "./_components/SetupScreen";
@@ -142,6 +144,7 @@ export default function HRInterviewClient({
       startEvaluation: async (id: string) => {
         await hrInterviewAdapter.startEvaluation(id);
       },
+      checkVideoViolations: hrInterviewAdapter.checkVideoViolations,
       analyze: async (question: string, idealAnswer: string, userAnswer: string, queues: any, currentQuestion: any, interviewId: string) => {
         return await hrInterviewAdapter.analyze(question, idealAnswer, userAnswer, queues, currentQuestion, interviewId);
       },
@@ -288,20 +291,29 @@ export default function HRInterviewClient({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session.currentScreen, media]);
 
-  // Video log persistence
+  // Proctoring: stream video detections to the server, which counts violations
   useEffect(() => {
     if (session.currentScreen !== "interview") return;
 
-    const handleVideoLog = async (log: any) => {
-      const result = await actions.storeVideoLogs(interviewId, [log]);
-      if (!result.success) {
-        console.error("[HR Video] Failed to store log:", result.error);
-      }
-    };
+    const stream = createProctoringStream({
+      start: async () => {
+        const result = await actions.startProctoring(interviewId);
+        return result.success && result.credentials ? result.credentials : null;
+      },
+      onTerminated: () => {
+        console.warn("[HR Proctoring] Violation limit reached, ending interview");
+        flow.endInterview();
+      },
+    });
 
     const setupCallback = async () => {
       const { setLogCallback } = await import("@/lib/interview/videoQueueIntegration");
-      setLogCallback(handleVideoLog);
+      setLogCallback((log) => stream.report({
+        type: log.type,
+        mood: log.mood,
+        gesture: log.gesture,
+        objects: log.objects,
+      }));
     };
 
     setupCallback();
@@ -312,10 +324,18 @@ export default function HRInterviewClient({
         setLogCallback(null);
       };
       cleanup();
+      stream.close();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session.currentScreen, interviewId]);
 
+  // Identity: re-verify the candidate's face against the one enrolled at the system check
+  useEffect(() => {
+    if (session.currentScreen !== "interview") return;
+    return startFaceVerification((descriptor) => actions.verifyIdentity(interviewId, descriptor));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session.currentScreen, interviewId]);
+
   // Timer
   useEffect(() => {
     if (session.currentScreen !== "interview") return;
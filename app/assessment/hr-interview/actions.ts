@@ -26,7 +26,9 @@ export {
 // Analysis Actions
 export {
   analyzeAnswer,
-  checkVideoViolations
+  checkVideoViolations,
+  startProctoring,
+  verifyIdentity
 } from './actions/analysis.actions';
 
 // Storage Actions
@@ -40,8 +42,7 @@ export {
   updateAskedQuestion,
   removeAskedQuestion,
   getAskedQuestions,
-  markChunkPreprocessed,
-  storeVideoLogs
+  markChunkPreprocessed
 } from './actions/storage.actions';
 
 // Media Actions
@@ -2,6 +2,7 @@
 
 import { connectToDatabase } from "@/utils/connectDb";
 import HRInterviewModel from "@/models/hrInterview.model";
+import { authorizeRole } from "@/utils/auth-helpers";
 
 /**
  * HR Interview Config Actions
@@ -10,6 +11,11 @@ import HRInterviewModel from "@/models/hrInterview.model";
 
 export async function getInterviewConfig(interviewId: string) {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
     const config = await HRInterviewModel.findById(interviewId).lean();
     
@@ -2,9 +2,13 @@
 
 import { connectToDatabase } from "@/utils/connectDb";
 import HRInterviewEvaluationModel from "@/models/hrInterviewEvaluation.model";
+import HRInterviewModel from "@/models/hrInterview.model";
 import mongoose from "mongoose";
-import { requireAuth } from "@/utils/auth-helpers";
 import type { QuestionEntry } from "@/lib/interview/types";
+import { calculateInterviewScore } from "@/lib/assessment/overallResult";
+import { handleRoundCompleted } from "@/lib/assessment/progression";
+import { authorizeRole } from "@/utils/auth-helpers";
+import { checkProctoringSession, openProctoringSession } from "@/lib/proctoring/session";
 
 /**
  * HR Interview Evaluation Actions
@@ -17,12 +21,18 @@ export async function startEvaluation(
   jobId?: string | null
 ) {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
-    const candidateId = await requireAuth();
+    const candidateId = auth.userId;
     
     // Check if evaluation already exists for this interview and candidate
     const existingEvaluation = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: new mongoose.Types.ObjectId(hrInterviewId),
+      candidateId: new mongoose.Types.ObjectId(candidateId),
       status: { $in: ['in_progress', 'not_started'] }
     });
 
@@ -49,6 +59,8 @@ export async function startEvaluation(
       preprocessedChunks: [],
     });
     const id = (doc && (doc as any)._id) ? (doc as any)._id.toString() : undefined;
+    // Proctoring starts with the interview, whether or not the browser ever reports to it
+    await openProctoringSession('hrInterview', hrInterviewId, candidateId);
     console.log('[HR Evaluation] Created new evaluation:', id);
     return { success: true, evaluationId: id, resumed: false };
   } catch (error) {
@@ -62,7 +74,17 @@ export async function appendQA(
   entry: QuestionEntry
 ) {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
+
+    const proctoringError = await checkProctoringSession('hrInterview', hrInterviewId, auth.userId);
+    if (proctoringError) {
+      return { success: false, error: proctoringError };
+    }
     
     // Map QuestionEntry fields to database schema
     const dbEntry = {
@@ -85,7 +107,10 @@ export async function appendQA(
     };
 
     await HRInterviewEvaluationModel.findOneAndUpdate(
-      { hrInterviewId: new mongoose.Types.ObjectId(hrInterviewId) },
+      {
+        hrInterviewId: new mongoose.Types.ObjectId(hrInterviewId),
+        candidateId: new mongoose.Types.ObjectId(auth.userId)
+      },
       { $push: { entries: dbEntry } },
       { upsert: true, new: true }
     ).lean();
@@ -99,10 +124,19 @@ export async function appendQA(
 
 export async function completeInterview(interviewId: string): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
+    const candidateId = auth.userId;
     
     const result = await HRInterviewEvaluationModel.findOneAndUpdate(
-      { hrInterviewId: new mongoose.Types.ObjectId(interviewId) },
+      {
+        hrInterviewId: new mongoose.Types.ObjectId(interviewId),
+        candidateId: new mongoose.Types.ObjectId(candidateId)
+      },
       { 
         status: 'completed',
         endedAt: new Date()
@@ -114,6 +148,22 @@ export async function completeInterview(interviewId: string): Promise<{ success:
       return { success: false, error: 'Evaluation not found' };
     }
 
+    // Score the round from the answer evaluations when no overall score was produced
+    if (typeof result.overallScore !== 'number') {
+      await HRInterviewEvaluationModel.updateOne(
+        { _id: result._id },
+        { $set: { overallScore: calculateInterviewScore(result) } }
+      );
+    }
+
+    // Apply the round's progression rules and the overall result after the last round
+    const assessmentId = result.assessmentId
+      ?? (await HRInterviewModel.findById(interviewId).select('assessmentId').lean())?.assessmentId;
+    if (assessmentId) {
+      await handleRoundCompleted(assessmentId, candidateId, 'hrInterview')
+        .catch(error => console.error('[HR Evaluation] Error applying round progression:', error));
+    }
+
     console.log(`[HR Evaluation] ✓ Interview ${interviewId} marked as completed`);
     return { success: true };
   } catch (error) {
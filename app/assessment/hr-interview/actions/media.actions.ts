@@ -1,6 +1,7 @@
 "use server";
 
 import { S3Service } from "@/lib/s3Service";
+import { authorizeRole } from "@/utils/auth-helpers";
 
 /**
  * HR Interview Media Actions
@@ -9,6 +10,11 @@ import { S3Service } from "@/lib/s3Service";
 
 export async function deleteInterviewAudio(interviewId: string): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     const prefix = `hr-interview/${interviewId}/`;
     
     await S3Service.deleteByPrefix(prefix);
@@ -2,6 +2,7 @@
 
 import { buildQueue1Prompt, IDEAL_ANSWER_PROMPT } from "@/ai-engine/prompts/hrInterview";
 import { Question, Queues, ensureIds, callGeminiAPI } from "@/utils/interview";
+import { authorizeRole } from "@/utils/auth-helpers";
 
 /**
  * HR Interview Question Generation Actions
@@ -33,6 +34,11 @@ export async function generateQuestions(context: {
   resumeData?: ResumeData;
 }): Promise<{ success: boolean; queues?: Queues; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     // Validate required context
     if (!context.jobData || !context.resumeData) {
       return { 
@@ -93,6 +99,11 @@ export async function preprocessQuestion(questionText: string): Promise<{
   error?: string;
 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     console.log(`[HR Generation] Preprocessing question: "${questionText}"`);
     
     // For HR questions, use IDEAL_ANSWER_PROMPT to get evaluation criteria
@@ -8,8 +8,8 @@ import AssessmentModel from '@/models/assesment.model';
 import ApplicationModel from '@/models/application.model';
 import JobOpportunityModel from '@/models/jobOpportunity.model';
 import ResumeModel from '@/models/resume.model';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
+import { authorizeRole } from '@/utils/auth-helpers';
+import { checkRoundWindow } from '@/lib/assessment/schedule';
 
 export interface FetchInterviewSessionResponse {
   success: boolean;
@@ -38,17 +38,13 @@ export interface FetchInterviewSessionResponse {
  */
 export async function fetchInterviewSession(interviewId: string): Promise<FetchInterviewSessionResponse> {
   try {
-    await connectToDatabase();
-
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return { 
-        success: false, 
-        error: 'Authentication required' 
-      };
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
     }
 
+    await connectToDatabase();
+
     if (!interviewId) {
       return { 
         success: false, 
@@ -71,14 +67,7 @@ export async function fetchInterviewSession(interviewId: string): Promise<FetchI
       };
     }
 
-    const authenticatedCandidateId = session.user?._id;
-    
-    if (!authenticatedCandidateId) {
-      return { 
-        success: false, 
-        error: 'User ID not found in session' 
-      };
-    }
+    const authenticatedCandidateId = auth.userId;
     
     console.log('[HR Session] Validating candidate:', authenticatedCandidateId);
     console.log('[HR Session] For HR interview:', cleanInterviewId);
@@ -175,6 +164,17 @@ export async function fetchInterviewSession(interviewId: string): Promise<FetchI
       }
     }
 
+    // An interview that is not already running can only begin inside the round's scheduling window
+    if (existingEvaluation?.status !== 'in_progress' && !TESTING_MODE) {
+      const windowError = await checkRoundWindow('hrInterview', cleanInterviewId, authenticatedCandidateId);
+      if (windowError) {
+        return {
+          success: false,
+          error: windowError
+        };
+      }
+    }
+
     // Fetch job and resume data if assessmentId exists
     let jobData = null;
     let resumeData = null;
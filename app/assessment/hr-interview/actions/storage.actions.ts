@@ -2,6 +2,8 @@
 
 import { connectToDatabase } from "@/utils/connectDb";
 import HRInterviewEvaluationModel from "@/models/hrInterviewEvaluation.model";
+import { authorizeRole } from "@/utils/auth-helpers";
+import { checkProctoringSession } from "@/lib/proctoring/session";
 
 /**
  * HR Interview Storage Actions
@@ -23,10 +25,16 @@ export async function storeQ1Questions(
   }>
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -59,10 +67,16 @@ export async function getQ1QuestionsForChunk(
   error?: string;
 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     }).lean();
 
@@ -100,10 +114,16 @@ export async function getQ1Questions(
   error?: string;
 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     }).lean();
 
@@ -148,10 +168,16 @@ export async function addAskedQuestion(
   insertAfterQuestionId?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -192,11 +218,17 @@ export async function markQuestionAsked(
   questionId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const result = await HRInterviewEvaluationModel.findOneAndUpdate(
       {
         hrInterviewId: interviewId,
+        candidateId: auth.userId,
         status: 'in_progress',
         'askedQuestions.id': questionId
       },
@@ -231,10 +263,21 @@ export async function updateAskedQuestionAnswer(
   }
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
+    const proctoringError = await checkProctoringSession('hrInterview', interviewId, auth.userId);
+    if (proctoringError) {
+      return { success: false, error: proctoringError };
+    }
+
     const evalModel = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -289,10 +332,16 @@ export async function updateAskedQuestion(
   }
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -333,10 +382,16 @@ export async function removeAskedQuestion(
   questionId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -363,10 +418,16 @@ export async function getAskedQuestions(
   error?: string;
 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await HRInterviewEvaluationModel.findOne({
       hrInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     }).lean();
 
@@ -391,11 +452,17 @@ export async function markChunkPreprocessed(
   chunkNumber: number
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const result = await HRInterviewEvaluationModel.findOneAndUpdate(
       {
         hrInterviewId: interviewId,
+        candidateId: auth.userId,
         status: 'in_progress'
       },
       {
@@ -415,28 +482,3 @@ export async function markChunkPreprocessed(
     return { success: false, error: error.message };
   }
 }
-
-// ============================================================================
-// Video Logs Storage
-// ============================================================================
-
-export async function storeVideoLogs(
-  interviewId: string,
-  logs: any[]
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    await connectToDatabase();
-
-    await HRInterviewEvaluationModel.findOneAndUpdate(
-      { hrInterviewId: interviewId },
-      { $push: { videoLogs: { $each: logs } } },
-      { new: true }
-    );
-
-    console.log(`[HR Storage] Stored ${logs.length} video logs`);
-    return { success: true };
-  } catch (error: any) {
-    console.error('[HR Storage] Error storing video logs:', error);
-    return { success: false, error: error.message };
-  }
-}
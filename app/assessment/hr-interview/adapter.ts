@@ -1,6 +1,5 @@
 import { EngineAdapter } from "@/lib/interview/types";
-import { getInterviewConfig, startEvaluation, analyzeAnswer, appendQA } from "./actions";
-import { checkVideoViolationsClient } from "@/lib/interview/clientVideoAdapter";
+import { getInterviewConfig, startEvaluation, analyzeAnswer, appendQA, checkVideoViolations } from "./actions";
 
 export const hrInterviewAdapter: EngineAdapter = {
   getConfig: (interviewId: string) => getInterviewConfig(interviewId),
@@ -8,5 +7,12 @@ export const hrInterviewAdapter: EngineAdapter = {
   analyze: (question, correctAnswer, userAnswer, queues, currentQuestion, interviewId) =>
     analyzeAnswer(question, correctAnswer, userAnswer, queues as any, currentQuestion as any, interviewId),
   persistQA: (interviewId, entry) => appendQA(interviewId, entry),
-  checkVideoViolations: () => checkVideoViolationsClient(), // Use client-side check
+  checkVideoViolations: async (interviewId) => {
+    // Counted on the server from the candidate's proctoring events
+    const result = await checkVideoViolations(interviewId);
+    if (!result.success || !result.proctoring) {
+      throw new Error(result.error || "Failed to check video violations");
+    }
+    return result.proctoring;
+  },
 };
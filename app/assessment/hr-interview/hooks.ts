@@ -16,6 +16,8 @@ import {
   preprocessQuestion as preprocessQuestionAction,
   analyzeAnswer as analyzeAnswerAction,
   checkVideoViolations as checkVideoViolationsAction,
+  startProctoring as startProctoringAction,
+  verifyIdentity as verifyIdentityAction,
   storeQ1Questions as storeQ1QuestionsAction,
   getQ1QuestionsForChunk as getQ1QuestionsForChunkAction,
   getQ1Questions as getQ1QuestionsAction,
@@ -26,7 +28,6 @@ import {
   removeAskedQuestion as removeAskedQuestionAction,
   getAskedQuestions as getAskedQuestionsAction,
   markChunkPreprocessed as markChunkPreprocessedAction,
-  storeVideoLogs as storeVideoLogsAction,
   deleteInterviewAudio as deleteInterviewAudioAction,
   type FetchInterviewSessionResponse,
   type JobData,
@@ -114,6 +115,14 @@ export function useHRInterviewActions() {
     return await checkVideoViolationsAction(interviewId);
   };
 
+  const startProctoring = async (interviewId: string) => {
+    return await startProctoringAction(interviewId);
+  };
+
+  const verifyIdentity = async (interviewId: string, descriptor: number[]) => {
+    return await verifyIdentityAction(interviewId, descriptor);
+  };
+
   // Storage Actions
   const storeQ1Questions = async (
     interviewId: string,
@@ -204,13 +213,6 @@ export function useHRInterviewActions() {
     return await markChunkPreprocessedAction(interviewId, chunkNumber);
   };
 
-  const storeVideoLogs = async (
-    interviewId: string,
-    logs: any[]
-  ) => {
-    return await storeVideoLogsAction(interviewId, logs);
-  };
-
   // Media Actions
   const deleteInterviewAudio = async (interviewId: string) => {
     return await deleteInterviewAudioAction(interviewId);
@@ -231,6 +233,8 @@ export function useHRInterviewActions() {
     // Analysis
     analyzeAnswer,
     checkVideoViolations,
+    startProctoring,
+    verifyIdentity,
     // Storage
     storeQ1Questions,
     getQ1QuestionsForChunk,
@@ -242,7 +246,6 @@ export function useHRInterviewActions() {
     removeAskedQuestion,
     getAskedQuestions,
     markChunkPreprocessed,
-    storeVideoLogs,
     // Media
     deleteInterviewAudio,
   };
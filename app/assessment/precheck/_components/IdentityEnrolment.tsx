@@ -0,0 +1,116 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, ScanFace } from 'lucide-react';
+import { getFaceDescriptor, getPhotoDescriptor, loadFaceModels } from '@/lib/proctoring/faceIdentity';
+import { enrolFace, fetchProfilePhoto } from '../actions';
+import type { SystemCheck } from '../type';
+
+interface IdentityEnrolmentProps {
+  onResult: (updates: Partial<SystemCheck>) => void;
+}
+
+export default function IdentityEnrolment({ onResult }: IdentityEnrolmentProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraReady, setCameraReady] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    const startCamera = async () => {
+      try {
+        const camera = await navigator.mediaDevices.getUserMedia({ video: true });
+        if (cancelled) {
+          camera.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = camera;
+        if (videoRef.current) {
+          videoRef.current.srcObject = camera;
+          await videoRef.current.play();
+        }
+        setCameraReady(true);
+        // Warm the models up while the candidate gets ready
+        loadFaceModels().catch(error => console.warn('Face models failed to load:', error));
+      } catch {
+        onResult({ status: 'error', message: 'Camera access is required to verify your identity' });
+      }
+    };
+
+    startCamera();
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleVerify = async () => {
+    if (!videoRef.current) return;
+    setIsVerifying(true);
+    onResult({ status: 'pending', message: 'Verifying your identity...' });
+
+    try {
+      const descriptor = await getFaceDescriptor(videoRef.current);
+      if (!descriptor) {
+        onResult({ status: 'error', message: 'No face detected. Face the camera in good lighting and try again.' });
+        return;
+      }
+
+      const photo = await fetchProfilePhoto();
+      const profilePhotoDescriptor = photo.success && photo.data?.url ? await getPhotoDescriptor(photo.data.url) : null;
+
+      const result = await enrolFace(descriptor, profilePhotoDescriptor);
+      if (!result.success) {
+        onResult({ status: 'error', message: result.error || 'Failed to verify your identity' });
+        return;
+      }
+
+      onResult({
+        status: 'success',
+        message: result.data?.profilePhotoMatched === false
+          ? 'Face enrolled. It does not match your profile photo, which will be shown to the employer.'
+          : result.data?.profilePhotoMatched
+            ? 'Face enrolled and matched with your profile photo'
+            : 'Face enrolled'
+      });
+    } catch (error) {
+      console.error('Identity verification failed:', error);
+      onResult({ status: 'error', message: 'Failed to verify your identity. Please try again.' });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <ScanFace className="h-5 w-5 text-indigo-300" />
+        <h3 className="text-white font-medium">Identity Verification</h3>
+      </div>
+      <p className="text-sm text-white/70 mb-4">
+        Look straight at the camera and verify your identity. Your face will be checked again periodically
+        during each round to make sure it is you taking the assessment.
+      </p>
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        className="w-full max-h-64 rounded-xl border border-white/10 bg-black/40 object-cover mb-4"
+      />
+      <button
+        onClick={handleVerify}
+        disabled={!cameraReady || isVerifying}
+        className={`w-full px-4 py-2 rounded-lg text-sm transition-colors ${
+          cameraReady && !isVerifying
+            ? 'bg-indigo-500/20 text-indigo-300 hover:bg-indigo-500/30'
+            : 'bg-white/10 text-white/30 cursor-not-allowed'
+        }`}
+      >
+        {isVerifying ? <Loader2 className="h-4 w-4 animate-spin mx-auto" /> : 'Verify Identity'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use server';
+
+import {
+  safeAction,
+  createSuccessResponse,
+  createErrorResponse,
+  withDatabase,
+  type ActionResponse
+} from '@/utils/action-helpers';
+import { requireRole } from '@/utils/auth-helpers';
+import CandidateModel from '@/models/candidate.model';
+import CandidateProfileModel from '@/models/candidateProfile.model';
+import { enrolCandidateFace, isFaceDescriptor, type FaceEnrolmentResult } from '@/lib/proctoring/identity';
+
+/**
+ * The candidate's profile photo, which the enrolled face is compared with when there is one.
+ */
+export async function fetchProfilePhoto(): Promise<ActionResponse<{ url?: string }>> {
+  return safeAction(async () => {
+    const candidateId = await requireRole('candidate');
+
+    return await withDatabase(async () => {
+      const [profile, candidate] = await Promise.all([
+        CandidateProfileModel.findOne({ candidate: candidateId }).select('profileImage').lean(),
+        CandidateModel.findById(candidateId).select('avatar').lean()
+      ]);
+      const url = profile?.profileImage || candidate?.avatar || undefined;
+      return createSuccessResponse('Profile photo fetched', { url });
+    });
+  });
+}
+
+/**
+ * Enrols the candidate's face for identity verification in the rounds that follow. The descriptor of the
+ * profile photo is optional; without it the enrolment is not compared with the profile.
+ */
+export async function enrolFace(
+  descriptor: number[],
+  profilePhotoDescriptor?: number[] | null
+): Promise<ActionResponse<FaceEnrolmentResult>> {
+  return safeAction(async () => {
+    const candidateId = await requireRole('candidate');
+
+    if (!isFaceDescriptor(descriptor) || (profilePhotoDescriptor && !isFaceDescriptor(profilePhotoDescriptor))) {
+      return createErrorResponse('Invalid face data');
+    }
+
+    return await withDatabase(async () => {
+      const result = await enrolCandidateFace(candidateId, descriptor, profilePhotoDescriptor);
+      return createSuccessResponse('Face enrolled', result);
+    });
+  });
+}
@@ -5,9 +5,10 @@ import { useRouter } from 'next/navigation';
 import { 
   Wifi, Camera, Mic, Maximize2, CheckCircle, 
   AlertTriangle, XCircle, Loader2, Info, 
-  ShieldAlert, HelpCircle, Eye, Shield, AlertCircle
+  ShieldAlert, HelpCircle, Eye, Shield, AlertCircle, ScanFace
 } from 'lucide-react';
 import type { SystemCheck, CheckStatus } from './type'
+import IdentityEnrolment from './_components/IdentityEnrolment';
 
 export default function SystemCheckPage() {
   const router = useRouter();
@@ -17,7 +18,8 @@ export default function SystemCheckPage() {
     { id: 'microphone', label: 'Microphone Access', status: 'pending', message: 'Checking microphone permission...' },
     { id: 'fullscreen', label: 'Full-Screen Mode', status: 'pending', message: 'Checking full-screen capability...' },
     { id: 'browser', label: 'Browser Compatibility', status: 'pending', message: 'Checking browser compatibility...' },
-    { id: 'cookies', label: 'Cookies Enabled', status: 'pending', message: 'Checking if cookies are enabled...' }
+    { id: 'cookies', label: 'Cookies Enabled', status: 'pending', message: 'Checking if cookies are enabled...' },
+    { id: 'identity', label: 'Identity Verification', status: 'pending', message: 'Verify your identity with your camera' }
   ]);
 
   const [isLoading, setIsLoading] = useState(true);
@@ -338,6 +340,8 @@ export default function SystemCheckPage() {
         return <ShieldAlert className="h-6 w-6" />;
       case 'cookies':
         return <Info className="h-6 w-6" />;
+      case 'identity':
+        return <ScanFace className="h-6 w-6" />;
       default:
         return <HelpCircle className="h-6 w-6" />;
     }
@@ -502,7 +506,10 @@ export default function SystemCheckPage() {
               </div>
             </div>
 
-            {/* Div 2: Terms and Conditions Checkbox */}
+            {/* Div 2: Identity Verification */}
+            <IdentityEnrolment onResult={(updates) => updateCheck('identity', updates)} />
+
+            {/* Div 3: Terms and Conditions Checkbox */}
             <div className="bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 p-6">
               <div className="flex items-center gap-3 mb-4">
                 <Shield className="h-5 w-5 text-indigo-300" />
@@ -0,0 +1,85 @@
+"use client"
+import React from 'react';
+import { CalendarClock, Clock, Lock } from 'lucide-react';
+import type { RoundWindowInfo, RoundWindowState } from '@/lib/assessment/schedule';
+
+/**
+ * State of the window at the given time. The server sends the state at page load,
+ * so it is recomputed on every tick to open and close rounds without a reload.
+ */
+export function getLiveWindowState(roundWindow: RoundWindowInfo | undefined, now: Date): RoundWindowState {
+  if (!roundWindow) return 'open';
+  if (roundWindow.opensAt && now < new Date(roundWindow.opensAt)) return 'upcoming';
+  if (roundWindow.closesAt && now >= new Date(roundWindow.closesAt)) return 'closed';
+  return 'open';
+}
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = [hours, minutes, seconds].map(part => String(part).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+function formatLocal(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
+
+interface RoundWindowNoticeProps {
+  roundWindow: RoundWindowInfo | undefined;
+  now: Date;
+}
+
+const RoundWindowNotice = ({ roundWindow, now }: RoundWindowNoticeProps) => {
+  if (!roundWindow) return null;
+  const state = getLiveWindowState(roundWindow, now);
+
+  if (state === 'upcoming' && roundWindow.opensAt) {
+    return (
+      <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2 rounded-xl border border-amber-500/30 bg-amber-500/10 p-4 text-amber-300">
+        <CalendarClock className="h-5 w-5 shrink-0" />
+        <span>Opens {formatLocal(roundWindow.opensAt)}</span>
+        <span className="sm:ml-auto font-mono text-lg text-white">
+          {formatCountdown(new Date(roundWindow.opensAt).getTime() - now.getTime())}
+        </span>
+      </div>
+    );
+  }
+
+  if (state === 'closed' && roundWindow.closesAt) {
+    return (
+      <div className="mt-4 flex items-center gap-2 rounded-xl border border-red-500/30 bg-red-500/10 p-4 text-red-300">
+        <Lock className="h-5 w-5 shrink-0" />
+        <span>
+          The window for this round closed on {formatLocal(roundWindow.closesAt)}. Contact the recruiter if you need more time.
+        </span>
+      </div>
+    );
+  }
+
+  if (roundWindow.closesAt) {
+    return (
+      <div className="mt-4 flex items-center gap-2 text-white/60">
+        <Clock className="h-5 w-5 shrink-0" />
+        <span>
+          Start before {formatLocal(roundWindow.closesAt)}
+          {roundWindow.extended && ' (extended for you)'}
+        </span>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default RoundWindowNotice;
@@ -6,6 +6,7 @@ import { useSession } from "next-auth/react";
 import { format } from 'date-fns';
 import { fetchAssessmentDetails, AssessmentDetails } from '../actions';
 import { toast } from 'sonner';
+import RoundWindowNotice, { getLiveWindowState } from './RoundWindowNotice';
 
 export interface InterviewRound {
   id: string;
@@ -25,6 +26,14 @@ export interface Question {
   difficulty?: 'easy' | 'medium' | 'hard';
 }
 
+// Page round types to the application and assessment round keys
+const ROUND_KEYS = {
+  'aptitude': 'aptitude',
+  'coding': 'coding',
+  'technical': 'technicalInterview',
+  'hr': 'hrInterview'
+} as const;
+
 const InterviewProgress = () => {
   const router = useRouter();
   const params = useParams();
@@ -41,6 +50,9 @@ const InterviewProgress = () => {
   // System check validation states
   const [isValidatingSystemCheck, setIsValidatingSystemCheck] = useState(true);
   const [hasValidSystemCheck, setHasValidSystemCheck] = useState(true);
+
+  // Ticks every second so scheduling windows open and close without a reload
+  const [now, setNow] = useState(() => new Date());
   
   // Fetch assessment data on component mount
   useEffect(() => {
@@ -51,8 +63,6 @@ const InterviewProgress = () => {
         return;
       }
 
-      console.log(hasValidSystemCheck);
-
       try {
         const result = await fetchAssessmentDetails(params.assessmentId as string);
         if (result.success && result.data) {
@@ -99,6 +109,12 @@ const InterviewProgress = () => {
     loadAssessmentData();
   }, [params.assessmentId]);
 
+  useEffect(() => {
+    if (!assessmentData || Object.keys(assessmentData.roundWindows).length === 0) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [assessmentData]);
+
   // Validate system check on component mount
   useEffect(() => {
     const validateSystemCheck = () => {
@@ -211,23 +227,26 @@ const InterviewProgress = () => {
     const rounds = assessmentData?.applicationDetails?.rounds;
     if (!rounds) return 'pending';
     
-    const typeMap: Record<string, keyof typeof rounds> = {
-      'aptitude': 'aptitude',
-      'coding': 'coding',
-      'technical': 'technicalInterview',
-      'hr': 'hrInterview'
-    };
-    
-    const mappedType = typeMap[roundType];
+    const mappedType = ROUND_KEYS[roundType as InterviewRound['type']];
     return mappedType ? rounds[mappedType] : 'pending';
   };
 
+  const getRoundWindow = (roundType: string) =>
+    assessmentData?.roundWindows[ROUND_KEYS[roundType as InterviewRound['type']]];
+
+  // Completed rounds stay reachable to view results after their window closes
+  const isOutsideWindow = (roundType: string): boolean =>
+    getActualRoundStatus(roundType) !== 'completed' &&
+    getLiveWindowState(getRoundWindow(roundType), now) !== 'open';
+
   // Helper function to determine what action button to show
   const getRoundActionText = (roundType: string): string => {
     const status = getActualRoundStatus(roundType);
     
     if (status === 'completed') {
       return 'View Results';
+    } else if (status !== 'rejected' && isOutsideWindow(roundType)) {
+      return getLiveWindowState(getRoundWindow(roundType), now) === 'upcoming' ? 'Opens Soon' : 'Window Closed';
     } else if (status === 'shortlisted') {
       return 'Start Round';
     } else if (status === 'pending') {
@@ -265,6 +284,13 @@ const InterviewProgress = () => {
         return;
       }
 
+      if (isOutsideWindow(round.type)) {
+        toast.error(getLiveWindowState(getRoundWindow(round.type), now) === 'upcoming'
+          ? 'This round has not opened yet'
+          : 'The window for this round has closed');
+        return;
+      }
+
       // Navigate based on round type
       switch (round.type) {
         case 'aptitude':
@@ -338,10 +364,10 @@ const InterviewProgress = () => {
   };
 
   const canStartRound = (index: number) => {
-    if (isMockMode) return true;
-    
     const round = enabledRounds[index];
-    if (!round) return false;
+    if (!round || isOutsideWindow(round.type)) return false;
+
+    if (isMockMode) return true;
     
     const actualStatus = getActualRoundStatus(round.type);
     
@@ -458,7 +484,7 @@ const InterviewProgress = () => {
     );
   }
 
-  if (hasValidSystemCheck) {
+  if (!hasValidSystemCheck) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-[#0A0A18] to-[#0D0D20] flex flex-col items-center justify-center p-6 text-white">
         <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8 max-w-md w-full">
@@ -703,6 +729,10 @@ const InterviewProgress = () => {
                         Unfortunately, you did not qualify for this round
                       </div>
                     )}
+
+                    {status !== 'completed' && actualStatus !== 'rejected' && (
+                      <RoundWindowNotice roundWindow={getRoundWindow(round.type)} now={now} />
+                    )}
                   </div>
                 </div>
               </div>
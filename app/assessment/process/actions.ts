@@ -7,12 +7,15 @@ import {
   withDatabase,
   type ActionResponse 
 } from '@/utils/action-helpers';
-import { requireAuth } from '@/utils/auth-helpers';
+import { requireRole } from '@/utils/auth-helpers';
 import AssessmentModel from '@/models/assesment.model';
 import ApplicationModel from '@/models/application.model';
 import '@/models/aptitude.model'; 
 import '@/models/coding.model';
 import '@/models/technicalInterview.model';
+import '@/models/hrInterview.model';
+import { ASSESSMENT_ROUNDS, ROUND_ID_FIELDS, type AssessmentRound } from '@/lib/assessment/overallResult';
+import { getRoundWindow, toRoundWindowInfo, type RoundWindowInfo } from '@/lib/assessment/schedule';
 
 import mongoose from 'mongoose';
 
@@ -110,6 +113,8 @@ export interface AssessmentDetails {
       hrInterview?: number;
     };
   };
+  // Scheduling window of each enabled round for the current candidate
+  roundWindows: Partial<Record<AssessmentRound, RoundWindowInfo>>;
   applicationDetails?: {
     rounds: {
       aptitude: 'pending' | 'shortlisted' | 'rejected' | 'completed';
@@ -128,7 +133,7 @@ export async function fetchAssessmentDetails(
   assessmentId: string
 ): Promise<ActionResponse<AssessmentDetails>> {
   return safeAction(async () => {
-    const userId = await requireAuth(); // Ensure user is authenticated
+    const userId = await requireRole('candidate');
 
     if (!mongoose.Types.ObjectId.isValid(assessmentId)) {
       return createErrorResponse('Invalid assessment ID');
@@ -140,6 +145,7 @@ export async function fetchAssessmentDetails(
         .populate('aptitudeId')
         .populate('codingRoundId')
         .populate('technicalInterviewId')
+        .populate('hrInterviewId')
         .lean();
 
       if (!assessment) {
@@ -154,7 +160,7 @@ export async function fetchAssessmentDetails(
       // Fetch application data for the current user
       const application = await ApplicationModel.findOne({
         candidateId: userId,
-        jobId: assessment.jobId
+        jobId: assessment.jobOpportunity
       }).lean();
 
       // Transform application details if available
@@ -224,6 +230,18 @@ export async function fetchAssessmentDetails(
         };
       }
 
+      const now = new Date();
+      const roundWindows: AssessmentDetails['roundWindows'] = {};
+      for (const round of ASSESSMENT_ROUNDS) {
+        const roundDoc = assessment[ROUND_ID_FIELDS[round]];
+        if (assessment.toConductRounds?.[round] && roundDoc) {
+          roundWindows[round] = toRoundWindowInfo(
+            getRoundWindow(roundDoc, assessment, application?.scheduleExtensions?.[round]),
+            now
+          );
+        }
+      }
+
       // Calculate weightage based on enabled rounds
       const enabledRounds = [];
       if (assessment.toConductRounds?.aptitude) enabledRounds.push('aptitude');
@@ -234,10 +252,16 @@ export async function fetchAssessmentDetails(
       const equalWeightage = enabledRounds.length > 0 ? Math.floor(100 / enabledRounds.length) : 0;
       const remainder = enabledRounds.length > 0 ? 100 - (equalWeightage * enabledRounds.length) : 0;
 
+      // Show the configured weightage used for the overall score, or the equal split it falls back to
+      const configuredWeightage = assessment.overallPassingCriteria?.weightagePerRound || {};
+      const hasConfiguredWeightage = enabledRounds.some(round => configuredWeightage[round] != null);
+
       const weightagePerRound: any = {};
       enabledRounds.forEach((round, index) => {
         // Add remainder to first round to ensure total is 100
-        weightagePerRound[round] = equalWeightage + (index === 0 ? remainder : 0);
+        weightagePerRound[round] = hasConfiguredWeightage
+          ? configuredWeightage[round] ?? 0
+          : equalWeightage + (index === 0 ? remainder : 0);
       });
 
       const assessmentDetails: AssessmentDetails = {
@@ -251,6 +275,7 @@ export async function fetchAssessmentDetails(
         aptitudeDetails,
         codingDetails,
         technicalInterviewDetails,
+        roundWindows,
         applicationDetails,
         overallPassingCriteria: {
           ...assessment.overallPassingCriteria,
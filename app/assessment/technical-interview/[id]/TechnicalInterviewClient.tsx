@@ -1,8 +1,16 @@
 "use client";
-import React, { useEffect } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Mic, MicOff } from "lucide-react";
+import { Mic, MicOff, MonitorX } from "lucide-react";
 import { technicalInterviewAdapter } from "../adapter";
+import { createProctoringStream, type ProctoringStream } from "@/lib/proctoring/client";
+import { startFaceVerification } from "@/lib/proctoring/faceIdentity";
+import {
+  ScreenShareError,
+  isScreenShareActive,
+  requestEntireScreen,
+  startScreenCapture,
+} from "@/lib/proctoring/screenShare";
 import VideoProcessing from "@/lib/video-processing";
 import HeaderBanner from "./_components/HeaderBanner";
 import SetupScreen from "./_components/SetupScreen";
@@ -61,6 +69,13 @@ export default function TechnicalInterviewClient({
   // Get interview actions
   const actions = useInterviewActions();
 
+  // Screen sharing (when the interview requires it) and the proctoring stream it reports to
+  const screenShareRequired = Boolean(initialConfig?.proctoring?.screenShareRequired);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const proctoringRef = useRef<ProctoringStream | null>(null);
+  const [screenShareError, setScreenShareError] = useState<string | null>(null);
+  const [screenShareStopped, setScreenShareStopped] = useState(false);
+
   // Core session state management
   const session = useInterviewSession({
     interviewId,
@@ -138,6 +153,7 @@ export default function TechnicalInterviewClient({
       startEvaluation: async (id: string) => {
         await technicalInterviewAdapter.startEvaluation(id);
       },
+      checkVideoViolations: technicalInterviewAdapter.checkVideoViolations,
       analyze: async (question: string, idealAnswer: string, userAnswer: string, queues: any, currentQuestion: any, interviewId: string) => {
         return await technicalInterviewAdapter.analyze(question, idealAnswer, userAnswer, queues, currentQuestion, interviewId);
       },
@@ -190,6 +206,29 @@ export default function TechnicalInterviewClient({
     pauseThreshold: session.PAUSE_THRESHOLD,
   });
 
+  // Asks for the entire screen; returns false (with the reason shown) when it was not shared
+  const shareScreen = async () => {
+    try {
+      screenStreamRef.current = await requestEntireScreen();
+      setScreenShareError(null);
+      return true;
+    } catch (error) {
+      setScreenShareError(error instanceof ScreenShareError ? error.message : "Screen sharing failed");
+      return false;
+    }
+  };
+
+  const handleStart = async () => {
+    if (screenShareRequired && !isScreenShareActive(screenStreamRef.current) && !(await shareScreen())) {
+      return;
+    }
+    flow.startInterview();
+  };
+
+  const handleReshare = async () => {
+    if (await shareScreen()) setScreenShareStopped(false);
+  };
+
   // ============================================================================
   // useEffect BLOCKS
   // ============================================================================
@@ -258,21 +297,30 @@ export default function TechnicalInterviewClient({
     };
   }, [session.currentScreen, media, session]);
 
-  // Video log persistence
+  // Proctoring: stream video detections to the server, which counts violations
   useEffect(() => {
     if (session.currentScreen !== "interview") return;
 
-    const handleVideoLog = async (log: any) => {
-      console.log("[Video] Storing log immediately:", log);
-      const result = await actions.storeVideoLogs(interviewId, [log]);
-      if (!result.success) {
-        console.error("[Video] Failed to store log:", result.error);
-      }
-    };
+    const stream = createProctoringStream({
+      start: async () => {
+        const result = await actions.startProctoring(interviewId);
+        return result.success && result.credentials ? result.credentials : null;
+      },
+      onTerminated: () => {
+        console.warn("[Proctoring] Violation limit reached, ending interview");
+        flow.endInterview();
+      },
+    });
+    proctoringRef.current = stream;
 
     const setupCallback = async () => {
       const { setLogCallback } = await import("@/lib/interview/videoQueueIntegration");
-      setLogCallback(handleVideoLog);
+      setLogCallback((log) => stream.report({
+        type: log.type,
+        mood: log.mood,
+        gesture: log.gesture,
+        objects: log.objects,
+      }));
     };
 
     setupCallback();
@@ -283,8 +331,57 @@ export default function TechnicalInterviewClient({
         setLogCallback(null);
       };
       cleanup();
+      stream.close();
+      proctoringRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session.currentScreen, interviewId]);
+
+  // Identity: re-verify the candidate's face against the one enrolled at the system check
+  useEffect(() => {
+    if (session.currentScreen !== "interview") return;
+    return startFaceVerification((descriptor) => actions.verifyIdentity(interviewId, descriptor));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session.currentScreen, interviewId]);
+
+  // Screen share: capture screenshots while it runs; stopping it is a violation (Queue 0)
+  useEffect(() => {
+    if (session.currentScreen !== "interview" || !screenShareRequired || screenShareStopped) return;
+
+    const handleEnded = () => {
+      console.warn("[ScreenShare] Screen sharing stopped");
+      proctoringRef.current?.report({ type: "screen-share-stopped" });
+      setScreenShareStopped(true);
     };
-  }, [session.currentScreen, interviewId, actions]);
+
+    const screen = screenStreamRef.current;
+    if (!screen) {
+      handleEnded();
+      return;
+    }
+
+    return startScreenCapture(screen, {
+      onCapture: async (image) => {
+        const formData = new FormData();
+        formData.append("file", new File([image], "screen.jpg", { type: "image/jpeg" }));
+        const result = await actions.uploadScreenCapture(interviewId, formData);
+        if (!result.success) console.warn("[ScreenShare] Screen capture not stored:", result.error);
+      },
+      onEnded: handleEnded,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session.currentScreen, screenShareRequired, screenShareStopped, interviewId]);
+
+  // Release the shared screen once the interview is over or the page closes
+  useEffect(() => {
+    if (session.currentScreen !== "complete") return;
+    screenStreamRef.current?.getTracks().forEach((track) => track.stop());
+    screenStreamRef.current = null;
+  }, [session.currentScreen]);
+
+  useEffect(() => {
+    return () => screenStreamRef.current?.getTracks().forEach((track) => track.stop());
+  }, []);
 
   // Timer
   useEffect(() => {
@@ -362,7 +459,8 @@ export default function TechnicalInterviewClient({
           setHasConsent={session.setHasConsent}
           proctoring={initialConfig?.proctoring || null}
           isLoading={session.isLoading}
-          onStart={flow.startInterview}
+          onStart={handleStart}
+          screenShareError={screenShareError}
           jobData={jobData}
           resumeData={resumeData}
         />
@@ -404,6 +502,24 @@ export default function TechnicalInterviewClient({
       {/* Interview Screen */}
       {session.currentScreen === "interview" && (
         <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+          {/* Screen share stopped */}
+          {screenShareStopped && (
+            <div className="mb-4 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex flex-col sm:flex-row items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <MonitorX className="w-5 h-5 text-red-300 shrink-0" />
+                <p className="text-red-200 text-sm">
+                  Screen sharing stopped and was recorded as a violation. Share your entire screen again to continue.
+                </p>
+              </div>
+              <Button onClick={handleReshare} className="bg-red-500 hover:bg-red-600 text-white shrink-0">
+                Share Screen
+              </Button>
+            </div>
+          )}
+          {screenShareStopped && screenShareError && (
+            <p className="mb-4 text-center text-red-300 text-sm">{screenShareError}</p>
+          )}
+
           {/* Timer */}
           <div className="flex justify-center mb-4">
             <InterviewTimer
@@ -10,6 +10,7 @@ interface SetupScreenProps {
   proctoring: { micRequired: boolean; cameraRequired: boolean; screenShareRequired: boolean } | null;
   isLoading: boolean;
   onStart: () => void;
+  screenShareError?: string | null;
   jobData?: {
     title: string;
     position: string;
@@ -31,6 +32,7 @@ export default function SetupScreen({
   proctoring,
   isLoading,
   onStart,
+  screenShareError,
   jobData,
   resumeData,
 }: SetupScreenProps) {
@@ -152,7 +154,7 @@ export default function SetupScreen({
                 </div>
                 <div className="flex-1">
                   <p className="text-white font-medium">Screen Share</p>
-                  <p className="text-white/60 text-xs">Required</p>
+                  <p className="text-white/60 text-xs">Required · entire screen</p>
                 </div>
               </div>
             )}
@@ -206,6 +208,12 @@ export default function SetupScreen({
             ⚠️ Please accept the consent to continue
           </p>
         )}
+
+        {screenShareError && (
+          <p className="text-red-400 text-sm mt-4 font-medium">
+            ⚠️ {screenShareError}
+          </p>
+        )}
       </div>
     </div>
   );
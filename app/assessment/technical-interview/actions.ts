@@ -26,7 +26,9 @@ export {
 // Analysis Actions
 export {
   analyzeAnswer,
-  checkVideoViolations
+  checkVideoViolations,
+  startProctoring,
+  verifyIdentity
 } from './actions/analysis.actions';
 
 // Storage Actions
@@ -40,13 +42,13 @@ export {
   updateAskedQuestion,
   removeAskedQuestion,
   getAskedQuestions,
-  markChunkPreprocessed,
-  storeVideoLogs
+  markChunkPreprocessed
 } from './actions/storage.actions';
 
 // Media Actions
 export {
-  deleteInterviewAudio
+  deleteInterviewAudio,
+  uploadScreenCapture
 } from './actions/media.actions';
 
 // Re-export types for convenience
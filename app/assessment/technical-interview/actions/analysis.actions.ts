@@ -3,6 +3,16 @@
 import { buildFollowupPrompt } from "@/ai-engine/prompts/technicalInterview";
 import { Question, Queues, evaluateAnswer, EvaluationResult } from "@/utils/interview";
 import { analyzeAnswerFlow } from "@/lib/interview/answerAnalysis";
+import { authorizeRole } from "@/utils/auth-helpers";
+import { connectToDatabase } from "@/utils/connectDb";
+import {
+  checkProctoringSession,
+  getProctoringStatus,
+  openProctoringSession,
+  type ProctoringStatus
+} from "@/lib/proctoring/session";
+import type { ProctoringCredentials } from "@/lib/proctoring/protocol";
+import { isFaceDescriptor, verifyCandidateFace, type IdentityCheckResult } from "@/lib/proctoring/identity";
 
 /**
  * Answer Analysis Actions
@@ -16,8 +26,22 @@ export async function analyzeAnswer(
   currentQueues: Queues,
   currentQuestion: Question,
   interviewId?: string
-): Promise<{ updatedQueues?: Queues; correctness?: number; evaluation?: EvaluationResult }> {
+): Promise<{ updatedQueues?: Queues; correctness?: number; evaluation?: EvaluationResult; error?: string; status?: 401 | 403 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return { error: auth.response.error, status: auth.response.status };
+    }
+
+    // Answers only count while the interview's proctoring session is live
+    if (interviewId) {
+      await connectToDatabase();
+      const proctoringError = await checkProctoringSession('technicalInterview', interviewId, auth.userId);
+      if (proctoringError) {
+        return { error: proctoringError };
+      }
+    }
+
     console.log(`[analyzeAnswer] Called with interviewId: ${interviewId || 'MISSING'}, questionId: ${currentQuestion.id}`);
     
     // Edge case: If either idealAnswer or userAnswer is missing, skip evaluation and Q2/Q3 generation
@@ -152,21 +176,76 @@ export async function analyzeAnswer(
 }
 
 /**
- * Check video processing violations from localStorage/session
- * This should be called from client-side video processing component
+ * Opens the proctoring session for the candidate's evaluation of this interview.
+ * Returns the token the browser streams proctoring events with.
+ */
+export async function startProctoring(
+  interviewId: string
+): Promise<{ success: boolean; credentials?: ProctoringCredentials; error?: string; status?: 401 | 403 }> {
+  try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
+    await connectToDatabase();
+    const credentials = await openProctoringSession('technicalInterview', interviewId, auth.userId);
+    if (!credentials) {
+      return { success: false, error: 'Interview has not been started' };
+    }
+    return { success: true, credentials };
+  } catch (error) {
+    console.error('[startProctoring] Error:', error);
+    return { success: false, error: 'Failed to start proctoring' };
+  }
+}
+
+/**
+ * Re-verifies the candidate's identity against the face enrolled at the system check.
+ * A face that does not match is flagged on the interview evaluation.
+ */
+export async function verifyIdentity(
+  interviewId: string,
+  descriptor: number[]
+): Promise<{ success: boolean; identity?: IdentityCheckResult; error?: string; status?: 401 | 403 }> {
+  try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+    if (!isFaceDescriptor(descriptor)) {
+      return { success: false, error: 'Invalid face data' };
+    }
+
+    await connectToDatabase();
+    const identity = await verifyCandidateFace('technicalInterview', interviewId, auth.userId, descriptor);
+    if (!identity) {
+      return { success: false, error: 'Interview has not been started' };
+    }
+    return { success: true, identity };
+  } catch (error) {
+    console.error('[verifyIdentity] Error:', error);
+    return { success: false, error: 'Failed to verify identity' };
+  }
+}
+
+/**
+ * Video processing violations (Queue 0), counted on the server from the candidate's proctoring events
  */
 export async function checkVideoViolations(
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _interviewId: string
-) {
-  // NOTE: This is a server action and cannot directly access client-side videoQueueIntegration
-  // The video state should be passed from client or stored in a way accessible to server
-  // For now, returning default values - actual implementation needs client-server bridge
-  
-  return {
-    violation_count: 0,
-    mood_state: 'neutral',
-    mood_changed: false,
-    current_violations: []
-  };
+  interviewId: string
+): Promise<{ success: boolean; proctoring?: ProctoringStatus; error?: string; status?: 401 | 403 }> {
+  try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
+    await connectToDatabase();
+    const proctoring = await getProctoringStatus('technicalInterview', interviewId, auth.userId);
+    return { success: true, proctoring };
+  } catch (error) {
+    console.error('[checkVideoViolations] Error:', error);
+    return { success: false, error: 'Failed to check video violations' };
+  }
 }
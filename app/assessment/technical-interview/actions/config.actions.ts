@@ -2,6 +2,7 @@
 
 import { connectToDatabase } from "@/utils/connectDb";
 import TechnicalInterviewModel from "@/models/technicalInterview.model";
+import { authorizeRole } from "@/utils/auth-helpers";
 
 /**
  * Config Actions
@@ -10,6 +11,11 @@ import TechnicalInterviewModel from "@/models/technicalInterview.model";
 
 export async function getInterviewConfig(interviewId: string) {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
     const config = await TechnicalInterviewModel.findById(interviewId).lean();
     
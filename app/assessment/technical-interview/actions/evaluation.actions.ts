@@ -2,9 +2,13 @@
 
 import { connectToDatabase } from "@/utils/connectDb";
 import TechnicalInterviewEvaluationModel from "@/models/technicalInterviewEvaluation.model";
+import TechnicalInterviewModel from "@/models/technicalInterview.model";
 import mongoose from "mongoose";
-import { requireAuth } from "@/utils/auth-helpers";
 import type { QuestionEntry } from "@/lib/interview/types";
+import { calculateInterviewScore } from "@/lib/assessment/overallResult";
+import { handleRoundCompleted } from "@/lib/assessment/progression";
+import { authorizeRole } from "@/utils/auth-helpers";
+import { checkProctoringSession, openProctoringSession } from "@/lib/proctoring/session";
 
 /**
  * Evaluation Actions
@@ -17,12 +21,18 @@ export async function startEvaluation(
   jobId?: string | null
 ) {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
-    const candidateId = await requireAuth();
+    const candidateId = auth.userId;
     
     // Check if evaluation already exists for this interview and candidate
     const existingEvaluation = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: new mongoose.Types.ObjectId(technicalInterviewId),
+      candidateId: new mongoose.Types.ObjectId(candidateId),
       status: { $in: ['in_progress', 'not_started'] }
     });
 
@@ -48,6 +58,8 @@ export async function startEvaluation(
       askedQuestions: [],
     });
     const id = (doc && (doc as any)._id) ? (doc as any)._id.toString() : undefined;
+    // Proctoring starts with the interview, whether or not the browser ever reports to it
+    await openProctoringSession('technicalInterview', technicalInterviewId, candidateId);
     console.log('[Server] Created new evaluation:', id);
     return { success: true, evaluationId: id, resumed: false };
   } catch (error) {
@@ -61,7 +73,17 @@ export async function appendQA(
   entry: QuestionEntry
 ) {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
+
+    const proctoringError = await checkProctoringSession('technicalInterview', technicalInterviewId, auth.userId);
+    if (proctoringError) {
+      return { success: false, error: proctoringError };
+    }
     
     // Map QuestionEntry fields to database schema
     const dbEntry = {
@@ -84,7 +106,10 @@ export async function appendQA(
     };
 
     await TechnicalInterviewEvaluationModel.findOneAndUpdate(
-      { technicalInterviewId: new mongoose.Types.ObjectId(technicalInterviewId) },
+      {
+        technicalInterviewId: new mongoose.Types.ObjectId(technicalInterviewId),
+        candidateId: new mongoose.Types.ObjectId(auth.userId)
+      },
       { $push: { entries: dbEntry } },
       { upsert: true, new: true }
     ).lean();
@@ -98,10 +123,19 @@ export async function appendQA(
 
 export async function completeInterview(interviewId: string): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
+    const candidateId = auth.userId;
     
     const result = await TechnicalInterviewEvaluationModel.findOneAndUpdate(
-      { technicalInterviewId: new mongoose.Types.ObjectId(interviewId) },
+      {
+        technicalInterviewId: new mongoose.Types.ObjectId(interviewId),
+        candidateId: new mongoose.Types.ObjectId(candidateId)
+      },
       { 
         status: 'completed',
         endedAt: new Date()
@@ -113,6 +147,22 @@ export async function completeInterview(interviewId: string): Promise<{ success:
       return { success: false, error: 'Evaluation not found' };
     }
 
+    // Score the round from the answer evaluations when no overall score was produced
+    if (typeof result.overallScore !== 'number') {
+      await TechnicalInterviewEvaluationModel.updateOne(
+        { _id: result._id },
+        { $set: { overallScore: calculateInterviewScore(result) } }
+      );
+    }
+
+    // Apply the round's progression rules and the overall result after the last round
+    const assessmentId = result.assessmentId
+      ?? (await TechnicalInterviewModel.findById(interviewId).select('assessmentId').lean())?.assessmentId;
+    if (assessmentId) {
+      await handleRoundCompleted(assessmentId, candidateId, 'technicalInterview')
+        .catch(error => console.error('[Server] Error applying round progression:', error));
+    }
+
     console.log(`[Server] ✓ Interview ${interviewId} marked as completed`);
     return { success: true };
   } catch (error) {
@@ -1,14 +1,28 @@
 "use server";
 
-import { S3Service } from "@/lib/s3Service";
+import { S3Service, type UploadConfig } from "@/lib/s3Service";
+import { authorizeRole } from "@/utils/auth-helpers";
+import { connectToDatabase } from "@/utils/connectDb";
+import TechnicalInterviewModel from "@/models/technicalInterview.model";
+import TechnicalInterviewEvaluationModel from "@/models/technicalInterviewEvaluation.model";
+import { checkProctoringSession } from "@/lib/proctoring/session";
 
 /**
  * Media Actions
- * Handles S3 audio cleanup
+ * Handles S3 audio cleanup and screen capture uploads
  */
 
+// Captures arrive about once a minute; anything faster is rejected
+const MIN_CAPTURE_INTERVAL_MS = 20 * 1000;
+const MAX_CAPTURE_SIZE = 512 * 1024;
+
 export async function deleteInterviewAudio(interviewId: string): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     const prefix = `technical-interview/${interviewId}/`;
     
     await S3Service.deleteByPrefix(prefix);
@@ -23,3 +37,81 @@ export async function deleteInterviewAudio(interviewId: string): Promise<{ succe
     };
   }
 }
+
+/**
+ * Stores a screenshot of the candidate's shared screen under their running evaluation.
+ * Expects the image as the "file" entry of the form data.
+ */
+export async function uploadScreenCapture(
+  interviewId: string,
+  formData: FormData
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return { success: false, error: 'No screen capture provided' };
+    }
+
+    await connectToDatabase();
+
+    const interview = await TechnicalInterviewModel.findById(interviewId).select('proctoring').lean();
+    if (!interview?.proctoring?.screenShareRequired) {
+      return { success: false, error: 'Screen sharing is not enabled for this interview' };
+    }
+
+    const proctoringError = await checkProctoringSession('technicalInterview', interviewId, auth.userId);
+    if (proctoringError) {
+      return { success: false, error: proctoringError };
+    }
+
+    const evaluation = await TechnicalInterviewEvaluationModel.findOne({
+      technicalInterviewId: interviewId,
+      candidateId: auth.userId,
+      status: 'in_progress'
+    })
+      .select({ screenCaptures: { $slice: -1 } })
+      .lean();
+    if (!evaluation) {
+      return { success: false, error: 'Evaluation not found' };
+    }
+
+    const now = new Date();
+    const lastCapture = evaluation.screenCaptures?.[0];
+    if (lastCapture && now.getTime() - new Date(lastCapture.capturedAt).getTime() < MIN_CAPTURE_INTERVAL_MS) {
+      return { success: false, error: 'Screen captured too recently' };
+    }
+
+    const captureConfig: UploadConfig = {
+      folderPrefix: 'screen-captures',
+      allowedFileTypes: ['image/jpeg'],
+      maxFileSize: MAX_CAPTURE_SIZE,
+      userId: String(evaluation._id),
+      userRole: 'candidate',
+      metadata: {
+        uploadType: 'screen-capture',
+        candidateId: auth.userId,
+        interviewId
+      }
+    };
+
+    const upload = await S3Service.upload(file, captureConfig);
+    if (!upload.success || !upload.fileUrl || !upload.s3Key) {
+      return { success: false, error: upload.error || 'Failed to upload screen capture' };
+    }
+
+    await TechnicalInterviewEvaluationModel.updateOne(
+      { _id: evaluation._id },
+      { $push: { screenCaptures: { url: upload.fileUrl, s3Key: upload.s3Key, capturedAt: now } } }
+    );
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('[Server] Error uploading screen capture:', error);
+    return { success: false, error: error.message || 'Failed to upload screen capture' };
+  }
+}
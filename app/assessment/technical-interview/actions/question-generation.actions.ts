@@ -3,6 +3,7 @@
 import { buildQueue1Prompt, buildQueue2Prompt, buildFollowupPrompt } from "@/ai-engine/prompts/technicalInterview";
 import { Question, Queues, generateId, ensureIds, callGeminiAPI, randomizeQueue1, generateIdealAnswer } from "@/utils/interview";
 import type { JobData, ResumeData } from "../types";
+import { authorizeRole } from "@/utils/auth-helpers";
 
 /**
  * Question Generation Actions
@@ -14,6 +15,11 @@ export async function generateQuestions(context: {
   resumeData?: ResumeData;
 }): Promise<{ success: boolean; queues?: Queues; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     // Validate required context
     if (!context.jobData || !context.resumeData) {
       return { 
@@ -70,6 +76,11 @@ export async function generateQ2Questions(
   topicId: string
 ): Promise<{ success: boolean; questions?: Question[]; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     console.log(`[Server] Generating Q2 questions for topic (Q1 ID): ${topicId}`);
     
     const q2Prompt = buildQueue2Prompt(q1Question, q1Answer);
@@ -135,6 +146,11 @@ export async function generateFollowupQuestion(
   userAnswer: string
 ): Promise<{ success: boolean; question?: Question; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     const followupPrompt = buildFollowupPrompt(originalQuestion, userAnswer);
     const result = await callGeminiAPI(followupPrompt);
 
@@ -163,6 +179,11 @@ export async function preprocessQuestion(questionText: string): Promise<{
   error?: string;
 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     const result = await generateIdealAnswer(questionText);
     
     if (!result) {
@@ -3,6 +3,8 @@
 import { connectToDatabase } from "@/utils/connectDb";
 import TechnicalInterviewEvaluationModel from "@/models/technicalInterviewEvaluation.model";
 import type { Question } from "../types";
+import { authorizeRole } from "@/utils/auth-helpers";
+import { checkProctoringSession } from "@/lib/proctoring/session";
 
 /**
  * Storage Actions
@@ -23,10 +25,16 @@ export async function storeQ1Questions(
   }>
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -59,10 +67,16 @@ export async function getQ1QuestionsForChunk(
   error?: string;
 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     }).lean();
 
@@ -95,10 +109,16 @@ export async function getQ1Questions(
   error?: string;
 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     }).lean();
 
@@ -144,10 +164,16 @@ export async function addAskedQuestion(
   insertAfterQuestionId?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -188,11 +214,17 @@ export async function markQuestionAsked(
   questionId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const result = await TechnicalInterviewEvaluationModel.findOneAndUpdate(
       {
         technicalInterviewId: interviewId,
+        candidateId: auth.userId,
         status: 'in_progress',
         'askedQuestions.id': questionId
       },
@@ -227,10 +259,21 @@ export async function updateAskedQuestionAnswer(
   }
 ): Promise<{ success: boolean; error?: string; shouldDeleteFollowups?: boolean }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
+    const proctoringError = await checkProctoringSession('technicalInterview', interviewId, auth.userId);
+    if (proctoringError) {
+      return { success: false, error: proctoringError };
+    }
+
     const evalModel = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -300,10 +343,16 @@ export async function updateAskedQuestion(
   }
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -344,10 +393,16 @@ export async function removeAskedQuestion(
   questionId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     });
 
@@ -373,10 +428,16 @@ export async function getAskedQuestions(
   error?: string;
 }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const evaluation = await TechnicalInterviewEvaluationModel.findOne({
       technicalInterviewId: interviewId,
+      candidateId: auth.userId,
       status: 'in_progress'
     }).lean();
 
@@ -401,11 +462,17 @@ export async function markChunkPreprocessed(
   chunkNumber: number
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return auth.response;
+    }
+
     await connectToDatabase();
 
     const result = await TechnicalInterviewEvaluationModel.findOneAndUpdate(
       {
         technicalInterviewId: interviewId,
+        candidateId: auth.userId,
         status: 'in_progress'
       },
       {
@@ -425,27 +492,3 @@ export async function markChunkPreprocessed(
     return { success: false, error: error.message };
   }
 }
-
-// ============================================================================
-// Video Logs Storage
-// ============================================================================
-
-export async function storeVideoLogs(
-  interviewId: string,
-  logs: any[]
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    await connectToDatabase();
-
-    await TechnicalInterviewEvaluationModel.findOneAndUpdate(
-      { technicalInterviewId: interviewId },
-      { $push: { videoLogs: { $each: logs } } },
-      { new: true }
-    );
-
-    return { success: true };
-  } catch (error: any) {
-    console.error('Error storing video logs:', error);
-    return { success: false, error: error.message };
-  }
-}
@@ -20,9 +20,11 @@ import {
   removeAskedQuestion as removeAskedQuestionAction,
   getAskedQuestions as getAskedQuestionsAction,
   markChunkPreprocessed as markChunkPreprocessedAction,
-  storeVideoLogs as storeVideoLogsAction,
   checkVideoViolations as checkVideoViolationsAction,
+  startProctoring as startProctoringAction,
+  verifyIdentity as verifyIdentityAction,
   deleteInterviewAudio as deleteInterviewAudioAction,
+  uploadScreenCapture as uploadScreenCaptureAction,
   type FetchInterviewSessionResponse,
   type JobData,
   type ResumeData,
@@ -128,6 +130,14 @@ export function useInterviewActions() {
     return await checkVideoViolationsAction(interviewId);
   };
 
+  const startProctoring = async (interviewId: string) => {
+    return await startProctoringAction(interviewId);
+  };
+
+  const verifyIdentity = async (interviewId: string, descriptor: number[]) => {
+    return await verifyIdentityAction(interviewId, descriptor);
+  };
+
   // Storage Actions
   const storeQ1Questions = async (
     interviewId: string,
@@ -193,18 +203,15 @@ export function useInterviewActions() {
     return await markChunkPreprocessedAction(interviewId, chunkNumber);
   };
 
-  const storeVideoLogs = async (
-    interviewId: string,
-    logs: any[]
-  ) => {
-    return await storeVideoLogsAction(interviewId, logs);
-  };
-
   // Media Actions
   const deleteInterviewAudio = async (interviewId: string) => {
     return await deleteInterviewAudioAction(interviewId);
   };
 
+  const uploadScreenCapture = async (interviewId: string, formData: FormData) => {
+    return await uploadScreenCaptureAction(interviewId, formData);
+  };
+
   return {
     // Config
     getInterviewConfig,
@@ -222,6 +229,8 @@ export function useInterviewActions() {
     // Analysis
     analyzeAnswer,
     checkVideoViolations,
+    startProctoring,
+    verifyIdentity,
     // Storage
     storeQ1Questions,
     getQ1QuestionsForChunk,
@@ -232,9 +241,9 @@ export function useInterviewActions() {
     removeAskedQuestion,
     getAskedQuestions,
     markChunkPreprocessed,
-    storeVideoLogs,
     // Media
     deleteInterviewAudio,
+    uploadScreenCapture,
   };
 }
 
@@ -1,36 +1,62 @@
 "use client";
-import React from 'react';
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Briefcase, MapPin, DollarSign, Clock } from 'lucide-react';
 import { Job } from '../../types.d';
 import { toast } from 'sonner';
+import { quickApply, saveJob, unsaveJob } from '../../actions';
 
 interface JobRecommendationsProps {
   jobs: Job[];
 }
 
 const JobRecommendations = ({ jobs }: JobRecommendationsProps) => {
-  const handleQuickApply = (index: number) => {
-    toast.success('Application submitted successfully!');
-    console.log('Quick apply to job:', index);
-    // Future: Submit application
+  const router = useRouter();
+  const [savedJobIds, setSavedJobIds] = useState<Set<string>>(
+    () => new Set(jobs.filter((job) => job.saved).map((job) => job.id))
+  );
+  const [appliedJobIds, setAppliedJobIds] = useState<Set<string>>(new Set());
+  const [pendingJobId, setPendingJobId] = useState<string | null>(null);
+
+  const handleQuickApply = async (jobId: string) => {
+    setPendingJobId(jobId);
+    try {
+      const result = await quickApply(jobId);
+      if (result.success) {
+        toast.success(result.message);
+        setAppliedJobIds((prev) => new Set(prev).add(jobId));
+      } else {
+        toast.error(result.error || result.message);
+      }
+    } finally {
+      setPendingJobId(null);
+    }
   };
 
-  const handleSaveJob = (index: number) => {
-    toast.success('Job saved!');
-    console.log('Save job:', index);
-    // Future: Save to database
+  const handleSaveJob = async (jobId: string) => {
+    const isSaved = savedJobIds.has(jobId);
+    const result = isSaved ? await unsaveJob(jobId) : await saveJob(jobId);
+    if (result.success) {
+      toast.success(isSaved ? 'Job removed from saved jobs' : 'Job saved!');
+      setSavedJobIds((prev) => {
+        const next = new Set(prev);
+        if (isSaved) next.delete(jobId);
+        else next.add(jobId);
+        return next;
+      });
+    } else {
+      toast.error(result.error || result.message);
+    }
   };
 
-  const handleViewDetails = (index: number) => {
-    console.log('View job details:', index);
-    // Future: Navigate to job details page
+  const handleViewDetails = (jobId: string) => {
+    router.push(`/job-opportunities/${jobId}`);
   };
 
   const handleViewAll = () => {
-    console.log('View all recommendations');
-    // Future: Navigate to all recommendations page
+    router.push('/job-opportunities');
   };
 
   return (
@@ -43,8 +69,13 @@ const JobRecommendations = ({ jobs }: JobRecommendationsProps) => {
       </CardHeader>
 
       <CardContent className="space-y-3 sm:space-y-4">
-        {jobs.map((job, index) => (
-          <Card key={index} className="bg-gradient-to-br from-emerald-500/10 to-cyan-600/10 border-emerald-500/20">
+        {jobs.length === 0 && (
+          <p className="text-white/60 text-sm text-center py-4">
+            No recommendations yet. Add skills to your resume to get matched with jobs.
+          </p>
+        )}
+        {jobs.map((job) => (
+          <Card key={job.id} className="bg-gradient-to-br from-emerald-500/10 to-cyan-600/10 border-emerald-500/20">
             <CardContent className="p-3 sm:p-4">
               <div className="flex justify-between items-start mb-2 sm:mb-3">
                 <h3 className="font-bold text-white text-sm sm:text-base truncate flex-1 mr-2">{job.title}</h3>
@@ -74,25 +105,26 @@ const JobRecommendations = ({ jobs }: JobRecommendationsProps) => {
                   size="sm" 
                   variant="outline" 
                   className="bg-gradient-to-r from-purple-500/20 to-pink-600/20 text-purple-200 border-purple-500/30 hover:bg-purple-500/30 font-semibold transition-all duration-300"
-                  onClick={() => handleQuickApply(index)}
+                  disabled={pendingJobId === job.id || appliedJobIds.has(job.id)}
+                  onClick={() => handleQuickApply(job.id)}
                 >
-                  Quick Apply
+                  {appliedJobIds.has(job.id) ? 'Applied' : 'Quick Apply'}
                 </Button>
 
                 <Button 
                   size="sm" 
                   variant="ghost" 
                   className="text-white/70 hover:text-white hover:bg-white/10"
-                  onClick={() => handleSaveJob(index)}
+                  onClick={() => handleSaveJob(job.id)}
                 >
-                  Save
+                  {savedJobIds.has(job.id) ? 'Saved' : 'Save'}
                 </Button>
 
                 <Button 
                   size="sm" 
                   variant="ghost" 
                   className="text-white/70 hover:text-white hover:bg-white/10"
-                  onClick={() => handleViewDetails(index)}
+                  onClick={() => handleViewDetails(job.id)}
                 >
                   View Details
                 </Button>
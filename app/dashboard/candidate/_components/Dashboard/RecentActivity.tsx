@@ -1,23 +1,25 @@
 "use client";
 import React from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
-import { Activity, CheckCircle, Calendar, User, FileText } from 'lucide-react';
+import { Activity, Loader2 } from 'lucide-react';
+import { NOTIFICATION_ICONS } from '@/components/NotificationBell';
 import { Activity as ActivityType } from '../../types.d';
-import { toast } from 'sonner';
+import { useRecentActivity } from '../../hooks';
 
 interface RecentActivityProps {
   activities: ActivityType[];
 }
 
-const RecentActivity = ({ activities }: RecentActivityProps) => {
-  const handleViewAll = () => {
-    toast.info('Navigating to all activities...');
-    // Future: Navigate to activities page
-  };
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const RecentActivity = ({ activities: initialActivities }: RecentActivityProps) => {
+  const { activities, isLoading, hasLoadedAll, viewAllActivity, markAsRead } = useRecentActivity(initialActivities);
 
   return (
-    <Card className="bg-white/5 backdrop-blur-sm border-white/10">
+    <Card id="activity" className="bg-white/5 backdrop-blur-sm border-white/10">
       <CardHeader>
         <CardTitle className="flex items-center space-x-2 text-white">
           <Activity className="w-6 h-6 text-white/70" />
@@ -26,55 +28,75 @@ const RecentActivity = ({ activities }: RecentActivityProps) => {
       </CardHeader>
 
       <CardContent className="p-4 sm:p-6">
-        <div className="relative">
-          {/* Timeline line */}
-          <div className="absolute left-4 sm:left-5 top-0 bottom-0 w-1 bg-gradient-to-b from-purple-500 to-pink-500 rounded-full"></div>
-          
-          <div className="space-y-6 sm:space-y-8">
-            {activities.map((activity, index) => {
-              // Map activity types to icons
-              const getIcon = (title: string) => {
-                if (title.includes('Assessment')) return CheckCircle;
-                if (title.includes('Interview')) return Calendar;
-                if (title.includes('Profile')) return User;
-                if (title.includes('Application')) return FileText;
-                return Activity;
-              };
-              const IconComponent = getIcon(activity.title);
-              
-              return (
-                <div key={index} className="relative flex items-start space-x-4 sm:space-x-6">
-                  {/* Timeline dot */}
-                  <div className={`w-8 sm:w-10 h-8 sm:h-10 rounded-full flex items-center justify-center z-10 border-3 flex-shrink-0 ${
-                    activity.type === 'success' ? 'bg-gradient-to-br from-emerald-500 to-green-600 border-emerald-400' : 
-                    'bg-gradient-to-br from-blue-500 to-purple-600 border-blue-400'
-                  }`}>
-                    <IconComponent className="w-4 sm:w-5 h-4 sm:h-5 text-white" />
-                  </div>
-                  
-                  <div className="flex-1 pb-4 sm:pb-6 border-b border-purple-500/20 last:border-b-0 min-w-0">
-                    <div className="font-bold text-white text-base sm:text-lg mb-2 truncate">{activity.title}</div>
+        {activities.length === 0 ? (
+          <p className="text-white/60 text-sm">
+            No activity yet. Updates about your applications and assessments will show up here.
+          </p>
+        ) : (
+          <div className="relative">
+            {/* Timeline line */}
+            <div className="absolute left-4 sm:left-5 top-0 bottom-0 w-1 bg-gradient-to-b from-purple-500 to-pink-500 rounded-full"></div>
+
+            <div className="space-y-6 sm:space-y-8">
+              {activities.map((activity) => {
+                const IconComponent = NOTIFICATION_ICONS[activity.kind] || Activity;
+                const content = (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <div className={`font-bold text-base sm:text-lg truncate ${activity.read ? 'text-white/80' : 'text-white'}`}>
+                        {activity.title}
+                      </div>
+                      {!activity.read && <span className="h-2 w-2 rounded-full bg-rose-500 shrink-0" />}
+                    </div>
                     <div className={`text-sm sm:text-base mt-2 leading-relaxed ${
                       activity.type === 'success' ? 'text-emerald-200' : 'text-blue-200'
                     }`}>{activity.description}</div>
-                    <div className="text-purple-300 text-xs sm:text-sm mt-3 bg-purple-500/10 px-2 sm:px-3 py-1 rounded-full inline-block">{activity.time}</div>
+                    <div className="text-purple-300 text-xs sm:text-sm mt-3 bg-purple-500/10 px-2 sm:px-3 py-1 rounded-full inline-block">
+                      {formatTime(activity.time)}
+                    </div>
+                  </>
+                );
+
+                return (
+                  <div key={activity.id} className="relative flex items-start space-x-4 sm:space-x-6">
+                    {/* Timeline dot */}
+                    <div className={`w-8 sm:w-10 h-8 sm:h-10 rounded-full flex items-center justify-center z-10 border-3 flex-shrink-0 ${
+                      activity.type === 'success' ? 'bg-gradient-to-br from-emerald-500 to-green-600 border-emerald-400' :
+                      'bg-gradient-to-br from-blue-500 to-purple-600 border-blue-400'
+                    }`}>
+                      <IconComponent className="w-4 sm:w-5 h-4 sm:h-5 text-white" />
+                    </div>
+
+                    <div className="flex-1 pb-4 sm:pb-6 border-b border-purple-500/20 last:border-b-0 min-w-0">
+                      {activity.link ? (
+                        <Link href={activity.link} onClick={() => markAsRead(activity.id)} className="block hover:opacity-80">
+                          {content}
+                        </Link>
+                      ) : (
+                        content
+                      )}
+                    </div>
                   </div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
           </div>
-        </div>
+        )}
       </CardContent>
 
-      <CardFooter className="justify-center pt-4 sm:pt-6">
-        <Button 
-          variant="outline" 
-          className=""
-          onClick={handleViewAll}
-        >
-          View All Activity
-        </Button>
-      </CardFooter>
+      {!hasLoadedAll && activities.length > 0 && (
+        <CardFooter className="justify-center pt-4 sm:pt-6">
+          <Button
+            variant="outline"
+            className=""
+            onClick={viewAllActivity}
+            disabled={isLoading}
+          >
+            {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            View All Activity
+          </Button>
+        </CardFooter>
+      )}
     </Card>
   );
 };
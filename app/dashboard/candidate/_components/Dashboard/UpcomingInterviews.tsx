@@ -1,5 +1,6 @@
 "use client";
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Calendar, Clock, Video, Building2 } from 'lucide-react';
@@ -11,13 +12,39 @@ interface UpcomingInterviewsProps {
 }
 
 const UpcomingInterviews = ({ interviews }: UpcomingInterviewsProps) => {
+  const router = useRouter();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   // Calculate countdown to next interview
-  const nextInterviewCountdown = interviews[0] ? '2 hours 15 minutes' : 'No upcoming interviews';
+  const nextInterviewCountdown = (() => {
+    const next = interviews[0];
+    if (!next) return 'No upcoming interviews';
+    if (!next.startsAt) return next.time;
+
+    const minutesLeft = Math.floor((new Date(next.startsAt).getTime() - now) / (60 * 1000));
+    if (minutesLeft <= 0) return 'Starting now';
+
+    const days = Math.floor(minutesLeft / (24 * 60));
+    const hours = Math.floor((minutesLeft % (24 * 60)) / 60);
+    const minutes = minutesLeft % 60;
+    return [
+      days > 0 && `${days} day${days > 1 ? 's' : ''}`,
+      hours > 0 && `${hours} hour${hours > 1 ? 's' : ''}`,
+      `${minutes} minute${minutes === 1 ? '' : 's'}`
+    ].filter(Boolean).join(' ');
+  })();
 
-  const handleJoinInterview = (interviewId: string) => {
-    toast.success('Joining interview...');
-    console.log('Joining interview:', interviewId);
-    // Future: Navigate to interview room
+  const handleJoinInterview = (interview: Interview) => {
+    if (!interview.link) {
+      toast.error('This interview cannot be joined from here');
+      return;
+    }
+    router.push(interview.link);
   };
 
   const handleReschedule = (interviewId: string) => {
@@ -49,8 +76,8 @@ const UpcomingInterviews = ({ interviews }: UpcomingInterviewsProps) => {
 
         {/* Interview List */}
         <div className="space-y-3 sm:space-y-4">
-          {interviews.map((interview, index) => (
-            <Card key={index} className="bg-gradient-to-br from-blue-500/10 to-cyan-600/10 border-blue-500/20 hover:border-blue-500/40 transition-all duration-200">
+          {interviews.map((interview) => (
+            <Card key={interview.id} className="bg-gradient-to-br from-blue-500/10 to-cyan-600/10 border-blue-500/20 hover:border-blue-500/40 transition-all duration-200">
               <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between p-4 sm:p-6 space-y-3 sm:space-y-0">
                 <div className="flex items-start space-x-3 sm:space-x-4 flex-1">
                   <div className="w-12 h-12 rounded-full bg-gradient-to-br from-blue-400 to-cyan-500 flex items-center justify-center flex-shrink-0">
@@ -67,7 +94,7 @@ const UpcomingInterviews = ({ interviews }: UpcomingInterviewsProps) => {
                     size="sm"
                     variant={interview.urgent ? "default" : "outline"}
                     className=""
-                    onClick={() => handleJoinInterview(interview.id)}
+                    onClick={() => handleJoinInterview(interview)}
                   >
                     <Video className="w-4 h-4 mr-2" />
                     Join
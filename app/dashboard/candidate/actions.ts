@@ -1,2 +1,3 @@
 export * from './actions/dashboard-actions';
 export * from './actions/application-actions';
+export * from './actions/notification-actions';
@@ -12,6 +12,7 @@ import { Application } from '../types.d';
 import ApplicationModel from '@/models/application.model';
 import ResumeModel from '@/models/resume.model';
 import AssessmentModel from '@/models/assesment.model';
+import { notifyWithdrawn } from '@/lib/notifications/notify';
 import '@/models/employer.model'; 
 import '@/models/jobOpportunity.model'; 
 import mongoose from 'mongoose';
@@ -221,6 +222,8 @@ export async function withdrawApplication(
         return createErrorResponse('Application not found or cannot be withdrawn');
       }
 
+      await notifyWithdrawn(application._id as mongoose.Types.ObjectId);
+
       return createSuccessResponse('Application withdrawn successfully');
     });
   });
@@ -1,133 +1,271 @@
 'use server';
 
-import { 
-  safeAction, 
-  createSuccessResponse, 
-  type ActionResponse 
+import {
+  safeAction,
+  createSuccessResponse,
+  createErrorResponse,
+  withDatabase,
+  type ActionResponse
 } from '@/utils/action-helpers';
+import { requireAuth } from '@/utils/auth-helpers';
+import { normalizeSkill, parseResumeSkills } from '@/utils/skills';
 import { Job, Interview, Activity, Skill, PerformanceData } from '../types.d';
+import ApplicationModel from '@/models/application.model';
+import AssessmentModel from '@/models/assesment.model';
+import JobOpportunityModel from '@/models/jobOpportunity.model';
+import EmployerModel from '@/models/employer.model';
+import EmployerProfileModel from '@/models/employerProfile.model';
+import CandidateProfileModel from '@/models/candidateProfile.model';
+import ResumeModel from '@/models/resume.model';
+import SavedJobModel from '@/models/savedJob.model';
+import NotificationModel from '@/models/notification.model';
+import TestResultModel from '@/models/aptitudeEvaluation.model';
+import CodingEvaluationModel from '@/models/codingEvaluation.model';
+import TechnicalInterviewEvaluationModel from '@/models/technicalInterviewEvaluation.model';
+import HRInterviewEvaluationModel from '@/models/hrInterviewEvaluation.model';
+import AptitudeModel from '@/models/aptitude.model';
+import CodingModel from '@/models/coding.model';
+import TechnicalInterviewModel from '@/models/technicalInterview.model';
+import HRInterviewModel from '@/models/hrInterview.model';
+import { applyToJob } from '@/app/job-opportunities/actions';
+import mongoose from 'mongoose';
 
 // ========================================
-// MOCK DATA
+// HELPERS
 // ========================================
 
-const mockPerformanceData: PerformanceData = {
-  overallScore: {
-    current: 78,
-    previous: 72,
-    trend: 'up',
-    tip: "Great improvement! Keep taking assessments to boost your score further."
-  },
-  completedAssessments: { 
-    current: 12, 
-    total: 15, 
-    percentage: 80,
-    lastMonthCompleted: 8,
-    tip: "You've completed 4 more assessments than last month. Excellent progress!"
-  },
-  upcomingInterviews: { 
-    count: 3, 
-    nextTime: 'Aug 27 2:00 PM',
-    successRate: 85,
-    lastMonthCount: 2,
-    tip: "Your interview success rate has improved by 10% this month."
-  },
-  skillLevel: {
-    current: 'Advanced',
-    progress: 78,
-    nextLevel: 'Expert',
-    improvement: 12,
-    tip: "22% more to reach Expert level. Focus on advanced JavaScript concepts."
-  }
-};
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-const mockInterviews: Interview[] = [
-  {
-    id: '1',
-    company: 'TechCorp Inc.',
-    type: 'Technical Interview',
-    time: 'Aug 27, 2:00 PM - 3:00 PM',
-    status: 'Join Now',
-    urgent: true
-  },
-  {
-    id: '2',
-    company: 'StartupXYZ',
-    type: 'HR Round',
-    time: 'Aug 28, 10:00 AM',
-    status: 'Scheduled',
-    urgent: false
-  },
-  {
-    id: '3',
-    company: 'Enterprise Co.',
-    type: 'Final Round',
-    time: 'Aug 30, 3:00 PM',
-    status: 'Scheduled',
-    urgent: false
-  }
+const RECOMMENDATION_LIMIT = 5;
+const SKILL_LIMIT = 6;
+
+// Applications in these states no longer take part in any round
+const CLOSED_STATUSES = ['rejected', 'withdrawn'];
+
+const SKILL_LEVELS = [
+  { name: 'Beginner', min: 0 },
+  { name: 'Intermediate', min: 40 },
+  { name: 'Advanced', min: 70 },
+  { name: 'Expert', min: 85 }
 ];
 
-const mockActivities: Activity[] = [
-  {
-    title: 'JavaScript Assessment Completed',
-    description: 'Scored 85% - Excellent performance',
-    time: 'Aug 27, 12:30 PM',
-    icon: null,
-    type: 'success'
-  },
-  {
-    title: 'Interview Scheduled',
-    description: 'TechCorp Inc. - Technical Round',
-    time: 'Aug 26, 4:15 PM',
-    icon: null,
-    type: 'info'
-  },
-  {
-    title: 'Application Submitted',
-    description: 'Senior Frontend Developer at StartupXYZ',
-    time: 'Aug 25, 2:00 PM',
-    icon: null,
-    type: 'info'
+type RoundKey = 'aptitude' | 'coding' | 'technicalInterview' | 'hrInterview';
+
+interface RoundResult {
+  round: RoundKey;
+  score?: number; // 0-100, unset while the round holds its results back
+  completedAt: Date;
+  jobId?: string;
+  passed?: boolean;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function getSkillLevel(score: number) {
+  const index = SKILL_LEVELS.reduce((found, level, i) => (score >= level.min ? i : found), 0);
+  return {
+    current: SKILL_LEVELS[index],
+    next: SKILL_LEVELS[Math.min(index + 1, SKILL_LEVELS.length - 1)]
+  };
+}
+
+function formatSalary(min?: number, max?: number): string {
+  const format = (value: number) => (value >= 1000 ? `$${Math.round(value / 1000)}k` : `$${value}`);
+  if (min && max) return `${format(min)} - ${format(max)}`;
+  if (min) return `From ${format(min)}`;
+  if (max) return `Up to ${format(max)}`;
+  return 'Not disclosed';
+}
+
+function formatLabel(value?: string): string {
+  if (!value) return '';
+  return value.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('-');
+}
+
+/**
+ * Combines a round's scheduled date with its HH:MM start/end time
+ */
+function combineDateAndTime(date: Date, time?: string): Date {
+  const combined = new Date(date);
+  if (time) {
+    const [hours, minutes] = time.split(':').map(Number);
+    combined.setHours(hours, minutes, 0, 0);
   }
-];
+  return combined;
+}
 
-const mockSkills: Skill[] = [
-  { name: 'JavaScript', level: 'Advanced (85%)', progress: 85 },
-  { name: 'React', level: 'Advanced (82%)', progress: 82 },
-  { name: 'TypeScript', level: 'Intermediate (70%)', progress: 70 },
-  { name: 'Node.js', level: 'Intermediate (65%)', progress: 65 },
-  { name: 'Python', level: 'Beginner (45%)', progress: 45 }
-];
+function formatSlot(start: Date, end?: Date): string {
+  const day = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const startTime = start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  if (!end) return `${day}, ${startTime}`;
+  return `${day}, ${startTime} - ${end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+}
 
-const mockRadarData = [
-  { skill: 'JavaScript', value: 85 },
-  { skill: 'React', value: 82 },
-  { skill: 'TypeScript', value: 70 },
-  { skill: 'Node.js', value: 65 },
-  { skill: 'Python', value: 45 }
-];
+/**
+ * Collects every completed round result of the candidate as a 0-100 score. Aptitude and coding rounds that
+ * do not show results immediately keep the score and outcome from the candidate, as their result pages do
+ */
+async function loadRoundResults(candidateId: mongoose.Types.ObjectId): Promise<RoundResult[]> {
+  const [aptitudeResults, codingEvaluations, technicalEvaluations, hrEvaluations] = await Promise.all([
+    TestResultModel.find({ candidateId, status: { $ne: 'incomplete' } })
+      .select('aptitudeId percentage passed submittedAt')
+      .lean(),
+    CodingEvaluationModel.find({ candidateId, isSubmitted: true })
+      .select('codingRoundId jobId score passed updatedAt')
+      .lean(),
+    TechnicalInterviewEvaluationModel.find({ candidateId, status: 'completed' })
+      .select('jobId overallScore verdict endedAt updatedAt')
+      .lean(),
+    HRInterviewEvaluationModel.find({ candidateId, status: 'completed' })
+      .select('jobId overallScore verdict endedAt updatedAt')
+      .lean()
+  ]);
+
+  // Aptitude results only reference the round, so resolve the job through its assessment
+  const aptitudeIds = aptitudeResults.map(result => result.aptitudeId);
+  const aptitudeAssessments = aptitudeIds.length
+    ? await AssessmentModel.find({ aptitudeId: { $in: aptitudeIds } }).select('aptitudeId jobOpportunity').lean()
+    : [];
+  const aptitudeJobs = new Map(aptitudeAssessments.map(a => [String(a.aptitudeId), a.jobOpportunity?.toString()]));
+
+  const codingRoundIds = codingEvaluations.map(evaluation => evaluation.codingRoundId);
+  const [shownAptitudes, shownCodingRounds] = await Promise.all([
+    aptitudeIds.length
+      ? AptitudeModel.find({ _id: { $in: aptitudeIds }, showResultImmediately: true }).select('_id').lean()
+      : [],
+    codingRoundIds.length
+      ? CodingModel.find({ _id: { $in: codingRoundIds }, showResultImmediately: true }).select('_id').lean()
+      : []
+  ]);
+  const shownRounds = new Set([...shownAptitudes, ...shownCodingRounds].map(round => String(round._id)));
+
+  return [
+    ...aptitudeResults.map(result => {
+      const shown = shownRounds.has(String(result.aptitudeId));
+      return {
+        round: 'aptitude' as const,
+        score: shown ? result.percentage ?? 0 : undefined,
+        completedAt: result.submittedAt,
+        jobId: aptitudeJobs.get(String(result.aptitudeId)),
+        passed: shown ? result.passed : undefined
+      };
+    }),
+    ...codingEvaluations.map((evaluation: any) => {
+      const shown = shownRounds.has(String(evaluation.codingRoundId));
+      return {
+        round: 'coding' as const,
+        score: shown ? evaluation.score ?? 0 : undefined,
+        completedAt: evaluation.updatedAt,
+        jobId: evaluation.jobId?.toString(),
+        passed: shown ? evaluation.passed : undefined
+      };
+    }),
+    ...[
+      ...technicalEvaluations.map(evaluation => ({ evaluation, round: 'technicalInterview' as const })),
+      ...hrEvaluations.map(evaluation => ({ evaluation, round: 'hrInterview' as const }))
+    ]
+      .filter(({ evaluation }: { evaluation: any }) => typeof evaluation.overallScore === 'number')
+      .map(({ evaluation, round }: { evaluation: any; round: RoundKey }) => ({
+        round,
+        score: evaluation.overallScore,
+        completedAt: evaluation.endedAt || evaluation.updatedAt,
+        jobId: evaluation.jobId?.toString(),
+        passed: evaluation.verdict ? evaluation.verdict === 'pass' : undefined
+      }))
+  ];
+}
+
+/**
+ * Skills listed on the candidate's resumes, preferring the active resume when it has any
+ */
+async function loadResumeSkills(candidateId: mongoose.Types.ObjectId): Promise<string[]> {
+  const [profile, resumes] = await Promise.all([
+    CandidateProfileModel.findOne({ candidate: candidateId }).select('activeResume').lean(),
+    ResumeModel.find({ candidateId, isParsed: true }).select('parsedData.skills').sort({ uploadedAt: -1 }).lean()
+  ]);
+
+  const active = resumes.find(resume => String(resume._id) === String(profile?.activeResume));
+  const activeSkills = parseResumeSkills(active?.parsedData?.skills);
+  if (activeSkills.length > 0) return activeSkills;
+
+  const seen = new Set<string>();
+  return resumes
+    .flatMap(resume => parseResumeSkills(resume.parsedData?.skills))
+    .filter(skill => {
+      const key = normalizeSkill(skill);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+interface CompanyOwner {
+  employer?: unknown;
+  organization?: unknown;
+}
+
+// Records are grouped by organization; records created before organizations existed fall back to their employer
+function companyKey(record: CompanyOwner): string {
+  return String(record.organization || record.employer);
+}
 
-const mockJobs: Job[] = [
-  {
-    title: 'Senior Frontend Developer',
-    company: 'TechCorp Inc.',
-    location: 'San Francisco, CA',
-    salary: '$120k - $150k',
-    type: 'Full-time • Remote friendly',
-    match: '92% Match',
-    skills: 'React, JavaScript, Node.js, TypeScript'
-  },
-  {
-    title: 'Full Stack Engineer',
-    company: 'StartupXYZ',
-    location: 'Remote',
-    salary: '$100k - $130k',
-    type: 'Full-time • Remote',
-    match: '88% Match',
-    skills: 'React, Node.js, MongoDB, AWS'
+/**
+ * Resolves company names for records, keyed by companyKey, preferring the organization's company profile
+ */
+async function loadCompanyNames(records: CompanyOwner[]): Promise<Map<string, string>> {
+  const organizationIds = Array.from(new Set(records.map(r => r.organization).filter(Boolean).map(String)));
+  const employerIds = Array.from(new Set(records.map(r => r.employer).filter(Boolean).map(String)));
+  if (employerIds.length === 0 && organizationIds.length === 0) return new Map();
+
+  const [profiles, employers] = await Promise.all([
+    EmployerProfileModel.find({
+      $or: [
+        { organization: { $in: organizationIds } },
+        { employer: { $in: employerIds }, organization: { $exists: false } }
+      ]
+    }).select('employer organization companyName').lean(),
+    EmployerModel.find({ _id: { $in: employerIds } }).select('firstName lastName').lean()
+  ]);
+
+  const employerNames = new Map<string, string>();
+  for (const employer of employers as any[]) {
+    employerNames.set(String(employer._id), `${employer.firstName || ''} ${employer.lastName || ''}`.trim() || 'Company');
   }
-];
+  const profileNames = new Map<string, string>();
+  for (const profile of profiles as any[]) {
+    if (profile.companyName) profileNames.set(String(profile.organization || profile.employer), profile.companyName);
+  }
+
+  const names = new Map<string, string>();
+  for (const record of records) {
+    const name = profileNames.get(companyKey(record)) || employerNames.get(String(record.employer));
+    if (name) names.set(companyKey(record), name);
+  }
+  return names;
+}
+
+function toJob(job: any, companyNames: Map<string, string>, skills: string[], savedJobIds: Set<string>): Job {
+  const techStack: string[] = job.techStack || [];
+  const candidateSkills = new Set(skills.map(normalizeSkill));
+  const matched = techStack.filter(tech => candidateSkills.has(normalizeSkill(tech)));
+  const match = techStack.length ? Math.round((matched.length / techStack.length) * 100) : 0;
+
+  return {
+    id: job._id.toString(),
+    title: job.title,
+    company: companyNames.get(companyKey(job)) || 'Company',
+    location: job.locationType === 'remote' ? 'Remote' : job.location,
+    salary: formatSalary(job.salaryMin, job.salaryMax),
+    type: [formatLabel(job.employmentType), formatLabel(job.locationType)].filter(Boolean).join(' • '),
+    match: `${match}% Match`,
+    skills: (matched.length ? matched : techStack).join(', '),
+    saved: savedJobIds.has(job._id.toString())
+  };
+}
 
 // ========================================
 // PERFORMANCE DATA ACTIONS
@@ -135,8 +273,96 @@ const mockJobs: Job[] = [
 
 export async function fetchPerformanceData(): Promise<ActionResponse<PerformanceData>> {
   return safeAction(async () => {
-    // Future: Replace with actual database call
-    return createSuccessResponse('Performance data fetched successfully', mockPerformanceData);
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    return await withDatabase(async () => {
+      const monthAgo = new Date(Date.now() - MONTH_MS);
+
+      const [results, applications, upcoming] = await Promise.all([
+        loadRoundResults(candidateId),
+        ApplicationModel.find({ candidateId, status: { $nin: CLOSED_STATUSES } }).select('jobId').lean(),
+        loadUpcomingRounds(candidateId)
+      ]);
+
+      // Overall score compares all shown results with the results available a month ago
+      const scores = (rounds: typeof results) => rounds.flatMap(r => (r.score === undefined ? [] : [r.score]));
+      const current = Math.round(average(scores(results)) ?? 0);
+      const olderResults = results.filter(r => new Date(r.completedAt) < monthAgo);
+      const previous = Math.round(average(scores(olderResults)) ?? current);
+      const scoreTrend = current > previous ? 'up' : current < previous ? 'down' : 'stable';
+
+      // Every round of every active application's assessment counts towards the total
+      const jobIds = applications.map(app => app.jobId);
+      const assessments = jobIds.length
+        ? await AssessmentModel.find({ jobOpportunity: { $in: jobIds } }).select('toConductRounds').lean()
+        : [];
+      const assignedRounds = assessments.reduce(
+        (total, assessment: any) => total + Object.values(assessment.toConductRounds || {}).filter(Boolean).length,
+        0
+      );
+      const completed = results.length;
+      const total = Math.max(assignedRounds, completed);
+      const completedLastMonth = olderResults.length;
+
+      const interviews = results.filter(r => r.round === 'technicalInterview' || r.round === 'hrInterview');
+      const decidedInterviews = interviews.filter(r => r.passed !== undefined);
+      const successRate = decidedInterviews.length
+        ? Math.round((decidedInterviews.filter(r => r.passed).length / decidedInterviews.length) * 100)
+        : 0;
+      const upcomingInterviews = upcoming.filter(r => r.round === 'technicalInterview' || r.round === 'hrInterview');
+      const interviewsLastMonth = interviews.filter(r => new Date(r.completedAt) >= monthAgo).length;
+
+      const level = getSkillLevel(current);
+      const isTopLevel = level.current.name === level.next.name;
+
+      const performanceData: PerformanceData = {
+        overallScore: {
+          current,
+          previous,
+          trend: scoreTrend,
+          tip: results.length === 0
+            ? 'Complete your first assessment to get an overall score.'
+            : scoreTrend === 'up'
+              ? 'Great improvement! Keep taking assessments to boost your score further.'
+              : scoreTrend === 'down'
+                ? 'Your recent results are below your earlier average. Review the areas you missed.'
+                : 'Your score is steady. Take more assessments to push it higher.'
+        },
+        completedAssessments: {
+          current: completed,
+          total,
+          percentage: total ? Math.round((completed / total) * 100) : 0,
+          lastMonthCompleted: completedLastMonth,
+          tip: completed > completedLastMonth
+            ? `You've completed ${completed - completedLastMonth} assessment${completed - completedLastMonth === 1 ? '' : 's'} in the last 30 days.`
+            : total > completed
+              ? `You have ${total - completed} assessment round${total - completed === 1 ? '' : 's'} left to complete.`
+              : 'Apply to more jobs to unlock new assessments.'
+        },
+        upcomingInterviews: {
+          count: upcomingInterviews.length,
+          nextTime: upcomingInterviews[0] ? formatSlot(upcomingInterviews[0].startsAt) : 'None scheduled',
+          successRate,
+          lastMonthCount: interviewsLastMonth,
+          tip: upcomingInterviews.length
+            ? 'Run the system check before your next interview to avoid last-minute issues.'
+            : decidedInterviews.length
+              ? `You have passed ${successRate}% of your interviews so far.`
+              : 'Interviews will appear here once an employer schedules one for you.'
+        },
+        skillLevel: {
+          current: level.current.name,
+          progress: current,
+          nextLevel: level.next.name,
+          improvement: current - previous,
+          tip: isTopLevel
+            ? 'You are at the top level. Keep your results consistent.'
+            : `${level.next.min - current}% more to reach ${level.next.name} level.`
+        }
+      };
+
+      return createSuccessResponse('Performance data fetched successfully', performanceData);
+    });
   }, 'Failed to fetch performance data');
 }
 
@@ -152,19 +378,138 @@ export async function updatePerformanceData(updates: Partial<PerformanceData>):
 // INTERVIEW ACTIONS
 // ========================================
 
+const ROUND_LABELS: Record<RoundKey, string> = {
+  aptitude: 'Aptitude Test',
+  coding: 'Coding Round',
+  technicalInterview: 'Technical Interview',
+  hrInterview: 'HR Round'
+};
+
+interface UpcomingRound {
+  id: string;
+  round: RoundKey;
+  assessmentId: string;
+  employer: string;
+  organization?: string;
+  startsAt: Date;
+  endsAt?: Date;
+}
+
+/**
+ * Scheduled rounds the candidate is authorized for that have not ended yet,
+ * limited to assessments of jobs with an active application, soonest first
+ */
+async function loadUpcomingRounds(candidateId: mongoose.Types.ObjectId): Promise<UpcomingRound[]> {
+  const applications = await ApplicationModel.find({ candidateId, status: { $nin: CLOSED_STATUSES } })
+    .select('jobId rounds')
+    .lean();
+  if (applications.length === 0) return [];
+
+  const roundStatusByJob = new Map(applications.map(app => [String(app.jobId), app.rounds]));
+  const assessments = await AssessmentModel.find({ jobOpportunity: { $in: applications.map(app => app.jobId) } })
+    .select('jobOpportunity employer organization aptitudeId codingRoundId technicalInterviewId hrInterviewId')
+    .lean();
+
+  const roundSources: { round: RoundKey; field: 'aptitudeId' | 'codingRoundId' | 'technicalInterviewId' | 'hrInterviewId'; model: mongoose.Model<any> }[] = [
+    { round: 'aptitude', field: 'aptitudeId', model: AptitudeModel },
+    { round: 'coding', field: 'codingRoundId', model: CodingModel },
+    { round: 'technicalInterview', field: 'technicalInterviewId', model: TechnicalInterviewModel },
+    { round: 'hrInterview', field: 'hrInterviewId', model: HRInterviewModel }
+  ];
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const now = new Date();
+
+  const rounds = await Promise.all(
+    roundSources.map(async ({ round, field, model }) => {
+      const assessmentByRound = new Map(
+        assessments.filter(a => a[field]).map(a => [String(a[field]), a])
+      );
+      if (assessmentByRound.size === 0) return [];
+
+      const scheduled = await model.find({
+        _id: { $in: Array.from(assessmentByRound.keys()) },
+        candidateIds: candidateId,
+        scheduledDate: { $gte: today }
+      })
+        .select('scheduledDate startTime endTime')
+        .lean();
+
+      return scheduled
+        .map((doc: any): UpcomingRound | null => {
+          const assessment = assessmentByRound.get(String(doc._id));
+          if (!assessment) return null;
+
+          const status = roundStatusByJob.get(String(assessment.jobOpportunity))?.[round];
+          if (status === 'completed' || status === 'rejected') return null;
+
+          const startsAt = combineDateAndTime(doc.scheduledDate, doc.startTime);
+          const endsAt = doc.endTime
+            ? combineDateAndTime(doc.scheduledDate, doc.endTime)
+            : doc.startTime ? undefined : new Date(startsAt.getTime() + DAY_MS);
+          if ((endsAt ?? startsAt) < now) return null;
+
+          return {
+            id: String(doc._id),
+            round,
+            assessmentId: String(assessment._id),
+            employer: String(assessment.employer),
+            organization: assessment.organization ? String(assessment.organization) : undefined,
+            startsAt,
+            endsAt
+          };
+        })
+        .filter((r): r is UpcomingRound => r !== null);
+    })
+  );
+
+  return rounds.flat().sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
 export async function fetchUpcomingInterviews(): Promise<ActionResponse<Interview[]>> {
   return safeAction(async () => {
-    // Future: Replace with actual database call
-    return createSuccessResponse('Interviews fetched successfully', mockInterviews);
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    return await withDatabase(async () => {
+      const upcoming = await loadUpcomingRounds(candidateId);
+      const companyNames = await loadCompanyNames(upcoming);
+      const now = Date.now();
+
+      const interviews: Interview[] = upcoming.map(r => {
+        const isLive = r.startsAt.getTime() <= now && (!r.endsAt || r.endsAt.getTime() >= now);
+        return {
+          id: r.id,
+          company: companyNames.get(companyKey(r)) || 'Company',
+          type: ROUND_LABELS[r.round],
+          time: formatSlot(r.startsAt, r.endsAt),
+          status: isLive ? 'Join Now' : 'Scheduled',
+          urgent: isLive || r.startsAt.getTime() - now < DAY_MS,
+          startsAt: r.startsAt.toISOString(),
+          link: `/assessment/process/${r.assessmentId}`
+        };
+      });
+
+      return createSuccessResponse('Interviews fetched successfully', interviews);
+    });
   }, 'Failed to fetch interviews');
 }
 
 export async function joinInterview(interviewId: string): Promise<ActionResponse<{ meetingLink: string }>> {
   return safeAction(async () => {
-    // Future: Generate meeting link or join interview
-    console.log('Joining interview:', interviewId);
-    const meetingLink = 'https://meet.example.com/interview-link';
-    return createSuccessResponse('Interview link generated', { meetingLink });
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    return await withDatabase(async () => {
+      const upcoming = await loadUpcomingRounds(candidateId);
+      const round = upcoming.find(r => r.id === interviewId);
+      if (!round) {
+        return createErrorResponse('Interview not found or no longer available');
+      }
+
+      return createSuccessResponse('Interview link generated', {
+        meetingLink: `/assessment/process/${round.assessmentId}`
+      });
+    });
   }, 'Failed to join interview');
 }
 
@@ -180,18 +525,58 @@ export async function rescheduleInterview(interviewId: string, newTime: string):
 // ACTIVITY ACTIONS
 // ========================================
 
-export async function fetchRecentActivity(): Promise<ActionResponse<Activity[]>> {
+const SUCCESS_ACTIVITY_KINDS: Activity['kind'][] = ['shortlisted', 'round-completed', 'result'];
+
+/**
+ * The candidate's latest activity, read from their notifications.
+ */
+export async function fetchRecentActivity(limit: number = 5): Promise<ActionResponse<Activity[]>> {
   return safeAction(async () => {
-    // Future: Replace with actual database call
-    return createSuccessResponse('Activities fetched successfully', mockActivities);
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    return await withDatabase(async () => {
+      const notifications = await NotificationModel.find({ recipient: candidateId, deliverAt: { $lte: new Date() } })
+        .sort({ deliverAt: -1 })
+        .limit(Math.min(Math.max(limit, 1), 100))
+        .select('type title message link deliverAt readAt')
+        .lean();
+
+      const activities: Activity[] = notifications.map(notification => ({
+        id: notification._id.toString(),
+        kind: notification.type,
+        title: notification.title,
+        description: notification.message,
+        time: notification.deliverAt.toISOString(),
+        type: SUCCESS_ACTIVITY_KINDS.includes(notification.type) ? 'success' : 'info',
+        link: notification.link,
+        read: Boolean(notification.readAt)
+      }));
+
+      return createSuccessResponse('Activities fetched successfully', activities);
+    });
   }, 'Failed to fetch activities');
 }
 
 export async function markActivityAsRead(activityId: string): Promise<ActionResponse> {
   return safeAction(async () => {
-    // Future: Mark activity as read in database
-    console.log('Marking activity as read:', activityId);
-    return createSuccessResponse('Activity marked as read');
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    if (!mongoose.Types.ObjectId.isValid(activityId)) {
+      return createErrorResponse('Invalid activity ID');
+    }
+
+    return await withDatabase(async () => {
+      // $min keeps the time it was first read
+      const result = await NotificationModel.updateOne(
+        { _id: activityId, recipient: candidateId },
+        { $min: { readAt: new Date() } }
+      );
+      if (!result.matchedCount) {
+        return createErrorResponse('Activity not found');
+      }
+
+      return createSuccessResponse('Activity marked as read');
+    });
   }, 'Failed to mark activity as read');
 }
 
@@ -199,14 +584,80 @@ export async function markActivityAsRead(activityId: string): Promise<ActionResp
 // SKILL ACTIONS
 // ========================================
 
+/**
+ * Scores each skill by the candidate's results on jobs whose tech stack lists it.
+ * Resume skills without any assessed job are listed as not assessed.
+ */
 export async function fetchSkillAnalysis(): Promise<ActionResponse<{ skills: Skill[], radarData: any[], recommendation: string }>> {
   return safeAction(async () => {
-    // Future: Replace with actual database call
-    const recommendation = 'Focus on improving Python skills to reach Advanced level.';
-    return createSuccessResponse('Skill analysis fetched successfully', {
-      skills: mockSkills,
-      radarData: mockRadarData,
-      recommendation
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    return await withDatabase(async () => {
+      const [results, resumeSkills] = await Promise.all([
+        loadRoundResults(candidateId),
+        loadResumeSkills(candidateId)
+      ]);
+
+      const scoresByJob = new Map<string, number[]>();
+      for (const result of results) {
+        if (!result.jobId || result.score === undefined) continue;
+        scoresByJob.set(result.jobId, [...(scoresByJob.get(result.jobId) || []), result.score]);
+      }
+
+      const jobs = scoresByJob.size
+        ? await JobOpportunityModel.find({ _id: { $in: Array.from(scoresByJob.keys()) } }).select('techStack').lean()
+        : [];
+
+      // Skill name as first seen, keyed by its normalized form
+      const skillNames = new Map<string, string>();
+      const skillScores = new Map<string, number[]>();
+      for (const job of jobs) {
+        const jobScore = average(scoresByJob.get(String(job._id)) || []);
+        if (jobScore === null) continue;
+        for (const tech of job.techStack || []) {
+          const key = normalizeSkill(tech);
+          if (!skillNames.has(key)) skillNames.set(key, tech);
+          skillScores.set(key, [...(skillScores.get(key) || []), jobScore]);
+        }
+      }
+
+      const assessed: Skill[] = Array.from(skillScores.entries())
+        .map(([key, scores]) => {
+          const progress = Math.round(average(scores) ?? 0);
+          return {
+            name: skillNames.get(key) || key,
+            level: `${getSkillLevel(progress).current.name} (${progress}%)`,
+            progress
+          };
+        })
+        .sort((a, b) => b.progress - a.progress);
+
+      const assessedKeys = new Set(skillScores.keys());
+      const unassessed: Skill[] = resumeSkills
+        .filter(skill => !assessedKeys.has(normalizeSkill(skill)))
+        .map(skill => ({ name: skill, level: 'Not assessed yet', progress: 0 }));
+
+      const skills = [...assessed, ...unassessed].slice(0, SKILL_LIMIT);
+      const radarData = skills.map(skill => ({ skill: skill.name, value: skill.progress }));
+
+      let recommendation: string;
+      if (assessed.length === 0) {
+        recommendation = resumeSkills.length
+          ? 'Take an assessment to get your resume skills evaluated.'
+          : 'Upload a resume and take assessments to get a skill analysis.';
+      } else {
+        const weakest = assessed[assessed.length - 1];
+        const { current, next } = getSkillLevel(weakest.progress);
+        recommendation = current.name === next.name
+          ? `All assessed skills are at ${current.name} level. Keep it up!`
+          : `Focus on improving ${weakest.name} skills to reach ${next.name} level.`;
+      }
+
+      return createSuccessResponse('Skill analysis fetched successfully', {
+        skills,
+        radarData,
+        recommendation
+      });
     });
   }, 'Failed to fetch skill analysis');
 }
@@ -223,50 +674,171 @@ export async function updateSkillProgress(skillName: string, progress: number):
 // JOB ACTIONS
 // ========================================
 
+/**
+ * Open public jobs the candidate has not applied to, ranked by how much of
+ * the job's tech stack is covered by the candidate's resume skills
+ */
 export async function fetchJobRecommendations(): Promise<ActionResponse<Job[]>> {
   return safeAction(async () => {
-    // Future: Replace with actual database call
-    return createSuccessResponse('Job recommendations fetched successfully', mockJobs);
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    return await withDatabase(async () => {
+      const [skills, applications, savedJobs] = await Promise.all([
+        loadResumeSkills(candidateId),
+        ApplicationModel.find({ candidateId }).select('jobId').lean(),
+        SavedJobModel.find({ candidateId }).select('jobId').lean()
+      ]);
+
+      const jobs = await JobOpportunityModel.find({
+        isPublic: true,
+        _id: { $nin: applications.map(app => app.jobId) },
+        $or: [{ deadline: { $exists: false } }, { deadline: null }, { deadline: { $gte: new Date() } }]
+      })
+        .select('title employer organization location locationType employmentType salaryMin salaryMax techStack createdAt')
+        .sort({ createdAt: -1 })
+        .lean();
+
+      const companyNames = await loadCompanyNames(jobs);
+      const savedJobIds = new Set(savedJobs.map(saved => String(saved.jobId)));
+
+      // Newer jobs win ties because the list is already sorted by creation date
+      const recommendations = jobs
+        .map(job => toJob(job, companyNames, skills, savedJobIds))
+        .map((job, index) => ({ job, index, match: parseInt(job.match, 10) }))
+        .filter(({ match }) => skills.length === 0 || match > 0)
+        .sort((a, b) => b.match - a.match || a.index - b.index)
+        .slice(0, RECOMMENDATION_LIMIT)
+        .map(({ job }) => job);
+
+      return createSuccessResponse('Job recommendations fetched successfully', recommendations);
+    });
   }, 'Failed to fetch job recommendations');
 }
 
+/**
+ * Applies to a job with the candidate's active resume, or their latest one
+ */
 export async function quickApply(jobId: string): Promise<ActionResponse> {
   return safeAction(async () => {
-    // Future: Submit quick application to database
-    console.log('Quick applying to job:', jobId);
-    return createSuccessResponse('Application submitted successfully!');
+    const candidateId = await requireAuth();
+
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      return createErrorResponse('Invalid job ID');
+    }
+
+    const resumeId = await withDatabase(async () => {
+      const profile = await CandidateProfileModel.findOne({ candidate: candidateId }).select('activeResume').lean();
+      if (profile?.activeResume) return profile.activeResume.toString();
+
+      const latest = await ResumeModel.findOne({ candidateId }).sort({ uploadedAt: -1 }).select('_id').lean();
+      return latest?._id ? String(latest._id) : undefined;
+    });
+
+    return await applyToJob(jobId, resumeId);
   }, 'Failed to submit application');
 }
 
-export async function saveJob(jobId: string): Promise<ActionResponse> {
+export async function saveJob(jobId: string): Promise<ActionResponse<{ saved: boolean }>> {
   return safeAction(async () => {
-    // Future: Save job to user's saved list in database
-    console.log('Saving job:', jobId);
-    return createSuccessResponse('Job saved successfully');
+    const candidateId = await requireAuth();
+
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      return createErrorResponse('Invalid job ID');
+    }
+
+    return await withDatabase(async () => {
+      const job = await JobOpportunityModel.exists({ _id: jobId });
+      if (!job) {
+        return createErrorResponse('Job not found');
+      }
+
+      await SavedJobModel.updateOne(
+        { candidateId: new mongoose.Types.ObjectId(candidateId), jobId: new mongoose.Types.ObjectId(jobId) },
+        { $setOnInsert: { savedAt: new Date() } },
+        { upsert: true }
+      );
+
+      return createSuccessResponse('Job saved successfully', { saved: true });
+    });
   }, 'Failed to save job');
 }
 
+export async function unsaveJob(jobId: string): Promise<ActionResponse<{ saved: boolean }>> {
+  return safeAction(async () => {
+    const candidateId = await requireAuth();
+
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      return createErrorResponse('Invalid job ID');
+    }
+
+    return await withDatabase(async () => {
+      await SavedJobModel.deleteOne({
+        candidateId: new mongoose.Types.ObjectId(candidateId),
+        jobId: new mongoose.Types.ObjectId(jobId)
+      });
+
+      return createSuccessResponse('Job removed from saved jobs', { saved: false });
+    });
+  }, 'Failed to remove saved job');
+}
+
+export async function fetchSavedJobs(): Promise<ActionResponse<Job[]>> {
+  return safeAction(async () => {
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    return await withDatabase(async () => {
+      const [savedJobs, skills] = await Promise.all([
+        SavedJobModel.find({ candidateId }).sort({ savedAt: -1 }).lean(),
+        loadResumeSkills(candidateId)
+      ]);
+
+      const jobs = await JobOpportunityModel.find({ _id: { $in: savedJobs.map(saved => saved.jobId) } })
+        .select('title employer organization location locationType employmentType salaryMin salaryMax techStack')
+        .lean();
+      const jobsById = new Map(jobs.map(job => [String(job._id), job]));
+      const companyNames = await loadCompanyNames(jobs);
+      const savedJobIds = new Set(savedJobs.map(saved => String(saved.jobId)));
+
+      // Saved jobs whose posting was deleted are skipped
+      const result = savedJobs
+        .map(saved => jobsById.get(String(saved.jobId)))
+        .filter(Boolean)
+        .map(job => toJob(job, companyNames, skills, savedJobIds));
+
+      return createSuccessResponse('Saved jobs fetched successfully', result);
+    });
+  }, 'Failed to fetch saved jobs');
+}
+
 export async function fetchJobDetails(jobId: string): Promise<ActionResponse<Job & { description: string; requirements: string[] }>> {
   return safeAction(async () => {
-    // Future: Fetch detailed job information from database
-    console.log('Fetching job details:', jobId);
-    const jobDetails = {
-      title: 'Senior Frontend Developer',
-      company: 'TechCorp Inc.',
-      location: 'San Francisco, CA',
-      salary: '$120k - $150k',
-      type: 'Full-time • Remote friendly',
-      match: '92% Match',
-      skills: 'React, JavaScript, Node.js, TypeScript',
-      description: 'We are looking for a skilled Frontend Developer to join our growing team...',
-      requirements: [
-        '5+ years React experience',
-        'TypeScript proficiency',
-        'Strong understanding of web performance',
-        'Experience with state management libraries'
-      ]
-    };
-    return createSuccessResponse('Job details fetched successfully', jobDetails);
+    const candidateId = new mongoose.Types.ObjectId(await requireAuth());
+
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      return createErrorResponse('Invalid job ID');
+    }
+
+    return await withDatabase(async () => {
+      const job = await JobOpportunityModel.findById(jobId).lean();
+      if (!job) {
+        return createErrorResponse('Job not found');
+      }
+
+      const [skills, saved, companyNames] = await Promise.all([
+        loadResumeSkills(candidateId),
+        SavedJobModel.exists({ candidateId, jobId: job._id }),
+        loadCompanyNames([job])
+      ]);
+
+      const jobDetails = {
+        ...toJob(job, companyNames, skills, new Set(saved ? [jobId] : [])),
+        description: job.description || '',
+        requirements: (job.requirements || '')
+          .split('\n')
+          .map(line => line.replace(/^[-*•\d.\s]+/, '').trim())
+          .filter(Boolean)
+      };
+      return createSuccessResponse('Job details fetched successfully', jobDetails);
+    });
   }, 'Failed to fetch job details');
 }
-
@@ -0,0 +1,141 @@
+'use server';
+
+import {
+  safeAction,
+  createSuccessResponse,
+  createErrorResponse,
+  withDatabase,
+  type ActionResponse
+} from '@/utils/action-helpers';
+import { requireRole } from '@/utils/auth-helpers';
+import { CandidateNotification } from '../types.d';
+import NotificationModel, { Notification } from '@/models/notification.model';
+import ApplicationModel from '@/models/application.model';
+import mongoose from 'mongoose';
+
+type NotificationFields = Pick<Notification, 'type' | 'title' | 'message' | 'link' | 'deliverAt' | 'readAt'> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+function toCandidateNotification(notification: NotificationFields): CandidateNotification {
+  return {
+    id: notification._id.toString(),
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    link: notification.link,
+    createdAt: notification.deliverAt.toISOString(),
+    read: Boolean(notification.readAt)
+  };
+}
+
+// ========================================
+// NOTIFICATION ACTIONS
+// ========================================
+
+/**
+ * Fetches the candidate's latest notifications and how many of them are unread.
+ * Reminders planned for later are hidden until their deliverAt time.
+ */
+export async function fetchNotifications(
+  limit: number = 20
+): Promise<ActionResponse<{ notifications: CandidateNotification[]; unreadCount: number }>> {
+  return safeAction(async () => {
+    const candidateId = new mongoose.Types.ObjectId(await requireRole('candidate'));
+
+    return await withDatabase(async () => {
+      const delivered = { recipient: candidateId, deliverAt: { $lte: new Date() } };
+
+      const [notifications, unreadCount] = await Promise.all([
+        NotificationModel.find(delivered)
+          .sort({ deliverAt: -1 })
+          .limit(Math.min(Math.max(limit, 1), 100))
+          .select('type title message link deliverAt readAt')
+          .lean<NotificationFields[]>(),
+        NotificationModel.countDocuments({ ...delivered, readAt: { $exists: false } })
+      ]);
+
+      return createSuccessResponse('Notifications fetched successfully', {
+        notifications: notifications.map(toCandidateNotification),
+        unreadCount
+      });
+    });
+  }, 'Failed to fetch notifications');
+}
+
+/**
+ * Marks the given notifications as read. Ids that are not the candidate's own are ignored.
+ */
+export async function markNotificationsRead(
+  notificationIds: string[]
+): Promise<ActionResponse<{ updated: number }>> {
+  return safeAction(async () => {
+    const candidateId = new mongoose.Types.ObjectId(await requireRole('candidate'));
+
+    const ids = notificationIds.filter(id => mongoose.Types.ObjectId.isValid(id));
+    if (ids.length === 0) {
+      return createErrorResponse('No valid notification IDs provided');
+    }
+
+    return await withDatabase(async () => {
+      const result = await NotificationModel.updateMany(
+        { _id: { $in: ids }, recipient: candidateId, readAt: { $exists: false } },
+        { $set: { readAt: new Date() } }
+      );
+
+      return createSuccessResponse('Notifications marked as read', { updated: result.modifiedCount });
+    });
+  }, 'Failed to mark notifications as read');
+}
+
+/**
+ * Marks every delivered notification of the candidate as read.
+ */
+export async function markAllNotificationsRead(): Promise<ActionResponse<{ updated: number }>> {
+  return safeAction(async () => {
+    const candidateId = new mongoose.Types.ObjectId(await requireRole('candidate'));
+
+    return await withDatabase(async () => {
+      const now = new Date();
+      const result = await NotificationModel.updateMany(
+        { recipient: candidateId, deliverAt: { $lte: now }, readAt: { $exists: false } },
+        { $set: { readAt: now } }
+      );
+
+      return createSuccessResponse('All notifications marked as read', { updated: result.modifiedCount });
+    });
+  }, 'Failed to mark notifications as read');
+}
+
+/**
+ * Everything that happened to one of the candidate's applications, oldest first.
+ */
+export async function fetchApplicationTimeline(
+  applicationId: string
+): Promise<ActionResponse<CandidateNotification[]>> {
+  return safeAction(async () => {
+    const candidateId = new mongoose.Types.ObjectId(await requireRole('candidate'));
+
+    if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+      return createErrorResponse('Invalid application ID');
+    }
+
+    return await withDatabase(async () => {
+      const application = await ApplicationModel.exists({ _id: applicationId, candidateId });
+      if (!application) {
+        return createErrorResponse('Application not found');
+      }
+
+      const events = await NotificationModel.find({
+        recipient: candidateId,
+        application: application._id,
+        deliverAt: { $lte: new Date() }
+      })
+        .sort({ deliverAt: 1 })
+        .select('type title message link deliverAt readAt')
+        .lean<NotificationFields[]>();
+
+      return createSuccessResponse('Application timeline fetched successfully', events.map(toCandidateNotification));
+    });
+  }, 'Failed to fetch application timeline');
+}
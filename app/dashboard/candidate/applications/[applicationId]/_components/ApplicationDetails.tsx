@@ -1,17 +1,20 @@
 "use client";
 
-import { Application } from '../../../types.d';
+import Link from 'next/link';
+import { Application, CandidateNotification } from '../../../types.d';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Briefcase, CheckCircle, Clock } from 'lucide-react';
+import { NOTIFICATION_ICONS } from '@/components/NotificationBell';
 
 interface ApplicationDetailsProps {
   application?: Application | null;
+  timeline?: CandidateNotification[];
   isLoading?: boolean;
 }
 
-export default function ApplicationDetails({ application, isLoading }: ApplicationDetailsProps) {
+export default function ApplicationDetails({ application, timeline = [], isLoading }: ApplicationDetailsProps) {
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -69,6 +72,7 @@ export default function ApplicationDetails({ application, isLoading }: Applicati
     });
   };
 
+  // Applications made before activity was recorded only have their current status to show
   const getStatusTimeline = () => {
     const timeline = [
       {
@@ -148,7 +152,31 @@ export default function ApplicationDetails({ application, isLoading }: Applicati
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {getStatusTimeline().map((item, index) => (
+            {timeline.length > 0 ? timeline.map((event) => {
+              const IconComponent = NOTIFICATION_ICONS[event.type];
+              const isRejection = event.type === 'rejected';
+              return (
+                <div key={event.id} className="flex items-start gap-4">
+                  <div className={`h-10 w-10 shrink-0 rounded-full flex items-center justify-center border-2 ${
+                    isRejection ? 'bg-red-600/20 border-red-500/50' : 'bg-violet-600/20 border-violet-500/50'
+                  }`}>
+                    <IconComponent className={`h-5 w-5 ${isRejection ? 'text-red-300' : 'text-violet-300'}`} />
+                  </div>
+                  <div className="flex-1 pt-1">
+                    <p className="font-medium text-white">{event.title}</p>
+                    <p className="text-sm text-white/70 mt-1">{event.message}</p>
+                    <p className="text-sm text-white/60 mt-1">
+                      {formatDate(event.createdAt)}
+                      {event.link?.startsWith('/assessment/') && (
+                        <Link href={event.link} className="ml-2 text-violet-300 hover:text-violet-200">
+                          Open assessment
+                        </Link>
+                      )}
+                    </p>
+                  </div>
+                </div>
+              );
+            }) : getStatusTimeline().map((item, index) => (
               <div key={index} className="flex items-start gap-4">
                 <div className={`h-10 w-10 rounded-full flex items-center justify-center border-2 ${
                   item.completed 
@@ -2,6 +2,7 @@ import React, { Suspense } from 'react';
 import { notFound } from 'next/navigation';
 import RoleWrapper from '@/lib/RoleWrapper';
 import { fetchApplicationById } from '../../actions/application-actions';
+import { fetchApplicationTimeline } from '../../actions/notification-actions';
 import { ApplicationHeader, ApplicationDetails, ApplicationActions, ApplicationDetailClient } from './_components';
 import { Skeleton } from '@/components/ui/skeleton';
 
@@ -24,13 +25,17 @@ export default async function ApplicationDetailPage({ params }: { params: Promis
 
 // Server component that fetches application data
 async function ApplicationDetailWrapper({ applicationId }: { applicationId: string }) {
-  const response = await fetchApplicationById(applicationId);
+  const [response, timelineResponse] = await Promise.all([
+    fetchApplicationById(applicationId),
+    fetchApplicationTimeline(applicationId)
+  ]);
   
   if (!response.success || !response.data) {
     notFound();
   }
 
   const application = response.data;
+  const timeline = timelineResponse.success ? (timelineResponse.data || []) : [];
 
   return (
     <>
@@ -46,7 +51,7 @@ async function ApplicationDetailWrapper({ applicationId }: { applicationId: stri
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Center Section - Application Details (spans 2 columns) */}
         <div className="lg:col-span-2">
-          <ApplicationDetails application={application} isLoading={false} />
+          <ApplicationDetails application={application} timeline={timeline} isLoading={false} />
         </div>
 
         {/* Right Section - Actions & Summary */}
@@ -12,6 +12,7 @@ import {
   rescheduleInterview,
   quickApply,
   saveJob,
+  unsaveJob,
   markActivityAsRead
 } from './actions';
 
@@ -19,6 +20,16 @@ import{
   Job,Interview,Activity,Skill,PerformanceData
 }from './types.d';
 
+function formatCountdown(ms: number): string {
+  const minutesLeft = Math.floor(ms / (60 * 1000));
+  if (minutesLeft <= 0) return 'Starting now';
+
+  const days = Math.floor(minutesLeft / (24 * 60));
+  const hours = Math.floor((minutesLeft % (24 * 60)) / 60);
+  const minutes = minutesLeft % 60;
+  return `${days} days ${hours} hours ${minutes} minutes`;
+}
+
 // Custom hooks for data management
 export const usePerformanceData = () => {
   const [data, setData] = useState<PerformanceData | null>(null);
@@ -48,7 +59,9 @@ export const usePerformanceData = () => {
 export const useUpcomingInterviews = () => {
   const [interviews, setInterviews] = useState<Interview[]>([]);
   const [isLoading, setIsLoading] = useState(true); // Start with loading true
-  const [nextInterviewCountdown] = useState('2 days 5 hours 23 minutes');
+  const nextInterviewCountdown = interviews[0]?.startsAt
+    ? formatCountdown(new Date(interviews[0].startsAt).getTime() - Date.now())
+    : 'No upcoming interviews';
 
   const loadInterviews = async () => {
     setIsLoading(true);
@@ -66,7 +79,10 @@ export const useUpcomingInterviews = () => {
 
   const handleJoinInterview = async (index: number) => {
     try {
-      await joinInterview(interviews[index].id);
+      const result = await joinInterview(interviews[index].id);
+      if (result.success && result.data) {
+        window.location.href = result.data.meetingLink;
+      }
     } catch (error) {
       console.error('Error joining interview:', error);
     }
@@ -97,45 +113,55 @@ export const useUpcomingInterviews = () => {
   };
 };
 
-export const useRecentActivity = () => {
-  const [activities, setActivities] = useState<Activity[]>([]);
-  const [isLoading, setIsLoading] = useState(true); // Start with loading true
+// How much activity "View All Activity" loads
+const ALL_ACTIVITY_LIMIT = 50;
 
-  const loadRecentActivity = async () => {
+export const useRecentActivity = (initialActivities: Activity[] = []) => {
+  const [activities, setActivities] = useState<Activity[]>(initialActivities);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasLoadedAll, setHasLoadedAll] = useState(false);
+
+  const loadActivity = async (limit?: number) => {
     setIsLoading(true);
     try {
-      const result = await fetchRecentActivity();
+      const result = await fetchRecentActivity(limit);
       if (result.success && result.data) {
         setActivities(result.data);
+        return result.data;
       }
     } catch (error) {
       console.error('Error fetching recent activity:', error);
     } finally {
       setIsLoading(false);
     }
+    return null;
   };
 
   const handleViewAllActivity = async () => {
+    const all = await loadActivity(ALL_ACTIVITY_LIMIT);
+    if (all) setHasLoadedAll(true);
+  };
+
+  const handleMarkAsRead = async (activityId: string) => {
+    const activity = activities.find(a => a.id === activityId);
+    if (!activity || activity.read) return;
+
+    setActivities(prev => prev.map(a => (a.id === activityId ? { ...a, read: true } : a)));
     try {
-      // For now, mark the first activity as read when viewing all
-      if (activities.length > 0) {
-        await markActivityAsRead(activities[0].title); // Using title as ID for now
-      }
+      await markActivityAsRead(activityId);
     } catch (error) {
       console.error('Error marking activity as read:', error);
     }
   };
 
-  useEffect(() => {
-    loadRecentActivity();
-  }, []);
-
-  return { 
-    activities, 
+  return {
+    activities,
     isLoading,
-    reload: loadRecentActivity,
-    setActivities, 
-    viewAllActivity: handleViewAllActivity 
+    hasLoadedAll,
+    reload: loadActivity,
+    setActivities,
+    viewAllActivity: handleViewAllActivity,
+    markAsRead: handleMarkAsRead
   };
 };
 
@@ -197,7 +223,7 @@ export const useJobRecommendations = () => {
 
   const handleQuickApply = async (jobIndex: number) => {
     try {
-      await quickApply(jobs[jobIndex].title);
+      await quickApply(jobs[jobIndex].id);
     } catch (error) {
       console.error('Error applying to job:', error);
     }
@@ -205,7 +231,12 @@ export const useJobRecommendations = () => {
 
   const handleSaveJob = async (jobIndex: number) => {
     try {
-      await saveJob(jobs[jobIndex].title);
+      const job = jobs[jobIndex];
+      const result = job.saved ? await unsaveJob(job.id) : await saveJob(job.id);
+      if (result.success && result.data) {
+        const saved = result.data.saved;
+        setJobs(prev => prev.map((j, i) => (i === jobIndex ? { ...j, saved } : j)));
+      }
     } catch (error) {
       console.error('Error saving job:', error);
     }
@@ -1,4 +1,5 @@
 export interface Job {
+  id: string;
   title: string;
   company: string;
   location: string;
@@ -6,6 +7,7 @@ export interface Job {
   type: string;
   match: string;
   skills: string;
+  saved?: boolean;
 }
 
 export interface JobOpportunity {
@@ -63,14 +65,38 @@ export interface Interview {
   time: string;
   status: string;
   urgent: boolean;
+  startsAt?: string; // ISO start of the scheduled slot
+  link?: string; // where the candidate joins the round
 }
 
+export type NotificationKind =
+  | 'applied'
+  | 'shortlisted'
+  | 'round-completed'
+  | 'reminder'
+  | 'result'
+  | 'rejected'
+  | 'withdrawn';
+
 export interface Activity {
+  id: string;
+  kind: NotificationKind;
   title: string;
   description: string;
-  time: string;
-  icon: any;
+  time: string; // ISO time the activity happened
   type: 'success' | 'info';
+  link?: string;
+  read: boolean;
+}
+
+export interface CandidateNotification {
+  id: string;
+  type: NotificationKind;
+  title: string;
+  message: string;
+  link?: string;
+  createdAt: string; // ISO time the notification was delivered
+  read: boolean;
 }
 
 export interface Skill {
@@ -1,11 +1,14 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { importAptitudeQuestions } from '../../actions';
+import { useAptitudeQuestionBank } from '../../hooks';
 
 interface AptitudeFormProps {
   jobId: string;
@@ -39,6 +42,11 @@ export interface AptitudeFormData {
     technical: number;
     verbal: number;
   };
+  difficultyMix: {
+    easy: number;
+    medium: number;
+    hard: number;
+  };
   randomizeQuestions: boolean;
   showResultImmediately: boolean;
   allowReviewBeforeSubmit: boolean;
@@ -47,6 +55,7 @@ export interface AptitudeFormData {
   sections: {
     name: string;
     description?: string;
+    topic: keyof AptitudeFormData['questionPool'];
     timeLimit?: number;
   }[];
   status: 'inactive' | 'active' | 'completed';
@@ -79,22 +88,30 @@ export default function AptitudeForm({
       technical: 13,
       verbal: 12,
     },
+    difficultyMix: {
+      easy: 30,
+      medium: 50,
+      hard: 20,
+    },
     randomizeQuestions: true,
     showResultImmediately: false,
     allowReviewBeforeSubmit: true,
     negativeMarking: false,
     negativeMarkingPercentage: 25,
     sections: [
-      { name: 'Logical Reasoning', description: 'Problem solving and logical thinking' },
-      { name: 'Quantitative', description: 'Mathematical and analytical skills' },
-      { name: 'Technical', description: 'Technical knowledge assessment' },
-      { name: 'Verbal', description: 'Language and communication skills' }
+      { name: 'Logical Reasoning', description: 'Problem solving and logical thinking', topic: 'logicalReasoning' },
+      { name: 'Quantitative', description: 'Mathematical and analytical skills', topic: 'quantitative' },
+      { name: 'Technical', description: 'Technical knowledge assessment', topic: 'technical' },
+      { name: 'Verbal', description: 'Language and communication skills', topic: 'verbal' }
     ],
     status: 'inactive',
     currentQuestionIndex: 0,
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { counts: bankCounts, refetch: refetchBankCounts } = useAptitudeQuestionBank();
 
   const getTotalSectionWeightage = () => {
     const { sectionWeightage } = formData;
@@ -112,6 +129,32 @@ export default function AptitudeForm({
            questionPool.verbal;
   };
 
+  const getTotalDifficultyMix = () => {
+    const { difficultyMix } = formData;
+    return difficultyMix.easy + difficultyMix.medium + difficultyMix.hard;
+  };
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const format = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+      const result = await importAptitudeQuestions(await file.text(), format);
+      if (result.success && result.data) {
+        toast.success(result.message);
+        result.data.errors.slice(0, 5).forEach((message) => toast.error(message));
+        if (result.data.errors.length > 5) {
+          toast.error(`${result.data.errors.length - 5} more questions could not be imported`);
+        }
+        refetchBankCounts();
+      } else {
+        toast.error(result.error || result.message);
+      }
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -138,6 +181,16 @@ export default function AptitudeForm({
     const totalQuestions = getTotalQuestions();
     if (totalQuestions !== formData.totalQuestions) {
       newErrors.questionPool = `Question pool total (${totalQuestions}) must match number of questions (${formData.totalQuestions})`;
+    } else if (bankCounts) {
+      const shortTopic = formData.sections.find(({ topic }) => formData.questionPool[topic] > bankCounts[topic].total);
+      if (shortTopic) {
+        newErrors.questionPool = `Only ${bankCounts[shortTopic.topic].total} ${shortTopic.name} questions are available in the question bank`;
+      }
+    }
+
+    const totalDifficultyMix = getTotalDifficultyMix();
+    if (totalDifficultyMix !== 100) {
+      newErrors.difficultyMix = `Difficulty mix must add up to 100%. Current total: ${totalDifficultyMix}%`;
     }
     
     if (formData.negativeMarking && (!formData.negativeMarkingPercentage || formData.negativeMarkingPercentage < 0 || formData.negativeMarkingPercentage > 50)) {
@@ -161,6 +214,16 @@ export default function AptitudeForm({
     }));
   };
 
+  const updateDifficultyMix = (difficulty: keyof AptitudeFormData['difficultyMix'], value: number) => {
+    setFormData(prev => ({
+      ...prev,
+      difficultyMix: {
+        ...prev.difficultyMix,
+        [difficulty]: value
+      }
+    }));
+  };
+
   const updateQuestionPool = (section: keyof AptitudeFormData['questionPool'], value: number) => {
     setFormData(prev => ({
       ...prev,
@@ -434,8 +497,28 @@ export default function AptitudeForm({
                 Total: {getTotalQuestions()}/{formData.totalQuestions}
               </span>
             </CardTitle>
-            <CardDescription className="text-white/60">
+            <CardDescription className="text-white/60 flex items-center justify-between">
               Define how many questions from each category
+              <span>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={importing}
+                  onClick={() => fileInputRef.current?.click()}
+                  className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/10"
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  {importing ? 'Importing...' : 'Import Questions (CSV/JSON)'}
+                </Button>
+              </span>
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -449,6 +532,9 @@ export default function AptitudeForm({
                   onChange={(e) => updateQuestionPool('logicalReasoning', parseInt(e.target.value) || 0)}
                   className="bg-[#1f1f35] border-white/10 text-white"
                 />
+                {bankCounts && (
+                  <p className="text-xs text-white/50">{bankCounts.logicalReasoning.total} available</p>
+                )}
               </div>
               
               <div className="space-y-2">
@@ -460,6 +546,9 @@ export default function AptitudeForm({
                   onChange={(e) => updateQuestionPool('quantitative', parseInt(e.target.value) || 0)}
                   className="bg-[#1f1f35] border-white/10 text-white"
                 />
+                {bankCounts && (
+                  <p className="text-xs text-white/50">{bankCounts.quantitative.total} available</p>
+                )}
               </div>
               
               <div className="space-y-2">
@@ -471,6 +560,9 @@ export default function AptitudeForm({
                   onChange={(e) => updateQuestionPool('technical', parseInt(e.target.value) || 0)}
                   className="bg-[#1f1f35] border-white/10 text-white"
                 />
+                {bankCounts && (
+                  <p className="text-xs text-white/50">{bankCounts.technical.total} available</p>
+                )}
               </div>
               
               <div className="space-y-2">
@@ -482,12 +574,48 @@ export default function AptitudeForm({
                   onChange={(e) => updateQuestionPool('verbal', parseInt(e.target.value) || 0)}
                   className="bg-[#1f1f35] border-white/10 text-white"
                 />
+                {bankCounts && (
+                  <p className="text-xs text-white/50">{bankCounts.verbal.total} available</p>
+                )}
               </div>
             </div>
             {errors.questionPool && <p className="text-red-500 text-sm">{errors.questionPool}</p>}
           </CardContent>
         </Card>
 
+        {/* Difficulty Mix */}
+        <Card className="bg-[#171726] border-0">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center justify-between">
+              Difficulty Mix
+              <span className={`text-sm font-normal ${getTotalDifficultyMix() === 100 ? 'text-green-400' : 'text-red-400'}`}>
+                Total: {getTotalDifficultyMix()}%
+              </span>
+            </CardTitle>
+            <CardDescription className="text-white/60">
+              Share of each category&apos;s questions drawn at each difficulty (must total 100%)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {(['easy', 'medium', 'hard'] as const).map((difficulty) => (
+                <div key={difficulty} className="space-y-2">
+                  <Label className="text-white capitalize">{difficulty} (%)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.difficultyMix[difficulty]}
+                    onChange={(e) => updateDifficultyMix(difficulty, parseInt(e.target.value) || 0)}
+                    className="bg-[#1f1f35] border-white/10 text-white"
+                  />
+                </div>
+              ))}
+            </div>
+            {errors.difficultyMix && <p className="text-red-500 text-sm">{errors.difficultyMix}</p>}
+          </CardContent>
+        </Card>
+
         {/* Sections Configuration */}
         <Card className="bg-[#171726] border-0">
           <CardHeader>
@@ -7,7 +7,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
-import questions from '@/app/assessment/coding/questions.json';
+import { Badge } from '@/components/ui/badge';
+import { useProblemBank } from '../../hooks';
 
 export interface CodingFormData {
   totalProblems: number;
@@ -20,6 +21,7 @@ export interface CodingFormData {
   randomizeProblems: boolean;
   manuallyAddProblems: boolean;
   selectedProblemIds: number[];
+  problemTags: string[];
   showResultImmediately: boolean;
   allowReviewBeforeSubmit: boolean;
   languages: string[];
@@ -46,6 +48,7 @@ export default function CodingForm({ onBack, onNext }: CodingFormProps) {
     randomizeProblems: true,
     manuallyAddProblems: false,
     selectedProblemIds: [],
+    problemTags: [],
     showResultImmediately: false,
     allowReviewBeforeSubmit: true,
     languages: ['javascript','python','cpp'],
@@ -54,8 +57,25 @@ export default function CodingForm({ onBack, onNext }: CodingFormProps) {
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [difficultyFilter, setDifficultyFilter] = useState<'all' | 'easy' | 'medium' | 'hard'>('all');
+
+  const { problems: bankProblems, loading: loadingProblems } = useProblemBank();
+  const allTags = useMemo(
+    () => Array.from(new Set(bankProblems.flatMap(p => p.tags))).sort(),
+    [bankProblems]
+  );
+
+  // Selected tags restrict both the random draw and the problems offered for manual selection
+  const problems = useMemo(
+    () => form.problemTags.length
+      ? bankProblems.filter(p => p.tags.some(tag => form.problemTags.includes(tag)))
+      : bankProblems,
+    [bankProblems, form.problemTags]
+  );
+  const visibleProblems = difficultyFilter === 'all'
+    ? problems
+    : problems.filter(p => p.difficulty.toLowerCase() === difficultyFilter);
 
-  const problems = questions as Array<{ id: number; title: string; difficulty: string }>;
   const difficultyCounts = useMemo(() => {
     return problems.reduce((acc, q) => {
       const d = q.difficulty.toLowerCase();
@@ -73,6 +93,15 @@ export default function CodingForm({ onBack, onNext }: CodingFormProps) {
     const poolSum = form.problemPool.easy + form.problemPool.medium + form.problemPool.hard;
     if (poolSum !== form.totalProblems) e.problemPool = 'Problem pool counts must equal total problems';
     if (form.languages.length === 0) e.languages = 'Select at least one language';
+
+    // Random draws need enough matching problems in the bank for every difficulty
+    if (form.randomizeProblems) {
+      (['easy', 'medium', 'hard'] as const).forEach(d => {
+        if (form.problemPool[d] > (difficultyCounts[d] || 0)) {
+          e.problemPool = `Only ${difficultyCounts[d] || 0} ${d} problems match the selected tags`;
+        }
+      });
+    }
     
     // Validate manual problem selection
     if (form.manuallyAddProblems) {
@@ -81,23 +110,18 @@ export default function CodingForm({ onBack, onNext }: CodingFormProps) {
       }
       
       // Validate difficulty distribution
-      const selectedProblems = problems.filter(p => form.selectedProblemIds.includes(p.id));
+      const selectedProblems = bankProblems.filter(p => form.selectedProblemIds.includes(p.id));
       const selectedDifficultyCounts = selectedProblems.reduce((acc, p) => {
         const d = p.difficulty.toLowerCase();
         acc[d] = (acc[d] || 0) + 1;
         return acc;
       }, {} as Record<string, number>);
 
-      
-      if (selectedDifficultyCounts.length > 0 && selectedDifficultyCounts.easy !== form.problemPool.easy) {
-        e.selectedProblems = `Select exactly ${form.problemPool.easy} easy problems`;
-      }
-      if (selectedDifficultyCounts.length > 0 && selectedDifficultyCounts.medium !== form.problemPool.medium) {
-        e.selectedProblems = `Select exactly ${form.problemPool.medium} medium problems`;
-      }
-      if (selectedDifficultyCounts.length > 0 && selectedDifficultyCounts.hard !== form.problemPool.hard) {
-        e.selectedProblems = `Select exactly ${form.problemPool.hard} hard problems`;
-      }
+      (['easy', 'medium', 'hard'] as const).forEach(d => {
+        if ((selectedDifficultyCounts[d] || 0) !== form.problemPool[d]) {
+          e.selectedProblems = `Select exactly ${form.problemPool[d]} ${d} problems`;
+        }
+      });
     }
     
     setErrors(e);
@@ -116,7 +140,7 @@ export default function CodingForm({ onBack, onNext }: CodingFormProps) {
   const toggleProblemSelection = (problemId: number) => {
     setForm(prev => {
       const isSelected = prev.selectedProblemIds.includes(problemId);
-      const problem = problems.find(p => p.id === problemId);
+      const problem = bankProblems.find(p => p.id === problemId);
       
       if (!problem) return prev;
       
@@ -133,7 +157,7 @@ export default function CodingForm({ onBack, onNext }: CodingFormProps) {
         }
         
         // Check difficulty constraints
-        const selectedProblems = problems.filter(p => prev.selectedProblemIds.includes(p.id));
+        const selectedProblems = bankProblems.filter(p => prev.selectedProblemIds.includes(p.id));
         const selectedDifficultyCounts = selectedProblems.reduce((acc, p) => {
           const d = p.difficulty.toLowerCase();
           acc[d] = (acc[d] || 0) + 1;
@@ -165,6 +189,15 @@ export default function CodingForm({ onBack, onNext }: CodingFormProps) {
     }));
   };
 
+  const toggleTag = (tag: string) => {
+    setForm(prev => ({
+      ...prev,
+      problemTags: prev.problemTags.includes(tag)
+        ? prev.problemTags.filter(t => t !== tag)
+        : [...prev.problemTags, tag]
+    }));
+  };
+
   const submit = () => {
     if (!validate()) return;
     onNext(form);
@@ -290,71 +323,121 @@ export default function CodingForm({ onBack, onNext }: CodingFormProps) {
               <span className="text-sm">Manually Select Problems</span>
             </label>
           </div>
+          {form.randomizeProblems && (
+            <p className="text-xs text-white/60">
+              Problems are drawn at random from your problem bank using the distribution above
+              {form.problemTags.length > 0 ? ', limited to the selected tags' : ''}.
+            </p>
+          )}
         </div>
 
-        {/* Manual Problem Selection */}
-        {form.manuallyAddProblems && (
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label>Select Problems ({form.selectedProblemIds.length}/{form.totalProblems})</Label>
-              <div className="text-sm text-white/60">
-                Easy: {problems.filter(p => form.selectedProblemIds.includes(p.id) && p.difficulty.toLowerCase() === 'easy').length}/{form.problemPool.easy} | 
-                Medium: {problems.filter(p => form.selectedProblemIds.includes(p.id) && p.difficulty.toLowerCase() === 'medium').length}/{form.problemPool.medium} | 
-                Hard: {problems.filter(p => form.selectedProblemIds.includes(p.id) && p.difficulty.toLowerCase() === 'hard').length}/{form.problemPool.hard}
-              </div>
+        {/* Tag Filter */}
+        {allTags.length > 0 && (
+          <div className="space-y-2">
+            <Label>Problem Tags</Label>
+            <div className="flex flex-wrap gap-2">
+              {allTags.map(tag => (
+                <Badge
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`cursor-pointer ${
+                    form.problemTags.includes(tag)
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-white/10 text-white/70 hover:bg-white/20'
+                  }`}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Problem Bank */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label>
+              {form.manuallyAddProblems
+                ? `Select Problems (${form.selectedProblemIds.length}/${form.totalProblems})`
+                : 'Available Problems'}
+            </Label>
+            <div className="flex gap-1">
+              {(['all', 'easy', 'medium', 'hard'] as const).map(d => (
+                <Button
+                  key={d}
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setDifficultyFilter(d)}
+                  className={`h-7 px-2 text-xs capitalize ${difficultyFilter === d ? 'bg-white/10 text-white' : 'text-white/60'}`}
+                >
+                  {d}
+                </Button>
+              ))}
             </div>
-            {errors.selectedProblems && <p className="text-red-500 text-xs">{errors.selectedProblems}</p>}
-            
-            <div className="max-h-60 overflow-y-auto rounded border border-white/10">
-              {problems.map(p => {
-                const isSelected = form.selectedProblemIds.includes(p.id);
-                const difficulty = p.difficulty.toLowerCase();
-                const selectedCount = problems.filter(prob => form.selectedProblemIds.includes(prob.id) && prob.difficulty.toLowerCase() === difficulty).length;
-                const maxCount = form.problemPool[difficulty as keyof typeof form.problemPool];
-                const canSelect = !isSelected && form.selectedProblemIds.length < form.totalProblems && selectedCount < maxCount;
-                
+          </div>
+          {form.manuallyAddProblems && (
+            <div className="text-sm text-white/60">
+              Easy: {bankProblems.filter(p => form.selectedProblemIds.includes(p.id) && p.difficulty.toLowerCase() === 'easy').length}/{form.problemPool.easy} | 
+              Medium: {bankProblems.filter(p => form.selectedProblemIds.includes(p.id) && p.difficulty.toLowerCase() === 'medium').length}/{form.problemPool.medium} | 
+              Hard: {bankProblems.filter(p => form.selectedProblemIds.includes(p.id) && p.difficulty.toLowerCase() === 'hard').length}/{form.problemPool.hard}
+            </div>
+          )}
+          {errors.selectedProblems && <p className="text-red-500 text-xs">{errors.selectedProblems}</p>}
+
+          <div className="max-h-60 overflow-y-auto rounded border border-white/10">
+            {loadingProblems ? (
+              <div className="px-4 py-6 text-center text-sm text-white/60">Loading problem bank...</div>
+            ) : visibleProblems.length === 0 ? (
+              <div className="px-4 py-6 text-center text-sm text-white/60">No problems match the current filters</div>
+            ) : visibleProblems.map(p => {
+              const isSelected = form.selectedProblemIds.includes(p.id);
+              const difficulty = p.difficulty.toLowerCase();
+              const selectedCount = bankProblems.filter(prob => form.selectedProblemIds.includes(prob.id) && prob.difficulty.toLowerCase() === difficulty).length;
+              const maxCount = form.problemPool[difficulty as keyof typeof form.problemPool];
+              const canSelect = !isSelected && form.selectedProblemIds.length < form.totalProblems && selectedCount < maxCount;
+
+              if (!form.manuallyAddProblems) {
                 return (
-                  <div 
-                    key={p.id} 
-                    className={`flex items-center justify-between px-4 py-2 border-b border-white/10 last:border-0 cursor-pointer transition-colors ${
-                      isSelected ? 'bg-blue-500/20' : canSelect ? 'hover:bg-white/5' : 'opacity-50 cursor-not-allowed'
-                    }`}
-                    onClick={() => canSelect || isSelected ? toggleProblemSelection(p.id) : undefined}
-                  >
-                    <div className="flex items-center space-x-3">
-                      <Checkbox 
-                        checked={isSelected} 
-                        disabled={!canSelect && !isSelected}
-                        onChange={() => {}} // Handled by parent div click
-                      />
-                      <div>
-                        <div className="text-sm font-medium">{p.id}. {p.title}</div>
-                        <div className="text-xs text-white/60 capitalize">{p.difficulty}</div>
+                  <div key={p.id} className="flex items-center justify-between px-4 py-2 border-b border-white/10 last:border-0">
+                    <div>
+                      <div className="text-sm font-medium">{p.id}. {p.title}</div>
+                      <div className="text-xs text-white/60 capitalize">
+                        {p.difficulty}{p.tags.length > 0 ? ` · ${p.tags.join(', ')}` : ''}
                       </div>
                     </div>
-                    <div className="text-xs text-white/50">
-                      {isSelected ? 'Selected' : canSelect ? 'Click to select' : 'Limit reached'}
-                    </div>
+                    <span className="text-xs text-white/50">{p.isBuiltIn ? 'Built-in' : 'Your problem'}</span>
                   </div>
                 );
-              })}
-            </div>
-          </div>
-        )}
+              }
 
-        {/* Available Problems Preview */}
-        <div className="space-y-2">
-          <Label>Available Problems</Label>
-          <div className="max-h-60 overflow-y-auto rounded border border-white/10">
-            {problems.map(p => (
-              <div key={p.id} className="flex items-center justify-between px-4 py-2 border-b border-white/10 last:border-0">
-                <div>
-                  <div className="text-sm font-medium">{p.id}. {p.title}</div>
-                  <div className="text-xs text-white/60 capitalize">{p.difficulty}</div>
+              return (
+                <div 
+                  key={p.id} 
+                  className={`flex items-center justify-between px-4 py-2 border-b border-white/10 last:border-0 cursor-pointer transition-colors ${
+                    isSelected ? 'bg-blue-500/20' : canSelect ? 'hover:bg-white/5' : 'opacity-50 cursor-not-allowed'
+                  }`}
+                  onClick={() => canSelect || isSelected ? toggleProblemSelection(p.id) : undefined}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Checkbox 
+                      checked={isSelected} 
+                      disabled={!canSelect && !isSelected}
+                      onChange={() => {}} // Handled by parent div click
+                    />
+                    <div>
+                      <div className="text-sm font-medium">{p.id}. {p.title}</div>
+                      <div className="text-xs text-white/60 capitalize">
+                        {p.difficulty}{p.tags.length > 0 ? ` · ${p.tags.join(', ')}` : ''}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-xs text-white/50">
+                    {isSelected ? 'Selected' : canSelect ? 'Click to select' : 'Limit reached'}
+                  </div>
                 </div>
-                <span className="text-xs text-white/50">Preview only</span>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
 
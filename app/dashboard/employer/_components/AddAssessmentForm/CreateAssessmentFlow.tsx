@@ -74,6 +74,10 @@ export default function CreateAssessmentFlow({
         jobTitle: jobTitle,
         timeLimit: 120, // Default time limit in minutes
         maxAttempts: completeData.general.maxAttempts || 1,
+        progressionRules: completeData.general.progressionRules,
+        sendReminders: completeData.general.sendReminders,
+        reminderTimings: completeData.general.reminderTimings,
+        publishResults: completeData.general.publishResults,
         rounds: {
           ...(completeData.aptitude && { aptitude: { enabled: true, fullData: completeData.aptitude } }),
           ...(completeData.coding && { coding: { enabled: true, fullData: completeData.coding } }),
@@ -51,13 +51,32 @@ export interface AssessmentGeneralData {
   allowMultipleAttempts: boolean;
   maxAttempts?: number;
   sendReminders: boolean;
+  reminderTimings: number[]; // hours before each round opens
   publishResults: boolean;
 
   // Instructions
   instructions?: string;
   candidateInstructions?: string;
+
+  // Automatic round progression
+  progressionRules: Partial<
+    Record<keyof AssessmentGeneralData["toConductRounds"], RoundProgressionRule>
+  >;
+}
+
+export interface RoundProgressionRule {
+  autoAdvance: boolean;
+  rejectBelow?: number;
 }
 
+const reminderOptions = [
+  { hours: 48, label: "2 days" },
+  { hours: 24, label: "1 day" },
+  { hours: 2, label: "2 hours" },
+  { hours: 1, label: "1 hour" },
+  { hours: 0.5, label: "30 minutes" },
+];
+
 const availableRounds = [
   {
     id: "aptitude",
@@ -100,9 +119,11 @@ export default function AssessmentGeneralForm({
     allowMultipleAttempts: false,
     maxAttempts: 1,
     sendReminders: true,
+    reminderTimings: [24, 2],
     publishResults: false,
     instructions: "",
     candidateInstructions: "",
+    progressionRules: {},
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -139,10 +160,29 @@ export default function AssessmentGeneralForm({
         "Max attempts must be between 1 and 5 when multiple attempts are allowed";
     }
 
+    const invalidFloor = Object.values(formData.progressionRules).some(
+      (rule) =>
+        rule?.rejectBelow !== undefined &&
+        (rule.rejectBelow < 0 || rule.rejectBelow > 100)
+    );
+    if (invalidFloor) {
+      newErrors.progressionRules =
+        "Auto-reject scores must be between 0 and 100";
+    }
+
     setErrors(newErrors);
 
     if (Object.keys(newErrors).length === 0) {
-      onNext(formData);
+      // Only keep rules for rounds that are still selected
+      const progressionRules = Object.fromEntries(
+        Object.entries(formData.progressionRules).filter(
+          ([round]) =>
+            formData.toConductRounds[
+              round as keyof typeof formData.toConductRounds
+            ]
+        )
+      );
+      onNext({ ...formData, progressionRules });
     }
   };
 
@@ -167,6 +207,28 @@ const handleRoundToggle = (roundId: keyof AssessmentGeneralData['toConductRounds
   }
 };
 
+const updateProgressionRule = (
+  roundId: keyof AssessmentGeneralData["toConductRounds"],
+  changes: Partial<RoundProgressionRule>
+) => {
+  setFormData((prev) => ({
+    ...prev,
+    progressionRules: {
+      ...prev.progressionRules,
+      [roundId]: {
+        autoAdvance: false,
+        ...prev.progressionRules[roundId],
+        ...changes,
+      },
+    },
+  }));
+};
+
+const enabledRounds = availableRounds.filter(
+  (round) =>
+    formData.toConductRounds[round.id as keyof typeof formData.toConductRounds]
+);
+
   return (
     <div className="max-w-4xl mx-auto p-6 pt-16 text-white">
       <div className="mb-6">
@@ -391,6 +453,90 @@ const handleRoundToggle = (roundId: keyof AssessmentGeneralData['toConductRounds
           </CardContent>
         </Card>
 
+        {/* Round Progression */}
+        {enabledRounds.length > 0 && (
+          <Card className="bg-[#171726] border-0">
+            <CardHeader>
+              <CardTitle className="text-white">Round Progression</CardTitle>
+              <CardDescription className="text-white/60">
+                Move candidates to the next round automatically when they pass,
+                and reject candidates who score below a minimum
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {enabledRounds.map((round, index) => {
+                const roundId =
+                  round.id as keyof AssessmentGeneralData["toConductRounds"];
+                const rule = formData.progressionRules[roundId];
+                const isLastRound = index === enabledRounds.length - 1;
+
+                return (
+                  <div
+                    key={round.id}
+                    className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 border border-white/10 rounded-lg p-4 bg-[#1f1f35]"
+                  >
+                    <div>
+                      <h4 className="font-medium text-white">{round.label}</h4>
+                      <label className="flex items-center space-x-2 mt-2">
+                        <input
+                          type="checkbox"
+                          checked={!isLastRound && !!rule?.autoAdvance}
+                          disabled={isLastRound}
+                          onChange={(e) =>
+                            updateProgressionRule(roundId, {
+                              autoAdvance: e.target.checked,
+                            })
+                          }
+                          className="rounded border-white/30"
+                        />
+                        <span
+                          className={`text-sm ${
+                            isLastRound ? "text-white/40" : "text-white"
+                          }`}
+                        >
+                          {isLastRound
+                            ? "Final round - the overall result decides"
+                            : `Auto-advance candidates who pass to ${enabledRounds[index + 1].label}`}
+                        </span>
+                      </label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Label
+                        htmlFor={`reject-below-${round.id}`}
+                        className="text-sm text-white/80 whitespace-nowrap"
+                      >
+                        Auto-reject below (%)
+                      </Label>
+                      <Input
+                        id={`reject-below-${round.id}`}
+                        type="number"
+                        min="0"
+                        max="100"
+                        placeholder="Off"
+                        value={rule?.rejectBelow ?? ""}
+                        onChange={(e) =>
+                          updateProgressionRule(roundId, {
+                            rejectBelow:
+                              e.target.value === ""
+                                ? undefined
+                                : parseInt(e.target.value),
+                          })
+                        }
+                        className="w-24 bg-[#1f1f35] border-white/10 text-white placeholder:text-white/40"
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+              {errors.progressionRules && (
+                <p className="text-red-500 text-sm">
+                  {errors.progressionRules}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Settings */}
         <Card className="bg-[#171726] border-0">
           <CardHeader>
@@ -442,6 +588,38 @@ const handleRoundToggle = (roundId: keyof AssessmentGeneralData['toConductRounds
               </label>
             </div>
 
+            {formData.sendReminders && (
+              <div className="space-y-2">
+                <Label className="text-white">Remind candidates before each round opens</Label>
+                <div className="flex flex-wrap gap-2">
+                  {reminderOptions.map((option) => {
+                    const selected = formData.reminderTimings.includes(option.hours);
+                    return (
+                      <button
+                        key={option.hours}
+                        type="button"
+                        onClick={() =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            reminderTimings: selected
+                              ? prev.reminderTimings.filter((hours) => hours !== option.hours)
+                              : [...prev.reminderTimings, option.hours].sort((a, b) => b - a),
+                          }))
+                        }
+                        className={`px-3 py-1 rounded-full text-sm border ${
+                          selected
+                            ? "bg-purple-500/20 border-purple-500 text-purple-200"
+                            : "border-white/20 text-white/60 hover:text-white"
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="instructions" className="text-white">
                 General Instructions
@@ -24,6 +24,7 @@ import { CandidateEvaluationDetails } from "./CandidateEvaluationDetails";
 
 interface Candidate {
   id: string;
+  applicationId: string;
   name: string;
   email: string;
   profileImage?: string;
@@ -111,7 +112,7 @@ export function CandidateEvaluation() {
   const { jobs: jobOpportunities, loading: jobsLoading } = useFetchEmployerJobOpportunities();
   
   // Fetch shortlisted candidates based on selected job
-  const { candidates, loading: candidatesLoading, error } = useFetchShortlistedCandidates(
+  const { candidates, loading: candidatesLoading, error, refetch } = useFetchShortlistedCandidates(
     selectedJobId === 'all' ? undefined : selectedJobId
   );
 
@@ -161,7 +162,13 @@ export function CandidateEvaluation() {
   };
 
   if (selectedCandidate) {
-    return <CandidateEvaluationDetails candidate={selectedCandidate} onBack={() => setSelectedCandidate(null)} />;
+    return (
+      <CandidateEvaluationDetails
+        candidate={selectedCandidate}
+        onBack={() => setSelectedCandidate(null)}
+        onDecision={refetch}
+      />
+    );
   }
 
   return (
@@ -272,7 +279,7 @@ export function CandidateEvaluation() {
 
             return (
               <Card 
-                key={candidate.id} 
+                key={candidate.applicationId} 
                 className="bg-white/5 border-white/10 hover:bg-white/10 transition-all cursor-pointer"
                 onClick={() => setSelectedCandidate(candidate)}
               >
@@ -1,5 +1,7 @@
 "use client";
 
+import { useState } from "react";
+import Image from "next/image";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -18,11 +20,27 @@ import {
   Clock,
   Terminal,
   FileCode,
-  PlayCircle
+  PlayCircle,
+  AlertTriangle,
+  ExternalLink,
+  ShieldCheck,
+  ShieldAlert,
+  Monitor,
+  ScanFace
 } from "lucide-react";
+import { useFetchCandidateRoundDetails, useUpdateCandidateDecision } from "../../hooks";
+import { ProctoringReview } from "./ProctoringReview";
+import type {
+  AptitudeEvaluationDetail,
+  CandidateDecisionResult,
+  IdentityVerificationDetail,
+  InterviewEvaluationDetail
+} from "../../actions/candidate-evaluation-actions";
+import type { ProctoringLog } from "@/lib/proctoring/log";
 
 interface Candidate {
   id: string;
+  applicationId: string;
   name: string;
   email: string;
   profileImage?: string;
@@ -73,9 +91,419 @@ interface Candidate {
 interface CandidateEvaluationDetailsProps {
   candidate: Candidate;
   onBack: () => void;
+  onDecision?: () => void;
 }
 
-export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvaluationDetailsProps) {
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hours}h ${minutes}m ${secs}s`;
+};
+
+const formatDateTime = (date: Date | string) => {
+  return new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const getCorrectnessColor = (correctness: number) => {
+  if (correctness >= 50) return 'bg-green-500/20 text-green-300 border-green-500/30';
+  if (correctness >= 20) return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
+  return 'bg-red-500/20 text-red-300 border-red-500/30';
+};
+
+function InterviewEvaluationPanel({ title, evaluation, emptyMessage }: {
+  title: string;
+  evaluation?: InterviewEvaluationDetail;
+  emptyMessage: string;
+}) {
+  if (!evaluation) {
+    return (
+      <Card className="bg-white/5 border-white/10">
+        <CardContent className="p-8 text-center">
+          <MessageSquare className="w-12 h-12 text-white/40 mx-auto mb-4" />
+          <p className="text-white/60">{emptyMessage}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Overview Card */}
+      <Card className="bg-white/5 border-white/10">
+        <CardHeader>
+          <CardTitle className="text-white">{title}</CardTitle>
+          <CardDescription className="text-white/60">
+            Started {formatDateTime(evaluation.startedAt)}
+            {evaluation.endedAt && ` · Ended ${formatDateTime(evaluation.endedAt)}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-white/5 rounded-lg">
+              <p className="text-white/60 text-sm">Score</p>
+              <p className="text-white font-semibold">{evaluation.score}%</p>
+            </div>
+            <div className="p-4 bg-white/5 rounded-lg">
+              <p className="text-white/60 text-sm">Verdict</p>
+              <p className="text-white font-semibold capitalize">{evaluation.verdict?.replace('-', ' ') || 'N/A'}</p>
+            </div>
+            <div className="p-4 bg-white/5 rounded-lg">
+              <p className="text-white/60 text-sm">Status</p>
+              <Badge className={evaluation.status === 'completed' ? 'bg-green-500/20 text-green-300 border-green-500/30' : 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30'}>
+                {evaluation.status === 'completed' ? 'Completed' : 'In Progress'}
+              </Badge>
+            </div>
+          </div>
+          {evaluation.aiSummary && (
+            <div className="mt-4 p-4 bg-white/5 rounded-lg">
+              <p className="text-white/60 text-sm mb-1">AI Summary</p>
+              <p className="text-white/80 text-sm whitespace-pre-wrap">{evaluation.aiSummary}</p>
+            </div>
+          )}
+          {(evaluation.transcriptUrl || evaluation.videoUrl) && (
+            <div className="mt-4 flex gap-4">
+              {evaluation.transcriptUrl && (
+                <a href={evaluation.transcriptUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:text-indigo-200 text-sm flex items-center gap-1">
+                  <ExternalLink className="w-4 h-4" />
+                  Transcript
+                </a>
+              )}
+              {evaluation.videoUrl && (
+                <a href={evaluation.videoUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:text-indigo-200 text-sm flex items-center gap-1">
+                  <ExternalLink className="w-4 h-4" />
+                  Recording
+                </a>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Questions */}
+      <Card className="bg-white/5 border-white/10">
+        <CardHeader>
+          <CardTitle className="text-white">Questions ({evaluation.questions.length})</CardTitle>
+          <CardDescription className="text-white/60">
+            Each question asked, the candidate&apos;s answer and its evaluation
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {evaluation.questions.length > 0 ? (
+            <div className="space-y-4">
+              {evaluation.questions.map((question, index) => (
+                <div key={question.id} className="p-4 bg-white/5 rounded-lg border border-white/10 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <p className="text-white font-medium">{index + 1}. {question.question}</p>
+                    <div className="flex gap-2 shrink-0">
+                      {question.queueType !== 'Q1' && (
+                        <Badge className="bg-purple-500/20 text-purple-300 border-purple-500/30">Follow-up</Badge>
+                      )}
+                      {question.difficulty && (
+                        <Badge className="bg-blue-500/20 text-blue-300 border-blue-500/30">{question.difficulty}</Badge>
+                      )}
+                      {question.evaluation && (
+                        <Badge className={getCorrectnessColor(question.evaluation.correctness)}>
+                          {question.evaluation.correctness}%
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-white/60 text-sm mb-1">Candidate&apos;s Answer</p>
+                    <p className="text-white/80 text-sm whitespace-pre-wrap">{question.userAnswer || 'No answer recorded'}</p>
+                  </div>
+                  {question.idealAnswer && (
+                    <div>
+                      <p className="text-white/60 text-sm mb-1">Ideal Answer</p>
+                      <p className="text-white/80 text-sm whitespace-pre-wrap">{question.idealAnswer}</p>
+                    </div>
+                  )}
+                  {question.evaluation?.reason && (
+                    <div>
+                      <p className="text-white/60 text-sm mb-1">Evaluation</p>
+                      <p className="text-white/80 text-sm whitespace-pre-wrap">{question.evaluation.reason}</p>
+                    </div>
+                  )}
+                  {question.sourceUrls.length > 0 && (
+                    <div>
+                      <p className="text-white/60 text-sm mb-1">Sources</p>
+                      <div className="flex flex-col gap-1">
+                        {question.sourceUrls.map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:text-indigo-200 text-sm break-all">
+                            {url}
+                          </a>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-white/60">No questions were asked</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Violations */}
+      <Card className="bg-white/5 border-white/10">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            Proctoring Violations ({evaluation.violations.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {evaluation.violations.length > 0 ? (
+            <div className="space-y-2">
+              {evaluation.violations.map((violation, index) => (
+                <div key={index} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <Badge className="bg-red-500/20 text-red-300 border-red-500/30">{violation.violationType}</Badge>
+                    {violation.objects.length > 0 && (
+                      <span className="text-white/60 text-sm">Detected: {violation.objects.join(', ')}</span>
+                    )}
+                  </div>
+                  <p className="text-white/60 text-sm">{formatDateTime(violation.timestamp)}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-white/60">No violations recorded</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {evaluation.screenCaptures.length > 0 && (
+        <ScreenCapturesCard captures={evaluation.screenCaptures} />
+      )}
+    </div>
+  );
+}
+
+function ScreenCapturesCard({ captures }: { captures: InterviewEvaluationDetail['screenCaptures'] }) {
+  const [selected, setSelected] = useState(0);
+  const current = captures[Math.min(selected, captures.length - 1)];
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Monitor className="w-5 h-5" />
+          Screen Captures ({captures.length})
+        </CardTitle>
+        <CardDescription className="text-white/60">
+          Periodic screenshots of the candidate&apos;s shared screen
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <a href={current.url} target="_blank" rel="noopener noreferrer" className="block">
+          <Image
+            src={current.url}
+            alt={`Screen at ${formatDateTime(current.capturedAt)}`}
+            width={640}
+            height={360}
+            className="w-full h-auto rounded-lg border border-white/10 bg-black/40"
+          />
+        </a>
+        <p className="text-white/60 text-sm text-center">{formatDateTime(current.capturedAt)}</p>
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {captures.map((capture, index) => (
+            <button
+              key={capture.url}
+              type="button"
+              onClick={() => setSelected(index)}
+              className={`shrink-0 w-32 text-left rounded-lg border p-1 ${
+                capture === current ? 'border-indigo-400 bg-indigo-500/10' : 'border-white/10 hover:border-white/30'
+              }`}
+            >
+              <Image src={capture.url} alt="" width={128} height={64} className="w-full h-16 object-cover rounded" />
+              <p className="text-white/60 text-xs mt-1">
+                {new Date(capture.capturedAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+              </p>
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const IDENTITY_ROUND_LABELS: Record<IdentityVerificationDetail['flags'][number]['round'], string> = {
+  aptitude: 'Aptitude',
+  coding: 'Coding',
+  technicalInterview: 'Technical Interview',
+  hrInterview: 'HR Interview'
+};
+
+function IdentityVerificationCard({ identity }: { identity: IdentityVerificationDetail }) {
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <ScanFace className="w-5 h-5" />
+          Identity Verification
+        </CardTitle>
+        <CardDescription className="text-white/60">
+          The candidate&apos;s face is enrolled at the system check and re-verified during each round
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="p-4 bg-white/5 rounded-lg">
+            <p className="text-white/60 text-sm">Face Enrolled</p>
+            <p className="text-white font-semibold">
+              {identity.enrolledAt ? formatDateTime(identity.enrolledAt) : 'Not enrolled'}
+            </p>
+          </div>
+          <div className="p-4 bg-white/5 rounded-lg">
+            <p className="text-white/60 text-sm">Profile Photo</p>
+            {identity.profilePhotoMatched === undefined ? (
+              <p className="text-white/60 font-semibold">Not compared</p>
+            ) : identity.profilePhotoMatched ? (
+              <Badge className="bg-green-500/20 text-green-300 border-green-500/30">Matches</Badge>
+            ) : (
+              <Badge className="bg-red-500/20 text-red-300 border-red-500/30">Does not match</Badge>
+            )}
+          </div>
+        </div>
+        {identity.flags.length > 0 ? (
+          <div className="space-y-2">
+            {identity.flags.map((flag, index) => (
+              <div key={index} className="flex items-center justify-between gap-4 p-3 bg-white/5 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <Badge className={flag.severity === 'high'
+                    ? 'bg-red-500/20 text-red-300 border-red-500/30'
+                    : 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30'}>
+                    {IDENTITY_ROUND_LABELS[flag.round]}
+                  </Badge>
+                  <span className="text-white/80 text-sm">{flag.message}</span>
+                </div>
+                <p className="text-white/60 text-sm shrink-0">{formatDateTime(flag.createdAt)}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-white/60 text-sm">No identity mismatches recorded</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ProctoringWarningsCard({ warnings, log }: {
+  warnings?: AptitudeEvaluationDetail['warnings'];
+  log?: ProctoringLog;
+}) {
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5" />
+          Proctoring Warnings
+        </CardTitle>
+        <CardDescription className="text-white/60">
+          Counted on the server as the candidate&apos;s browser reported them
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {([
+            ['Tab Switches', warnings?.tabSwitch],
+            ['Fullscreen Exits', warnings?.fullscreen],
+            ['Audio Alerts', warnings?.audio]
+          ] as const).map(([label, warning]) => (
+            <div key={label} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+              <span className="text-white">{label}</span>
+              <Badge className={warning?.exceeded ? 'bg-red-500/20 text-red-300 border-red-500/30' : 'bg-white/10 text-white/70 border-white/20'}>
+                {warning?.count ?? 0} / {warning?.maxAllowed ?? 0}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        {log && (
+          <div className="mt-6">
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-white font-medium">Event Log ({log.events.length})</p>
+              {log.intact ? (
+                <Badge className="bg-green-500/20 text-green-300 border-green-500/30">
+                  <ShieldCheck className="w-4 h-4 mr-1" />
+                  Verified
+                </Badge>
+              ) : (
+                <Badge className="bg-red-500/20 text-red-300 border-red-500/30">
+                  <ShieldAlert className="w-4 h-4 mr-1" />
+                  Log was modified
+                </Badge>
+              )}
+            </div>
+            {log.events.length > 0 ? (
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {log.events.map((event, index) => (
+                  <div key={index} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <Badge className={event.counted ? 'bg-red-500/20 text-red-300 border-red-500/30' : 'bg-white/10 text-white/70 border-white/20'}>
+                        {event.violation || event.type}
+                      </Badge>
+                      {event.objects.length > 0 && (
+                        <span className="text-white/60 text-sm">Detected: {event.objects.join(', ')}</span>
+                      )}
+                      {!event.counted && event.violation && (
+                        <span className="text-white/40 text-xs">not counted</span>
+                      )}
+                    </div>
+                    <p className="text-white/60 text-sm">{formatDateTime(event.occurredAt)}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-white/60">No events recorded</p>
+            )}
+            {log.terminatedAt && (
+              <p className="mt-3 text-red-300 text-sm">Terminated {formatDateTime(log.terminatedAt)}</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function CandidateEvaluationDetails({ candidate, onBack, onDecision }: CandidateEvaluationDetailsProps) {
+  const { details, loading: detailsLoading } = useFetchCandidateRoundDetails(candidate.applicationId);
+  const { updateDecision, loading: deciding } = useUpdateCandidateDecision();
+  const [applicationStatus, setApplicationStatus] = useState(candidate.applicationStatus);
+  const [rounds, setRounds] = useState(candidate.rounds);
+
+  const handleDecision = async (decision: 'accepted' | 'rejected') => {
+    const verb = decision === 'accepted' ? 'select' : 'reject';
+    if (!window.confirm(`Are you sure you want to ${verb} ${candidate.name}?`)) return;
+
+    const result = await updateDecision(candidate.applicationId, decision);
+    if (result.success && result.data) {
+      setApplicationStatus(result.data.applicationStatus);
+      setRounds(result.data.rounds);
+      onDecision?.();
+    }
+  };
+
+  const handleRoundsChanged = (result: CandidateDecisionResult) => {
+    setApplicationStatus(result.applicationStatus);
+    setRounds(result.rounds);
+    onDecision?.();
+  };
+
+  const aptitude = details?.aptitude;
+  const coding = details?.coding;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'interviewed': return 'bg-green-500/20 text-green-300 border-green-500/30';
@@ -105,23 +533,6 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-    return `${hours}h ${minutes}m ${secs}s`;
-  };
-
-  const formatDate = (date: Date) => {
-    return new Date(date).toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-  };
-
   return (
     <div className="space-y-6 mt-16">
       {/* Header */}
@@ -137,7 +548,12 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
             Back to List
           </Button>
           <div>
-            <h2 className="text-2xl font-bold text-white">{candidate.name}</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-2xl font-bold text-white">{candidate.name}</h2>
+              <Badge className={getStatusColor(applicationStatus)}>
+                <span className="capitalize">{applicationStatus.replace('-', ' ')}</span>
+              </Badge>
+            </div>
             <p className="text-white/60 text-sm">{candidate.position}</p>
           </div>
         </div>
@@ -204,7 +620,7 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
               <div>
                 <p className="text-white/60 text-sm">Coding</p>
                 <p className={`text-2xl font-bold ${getScoreColor(candidate.codingScore)}`}>
-                  {candidate.codingScore || 'N/A'}%
+                  {candidate.codingScore ?? 'N/A'}%
                 </p>
               </div>
               <Code className="w-6 h-6 text-blue-400" />
@@ -249,6 +665,7 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
           <TabsTrigger value="coding" className="data-[state=active]:bg-white/10">Coding</TabsTrigger>
           <TabsTrigger value="technical" className="data-[state=active]:bg-white/10">Technical</TabsTrigger>
           <TabsTrigger value="hr" className="data-[state=active]:bg-white/10">HR Round</TabsTrigger>
+          <TabsTrigger value="proctoring" className="data-[state=active]:bg-white/10">Proctoring</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="mt-6">
@@ -266,8 +683,8 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
                     <Brain className="w-5 h-5 text-purple-400" />
                     <span className="text-white">Aptitude Round</span>
                   </div>
-                  <Badge className={getStatusColor(candidate.rounds.aptitude)}>
-                    {candidate.rounds.aptitude}
+                  <Badge className={getStatusColor(rounds.aptitude)}>
+                    {rounds.aptitude}
                   </Badge>
                 </div>
                 <div className="flex items-center justify-between p-4 bg-white/5 rounded-lg">
@@ -275,8 +692,8 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
                     <Code className="w-5 h-5 text-blue-400" />
                     <span className="text-white">Coding Round</span>
                   </div>
-                  <Badge className={getStatusColor(candidate.rounds.coding)}>
-                    {candidate.rounds.coding}
+                  <Badge className={getStatusColor(rounds.coding)}>
+                    {rounds.coding}
                   </Badge>
                 </div>
                 <div className="flex items-center justify-between p-4 bg-white/5 rounded-lg">
@@ -284,8 +701,8 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
                     <ClipboardCheck className="w-5 h-5 text-green-400" />
                     <span className="text-white">Technical Interview</span>
                   </div>
-                  <Badge className={getStatusColor(candidate.rounds.technicalInterview)}>
-                    {candidate.rounds.technicalInterview}
+                  <Badge className={getStatusColor(rounds.technicalInterview)}>
+                    {rounds.technicalInterview}
                   </Badge>
                 </div>
                 <div className="flex items-center justify-between p-4 bg-white/5 rounded-lg">
@@ -293,24 +710,137 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
                     <MessageSquare className="w-5 h-5 text-rose-400" />
                     <span className="text-white">HR Round</span>
                   </div>
-                  <Badge className={getStatusColor(candidate.rounds.hrInterview)}>
-                    {candidate.rounds.hrInterview}
+                  <Badge className={getStatusColor(rounds.hrInterview)}>
+                    {rounds.hrInterview}
                   </Badge>
                 </div>
               </div>
             </CardContent>
           </Card>
+          {details?.identity && (
+            <div className="mt-6">
+              <IdentityVerificationCard identity={details.identity} />
+            </div>
+          )}
         </TabsContent>
 
         <TabsContent value="aptitude" className="mt-6">
-          <Card className="bg-white/5 border-white/10">
-            <CardHeader>
-              <CardTitle className="text-white">Aptitude Test Results</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className="text-white/60">Detailed aptitude test results will be displayed here.</p>
-            </CardContent>
-          </Card>
+          {detailsLoading ? (
+            <Card className="bg-white/5 border-white/10">
+              <CardContent className="p-8 text-center">
+                <p className="text-white/60">Loading aptitude results...</p>
+              </CardContent>
+            </Card>
+          ) : aptitude ? (
+            <div className="space-y-6">
+              {/* Overview Card */}
+              <Card className="bg-white/5 border-white/10">
+                <CardHeader>
+                  <CardTitle className="text-white flex items-center gap-2">
+                    <Brain className="w-5 h-5" />
+                    Aptitude Test Results
+                  </CardTitle>
+                  <CardDescription className="text-white/60">
+                    Started {formatDateTime(aptitude.startTime)}
+                    {aptitude.submittedAt && ` · Submitted ${formatDateTime(aptitude.submittedAt)}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="p-4 bg-white/5 rounded-lg">
+                      <p className="text-white/60 text-sm">Score</p>
+                      <p className="text-white font-semibold">{aptitude.percentage.toFixed(1)}%</p>
+                      <p className="text-white/40 text-xs">Passing score {aptitude.passingScore}%</p>
+                    </div>
+                    <div className="p-4 bg-white/5 rounded-lg">
+                      <p className="text-white/60 text-sm">Answers</p>
+                      <p className="text-white font-semibold">
+                        {aptitude.correctCount} / {aptitude.totalQuestions} correct
+                      </p>
+                      <p className="text-white/40 text-xs">
+                        {aptitude.incorrectCount} incorrect · {aptitude.unattemptedCount} unattempted
+                      </p>
+                    </div>
+                    <div className="p-4 bg-white/5 rounded-lg">
+                      <p className="text-white/60 text-sm flex items-center gap-2">
+                        <Clock className="w-4 h-4" />
+                        Time Taken
+                      </p>
+                      <p className="text-white font-semibold">{formatDuration(aptitude.timeTaken)}</p>
+                    </div>
+                    <div className="p-4 bg-white/5 rounded-lg">
+                      <p className="text-white/60 text-sm">Result</p>
+                      {aptitude.status === 'incomplete' ? (
+                        <Badge className="bg-yellow-500/20 text-yellow-300 border-yellow-500/30">In Progress</Badge>
+                      ) : aptitude.passed ? (
+                        <Badge className="bg-green-500/20 text-green-300 border-green-500/30">
+                          <CheckCircle2 className="w-4 h-4 mr-1" />
+                          Passed
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-red-500/20 text-red-300 border-red-500/30">
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Failed
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  {aptitude.terminatedDueToWarnings && (
+                    <div className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 text-red-300" />
+                      <p className="text-red-300 text-sm">
+                        Test terminated{aptitude.terminationReason ? `: ${aptitude.terminationReason}` : ' due to warnings'}
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Sectional Scores */}
+              <Card className="bg-white/5 border-white/10">
+                <CardHeader>
+                  <CardTitle className="text-white">Sectional Scores</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {aptitude.sectionScores.length > 0 ? (
+                    <div className="space-y-3">
+                      {aptitude.sectionScores.map((section, index) => (
+                        <div key={index} className="p-3 bg-white/5 rounded-lg">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium text-white">{section.name}</span>
+                            <span className="text-white/70">
+                              {section.percentage.toFixed(1)}% · weight {section.weightage}%
+                            </span>
+                          </div>
+                          <div className="mt-2 h-2 rounded-full bg-white/10 overflow-hidden">
+                            <div
+                              className="h-full bg-gradient-to-r from-indigo-500 to-purple-500"
+                              style={{ width: `${section.percentage}%` }}
+                            />
+                          </div>
+                          <p className="mt-1 text-xs text-white/50">
+                            {section.correctCount} correct · {section.incorrectCount} incorrect · {section.unattemptedCount} unattempted
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-white/60">No sectional scores recorded</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Warnings */}
+              <ProctoringWarningsCard warnings={aptitude.warnings} log={aptitude.proctoringLog} />
+            </div>
+          ) : (
+            <Card className="bg-white/5 border-white/10">
+              <CardContent className="p-8 text-center">
+                <Brain className="w-12 h-12 text-white/40 mx-auto mb-4" />
+                <p className="text-white/60">No aptitude test data available for this candidate</p>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         <TabsContent value="coding" className="mt-6">
@@ -339,7 +869,7 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
                           <Clock className="w-4 h-4" />
                           Time Left
                         </p>
-                        <p className="text-white font-semibold">{formatTime(candidate.codingEvaluation.timeLeft)}</p>
+                        <p className="text-white font-semibold">{formatDuration(candidate.codingEvaluation.timeLeft)}</p>
                       </div>
                       <div className="p-4 bg-white/5 rounded-lg">
                         <p className="text-white/60 text-sm flex items-center gap-2">
@@ -378,13 +908,24 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
                     <div className="mt-4">
                       <p className="text-white/60 text-sm">Timestamps</p>
                       <div className="grid grid-cols-2 gap-2 mt-2">
-                        <p className="text-white/80 text-sm">Created: {formatDate(candidate.codingEvaluation.createdAt)}</p>
-                        <p className="text-white/80 text-sm">Updated: {formatDate(candidate.codingEvaluation.updatedAt)}</p>
+                        <p className="text-white/80 text-sm">Created: {formatDateTime(candidate.codingEvaluation.createdAt)}</p>
+                        <p className="text-white/80 text-sm">Updated: {formatDateTime(candidate.codingEvaluation.updatedAt)}</p>
                       </div>
                     </div>
+                    {coding?.terminatedDueToWarnings && (
+                      <div className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4 text-red-300" />
+                        <p className="text-red-300 text-sm">
+                          Test terminated{coding.terminationReason ? `: ${coding.terminationReason}` : ' due to warnings'}
+                        </p>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
 
+                {/* Warnings */}
+                {coding && <ProctoringWarningsCard warnings={coding.warnings} log={coding.proctoringLog} />}
+
                 {/* Problem Status */}
                 <Card className="bg-white/5 border-white/10">
                   <CardHeader>
@@ -441,7 +982,7 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
                                   </Badge>
                                 )}
                               </div>
-                              <p className="text-white/60 text-sm">{formatDate(submission.timestamp)}</p>
+                              <p className="text-white/60 text-sm">{formatDateTime(submission.timestamp)}</p>
                             </div>
                             <div className="bg-black/30 p-3 rounded-md overflow-x-auto">
                               <pre className="text-white/80 text-sm whitespace-pre-wrap">
@@ -495,7 +1036,7 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
                                   </Badge>
                                 )}
                               </div>
-                              <p className="text-white/60 text-sm">{formatDate(run.timestamp)}</p>
+                              <p className="text-white/60 text-sm">{formatDateTime(run.timestamp)}</p>
                             </div>
                             <div className="bg-black/30 p-3 rounded-md overflow-x-auto">
                               <pre className="text-white/80 text-sm whitespace-pre-wrap">
@@ -556,25 +1097,39 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
         </TabsContent>
 
         <TabsContent value="technical" className="mt-6">
-          <Card className="bg-white/5 border-white/10">
-            <CardHeader>
-              <CardTitle className="text-white">Technical Interview Feedback</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className="text-white/60">Technical interview feedback will be displayed here.</p>
-            </CardContent>
-          </Card>
+          {detailsLoading ? (
+            <Card className="bg-white/5 border-white/10">
+              <CardContent className="p-8 text-center">
+                <p className="text-white/60">Loading technical interview...</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <InterviewEvaluationPanel
+              title="Technical Interview Feedback"
+              evaluation={details?.technicalInterview}
+              emptyMessage="No technical interview data available for this candidate"
+            />
+          )}
         </TabsContent>
 
         <TabsContent value="hr" className="mt-6">
-          <Card className="bg-white/5 border-white/10">
-            <CardHeader>
-              <CardTitle className="text-white">HR Round Feedback</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className="text-white/60">HR round feedback will be displayed here.</p>
-            </CardContent>
-          </Card>
+          {detailsLoading ? (
+            <Card className="bg-white/5 border-white/10">
+              <CardContent className="p-8 text-center">
+                <p className="text-white/60">Loading HR interview...</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <InterviewEvaluationPanel
+              title="HR Round Feedback"
+              evaluation={details?.hrInterview}
+              emptyMessage="No HR interview data available for this candidate"
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="proctoring" className="mt-6">
+          <ProctoringReview applicationId={candidate.applicationId} onRoundsChanged={handleRoundsChanged} />
         </TabsContent>
       </Tabs>
 
@@ -583,11 +1138,17 @@ export function CandidateEvaluationDetails({ candidate, onBack }: CandidateEvalu
         <Button 
           variant="outline" 
           className="bg-red-500/20 border-red-500/30 text-red-300 hover:bg-red-500/30"
+          disabled={deciding || applicationStatus === 'rejected' || applicationStatus === 'withdrawn'}
+          onClick={() => handleDecision('rejected')}
         >
           <XCircle className="w-4 h-4 mr-2" />
           Reject Candidate
         </Button>
-        <Button className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600">
+        <Button
+          className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+          disabled={deciding || applicationStatus === 'accepted' || applicationStatus === 'withdrawn'}
+          onClick={() => handleDecision('accepted')}
+        >
           <Star className="w-4 h-4 mr-2" />
           Select Candidate
         </Button>
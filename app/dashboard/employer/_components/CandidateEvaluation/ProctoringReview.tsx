@@ -0,0 +1,292 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Ban, CheckCircle2, ExternalLink, Eye, PlayCircle, ShieldAlert, ShieldCheck, XCircle } from "lucide-react";
+import { useProctoringReview, useReviewProctoringItem } from "../../hooks";
+import type {
+  CandidateDecisionResult,
+  ReviewRound
+} from "../../actions/candidate-evaluation-actions";
+import type { ProctoringDecision, ProctoringSeverity, ProctoringTimelineItem } from "@/lib/proctoring/review";
+
+const ROUNDS: { value: ReviewRound; label: string }[] = [
+  { value: 'aptitude', label: 'Aptitude' },
+  { value: 'coding', label: 'Coding' },
+  { value: 'technicalInterview', label: 'Technical Interview' },
+  { value: 'hrInterview', label: 'HR Interview' }
+];
+
+const SEVERITIES: ProctoringSeverity[] = ['high', 'medium', 'low'];
+
+const SEVERITY_COLORS: Record<ProctoringSeverity, string> = {
+  high: 'bg-red-500/20 text-red-300 border-red-500/30',
+  medium: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+  low: 'bg-white/10 text-white/70 border-white/20'
+};
+
+const KIND_LABELS: Record<ProctoringTimelineItem['kind'], string> = {
+  violation: 'Violation',
+  warning: 'Warning',
+  mood: 'Mood',
+  flag: 'Flag'
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatOffset = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+interface ProctoringReviewProps {
+  applicationId: string;
+  // Called when invalidating a round changed the application
+  onRoundsChanged?: (result: CandidateDecisionResult) => void;
+}
+
+export function ProctoringReview({ applicationId, onRoundsChanged }: ProctoringReviewProps) {
+  const [round, setRound] = useState<ReviewRound>('aptitude');
+  const [severities, setSeverities] = useState<ProctoringSeverity[]>(SEVERITIES);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const { review, setReview, loading } = useProctoringReview(applicationId, round);
+  const { reviewItem, loading: reviewing } = useReviewProctoringItem();
+
+  const items = review?.items.filter(item => severities.includes(item.severity)) ?? [];
+
+  const toggleSeverity = (severity: ProctoringSeverity) => {
+    setSeverities(current =>
+      current.includes(severity) ? current.filter(value => value !== severity) : [...current, severity]
+    );
+  };
+
+  const openReview = (item: ProctoringTimelineItem) => {
+    setReviewingId(item.id);
+    setNote(item.review?.note ?? '');
+  };
+
+  const handleReview = async (item: ProctoringTimelineItem, decision: ProctoringDecision, invalidateRound = false) => {
+    if (invalidateRound && !window.confirm(
+      'Invalidate this round? It will count as failed and the candidate will be removed from it.'
+    )) return;
+
+    const result = await reviewItem(applicationId, round, item.id, decision, { note, invalidateRound });
+    if (result.success && result.data) {
+      setReview(result.data.review);
+      setReviewingId(null);
+      setNote('');
+      if (invalidateRound) onRoundsChanged?.(result.data);
+    }
+  };
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Eye className="w-5 h-5" />
+          Proctoring Review
+        </CardTitle>
+        <CardDescription className="text-white/60">
+          Violations, warnings, mood changes and flags raised during the round. Dismiss false positives, or
+          confirm a violation and invalidate the round.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {ROUNDS.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant="outline"
+              onClick={() => { setRound(option.value); setReviewingId(null); }}
+              className={option.value === round ? 'bg-white/20 text-white border-white/30' : 'bg-white/5 text-white/70 border-white/10'}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-white/60 text-sm">Severity:</span>
+          {SEVERITIES.map(severity => (
+            <button
+              key={severity}
+              type="button"
+              onClick={() => toggleSeverity(severity)}
+              className={`px-3 py-1 rounded-full border text-xs capitalize ${
+                severities.includes(severity) ? SEVERITY_COLORS[severity] : 'border-white/10 text-white/30'
+              }`}
+            >
+              {severity}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <p className="text-white/60">Loading proctoring record...</p>
+        ) : !review ? (
+          <p className="text-white/60">The candidate has not taken this round</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              {review.logIntact === true && (
+                <Badge className="bg-green-500/20 text-green-300 border-green-500/30">
+                  <ShieldCheck className="w-4 h-4 mr-1" />
+                  Log verified
+                </Badge>
+              )}
+              {review.logIntact === false && (
+                <Badge className="bg-red-500/20 text-red-300 border-red-500/30">
+                  <ShieldAlert className="w-4 h-4 mr-1" />
+                  Log was modified
+                </Badge>
+              )}
+              {review.terminatedAt && (
+                <span className="text-red-300 text-sm">Terminated {formatDateTime(review.terminatedAt)}</span>
+              )}
+              {review.recordingUrl && (
+                <a href={review.recordingUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:text-indigo-200 text-sm flex items-center gap-1">
+                  <ExternalLink className="w-4 h-4" />
+                  Recording
+                </a>
+              )}
+            </div>
+
+            {review.invalidation && (
+              <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg flex items-start gap-3">
+                <Ban className="w-5 h-5 text-red-300 mt-0.5" />
+                <div>
+                  <p className="text-red-200 font-medium">Round invalidated {formatDateTime(review.invalidation.invalidatedAt)}</p>
+                  <p className="text-red-200/80 text-sm">{review.invalidation.reason}</p>
+                </div>
+              </div>
+            )}
+
+            {items.length === 0 ? (
+              <p className="text-white/60">
+                {review.items.length === 0 ? 'Nothing was recorded during this round' : 'No items match the selected severities'}
+              </p>
+            ) : (
+              <div className="relative space-y-3 pl-6 border-l border-white/10 max-h-[32rem] overflow-y-auto">
+                {items.map(item => (
+                  <div key={item.id} className="relative p-3 bg-white/5 rounded-lg space-y-2">
+                    <span className={`absolute -left-[1.95rem] top-4 w-3 h-3 rounded-full border ${SEVERITY_COLORS[item.severity]}`} />
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge className={SEVERITY_COLORS[item.severity]}>{KIND_LABELS[item.kind]}</Badge>
+                        <span className="text-white text-sm">{item.title}</span>
+                        {item.review && (
+                          <Badge className={item.review.decision === 'dismissed'
+                            ? 'bg-white/10 text-white/70 border-white/20'
+                            : 'bg-red-500/20 text-red-300 border-red-500/30'}>
+                            {item.review.decision === 'dismissed' ? 'Dismissed' : 'Confirmed'}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-white/60 text-xs shrink-0">{formatDateTime(item.occurredAt)}</p>
+                    </div>
+
+                    {item.detail && <p className="text-white/60 text-sm">{item.detail}</p>}
+                    {item.review?.note && <p className="text-white/60 text-sm italic">&ldquo;{item.review.note}&rdquo;</p>}
+
+                    <div className="flex flex-wrap items-center gap-4">
+                      {review.recordingUrl && item.recordingOffset !== undefined && (
+                        <a
+                          href={`${review.recordingUrl}#t=${item.recordingOffset}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-indigo-300 hover:text-indigo-200 text-xs flex items-center gap-1"
+                        >
+                          <PlayCircle className="w-4 h-4" />
+                          Recording at {formatOffset(item.recordingOffset)}
+                        </a>
+                      )}
+                      {item.snapshotUrl && (
+                        <a href={item.snapshotUrl} target="_blank" rel="noopener noreferrer" className="block">
+                          <Image
+                            src={item.snapshotUrl}
+                            alt="Screen capture"
+                            width={96}
+                            height={54}
+                            className="rounded border border-white/10 object-cover"
+                          />
+                        </a>
+                      )}
+                      {item.kind !== 'mood' && reviewingId !== item.id && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openReview(item)}
+                          className="ml-auto bg-white/5 text-white/80 border-white/10"
+                        >
+                          {item.review ? 'Change review' : 'Review'}
+                        </Button>
+                      )}
+                    </div>
+
+                    {reviewingId === item.id && (
+                      <div className="flex flex-col gap-2 pt-2 border-t border-white/10">
+                        <Input
+                          value={note}
+                          onChange={(event) => setNote(event.target.value)}
+                          maxLength={1000}
+                          placeholder="Note (optional)"
+                          className="bg-white/5 border-white/10 text-white"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={reviewing}
+                            onClick={() => handleReview(item, 'dismissed')}
+                            className="bg-white/5 text-white/80 border-white/10"
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Dismiss as false positive
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={reviewing}
+                            onClick={() => handleReview(item, 'confirmed')}
+                            className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                          >
+                            <CheckCircle2 className="w-4 h-4 mr-1" />
+                            Confirm
+                          </Button>
+                          {!review.invalidation && (
+                            <Button
+                              size="sm"
+                              disabled={reviewing}
+                              onClick={() => handleReview(item, 'confirmed', true)}
+                              className="bg-red-600 hover:bg-red-700 text-white"
+                            >
+                              <Ban className="w-4 h-4 mr-1" />
+                              Confirm &amp; invalidate round
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={reviewing}
+                            onClick={() => setReviewingId(null)}
+                            className="text-white/60"
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,11 +5,15 @@ export default function CodePreview({
   title,
   badge = "LIVE",
   metrics,
+  code,
+  feed,
   loading = false,
 }: {
   title: string;
   badge: string;
   metrics: string;
+  code?: string;
+  feed?: string;
   loading?: boolean;
 }) {
   if (loading) {
@@ -50,7 +54,7 @@ export default function CodePreview({
       <CardContent className="px-4 space-y-3">
         <div className="grid md:grid-cols-2 gap-3">
           <pre className="rounded-md border border-white/10 bg-zinc-950 text-zinc-100 p-3 text-xs leading-relaxed overflow-auto">
-            {`function calculateScore(ans) {
+            {code ?? `function calculateScore(ans) {
   let score = 0;
   // Calculating
   // total score...
@@ -58,8 +62,8 @@ export default function CodePreview({
           </pre>
           <pre className="rounded-md border border-white/10 bg-zinc-950 text-zinc-100 p-3 text-xs leading-relaxed overflow-auto">
             {`[Video Feed Preview]
-Candidate is focused
-No proctoring flags`}
+${feed ?? `Candidate is focused
+No proctoring flags`}`}
           </pre>
         </div>
         <div className="text-xs text-neutral-400">
@@ -25,9 +25,11 @@ import { AddAssessmentPage, CreateAssessmentFlow } from "./AddAssessmentForm";
 import { ManageCandidates } from "./ManageCandidates";
 import { MyOpenings } from "./MyOpenings";
 import { CandidateEvaluation } from "./CandidateEvaluation";
-import type { DashboardData, Stat } from "../types";
+import { ProblemBank } from "./ProblemBank";
+import { Team } from "./Team";
+import type { DashboardData, PipelineStage, Stat } from "../types";
 
-type PageView = "dashboard" | "create-job" | "add-assessment" | "create-assessment" | "manage-candidates" | "my-openings" | "candidate-evaluation";
+type PageView = "dashboard" | "create-job" | "add-assessment" | "create-assessment" | "manage-candidates" | "my-openings" | "candidate-evaluation" | "problem-bank" | "team";
 
 interface DashboardClientProps {
   initialData: DashboardData;
@@ -73,6 +75,14 @@ export function DashboardClient({ initialData }: DashboardClientProps) {
     return <CandidateEvaluation />;
   }
 
+  if (currentView === "problem-bank") {
+    return <ProblemBank />;
+  }
+
+  if (currentView === "team") {
+    return <Team />;
+  }
+
   return (
     <div className="space-y-4 sm:space-y-6 lg:space-y-8 mt-16">
       {/* Header */}
@@ -145,14 +155,14 @@ export function DashboardClient({ initialData }: DashboardClientProps) {
                     <Column
                       key={stage}
                       title={stage.charAt(0).toUpperCase() + stage.slice(1)} // Capitalize stage
-                      count={candidates.length}
+                      count={initialData.stageCounts?.[stage as PipelineStage] ?? candidates.length}
                       className="min-w-[260px] snap-start">
                       {candidates.map((candidate, index) => (
                         <CandidateCard
                           key={index}
                           name={candidate.name}
                           role={candidate.role}
-                          score={candidate.score + "%"}
+                          score={candidate.score ? candidate.score + "%" : "—"}
                           metaLeft={candidate.metaLeft}
                           metaRight={candidate.metaRight}
                         />
@@ -169,13 +179,13 @@ export function DashboardClient({ initialData }: DashboardClientProps) {
                     <Column
                       key={stage}
                       title={stage.charAt(0).toUpperCase() + stage.slice(1)} // Capitalize stage
-                      count={candidates.length}>
+                      count={initialData.stageCounts?.[stage as PipelineStage] ?? candidates.length}>
                       {candidates.map((candidate, index) => (
                         <CandidateCard
                           key={index}
                           name={candidate.name}
                           role={candidate.role}
-                          score={candidate.score + "%"}
+                          score={candidate.score ? candidate.score + "%" : "—"}
                           metaLeft={candidate.metaLeft}
                           metaRight={candidate.metaRight}
                         />
@@ -223,6 +233,9 @@ export function DashboardClient({ initialData }: DashboardClientProps) {
               </div>
             </CardHeader>
             <CardContent className="space-y-3 px-4">
+              {initialData.jobs.length === 0 && (
+                <p className="text-sm text-neutral-400">No active job postings yet.</p>
+              )}
               {initialData.jobs.map((job, index) => (
                 <JobListItem {...job} key={index} />
               ))}
@@ -244,6 +257,9 @@ export function DashboardClient({ initialData }: DashboardClientProps) {
               </div>
             </CardHeader>
             <CardContent className="pt-2 px-4">
+              {initialData.activities.length === 0 && (
+                <p className="text-sm text-neutral-400">No recent activity.</p>
+              )}
               <ul className="divide-y">
                 {initialData.activities.map((activity: any, index: number) => (
                   <ActivityItem {...activity} key={index} />
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -24,12 +25,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Eye, FileText, Mail, Calendar, CheckCircle2, AlertCircle } from "lucide-react";
+import { Eye, FileText, Mail, Calendar, CheckCircle2, AlertCircle, CalendarClock } from "lucide-react";
 import { toast } from "sonner";
 import { 
   useFetchCandidatesForJob, 
   useFetchRoundInfo, 
-  useUpdateCandidatesForRound 
+  useUpdateCandidatesForRound,
+  useExtendRoundWindow
 } from "../../hooks";
 import type { JobWithAssessment } from "../../actions";
 
@@ -49,6 +51,7 @@ export function CandidatesTable({ job, onBack }: CandidatesTableProps) {
   const [selectedRoundType, setSelectedRoundType] = useState<'aptitude' | 'coding' | 'technicalInterview' | 'hrInterview'>('aptitude');
   const [selectedCandidates, setSelectedCandidates] = useState<Set<string>>(new Set());
   const [selectAll, setSelectAll] = useState(false);
+  const [extendUntil, setExtendUntil] = useState("");
 
   const { candidates, loading: candidatesLoading, error: candidatesError, refetch } = useFetchCandidatesForJob(job._id);
   
@@ -66,6 +69,7 @@ export function CandidatesTable({ job, onBack }: CandidatesTableProps) {
   );
   
   const { updateCandidates, loading: updating } = useUpdateCandidatesForRound();
+  const { extendWindow, loading: extending } = useExtendRoundWindow();
 
   // Handle select all toggle
   useEffect(() => {
@@ -131,6 +135,26 @@ export function CandidatesTable({ job, onBack }: CandidatesTableProps) {
     }
   };
 
+  // closesAt is null to remove the extension
+  const handleExtend = async (closesAt: string | null) => {
+    if (selectedCandidates.size === 0) {
+      toast.error('Please select at least one candidate');
+      return;
+    }
+
+    const result = await extendWindow(
+      job._id,
+      selectedRoundType,
+      Array.from(selectedCandidates),
+      closesAt
+    );
+
+    if (result.success) {
+      setExtendUntil("");
+      refetch();
+    }
+  };
+
   const loading = candidatesLoading || roundLoading;
 
   return (
@@ -285,6 +309,12 @@ export function CandidatesTable({ job, onBack }: CandidatesTableProps) {
                         >
                           {candidate.status}
                         </Badge>
+                        {candidate.extensions[selectedRoundType] && (
+                          <div className="flex items-center gap-1 mt-1 text-xs text-amber-300">
+                            <CalendarClock className="w-3 h-3" />
+                            Extended until {new Date(candidate.extensions[selectedRoundType]!).toLocaleString()}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
@@ -320,7 +350,34 @@ export function CandidatesTable({ job, onBack }: CandidatesTableProps) {
               <div className="text-sm text-white/60">
                 {selectedCandidates.size} of {candidates.length} candidate(s) selected
               </div>
-              <div className="flex gap-3">
+              <div className="flex flex-wrap gap-3">
+                <Input
+                  type="datetime-local"
+                  value={extendUntil}
+                  onChange={(e) => setExtendUntil(e.target.value)}
+                  className="w-auto bg-white/5 border-white/10 text-white"
+                  title="New closing time for the selected candidates, in your local time"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handleExtend(new Date(extendUntil).toISOString())}
+                  disabled={selectedCandidates.size === 0 || extending || !extendUntil}
+                >
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  Extend Window
+                </Button>
+                {Array.from(selectedCandidates).some(id =>
+                  candidates.find(c => c.candidateId === id)?.extensions[selectedRoundType]
+                ) && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => handleExtend(null)}
+                    disabled={extending}
+                    className="text-white/60 hover:text-white"
+                  >
+                    Remove Extension
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   onClick={onBack}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Code2, Download, Edit, Eye, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useProblemBank } from "../../hooks";
+import { deleteBankProblem, exportBankProblems, fetchBankProblem, importBankProblems } from "../../actions";
+import type { CodingProblem } from "@/lib/code-execution/types";
+import { ProblemEditor } from "./ProblemEditor";
+
+type EditorState =
+  | { mode: "closed" }
+  | { mode: "create" }
+  | { mode: "edit"; problem: CodingProblem; readOnly: boolean };
+
+const DIFFICULTY_FILTERS = ["all", "Easy", "Medium", "Hard"];
+
+function downloadJson(content: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ProblemBank() {
+  const [difficulty, setDifficulty] = useState("all");
+  const [search, setSearch] = useState("");
+  const [editor, setEditor] = useState<EditorState>({ mode: "closed" });
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { problems, loading, error, refetch } = useProblemBank(difficulty);
+
+  const filteredProblems = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return problems;
+    return problems.filter(
+      (p) => p.title.toLowerCase().includes(term) || p.tags.some((tag) => tag.includes(term))
+    );
+  }, [problems, search]);
+
+  const openProblem = async (problemId: number) => {
+    const result = await fetchBankProblem(problemId);
+    if (!result.success || !result.data) {
+      toast.error(result.error || result.message);
+      return;
+    }
+    const { isBuiltIn, ...problem } = result.data;
+    setEditor({ mode: "edit", problem, readOnly: isBuiltIn });
+  };
+
+  const handleDelete = async (problemId: number, title: string) => {
+    if (!window.confirm(`Delete "${title}"? This cannot be undone.`)) return;
+    const result = await deleteBankProblem(problemId);
+    if (result.success) {
+      toast.success(result.message);
+      refetch();
+    } else {
+      toast.error(result.error || result.message);
+    }
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const result = await exportBankProblems(filteredProblems.map((p) => p.id));
+      if (result.success && result.data) {
+        downloadJson(result.data, "coding-problems.json");
+      } else {
+        toast.error(result.error || result.message);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setBusy(true);
+    try {
+      const result = await importBankProblems(await file.text());
+      if (result.success && result.data) {
+        toast.success(result.message);
+        result.data.errors.forEach((message) => toast.error(message));
+        refetch();
+      } else {
+        toast.error(result.error || result.message);
+      }
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  if (editor.mode !== "closed") {
+    return (
+      <div className="space-y-4 sm:space-y-6 lg:space-y-8 mt-16 px-4 sm:px-6 lg:px-8 xl:px-12">
+        <ProblemEditor
+          problem={editor.mode === "edit" ? editor.problem : undefined}
+          readOnly={editor.mode === "edit" && editor.readOnly}
+          onBack={() => setEditor({ mode: "closed" })}
+          onSaved={() => {
+            setEditor({ mode: "closed" });
+            refetch();
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6 lg:space-y-8 mt-16">
+      {/* Header */}
+      <div className="sticky top-0 z-30 bg-gradient-to-br from-[#0A0A18]/90 to-[#0D0D20]/90 backdrop-blur-xl border-b border-white/10 pb-4 pt-8 sm:pt-6 px-4 sm:px-6 lg:px-8 xl:px-12">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2 sm:mb-3">
+              Problem Bank
+            </h1>
+            <p className="text-white/60 mt-1">
+              Coding problems available to your coding rounds
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+            />
+            <Button
+              variant="outline"
+              disabled={busy}
+              onClick={() => fileInputRef.current?.click()}
+              className="text-white/80 bg-transparent border-white/20 hover:text-white hover:bg-white/10"
+            >
+              <Upload className="w-4 h-4 mr-2" /> Import JSON
+            </Button>
+            <Button
+              variant="outline"
+              disabled={busy || filteredProblems.length === 0}
+              onClick={handleExport}
+              className="text-white/80 bg-transparent border-white/20 hover:text-white hover:bg-white/10"
+            >
+              <Download className="w-4 h-4 mr-2" /> Export JSON
+            </Button>
+            <Button
+              onClick={() => setEditor({ mode: "create" })}
+              className="bg-purple-500 text-white font-semibold hover:bg-purple-700"
+            >
+              <Plus className="w-4 h-4 mr-2" /> New Problem
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="px-4 sm:px-6 lg:px-8 xl:px-12 space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by title or tag..."
+            className="sm:max-w-sm bg-white/5 border-white/10 text-white placeholder:text-white/50"
+          />
+          <div className="flex gap-1">
+            {DIFFICULTY_FILTERS.map((d) => (
+              <Button
+                key={d}
+                size="sm"
+                variant="ghost"
+                onClick={() => setDifficulty(d)}
+                className={`capitalize ${difficulty === d ? "bg-white/10 text-white" : "text-white/60 hover:text-white"}`}
+              >
+                {d}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full bg-white/10" />
+            ))}
+          </div>
+        ) : filteredProblems.length === 0 ? (
+          <Card className="bg-white/5 border-white/10">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Code2 className="w-16 h-16 text-white/20 mb-4" />
+              <p className="text-white/60 text-center">No problems match the current filters.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="bg-white/5 border-white/10">
+            <CardContent className="p-0 divide-y divide-white/10">
+              {filteredProblems.map((problem) => (
+                <div key={problem.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-white font-medium">
+                      <span className="truncate">{problem.id}. {problem.title}</span>
+                      <Badge variant="outline" className="text-white/80 border-white/20">{problem.difficulty}</Badge>
+                      {problem.isBuiltIn && <Badge className="bg-white/10 text-white/70">Built-in</Badge>}
+                    </div>
+                    <div className="text-xs text-white/60 mt-1">
+                      {problem.sampleTests} sample · {problem.hiddenTests} hidden tests
+                      {problem.tags.length > 0 && ` · ${problem.tags.join(", ")}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => openProblem(problem.id)} className="text-white/70 hover:text-white hover:bg-white/10">
+                      {problem.isBuiltIn ? <Eye className="w-4 h-4" /> : <Edit className="w-4 h-4" />}
+                    </Button>
+                    {!problem.isBuiltIn && (
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(problem.id, problem.title)} className="text-red-400 hover:bg-red-500/10">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
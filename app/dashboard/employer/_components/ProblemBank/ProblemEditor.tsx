@@ -0,0 +1,449 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { createBankProblem, updateBankProblem } from "../../actions";
+import { generateStarterCode } from "@/lib/code-execution/signature";
+import type { CodingProblem, CodingProblemInput } from "@/lib/code-execution/types";
+
+const LANGUAGES = ["javascript", "typescript", "python", "java", "cpp", "c", "go", "ruby", "php"];
+
+interface TestCaseDraft {
+  input: string; // JSON object keyed by parameter name
+  expected: string; // JSON value
+  hidden: boolean;
+  weight: number;
+}
+
+interface ProblemDraft {
+  title: string;
+  difficulty: string;
+  tags: string;
+  description: string;
+  constraints: string;
+  examples: { input: string; output: string; explanation: string }[];
+  functionName: string;
+  params: { name: string; type: string }[];
+  returnType: string;
+  unordered: boolean;
+  floatTolerance: string;
+  testCases: TestCaseDraft[];
+  starterCode: Record<string, string>;
+}
+
+interface ProblemEditorProps {
+  problem?: CodingProblem; // edit mode when provided
+  readOnly?: boolean;
+  onBack: () => void;
+  onSaved: () => void;
+}
+
+function toDraft(problem?: CodingProblem): ProblemDraft {
+  if (!problem) {
+    return {
+      title: "",
+      difficulty: "Easy",
+      tags: "",
+      description: "",
+      constraints: "",
+      examples: [{ input: "", output: "", explanation: "" }],
+      functionName: "solve",
+      params: [{ name: "nums", type: "int[]" }],
+      returnType: "int",
+      unordered: false,
+      floatTolerance: "",
+      testCases: [{ input: '{ "nums": [] }', expected: "0", hidden: false, weight: 1 }],
+      starterCode: {},
+    };
+  }
+
+  return {
+    title: problem.title,
+    difficulty: problem.difficulty,
+    tags: (problem.tags || []).join(", "),
+    description: problem.description,
+    constraints: problem.constraints.join("\n"),
+    examples: problem.examples.map((e) => ({
+      input: String(e.input),
+      output: String(e.output),
+      explanation: e.explanation || "",
+    })),
+    functionName: problem.signature.functionName,
+    params: problem.signature.params.map((p) => ({ ...p })),
+    returnType: problem.signature.returnType,
+    unordered: !!problem.comparison?.unordered,
+    floatTolerance: problem.comparison?.floatTolerance !== undefined ? String(problem.comparison.floatTolerance) : "",
+    testCases: problem.testCases.map((t) => ({
+      input: JSON.stringify(t.input),
+      expected: JSON.stringify(t.expected),
+      hidden: !!t.hidden,
+      weight: t.weight ?? 1,
+    })),
+    starterCode: { ...problem.starterCode },
+  };
+}
+
+/**
+ * Builds the problem definition from the draft, throwing a readable error for malformed JSON
+ */
+function fromDraft(draft: ProblemDraft): CodingProblemInput {
+  const testCases = draft.testCases.map((t, index) => {
+    let input: any;
+    let expected: any;
+    try {
+      input = JSON.parse(t.input);
+    } catch {
+      throw new Error(`Test case ${index + 1}: input is not valid JSON`);
+    }
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      throw new Error(`Test case ${index + 1}: input must be a JSON object keyed by parameter name`);
+    }
+    try {
+      expected = JSON.parse(t.expected);
+    } catch {
+      throw new Error(`Test case ${index + 1}: expected output is not valid JSON`);
+    }
+    return { input, expected, hidden: t.hidden, weight: Number(t.weight) || 0 };
+  });
+
+  const floatTolerance = draft.floatTolerance.trim() ? Number(draft.floatTolerance) : undefined;
+
+  return {
+    title: draft.title,
+    difficulty: draft.difficulty,
+    description: draft.description,
+    constraints: draft.constraints.split("\n"),
+    examples: draft.examples
+      .filter((e) => e.input.trim() || e.output.trim())
+      .map((e) => ({ input: e.input, output: e.output, explanation: e.explanation || undefined })),
+    starterCode: draft.starterCode,
+    testCases,
+    signature: {
+      functionName: draft.functionName.trim(),
+      params: draft.params.map((p) => ({ name: p.name.trim(), type: p.type.trim() })),
+      returnType: draft.returnType.trim(),
+    },
+    ...(draft.unordered || floatTolerance !== undefined
+      ? { comparison: { unordered: draft.unordered || undefined, floatTolerance } }
+      : {}),
+    tags: draft.tags.split(","),
+  };
+}
+
+export function ProblemEditor({ problem, readOnly = false, onBack, onSaved }: ProblemEditorProps) {
+  const [draft, setDraft] = useState<ProblemDraft>(() => toDraft(problem));
+  const [starterLanguage, setStarterLanguage] = useState("javascript");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof ProblemDraft>(key: K, value: ProblemDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateTestCase = (index: number, changes: Partial<TestCaseDraft>) => {
+    setDraft((prev) => ({
+      ...prev,
+      testCases: prev.testCases.map((t, i) => (i === index ? { ...t, ...changes } : t)),
+    }));
+  };
+
+  const fillStarterCode = () => {
+    try {
+      const input = fromDraft(draft);
+      update("starterCode", {
+        ...draft.starterCode,
+        [starterLanguage]: generateStarterCode(input.signature, starterLanguage),
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Invalid signature");
+    }
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    let input: CodingProblemInput;
+    try {
+      input = fromDraft(draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid problem");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = problem ? await updateBankProblem(problem.id, input) : await createBankProblem(input);
+      if (result.success) {
+        toast.success(result.message);
+        onSaved();
+      } else {
+        setError(result.error || result.message);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldClass = "bg-[#1f1f35] border-white/10 text-white";
+
+  return (
+    <Card className="bg-[#171726] border-0">
+      <CardHeader>
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onBack}
+            className="flex items-center gap-2 text-white/80 bg-transparent border-white/20 hover:text-white hover:bg-white/10 hover:border-white/40"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <div>
+            <CardTitle className="text-white">
+              {readOnly ? problem?.title : problem ? "Edit Problem" : "New Problem"}
+            </CardTitle>
+            <CardDescription className="text-white/60">
+              {readOnly
+                ? "Built-in problems are read-only. Export and re-import one to customise it."
+                : "Statement, signature, test cases and starter code"}
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6 text-white">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <fieldset disabled={readOnly} className="space-y-6">
+          {/* Statement */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Label>Title</Label>
+              <Input value={draft.title} onChange={(e) => update("title", e.target.value)} className={`mt-1 ${fieldClass}`} />
+            </div>
+            <div>
+              <Label>Difficulty</Label>
+              <Select value={draft.difficulty} onValueChange={(value) => update("difficulty", value)} disabled={readOnly}>
+                <SelectTrigger className={`mt-1 ${fieldClass}`}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Easy">Easy</SelectItem>
+                  <SelectItem value="Medium">Medium</SelectItem>
+                  <SelectItem value="Hard">Hard</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Tags (comma separated)</Label>
+            <Input value={draft.tags} onChange={(e) => update("tags", e.target.value)} placeholder="arrays, hashing" className={`mt-1 ${fieldClass}`} />
+          </div>
+
+          <div>
+            <Label>Description</Label>
+            <Textarea value={draft.description} onChange={(e) => update("description", e.target.value)} rows={5} className={`mt-1 ${fieldClass}`} />
+          </div>
+
+          <div>
+            <Label>Constraints (one per line)</Label>
+            <Textarea value={draft.constraints} onChange={(e) => update("constraints", e.target.value)} rows={3} className={`mt-1 ${fieldClass}`} />
+          </div>
+
+          {/* Examples */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Examples</Label>
+              {!readOnly && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => update("examples", [...draft.examples, { input: "", output: "", explanation: "" }])}
+                  className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/10"
+                >
+                  <Plus className="w-4 h-4 mr-1" /> Add Example
+                </Button>
+              )}
+            </div>
+            {draft.examples.map((example, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                <Input
+                  value={example.input}
+                  placeholder="Input, e.g. nums = [2,7,11,15], target = 9"
+                  onChange={(e) => update("examples", draft.examples.map((ex, i) => (i === index ? { ...ex, input: e.target.value } : ex)))}
+                  className={fieldClass}
+                />
+                <Input
+                  value={example.output}
+                  placeholder="Output"
+                  onChange={(e) => update("examples", draft.examples.map((ex, i) => (i === index ? { ...ex, output: e.target.value } : ex)))}
+                  className={fieldClass}
+                />
+                <Input
+                  value={example.explanation}
+                  placeholder="Explanation (optional)"
+                  onChange={(e) => update("examples", draft.examples.map((ex, i) => (i === index ? { ...ex, explanation: e.target.value } : ex)))}
+                  className={fieldClass}
+                />
+                {!readOnly && (
+                  <Button type="button" size="icon" variant="ghost" onClick={() => update("examples", draft.examples.filter((_, i) => i !== index))} className="text-red-400 hover:bg-red-500/10">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Signature */}
+          <div className="space-y-2">
+            <Label>Function Signature</Label>
+            <p className="text-xs text-white/50">
+              Types: int, long, double, boolean, string, with [] per array dimension (e.g. int[][]).
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <Input value={draft.functionName} onChange={(e) => update("functionName", e.target.value)} placeholder="Function name" className={fieldClass} />
+              <Input value={draft.returnType} onChange={(e) => update("returnType", e.target.value)} placeholder="Return type" className={fieldClass} />
+            </div>
+            {draft.params.map((param, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <Input
+                  value={param.name}
+                  placeholder="Parameter name"
+                  onChange={(e) => update("params", draft.params.map((p, i) => (i === index ? { ...p, name: e.target.value } : p)))}
+                  className={fieldClass}
+                />
+                <Input
+                  value={param.type}
+                  placeholder="Type"
+                  onChange={(e) => update("params", draft.params.map((p, i) => (i === index ? { ...p, type: e.target.value } : p)))}
+                  className={fieldClass}
+                />
+                {!readOnly && (
+                  <Button type="button" size="icon" variant="ghost" onClick={() => update("params", draft.params.filter((_, i) => i !== index))} className="text-red-400 hover:bg-red-500/10">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {!readOnly && (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => update("params", [...draft.params, { name: "", type: "int" }])}
+                className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/10"
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add Parameter
+              </Button>
+            )}
+            <div className="flex flex-wrap items-center gap-6 pt-2">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={draft.unordered} onCheckedChange={(checked) => update("unordered", checked)} disabled={readOnly} />
+                Accept arrays in any order
+              </label>
+              <div className="flex items-center gap-2 text-sm">
+                <span>Float tolerance</span>
+                <Input value={draft.floatTolerance} onChange={(e) => update("floatTolerance", e.target.value)} placeholder="1e-6" className={`w-28 ${fieldClass}`} />
+              </div>
+            </div>
+          </div>
+
+          {/* Test Cases */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Test Cases</Label>
+              {!readOnly && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => update("testCases", [...draft.testCases, { input: "{}", expected: "", hidden: true, weight: 1 }])}
+                  className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/10"
+                >
+                  <Plus className="w-4 h-4 mr-1" /> Add Test Case
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-white/50">
+              Input is a JSON object keyed by parameter name. Sample tests are shown to candidates; hidden tests only run on submission.
+            </p>
+            {draft.testCases.map((testCase, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto_auto_auto] gap-2 items-center">
+                <Input value={testCase.input} onChange={(e) => updateTestCase(index, { input: e.target.value })} className={`font-mono text-xs ${fieldClass}`} />
+                <Input value={testCase.expected} placeholder="Expected (JSON)" onChange={(e) => updateTestCase(index, { expected: e.target.value })} className={`font-mono text-xs ${fieldClass}`} />
+                <label className="flex items-center gap-2 text-xs whitespace-nowrap">
+                  <Switch checked={testCase.hidden} onCheckedChange={(checked) => updateTestCase(index, { hidden: checked })} disabled={readOnly} />
+                  Hidden
+                </label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={testCase.weight}
+                  title="Weight"
+                  onChange={(e) => updateTestCase(index, { weight: parseFloat(e.target.value) || 0 })}
+                  className={`w-20 ${fieldClass}`}
+                />
+                {!readOnly && (
+                  <Button type="button" size="icon" variant="ghost" onClick={() => update("testCases", draft.testCases.filter((_, i) => i !== index))} className="text-red-400 hover:bg-red-500/10">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Starter Code */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Starter Code</Label>
+              <div className="flex items-center gap-2">
+                <Select value={starterLanguage} onValueChange={setStarterLanguage}>
+                  <SelectTrigger className={`w-36 ${fieldClass}`}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {LANGUAGES.map((lang) => (
+                      <SelectItem key={lang} value={lang} className="capitalize">{lang}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!readOnly && (
+                  <Button type="button" size="sm" variant="ghost" onClick={fillStarterCode} className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/10">
+                    Generate from signature
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Textarea
+              value={draft.starterCode[starterLanguage] || ""}
+              placeholder="Leave empty to generate starter code from the signature"
+              onChange={(e) => update("starterCode", { ...draft.starterCode, [starterLanguage]: e.target.value })}
+              rows={8}
+              className={`font-mono text-xs ${fieldClass}`}
+            />
+          </div>
+        </fieldset>
+
+        {!readOnly && (
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="ghost" onClick={onBack} className="text-white/70 hover:text-white hover:bg-white/10">Cancel</Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-blue-600 hover:bg-blue-700 text-white">
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {problem ? "Save Changes" : "Create Problem"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
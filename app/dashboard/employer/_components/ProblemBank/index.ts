@@ -0,0 +1,2 @@
+export { ProblemBank } from './ProblemBank';
+export { ProblemEditor } from './ProblemEditor';
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail, Send, Trash2, UserCog, X } from "lucide-react";
+import { toast } from "sonner";
+import { useOrganization } from "../../hooks";
+import {
+  inviteOrganizationMember,
+  removeOrganizationMember,
+  revokeOrganizationInvitation,
+  updateOrganizationMemberRole,
+} from "../../actions";
+import type { OrganizationRole } from "@/models/organization.model";
+
+const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: "Manages the company profile and the team",
+  recruiter: "Creates jobs and assessments and moves candidates between rounds",
+  interviewer: "Views jobs, candidates and round results",
+};
+
+const selectClass = "bg-white/5 border-white/10 text-white";
+
+export function Team() {
+  const { organization, loading, error, refetch } = useOrganization();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("recruiter");
+  const [busy, setBusy] = useState(false);
+
+  const isOwner = organization?.currentUserRole === "owner";
+
+  const runAction = async (action: () => Promise<{ success: boolean; message: string; error?: string }>) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        toast.success(result.message);
+        refetch();
+      } else {
+        toast.error(result.error || result.message);
+      }
+      return result.success;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    const sent = await runAction(() => inviteOrganizationMember(email, inviteRole));
+    if (sent) setEmail("");
+  };
+
+  const handleRemove = (userId: string, name: string) => {
+    if (!window.confirm(`Remove ${name} from the team?`)) return;
+    runAction(() => removeOrganizationMember(userId));
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 lg:space-y-8 mt-16">
+      {/* Header */}
+      <div className="sticky top-0 z-30 bg-gradient-to-br from-[#0A0A18]/90 to-[#0D0D20]/90 backdrop-blur-xl border-b border-white/10 pb-4 pt-8 sm:pt-6 px-4 sm:px-6 lg:px-8 xl:px-12">
+        <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2 sm:mb-3">
+          Team
+        </h1>
+        <p className="text-white/60 mt-1">
+          {organization ? `Members of ${organization.name}` : "People who hire with you"}
+        </p>
+      </div>
+
+      <div className="px-4 sm:px-6 lg:px-8 xl:px-12 space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && !organization ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full bg-white/10" />
+            ))}
+          </div>
+        ) : organization && (
+          <>
+            {isOwner && (
+              <Card className="bg-white/5 border-white/10">
+                <CardHeader>
+                  <CardTitle className="text-white text-lg">Invite a member</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="colleague@company.com"
+                      className="sm:max-w-sm bg-white/5 border-white/10 text-white placeholder:text-white/50"
+                    />
+                    <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as OrganizationRole)}>
+                      <SelectTrigger className={`sm:w-40 ${selectClass}`}><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="recruiter">Recruiter</SelectItem>
+                        <SelectItem value="interviewer">Interviewer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      disabled={busy || !email.trim()}
+                      onClick={handleInvite}
+                      className="bg-purple-500 text-white font-semibold hover:bg-purple-700"
+                    >
+                      <Send className="w-4 h-4 mr-2" /> Send invitation
+                    </Button>
+                  </div>
+                  <p className="text-xs text-white/50">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="bg-white/5 border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white text-lg">Members</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 divide-y divide-white/10">
+                {organization.members.map((member) => (
+                  <div key={member.userId} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 text-white font-medium">
+                        <span className="truncate">{member.name}</span>
+                        {member.isCurrentUser && <Badge className="bg-white/10 text-white/70">You</Badge>}
+                      </div>
+                      <div className="text-xs text-white/60 mt-1">
+                        {member.email} · joined {new Date(member.joinedAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {isOwner ? (
+                        <Select
+                          value={member.role}
+                          disabled={busy}
+                          onValueChange={(value) =>
+                            runAction(() => updateOrganizationMemberRole(member.userId, value as OrganizationRole))
+                          }
+                        >
+                          <SelectTrigger className={`w-36 ${selectClass}`}><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="owner">Owner</SelectItem>
+                            <SelectItem value="recruiter">Recruiter</SelectItem>
+                            <SelectItem value="interviewer">Interviewer</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline" className="capitalize text-white/80 border-white/20">{member.role}</Badge>
+                      )}
+                      {isOwner && !member.isCurrentUser && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busy}
+                          onClick={() => handleRemove(member.userId, member.name)}
+                          className="text-red-400 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {isOwner && (
+              <Card className="bg-white/5 border-white/10">
+                <CardHeader>
+                  <CardTitle className="text-white text-lg">Pending invitations</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0 divide-y divide-white/10">
+                  {organization.invitations.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-8">
+                      <Mail className="w-10 h-10 text-white/20 mb-2" />
+                      <p className="text-white/60 text-sm">No pending invitations.</p>
+                    </div>
+                  ) : organization.invitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 text-white font-medium">
+                          <span className="truncate">{invitation.email}</span>
+                          <Badge variant="outline" className="capitalize text-white/80 border-white/20">{invitation.role}</Badge>
+                          {invitation.expired && <Badge className="bg-red-500/20 text-red-300">Expired</Badge>}
+                        </div>
+                        <div className="text-xs text-white/60 mt-1">
+                          {invitation.expired ? "Expired" : "Expires"} {new Date(invitation.expiresAt).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        {invitation.expired && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={busy}
+                            onClick={() => runAction(() => inviteOrganizationMember(invitation.email, invitation.role))}
+                            className="text-white/70 hover:text-white hover:bg-white/10"
+                          >
+                            <Send className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busy}
+                          onClick={() => runAction(() => revokeOrganizationInvitation(invitation.id))}
+                          className="text-red-400 hover:bg-red-500/10"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {!isOwner && (
+              <p className="flex items-center gap-2 text-sm text-white/50">
+                <UserCog className="w-4 h-4" />
+                You are {organization.currentUserRole === "interviewer" ? "an" : "a"} {organization.currentUserRole}: {ROLE_DESCRIPTIONS[organization.currentUserRole].toLowerCase()}. Owners manage the team.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { Team } from './Team';
@@ -19,6 +19,8 @@ import {
   Users,
   Briefcase,
   ClipboardCheck,
+  Code2,
+  UserCog,
 } from "lucide-react";
 
 const items = [
@@ -26,8 +28,10 @@ const items = [
   { label: "Create Job", action: "create-job", icon: Plus, type: "action" },
   { label: "Add Assessment", action: "add-assessment", icon: FileText, type: "action" },
   { label: "My Openings", action: "my-openings", icon: Briefcase, type: "action" },
+  { label: "Problem Bank", action: "problem-bank", icon: Code2, type: "action" },
   { label: "Manage Candidates", action: "manage-candidates", icon: Users, type: "action" },
   { label: "Candidate Evaluation", action: "candidate-evaluation", icon: ClipboardCheck, type: "action" },
+  { label: "Team", action: "team", icon: UserCog, type: "action" },
 ];
 
 // Export navigation items (excluding action items) so TopNav can render them inside the mobile sheet
@@ -37,10 +37,32 @@ export {
   createAptitudeRound,
   updateAptitudeRound,
   fetchAptitudeById,
-  generateAptitudeQuestionIds,
+  importAptitudeQuestions,
+  fetchAptitudeQuestionCounts,
 } from './actions/aptitude-actions';
 
-export type { Aptitude } from './actions/aptitude-actions';
+export type {
+  Aptitude,
+  AptitudeQuestionImportResult,
+  AptitudeQuestionCounts,
+} from './actions/aptitude-actions';
+
+// Coding problem bank actions
+export {
+  fetchProblemBank,
+  fetchBankProblem,
+  createBankProblem,
+  updateBankProblem,
+  deleteBankProblem,
+  importBankProblems,
+  exportBankProblems,
+} from './actions/coding-problem-actions';
+
+export type {
+  ProblemBankItem,
+  ProblemBankFilters,
+  ProblemBankImportResult,
+} from './actions/coding-problem-actions';
 
 // Technical Interview-related actions
 export {
@@ -57,6 +79,7 @@ export {
   fetchCandidatesForJob,
   fetchRoundInfo,
   updateCandidatesForRound,
+  extendRoundWindow,
 } from './actions/manageCandidates-actions';
 
 export type {
@@ -79,3 +102,21 @@ export type {
   JobUpdateData,
   AssessmentUpdateData,
 } from './actions/job-management-actions';
+
+// Organization and team actions
+export {
+  fetchOrganization,
+  inviteOrganizationMember,
+  revokeOrganizationInvitation,
+  updateOrganizationMemberRole,
+  removeOrganizationMember,
+  fetchInvitation,
+  acceptInvitation,
+} from './actions/organization-actions';
+
+export type {
+  OrganizationDetails,
+  OrganizationMemberInfo,
+  OrganizationInvitationInfo,
+  InvitationPreview,
+} from './actions/organization-actions';
@@ -10,28 +10,33 @@ import {
   logSuccess,
   type ActionResponse 
 } from '@/utils/action-helpers';
+import { assertRoundInOrganization, requireOrganization } from '@/lib/organization/membership';
+import {
+  countQuestionsByTopic,
+  ensureQuestionBankSeeded,
+  importQuestions,
+  parseQuestionFile,
+  type AptitudeQuestionInput
+} from '@/lib/aptitude/questionBank';
+import type { AptitudeDifficulty, AptitudeTopic } from '@/models/aptitudeQuestion.model';
 
 // Export Aptitude type for use in forms
 export type { Aptitude };
 
-// Utility to generate N unique random numbers between 1 and 31900
-function generateUniqueRandomNumbers(count: number, min: number = 1, max: number = 31900): number[] {
-  if (count > (max - min + 1)) {
-    throw new Error(`Cannot generate ${count} unique numbers in range ${min}-${max}`);
-  }
-  const numbers = new Set<number>();
-  while (numbers.size < count) {
-    const randomNum = Math.floor(Math.random() * (max - min + 1)) + min;
-    numbers.add(randomNum);
-  }
-  return Array.from(numbers);
+export interface AptitudeQuestionImportResult {
+  imported: number;
+  errors: string[];
 }
 
+export type AptitudeQuestionCounts = Record<AptitudeTopic, Record<AptitudeDifficulty, number> & { total: number }>;
+
 // Create aptitude round separately
 export async function createAptitudeRound(aptitudeData: Omit<Aptitude, keyof Document | 'createdAt' | 'updatedAt'>): Promise<ActionResponse<Aptitude>> {
   return safeAction(async () => {
+    const { organizationId } = await requireOrganization('recruiter');
+
     return await withDatabase(async () => {
-      const newAptitude = new AptitudeModel(aptitudeData);
+      const newAptitude = new AptitudeModel({ ...aptitudeData, organization: organizationId });
       const savedAptitude = await newAptitude.save();
 
       const aptitudePlain = JSON.parse(JSON.stringify(savedAptitude));
@@ -49,10 +54,19 @@ export async function updateAptitudeRound(
   updateData: Partial<Omit<Aptitude, keyof Document | 'createdAt' | 'updatedAt'>>
 ): Promise<ActionResponse<Aptitude>> {
   return safeAction(async () => {
+    const { organizationId } = await requireOrganization('recruiter');
+
     return await withDatabase(async () => {
+      await assertRoundInOrganization('aptitude', aptitudeId, organizationId);
+
+      // The owning organization and assessment link are set by the server
+      const editableData = { ...updateData };
+      delete editableData.organization;
+      delete editableData.assessmentId;
+
       const updatedAptitude = await AptitudeModel.findByIdAndUpdate(
         aptitudeId,
-        updateData,
+        editableData,
         { new: true, runValidators: true }
       );
 
@@ -72,7 +86,11 @@ export async function updateAptitudeRound(
 // Fetch aptitude round by ID
 export async function fetchAptitudeById(aptitudeId: string): Promise<ActionResponse<Aptitude>> {
   return safeAction(async () => {
+    const { organizationId } = await requireOrganization('interviewer');
+
     return await withDatabase(async () => {
+      await assertRoundInOrganization('aptitude', aptitudeId, organizationId);
+
       const aptitude = await AptitudeModel.findById(aptitudeId).lean();
 
       if (!aptitude) {
@@ -87,7 +105,42 @@ export async function fetchAptitudeById(aptitudeId: string): Promise<ActionRespo
   }, "Failed to fetch aptitude round");
 }
 
-// Generate question IDs for aptitude
-export async function generateAptitudeQuestionIds(totalQuestions: number): Promise<number[]> {
-  return generateUniqueRandomNumbers(totalQuestions);
+// Import questions into the organization's aptitude question bank from a CSV or JSON file
+export async function importAptitudeQuestions(
+  content: string,
+  format: 'csv' | 'json'
+): Promise<ActionResponse<AptitudeQuestionImportResult>> {
+  return safeAction(async () => {
+    const { userId: employerId, organizationId } = await requireOrganization('recruiter');
+
+    let questions: AptitudeQuestionInput[];
+    try {
+      questions = parseQuestionFile(content, format);
+    } catch (error) {
+      return createErrorResponse(error instanceof Error ? error.message : 'Import file could not be read');
+    }
+    if (questions.length === 0) {
+      return createErrorResponse('No questions found in import file');
+    }
+
+    return await withDatabase(async () => {
+      await ensureQuestionBankSeeded();
+      const result = await importQuestions(employerId, organizationId, questions);
+
+      logSuccess("Aptitude questions imported", result.imported);
+      return createSuccessResponse(`Imported ${result.imported} of ${questions.length} questions`, result);
+    }, "Failed to connect to database");
+  }, "Failed to import questions");
+}
+
+// Count the questions available to the organization per topic and difficulty
+export async function fetchAptitudeQuestionCounts(): Promise<ActionResponse<AptitudeQuestionCounts>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('interviewer');
+
+    return await withDatabase(async () => {
+      const counts = await countQuestionsByTopic(organizationId);
+      return createSuccessResponse("Question bank counts fetched successfully", counts);
+    }, "Failed to connect to database");
+  }, "Failed to fetch question bank counts");
 }
@@ -3,6 +3,7 @@
 import AssessmentModel, { Assessment } from '@/models/assesment.model';
 import AptitudeModel, { Aptitude } from '@/models/aptitude.model';
 import CodingModel from '@/models/coding.model';
+import CodingProblemModel from '@/models/codingProblem.model';
 import TechnicalInterviewModel from '@/models/technicalInterview.model';
 import HRInterviewModel from '@/models/hrInterview.model';
 import JobOpportunityModel from '@/models/jobOpportunity.model';
@@ -16,8 +17,16 @@ import {
   logSuccess,
   type ActionResponse 
 } from '@/utils/action-helpers';
-import { requireAuth } from '@/utils/auth-helpers';
-import { generateAptitudeQuestionIds } from './aptitude-actions';
+import { requireOrganization } from '@/lib/organization/membership';
+import {
+  APTITUDE_TOPICS,
+  DEFAULT_DIFFICULTY_MIX,
+  TOPIC_LABELS,
+  drawQuestionsFromPool,
+  findUsedQuestionIds
+} from '@/lib/aptitude/questionBank';
+import { drawProblemsFromPool, visibleToOrganization } from '@/lib/code-execution/problemBank';
+import { isValidTimezone } from '@/lib/assessment/schedule';
 
 // Create a clean type for assessment creation
 export type AssessmentCreationData = Omit<Assessment, keyof Document | 'createdAt' | 'updatedAt'>;
@@ -43,27 +52,27 @@ export interface JobForAssessment {
 // Fetch job postings for assessment selection
 export async function fetchJobPostingsForAssessment(): Promise<ActionResponse<JobForAssessment[]>> {
   return safeAction(async () => {
-    // Get authenticated employer ID - throws if not authenticated
-    const employerId = await requireAuth();
+    // Get the authenticated employer's organization - throws if not authenticated
+    const { organizationId } = await requireOrganization('recruiter');
     
     return await withDatabase(async () => {
-      // Fetch only jobs created by this employer
-      // Security: Filter ensures employer can only see their own jobs
+      // Fetch only jobs of the employer's organization
+      // Security: Filter ensures employer can only see their organization's jobs
       const jobs = await JobOpportunityModel.find({ 
-        employer: employerId
+        organization: organizationId
       })
-        .select('title department position employmentType seniority locationType location openings createdAt employer')
+        .select('title department position employmentType seniority locationType location openings createdAt organization')
         .sort({ createdAt: -1 })
         .lean();
 
-      // Double-check ownership (defense in depth) - filters out any jobs that might not have employer set
+      // Double-check ownership (defense in depth) - filters out any jobs that might not have organization set
       const verifiedJobs = jobs.filter(job => 
-        (job as any).employer?.toString() === employerId
+        organizationId.equals(job.organization)
       );
 
       // Get all job IDs that already have assessments
       const jobIdsWithAssessments = await AssessmentModel.find({
-        employer: employerId,
+        organization: organizationId,
         jobOpportunity: { $exists: true, $ne: null }
       })
         .select('jobOpportunity')
@@ -92,7 +101,7 @@ export async function fetchJobPostingsForAssessment(): Promise<ActionResponse<Jo
         status: 'active' // Add status logic if needed
       }));
 
-      logSuccess("fetchJobPostingsForAssessment", `Fetched ${formattedJobs.length} jobs without assessments for employer ${employerId}`);
+      logSuccess("fetchJobPostingsForAssessment", `Fetched ${formattedJobs.length} jobs without assessments for organization ${organizationId}`);
       return createSuccessResponse("Jobs fetched", formattedJobs);
     }, "Failed to connect to database");
   }, "Failed to fetch job postings for assessment");
@@ -102,31 +111,36 @@ export async function fetchJobPostingsForAssessment(): Promise<ActionResponse<Jo
 // HELPER FUNCTIONS FOR ASSESSMENT CREATION
 // ========================================
 
-function convertIdsToObjectIds(assessmentData: AssessmentCreationData, employerId: string): any {
+function convertIdsToObjectIds(
+  assessmentData: AssessmentCreationData,
+  employerId: string,
+  organizationId: mongoose.Types.ObjectId
+): any {
   return {
     ...assessmentData,
     jobOpportunity: assessmentData.jobOpportunity 
       ? new mongoose.Types.ObjectId(assessmentData.jobOpportunity as unknown as string) 
       : undefined,
-    // SECURITY: Always use authenticated employerId, never trust client input
-    employer: new mongoose.Types.ObjectId(employerId)
+    // SECURITY: Always use authenticated employerId and organization, never trust client input
+    employer: new mongoose.Types.ObjectId(employerId),
+    organization: organizationId
   };
 }
 
 /**
- * Verifies that a job belongs to the authenticated employer
+ * Verifies that a job belongs to the authenticated employer's organization
  * Single responsibility: Job ownership verification
- * @throws Error if job doesn't exist or doesn't belong to employer
+ * @throws Error if job doesn't exist or doesn't belong to the organization
  */
-async function verifyJobOwnership(jobId: mongoose.Types.ObjectId, employerId: string): Promise<void> {
-  const job = await JobOpportunityModel.findById(jobId).select('employer').lean();
+async function verifyJobOwnership(jobId: mongoose.Types.ObjectId, organizationId: mongoose.Types.ObjectId): Promise<void> {
+  const job = await JobOpportunityModel.findById(jobId).select('organization').lean();
   
   if (!job) {
     throw new Error('Job opportunity not found');
   }
   
-  if ((job as any).employer?.toString() !== employerId) {
-    throw new Error('Unauthorized - Job opportunity does not belong to this employer');
+  if (!organizationId.equals(job.organization)) {
+    throw new Error('Unauthorized - Job opportunity does not belong to your organization');
   }
 }
 
@@ -142,19 +156,67 @@ function prepareAptitudeData(aptitudeData: any): any {
   };
 }
 
+/**
+ * Randomly reorders IDs (Fisher-Yates)
+ */
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Draws the round's questions from the question bank, one section per topic in the question pool
+ * Single responsibility: Aptitude question selection
+ */
+async function drawAptitudeQuestions(preparedData: any, organizationId: mongoose.Types.ObjectId): Promise<void> {
+  const drawn = await drawQuestionsFromPool(
+    organizationId,
+    preparedData.questionPool || {},
+    preparedData.difficultyMix || DEFAULT_DIFFICULTY_MIX,
+    {
+      expiredQuestionIds: preparedData.expiredQuestionIds,
+      usedQuestionIds: await findUsedQuestionIds(organizationId)
+    }
+  );
+
+  // Sections entered in the form are matched to topics by topic key, falling back to form order
+  const formSections: any[] = preparedData.sections || [];
+  preparedData.sections = APTITUDE_TOPICS
+    .map((topic, index) => {
+      const section = formSections.find(s => s.topic === topic) || formSections[index] || {};
+      const questionIds = preparedData.randomizeQuestions ? shuffle(drawn[topic]) : drawn[topic];
+      return {
+        name: section.name || TOPIC_LABELS[topic],
+        description: section.description,
+        timeLimit: section.timeLimit,
+        topic,
+        questionIds
+      };
+    })
+    .filter(section => section.questionIds.length > 0);
+
+  preparedData.questionIds = preparedData.sections.flatMap((section: any) => section.questionIds);
+  preparedData.totalQuestions = preparedData.questionIds.length;
+}
+
 /**
  * Creates an aptitude round and returns its ID
  * Single responsibility: Aptitude round creation
  */
-async function createAptitudeRoundForAssessment(aptitudeData: any): Promise<mongoose.Types.ObjectId> {
+async function createAptitudeRoundForAssessment(aptitudeData: any, organizationId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId> {
   // Prepare aptitude data with defaults
   const preparedData = prepareAptitudeData(aptitudeData);
   
-  // Generate question IDs
-  preparedData.questionIds = await generateAptitudeQuestionIds(preparedData.totalQuestions);
+  // Draw questions from the question bank
+  await drawAptitudeQuestions(preparedData, organizationId);
   
   // Note: assessmentId will be set to null initially and updated after assessment creation
   preparedData.assessmentId = null;
+  preparedData.organization = organizationId;
   
   // Create and save aptitude document
   const newAptitude = new AptitudeModel(preparedData);
@@ -167,7 +229,24 @@ async function createAptitudeRoundForAssessment(aptitudeData: any): Promise<mong
  * Creates a coding round and returns its ID
  * Single responsibility: Coding round creation
  */
-async function createCodingRoundForAssessment(codingData: any): Promise<mongoose.Types.ObjectId> {
+async function createCodingRoundForAssessment(codingData: any, organizationId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId> {
+  const problemTags: string[] = codingData.problemTags || [];
+
+  // Manually selected problems are used as-is; otherwise the problem pool is drawn from the bank
+  const problemIds: number[] = codingData.manuallyAddProblems
+    ? (codingData.selectedProblemIds || [])
+    : await drawProblemsFromPool(organizationId, codingData.problemPool || { easy: 0, medium: 0, hard: 0 }, problemTags);
+
+  if (codingData.manuallyAddProblems) {
+    const available = await CodingProblemModel.countDocuments({
+      problemId: { $in: problemIds },
+      ...visibleToOrganization(organizationId)
+    });
+    if (available !== problemIds.length) {
+      throw new Error('Some selected coding problems are not available in your problem bank');
+    }
+  }
+
   const prepared = {
     totalProblems: codingData.totalProblems,
     duration: codingData.duration,
@@ -185,8 +264,9 @@ async function createCodingRoundForAssessment(codingData: any): Promise<mongoose
     compilerTimeout: codingData.compilerTimeout,
     memoryLimit: codingData.memoryLimit,
     assessmentId: null,
-    // If manually adding problems, use the selected problem IDs, otherwise empty array for randomization
-    problemIds: codingData.manuallyAddProblems ? (codingData.selectedProblemIds || []) : [],
+    organization: organizationId,
+    problemIds,
+    problemTags,
     expiredProblemIds: [],
     sections: [],
     status: 'inactive'
@@ -199,10 +279,11 @@ async function createCodingRoundForAssessment(codingData: any): Promise<mongoose
 /**
  * Creates a technical interview round and returns its ID
  */
-async function createTechnicalInterviewForAssessment(techData: any): Promise<mongoose.Types.ObjectId> {
+async function createTechnicalInterviewForAssessment(techData: any, organizationId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId> {
   const prepared = {
     ...techData,
     assessmentId: null,
+    organization: organizationId,
     status: techData?.status || 'inactive'
   };
   const doc = new TechnicalInterviewModel(prepared);
@@ -213,10 +294,11 @@ async function createTechnicalInterviewForAssessment(techData: any): Promise<mon
 /**
  * Creates an HR interview round and returns its ID
  */
-async function createHrInterviewForAssessment(hrData: any): Promise<mongoose.Types.ObjectId> {
+async function createHrInterviewForAssessment(hrData: any, organizationId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId> {
   const prepared = {
     ...hrData,
     assessmentId: null,
+    organization: organizationId,
     status: hrData?.status || 'inactive'
   };
   const doc = new HRInterviewModel(prepared);
@@ -275,6 +357,42 @@ async function linkAptitudeToAssessment(
   );
 }
 
+// Assessment settings an employer can change after creation; ownership, rounds and counters are left alone
+const EDITABLE_ASSESSMENT_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'overallPassingCriteria',
+  'progressionRules',
+  'applicationDeadline',
+  'assessmentStartDate',
+  'assessmentEndDate',
+  'timezone',
+  'sendReminders',
+  'reminderTimings',
+  'publishResults',
+  'allowMultipleAttempts',
+  'maxAttempts',
+  'ipRestrictions',
+  'browserRestrictions',
+  'instructions',
+  'candidateInstructions'
+] as const satisfies readonly (keyof AssessmentCreationData)[];
+
+/**
+ * Copies only the editable assessment fields from client input
+ * Single responsibility: Update whitelisting
+ */
+function pickEditableAssessmentFields(updateData: Partial<AssessmentCreationData>): Partial<AssessmentCreationData> {
+  const picked: Record<string, unknown> = {};
+  for (const field of EDITABLE_ASSESSMENT_FIELDS) {
+    if (updateData[field] !== undefined) {
+      picked[field] = updateData[field];
+    }
+  }
+  return picked as Partial<AssessmentCreationData>;
+}
+
 /**
  * Converts Mongoose document to plain object, removing internal fields
  * Single responsibility: Document serialization
@@ -301,20 +419,28 @@ function toPlainAssessment(assessment: any): any {
  */
 export async function createAssessment(assessmentData: AssessmentCreationData): Promise<ActionResponse<Assessment>> {
   return safeAction(async () => {
-    // Step 1: Authenticate and get employer ID
-    const employerId = await requireAuth();
+    // Step 1: Authenticate and get employer ID and organization
+    const { userId: employerId, organizationId } = await requireOrganization('recruiter');
     
     return await withDatabase(async () => {
       // Step 2: Verify job ownership if jobOpportunity is provided (SECURITY CHECK)
       if (assessmentData.jobOpportunity) {
         await verifyJobOwnership(
           new mongoose.Types.ObjectId(assessmentData.jobOpportunity as unknown as string),
-          employerId
+          organizationId
         );
       }
       
-      // Step 3: Convert string IDs to ObjectIds (use authenticated employerId)
-      const processedData = convertIdsToObjectIds(assessmentData, employerId);
+      if (assessmentData.timezone && !isValidTimezone(assessmentData.timezone)) {
+        return createErrorResponse('Unknown time zone for the assessment schedule');
+      }
+
+      if (assessmentData.reminderTimings?.some(hours => !(hours > 0))) {
+        return createErrorResponse('Reminder timings must be a positive number of hours');
+      }
+      
+      // Step 3: Convert string IDs to ObjectIds (use authenticated employerId and organization)
+      const processedData = convertIdsToObjectIds(assessmentData, employerId, organizationId);
       
       // Step 4: Handle round creations (aptitude/coding) if enabled
       let aptitudeId: mongoose.Types.ObjectId | undefined;
@@ -324,25 +450,25 @@ export async function createAssessment(assessmentData: AssessmentCreationData):
       
       if (assessmentData.toConductRounds?.aptitude && (assessmentData as any).aptitude) {
         // Support fullData pattern for aptitude (already sanitized on client)
-        aptitudeId = await createAptitudeRoundForAssessment((assessmentData as any).aptitude);
+        aptitudeId = await createAptitudeRoundForAssessment((assessmentData as any).aptitude, organizationId);
         processedData.aptitudeId = aptitudeId;
       }
 
       // Accept coding fullData passed from client flow
       if ((assessmentData as any).coding && assessmentData.toConductRounds?.coding) {
-        codingId = await createCodingRoundForAssessment((assessmentData as any).coding);
+        codingId = await createCodingRoundForAssessment((assessmentData as any).coding, organizationId);
         (processedData as any).codingRoundId = codingId;
       }
 
       // Create technical interview when provided via fullData
       if ((assessmentData as any).technicalInterview && assessmentData.toConductRounds?.technicalInterview) {
-        technicalId = await createTechnicalInterviewForAssessment((assessmentData as any).technicalInterview);
+        technicalId = await createTechnicalInterviewForAssessment((assessmentData as any).technicalInterview, organizationId);
         (processedData as any).technicalInterviewId = technicalId;
       }
 
       // Create HR interview when provided via fullData
       if ((assessmentData as any).hrInterview && assessmentData.toConductRounds?.hrInterview) {
-        hrId = await createHrInterviewForAssessment((assessmentData as any).hrInterview);
+        hrId = await createHrInterviewForAssessment((assessmentData as any).hrInterview, organizationId);
         (processedData as any).hrInterviewId = hrId;
       }
       
@@ -392,14 +518,14 @@ export async function createAssessment(assessmentData: AssessmentCreationData):
 // Fetch assessments for a specific job
 export async function fetchAssessmentsForJob(jobId: string): Promise<ActionResponse<Assessment[]>> {
   return safeAction(async () => {
-    // Get authenticated employer ID
-    const employerId = await requireAuth();
+    // Get the authenticated employer's organization
+    const { organizationId } = await requireOrganization('interviewer');
     
     return await withDatabase(async () => {
-      // Filter by employer to ensure data isolation
+      // Filter by organization to ensure data isolation
       const assessments = await AssessmentModel.find({ 
         jobOpportunity: jobId,
-        employer: employerId 
+        organization: organizationId 
       })
         .populate('aptitudeId') // Populate the aptitude data
         .sort({ createdAt: -1 })
@@ -418,8 +544,8 @@ export async function fetchAssessmentsForJob(jobId: string): Promise<ActionRespo
 // Fetch single assessment with aptitude data
 export async function fetchAssessmentById(assessmentId: string): Promise<ActionResponse<Assessment>> {
   return safeAction(async () => {
-    // Get authenticated employer ID
-    const employerId = await requireAuth();
+    // Get the authenticated employer's organization
+    const { organizationId } = await requireOrganization('interviewer');
     
     return await withDatabase(async () => {
       const assessment = await AssessmentModel.findById(assessmentId)
@@ -431,7 +557,7 @@ export async function fetchAssessmentById(assessmentId: string): Promise<ActionR
       }
 
       // Verify ownership
-      if ((assessment as any).employer?.toString() !== employerId) {
+      if (!organizationId.equals(assessment.organization)) {
         return createErrorResponse("Unauthorized - You don't have access to this assessment");
       }
 
@@ -451,11 +577,11 @@ export async function updateAssessment(
   updateData: Partial<AssessmentCreationData>
 ): Promise<ActionResponse<Assessment>> {
   return safeAction(async () => {
-    // Get authenticated employer ID
-    const employerId = await requireAuth();
+    // Get the authenticated employer's organization
+    const { organizationId } = await requireOrganization('recruiter');
     
     return await withDatabase(async () => {
-      // First check if assessment exists and belongs to this employer
+      // First check if assessment exists and belongs to the employer's organization
       const existingAssessment = await AssessmentModel.findById(assessmentId).lean();
       
       if (!existingAssessment) {
@@ -463,13 +589,18 @@ export async function updateAssessment(
       }
       
       // Verify ownership before updating
-      if ((existingAssessment as any).employer?.toString() !== employerId) {
+      if (!organizationId.equals(existingAssessment.organization)) {
         return createErrorResponse("Unauthorized - You don't have access to this assessment");
       }
+
+      const editableData = pickEditableAssessmentFields(updateData);
+      if (editableData.timezone && !isValidTimezone(editableData.timezone)) {
+        return createErrorResponse('Unknown time zone for the assessment schedule');
+      }
       
       const updatedAssessment = await AssessmentModel.findByIdAndUpdate(
         assessmentId,
-        updateData,
+        { $set: editableData },
         { new: true, runValidators: true }
       );
 
@@ -489,12 +620,12 @@ export async function updateAssessment(
 // Fetch single job details for assessment creation
 export async function fetchJobForAssessment(jobId: string): Promise<ActionResponse<JobForAssessment>> {
   return safeAction(async () => {
-    // Get authenticated employer ID
-    const employerId = await requireAuth();
+    // Get the authenticated employer's organization
+    const { organizationId } = await requireOrganization('recruiter');
     
     return await withDatabase(async () => {
       const job = await JobOpportunityModel.findById(jobId)
-        .select('title department position employmentType seniority locationType location openings createdAt employer')
+        .select('title department position employmentType seniority locationType location openings createdAt organization')
         .lean();
 
       if (!job) {
@@ -502,7 +633,7 @@ export async function fetchJobForAssessment(jobId: string): Promise<ActionRespon
       }
 
       // Verify ownership
-      if ((job as any).employer?.toString() !== employerId) {
+      if (!organizationId.equals(job.organization)) {
         return createErrorResponse("Unauthorized - You don't have access to this job");
       }
 
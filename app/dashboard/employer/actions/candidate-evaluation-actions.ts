@@ -7,12 +7,31 @@ import {
   withDatabase,
   type ActionResponse 
 } from '@/utils/action-helpers';
-import { requireAuth } from '@/utils/auth-helpers';
+import { requireOrganization } from '@/lib/organization/membership';
 import JobOpportunityModel from '@/models/jobOpportunity.model';
 import ApplicationModel from '@/models/application.model';
 import CandidateProfileModel from '@/models/candidateProfile.model';
 import CandidateModel from '@/models/candidate.model';
 import CodingEvaluationModel from '@/models/codingEvaluation.model';
+import AssessmentModel from '@/models/assesment.model';
+import TestResultModel from '@/models/aptitudeEvaluation.model';
+import TechnicalInterviewEvaluationModel from '@/models/technicalInterviewEvaluation.model';
+import HRInterviewEvaluationModel from '@/models/hrInterviewEvaluation.model';
+import AptitudeModel from '@/models/aptitude.model';
+import CodingModel from '@/models/coding.model';
+import TechnicalInterviewModel from '@/models/technicalInterview.model';
+import HRInterviewModel from '@/models/hrInterview.model';
+import { calculateInterviewScore, reviseAssessmentResult } from '@/lib/assessment/overallResult';
+import { notifyRejected, notifySelected } from '@/lib/notifications/notify';
+import { loadProctoringLog, type ProctoringLog } from '@/lib/proctoring/log';
+import { faceMatchThreshold } from '@/lib/proctoring/identity';
+import {
+  loadProctoringTimeline,
+  recordProctoringReview,
+  type ProctoringDecision,
+  type ProctoringTimeline,
+  type ReviewedEvaluation
+} from '@/lib/proctoring/review';
 import mongoose from 'mongoose';
 
 export interface JobOpportunityBasic {
@@ -26,6 +45,7 @@ export interface JobOpportunityBasic {
 
 export interface CandidateEvaluation {
   id: string;
+  applicationId: string;
   name: string;
   email: string;
   profileImage?: string;
@@ -38,7 +58,7 @@ export interface CandidateEvaluation {
     hrInterview: 'pending' | 'shortlisted' | 'rejected' | 'completed';
   };
   appliedDate: string;
-  // Placeholder for scores - will be calculated from assessment results
+  // Round scores (0-100) of finished rounds; overallScore is set once the overall result is finalized
   overallScore?: number;
   aptitudeScore?: number;
   codingScore?: number;
@@ -65,6 +85,7 @@ export interface CandidateEvaluation {
       timestamp: Date;
       results?: any;
       passed?: boolean;
+      score?: number;
     }>;
     problemStatus: { [problemId: number]: 'solved' | 'attempted' | 'not-attempted' };
     timeLeft: number;
@@ -74,17 +95,251 @@ export interface CandidateEvaluation {
   };
 }
 
+export interface AptitudeEvaluationDetail {
+  status: 'completed' | 'incomplete' | 'terminated';
+  score: number;
+  percentage: number;
+  passed: boolean;
+  passingScore: number;
+  totalQuestions: number;
+  correctCount: number;
+  incorrectCount: number;
+  unattemptedCount: number;
+  timeTaken: number; // seconds
+  startTime: string;
+  submittedAt?: string;
+  sectionScores: {
+    name: string;
+    topic?: string;
+    totalQuestions: number;
+    correctCount: number;
+    incorrectCount: number;
+    unattemptedCount: number;
+    score: number;
+    percentage: number;
+    weightage: number;
+  }[];
+  warnings: Record<'tabSwitch' | 'fullscreen' | 'audio', { count: number; maxAllowed: number; exceeded: boolean }>;
+  terminatedDueToWarnings: boolean;
+  terminationReason?: string;
+  proctoringLog?: ProctoringLog;
+}
+
+// Proctoring of the coding round; scores are shown from the candidate's coding evaluation
+export interface CodingProctoringDetail {
+  warnings: AptitudeEvaluationDetail['warnings'];
+  terminatedDueToWarnings: boolean;
+  terminationReason?: string;
+  proctoringLog?: ProctoringLog;
+}
+
+export interface InterviewQuestionDetail {
+  id: string;
+  question: string;
+  category: 'technical' | 'non-technical';
+  difficulty?: string;
+  queueType: 'Q1' | 'Q2' | 'Q3';
+  askedAt?: string;
+  userAnswer?: string; // transcript of the candidate's answer
+  idealAnswer?: string;
+  sourceUrls: string[];
+  evaluation?: {
+    correctness: number;
+    reason?: string;
+  };
+}
+
+export interface InterviewEvaluationDetail {
+  status: string;
+  score: number;
+  verdict?: string;
+  aiSummary?: string;
+  startedAt: string;
+  endedAt?: string;
+  transcriptUrl?: string;
+  videoUrl?: string;
+  questions: InterviewQuestionDetail[];
+  violations: {
+    timestamp: string;
+    violationType: string;
+    mood?: string;
+    gesture?: string;
+    objects: string[];
+  }[];
+  screenCaptures: {
+    url: string;
+    capturedAt: string;
+  }[];
+}
+
+export interface IdentityVerificationDetail {
+  enrolledAt?: string;
+  // Unset when the enrolment was not compared with a profile photo
+  profilePhotoMatched?: boolean;
+  flags: {
+    round: keyof typeof ROUND_FIELDS;
+    severity: string;
+    message: string;
+    createdAt: string;
+  }[];
+}
+
+export interface CandidateRoundDetails {
+  aptitude?: AptitudeEvaluationDetail;
+  coding?: CodingProctoringDetail;
+  technicalInterview?: InterviewEvaluationDetail;
+  hrInterview?: InterviewEvaluationDetail;
+  identity?: IdentityVerificationDetail;
+}
+
+export interface CandidateDecisionResult {
+  applicationStatus: CandidateEvaluation['applicationStatus'];
+  rounds: CandidateEvaluation['rounds'];
+}
+
+export type ReviewRound = keyof typeof ROUND_FIELDS;
+
+export interface ProctoringReviewDetail extends ProctoringTimeline {
+  round: ReviewRound;
+  invalidation?: {
+    reason: string;
+    invalidatedAt: string;
+  };
+}
+
+export interface ProctoringReviewResult extends CandidateDecisionResult {
+  review: ProctoringReviewDetail;
+}
+
+const FINISHED_TEST_STATUSES = ['completed', 'terminated'];
+
+const ROUND_FIELDS = {
+  aptitude: 'aptitudeId',
+  coding: 'codingRoundId',
+  technicalInterview: 'technicalInterviewId',
+  hrInterview: 'hrInterviewId'
+} as const;
+
+const ROUND_MODELS: Record<keyof typeof ROUND_FIELDS, mongoose.Model<any>> = {
+  aptitude: AptitudeModel,
+  coding: CodingModel,
+  technicalInterview: TechnicalInterviewModel,
+  hrInterview: HRInterviewModel
+};
+
+// Evaluation documents of each round, newest first
+const EVALUATION_MODELS: Record<ReviewRound, { model: mongoose.Model<any>; sort: Record<string, 1 | -1> }> = {
+  aptitude: { model: TestResultModel, sort: { startTime: -1 } },
+  coding: { model: CodingEvaluationModel, sort: { _id: -1 } },
+  technicalInterview: { model: TechnicalInterviewEvaluationModel, sort: { startedAt: -1 } },
+  hrInterview: { model: HRInterviewEvaluationModel, sort: { startedAt: -1 } }
+};
+
+const PROCTORING_DECISIONS: ProctoringDecision[] = ['dismissed', 'confirmed'];
+
+const toIsoString = (date?: Date | null) => (date ? new Date(date).toISOString() : undefined);
+
+/**
+ * Loads an application, provided its job belongs to the employer's organization.
+ */
+async function findEmployerApplication(applicationId: string, organizationId: mongoose.Types.ObjectId) {
+  const application = await ApplicationModel.findById(applicationId).lean();
+  if (!application) return null;
+
+  const ownsJob = await JobOpportunityModel.exists({
+    _id: application.jobId,
+    organization: organizationId
+  });
+  return ownsJob ? application : null;
+}
+
+/**
+ * The assessment run for a job. When a job has several, the most recent one is used.
+ */
+async function findJobAssessment(jobId: mongoose.Types.ObjectId) {
+  return AssessmentModel.findOne({ jobOpportunity: jobId })
+    .sort({ createdAt: -1 })
+    .select('toConductRounds aptitudeId codingRoundId technicalInterviewId hrInterviewId')
+    .lean();
+}
+
+const askedTime = (question: { askedAt?: Date }) =>
+  question.askedAt ? new Date(question.askedAt).getTime() : Number.MAX_SAFE_INTEGER;
+
+function toIdentityVerificationDetail(
+  faceIdentity: { enrolledAt: Date; profilePhotoDistance?: number } | undefined,
+  evaluations: Record<keyof typeof ROUND_FIELDS, { flags?: { type: string; severity: string; message: string; createdAt: Date }[] } | null>
+): IdentityVerificationDetail {
+  const flags = (Object.keys(evaluations) as (keyof typeof ROUND_FIELDS)[])
+    .flatMap(round => (evaluations[round]?.flags || [])
+      .filter(flag => flag.type === 'identity')
+      .map(flag => ({
+        round,
+        severity: flag.severity,
+        message: flag.message,
+        createdAt: new Date(flag.createdAt).toISOString()
+      })))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const distance = faceIdentity?.profilePhotoDistance;
+  return {
+    enrolledAt: toIsoString(faceIdentity?.enrolledAt),
+    profilePhotoMatched: typeof distance === 'number' ? distance <= faceMatchThreshold() : undefined,
+    flags
+  };
+}
+
+function toInterviewEvaluationDetail(evaluation: any): InterviewEvaluationDetail {
+  return {
+    status: evaluation.status,
+    score: calculateInterviewScore(evaluation),
+    verdict: evaluation.verdict,
+    aiSummary: evaluation.aiSummary,
+    startedAt: new Date(evaluation.startedAt).toISOString(),
+    endedAt: toIsoString(evaluation.endedAt),
+    transcriptUrl: evaluation.transcriptUrl,
+    videoUrl: evaluation.videoUrl,
+    // Preprocessed questions the interview never reached are left out
+    questions: (evaluation.askedQuestions || [])
+      .filter((question: any) => question.askedAt || question.userAnswer)
+      .sort((a: any, b: any) => askedTime(a) - askedTime(b))
+      .map((question: any) => ({
+        id: question.id,
+        question: question.question,
+        category: question.category,
+        difficulty: question.difficulty,
+        queueType: question.queueType,
+        askedAt: toIsoString(question.askedAt),
+        userAnswer: question.userAnswer,
+        idealAnswer: question.answer,
+        sourceUrls: question.source_urls || [],
+        evaluation: typeof question.evaluation?.correctness === 'number'
+          ? { correctness: question.evaluation.correctness, reason: question.evaluation.reason }
+          : undefined
+      })),
+    violations: (evaluation.videoLogs || [])
+      .filter((log: any) => log.violationType)
+      .map((log: any) => ({
+        timestamp: new Date(log.timestamp).toISOString(),
+        violationType: log.violationType,
+        mood: log.mood,
+        gesture: log.gesture,
+        objects: log.objects || []
+      })),
+    screenCaptures: (evaluation.screenCaptures || []).map((capture: any) => ({
+      url: capture.url,
+      capturedAt: new Date(capture.capturedAt).toISOString()
+    }))
+  };
+}
+
 export async function fetchEmployerJobs(): Promise<ActionResponse<JobOpportunityBasic[]>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
-    
-    if (!employerId) {
-      return createErrorResponse('User not authenticated');
-    }
+    const { organizationId } = await requireOrganization();
 
     return await withDatabase(async () => {
       const jobs = await JobOpportunityModel.find({
-        employer: new mongoose.Types.ObjectId(employerId)
+        organization: organizationId
       })
         .select('_id title department position location employmentType')
         .sort({ createdAt: -1 })
@@ -106,11 +361,7 @@ export async function fetchEmployerJobs(): Promise<ActionResponse<JobOpportunity
 
 export async function fetchShortlistedCandidates(jobId?: string): Promise<ActionResponse<CandidateEvaluation[]>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
-    
-    if (!employerId) {
-      return createErrorResponse('User not authenticated');
-    }
+    const { organizationId } = await requireOrganization();
 
     return await withDatabase(async () => {
       // Build query based on jobId filter
@@ -136,20 +387,41 @@ export async function fetchShortlistedCandidates(jobId?: string): Promise<Action
       })
         .populate({
           path: 'jobId',
-          select: 'position employer',
-          match: { employer: new mongoose.Types.ObjectId(employerId) }
+          select: 'position organization',
+          match: { organization: organizationId }
         })
         .lean();
 
-      // Filter out applications where job doesn't belong to this employer
+      // Filter out applications where job doesn't belong to the employer's organization
       console.log("Applications" , applications);
       const validApplications = applications.filter(app => app.jobId);
 
       // Get unique candidate IDs
       const candidateIds = [...new Set(validApplications.map(app => app.candidateId))];
 
-      // Fetch candidate profiles, core candidate docs, and coding evaluations in parallel
-      const [candidateProfiles, candidateDocs, codingEvaluations] = await Promise.all([
+      // Assessments of the listed jobs, to look up the aptitude and interview round results
+      const jobIds = [...new Set(validApplications.map(app => String((app.jobId as any)._id)))];
+      const assessments = await AssessmentModel.find({ jobOpportunity: { $in: jobIds } })
+        .sort({ createdAt: -1 })
+        .select('jobOpportunity aptitudeId technicalInterviewId hrInterviewId')
+        .lean();
+      const assessmentMap = new Map<string, (typeof assessments)[number]>();
+      for (const assessment of assessments) {
+        const key = String(assessment.jobOpportunity);
+        if (!assessmentMap.has(key)) assessmentMap.set(key, assessment);
+      }
+      const roundIds = (field: 'aptitudeId' | 'technicalInterviewId' | 'hrInterviewId') =>
+        [...assessmentMap.values()].map(assessment => assessment[field]).filter(Boolean);
+
+      // Fetch candidate profiles, core candidate docs, and round evaluations in parallel
+      const [
+        candidateProfiles,
+        candidateDocs,
+        codingEvaluations,
+        testResults,
+        technicalEvaluations,
+        hrEvaluations
+      ] = await Promise.all([
         CandidateProfileModel.find({
           candidate: { $in: candidateIds }
         })
@@ -167,9 +439,51 @@ export async function fetchShortlistedCandidates(jobId?: string): Promise<Action
           candidateId: { $in: candidateIds },
           ...(jobId && jobId !== 'all' ? { jobId: new mongoose.Types.ObjectId(jobId) } : {})
         })
+          .lean(),
+        TestResultModel.find({
+          candidateId: { $in: candidateIds },
+          aptitudeId: { $in: roundIds('aptitudeId') },
+          status: { $in: FINISHED_TEST_STATUSES }
+        })
+          .sort({ submittedAt: 1 })
+          .select('candidateId aptitudeId percentage')
+          .lean(),
+        TechnicalInterviewEvaluationModel.find({
+          candidateId: { $in: candidateIds },
+          technicalInterviewId: { $in: roundIds('technicalInterviewId') },
+          status: 'completed'
+        })
+          .sort({ endedAt: 1 })
+          .select('candidateId technicalInterviewId overallScore askedQuestions.evaluation')
+          .lean(),
+        HRInterviewEvaluationModel.find({
+          candidateId: { $in: candidateIds },
+          hrInterviewId: { $in: roundIds('hrInterviewId') },
+          status: 'completed'
+        })
+          .sort({ endedAt: 1 })
+          .select('candidateId hrInterviewId overallScore askedQuestions.evaluation')
           .lean()
       ]);
 
+      // Round results keyed by candidate and round, the latest attempt winning
+      const roundResultKey = (candidateId: unknown, roundId: unknown) => `${candidateId}:${roundId}`;
+      const aptitudeScoreMap = new Map(
+        testResults.map(result => [roundResultKey(result.candidateId, result.aptitudeId), result.percentage])
+      );
+      const technicalScoreMap = new Map(
+        technicalEvaluations.map(evaluation => [
+          roundResultKey(evaluation.candidateId, evaluation.technicalInterviewId),
+          calculateInterviewScore(evaluation)
+        ])
+      );
+      const hrScoreMap = new Map(
+        hrEvaluations.map(evaluation => [
+          roundResultKey(evaluation.candidateId, evaluation.hrInterviewId),
+          calculateInterviewScore(evaluation)
+        ])
+      );
+
       // Create maps of candidateId to profile, base candidate, and coding evaluation
       const profileMap = new Map(
         candidateProfiles.map(profile => [
@@ -196,6 +510,7 @@ export async function fetchShortlistedCandidates(jobId?: string): Promise<Action
         const profile = profileMap.get(cid) as any;
         const base = candidateMap.get(cid) as any;
         const codingEval = codingEvalMap.get(cid) as any;
+        const assessment = assessmentMap.get(String((app.jobId as any)._id));
 
         const fullName = profile?.name || [base?.firstName, base?.lastName].filter(Boolean).join(' ') || 'Unknown';
         const email = base?.email || (profile?.candidate as any)?.email || 'N/A';
@@ -203,6 +518,7 @@ export async function fetchShortlistedCandidates(jobId?: string): Promise<Action
 
         return {
           id: cid,
+          applicationId: app._id.toString(),
           name: fullName,
           email,
           profileImage: avatar,
@@ -215,12 +531,17 @@ export async function fetchShortlistedCandidates(jobId?: string): Promise<Action
             hrInterview: app.rounds?.hrInterview || 'pending'
           },
           appliedDate: app.applicationDate.toISOString(),
-          // TODO: Calculate scores from assessment results
-          overallScore: undefined,
-          aptitudeScore: undefined,
-          codingScore: undefined,
-          technicalScore: undefined,
-          hrScore: undefined,
+          overallScore: app.overallResult?.score,
+          aptitudeScore: assessment?.aptitudeId
+            ? aptitudeScoreMap.get(roundResultKey(cid, assessment.aptitudeId))
+            : undefined,
+          codingScore: codingEval ? codingEval.score ?? 0 : undefined,
+          technicalScore: assessment?.technicalInterviewId
+            ? technicalScoreMap.get(roundResultKey(cid, assessment.technicalInterviewId))
+            : undefined,
+          hrScore: assessment?.hrInterviewId
+            ? hrScoreMap.get(roundResultKey(cid, assessment.hrInterviewId))
+            : undefined,
           codingEvaluation: codingEval ? {
             questionId: codingEval.questionId,
             language: codingEval.language,
@@ -255,3 +576,329 @@ export async function fetchShortlistedCandidates(jobId?: string): Promise<Action
     });
   });
 }
+
+export async function fetchCandidateRoundDetails(applicationId: string): Promise<ActionResponse<CandidateRoundDetails>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('interviewer');
+
+    if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+      return createErrorResponse('Invalid application ID');
+    }
+
+    return await withDatabase(async () => {
+      const application = await findEmployerApplication(applicationId, organizationId);
+      if (!application) {
+        return createErrorResponse('Application not found');
+      }
+
+      const assessment = await findJobAssessment(application.jobId);
+      if (!assessment) {
+        return createSuccessResponse('No assessment found for this job', {});
+      }
+
+      const candidateId = application.candidateId;
+      const [testResult, codingEvaluation, technicalEvaluation, hrEvaluation, candidate] = await Promise.all([
+        assessment.aptitudeId
+          ? TestResultModel.findOne({ candidateId, aptitudeId: assessment.aptitudeId })
+              .sort({ startTime: -1 })
+              .select('-answers')
+              .lean()
+          : null,
+        assessment.codingRoundId
+          ? CodingEvaluationModel.findOne({ candidateId, codingRoundId: assessment.codingRoundId })
+              .sort({ _id: -1 })
+              .select('warnings terminatedDueToWarnings terminationReason flags')
+              .lean()
+          : null,
+        assessment.technicalInterviewId
+          ? TechnicalInterviewEvaluationModel.findOne({ candidateId, technicalInterviewId: assessment.technicalInterviewId })
+              .sort({ startedAt: -1 })
+              .lean()
+          : null,
+        assessment.hrInterviewId
+          ? HRInterviewEvaluationModel.findOne({ candidateId, hrInterviewId: assessment.hrInterviewId })
+              .sort({ startedAt: -1 })
+              .lean()
+          : null,
+        CandidateModel.findById(candidateId).select('+faceIdentity').lean()
+      ]);
+
+      const [aptitudeLog, codingLog] = await Promise.all([
+        testResult ? loadProctoringLog('aptitude', String(testResult._id)) : undefined,
+        codingEvaluation ? loadProctoringLog('coding', String(codingEvaluation._id)) : undefined
+      ]);
+
+      const details: CandidateRoundDetails = {
+        aptitude: testResult ? {
+          status: testResult.status,
+          score: testResult.score,
+          percentage: testResult.percentage,
+          passed: testResult.passed,
+          passingScore: testResult.passingScore,
+          totalQuestions: testResult.totalQuestions,
+          correctCount: testResult.correctCount,
+          incorrectCount: testResult.incorrectCount,
+          unattemptedCount: testResult.unattemptedCount,
+          timeTaken: testResult.timeTaken,
+          startTime: new Date(testResult.startTime).toISOString(),
+          submittedAt: toIsoString(testResult.submittedAt),
+          sectionScores: testResult.sectionScores || [],
+          warnings: testResult.warnings,
+          terminatedDueToWarnings: testResult.terminatedDueToWarnings,
+          terminationReason: testResult.terminationReason,
+          proctoringLog: aptitudeLog
+        } : undefined,
+        coding: codingEvaluation ? {
+          warnings: {
+            tabSwitch: codingEvaluation.warnings?.tabSwitch ?? { count: 0, maxAllowed: 0, exceeded: false },
+            fullscreen: codingEvaluation.warnings?.fullscreen ?? { count: 0, maxAllowed: 0, exceeded: false },
+            audio: codingEvaluation.warnings?.audio ?? { count: 0, maxAllowed: 0, exceeded: false }
+          },
+          terminatedDueToWarnings: codingEvaluation.terminatedDueToWarnings ?? false,
+          terminationReason: codingEvaluation.terminationReason,
+          proctoringLog: codingLog
+        } : undefined,
+        technicalInterview: technicalEvaluation ? toInterviewEvaluationDetail(technicalEvaluation) : undefined,
+        hrInterview: hrEvaluation ? toInterviewEvaluationDetail(hrEvaluation) : undefined,
+        identity: toIdentityVerificationDetail(candidate?.faceIdentity, {
+          aptitude: testResult,
+          coding: codingEvaluation,
+          technicalInterview: technicalEvaluation,
+          hrInterview: hrEvaluation
+        })
+      };
+
+      return createSuccessResponse('Candidate round details fetched successfully', details);
+    });
+  });
+}
+
+/**
+ * Records the employer's final decision on an application. Rejecting also closes every round the
+ * candidate has not completed and removes them from those rounds, so they cannot start them.
+ */
+export async function updateCandidateDecision(
+  applicationId: string,
+  decision: 'accepted' | 'rejected'
+): Promise<ActionResponse<CandidateDecisionResult>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('recruiter');
+
+    if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+      return createErrorResponse('Invalid application ID');
+    }
+
+    if (decision !== 'accepted' && decision !== 'rejected') {
+      return createErrorResponse('Invalid decision');
+    }
+
+    return await withDatabase(async () => {
+      const application = await findEmployerApplication(applicationId, organizationId);
+      if (!application) {
+        return createErrorResponse('Application not found');
+      }
+
+      if (application.status === 'withdrawn') {
+        return createErrorResponse('The candidate has withdrawn this application');
+      }
+
+      const rounds: CandidateEvaluation['rounds'] = {
+        aptitude: application.rounds?.aptitude || 'pending',
+        coding: application.rounds?.coding || 'pending',
+        technicalInterview: application.rounds?.technicalInterview || 'pending',
+        hrInterview: application.rounds?.hrInterview || 'pending'
+      };
+
+      if (decision === 'rejected') {
+        const openRounds = (Object.keys(rounds) as (keyof typeof rounds)[])
+          .filter(round => rounds[round] !== 'completed');
+        const assessment = await findJobAssessment(application.jobId);
+
+        for (const round of openRounds) {
+          rounds[round] = 'rejected';
+        }
+        await Promise.all(openRounds.map(round => {
+          const roundId = assessment?.[ROUND_FIELDS[round]];
+          return roundId
+            ? ROUND_MODELS[round].updateOne({ _id: roundId }, { $pull: { candidateIds: application.candidateId } })
+            : null;
+        }));
+      }
+
+      await ApplicationModel.updateOne(
+        { _id: application._id },
+        { $set: { status: decision, rounds } }
+      );
+
+      if (decision === 'accepted') {
+        await notifySelected(application._id as mongoose.Types.ObjectId);
+      } else {
+        await notifyRejected(application._id as mongoose.Types.ObjectId);
+      }
+
+      return createSuccessResponse(
+        decision === 'accepted' ? 'Candidate selected' : 'Candidate rejected',
+        { applicationStatus: decision, rounds }
+      );
+    });
+  });
+}
+
+/**
+ * The candidate's latest evaluation of a round, with the fields its proctoring review is built from.
+ */
+async function findReviewedEvaluation(
+  round: ReviewRound,
+  candidateId: mongoose.Types.ObjectId,
+  roundId?: mongoose.Types.ObjectId | null
+): Promise<ReviewedEvaluation | null> {
+  if (!roundId) return null;
+  const { model, sort } = EVALUATION_MODELS[round];
+  return model.findOne({ candidateId, [ROUND_FIELDS[round]]: roundId })
+    .sort(sort)
+    .select('flags videoLogs videoUrl startedAt screenCaptures')
+    .lean<ReviewedEvaluation>();
+}
+
+async function buildProctoringReview(
+  round: ReviewRound,
+  evaluation: ReviewedEvaluation,
+  invalidation?: { reason: string; invalidatedAt: Date }
+): Promise<ProctoringReviewDetail> {
+  return {
+    round,
+    ...(await loadProctoringTimeline(round, evaluation)),
+    invalidation: invalidation
+      ? { reason: invalidation.reason, invalidatedAt: new Date(invalidation.invalidatedAt).toISOString() }
+      : undefined
+  };
+}
+
+/**
+ * The proctoring timeline of a candidate's round for review. Has no data when the candidate has not taken
+ * the round.
+ */
+export async function fetchProctoringReview(
+  applicationId: string,
+  round: ReviewRound
+): Promise<ActionResponse<ProctoringReviewDetail>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('interviewer');
+
+    if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+      return createErrorResponse('Invalid application ID');
+    }
+    if (!(round in ROUND_FIELDS)) {
+      return createErrorResponse('Invalid round');
+    }
+
+    return await withDatabase(async () => {
+      const application = await findEmployerApplication(applicationId, organizationId);
+      if (!application) {
+        return createErrorResponse('Application not found');
+      }
+
+      const assessment = await findJobAssessment(application.jobId);
+      const evaluation = await findReviewedEvaluation(round, application.candidateId, assessment?.[ROUND_FIELDS[round]]);
+      if (!evaluation) {
+        return createSuccessResponse('The candidate has not taken this round');
+      }
+
+      const review = await buildProctoringReview(round, evaluation, application.invalidatedRounds?.[round]);
+      return createSuccessResponse('Proctoring review fetched successfully', review);
+    });
+  });
+}
+
+/**
+ * Records the employer's decision on a proctoring timeline item: dismissed as a false positive, or confirmed.
+ * A confirmed item can also invalidate the round, which then counts as failed and is closed to the candidate.
+ */
+export async function reviewProctoringItem(
+  applicationId: string,
+  round: ReviewRound,
+  itemId: string,
+  decision: ProctoringDecision,
+  options: { note?: string; invalidateRound?: boolean } = {}
+): Promise<ActionResponse<ProctoringReviewResult>> {
+  return safeAction(async () => {
+    const { userId, organizationId } = await requireOrganization('recruiter');
+
+    if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+      return createErrorResponse('Invalid application ID');
+    }
+    if (!(round in ROUND_FIELDS)) {
+      return createErrorResponse('Invalid round');
+    }
+    if (!PROCTORING_DECISIONS.includes(decision)) {
+      return createErrorResponse('Invalid decision');
+    }
+    if (options.invalidateRound && decision !== 'confirmed') {
+      return createErrorResponse('Only a confirmed violation can invalidate the round');
+    }
+    const note = options.note?.trim();
+    if (note && note.length > 1000) {
+      return createErrorResponse('Note must be 1000 characters or fewer');
+    }
+
+    return await withDatabase(async () => {
+      const application = await findEmployerApplication(applicationId, organizationId);
+      if (!application) {
+        return createErrorResponse('Application not found');
+      }
+
+      const assessment = await findJobAssessment(application.jobId);
+      const evaluation = await findReviewedEvaluation(round, application.candidateId, assessment?.[ROUND_FIELDS[round]]);
+      if (!evaluation) {
+        return createErrorResponse('The candidate has not taken this round');
+      }
+
+      const timeline = await loadProctoringTimeline(round, evaluation);
+      const item = timeline.items.find(candidateItem => candidateItem.id === itemId);
+      if (!item) {
+        return createErrorResponse('Proctoring item not found');
+      }
+
+      await recordProctoringReview(round, evaluation._id, itemId, decision, userId, note);
+
+      if (options.invalidateRound && assessment) {
+        const { modifiedCount } = await ApplicationModel.updateOne(
+          { _id: application._id, [`invalidatedRounds.${round}`]: { $exists: false } },
+          {
+            $set: {
+              [`invalidatedRounds.${round}`]: {
+                reason: `Confirmed proctoring violation: ${item.title}`.slice(0, 500),
+                invalidatedBy: userId,
+                invalidatedAt: new Date()
+              },
+              [`rounds.${round}`]: 'rejected'
+            }
+          }
+        );
+        if (modifiedCount) {
+          const roundId = assessment[ROUND_FIELDS[round]];
+          if (roundId) {
+            await ROUND_MODELS[round].updateOne({ _id: roundId }, { $pull: { candidateIds: application.candidateId } });
+          }
+          await reviseAssessmentResult(assessment._id as mongoose.Types.ObjectId, application._id as mongoose.Types.ObjectId);
+        }
+      }
+
+      const updated = await ApplicationModel.findById(application._id).select('status rounds invalidatedRounds').lean();
+      const review = await buildProctoringReview(round, evaluation, updated?.invalidatedRounds?.[round]);
+      return createSuccessResponse(
+        options.invalidateRound ? 'Violation confirmed and round invalidated' : `Item ${decision}`,
+        {
+          review,
+          applicationStatus: updated?.status ?? application.status,
+          rounds: {
+            aptitude: updated?.rounds?.aptitude || 'pending',
+            coding: updated?.rounds?.coding || 'pending',
+            technicalInterview: updated?.rounds?.technicalInterview || 'pending',
+            hrInterview: updated?.rounds?.hrInterview || 'pending'
+          }
+        }
+      );
+    });
+  });
+}
@@ -0,0 +1,323 @@
+"use server";
+
+import CodingProblemModel from '@/models/codingProblem.model';
+import CodingModel from '@/models/coding.model';
+import mongoose from 'mongoose';
+import {
+  safeAction,
+  createSuccessResponse,
+  createErrorResponse,
+  withDatabase,
+  logSuccess,
+  type ActionResponse
+} from '@/utils/action-helpers';
+import { requireOrganization } from '@/lib/organization/membership';
+import {
+  ensureProblemBankSeeded,
+  nextProblemId,
+  toCodingProblem,
+  validateProblemDefinition,
+  visibleToOrganization
+} from '@/lib/code-execution/problemBank';
+import type { CodingProblem, CodingProblemInput } from '@/lib/code-execution/types';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface ProblemBankItem {
+  id: number;
+  title: string;
+  difficulty: string;
+  tags: string[];
+  sampleTests: number;
+  hiddenTests: number;
+  isBuiltIn: boolean;
+  updatedAt?: string;
+}
+
+export interface ProblemBankFilters {
+  difficulty?: string;
+  tags?: string[];
+  search?: string;
+}
+
+export interface ProblemBankImportResult {
+  imported: number;
+  errors: string[];
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+function toBankItem(doc: any): ProblemBankItem {
+  const testCases = doc.testCases || [];
+  return {
+    id: doc.problemId,
+    title: doc.title,
+    difficulty: doc.difficulty,
+    tags: doc.tags || [],
+    sampleTests: testCases.filter((t: any) => !t.hidden).length,
+    hiddenTests: testCases.filter((t: any) => t.hidden).length,
+    isBuiltIn: !doc.employer,
+    updatedAt: doc.updatedAt ? new Date(doc.updatedAt).toISOString() : undefined
+  };
+}
+
+/**
+ * Normalizes an authored problem before validation and storage
+ */
+function normalizeProblemInput(input: CodingProblemInput): CodingProblemInput {
+  return {
+    title: String(input.title ?? '').trim(),
+    difficulty: input.difficulty,
+    description: String(input.description ?? '').trim(),
+    constraints: (input.constraints || []).map(c => String(c).trim()).filter(Boolean),
+    examples: (input.examples || []).map(e => ({
+      input: String(e.input ?? ''),
+      output: String(e.output ?? ''),
+      ...(e.explanation ? { explanation: e.explanation } : {})
+    })),
+    starterCode: Object.fromEntries(
+      Object.entries(input.starterCode || {}).filter(([, code]) => typeof code === 'string' && code.trim())
+    ),
+    testCases: (input.testCases || []).map(t => ({
+      input: t.input,
+      expected: t.expected,
+      hidden: !!t.hidden,
+      weight: t.weight ?? 1
+    })),
+    signature: input.signature,
+    ...(input.comparison ? { comparison: input.comparison } : {}),
+    tags: Array.from(new Set((input.tags || []).map(tag => String(tag).trim().toLowerCase()).filter(Boolean)))
+  };
+}
+
+async function findOwnedProblem(problemId: number, organizationId: mongoose.Types.ObjectId) {
+  const problem = await CodingProblemModel.findOne({ problemId });
+  if (!problem) {
+    throw new Error('Problem not found');
+  }
+  if (!problem.employer) {
+    throw new Error('Built-in problems cannot be modified');
+  }
+  if (!problem.organization?.equals(organizationId)) {
+    throw new Error('Unauthorized - This problem belongs to another organization');
+  }
+  return problem;
+}
+
+// ========================================
+// ACTIONS
+// ========================================
+
+/**
+ * Lists the problems available to the employer's organization (built-in and its own)
+ */
+export async function fetchProblemBank(
+  filters: ProblemBankFilters = {}
+): Promise<ActionResponse<ProblemBankItem[]>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('interviewer');
+
+    return await withDatabase(async () => {
+      await ensureProblemBankSeeded();
+
+      const query: mongoose.FilterQuery<any> = { ...visibleToOrganization(organizationId) };
+      if (filters.difficulty && filters.difficulty !== 'all') {
+        query.difficulty = filters.difficulty;
+      }
+      if (filters.tags?.length) {
+        query.tags = { $in: filters.tags.map(tag => tag.toLowerCase()) };
+      }
+      if (filters.search?.trim()) {
+        const escaped = filters.search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        query.title = { $regex: escaped, $options: 'i' };
+      }
+
+      const problems = await CodingProblemModel.find(query)
+        .select('problemId title difficulty tags testCases.hidden employer updatedAt')
+        .sort({ problemId: 1 })
+        .lean();
+
+      return createSuccessResponse('Problem bank fetched successfully', problems.map(toBankItem));
+    }, "Failed to connect to database");
+  }, "Failed to fetch problem bank");
+}
+
+/**
+ * Fetches a single problem with all its test cases
+ */
+export async function fetchBankProblem(
+  problemId: number
+): Promise<ActionResponse<CodingProblem & { isBuiltIn: boolean }>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('interviewer');
+
+    return await withDatabase(async () => {
+      await ensureProblemBankSeeded();
+
+      const problem = await CodingProblemModel.findOne({ problemId, ...visibleToOrganization(organizationId) }).lean();
+      if (!problem) {
+        return createErrorResponse('Problem not found');
+      }
+
+      return createSuccessResponse('Problem fetched successfully', {
+        ...toCodingProblem(problem),
+        isBuiltIn: !problem.employer
+      });
+    }, "Failed to connect to database");
+  }, "Failed to fetch problem");
+}
+
+export async function createBankProblem(
+  input: CodingProblemInput
+): Promise<ActionResponse<ProblemBankItem>> {
+  return safeAction(async () => {
+    const { userId: employerId, organizationId } = await requireOrganization('recruiter');
+
+    const problem = normalizeProblemInput(input);
+    const validationError = validateProblemDefinition(problem);
+    if (validationError) {
+      return createErrorResponse(validationError);
+    }
+
+    return await withDatabase(async () => {
+      const created = await CodingProblemModel.create({
+        ...problem,
+        problemId: await nextProblemId(),
+        employer: new mongoose.Types.ObjectId(employerId),
+        organization: organizationId
+      });
+
+      logSuccess("Coding problem created", created.problemId);
+      return createSuccessResponse('Problem created successfully', toBankItem(created.toObject()));
+    }, "Failed to connect to database");
+  }, "Failed to create problem");
+}
+
+export async function updateBankProblem(
+  problemId: number,
+  input: CodingProblemInput
+): Promise<ActionResponse<ProblemBankItem>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('recruiter');
+
+    const problem = normalizeProblemInput(input);
+    const validationError = validateProblemDefinition(problem);
+    if (validationError) {
+      return createErrorResponse(validationError);
+    }
+
+    return await withDatabase(async () => {
+      const existing = await findOwnedProblem(problemId, organizationId);
+      existing.set(problem);
+      const saved = await existing.save();
+
+      logSuccess("Coding problem updated", problemId);
+      return createSuccessResponse('Problem updated successfully', toBankItem(saved.toObject()));
+    }, "Failed to connect to database");
+  }, "Failed to update problem");
+}
+
+export async function deleteBankProblem(
+  problemId: number
+): Promise<ActionResponse<{ id: number }>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('recruiter');
+
+    return await withDatabase(async () => {
+      const existing = await findOwnedProblem(problemId, organizationId);
+
+      // Rounds keep referencing problems by ID, so in-use problems must stay
+      const inUse = await CodingModel.exists({ problemIds: problemId });
+      if (inUse) {
+        return createErrorResponse('Problem is used by a coding round and cannot be deleted');
+      }
+
+      await existing.deleteOne();
+
+      logSuccess("Coding problem deleted", problemId);
+      return createSuccessResponse('Problem deleted successfully', { id: problemId });
+    }, "Failed to connect to database");
+  }, "Failed to delete problem");
+}
+
+/**
+ * Imports problems from a JSON export (an array of problems or { problems: [...] }).
+ * Every imported problem gets a new ID owned by the employer's organization; invalid entries are reported and skipped.
+ */
+export async function importBankProblems(
+  json: string
+): Promise<ActionResponse<ProblemBankImportResult>> {
+  return safeAction(async () => {
+    const { userId: employerId, organizationId } = await requireOrganization('recruiter');
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      return createErrorResponse('Import file is not valid JSON');
+    }
+
+    const entries: any[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.problems) ? parsed.problems : [];
+    if (entries.length === 0) {
+      return createErrorResponse('No problems found in import file');
+    }
+
+    return await withDatabase(async () => {
+      const errors: string[] = [];
+      let imported = 0;
+
+      for (const [index, entry] of entries.entries()) {
+        // Only known fields are kept, so exported IDs are dropped here
+        const problem = normalizeProblemInput((entry || {}) as CodingProblemInput);
+        const validationError = validateProblemDefinition(problem);
+        if (validationError) {
+          errors.push(`Problem ${index + 1}${problem.title ? ` (${problem.title})` : ''}: ${validationError}`);
+          continue;
+        }
+
+        await CodingProblemModel.create({
+          ...problem,
+          problemId: await nextProblemId(),
+          employer: new mongoose.Types.ObjectId(employerId),
+          organization: organizationId
+        });
+        imported++;
+      }
+
+      logSuccess("Coding problems imported", imported);
+      return createSuccessResponse(`Imported ${imported} of ${entries.length} problems`, { imported, errors });
+    }, "Failed to connect to database");
+  }, "Failed to import problems");
+}
+
+/**
+ * Exports problems as JSON in the same format accepted by importBankProblems.
+ * Exports every visible problem when no IDs are given.
+ */
+export async function exportBankProblems(
+  problemIds?: number[]
+): Promise<ActionResponse<string>> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('interviewer');
+
+    return await withDatabase(async () => {
+      await ensureProblemBankSeeded();
+
+      const problems = await CodingProblemModel.find({
+        ...visibleToOrganization(organizationId),
+        ...(problemIds?.length ? { problemId: { $in: problemIds } } : {})
+      })
+        .sort({ problemId: 1 })
+        .lean();
+
+      return createSuccessResponse(
+        'Problems exported successfully',
+        JSON.stringify({ problems: problems.map(toCodingProblem) }, null, 2)
+      );
+    }, "Failed to connect to database");
+  }, "Failed to export problems");
+}
@@ -10,14 +10,14 @@ import {
   logSuccess,
   type ActionResponse 
 } from '@/utils/action-helpers';
-import { requireAuth } from '@/utils/auth-helpers';
+import { requireOrganization } from '@/lib/organization/membership';
 
-export type JobCreationData = Omit<JobOpportunity, keyof Document | 'createdAt' | 'updatedAt' | 'applications' | 'employer'>;
+export type JobCreationData = Omit<JobOpportunity, keyof Document | 'createdAt' | 'updatedAt' | 'applications' | 'employer' | 'organization'>;
 // Create Job Posting
 export async function createJobPosting(jobData: JobCreationData): Promise<ActionResponse<JobOpportunity>> {
   return safeAction(async () => {
-    // Get authenticated employer ID
-    const employerId = await requireAuth();
+    // Get authenticated employer and the organization the job is posted for
+    const { userId: employerId, organizationId } = await requireOrganization('recruiter');
 
     // 1. Salary range validation (salaryMax >= salaryMin)
     if (
@@ -50,6 +50,7 @@ export async function createJobPosting(jobData: JobCreationData): Promise<Action
       const newJobPosting = new JobOpportunityModel({
         ...jobData,
         employer: employerId, // Add authenticated employer ID
+        organization: organizationId,
         deadline: jobData.deadline ? new Date(jobData.deadline) : undefined,
       });
 
@@ -1,133 +1,271 @@
 "use server";
 
-import type { Stat, Activity, CandidatesByStage, CodePreview, Job } from '../types';
-import { 
-  safeAction, 
-  createSuccessResponse, 
-  type ActionResponse 
+import type { Stat, Activity, Candidate, CandidatePipeline, CodePreview, Job, PipelineStage } from '../types';
+import {
+  safeAction,
+  createSuccessResponse,
+  withDatabase,
+  type ActionResponse
 } from '@/utils/action-helpers';
+import { requireOrganization } from '@/lib/organization/membership';
+import JobOpportunityModel from '@/models/jobOpportunity.model';
+import ApplicationModel, { type Application } from '@/models/application.model';
+import AssessmentModel from '@/models/assesment.model';
+import CandidateModel from '@/models/candidate.model';
+import CandidateProfileModel from '@/models/candidateProfile.model';
+import TestResultModel from '@/models/aptitudeEvaluation.model';
+import CodingEvaluationModel from '@/models/codingEvaluation.model';
+import TechnicalInterviewModel from '@/models/technicalInterview.model';
+import HRInterviewModel from '@/models/hrInterview.model';
+import TechnicalInterviewEvaluationModel from '@/models/technicalInterviewEvaluation.model';
+import HRInterviewEvaluationModel from '@/models/hrInterviewEvaluation.model';
+import mongoose from 'mongoose';
 
 // ========================================
-// MOCK DATA
+// HELPERS
 // ========================================
 
-const mockStats: Stat[] = [
-  { value: "12", label: "Active Job Postings", trend: "▲ 2" },
-  {
-    value: "84",
-    label: "Candidates in Pipeline",
-    trend: "▼ 5",
-    trendDirection: "down",
-  },
-  { value: "7", label: "Interviews Today", trend: "▲ 3" },
-  { value: "68%", label: "Acceptance Rate", trend: "+4%" },
-];
-
-const mockActivities: Activity[] = [
-  {
-    intent: "success",
-    title: "Candidate John Doe accepted offer",
-    meta: "2 hours ago",
-    icon: "check-circle",
-  },
-  {
-    intent: "info",
-    title: "New candidate Jane Smith added to pipeline",
-    meta: "5 hours ago",
-    icon: "user-plus",
-  },
-  {
-    intent: "announce",
-    title: "System maintenance scheduled",
-    meta: "1 day ago",
-    icon: "megaphone",
-  },
-];
-
-const mockCandidatesByStage: CandidatesByStage = {
-  applied: [
-    {
-      name: "Alice Johnson",
-      role: "Frontend Developer",
-      metaLeft: "2 days",
-      metaRight: "ago",
-      score: "87",
-    },
-    {
-      name: "Mark Chen",
-      role: "Backend Engineer",
-      metaLeft: "5 days",
-      metaRight: "ago",
-      score: "74",
-    },
-  ],
-  screening: [
-    {
-      name: "Emily Rodriguez",
-      role: "UX Designer",
-      metaLeft: "Status:",
-      metaRight: "Completed",
-      score: "78",
-    },
-  ],
-  interview: [
-    {
-      name: "David Kim",
-      role: "DevOps Engineer",
-      metaLeft: "In",
-      metaRight: "Progress",
-      score: "85",
-    },
-  ],
-  offer: [
-    {
-      name: "James Wilson",
-      role: "Product Manager",
-      metaLeft: "Offer",
-      metaRight: "Extended",
-      score: "94",
-    },
-  ],
-  hired: [
-    {
-      name: "Lisa Taylor",
-      role: "Backend Developer",
-      metaLeft: "Started",
-      metaRight: "2 weeks ago",
-      score: "89",
-    },
-  ],
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+const PIPELINE_STAGES: PipelineStage[] = ['applied', 'screening', 'interview', 'offer', 'hired'];
+const CARDS_PER_STAGE = 5;
+const ACTIVITY_LIMIT = 8;
+
+// Coding sessions without a save for this long are no longer considered live
+const LIVE_CODING_WINDOW_MS = 30 * 60 * 1000;
+// Interviews left in progress for longer than this are treated as abandoned
+const LIVE_INTERVIEW_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+type LeanApplication = Pick<Application, 'candidateId' | 'jobId' | 'applicationDate' | 'status' | 'rounds'> & {
+  _id: mongoose.Types.ObjectId;
+  updatedAt: Date;
 };
 
-const mockCodePreview: CodePreview[] = [
-  {
-    title: "Live Monitoring",
-    badge: "LIVE",
-    metrics: "No anomalies detected in last 24h",
-  },
-  {
-    title: "Alex Morgan - Coding Assessment",
-    metrics: "Code Quality: 87% | Speed: 92% | Originality: 96%",
-    badge: "LIVE",
-  },
-];
-
-const mockJobs: Job[] = [
-  {
-    title: "React Developer",
-    subtitle: "Frontend role, remote",
-    applications: 45,
-    inInterview: 8,
-    rating: 4.5,
-  },
-  {
-    title: "Data Scientist",
-    subtitle: "ML/NLP focus",
-    applications: 60,
-    inInterview: 12,
-    rating: 4.8,
-  },
-];
+function getTimeAgo(date: Date): string {
+  const diffInMinutes = Math.floor((Date.now() - new Date(date).getTime()) / (1000 * 60));
+
+  if (diffInMinutes < 1) return 'Just now';
+  if (diffInMinutes < 60) return `${diffInMinutes} min ago`;
+
+  const diffInHours = Math.floor(diffInMinutes / 60);
+  if (diffInHours < 24) return `${diffInHours} hour${diffInHours > 1 ? 's' : ''} ago`;
+
+  const diffInDays = Math.floor(diffInHours / 24);
+  if (diffInDays < 7) return `${diffInDays} day${diffInDays > 1 ? 's' : ''} ago`;
+
+  const diffInWeeks = Math.floor(diffInDays / 7);
+  return `${diffInWeeks} week${diffInWeeks > 1 ? 's' : ''} ago`;
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function isWithin(date: Date | undefined | null, from: Date, to: Date): boolean {
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  return time >= from.getTime() && time < to.getTime();
+}
+
+/**
+ * Formats a count difference the way the stat cards display it ("▲ 2" / "▼ 5")
+ */
+function countTrend(current: number, previous: number): Pick<Stat, 'trend' | 'trendDirection'> {
+  const diff = current - previous;
+  return diff < 0
+    ? { trend: `▼ ${Math.abs(diff)}`, trendDirection: 'down' }
+    : { trend: `▲ ${diff}`, trendDirection: 'up' };
+}
+
+function acceptanceRate(applications: LeanApplication[]): number {
+  const accepted = applications.filter(app => app.status === 'accepted').length;
+  const decided = accepted + applications.filter(app => app.status === 'rejected').length;
+  return decided === 0 ? 0 : Math.round((accepted / decided) * 100);
+}
+
+/**
+ * Maps an application onto the dashboard pipeline column it belongs to.
+ * Rejected and withdrawn applications are no longer in the pipeline.
+ */
+function getPipelineStage(app: LeanApplication): PipelineStage | null {
+  const rounds = app.rounds;
+  const inInterviewRound = ['shortlisted', 'completed'].includes(rounds?.technicalInterview || '')
+    || ['shortlisted', 'completed'].includes(rounds?.hrInterview || '');
+
+  switch (app.status) {
+    case 'accepted':
+      return 'hired';
+    case 'interviewed':
+      return rounds?.hrInterview === 'completed' ? 'offer' : 'interview';
+    case 'shortlisted':
+      return inInterviewRound ? 'interview' : 'screening';
+    case 'under-review':
+      return 'screening';
+    case 'applied':
+      return 'applied';
+    default:
+      return null;
+  }
+}
+
+function getStageMeta(stage: PipelineStage, app: LeanApplication): Pick<Candidate, 'metaLeft' | 'metaRight'> {
+  switch (stage) {
+    case 'applied':
+      return { metaLeft: 'Applied', metaRight: getTimeAgo(app.applicationDate) };
+    case 'screening':
+      return { metaLeft: 'Status:', metaRight: app.status === 'shortlisted' ? 'Shortlisted' : 'Under Review' };
+    case 'interview':
+      return {
+        metaLeft: 'Round:',
+        metaRight: ['shortlisted', 'completed'].includes(app.rounds?.hrInterview || '') ? 'HR Interview' : 'Technical Interview'
+      };
+    case 'offer':
+      return { metaLeft: 'HR Interview', metaRight: 'Completed' };
+    case 'hired':
+      return { metaLeft: 'Hired', metaRight: getTimeAgo(app.updatedAt) };
+  }
+}
+
+function scoreKey(jobId: unknown, candidateId: unknown): string {
+  return `${String(jobId)}:${String(candidateId)}`;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Loads the jobs of the signed-in employer's organization, their applications and their assessments
+ */
+async function loadEmployerScope(organization: mongoose.Types.ObjectId) {
+  const [jobs, assessments] = await Promise.all([
+    JobOpportunityModel.find({ organization })
+      .select('title department position locationType employmentType deadline createdAt')
+      .sort({ createdAt: -1 })
+      .lean(),
+    AssessmentModel.find({ organization })
+      .select('jobOpportunity aptitudeId technicalInterviewId hrInterviewId')
+      .lean()
+  ]);
+
+  const jobIds = jobs.map(job => job._id as mongoose.Types.ObjectId);
+  const applications = jobIds.length
+    ? await ApplicationModel.find({ jobId: { $in: jobIds } })
+        .select('candidateId jobId applicationDate status rounds updatedAt')
+        .sort({ updatedAt: -1 })
+        .lean<LeanApplication[]>()
+    : [];
+
+  const jobTitles = new Map(jobs.map(job => [String(job._id), job.title]));
+
+  return { jobs, jobIds, jobTitles, assessments, applications };
+}
+
+/**
+ * Resolves display names for candidates, preferring the profile name
+ */
+async function loadCandidateNames(candidateIds: unknown[]): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(candidateIds.map(String))).map(id => new mongoose.Types.ObjectId(id));
+  if (ids.length === 0) return new Map();
+
+  const [profiles, candidates] = await Promise.all([
+    CandidateProfileModel.find({ candidate: { $in: ids } }).select('candidate name').lean(),
+    CandidateModel.find({ _id: { $in: ids } }).select('firstName lastName email').lean()
+  ]);
+
+  const names = new Map<string, string>();
+  for (const candidate of candidates as any[]) {
+    const name = [candidate.firstName, candidate.lastName].filter(Boolean).join(' ');
+    names.set(String(candidate._id), name || candidate.email || 'Unknown');
+  }
+  for (const profile of profiles as any[]) {
+    if (profile.name) names.set(String(profile.candidate), profile.name);
+  }
+  return names;
+}
+
+/**
+ * Collects every round score (0-100) per job and candidate
+ */
+async function loadCandidateScores(
+  jobIds: mongoose.Types.ObjectId[],
+  assessments: { jobOpportunity?: mongoose.Types.ObjectId; aptitudeId?: mongoose.Types.ObjectId }[]
+): Promise<Map<string, number[]>> {
+  const aptitudeJobs = new Map(
+    assessments
+      .filter(a => a.aptitudeId && a.jobOpportunity)
+      .map(a => [String(a.aptitudeId), String(a.jobOpportunity)])
+  );
+
+  const [aptitudeResults, codingEvaluations, technicalEvaluations, hrEvaluations] = await Promise.all([
+    aptitudeJobs.size
+      ? TestResultModel.find({ aptitudeId: { $in: Array.from(aptitudeJobs.keys()) } })
+          .select('candidateId aptitudeId percentage')
+          .lean()
+      : [],
+    CodingEvaluationModel.find({ jobId: { $in: jobIds }, isSubmitted: true })
+      .select('candidateId jobId score')
+      .lean(),
+    TechnicalInterviewEvaluationModel.find({ jobId: { $in: jobIds }, overallScore: { $ne: null } })
+      .select('candidateId jobId overallScore')
+      .lean(),
+    HRInterviewEvaluationModel.find({ jobId: { $in: jobIds }, overallScore: { $ne: null } })
+      .select('candidateId jobId overallScore')
+      .lean()
+  ]);
+
+  const scores = new Map<string, number[]>();
+  const add = (jobId: unknown, candidateId: unknown, score: number | undefined | null) => {
+    if (typeof score !== 'number' || Number.isNaN(score)) return;
+    const key = scoreKey(jobId, candidateId);
+    scores.set(key, [...(scores.get(key) || []), score]);
+  };
+
+  for (const result of aptitudeResults as any[]) {
+    add(aptitudeJobs.get(String(result.aptitudeId)), result.candidateId, result.percentage);
+  }
+  for (const evaluation of codingEvaluations as any[]) {
+    add(evaluation.jobId, evaluation.candidateId, evaluation.score);
+  }
+  for (const evaluation of [...technicalEvaluations, ...hrEvaluations] as any[]) {
+    add(evaluation.jobId, evaluation.candidateId, evaluation.overallScore);
+  }
+
+  return scores;
+}
+
+/**
+ * Counts candidates booked into the organization's interview rounds scheduled on the given day
+ */
+async function countInterviewsOn(
+  day: Date,
+  assessments: { technicalInterviewId?: mongoose.Types.ObjectId; hrInterviewId?: mongoose.Types.ObjectId }[]
+): Promise<number> {
+  const from = startOfDay(day);
+  const to = new Date(from.getTime() + DAY_MS);
+  const scheduledDate = { $gte: from, $lt: to };
+
+  const technicalIds = assessments.map(a => a.technicalInterviewId).filter(Boolean);
+  const hrIds = assessments.map(a => a.hrInterviewId).filter(Boolean);
+
+  const [technicalRounds, hrRounds] = await Promise.all([
+    technicalIds.length
+      ? TechnicalInterviewModel.find({ _id: { $in: technicalIds }, scheduledDate }).select('candidateIds').lean()
+      : [],
+    hrIds.length
+      ? HRInterviewModel.find({ _id: { $in: hrIds }, scheduledDate }).select('candidateIds').lean()
+      : []
+  ]);
+
+  return [...technicalRounds, ...hrRounds].reduce(
+    (total, round: any) => total + (round.candidateIds?.length || 0),
+    0
+  );
+}
 
 // ========================================
 // DASHBOARD DATA ACTIONS
@@ -136,36 +274,347 @@ const mockJobs: Job[] = [
 // Fetch Stats
 export async function fetchStats(): Promise<ActionResponse<Stat[]>> {
   return safeAction(async () => {
-    return createSuccessResponse("Stats fetched", mockStats);
+    const { organizationId } = await requireOrganization();
+
+    return await withDatabase(async () => {
+      const { jobs, assessments, applications } = await loadEmployerScope(organizationId);
+
+      const now = new Date();
+      const weekAgo = new Date(now.getTime() - WEEK_MS);
+      const twoWeeksAgo = new Date(now.getTime() - 2 * WEEK_MS);
+
+      // Active postings: jobs still open for applications
+      const activeJobs = jobs.filter(job => !job.deadline || new Date(job.deadline) >= now);
+      const postedThisWeek = jobs.filter(job => isWithin((job as any).createdAt, weekAgo, now)).length;
+      const postedLastWeek = jobs.filter(job => isWithin((job as any).createdAt, twoWeeksAgo, weekAgo)).length;
+
+      // Pipeline: applications that are neither decided nor withdrawn
+      const inPipeline = applications.filter(app => getPipelineStage(app) && app.status !== 'accepted');
+      const appliedThisWeek = applications.filter(app => isWithin(app.applicationDate, weekAgo, now)).length;
+      const appliedLastWeek = applications.filter(app => isWithin(app.applicationDate, twoWeeksAgo, weekAgo)).length;
+
+      const [interviewsToday, interviewsLastWeek] = await Promise.all([
+        countInterviewsOn(now, assessments),
+        countInterviewsOn(new Date(now.getTime() - WEEK_MS), assessments)
+      ]);
+
+      // Acceptance rate trend compares decisions made this week with decisions made the week before
+      const rate = acceptanceRate(applications);
+      const rateThisWeek = acceptanceRate(applications.filter(app => isWithin(app.updatedAt, weekAgo, now)));
+      const rateLastWeek = acceptanceRate(applications.filter(app => isWithin(app.updatedAt, twoWeeksAgo, weekAgo)));
+      const rateDiff = rateThisWeek - rateLastWeek;
+
+      const stats: Stat[] = [
+        {
+          value: String(activeJobs.length),
+          label: "Active Job Postings",
+          ...countTrend(postedThisWeek, postedLastWeek)
+        },
+        {
+          value: String(inPipeline.length),
+          label: "Candidates in Pipeline",
+          ...countTrend(appliedThisWeek, appliedLastWeek)
+        },
+        {
+          value: String(interviewsToday),
+          label: "Interviews Today",
+          ...countTrend(interviewsToday, interviewsLastWeek)
+        },
+        {
+          value: `${rate}%`,
+          label: "Acceptance Rate",
+          trend: `${rateDiff < 0 ? '-' : '+'}${Math.abs(rateDiff)}%`,
+          trendDirection: rateDiff < 0 ? 'down' : 'up'
+        }
+      ];
+
+      return createSuccessResponse("Stats fetched", stats);
+    }, "Failed to connect to database");
   }, "Failed to fetch stats");
 }
 
 // Fetch Activities
 export async function fetchActivities(): Promise<ActionResponse<Activity[]>> {
   return safeAction(async () => {
-    return createSuccessResponse("Activities fetched", mockActivities);
+    const { organizationId } = await requireOrganization();
+
+    return await withDatabase(async () => {
+      const { jobs, jobIds, jobTitles, applications } = await loadEmployerScope(organizationId);
+      if (jobIds.length === 0) {
+        return createSuccessResponse("Activities fetched", []);
+      }
+
+      const [codingSubmissions, technicalInterviews, hrInterviews] = await Promise.all([
+        CodingEvaluationModel.find({ jobId: { $in: jobIds }, isSubmitted: true })
+          .select('candidateId jobId updatedAt')
+          .sort({ updatedAt: -1 })
+          .limit(ACTIVITY_LIMIT)
+          .lean(),
+        TechnicalInterviewEvaluationModel.find({ jobId: { $in: jobIds }, status: 'completed' })
+          .select('candidateId jobId endedAt updatedAt')
+          .sort({ updatedAt: -1 })
+          .limit(ACTIVITY_LIMIT)
+          .lean(),
+        HRInterviewEvaluationModel.find({ jobId: { $in: jobIds }, status: 'completed' })
+          .select('candidateId jobId endedAt updatedAt')
+          .sort({ updatedAt: -1 })
+          .limit(ACTIVITY_LIMIT)
+          .lean()
+      ]);
+
+      const recentApplications = [...applications]
+        .sort((a, b) => new Date(b.applicationDate).getTime() - new Date(a.applicationDate).getTime())
+        .slice(0, ACTIVITY_LIMIT);
+      const hires = applications.filter(app => app.status === 'accepted').slice(0, ACTIVITY_LIMIT);
+
+      const names = await loadCandidateNames([
+        ...recentApplications.map(app => app.candidateId),
+        ...hires.map(app => app.candidateId),
+        ...codingSubmissions.map(e => e.candidateId),
+        ...technicalInterviews.map(e => e.candidateId),
+        ...hrInterviews.map(e => e.candidateId)
+      ]);
+      const nameOf = (candidateId: unknown) => names.get(String(candidateId)) || 'A candidate';
+      const titleOf = (jobId: unknown) => jobTitles.get(String(jobId)) || 'a job';
+
+      const events: (Omit<Activity, 'meta'> & { at: Date })[] = [
+        ...recentApplications.map(app => ({
+          intent: 'info' as const,
+          icon: 'user-plus' as const,
+          title: `New candidate ${nameOf(app.candidateId)} applied for ${titleOf(app.jobId)}`,
+          at: app.applicationDate
+        })),
+        ...hires.map(app => ({
+          intent: 'success' as const,
+          icon: 'check-circle' as const,
+          title: `Candidate ${nameOf(app.candidateId)} was hired for ${titleOf(app.jobId)}`,
+          at: app.updatedAt
+        })),
+        ...codingSubmissions.map((evaluation: any) => ({
+          intent: 'success' as const,
+          icon: 'check-circle' as const,
+          title: `${nameOf(evaluation.candidateId)} submitted the coding round for ${titleOf(evaluation.jobId)}`,
+          at: evaluation.updatedAt
+        })),
+        ...technicalInterviews.map((evaluation: any) => ({
+          intent: 'success' as const,
+          icon: 'check-circle' as const,
+          title: `${nameOf(evaluation.candidateId)} completed the technical interview for ${titleOf(evaluation.jobId)}`,
+          at: evaluation.endedAt || evaluation.updatedAt
+        })),
+        ...hrInterviews.map((evaluation: any) => ({
+          intent: 'success' as const,
+          icon: 'check-circle' as const,
+          title: `${nameOf(evaluation.candidateId)} completed the HR interview for ${titleOf(evaluation.jobId)}`,
+          at: evaluation.endedAt || evaluation.updatedAt
+        })),
+        ...jobs.slice(0, ACTIVITY_LIMIT).map((job: any) => ({
+          intent: 'announce' as const,
+          icon: 'megaphone' as const,
+          title: `Job posting ${job.title} published`,
+          at: job.createdAt
+        }))
+      ];
+
+      const activities: Activity[] = events
+        .filter(event => event.at)
+        .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
+        .slice(0, ACTIVITY_LIMIT)
+        .map(({ at, ...event }) => ({ ...event, meta: getTimeAgo(at) }));
+
+      return createSuccessResponse("Activities fetched", activities);
+    }, "Failed to connect to database");
   }, "Failed to fetch activities");
 }
 
 // Fetch Candidates (Pipeline)
-export async function fetchCandidates(): Promise<ActionResponse<CandidatesByStage>> {
+export async function fetchCandidates(): Promise<ActionResponse<CandidatePipeline>> {
   return safeAction(async () => {
-    return createSuccessResponse("Candidates fetched", mockCandidatesByStage);
+    const { organizationId } = await requireOrganization();
+
+    return await withDatabase(async () => {
+      const { jobIds, jobTitles, assessments, applications } = await loadEmployerScope(organizationId);
+
+      const grouped = Object.fromEntries(
+        PIPELINE_STAGES.map(stage => [stage, [] as LeanApplication[]])
+      ) as Record<PipelineStage, LeanApplication[]>;
+      for (const app of applications) {
+        const stage = getPipelineStage(app);
+        if (stage) grouped[stage].push(app);
+      }
+
+      // Applications are sorted by most recent activity, so each column shows the latest movers
+      const shown = PIPELINE_STAGES.flatMap(stage => grouped[stage].slice(0, CARDS_PER_STAGE));
+      const [names, scores] = await Promise.all([
+        loadCandidateNames(shown.map(app => app.candidateId)),
+        jobIds.length ? loadCandidateScores(jobIds, assessments) : new Map<string, number[]>()
+      ]);
+
+      const toCandidate = (stage: PipelineStage, app: LeanApplication): Candidate => {
+        const score = average(scores.get(scoreKey(app.jobId, app.candidateId)) || []);
+        return {
+          name: names.get(String(app.candidateId)) || 'Unknown',
+          role: jobTitles.get(String(app.jobId)) || 'N/A',
+          score: score === null ? '' : String(Math.round(score)),
+          ...getStageMeta(stage, app)
+        };
+      };
+
+      const pipeline: CandidatePipeline = {
+        candidatesByStage: {
+          applied: grouped.applied.slice(0, CARDS_PER_STAGE).map(app => toCandidate('applied', app)),
+          screening: grouped.screening.slice(0, CARDS_PER_STAGE).map(app => toCandidate('screening', app)),
+          interview: grouped.interview.slice(0, CARDS_PER_STAGE).map(app => toCandidate('interview', app)),
+          offer: grouped.offer.slice(0, CARDS_PER_STAGE).map(app => toCandidate('offer', app)),
+          hired: grouped.hired.slice(0, CARDS_PER_STAGE).map(app => toCandidate('hired', app))
+        },
+        stageCounts: {
+          applied: grouped.applied.length,
+          screening: grouped.screening.length,
+          interview: grouped.interview.length,
+          offer: grouped.offer.length,
+          hired: grouped.hired.length
+        }
+      };
+
+      return createSuccessResponse("Candidates fetched", pipeline);
+    }, "Failed to connect to database");
   }, "Failed to fetch candidates");
 }
 
 // Fetch Live Monitoring (CodePreview)
 export async function fetchLiveMonitoring(): Promise<ActionResponse<CodePreview[]>> {
   return safeAction(async () => {
-    return createSuccessResponse("Live monitoring data fetched", mockCodePreview);
+    const { organizationId } = await requireOrganization();
+
+    return await withDatabase(async () => {
+      const { jobIds, jobTitles } = await loadEmployerScope(organizationId);
+      if (jobIds.length === 0) {
+        return createSuccessResponse("Live monitoring data fetched", [
+          { title: "Live Monitoring", badge: "LIVE", metrics: "No active sessions" }
+        ]);
+      }
+
+      const now = Date.now();
+      const dayAgo = new Date(now - DAY_MS);
+
+      const [codingSessions, technicalSessions, hrSessions, flaggedTechnical, flaggedHr] = await Promise.all([
+        CodingEvaluationModel.find({
+          jobId: { $in: jobIds },
+          isSubmitted: false,
+          updatedAt: { $gte: new Date(now - LIVE_CODING_WINDOW_MS) }
+        })
+          .select('candidateId jobId code language problemStatus score codeRuns')
+          .sort({ updatedAt: -1 })
+          .lean(),
+        TechnicalInterviewEvaluationModel.find({
+          jobId: { $in: jobIds },
+          status: 'in_progress',
+          startedAt: { $gte: new Date(now - LIVE_INTERVIEW_WINDOW_MS) }
+        })
+          .select('candidateId jobId askedQuestions flags startedAt')
+          .sort({ startedAt: -1 })
+          .lean(),
+        HRInterviewEvaluationModel.find({
+          jobId: { $in: jobIds },
+          status: 'in_progress',
+          startedAt: { $gte: new Date(now - LIVE_INTERVIEW_WINDOW_MS) }
+        })
+          .select('candidateId jobId askedQuestions flags startedAt')
+          .sort({ startedAt: -1 })
+          .lean(),
+        TechnicalInterviewEvaluationModel.find({ jobId: { $in: jobIds }, 'flags.createdAt': { $gte: dayAgo } })
+          .select('flags')
+          .lean(),
+        HRInterviewEvaluationModel.find({ jobId: { $in: jobIds }, 'flags.createdAt': { $gte: dayAgo } })
+          .select('flags')
+          .lean()
+      ]);
+
+      const recentFlags = [...flaggedTechnical, ...flaggedHr]
+        .flatMap((evaluation: any) => evaluation.flags || [])
+        .filter((flag: any) => flag.createdAt && new Date(flag.createdAt) >= dayAgo).length;
+      const activeSessions = codingSessions.length + technicalSessions.length + hrSessions.length;
+
+      const names = await loadCandidateNames([
+        ...codingSessions.map(s => s.candidateId),
+        ...technicalSessions.map(s => s.candidateId),
+        ...hrSessions.map(s => s.candidateId)
+      ]);
+      const nameOf = (candidateId: unknown) => names.get(String(candidateId)) || 'Unknown';
+
+      const previews: CodePreview[] = [
+        {
+          title: "Live Monitoring",
+          badge: "LIVE",
+          metrics: `${activeSessions} active session${activeSessions === 1 ? '' : 's'} | ${
+            recentFlags === 0
+              ? 'No anomalies detected in last 24h'
+              : `${recentFlags} proctoring flag${recentFlags === 1 ? '' : 's'} in last 24h`
+          }`
+        },
+        ...codingSessions.map((session: any) => {
+          const statuses = Object.values(session.problemStatus || {});
+          const solved = statuses.filter(status => status === 'solved').length;
+          return {
+            title: `${nameOf(session.candidateId)} - Coding Assessment`,
+            badge: "LIVE",
+            metrics: `${jobTitles.get(String(session.jobId)) || 'N/A'} | Solved: ${solved}/${statuses.length} | Score: ${session.score ?? 0}% | Runs: ${session.codeRuns?.length || 0}`,
+            code: session.code ? session.code.split('\n').slice(0, 8).join('\n') : undefined
+          };
+        }),
+        ...[
+          ...technicalSessions.map(session => ({ session, round: 'Technical Interview' })),
+          ...hrSessions.map(session => ({ session, round: 'HR Interview' }))
+        ].map(({ session, round }: { session: any; round: string }) => {
+          const flags = session.flags?.length || 0;
+          return {
+            title: `${nameOf(session.candidateId)} - ${round}`,
+            badge: "LIVE",
+            metrics: `${jobTitles.get(String(session.jobId)) || 'N/A'} | Questions: ${session.askedQuestions?.length || 0} | Started ${getTimeAgo(session.startedAt)}`,
+            feed: flags === 0 ? 'No proctoring flags' : `${flags} proctoring flag${flags === 1 ? '' : 's'} raised`
+          };
+        })
+      ];
+
+      return createSuccessResponse("Live monitoring data fetched", previews);
+    }, "Failed to connect to database");
   }, "Failed to fetch live monitoring data");
 }
 
 // Fetch Jobs
 export async function fetchJobs(): Promise<ActionResponse<Job[]>> {
   return safeAction(async () => {
-    return createSuccessResponse("Jobs fetched", mockJobs);
-  }, "Failed to fetch jobs");
-}
+    const { organizationId } = await requireOrganization();
+
+    return await withDatabase(async () => {
+      const { jobs, jobIds, assessments, applications } = await loadEmployerScope(organizationId);
+      const scores = jobIds.length ? await loadCandidateScores(jobIds, assessments) : new Map<string, number[]>();
 
+      const now = new Date();
+      const activeJobs = jobs.filter(job => !job.deadline || new Date(job.deadline) >= now);
 
+      const result: Job[] = activeJobs.map((job: any) => {
+        const jobId = String(job._id);
+        const jobApplications = applications.filter(app => String(app.jobId) === jobId);
+        const inInterview = jobApplications.filter(app => getPipelineStage(app) === 'interview').length;
+
+        // Rating is the average candidate score for the job on a 0-5 scale
+        const candidateAverages = jobApplications
+          .map(app => average(scores.get(scoreKey(app.jobId, app.candidateId)) || []))
+          .filter((score): score is number => score !== null);
+        const rating = Math.round(((average(candidateAverages) ?? 0) / 20) * 10) / 10;
+
+        return {
+          title: job.title,
+          subtitle: [job.department, job.locationType, job.employmentType].filter(Boolean).join(' · '),
+          applications: jobApplications.length,
+          inInterview,
+          rating
+        };
+      });
+
+      return createSuccessResponse("Jobs fetched", result);
+    }, "Failed to connect to database");
+  }, "Failed to fetch jobs");
+}
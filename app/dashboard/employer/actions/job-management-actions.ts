@@ -1,7 +1,7 @@
 "use server";
 
 import JobOpportunityModel from '@/models/jobOpportunity.model';
-import AssessmentModel from '@/models/assesment.model';
+import AssessmentModel, { Assessment } from '@/models/assesment.model';
 import AptitudeModel from '@/models/aptitude.model';
 import ApplicationModel from '@/models/application.model';
 import mongoose from 'mongoose';
@@ -12,7 +12,8 @@ import {
   withDatabase,
   type ActionResponse
 } from '@/utils/action-helpers';
-import { requireAuth } from '@/utils/auth-helpers';
+import { requireOrganization } from '@/lib/organization/membership';
+import { notifyPublishedResults } from '@/lib/notifications/notify';
 
 // ========================================
 // TYPES
@@ -120,6 +121,7 @@ export type AssessmentUpdateData = Partial<{
   maxAttempts: number;
   instructions: string;
   candidateInstructions: string;
+  progressionRules: Assessment['progressionRules'];
 }>;
 
 // ========================================
@@ -130,12 +132,12 @@ export async function fetchEmployerJobs(
   statusFilter?: 'all' | 'active' | 'draft' | 'archived'
 ): Promise<ActionResponse<JobOpening[]>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { organizationId } = await requireOrganization('interviewer');
 
     return await withDatabase(async () => {
-      // Fetch all jobs for this employer
+      // Fetch all jobs of the employer's organization
       const jobs = await JobOpportunityModel.find({
-        employer: employerId
+        organization: organizationId
       }).sort({ createdAt: -1 }).lean();
 
       if (!jobs || jobs.length === 0) {
@@ -148,7 +150,7 @@ export async function fetchEmployerJobs(
       // Find assessments for these jobs
       const assessments = await AssessmentModel.find({
         jobOpportunity: { $in: jobIds },
-        employer: employerId
+        organization: organizationId
       }).lean();
 
       // Create a map of jobId -> assessment
@@ -231,7 +233,7 @@ export async function fetchEmployerJobs(
 
 export async function fetchJobDetails(jobId: string): Promise<ActionResponse<JobDetailedInfo>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { organizationId } = await requireOrganization('interviewer');
 
     if (!mongoose.Types.ObjectId.isValid(jobId)) {
       return createErrorResponse('Invalid job ID');
@@ -241,7 +243,7 @@ export async function fetchJobDetails(jobId: string): Promise<ActionResponse<Job
       // Fetch job
       const job = await JobOpportunityModel.findOne({
         _id: jobId,
-        employer: employerId
+        organization: organizationId
       }).lean();
 
       if (!job) {
@@ -256,7 +258,7 @@ export async function fetchJobDetails(jobId: string): Promise<ActionResponse<Job
       // Fetch assessment if exists
       const assessment = await AssessmentModel.findOne({
         jobOpportunity: new mongoose.Types.ObjectId(jobId),
-        employer: employerId
+        organization: organizationId
       }).lean();
 
       // Build base job info
@@ -351,7 +353,7 @@ export async function updateJobDetails(
   updates: JobUpdateData
 ): Promise<ActionResponse<{ updated: boolean }>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { organizationId } = await requireOrganization('recruiter');
 
     if (!mongoose.Types.ObjectId.isValid(jobId)) {
       return createErrorResponse('Invalid job ID');
@@ -361,7 +363,7 @@ export async function updateJobDetails(
       // Verify job ownership
       const job = await JobOpportunityModel.findOne({
         _id: jobId,
-        employer: employerId
+        organization: organizationId
       });
 
       if (!job) {
@@ -407,7 +409,7 @@ export async function updateAssessmentDetails(
   updates: AssessmentUpdateData
 ): Promise<ActionResponse<{ updated: boolean }>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { organizationId } = await requireOrganization('recruiter');
 
     if (!mongoose.Types.ObjectId.isValid(assessmentId)) {
       return createErrorResponse('Invalid assessment ID');
@@ -417,7 +419,7 @@ export async function updateAssessmentDetails(
       // Verify assessment ownership
       const assessment = await AssessmentModel.findOne({
         _id: assessmentId,
-        employer: employerId
+        organization: organizationId
       });
 
       if (!assessment) {
@@ -451,6 +453,16 @@ export async function updateAssessmentDetails(
         return createErrorResponse('Max attempts must be at least 1');
       }
 
+      // Validate progression rule floors if provided
+      const invalidFloor = Object.values(updates.progressionRules || {}).some(
+        rule => rule?.rejectBelow != null && (rule.rejectBelow < 0 || rule.rejectBelow > 100)
+      );
+      if (invalidFloor) {
+        return createErrorResponse('Auto-reject score must be between 0 and 100');
+      }
+
+      const publishingResults = updates.publishResults === true && !assessment.publishResults;
+
       // Update allowed fields
       Object.keys(updates).forEach(key => {
         (assessment as any)[key] = (updates as any)[key];
@@ -458,6 +470,11 @@ export async function updateAssessmentDetails(
 
       await assessment.save();
 
+      // Candidates evaluated while results were hidden get theirs now
+      if (publishingResults) {
+        await notifyPublishedResults(assessment);
+      }
+
       return createSuccessResponse('Assessment updated successfully', { updated: true });
     });
   });
@@ -16,7 +16,8 @@ import {
   withDatabase,
   type ActionResponse
 } from '@/utils/action-helpers';
-import { requireAuth } from '@/utils/auth-helpers';
+import { requireOrganization } from '@/lib/organization/membership';
+import { notifyShortlisted } from '@/lib/notifications/notify';
 
 export interface JobWithAssessment {
   _id: string;
@@ -50,6 +51,8 @@ export interface CandidateApplication {
     technicalInterview: 'pending' | 'shortlisted' | 'rejected' | 'completed';
     hrInterview: 'pending' | 'shortlisted' | 'rejected' | 'completed';
   };
+  // Closing time (ISO) of each round the candidate was given extra time for
+  extensions: Partial<Record<RoundInfo['type'], string>>;
 }
 
 export interface RoundInfo {
@@ -59,16 +62,16 @@ export interface RoundInfo {
 }
 
 
-//Fetches all jobs belonging to the employer that have assessments created
+//Fetches all jobs belonging to the employer's organization that have assessments created
  
 export async function fetchJobsWithAssessments(): Promise<ActionResponse<JobWithAssessment[]>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { organizationId } = await requireOrganization('interviewer');
 
     return await withDatabase(async () => {
-      // Find all jobs with assessments for this employer
+      // Find all jobs with assessments for the employer's organization
       const jobs = await JobOpportunityModel.find({ 
-        employer: employerId 
+        organization: organizationId 
       }).lean();
 
       if (!jobs || jobs.length === 0) {
@@ -80,7 +83,7 @@ export async function fetchJobsWithAssessments(): Promise<ActionResponse<JobWith
       // Find assessments for these jobs
       const assessments = await AssessmentModel.find({
         jobOpportunity: { $in: jobIds },
-        employer: employerId
+        organization: organizationId
       }).lean();
 
       // Create a map of jobId -> assessment
@@ -133,7 +136,7 @@ export async function fetchJobsWithAssessments(): Promise<ActionResponse<JobWith
 
 export async function fetchCandidatesForJob(jobId: string): Promise<ActionResponse<CandidateApplication[]>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { organizationId } = await requireOrganization('interviewer');
 
     // Validate jobId
     if (!mongoose.Types.ObjectId.isValid(jobId)) {
@@ -141,10 +144,10 @@ export async function fetchCandidatesForJob(jobId: string): Promise<ActionRespon
     }
 
     return await withDatabase(async () => {
-      // Verify job belongs to employer
+      // Verify job belongs to the employer's organization
       const job = await JobOpportunityModel.findOne({
         _id: jobId,
-        employer: employerId
+        organization: organizationId
       });
 
       if (!job) {
@@ -165,6 +168,13 @@ export async function fetchCandidatesForJob(jobId: string): Promise<ActionRespon
       // Transform data
       const candidateApplications: CandidateApplication[] = applications.map(app => {
         const candidate = app.candidateId as any;
+        const extensions: CandidateApplication['extensions'] = {};
+        for (const [round, extension] of Object.entries(app.scheduleExtensions || {})) {
+          if (extension?.closesAt) {
+            extensions[round as RoundInfo['type']] = new Date(extension.closesAt).toISOString();
+          }
+        }
+
         return {
           _id: app._id.toString(),
           candidateId: candidate._id.toString(),
@@ -178,7 +188,8 @@ export async function fetchCandidatesForJob(jobId: string): Promise<ActionRespon
             coding: 'pending',
             technicalInterview: 'pending',
             hrInterview: 'pending'
-          }
+          },
+          extensions
         };
       });
 
@@ -195,7 +206,7 @@ export async function fetchRoundInfo(
   roundId: string
 ): Promise<ActionResponse<RoundInfo>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { organizationId } = await requireOrganization('interviewer');
 
     if (!mongoose.Types.ObjectId.isValid(roundId)) {
       return createErrorResponse('Invalid round ID');
@@ -209,10 +220,10 @@ export async function fetchRoundInfo(
           return createErrorResponse('Aptitude round not found');
         }
 
-        // Verify the assessment belongs to this employer
+        // Verify the assessment belongs to the employer's organization
         const assessment = await AssessmentModel.findOne({
           _id: aptitude.assessmentId,
-          employer: employerId
+          organization: organizationId
         });
 
         if (!assessment) {
@@ -233,7 +244,7 @@ export async function fetchRoundInfo(
         }
         const assessment = await AssessmentModel.findOne({
           _id: (coding as any).assessmentId,
-          employer: employerId
+          organization: organizationId
         }).lean();
         if (!assessment) {
           return createErrorResponse('Unauthorized access to this round');
@@ -252,7 +263,7 @@ export async function fetchRoundInfo(
         }
         const assessment = await AssessmentModel.findOne({
           _id: technicalInterview.assessmentId,
-          employer: employerId
+          organization: organizationId
         }).lean();
         if (!assessment) {
           return createErrorResponse('Unauthorized access to this round');
@@ -271,7 +282,7 @@ export async function fetchRoundInfo(
         }
         const assessment = await AssessmentModel.findOne({
           _id: hrInterview.assessmentId,
-          employer: employerId
+          organization: organizationId
         }).lean();
         if (!assessment) {
           return createErrorResponse('Unauthorized access to this round');
@@ -294,7 +305,7 @@ export async function updateCandidatesForRound(
   candidateIds: string[]
 ): Promise<ActionResponse<{ updatedCount: number }>> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { organizationId } = await requireOrganization('recruiter');
 
     // Validate roundId
     if (!mongoose.Types.ObjectId.isValid(roundId)) {
@@ -315,10 +326,10 @@ export async function updateCandidatesForRound(
           return createErrorResponse('Aptitude round not found');
         }
 
-        // Verify the assessment belongs to this employer
+        // Verify the assessment belongs to the employer's organization
         const assessment = await AssessmentModel.findOne({
           _id: aptitude.assessmentId,
-          employer: employerId
+          organization: organizationId
         });
 
         if (!assessment) {
@@ -358,6 +369,8 @@ export async function updateCandidatesForRound(
           }
         );
 
+        await notifyShortlisted(assessment, 'aptitude', candidateObjectIds);
+
         return createSuccessResponse(
           `Successfully selected ${candidateIds.length} candidates for aptitude round and updated application status`,
           { 
@@ -373,10 +386,10 @@ export async function updateCandidatesForRound(
           return createErrorResponse('Coding round not found');
         }
 
-        // Verify the assessment belongs to this employer
+        // Verify the assessment belongs to the employer's organization
         const assessment = await AssessmentModel.findOne({
           _id: (coding as any).assessmentId,
-          employer: employerId
+          organization: organizationId
         });
 
         if (!assessment) {
@@ -411,6 +424,8 @@ export async function updateCandidatesForRound(
           }
         );
 
+        await notifyShortlisted(assessment, 'coding', candidateObjectIds);
+
         return createSuccessResponse(
           `Successfully selected ${candidateIds.length} candidates for coding round and updated application status`,
           {
@@ -426,10 +441,10 @@ export async function updateCandidatesForRound(
           return createErrorResponse('Technical interview round not found');
         }
 
-        // Verify the assessment belongs to this employer
+        // Verify the assessment belongs to the employer's organization
         const assessment = await AssessmentModel.findOne({
           _id: technicalInterview.assessmentId,
-          employer: employerId
+          organization: organizationId
         });
 
         if (!assessment) {
@@ -468,6 +483,8 @@ export async function updateCandidatesForRound(
           }
         );
 
+        await notifyShortlisted(assessment, 'technicalInterview', candidateObjectIds);
+
         return createSuccessResponse(
           `Successfully selected ${candidateIds.length} candidates for technical interview round and updated application status`,
           {
@@ -483,10 +500,10 @@ export async function updateCandidatesForRound(
           return createErrorResponse('HR interview round not found');
         }
 
-        // Verify the assessment belongs to this employer
+        // Verify the assessment belongs to the employer's organization
         const assessment = await AssessmentModel.findOne({
           _id: hrInterview.assessmentId,
-          employer: employerId
+          organization: organizationId
         });
 
         if (!assessment) {
@@ -525,6 +542,8 @@ export async function updateCandidatesForRound(
           }
         );
 
+        await notifyShortlisted(assessment, 'hrInterview', candidateObjectIds);
+
         return createSuccessResponse(
           `Successfully selected ${candidateIds.length} candidates for HR interview round and updated application status`,
           {
@@ -538,3 +557,66 @@ export async function updateCandidatesForRound(
     });
   });
 }
+
+/**
+ * Gives candidates until closesAt to start a round whose scheduling window has closed or is about to.
+ * Passing null removes their extensions for the round.
+ */
+export async function extendRoundWindow(
+  jobId: string,
+  roundType: 'aptitude' | 'coding' | 'technicalInterview' | 'hrInterview',
+  candidateIds: string[],
+  closesAt: string | null
+): Promise<ActionResponse<{ updatedCount: number }>> {
+  return safeAction(async () => {
+    const { userId, organizationId } = await requireOrganization('recruiter');
+
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      return createErrorResponse('Invalid job ID');
+    }
+    if (!['aptitude', 'coding', 'technicalInterview', 'hrInterview'].includes(roundType)) {
+      return createErrorResponse(`Unknown round type: ${roundType}`);
+    }
+    if (candidateIds.length === 0 || candidateIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      return createErrorResponse('Select the candidates to extend the window for');
+    }
+
+    const closingTime = closesAt ? new Date(closesAt) : null;
+    if (closingTime && (isNaN(closingTime.getTime()) || closingTime <= new Date())) {
+      return createErrorResponse('The extended closing time must be in the future');
+    }
+
+    return await withDatabase(async () => {
+      const job = await JobOpportunityModel.exists({ _id: jobId, organization: organizationId });
+      if (!job) {
+        return createErrorResponse('Job not found or unauthorized');
+      }
+
+      const field = `scheduleExtensions.${roundType}`;
+      const updateResult = await ApplicationModel.updateMany(
+        {
+          candidateId: { $in: candidateIds.map(id => new mongoose.Types.ObjectId(id)) },
+          jobId: new mongoose.Types.ObjectId(jobId)
+        },
+        closingTime
+          ? {
+              $set: {
+                [field]: {
+                  closesAt: closingTime,
+                  grantedBy: new mongoose.Types.ObjectId(userId),
+                  grantedAt: new Date()
+                }
+              }
+            }
+          : { $unset: { [field]: '' } }
+      );
+
+      return createSuccessResponse(
+        closingTime
+          ? `Extended the window for ${updateResult.matchedCount} candidates`
+          : `Removed the extension for ${updateResult.matchedCount} candidates`,
+        { updatedCount: updateResult.matchedCount }
+      );
+    });
+  });
+}
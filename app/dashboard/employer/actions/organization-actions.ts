@@ -0,0 +1,347 @@
+"use server";
+
+import { createHash, randomBytes } from 'crypto';
+import mongoose from 'mongoose';
+import OrganizationModel, { type OrganizationInvitation, type OrganizationRole } from '@/models/organization.model';
+import EmployerModel from '@/models/employer.model';
+import EmployerProfileModel from '@/models/employerProfile.model';
+import {
+  safeAction,
+  createSuccessResponse,
+  createErrorResponse,
+  withDatabase,
+  logSuccess,
+  type ActionResponse
+} from '@/utils/action-helpers';
+import { requireRole } from '@/utils/auth-helpers';
+import { joinOrganization, requireOrganization } from '@/lib/organization/membership';
+import { sendMail } from '@/lib/mail/transport';
+import { organizationInvitationEmail } from '@/lib/mail/templates';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface OrganizationMemberInfo {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: string;
+  isCurrentUser: boolean;
+}
+
+export interface OrganizationInvitationInfo {
+  id: string;
+  email: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  expiresAt: string;
+  expired: boolean;
+}
+
+export interface OrganizationDetails {
+  id: string;
+  name: string;
+  currentUserRole: OrganizationRole;
+  members: OrganizationMemberInfo[];
+  invitations: OrganizationInvitationInfo[]; // only listed for owners
+}
+
+export interface InvitationPreview {
+  organizationName: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  email: string;
+  expired: boolean;
+  emailMatches: boolean;
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+const INVITATION_TTL_DAYS = 7;
+const INVITABLE_ROLES: OrganizationRole[] = ['recruiter', 'interviewer'];
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Display name of the organization: the company name from its profile, or the name it was created with
+ */
+async function getOrganizationName(organizationId: mongoose.Types.ObjectId, fallback: string): Promise<string> {
+  const profile = await EmployerProfileModel.findOne({ organization: organizationId }).select('companyName').lean();
+  return profile?.companyName || fallback || 'your team';
+}
+
+/**
+ * Loads the organization for a member update and checks that it keeps at least one owner
+ */
+async function updateMembers(
+  organizationId: mongoose.Types.ObjectId,
+  memberId: string,
+  change: (members: { user: mongoose.Types.ObjectId; role: OrganizationRole }[]) => void
+): Promise<void> {
+  const organization = await OrganizationModel.findById(organizationId);
+  if (!organization) {
+    throw new Error('Organization not found');
+  }
+  if (!organization.members.some(m => m.user.toString() === memberId)) {
+    throw new Error('Member not found');
+  }
+
+  change(organization.members);
+  if (!organization.members.some(m => m.role === 'owner')) {
+    throw new Error('An organization needs at least one owner');
+  }
+
+  organization.markModified('members');
+  await organization.save();
+}
+
+// ========================================
+// ACTIONS
+// ========================================
+
+/**
+ * Fetches the signed-in employer's organization with its members and, for owners, pending invitations
+ */
+export async function fetchOrganization(): Promise<ActionResponse<OrganizationDetails>> {
+  return safeAction(async () => {
+    const { userId, organizationId, role } = await requireOrganization();
+
+    return await withDatabase(async () => {
+      const organization = await OrganizationModel.findById(organizationId).lean();
+      if (!organization) {
+        return createErrorResponse('Organization not found');
+      }
+
+      const employers = await EmployerModel.find({ _id: { $in: organization.members.map(m => m.user) } })
+        .select('firstName lastName email')
+        .lean();
+      const employerMap = new Map(employers.map(e => [String(e._id), e]));
+      const now = new Date();
+
+      return createSuccessResponse('Organization fetched successfully', {
+        id: organizationId.toString(),
+        name: await getOrganizationName(organizationId, organization.name),
+        currentUserRole: role,
+        members: organization.members.map(member => {
+          const employer = employerMap.get(member.user.toString());
+          return {
+            userId: member.user.toString(),
+            name: employer ? `${employer.firstName} ${employer.lastName}`.trim() : 'Unknown member',
+            email: employer?.email || '',
+            role: member.role,
+            joinedAt: new Date(member.joinedAt).toISOString(),
+            isCurrentUser: member.user.toString() === userId
+          };
+        }),
+        invitations: role === 'owner'
+          ? organization.invitations.map(invitation => ({
+              id: invitation._id.toString(),
+              email: invitation.email,
+              role: invitation.role,
+              expiresAt: new Date(invitation.expiresAt).toISOString(),
+              expired: new Date(invitation.expiresAt) <= now
+            }))
+          : []
+      });
+    }, 'Failed to fetch organization');
+  }, 'Failed to fetch organization');
+}
+
+/**
+ * Invites someone to the organization by email. Inviting the same email again replaces the earlier invitation.
+ */
+export async function inviteOrganizationMember(
+  email: string,
+  role: OrganizationRole
+): Promise<ActionResponse<OrganizationInvitationInfo>> {
+  return safeAction(async () => {
+    const { userId, organizationId } = await requireOrganization('owner');
+
+    const normalizedEmail = String(email || '').trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      return createErrorResponse('Enter a valid email address');
+    }
+    if (!INVITABLE_ROLES.includes(role)) {
+      return createErrorResponse('Members can be invited as recruiters or interviewers');
+    }
+
+    return await withDatabase(async () => {
+      const organization = await OrganizationModel.findById(organizationId);
+      if (!organization) {
+        return createErrorResponse('Organization not found');
+      }
+
+      const members = await EmployerModel.find({ _id: { $in: organization.members.map(m => m.user) } })
+        .select('email')
+        .lean();
+      if (members.some(m => m.email.toLowerCase() === normalizedEmail)) {
+        return createErrorResponse('This person is already a member of your organization');
+      }
+
+      const token = randomBytes(32).toString('hex');
+      const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+      organization.invitations = organization.invitations.filter(i => i.email !== normalizedEmail);
+      const invitation: OrganizationInvitation = {
+        _id: new mongoose.Types.ObjectId(),
+        email: normalizedEmail,
+        role: role as OrganizationInvitation['role'],
+        tokenHash: hashInvitationToken(token),
+        invitedBy: new mongoose.Types.ObjectId(userId),
+        expiresAt,
+        createdAt: new Date()
+      };
+      organization.invitations.push(invitation);
+      await organization.save();
+
+      const inviter = await EmployerModel.findById(userId).select('firstName lastName').lean();
+      const organizationName = await getOrganizationName(organizationId, organization.name);
+      const link = `${process.env.NEXTAUTH_URL || ''}/dashboard/employer/invite?token=${token}`;
+      await sendMail({
+        to: normalizedEmail,
+        ...organizationInvitationEmail(
+          organizationName,
+          inviter ? `${inviter.firstName} ${inviter.lastName}`.trim() : 'A colleague',
+          role,
+          link,
+          INVITATION_TTL_DAYS
+        )
+      });
+
+      logSuccess(`Invited ${normalizedEmail} to organization ${organizationId} as ${role}`);
+      return createSuccessResponse('Invitation sent', {
+        id: invitation._id.toString(),
+        email: normalizedEmail,
+        role: invitation.role,
+        expiresAt: expiresAt.toISOString(),
+        expired: false
+      });
+    }, 'Failed to send invitation');
+  }, 'Failed to send invitation');
+}
+
+/**
+ * Withdraws a pending invitation
+ */
+export async function revokeOrganizationInvitation(invitationId: string): Promise<ActionResponse> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('owner');
+
+    return await withDatabase(async () => {
+      const { modifiedCount } = await OrganizationModel.updateOne(
+        { _id: organizationId },
+        { $pull: { invitations: { _id: new mongoose.Types.ObjectId(invitationId) } } }
+      );
+      if (!modifiedCount) {
+        return createErrorResponse('Invitation not found');
+      }
+      return createSuccessResponse('Invitation revoked');
+    }, 'Failed to revoke invitation');
+  }, 'Failed to revoke invitation');
+}
+
+/**
+ * Changes a member's role. The organization always keeps at least one owner.
+ */
+export async function updateOrganizationMemberRole(
+  memberId: string,
+  role: OrganizationRole
+): Promise<ActionResponse> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('owner');
+    if (!['owner', ...INVITABLE_ROLES].includes(role)) {
+      return createErrorResponse('Invalid role');
+    }
+
+    return await withDatabase(async () => {
+      await updateMembers(organizationId, memberId, members => {
+        const member = members.find(m => m.user.toString() === memberId);
+        if (member) member.role = role;
+      });
+      return createSuccessResponse('Member role updated');
+    }, 'Failed to update member role');
+  }, 'Failed to update member role');
+}
+
+/**
+ * Removes a member from the organization. Their next visit to the dashboard starts a new personal organization;
+ * the jobs and assessments they created stay with this one.
+ */
+export async function removeOrganizationMember(memberId: string): Promise<ActionResponse> {
+  return safeAction(async () => {
+    const { organizationId } = await requireOrganization('owner');
+
+    return await withDatabase(async () => {
+      await updateMembers(organizationId, memberId, members => {
+        members.splice(members.findIndex(m => m.user.toString() === memberId), 1);
+      });
+      return createSuccessResponse('Member removed');
+    }, 'Failed to remove member');
+  }, 'Failed to remove member');
+}
+
+/**
+ * Shows an invitation to the signed-in employer before they accept it
+ */
+export async function fetchInvitation(token: string): Promise<ActionResponse<InvitationPreview>> {
+  return safeAction(async () => {
+    const userId = await requireRole('employer');
+
+    return await withDatabase(async () => {
+      const tokenHash = hashInvitationToken(String(token || ''));
+      const organization = await OrganizationModel.findOne({ 'invitations.tokenHash': tokenHash }).lean();
+      const invitation = organization?.invitations.find(i => i.tokenHash === tokenHash);
+      if (!organization || !invitation) {
+        return createErrorResponse('This invitation is no longer valid');
+      }
+
+      const employer = await EmployerModel.findById(userId).select('email').lean();
+      return createSuccessResponse('Invitation fetched successfully', {
+        organizationName: await getOrganizationName(organization._id as mongoose.Types.ObjectId, organization.name),
+        role: invitation.role,
+        email: invitation.email,
+        expired: new Date(invitation.expiresAt) <= new Date(),
+        emailMatches: employer?.email.toLowerCase() === invitation.email
+      });
+    }, 'Failed to fetch invitation');
+  }, 'Failed to fetch invitation');
+}
+
+/**
+ * Accepts an invitation sent to the signed-in employer's email address
+ */
+export async function acceptInvitation(token: string): Promise<ActionResponse> {
+  return safeAction(async () => {
+    const userId = await requireRole('employer');
+
+    return await withDatabase(async () => {
+      const tokenHash = hashInvitationToken(String(token || ''));
+      const organization = await OrganizationModel.findOne({ 'invitations.tokenHash': tokenHash }).lean();
+      const invitation = organization?.invitations.find(i => i.tokenHash === tokenHash);
+      if (!organization || !invitation) {
+        return createErrorResponse('This invitation is no longer valid');
+      }
+      if (new Date(invitation.expiresAt) <= new Date()) {
+        return createErrorResponse('This invitation has expired. Ask for a new one.');
+      }
+
+      const employer = await EmployerModel.findById(userId).select('email').lean();
+      if (employer?.email.toLowerCase() !== invitation.email) {
+        return createErrorResponse(`This invitation was sent to ${invitation.email}. Sign in with that account to accept it.`);
+      }
+
+      const organizationId = organization._id as mongoose.Types.ObjectId;
+      await joinOrganization(userId, organizationId, invitation.role);
+      await OrganizationModel.updateOne(
+        { _id: organizationId },
+        { $pull: { invitations: { _id: invitation._id } } }
+      );
+
+      logSuccess(`Employer ${userId} joined organization ${organizationId} as ${invitation.role}`);
+      return createSuccessResponse(`You joined ${await getOrganizationName(organizationId, organization.name)}`);
+    }, 'Failed to accept invitation');
+  }, 'Failed to accept invitation');
+}
@@ -10,6 +10,7 @@ import {
   logSuccess,
   type ActionResponse 
 } from '@/utils/action-helpers';
+import { assertRoundInOrganization, requireOrganization } from '@/lib/organization/membership';
 
 // Export TechnicalInterview type for use in forms
 export type { TechnicalInterview };
@@ -19,8 +20,10 @@ export async function createTechnicalInterviewRound(
   interviewData: Omit<TechnicalInterview, keyof Document | 'createdAt' | 'updatedAt'>
 ): Promise<ActionResponse<TechnicalInterview>> {
   return safeAction(async () => {
+    const { organizationId } = await requireOrganization('recruiter');
+
     return await withDatabase(async () => {
-      const newInterview = new TechnicalInterviewModel(interviewData);
+      const newInterview = new TechnicalInterviewModel({ ...interviewData, organization: organizationId });
       const savedInterview = await newInterview.save();
 
       const interviewPlain = JSON.parse(JSON.stringify(savedInterview));
@@ -38,10 +41,19 @@ export async function updateTechnicalInterviewRound(
   updateData: Partial<Omit<TechnicalInterview, keyof Document | 'createdAt' | 'updatedAt'>>
 ): Promise<ActionResponse<TechnicalInterview>> {
   return safeAction(async () => {
+    const { organizationId } = await requireOrganization('recruiter');
+
     return await withDatabase(async () => {
+      await assertRoundInOrganization('technicalInterview', interviewId, organizationId);
+
+      // The owning organization and assessment link are set by the server
+      const editableData = { ...updateData };
+      delete editableData.organization;
+      delete editableData.assessmentId;
+
       const updatedInterview = await TechnicalInterviewModel.findByIdAndUpdate(
         interviewId,
-        updateData,
+        editableData,
         { new: true, runValidators: true }
       );
 
@@ -61,7 +73,11 @@ export async function updateTechnicalInterviewRound(
 // Fetch technical interview round by ID
 export async function fetchTechnicalInterviewById(interviewId: string): Promise<ActionResponse<TechnicalInterview>> {
   return safeAction(async () => {
+    const { organizationId } = await requireOrganization('interviewer');
+
     return await withDatabase(async () => {
+      await assertRoundInOrganization('technicalInterview', interviewId, organizationId);
+
       const interview = await TechnicalInterviewModel.findById(interviewId).lean();
 
       if (!interview) {
@@ -14,10 +14,14 @@ import {
   fetchCandidatesForJob,
   fetchRoundInfo,
   updateCandidatesForRound,
+  extendRoundWindow,
   fetchEmployerJobs,
   fetchJobDetails,
   updateJobDetails,
   updateAssessmentDetails,
+  fetchProblemBank,
+  fetchAptitudeQuestionCounts,
+  fetchOrganization,
   type JobCreationData,
   type JobWithAssessment,
   type CandidateApplication,
@@ -26,10 +30,20 @@ import {
   type JobDetailedInfo,
   type JobUpdateData,
   type AssessmentUpdateData,
+  type ProblemBankItem,
+  type AptitudeQuestionCounts,
+  type AssessmentCreationData,
+  type OrganizationDetails,
 } from './actions';
 import { toast } from 'sonner';
 import mongoose from 'mongoose';
 import { DashboardData } from './types';
+import type {
+  CandidateRoundDetails,
+  ProctoringReviewDetail,
+  ReviewRound
+} from './actions/candidate-evaluation-actions';
+import type { ProctoringDecision } from '@/lib/proctoring/review';
 
 // Types
 export interface AssessmentFormData {
@@ -39,6 +53,10 @@ export interface AssessmentFormData {
   jobTitle: string;
   timeLimit: number;
   maxAttempts: number;
+  progressionRules?: AssessmentCreationData['progressionRules'];
+  sendReminders?: boolean;
+  reminderTimings?: number[];
+  publishResults?: boolean;
   rounds: {
     aptitude?: {
       enabled: boolean;
@@ -59,6 +77,17 @@ export interface AssessmentFormData {
   };
 }
 
+// Splits 100% equally across the enabled rounds, giving any remainder to the first round
+function splitRoundWeightage(rounds: AssessmentFormData['rounds']) {
+  const enabled = (['aptitude', 'coding', 'technicalInterview', 'hrInterview'] as const)
+    .filter(round => rounds[round]?.enabled);
+  const share = enabled.length ? Math.floor(100 / enabled.length) : 0;
+
+  return Object.fromEntries(
+    enabled.map((round, index) => [round, share + (index === 0 ? 100 - share * enabled.length : 0)])
+  );
+}
+
 // Custom hook for managing assessment creation
 export function useAssessmentCreation() {
   const [loading, setLoading] = useState(false);
@@ -74,6 +103,8 @@ export function useAssessmentCreation() {
         jobOpportunity: new mongoose.Types.ObjectId(data.jobId),
         employer: new mongoose.Types.ObjectId('507f1f77bcf86cd799439011'), // TODO: Get from auth context
         status: 'draft' as const,
+        // Round dates and times are entered in the employer's local time
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         
         toConductRounds: {
           aptitude: data.rounds.aptitude?.enabled || false,
@@ -98,22 +129,17 @@ export function useAssessmentCreation() {
 
         overallPassingCriteria: {
           minimumRoundsToPass: 1,
-          weightagePerRound: {
-            // Only set aptitude to 100% when it's the only enabled round
-            ...(data.rounds.aptitude?.enabled && { aptitude: 100 })
-            // Other rounds commented out for now
-            // ...(data.rounds.coding?.enabled && { coding: data.rounds.coding.weightage }),
-            // ...(data.rounds.technicalInterview?.enabled && { technicalInterview: data.rounds.technicalInterview.weightage }),
-            // ...(data.rounds.hrInterview?.enabled && { hrInterview: data.rounds.hrInterview.weightage })
-          }
+          weightagePerRound: splitRoundWeightage(data.rounds)
         },
 
+        progressionRules: data.progressionRules || {},
+
         totalCandidates: 0,
         completedCandidates: 0,
         passingCandidates: 0,
-        sendReminders: true,
-        reminderTimings: [24, 2],
-        publishResults: false,
+        sendReminders: data.sendReminders ?? true,
+        reminderTimings: data.reminderTimings ?? [24, 2],
+        publishResults: data.publishResults ?? false,
         allowMultipleAttempts: data.maxAttempts > 1,
         maxAttempts: data.maxAttempts,
         ipRestrictions: [],
@@ -239,21 +265,14 @@ export function useDashboardData() {
       // Build DashboardData object
       const dashboard: DashboardData = {
         stats: statsRes.success ? (statsRes.data || []) : [],
-        candidatesByStage: candidatesRes.success
-          ? (candidatesRes.data || {
-              applied: [],
-              screening: [],
-              interview: [],
-              offer: [],
-              hired: [],
-            })
-          : {
-              applied: [],
-              screening: [],
-              interview: [],
-              offer: [],
-              hired: [],
-            },
+        candidatesByStage: (candidatesRes.success && candidatesRes.data?.candidatesByStage) || {
+          applied: [],
+          screening: [],
+          interview: [],
+          offer: [],
+          hired: [],
+        },
+        stageCounts: candidatesRes.success ? candidatesRes.data?.stageCounts : undefined,
         codePreview: monitoringRes.success ? (monitoringRes.data || []) : [],
         jobs: jobsRes.success ? (jobsRes.data || []) : [],
         activities: activitiesRes.success ? (activitiesRes.data || []) : [],
@@ -463,6 +482,45 @@ export function useUpdateCandidatesForRound() {
   };
 }
 
+/**
+ * Hook to extend a round's scheduling window for candidates, or remove the extension with null
+ */
+export function useExtendRoundWindow() {
+  const [loading, setLoading] = useState(false);
+
+  const extendWindow = useCallback(async (
+    jobId: string,
+    roundType: 'aptitude' | 'coding' | 'technicalInterview' | 'hrInterview',
+    candidateIds: string[],
+    closesAt: string | null
+  ) => {
+    setLoading(true);
+    
+    try {
+      const result = await extendRoundWindow(jobId, roundType, candidateIds, closesAt);
+      
+      if (result.success) {
+        toast.success(result.message);
+        return { success: true, data: result.data };
+      } else {
+        toast.error(result.message);
+        return { success: false, message: result.message };
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to extend the round window';
+      toast.error(message);
+      return { success: false, message };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    extendWindow,
+    loading
+  };
+}
+
 // ========================================
 // JOB MANAGEMENT HOOKS
 // ========================================
@@ -702,4 +760,286 @@ export function useFetchShortlistedCandidates(jobId?: string) {
   return { candidates, loading, error, refetch: fetchCandidates };
 }
 
+/**
+ * Hook to fetch a candidate's aptitude, technical and HR round details
+ */
+export function useFetchCandidateRoundDetails(applicationId: string | null) {
+  const [details, setDetails] = useState<CandidateRoundDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDetails = useCallback(async () => {
+    if (!applicationId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { fetchCandidateRoundDetails } = await import('./actions/candidate-evaluation-actions');
+      const result = await fetchCandidateRoundDetails(applicationId);
+
+      if (result.success && result.data) {
+        setDetails(result.data);
+      } else {
+        setError(result.error || result.message);
+        toast.error(result.error || result.message);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch round details';
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    fetchDetails();
+  }, [fetchDetails]);
+
+  return { details, loading, error, refetch: fetchDetails };
+}
+
+/**
+ * Hook to select or reject a candidate
+ */
+export function useUpdateCandidateDecision() {
+  const [loading, setLoading] = useState(false);
+
+  const updateDecision = useCallback(async (applicationId: string, decision: 'accepted' | 'rejected') => {
+    setLoading(true);
+
+    try {
+      const { updateCandidateDecision } = await import('./actions/candidate-evaluation-actions');
+      const result = await updateCandidateDecision(applicationId, decision);
+
+      if (result.success) {
+        toast.success(result.message);
+        return { success: true, data: result.data };
+      } else {
+        toast.error(result.error || result.message);
+        return { success: false, message: result.error || result.message };
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update candidate';
+      toast.error(message);
+      return { success: false, message };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    updateDecision,
+    loading
+  };
+}
+
+/**
+ * Hook to fetch the proctoring review timeline of a candidate's round
+ */
+export function useProctoringReview(applicationId: string, round: ReviewRound) {
+  const [review, setReview] = useState<ProctoringReviewDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReview = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { fetchProctoringReview } = await import('./actions/candidate-evaluation-actions');
+      const result = await fetchProctoringReview(applicationId, round);
+
+      if (result.success) {
+        setReview(result.data ?? null);
+      } else {
+        setError(result.error || result.message);
+        toast.error(result.error || result.message);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch proctoring review';
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId, round]);
+
+  useEffect(() => {
+    fetchReview();
+  }, [fetchReview]);
+
+  return { review, setReview, loading, error, refetch: fetchReview };
+}
+
+/**
+ * Hook to dismiss a proctoring item as a false positive, or confirm it (optionally invalidating the round)
+ */
+export function useReviewProctoringItem() {
+  const [loading, setLoading] = useState(false);
+
+  const reviewItem = useCallback(async (
+    applicationId: string,
+    round: ReviewRound,
+    itemId: string,
+    decision: ProctoringDecision,
+    options?: { note?: string; invalidateRound?: boolean }
+  ) => {
+    setLoading(true);
+
+    try {
+      const { reviewProctoringItem } = await import('./actions/candidate-evaluation-actions');
+      const result = await reviewProctoringItem(applicationId, round, itemId, decision, options);
+
+      if (result.success) {
+        toast.success(result.message);
+        return { success: true, data: result.data };
+      } else {
+        toast.error(result.error || result.message);
+        return { success: false, message: result.error || result.message };
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to review proctoring item';
+      toast.error(message);
+      return { success: false, message };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    reviewItem,
+    loading
+  };
+}
+
+
+
+/**
+ * Hook to fetch the coding problem bank, optionally filtered by difficulty and tags
+ */
+export function useProblemBank(difficulty?: string, tags: string[] = []) {
+  const [problems, setProblems] = useState<ProblemBankItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const tagKey = tags.join(',');
+
+  const fetchProblems = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchProblemBank({
+        difficulty,
+        tags: tagKey ? tagKey.split(',') : []
+      });
+
+      if (result.success) {
+        setProblems(result.data || []);
+      } else {
+        setError(result.message);
+        toast.error(result.message);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch problem bank';
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [difficulty, tagKey]);
+
+  useEffect(() => {
+    fetchProblems();
+  }, [fetchProblems]);
+
+  return {
+    problems,
+    loading,
+    error,
+    refetch: fetchProblems
+  };
+}
+
+/**
+ * Hook to fetch how many aptitude questions are available per topic and difficulty
+ */
+export function useAptitudeQuestionBank() {
+  const [counts, setCounts] = useState<AptitudeQuestionCounts | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCounts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchAptitudeQuestionCounts();
+
+      if (result.success) {
+        setCounts(result.data || null);
+      } else {
+        setError(result.message);
+        toast.error(result.message);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch question bank';
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCounts();
+  }, [fetchCounts]);
+
+  return {
+    counts,
+    loading,
+    error,
+    refetch: fetchCounts
+  };
+}
+
+/**
+ * Hook to fetch the employer's organization with its members and pending invitations
+ */
+export function useOrganization() {
+  const [organization, setOrganization] = useState<OrganizationDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOrganization = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchOrganization();
+
+      if (result.success && result.data) {
+        setOrganization(result.data);
+      } else {
+        setError(result.message);
+        toast.error(result.message);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch organization';
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
+  useEffect(() => {
+    loadOrganization();
+  }, [loadOrganization]);
+
+  return {
+    organization,
+    loading,
+    error,
+    refetch: loadOrganization
+  };
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Users } from "lucide-react";
+import { toast } from "sonner";
+import { acceptInvitation, fetchInvitation, type InvitationPreview } from "../../actions";
+
+export default function AcceptInvitation() {
+  const router = useRouter();
+  const token = useSearchParams().get("token") || "";
+
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError("This invitation link is incomplete.");
+      setLoading(false);
+      return;
+    }
+
+    fetchInvitation(token)
+      .then((result) => {
+        if (result.success && result.data) {
+          setInvitation(result.data);
+        } else {
+          setError(result.message);
+        }
+      })
+      .catch(() => setError("Failed to load the invitation"))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    try {
+      const result = await acceptInvitation(token);
+      if (result.success) {
+        toast.success(result.message);
+        router.push("/dashboard/employer");
+      } else {
+        toast.error(result.error || result.message);
+      }
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="mt-16 px-4 sm:px-6 lg:px-8 xl:px-12 py-8 flex justify-center">
+      <Card className="w-full max-w-lg bg-white/5 border-white/10">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-white">
+            <Users className="w-5 h-5" /> Team invitation
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <Skeleton className="h-20 w-full bg-white/10" />
+          ) : error || !invitation ? (
+            <Alert variant="destructive">
+              <AlertDescription>{error || "This invitation is no longer valid"}</AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              <p className="text-white/80">
+                You were invited to join <span className="font-semibold text-white">{invitation.organizationName}</span> as{" "}
+                {invitation.role === "interviewer" ? "an" : "a"} <span className="font-semibold text-white">{invitation.role}</span>.
+              </p>
+              <p className="text-sm text-white/60">
+                Your jobs and assessments move with you if you are the only member of your current team.
+              </p>
+              {invitation.expired && (
+                <Alert variant="destructive">
+                  <AlertDescription>This invitation has expired. Ask for a new one.</AlertDescription>
+                </Alert>
+              )}
+              {!invitation.emailMatches && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    This invitation was sent to {invitation.email}. Sign in with that account to accept it.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Button
+                disabled={accepting || invitation.expired || !invitation.emailMatches}
+                onClick={handleAccept}
+                className="w-full bg-purple-500 text-white font-semibold hover:bg-purple-700"
+              >
+                {accepting ? "Joining..." : `Join ${invitation.organizationName}`}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
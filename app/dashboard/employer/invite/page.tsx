@@ -0,0 +1,13 @@
+import React, { Suspense } from "react";
+import RoleWrapper from "@/lib/RoleWrapper";
+import AcceptInvitation from "./_components/AcceptInvitation";
+
+export default function InvitePage() {
+  return (
+    <RoleWrapper role={["employer"]}>
+      <Suspense>
+        <AcceptInvitation />
+      </Suspense>
+    </RoleWrapper>
+  );
+}
@@ -35,21 +35,14 @@ async function DashboardWrapper() {
   // Build dashboard data
   const dashboardData = {
     stats: statsRes.success ? (statsRes.data || []) : [],
-    candidatesByStage: candidatesRes.success
-      ? (candidatesRes.data || {
-          applied: [],
-          screening: [],
-          interview: [],
-          offer: [],
-          hired: [],
-        })
-      : {
-          applied: [],
-          screening: [],
-          interview: [],
-          offer: [],
-          hired: [],
-        },
+    candidatesByStage: (candidatesRes.success && candidatesRes.data?.candidatesByStage) || {
+      applied: [],
+      screening: [],
+      interview: [],
+      offer: [],
+      hired: [],
+    },
+    stageCounts: candidatesRes.success ? candidatesRes.data?.stageCounts : undefined,
     codePreview: monitoringRes.success ? (monitoringRes.data || []) : [],
     jobs: jobsRes.success ? (jobsRes.data || []) : [],
     activities: activitiesRes.success ? (activitiesRes.data || []) : [],
@@ -20,12 +20,14 @@ export type Candidate = {
   score: string;
 };
 
-export type CandidatesByStage = {
-  applied: Candidate[];
-  screening: Candidate[];
-  interview: Candidate[];
-  offer: Candidate[];
-  hired: Candidate[];
+export type PipelineStage = "applied" | "screening" | "interview" | "offer" | "hired";
+
+export type CandidatesByStage = Record<PipelineStage, Candidate[]>;
+
+// Columns only list the latest candidates, stageCounts holds the full totals
+export type CandidatePipeline = {
+  candidatesByStage: CandidatesByStage;
+  stageCounts: Record<PipelineStage, number>;
 };
 
 export type Job = {
@@ -40,12 +42,15 @@ export type CodePreview = {
   title: string;
   badge: string;
   metrics: string;
+  code?: string; // latest saved code of a live coding session
+  feed?: string; // proctoring status of a live interview
 };
 
 export type DashboardData = {
   stats: Stat[];
   activities: Activity[];
   candidatesByStage: CandidatesByStage;
+  stageCounts?: Record<PipelineStage, number>;
   codePreview: CodePreview[];
   jobs: Job[];
 };
@@ -2,48 +2,141 @@
 
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Slider } from '@/components/ui/slider';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Skeleton } from '@/components/ui/skeleton';
 import { JobFilters } from '../types';
+import {
+  EMPLOYMENT_TYPES,
+  LOCATION_TYPES,
+  POSTED_WITHIN_OPTIONS,
+  SENIORITY_LEVELS
+} from '../search-params';
+
+type JobFilterListKey = 'employmentType' | 'seniority' | 'locationType' | 'techStack';
 
 interface JobFiltersProps {
   techStackOptions: string[];
   techStackLoading: boolean;
   filters: JobFilters;
-  onTechStackChange: (tech: string, checked: boolean) => void;
-  onExperienceChange: (experience: number[]) => void;
-  onLocationChange: (location: string) => void;
+  onSearchChange: (search: string) => void;
+  onToggle: (key: JobFilterListKey, value: string, checked: boolean) => void;
+  onSalaryChange: (salaryMin?: number, salaryMax?: number) => void;
+  onPostedWithinChange: (days?: number) => void;
+  onClear: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+function formatOption(value: string): string {
+  return value.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('-');
+}
+
+function parseSalary(value: string): number | undefined {
+  const amount = Number(value);
+  return value.trim() && Number.isFinite(amount) && amount > 0 ? amount : undefined;
 }
 
+const CheckboxGroup: React.FC<{
+  idPrefix: string;
+  options: string[];
+  selected: string[];
+  onChange: (value: string, checked: boolean) => void;
+  format?: (value: string) => string;
+}> = ({ idPrefix, options, selected, onChange, format = (value) => value }) => (
+  <div className="space-y-3">
+    {options.map((option) => (
+      <div key={option} className="flex items-center space-x-3">
+        <Checkbox
+          id={`${idPrefix}-${option}`}
+          checked={selected.includes(option)}
+          onCheckedChange={(checked) => onChange(option, checked as boolean)}
+          className="border-white/30 data-[state=checked]:bg-violet-600 data-[state=checked]:border-violet-600"
+        />
+        <Label
+          htmlFor={`${idPrefix}-${option}`}
+          className="text-white/80 hover:text-white cursor-pointer text-sm"
+        >
+          {format(option)}
+        </Label>
+      </div>
+    ))}
+  </div>
+);
+
 const JobFiltersComponent: React.FC<JobFiltersProps> = ({
   techStackOptions,
   techStackLoading,
   filters,
-  onTechStackChange,
-  onExperienceChange,
-  onLocationChange,
+  onSearchChange,
+  onToggle,
+  onSalaryChange,
+  onPostedWithinChange,
+  onClear,
 }) => {
-  const [search, setSearch] = React.useState("");
+  const [search, setSearch] = React.useState(filters.search);
+  const [salaryMin, setSalaryMin] = React.useState(filters.salaryMin?.toString() ?? '');
+  const [salaryMax, setSalaryMax] = React.useState(filters.salaryMax?.toString() ?? '');
+
+  // Last search sent to the URL, so typing is not overwritten when that search lands
+  const submittedSearch = React.useRef(filters.search);
+
+  // Keep local inputs in sync when the URL changes (back/forward, clear filters)
+  React.useEffect(() => {
+    if (filters.search !== submittedSearch.current) {
+      submittedSearch.current = filters.search;
+      setSearch(filters.search);
+    }
+  }, [filters.search]);
+  React.useEffect(() => setSalaryMin(filters.salaryMin?.toString() ?? ''), [filters.salaryMin]);
+  React.useEffect(() => setSalaryMax(filters.salaryMax?.toString() ?? ''), [filters.salaryMax]);
+
+  // Only search once the user stops typing
+  React.useEffect(() => {
+    if (search === submittedSearch.current) return;
+    const timer = setTimeout(() => {
+      submittedSearch.current = search;
+      onSearchChange(search);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, onSearchChange]);
 
-  // Call search handler on change
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearch(e.target.value);
-    onLocationChange(e.target.value);
+  const applySalary = () => {
+    const min = parseSalary(salaryMin);
+    const max = parseSalary(salaryMax);
+    if (min !== filters.salaryMin || max !== filters.salaryMax) {
+      onSalaryChange(min, max);
+    }
   };
 
+  const hasActiveFilters = !!filters.search || filters.employmentType.length > 0 || filters.seniority.length > 0
+    || filters.locationType.length > 0 || filters.techStack.length > 0 || !!filters.salaryMin
+    || !!filters.salaryMax || !!filters.postedWithin;
+
   return (
     <div className="w-1/3 space-y-6 overflow-y-auto max-h-full pr-2">
       {/* Search Bar */}
       <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
         <CardContent className="p-6">
-          <h3 className="text-lg font-semibold text-white mb-4">Search</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-white">Search</h3>
+            {hasActiveFilters && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onClear}
+                className="text-violet-300 hover:text-white hover:bg-white/10 h-7 px-2"
+              >
+                Clear all
+              </Button>
+            )}
+          </div>
           <Input
-            placeholder="Search by job name or location..."
+            placeholder="Search by title, skills or description..."
             value={search}
-            onChange={handleSearchChange}
+            onChange={(e) => setSearch(e.target.value)}
             className="bg-white/10 border-white/20 text-white placeholder:text-white/50 focus:border-violet-500 mb-2"
           />
         </CardContent>
@@ -53,60 +146,120 @@ const JobFiltersComponent: React.FC<JobFiltersProps> = ({
       <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
         <CardContent className="p-6">
           <h3 className="text-lg font-semibold text-white mb-4">Tech Stack</h3>
-          <div className="space-y-3 max-h-64 overflow-y-auto">
+          <div className="max-h-64 overflow-y-auto">
             {techStackLoading ? (
               // Tech Stack Loading Skeleton
-              Array(12).fill(0).map((_, index) => (
-                <div key={index} className="flex items-center space-x-3">
-                  <Skeleton className="w-4 h-4 rounded" />
-                  <Skeleton className="w-24 h-4" />
-                </div>
-              ))
+              <div className="space-y-3">
+                {Array(12).fill(0).map((_, index) => (
+                  <div key={index} className="flex items-center space-x-3">
+                    <Skeleton className="w-4 h-4 rounded" />
+                    <Skeleton className="w-24 h-4" />
+                  </div>
+                ))}
+              </div>
             ) : (
-              techStackOptions.map((tech) => (
-                <div key={tech} className="flex items-center space-x-3">
-                  <Checkbox
-                    id={tech}
-                    checked={filters.techStack.includes(tech)}
-                    onCheckedChange={(checked) => onTechStackChange(tech, checked as boolean)}
-                    className="border-white/30 data-[state=checked]:bg-violet-600 data-[state=checked]:border-violet-600"
-                  />
-                  <Label
-                    htmlFor={tech}
-                    className="text-white/80 hover:text-white cursor-pointer text-sm"
-                  >
-                    {tech}
-                  </Label>
-                </div>
-              ))
+              <CheckboxGroup
+                idPrefix="tech"
+                options={techStackOptions}
+                selected={filters.techStack}
+                onChange={(value, checked) => onToggle('techStack', value, checked)}
+              />
             )}
           </div>
         </CardContent>
       </Card>
 
-      {/* Experience Filter */}
+      {/* Employment Type Filter */}
+      <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Employment Type</h3>
+          <CheckboxGroup
+            idPrefix="type"
+            options={EMPLOYMENT_TYPES}
+            selected={filters.employmentType}
+            onChange={(value, checked) => onToggle('employmentType', value, checked)}
+            format={formatOption}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Seniority Filter */}
       <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
         <CardContent className="p-6">
-          <h3 className="text-lg font-semibold text-white mb-4">Experience</h3>
-          <div className="space-y-4">
-            <div className="flex justify-between text-sm text-white/70">
-              <span>0 years</span>
-              <span>40+ years</span>
-            </div>
-            <Slider
-              value={filters.experience}
-              onValueChange={onExperienceChange}
-              max={40}
+          <h3 className="text-lg font-semibold text-white mb-4">Seniority</h3>
+          <CheckboxGroup
+            idPrefix="seniority"
+            options={SENIORITY_LEVELS}
+            selected={filters.seniority}
+            onChange={(value, checked) => onToggle('seniority', value, checked)}
+            format={formatOption}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Location Type Filter */}
+      <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Work Location</h3>
+          <CheckboxGroup
+            idPrefix="location"
+            options={LOCATION_TYPES}
+            selected={filters.locationType}
+            onChange={(value, checked) => onToggle('locationType', value, checked)}
+            format={formatOption}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Salary Filter */}
+      <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Salary Range</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              placeholder="Min"
+              value={salaryMin}
+              onChange={(e) => setSalaryMin(e.target.value)}
+              onBlur={applySalary}
+              onKeyDown={(e) => e.key === 'Enter' && applySalary()}
+              className="bg-white/10 border-white/20 text-white placeholder:text-white/50 focus:border-violet-500"
+            />
+            <Input
+              type="number"
+              inputMode="numeric"
               min={0}
-              step={1}
-              className="w-full"
+              placeholder="Max"
+              value={salaryMax}
+              onChange={(e) => setSalaryMax(e.target.value)}
+              onBlur={applySalary}
+              onKeyDown={(e) => e.key === 'Enter' && applySalary()}
+              className="bg-white/10 border-white/20 text-white placeholder:text-white/50 focus:border-violet-500"
             />
-            <div className="text-center">
-              <span className="text-violet-300 font-medium">
-                {filters.experience[0]} {filters.experience[0] === 1 ? 'year' : 'years'}
-                {filters.experience[0] >= 40 ? '+' : ''}
-              </span>
-            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Posted Within Filter */}
+      <Card className="bg-white/5 backdrop-blur-xl border border-white/10">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Date Posted</h3>
+          <div className="flex flex-wrap gap-2">
+            {[undefined, ...POSTED_WITHIN_OPTIONS].map((days) => (
+              <Button
+                key={days ?? 'any'}
+                size="sm"
+                variant="ghost"
+                onClick={() => onPostedWithinChange(days)}
+                className={filters.postedWithin === days
+                  ? 'bg-violet-600 text-white hover:bg-violet-700'
+                  : 'bg-white/5 text-white/70 hover:text-white hover:bg-white/10'}
+              >
+                {days === undefined ? 'Any time' : days === 1 ? 'Last 24 hours' : `Last ${days} days`}
+              </Button>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -114,4 +267,4 @@ const JobFiltersComponent: React.FC<JobFiltersProps> = ({
   );
 };
 
-export default JobFiltersComponent;
\ No newline at end of file
+export default JobFiltersComponent;
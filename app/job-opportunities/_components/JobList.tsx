@@ -1,45 +1,108 @@
 "use client";
 
 import React from 'react';
-import { JobOpportunity } from '../types';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { JobOpportunity, JobSortOption } from '../types';
+import { SORT_OPTIONS } from '../search-params';
 import JobCard, { JobCardSkeleton } from './JobCard';
 
 
 interface JobListProps {
   jobs: JobOpportunity[];
+  total: number;
   isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  sort: JobSortOption;
+  canSortByRelevance: boolean;
+  onSortChange: (sort: JobSortOption) => void;
+  onLoadMore: () => void;
   onViewDetails: (id: string) => void;
 }
 
-const JobList: React.FC<JobListProps> = ({ jobs, isLoading, onViewDetails }) => {
+const JobList: React.FC<JobListProps> = ({
+  jobs,
+  total,
+  isLoading,
+  isLoadingMore,
+  hasMore,
+  sort,
+  canSortByRelevance,
+  onSortChange,
+  onLoadMore,
+  onViewDetails
+}) => {
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <div className="text-white/60 text-sm">
+        {isLoading ? 'Searching...' : `${total} ${total === 1 ? 'job' : 'jobs'} found`}
+      </div>
+      <Select value={sort} onValueChange={(value) => onSortChange(value as JobSortOption)}>
+        <SelectTrigger className="w-44 bg-white/10 border-white/20 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS
+            .filter((option) => option.value !== 'relevance' || canSortByRelevance)
+            .map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   if (isLoading) {
     return (
-      <div className="space-y-4">
-        {Array(6).fill(0).map((_, index) => (
-          <JobCardSkeleton key={index} />
-        ))}
+      <div>
+        {header}
+        <div className="space-y-4">
+          {Array(6).fill(0).map((_, index) => (
+            <JobCardSkeleton key={index} />
+          ))}
+        </div>
       </div>
     );
   }
 
   if (jobs.length === 0) {
     return (
-      <div className="text-center py-12">
-        <div className="text-white/60 text-lg mb-2">No job opportunities found</div>
-        <div className="text-white/40 text-sm">Try adjusting your filters</div>
+      <div>
+        {header}
+        <div className="text-center py-12">
+          <div className="text-white/60 text-lg mb-2">No job opportunities found</div>
+          <div className="text-white/40 text-sm">Try adjusting your filters</div>
+        </div>
       </div>
     );
   }
 
   return (
-    <div className="space-y-4">
-      {jobs.map((job) => (
-        <JobCard
-          key={job._id}
-          job={job}
-          onViewDetails={onViewDetails}
-        />
-      ))}
+    <div>
+      {header}
+      <div className="space-y-4">
+        {jobs.map((job) => (
+          <JobCard
+            key={job._id}
+            job={job}
+            onViewDetails={onViewDetails}
+          />
+        ))}
+        {isLoadingMore && <JobCardSkeleton />}
+      </div>
+      {hasMore && (
+        <div className="flex justify-center py-6">
+          <Button
+            variant="outline"
+            disabled={isLoadingMore}
+            onClick={onLoadMore}
+            className="text-white/80 bg-transparent border-white/20 hover:text-white hover:bg-white/10"
+          >
+            {isLoadingMore ? 'Loading...' : 'Load more jobs'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
@@ -2,24 +2,35 @@
 
 import React from 'react';
 import { useRouter } from 'next/navigation';
-import { useJobFilters } from '../hooks';
+import { useJobSearch } from '../hooks';
 import JobList from './JobList';
 import JobFilters from './JobFilters';
-import type { JobOpportunity } from '../types';
+import type { JobSearchResult } from '../types';
 
 interface JobOpportunitiesClientProps {
-  initialJobs: JobOpportunity[];
+  initialResult: JobSearchResult;
   initialTechStack: string[];
 }
 
-export function JobOpportunitiesClient({ initialJobs, initialTechStack }: JobOpportunitiesClientProps) {
+export function JobOpportunitiesClient({ initialResult, initialTechStack }: JobOpportunitiesClientProps) {
   const router = useRouter();
-  const { 
-    filters, 
-    updateTechStack, 
-    updateExperience, 
-    updateLocation 
-  } = useJobFilters();
+  const {
+    filters,
+    jobs,
+    total,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    updateFilters,
+    toggleFilterValue,
+    clearFilters,
+    loadMore
+  } = useJobSearch(initialResult);
+
+  const handleSearchChange = React.useCallback(
+    (search: string) => updateFilters({ search }),
+    [updateFilters]
+  );
 
   const handleViewDetails = (id: string) => {
     router.push(`/job-opportunities/${id}`);
@@ -32,19 +43,28 @@ export function JobOpportunitiesClient({ initialJobs, initialTechStack }: JobOpp
         techStackOptions={initialTechStack}
         techStackLoading={false}
         filters={filters}
-        onTechStackChange={updateTechStack}
-        onExperienceChange={updateExperience}
-        onLocationChange={updateLocation}
+        onSearchChange={handleSearchChange}
+        onToggle={toggleFilterValue}
+        onSalaryChange={(salaryMin, salaryMax) => updateFilters({ salaryMin, salaryMax })}
+        onPostedWithinChange={(postedWithin) => updateFilters({ postedWithin })}
+        onClear={clearFilters}
       />
 
       {/* Job List */}
       <div className="w-2/3 overflow-y-auto max-h-full pr-2">
         <JobList
-          jobs={initialJobs}
-          isLoading={false}
+          jobs={jobs}
+          total={total}
+          isLoading={isLoading}
+          isLoadingMore={isLoadingMore}
+          hasMore={hasMore}
+          sort={filters.sort}
+          canSortByRelevance={!!filters.search.trim()}
+          onSortChange={(sort) => updateFilters({ sort })}
+          onLoadMore={loadMore}
           onViewDetails={handleViewDetails}
         />
       </div>
     </>
   );
-}
\ No newline at end of file
+}
@@ -12,7 +12,10 @@ import JobOpportunityModel from '@/models/jobOpportunity.model';
 import AssessmentModel from '@/models/assesment.model';
 import ApplicationModel from '@/models/application.model';
 import EmployerProfileModel from '@/models/employerProfile.model';
-import type { JobOpportunity } from './types.d.ts';
+import type { JobFilters, JobOpportunity, JobSearchResult } from './types.d.ts';
+import { DEFAULT_JOB_FILTERS } from './search-params';
+import { autoScreenApplication } from '@/lib/assessment/progression';
+import { notifyApplied } from '@/lib/notifications/notify';
 import Candidate from '@/models/candidate.model';
 import mongoose from 'mongoose';
 
@@ -40,6 +43,139 @@ function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
+/**
+ * Formats a page of jobs for the job list, loading employer profiles, assessments
+ * and application statistics for all of them in one query each
+ */
+async function formatJobList(jobs: any[]): Promise<JobOpportunity[]> {
+  if (jobs.length === 0) return [];
+
+  // Company profiles belong to the job's organization; jobs and profiles from before
+  // organizations existed are still matched by the employer who created them
+  const organizationIds = jobs
+    .map((job: any) => job.organization)
+    .filter(Boolean);
+  const employerIds = jobs
+    .map((job: any) => job.employer?._id)
+    .filter(Boolean);
+
+  // Get all job IDs for aggregation queries
+  const jobIds = jobs.map((job: any) => job._id);
+
+  const [employerProfiles, assessments, applicationCounts] = await Promise.all([
+    EmployerProfileModel.find({
+      $or: [
+        { organization: { $in: organizationIds } },
+        { employer: { $in: employerIds }, organization: { $exists: false } }
+      ]
+    }).lean(),
+    AssessmentModel.find({ jobOpportunity: { $in: jobIds } })
+      .select('jobOpportunity title description status toConductRounds totalCandidates completedCandidates passingCandidates overallPassingCriteria')
+      .lean(),
+    // Get application counts for all jobs in one query
+    ApplicationModel.aggregate([
+      { $match: { jobId: { $in: jobIds } } },
+      { 
+        $group: { 
+          _id: '$jobId', 
+          total: { $sum: 1 },
+          applied: { $sum: { $cond: [{ $eq: ['$status', 'applied'] }, 1, 0] } },
+          underReview: { $sum: { $cond: [{ $eq: ['$status', 'under-review'] }, 1, 0] } },
+          shortlisted: { $sum: { $cond: [{ $eq: ['$status', 'shortlisted'] }, 1, 0] } },
+          interviewed: { $sum: { $cond: [{ $eq: ['$status', 'interviewed'] }, 1, 0] } },
+          accepted: { $sum: { $cond: [{ $eq: ['$status', 'accepted'] }, 1, 0] } },
+          rejected: { $sum: { $cond: [{ $eq: ['$status', 'rejected'] }, 1, 0] } }
+        } 
+      }
+    ])
+  ]);
+
+  // Create maps for quick lookup
+  const employerProfileMap = new Map(
+    employerProfiles.map((profile: any) => [
+      (profile.organization || profile.employer).toString(),
+      profile
+    ])
+  );
+  const applicationCountsMap = new Map(
+    applicationCounts.map((count: any) => [
+      count._id.toString(),
+      count
+    ])
+  );
+  const assessmentsByJob = new Map<string, any[]>();
+  for (const assessment of assessments as any[]) {
+    const key = assessment.jobOpportunity.toString();
+    assessmentsByJob.set(key, [...(assessmentsByJob.get(key) || []), assessment]);
+  }
+
+  return jobs.map((job: any) => {
+    const jobAssessments = assessmentsByJob.get(job._id.toString()) || [];
+    const employerProfile = employerProfileMap.get((job.organization || job.employer?._id)?.toString());
+    const applicationStats = applicationCountsMap.get(job._id.toString()) || { 
+      total: 0, applied: 0, underReview: 0, shortlisted: 0, interviewed: 0, accepted: 0, rejected: 0 
+    };
+    
+    // Format the job data for frontend display - properly serialize all data
+    const formattedJob: JobOpportunity = {
+      title: job.title,
+      department: job.department,
+      position: job.position,
+      employmentType: job.employmentType,
+      seniority: job.seniority,
+      locationType: job.locationType,
+      location: job.location,
+      openings: job.openings,
+      experience: job.experience,
+      workMode: job.workMode,
+      salaryMin: job.salaryMin,
+      salaryMax: job.salaryMax,
+      deadline: job.deadline ? new Date(job.deadline).toISOString() : undefined,
+      techStack: job.techStack || [],
+      description: job.description,
+      requirements: job.requirements,
+      benefits: job.benefits,
+      startDate: job.startDate,
+      autoScreen: job.autoScreen,
+      isPublic: job.isPublic,
+      applications: (job.applications || []).map((id: any) => id.toString()),
+      _id: job._id.toString(),
+      createdAt: job.createdAt ? new Date(job.createdAt).toISOString() : new Date().toISOString(),
+      updatedAt: job.updatedAt ? new Date(job.updatedAt).toISOString() : new Date().toISOString(),
+      assessments: jobAssessments.map((assessment: any) => ({
+        title: assessment.title,
+        description: assessment.description,
+        status: assessment.status,
+        toConductRounds: assessment.toConductRounds,
+        totalCandidates: assessment.totalCandidates,
+        completedCandidates: assessment.completedCandidates,
+        passingCandidates: assessment.passingCandidates,
+        overallPassingCriteria: assessment.overallPassingCriteria,
+        _id: assessment._id.toString()
+      })),
+      // Add frontend display properties with real data
+      company: employerProfile?.companyName || job.department,
+      logo: employerProfile?.companyLogo || job.employer?.avatar || null,
+      timePosted: getTimeAgo(job.createdAt ? new Date(job.createdAt) : new Date()),
+      salary: job.salaryMin && job.salaryMax ? `$${job.salaryMin}k - $${job.salaryMax}k` : undefined,
+      type: job.employmentType,
+      applicants: applicationStats.total,
+      // Add application statistics
+      applicationStats: {
+        total: applicationStats.total,
+        applied: applicationStats.applied,
+        underReview: applicationStats.underReview,
+        shortlisted: applicationStats.shortlisted,
+        interviewed: applicationStats.interviewed,
+        accepted: applicationStats.accepted,
+        rejected: applicationStats.rejected
+      }
+    };
+    
+    return formattedJob;
+  });
+}
+
 export async function getJobOpportunities(): Promise<JobOpportunity[]> {
   return await withDatabase(async () => {
     try {
@@ -49,124 +185,7 @@ export async function getJobOpportunities(): Promise<JobOpportunity[]> {
         .lean();
       console.log("Fetched jobs:", jobs.length);
       
-      // Get all employer IDs to fetch their profiles
-      const employerIds = jobs
-        .map((job: any) => job.employer?._id)
-        .filter(Boolean);
-      
-      // Fetch all employer profiles in one query
-      const employerProfiles = await EmployerProfileModel.find({
-        employer: { $in: employerIds }
-      }).lean();
-      
-      // Create a map for quick lookup
-      const employerProfileMap = new Map(
-        employerProfiles.map((profile: any) => [
-          profile.employer.toString(),
-          profile
-        ])
-      );
-
-      // Get all job IDs for aggregation queries
-      const jobIds = jobs.map((job: any) => job._id);
-
-      // Get application counts for all jobs in one query
-      const applicationCounts = await ApplicationModel.aggregate([
-        { $match: { jobId: { $in: jobIds } } },
-        { 
-          $group: { 
-            _id: '$jobId', 
-            total: { $sum: 1 },
-            applied: { $sum: { $cond: [{ $eq: ['$status', 'applied'] }, 1, 0] } },
-            underReview: { $sum: { $cond: [{ $eq: ['$status', 'under-review'] }, 1, 0] } },
-            shortlisted: { $sum: { $cond: [{ $eq: ['$status', 'shortlisted'] }, 1, 0] } },
-            interviewed: { $sum: { $cond: [{ $eq: ['$status', 'interviewed'] }, 1, 0] } },
-            accepted: { $sum: { $cond: [{ $eq: ['$status', 'accepted'] }, 1, 0] } },
-            rejected: { $sum: { $cond: [{ $eq: ['$status', 'rejected'] }, 1, 0] } }
-          } 
-        }
-      ]);
-
-      // Create application counts map
-      const applicationCountsMap = new Map(
-        applicationCounts.map((count: any) => [
-          count._id.toString(),
-          count
-        ])
-      );
-      
-      const jobsWithAssessments = await Promise.all(
-        jobs.map(async (job: any) => {
-          const assessments = await AssessmentModel.find({ jobOpportunity: job._id })
-            .select('title description status toConductRounds totalCandidates completedCandidates passingCandidates overallPassingCriteria')
-            .lean();
-
-          const employerProfile = employerProfileMap.get(job.employer?._id?.toString());
-          const applicationStats = applicationCountsMap.get(job._id.toString()) || { 
-            total: 0, applied: 0, underReview: 0, shortlisted: 0, interviewed: 0, accepted: 0, rejected: 0 
-          };
-          
-          // Format the job data for frontend display - properly serialize all data
-          const formattedJob: JobOpportunity = {
-            title: job.title,
-            department: job.department,
-            position: job.position,
-            employmentType: job.employmentType,
-            seniority: job.seniority,
-            locationType: job.locationType,
-            location: job.location,
-            openings: job.openings,
-            experience: job.experience,
-            workMode: job.workMode,
-            salaryMin: job.salaryMin,
-            salaryMax: job.salaryMax,
-            deadline: job.deadline ? new Date(job.deadline).toISOString() : undefined,
-            techStack: job.techStack || [],
-            description: job.description,
-            requirements: job.requirements,
-            benefits: job.benefits,
-            startDate: job.startDate,
-            autoScreen: job.autoScreen,
-            isPublic: job.isPublic,
-            applications: (job.applications || []).map((id: any) => id.toString()),
-            _id: job._id.toString(),
-            createdAt: job.createdAt ? new Date(job.createdAt).toISOString() : new Date().toISOString(),
-            updatedAt: job.updatedAt ? new Date(job.updatedAt).toISOString() : new Date().toISOString(),
-            assessments: assessments.map((assessment: any) => ({
-              title: assessment.title,
-              description: assessment.description,
-              status: assessment.status,
-              toConductRounds: assessment.toConductRounds,
-              totalCandidates: assessment.totalCandidates,
-              completedCandidates: assessment.completedCandidates,
-              passingCandidates: assessment.passingCandidates,
-              overallPassingCriteria: assessment.overallPassingCriteria,
-              _id: assessment._id.toString()
-            })),
-            // Add frontend display properties with real data
-            company: employerProfile?.companyName || job.department,
-            logo: employerProfile?.companyLogo || job.employer?.avatar || null,
-            timePosted: getTimeAgo(job.createdAt ? new Date(job.createdAt) : new Date()),
-            salary: job.salaryMin && job.salaryMax ? `$${job.salaryMin}k - $${job.salaryMax}k` : undefined,
-            type: job.employmentType,
-            applicants: applicationStats.total,
-            // Add application statistics
-            applicationStats: {
-              total: applicationStats.total,
-              applied: applicationStats.applied,
-              underReview: applicationStats.underReview,
-              shortlisted: applicationStats.shortlisted,
-              interviewed: applicationStats.interviewed,
-              accepted: applicationStats.accepted,
-              rejected: applicationStats.rejected
-            }
-          };
-          
-          return formattedJob;
-        })
-      );
-      
-      return jobsWithAssessments;
+      return await formatJobList(jobs);
     } catch (error) {
       console.error('Error fetching job opportunities:', error);
       return [];
@@ -174,6 +193,164 @@ export async function getJobOpportunities(): Promise<JobOpportunity[]> {
   });
 }
 
+// ========================================
+// JOB SEARCH
+// ========================================
+
+const JOB_SEARCH_PAGE_SIZE = 20;
+const MAX_JOB_SEARCH_PAGE_SIZE = 50;
+
+// Placeholder sort values for jobs missing the sorted field, so they always sort last
+const FAR_FUTURE = new Date(8640000000000000);
+const NO_SALARY_HIGH = -1;
+const NO_SALARY_LOW = Number.MAX_SAFE_INTEGER;
+
+interface JobSearchCursor {
+  v: number; // sort value of the last job on the previous page
+  id: string; // _id of that job, breaks ties between equal sort values
+}
+
+function encodeCursor(cursor: JobSearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): JobSearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof parsed?.v !== 'number' || !mongoose.Types.ObjectId.isValid(parsed?.id)) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the match stage for the search filters. A text search has to be
+ * part of the first match stage of the pipeline, so everything goes in one.
+ */
+function buildJobSearchMatch(filters: JobFilters): mongoose.FilterQuery<any> {
+  const match: mongoose.FilterQuery<any> = { isPublic: true };
+  const and: mongoose.FilterQuery<any>[] = [];
+
+  if (filters.search.trim()) {
+    match.$text = { $search: filters.search.trim() };
+  }
+  if (filters.employmentType.length) match.employmentType = { $in: filters.employmentType };
+  if (filters.seniority.length) match.seniority = { $in: filters.seniority };
+  if (filters.locationType.length) match.locationType = { $in: filters.locationType };
+  if (filters.techStack.length) match.techStack = { $in: filters.techStack };
+
+  // Salary filters keep jobs whose advertised range overlaps the requested one
+  if (filters.salaryMin) {
+    and.push({
+      $or: [
+        { salaryMax: { $gte: filters.salaryMin } },
+        { salaryMax: { $exists: false }, salaryMin: { $gte: filters.salaryMin } }
+      ]
+    });
+  }
+  if (filters.salaryMax) {
+    and.push({
+      $or: [
+        { salaryMin: { $lte: filters.salaryMax } },
+        { salaryMin: { $exists: false }, salaryMax: { $lte: filters.salaryMax } }
+      ]
+    });
+  }
+  if (filters.postedWithin) {
+    match.createdAt = { $gte: new Date(Date.now() - filters.postedWithin * 24 * 60 * 60 * 1000) };
+  }
+
+  if (and.length) match.$and = and;
+  return match;
+}
+
+/**
+ * Numeric sort value per job and its direction. Every sort is turned into a
+ * single number so the cursor can be compared the same way for all of them.
+ */
+function getJobSortStage(filters: JobFilters): { sortValue: any; direction: 1 | -1 } {
+  switch (filters.sort) {
+    case 'relevance':
+      return filters.search.trim()
+        ? { sortValue: { $meta: 'textScore' }, direction: -1 }
+        : { sortValue: { $toLong: '$createdAt' }, direction: -1 };
+    case 'oldest':
+      return { sortValue: { $toLong: '$createdAt' }, direction: 1 };
+    case 'salary-high':
+      return { sortValue: { $ifNull: ['$salaryMax', { $ifNull: ['$salaryMin', NO_SALARY_HIGH] }] }, direction: -1 };
+    case 'salary-low':
+      return { sortValue: { $ifNull: ['$salaryMin', { $ifNull: ['$salaryMax', NO_SALARY_LOW] }] }, direction: 1 };
+    case 'deadline':
+      return { sortValue: { $toLong: { $ifNull: ['$deadline', FAR_FUTURE] } }, direction: 1 };
+    case 'newest':
+    default:
+      return { sortValue: { $toLong: '$createdAt' }, direction: -1 };
+  }
+}
+
+/**
+ * Searches public jobs with filters, full-text search and cursor pagination.
+ * Pass the nextCursor of a result to fetch the following page.
+ */
+export async function searchJobOpportunities(
+  filters: Partial<JobFilters> = {},
+  cursor?: string | null,
+  limit: number = JOB_SEARCH_PAGE_SIZE
+): Promise<ActionResponse<JobSearchResult>> {
+  return safeAction(async () => {
+    const searchFilters: JobFilters = { ...DEFAULT_JOB_FILTERS, ...filters };
+    const pageSize = Math.min(Math.max(1, Math.floor(limit)), MAX_JOB_SEARCH_PAGE_SIZE);
+
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) {
+      return createErrorResponse('Invalid search cursor');
+    }
+
+    return await withDatabase(async () => {
+      const match = buildJobSearchMatch(searchFilters);
+      const { sortValue, direction } = getJobSortStage(searchFilters);
+
+      const pipeline: mongoose.PipelineStage[] = [
+        { $match: match },
+        { $addFields: { sortValue } }
+      ];
+      if (after) {
+        const op = direction === -1 ? '$lt' : '$gt';
+        pipeline.push({
+          $match: {
+            $or: [
+              { sortValue: { [op]: after.v } },
+              { sortValue: after.v, _id: { [op]: new mongoose.Types.ObjectId(after.id) } }
+            ]
+          }
+        });
+      }
+      pipeline.push(
+        { $sort: { sortValue: direction, _id: direction } },
+        // One extra job tells whether there is a next page
+        { $limit: pageSize + 1 }
+      );
+
+      const [results, total] = await Promise.all([
+        JobOpportunityModel.aggregate(pipeline),
+        JobOpportunityModel.countDocuments(match)
+      ]);
+
+      const page = results.slice(0, pageSize);
+      const last = page[page.length - 1];
+      const nextCursor = results.length > pageSize && last
+        ? encodeCursor({ v: last.sortValue, id: last._id.toString() })
+        : null;
+
+      await JobOpportunityModel.populate(page, { path: 'employer', select: 'firstName lastName avatar' });
+      const jobs = await formatJobList(page);
+
+      return createSuccessResponse('Jobs fetched successfully', { jobs, total, nextCursor });
+    }, 'Failed to connect to database');
+  }, 'Failed to search jobs');
+}
+
 export async function getTechStackOptions(): Promise<string[]> {
   return await withDatabase(async () => {
     try {
@@ -216,9 +393,11 @@ export async function getJobOpportunityById(id: string): Promise<JobOpportunity
       if (!job) return null;
 
       // Fetch employer profile for company details
-      const employerProfile = await EmployerProfileModel.findOne({ 
-        employer: job.employer?._id 
-      }).lean();
+      const employerProfile = await EmployerProfileModel.findOne(
+        job.organization
+          ? { organization: job.organization }
+          : { employer: job.employer?._id }
+      ).lean();
       
       // Fetch assessments for this job
       const assessments = await AssessmentModel.find({ jobOpportunity: id })
@@ -461,6 +640,12 @@ export async function applyToJob(
         { $push: { applications: savedApplication._id } },
         { new: true }
       );
+
+      await notifyApplied(savedApplication._id as mongoose.Types.ObjectId);
+
+      // Shortlist straight into the first round when the job screens applications automatically
+      await autoScreenApplication(savedApplication._id as mongoose.Types.ObjectId)
+        .catch(error => console.error('Error auto-screening application:', error));
       
       return createSuccessResponse(
         'Application submitted successfully!',
@@ -1,9 +1,12 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useTransition } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { useSession } from 'next-auth/react';
-import type { JobOpportunity, JobFilters } from './types.d.ts';
-import { getJobOpportunities, getTechStackOptions, getJobOpportunityById} from './actions';
+import { toast } from 'sonner';
+import type { JobOpportunity, JobFilters, JobSearchResult } from './types.d.ts';
+import { getJobOpportunities, getTechStackOptions, getJobOpportunityById, searchJobOpportunities } from './actions';
+import { DEFAULT_JOB_FILTERS, parseJobFilters, toSearchParams } from './search-params';
 
 export const useJobOpportunities = () => {
   const [jobs, setJobs] = useState<JobOpportunity[]>([]);
@@ -54,44 +57,91 @@ export const useTechStackOptions = () => {
   return { techStack, isLoading };
 };
 
-export const useJobFilters = () => {
-  const [filters, setFilters] = useState<JobFilters>({
-    techStack: [],
-    experience: [0],
-    location: ''
-  });
-
-  const updateTechStack = (tech: string, checked: boolean) => {
-    setFilters(prev => ({
-      ...prev,
-      techStack: checked 
-        ? [...prev.techStack, tech]
-        : prev.techStack.filter(item => item !== tech)
-    }));
-  };
+type JobFilterListKey = 'employmentType' | 'seniority' | 'locationType' | 'techStack';
 
-  const updateExperience = (experience: number[]) => {
-    setFilters(prev => ({ ...prev, experience }));
-  };
+/**
+ * Job search state kept in the URL query string. Changing a filter replaces the URL,
+ * which re-runs the first page search on the server; further pages are loaded here.
+ */
+export const useJobSearch = (initialResult: JobSearchResult) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
 
-  const updateLocation = (location: string) => {
-    setFilters(prev => ({ ...prev, location }));
-  };
+  const filters = useMemo(
+    () => parseJobFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const [jobs, setJobs] = useState<JobOpportunity[]>(initialResult.jobs);
+  const [total, setTotal] = useState(initialResult.total);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialResult.nextCursor);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // A new first page arrives from the server whenever the URL changes
+  useEffect(() => {
+    setJobs(initialResult.jobs);
+    setTotal(initialResult.total);
+    setNextCursor(initialResult.nextCursor);
+  }, [initialResult]);
 
-  const clearFilters = () => {
-    setFilters({
-      techStack: [],
-      experience: [0],
-      location: ''
+  const updateFilters = useCallback((updates: Partial<JobFilters>) => {
+    const next = { ...filters, ...updates };
+    // Switching to or from a text search resets the sort to its default for that mode
+    if (updates.search !== undefined && !!updates.search.trim() !== !!filters.search.trim()) {
+      next.sort = updates.search.trim() ? 'relevance' : DEFAULT_JOB_FILTERS.sort;
+    }
+    const query = toSearchParams(next).toString();
+    startTransition(() => {
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
     });
-  };
+  }, [filters, pathname, router]);
+
+  const toggleFilterValue = useCallback((key: JobFilterListKey, value: string, checked: boolean) => {
+    const current = filters[key];
+    updateFilters({
+      [key]: checked ? [...current, value] : current.filter(item => item !== value)
+    });
+  }, [filters, updateFilters]);
+
+  const clearFilters = useCallback(() => {
+    updateFilters({ ...DEFAULT_JOB_FILTERS });
+  }, [updateFilters]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const result = await searchJobOpportunities(filters, nextCursor);
+      if (result.success && result.data) {
+        const page = result.data;
+        setJobs(prev => [...prev, ...page.jobs]);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      } else {
+        toast.error(result.error || result.message);
+      }
+    } catch (error) {
+      console.error('Error loading more jobs:', error);
+      toast.error('Failed to load more jobs');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [filters, nextCursor, isLoadingMore]);
 
   return {
     filters,
-    updateTechStack,
-    updateExperience,
-    updateLocation,
-    clearFilters
+    jobs,
+    total,
+    hasMore: !!nextCursor,
+    isLoading: isPending,
+    isLoadingMore,
+    updateFilters,
+    toggleFilterValue,
+    clearFilters,
+    loadMore
   };
 };
 
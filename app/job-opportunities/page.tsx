@@ -1,11 +1,19 @@
 import React, { Suspense } from 'react';
 import RoleWrapper from '@/lib/RoleWrapper';
-import { getJobOpportunities, getTechStackOptions } from './actions';
+import { searchJobOpportunities, getTechStackOptions } from './actions';
+import { parseJobFilters } from './search-params';
 import { JobOpportunitiesClient } from './_components';
 import { Skeleton } from '@/components/ui/skeleton';
+import type { JobFilters } from './types';
+
+interface JobOpportunitiesPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
 
 // This is now a SERVER component
-export default function JobOpportunitiesPage() {
+export default async function JobOpportunitiesPage({ searchParams }: JobOpportunitiesPageProps) {
+  const filters = parseJobFilters(await searchParams);
+
   return (
     <RoleWrapper role={["candidate","employer"]}>
       <div className="min-h-screen bg-gradient-to-br from-[#0A0A18] to-[#0D0D20] pt-22 pb-16">
@@ -15,7 +23,7 @@ export default function JobOpportunitiesPage() {
           </h1>
           
           <Suspense fallback={<JobOpportunitiesSkeleton />}>
-            <JobOpportunitiesWrapper />
+            <JobOpportunitiesWrapper filters={filters} />
           </Suspense>
         </div>
       </div>
@@ -23,18 +31,21 @@ export default function JobOpportunitiesPage() {
   );
 }
 
-// Server component that fetches data
-async function JobOpportunitiesWrapper() {
-  const [jobs, techStack] = await Promise.all([
-    getJobOpportunities(),
+// Server component that fetches the first page of results for the filters in the URL
+async function JobOpportunitiesWrapper({ filters }: { filters: JobFilters }) {
+  const [searchResult, techStack] = await Promise.all([
+    searchJobOpportunities(filters),
     getTechStackOptions()
   ]);
+  const initialResult = searchResult.success && searchResult.data
+    ? searchResult.data
+    : { jobs: [], total: 0, nextCursor: null };
 
   return (
     <div className="flex gap-8 h-[calc(100vh-200px)]">
       {/* Pass server-fetched data to client component */}
       <JobOpportunitiesClient 
-        initialJobs={jobs}
+        initialResult={initialResult}
         initialTechStack={techStack}
       />
     </div>
@@ -0,0 +1,79 @@
+import type { JobFilters, JobSortOption } from './types';
+
+// Job search filters <-> URL query parameters, so searches can be shared and bookmarked.
+// Used by the server page to run the first search and by the client to update the URL.
+
+export const EMPLOYMENT_TYPES = ['full-time', 'part-time', 'contract', 'internship'];
+export const SENIORITY_LEVELS = ['junior', 'mid', 'senior', 'lead'];
+export const LOCATION_TYPES = ['remote', 'hybrid', 'onsite'];
+export const POSTED_WITHIN_OPTIONS = [1, 7, 14, 30];
+export const SORT_OPTIONS: { value: JobSortOption; label: string }[] = [
+  { value: 'relevance', label: 'Most relevant' },
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'salary-high', label: 'Highest salary' },
+  { value: 'salary-low', label: 'Lowest salary' },
+  { value: 'deadline', label: 'Closing soon' },
+];
+
+export const DEFAULT_JOB_FILTERS: JobFilters = {
+  search: '',
+  employmentType: [],
+  seniority: [],
+  locationType: [],
+  techStack: [],
+  sort: 'newest',
+};
+
+type RawSearchParams = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function getAll(params: RawSearchParams, key: string): string[] {
+  const values = params instanceof URLSearchParams
+    ? params.getAll(key)
+    : ([] as string[]).concat(params[key] ?? []);
+  // Accept both ?tech=a&tech=b and ?tech=a,b
+  return values.flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+}
+
+function getNumber(params: RawSearchParams, key: string): number | undefined {
+  const value = Number(getAll(params, key)[0]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export function parseJobFilters(params: RawSearchParams): JobFilters {
+  const search = getAll(params, 'q').join(' ');
+  const sort = getAll(params, 'sort')[0] as JobSortOption | undefined;
+
+  return {
+    search,
+    employmentType: getAll(params, 'type').filter((t) => EMPLOYMENT_TYPES.includes(t)),
+    seniority: getAll(params, 'seniority').filter((s) => SENIORITY_LEVELS.includes(s)),
+    locationType: getAll(params, 'location').filter((l) => LOCATION_TYPES.includes(l)),
+    techStack: getAll(params, 'tech'),
+    salaryMin: getNumber(params, 'salaryMin'),
+    salaryMax: getNumber(params, 'salaryMax'),
+    postedWithin: getNumber(params, 'posted'),
+    // Relevance only means something for a text search
+    sort: sort && SORT_OPTIONS.some((o) => o.value === sort) && (sort !== 'relevance' || search)
+      ? sort
+      : search ? 'relevance' : DEFAULT_JOB_FILTERS.sort,
+  };
+}
+
+export function toSearchParams(filters: JobFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+  filters.employmentType.forEach((t) => params.append('type', t));
+  filters.seniority.forEach((s) => params.append('seniority', s));
+  filters.locationType.forEach((l) => params.append('location', l));
+  filters.techStack.forEach((t) => params.append('tech', t));
+  if (filters.salaryMin) params.set('salaryMin', String(filters.salaryMin));
+  if (filters.salaryMax) params.set('salaryMax', String(filters.salaryMax));
+  if (filters.postedWithin) params.set('posted', String(filters.postedWithin));
+
+  const defaultSort = filters.search.trim() ? 'relevance' : DEFAULT_JOB_FILTERS.sort;
+  if (filters.sort !== defaultSort) params.set('sort', filters.sort);
+
+  return params;
+}
@@ -82,8 +82,22 @@ export interface TechStackFilter {
   selected: boolean;
 }
 
+export type JobSortOption = 'relevance' | 'newest' | 'oldest' | 'salary-high' | 'salary-low' | 'deadline';
+
 export interface JobFilters {
+  search: string;
+  employmentType: string[];
+  seniority: string[];
+  locationType: string[];
   techStack: string[];
-  experience: number[];
-  location: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  postedWithin?: number; // days
+  sort: JobSortOption;
+}
+
+export interface JobSearchResult {
+  jobs: JobOpportunity[];
+  total: number;
+  nextCursor: string | null; // opaque cursor for the next page, null on the last page
 }
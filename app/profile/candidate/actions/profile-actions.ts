@@ -4,13 +4,14 @@ import Profile from "@/models/candidateProfile.model";
 import ResumeModel from "@/models/resume.model";
 import candidate from "@/models/candidate.model";
 import { ProfileData, ProfileResponse } from "../types";
-import { validateSession } from "../lib/validation";
+import { requireRole, authorizeRole } from "@/utils/auth-helpers";
 import { 
   withDatabase, 
   createErrorResponse, 
   createSuccessResponse, 
   safeAction,
-  formatMongooseError
+  formatMongooseError,
+  AuthorizationError
 } from "@/utils/action-helpers";
 
 export async function updateCandidateProfile(
@@ -18,10 +19,7 @@ export async function updateCandidateProfile(
 ): Promise<{ success: boolean; message: string; error?: string }> {
   return safeAction(async () => {
     return withDatabase(async () => {
-      const { success, candidateId, error } = await validateSession();
-      if (!success) {
-        return createErrorResponse("Unauthorized", error);
-      }
+      const candidateId = await requireRole('candidate');
       
       // Get or create profile with candidate name
       const candidateDoc = await candidate
@@ -135,6 +133,15 @@ export async function fetchCandidateProfile(
       };
     }
 
+    const auth = await authorizeRole('candidate');
+    if (auth.response) {
+      return { ...auth.response, data: null, completionPercentage: 0 };
+    }
+    if (auth.userId !== candidateId) {
+      const forbidden = new AuthorizationError(403, "Forbidden - You can only view your own profile");
+      return { ...createErrorResponse(forbidden.message, forbidden), data: null, completionPercentage: 0 };
+    }
+
     return await withDatabase(async () => {
       const candidateInfo = await candidate
         .findById(candidateId)
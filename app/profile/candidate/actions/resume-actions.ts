@@ -2,7 +2,9 @@
 
 import ResumeModel, { Resume } from "@/models/resume.model";
 import Profile from "@/models/candidateProfile.model";
-import { validateSession, validateResume, updateCandidateProfileWithResume } from "../lib/validation";
+import { validateResume, updateCandidateProfileWithResume } from "../lib/validation";
+import { AuthorizationError } from "@/utils/action-helpers";
+import { requireRole } from "@/utils/auth-helpers";
 import { 
   withDatabase, 
   createErrorResponse, 
@@ -12,6 +14,14 @@ import {
   logSuccess
 } from "@/utils/action-helpers";
 
+// Candidates can only read or change their own resumes
+async function requireOwnCandidateId(candidateId: string): Promise<void> {
+  const userId = await requireRole('candidate');
+  if (userId !== candidateId) {
+    throw new AuthorizationError(403, "Forbidden - You can only access your own resumes");
+  }
+}
+
 // Get all resumes for a candidate from Resume model (only those in profile.resumes array)
 export async function getCandidateResumes(candidateId: string): Promise<{
   success: boolean;
@@ -28,6 +38,8 @@ export async function getCandidateResumes(candidateId: string): Promise<{
   error?: string;
 }> {
   return safeAction(async () => {
+    await requireOwnCandidateId(candidateId);
+
     return await withDatabase(async () => {
       // Get candidate profile to find which resumes are "active" for this candidate
       const profile = await Profile.findOne({ candidate: candidateId });
@@ -74,10 +86,7 @@ export async function deleteResume(resumeId: string): Promise<{
   error?: string;
 }> {
   return safeAction(async () => {
-    const { success, candidateId, error } = await validateSession();
-    if (!success) {
-      return createErrorResponse("Unauthorized", error);
-    }
+    const candidateId = await requireRole('candidate');
     
     return await withDatabase(async () => {
 
@@ -139,13 +148,10 @@ export async function getResumeProfile(resumeId: string): Promise<{
   profileData?: any;
 }> {
   return safeAction(async () => {
-    const { success, candidateId, error } = await validateSession();
-    if (!success) {
-      return createErrorResponse("Unauthorized", error);
-    }
+    const candidateId = await requireRole('candidate');
     
     return await withDatabase(async () => {
-      const { success: resumeSuccess, resume, error: resumeError } = await validateResume(resumeId, candidateId!);
+      const { success: resumeSuccess, resume, error: resumeError } = await validateResume(resumeId, candidateId);
       if (!resumeSuccess) {
         return createErrorResponse("Resume not found", resumeError);
       }
@@ -184,10 +190,7 @@ export async function updateResumeProfile(resumeId: string, profileData: any): P
   error?: string;
 }> {
   return safeAction(async () => {
-    const { success, candidateId, error } = await validateSession();
-    if (!success) {
-      return createErrorResponse("Unauthorized", error);
-    }
+    const candidateId = await requireRole('candidate');
     
     return await withDatabase(async () => {
       const resume = await ResumeModel.findOneAndUpdate(
@@ -224,13 +227,10 @@ export async function applyResumeToProfile(resumeId: string): Promise<{
   error?: string;
 }> {
   return safeAction(async () => {
-    const { success, candidateId, error } = await validateSession();
-    if (!success) {
-      return createErrorResponse("Unauthorized", error);
-    }
+    const candidateId = await requireRole('candidate');
     
     return await withDatabase(async () => {
-      const { success: resumeSuccess, resume, error: resumeError } = await validateResume(resumeId, candidateId!);
+      const { success: resumeSuccess, resume, error: resumeError } = await validateResume(resumeId, candidateId);
       if (!resumeSuccess) {
         return createErrorResponse("Resume not found", resumeError);
       }
@@ -243,7 +243,7 @@ export async function applyResumeToProfile(resumeId: string): Promise<{
       }
 
       // Use the helper function to update profile
-      await updateCandidateProfileWithResume(candidateId!, resumeId);
+      await updateCandidateProfileWithResume(candidateId, resumeId);
 
       return createSuccessResponse("Resume profile applied successfully");
     }, "Error applying resume profile");
@@ -258,8 +258,10 @@ export async function getResumeParsedData(resumeId: string): Promise<{
   error?: string;
 }> {
   return safeAction(async () => {
+    const candidateId = await requireRole('candidate');
+
     return await withDatabase(async () => {
-      const resume = await ResumeModel.findById(resumeId).select('parsedData isParsed parseError fileName');
+      const resume = await ResumeModel.findOne({ _id: resumeId, candidateId }).select('parsedData isParsed parseError fileName');
       
       if (!resume) {
         return createErrorResponse(
@@ -290,9 +292,11 @@ export async function updateResumeParsedData(resumeId: string, parsedData: any):
   error?: string;
 }> {
   return safeAction(async () => {
+    const candidateId = await requireRole('candidate');
+
     return await withDatabase(async () => {
-      const result = await ResumeModel.findByIdAndUpdate(
-        resumeId,
+      const result = await ResumeModel.findOneAndUpdate(
+        { _id: resumeId, candidateId },
         {
           parsedData,
           isParsed: true,
@@ -322,6 +326,8 @@ export async function getActiveResume(candidateId: string): Promise<{
   error?: string;
 }> {
   return safeAction(async () => {
+    await requireOwnCandidateId(candidateId);
+
     return await withDatabase(async () => {
       // First check if profile has an active resume set
       const profile = await Profile.findOne({ candidate: candidateId }).populate('activeResume');
@@ -370,6 +376,8 @@ export async function setActiveResume(candidateId: string, resumeId: string): Pr
   error?: string;
 }> {
   return safeAction(async () => {
+    await requireOwnCandidateId(candidateId);
+
     return await withDatabase(async () => {
       const { success: resumeSuccess, error: resumeError } = await validateResume(resumeId, candidateId);
       if (!resumeSuccess) {
@@ -2,7 +2,8 @@
 
 import ResumeModel from "@/models/resume.model";
 import Profile from "@/models/candidateProfile.model";
-import { validateResume, updateCandidateProfileWithResume, requireAuth } from "../lib/validation";
+import { validateResume, updateCandidateProfileWithResume } from "../lib/validation";
+import { requireRole } from "@/utils/auth-helpers";
 import { geminiClient } from "../lib/gemini-client";
 import { extractTextFromFile, getMimeTypeFromFileName } from "@/utils/file-processing";
 import { S3Service } from "@/lib/s3Service";
@@ -28,7 +29,7 @@ export async function parseAndSaveResume(s3Url: string, fileName: string, fileSi
     return withDatabase(async () => {
       logAction('📄', 'parseAndSaveResume', { fileName, fileSize });
       
-      const candidateId = await requireAuth();
+      const candidateId = await requireRole('candidate');
 
     // Check resume limit: candidate can have at most 3 resumes
     const profile = await Profile.findOne({ candidate: candidateId });
@@ -119,7 +120,7 @@ export async function parseResumeFromS3(resumeId: string): Promise<{
     return withDatabase(async () => {
       logAction('🔍', 'parseResumeFromS3', { resumeId });
       
-      const candidateId = await requireAuth();
+      const candidateId = await requireRole('candidate');
 
     const { success: resumeSuccess, resume, error: resumeError } = await validateResume(resumeId, candidateId);
     if (!resumeSuccess) {
@@ -2,7 +2,7 @@
 
 import { UploadConfig, S3Service } from "@/lib/s3Service";
 import { parseAndSaveResume } from "./resume-parsing";
-import { requireAuth } from "../lib/validation";
+import { requireRole } from "@/utils/auth-helpers";
 import { 
   createErrorResponse, 
   createSuccessResponse, 
@@ -23,7 +23,7 @@ export async function uploadProfileImage(formData: FormData): Promise<{
 }> {
   return safeAction(async () => {
     // Check authentication using helper
-    const userId = await requireAuth();
+    const userId = await requireRole('candidate');
 
     const file = formData.get('file') as File;
     if (!file) {
@@ -96,7 +96,7 @@ export async function uploadResume(formData: FormData): Promise<{
   return safeAction(async () => {
     // Check authentication using helper
     logAction("🔐", "Checking authentication...");
-    const userId = await requireAuth();
+    const userId = await requireRole('candidate');
     logSuccess(`Authentication successful for user: ${userId}`);
 
     const file = formData.get('file') as File;
@@ -2,21 +2,24 @@
 
 import Employer from "@/models/employer.model";
 import EmployerProfileModel from "@/models/employerProfile.model";
+import OrganizationModel from "@/models/organization.model";
 import { EmployerProfileData, EmployerProfileResponse } from "../types";
 import { 
   withDatabase, 
   createErrorResponse, 
   createSuccessResponse, 
   safeAction,
-  formatMongooseError
+  formatMongooseError,
+  AuthorizationError
 } from "@/utils/action-helpers";
-import { requireAuth } from "@/utils/auth-helpers";
+import { authorizeRole } from "@/utils/auth-helpers";
+import { ensureOrganization, requireOrganization } from "@/lib/organization/membership";
 
 export async function updateEmployerProfile(
   profileData: EmployerProfileData
 ): Promise<{ success: boolean; message: string; error?: string }> {
   return safeAction(async () => {
-    const employerId = await requireAuth();
+    const { userId: employerId, organizationId, role } = await requireOrganization();
 
     return withDatabase(async () => {
       // Find employer
@@ -39,6 +42,11 @@ export async function updateEmployerProfile(
         );
       }
 
+      // The company profile is shared by the organization, so only owners edit it
+      if (role !== 'owner') {
+        return createSuccessResponse("Profile photo updated. Only organization owners can edit the company profile");
+      }
+
       // Update or create extended profile (including profileImage, companyName and companyLogo)
       const profileUpdateFields: any = {
         companyName: profileData.companyName || "",
@@ -57,11 +65,15 @@ export async function updateEmployerProfile(
       };
 
       await EmployerProfileModel.findOneAndUpdate(
-        { employer: employerId },
-        { $set: profileUpdateFields },
+        { organization: organizationId },
+        { $set: profileUpdateFields, $setOnInsert: { employer: employerId } },
         { new: true, upsert: true }
       );
 
+      if (profileUpdateFields.companyName) {
+        await OrganizationModel.updateOne({ _id: organizationId }, { $set: { name: profileUpdateFields.companyName } });
+      }
+
       return createSuccessResponse("Employer profile updated successfully");
     });
   });
@@ -81,6 +93,15 @@ export async function fetchEmployerProfile(
       };
     }
 
+    const auth = await authorizeRole('employer');
+    if (auth.response) {
+      return { ...auth.response, data: null, completionPercentage: 0 };
+    }
+    if (auth.userId !== employerId) {
+      const forbidden = new AuthorizationError(403, "Forbidden - You can only view your own profile");
+      return { ...createErrorResponse(forbidden.message, forbidden), data: null, completionPercentage: 0 };
+    }
+
     return await withDatabase(async () => {
       const employer = await Employer.findById(employerId)
         .select('firstName lastName email avatar')
@@ -96,8 +117,9 @@ export async function fetchEmployerProfile(
         };
       }
 
-      // Fetch extended profile
-      const employerProfile = await EmployerProfileModel.findOne({ employer: employerId }).lean();
+      // Fetch the organization's company profile
+      const { organizationId } = await ensureOrganization(employerId);
+      const employerProfile = await EmployerProfileModel.findOne({ organization: organizationId }).lean();
 
       const name = `${employer.firstName} ${employer.lastName}`;
 
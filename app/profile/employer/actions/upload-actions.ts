@@ -1,7 +1,8 @@
 "use server";
 
 import { UploadConfig, S3Service } from "@/lib/s3Service";
-import { requireAuth } from "@/utils/auth-helpers";
+import { requireRole } from "@/utils/auth-helpers";
+import { requireOrganization } from "@/lib/organization/membership";
 import { 
   createErrorResponse, 
   createSuccessResponse, 
@@ -21,7 +22,7 @@ export async function uploadEmployerProfileImage(formData: FormData): Promise<{
   };
 }> {
   return safeAction(async () => {
-    const userId = await requireAuth();
+    const userId = await requireRole('employer');
 
     const file = formData.get('file') as File;
     if (!file) {
@@ -87,14 +88,16 @@ export async function uploadCompanyLogo(formData: FormData): Promise<{
   };
 }> {
   return safeAction(async () => {
-    const userId = await requireAuth();
+    // Logos belong to the organization, so they are stored under its id
+    const { organizationId } = await requireOrganization('owner');
+    const userId = organizationId.toString();
 
     const file = formData.get('file') as File;
     if (!file) {
       return createErrorResponse("No file provided");
     }
 
-    logAction("📤", `Uploading company logo for employer: ${userId}`);
+    logAction("📤", `Uploading company logo for organization: ${userId}`);
 
     // Company logo upload configuration
     const logoConfig: UploadConfig = {
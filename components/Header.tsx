@@ -15,6 +15,7 @@ import { useSession, signOut } from "next-auth/react";
 import Image from "next/image";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import NotificationBell from "./NotificationBell";
 
 const Header: React.FC = () => {
   const pathname = usePathname();
@@ -266,6 +267,7 @@ const Header: React.FC = () => {
             </nav>
             {/* Desktop CTA */}
             <div className="hidden md:flex items-center space-x-4">
+              {status === "authenticated" && userRole === "candidate" && <NotificationBell />}
               {status === "authenticated" ? (
                 <div className="relative" ref={dropdownRef}>
                   <button
@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Bell, BellRing, CheckCircle, ClipboardCheck, FileText, Trophy, Undo2, XCircle } from "lucide-react";
+import {
+  fetchNotifications,
+  markNotificationsRead,
+  markAllNotificationsRead
+} from "@/app/dashboard/candidate/actions";
+import type { CandidateNotification, NotificationKind } from "@/app/dashboard/candidate/types.d";
+
+// Unread notifications are polled so reminders sent by the notification runner show up without a reload
+const POLL_INTERVAL_MS = 60 * 1000;
+const DROPDOWN_LIMIT = 8;
+
+export const NOTIFICATION_ICONS: Record<NotificationKind, typeof Bell> = {
+  applied: FileText,
+  shortlisted: CheckCircle,
+  "round-completed": ClipboardCheck,
+  reminder: BellRing,
+  result: Trophy,
+  rejected: XCircle,
+  withdrawn: Undo2
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+const NotificationBell: React.FC = () => {
+  const [notifications, setNotifications] = useState<CandidateNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = async () => {
+    try {
+      const result = await fetchNotifications(DROPDOWN_LIMIT);
+      if (result.success && result.data) {
+        setNotifications(result.data.notifications);
+        setUnreadCount(result.data.unreadCount);
+      }
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleOpen = () => {
+    if (!isOpen) loadNotifications();
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = async (notification: CandidateNotification) => {
+    setIsOpen(false);
+    if (notification.read) return;
+
+    setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: true } : n)));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+    try {
+      await markNotificationsRead([notification.id]);
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setUnreadCount(0);
+    try {
+      await markAllNotificationsRead();
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      loadNotifications();
+    }
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={handleOpen}
+        aria-label={unreadCount ? `${unreadCount} unread notifications` : "Notifications"}
+        className="relative p-2 rounded-lg text-white/70 hover:text-white hover:bg-white/5 transition-colors">
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-rose-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 mt-1 w-80 bg-[#0A0A18] border border-white/20 rounded-lg shadow-lg backdrop-blur-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <p className="text-white text-sm font-medium">Notifications</p>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-xs text-purple-300 hover:text-purple-200 transition-colors">
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-white/60 text-sm">You have no notifications yet.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-white/10">
+              {notifications.map(notification => {
+                const IconComponent = NOTIFICATION_ICONS[notification.type];
+                const content = (
+                  <div className="flex items-start gap-3">
+                    <IconComponent className={`h-4 w-4 mt-0.5 shrink-0 ${
+                      notification.type === "rejected" ? "text-red-400" : "text-purple-300"
+                    }`} />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className={`text-sm truncate ${notification.read ? "text-white/70" : "text-white font-semibold"}`}>
+                          {notification.title}
+                        </span>
+                        {!notification.read && <span className="h-2 w-2 rounded-full bg-rose-500 shrink-0" />}
+                      </div>
+                      <p className="text-xs text-white/60 mt-1 line-clamp-2">{notification.message}</p>
+                      <p className="text-[11px] text-white/40 mt-1">{formatTime(notification.createdAt)}</p>
+                    </div>
+                  </div>
+                );
+
+                return notification.link ? (
+                  <Link
+                    key={notification.id}
+                    href={notification.link}
+                    onClick={() => handleSelect(notification)}
+                    className="block px-4 py-3 hover:bg-white/5 transition-colors">
+                    {content}
+                  </Link>
+                ) : (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleSelect(notification)}
+                    className="block w-full text-left px-4 py-3 hover:bg-white/5 transition-colors">
+                    {content}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <Link
+            href="/dashboard/candidate#activity"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2 border-t border-white/10 text-center text-sm text-white/70 hover:text-white hover:bg-white/5 transition-colors">
+            View all activity
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -14,7 +14,7 @@ export default function ExamProtectionWrapper({
   countdownSeconds = 10,
 }: ExamProtectionWrapperProps) {
   const router = useRouter()
-  const warningContext = useWarningContext()
+  const { isMonitoring, incrementTabSwitch: reportTabSwitch, incrementFullscreenExit } = useWarningContext()
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [warning, setWarning] = useState<string | null>(null)
   const [redirectTimer, setRedirectTimer] = useState(countdownSeconds)
@@ -72,7 +72,7 @@ export default function ExamProtectionWrapper({
     if (tabLockRef.current) return
     tabLockRef.current = true
 
-    warningContext.incrementTabSwitch()
+    reportTabSwitch()
     setWarning('⚠ You switched away from the test window!')
 
     const unlockOnFocus = () => {
@@ -80,10 +80,12 @@ export default function ExamProtectionWrapper({
       window.removeEventListener('focus', unlockOnFocus)
     }
     window.addEventListener('focus', unlockOnFocus)
-  }, [warningContext])
+  }, [reportTabSwitch])
 
-  // Handle visibility & fullscreen changes
+  // Handle visibility & fullscreen changes while the test is running
   useEffect(() => {
+    if (!isMonitoring) return
+
     const handleBlur = () => incrementTabSwitch()
     const handleVisibilityChange = () => {
       if (document.visibilityState === 'hidden') incrementTabSwitch()
@@ -91,7 +93,7 @@ export default function ExamProtectionWrapper({
 
     const handleFullscreenChange = () => {
       if (!document.fullscreenElement) {
-        warningContext.incrementFullscreenExit()
+        incrementFullscreenExit()
         setIsFullscreen(false)
         setWarning(`⚠ You exited fullscreen! Return within ${countdownSeconds}s.`)
         startRedirectCountdown()
@@ -111,19 +113,15 @@ export default function ExamProtectionWrapper({
       document.removeEventListener('visibilitychange', handleVisibilityChange)
       document.removeEventListener('fullscreenchange', handleFullscreenChange)
     }
-  }, [incrementTabSwitch, startRedirectCountdown, stopRedirectCountdown, countdownSeconds, warningContext])
+  }, [isMonitoring, incrementTabSwitch, incrementFullscreenExit, startRedirectCountdown, stopRedirectCountdown, countdownSeconds])
 
-  // Redirect if limit exceeded
+  // Once the test has ended (submitted, timed out or terminated by the server) nothing counts any more
   useEffect(() => {
-    if (warningContext.hasExceededLimits()) {
-      const exceededWarnings = warningContext.getExceededWarnings()
-      if (exceededWarnings.includes('tab_switch')) {
-        router.push('/disqualified?reason=multiple_tab_switches')
-      } else if (exceededWarnings.includes('fullscreen_exit')) {
-        router.push('/disqualified?reason=multiple_fullscreen_exits')
-      }
+    if (!isMonitoring) {
+      stopRedirectCountdown()
+      setWarning(null)
     }
-  }, [warningContext, router])
+  }, [isMonitoring, stopRedirectCountdown])
 
   return (
     <div className="relative min-h-screen flex flex-col items-center justify-center text-white bg-[#0a0a18]">
@@ -1,46 +1,54 @@
 'use client'
 
-import React, { createContext, useContext, useRef, useCallback, ReactNode, useState } from 'react'
+import React, { createContext, useContext, useRef, useCallback, useEffect, ReactNode, useState } from 'react'
+import { createProctoringStream, type ProctoringDetection, type ProctoringStream } from './proctoring/client'
+import { startFaceVerification } from './proctoring/faceIdentity'
+import type { ProctoringCredentials, ProctoringUploadResult } from './proctoring/protocol'
 
 /**
  * Warning Context for tracking exam protection warnings across components
- * This context manages warning counts and provides methods to update them
+ * Warnings are streamed to the server as they happen; the counts and the decision to terminate the
+ * test come back from the server, which checks them against the round's limits. While monitoring, the
+ * candidate's face is also re-verified against the one enrolled at the system check
  */
 interface WarningContextType {
-  // Warning counts
+  // Warning counts, as counted by the server
   tabSwitchCount: number
   fullscreenExitCount: number
   audioWarningCount: number
-  
-  // Warning limits from aptitude model
+
+  // Warning limits from the round
   tabSwitchLimit: number
   fullscreenExitLimit: number
   audioWarningLimit: number
-  
-  // Methods to update warning counts
+
+  // Methods to report warnings
   incrementTabSwitch: () => void
   incrementFullscreenExit: () => void
   incrementAudioWarning: () => void
-  
+  // Face and object detections are logged for the employer but never counted
+  reportDetection: (detection: ProctoringDetection) => void
 
+  // Set once the server terminated the test
+  isTerminated: boolean
+  terminationReason?: string
   hasExceededLimits: () => boolean
   getExceededWarnings: () => string[]
-  
 
-  getWarningState: () => {
-    tabSwitch: { count: number; maxAllowed: number; exceeded: boolean }
-    fullscreen: { count: number; maxAllowed: number; exceeded: boolean }
-    audio: { count: number; maxAllowed: number; exceeded: boolean }
-  }
-  
-  // Reset warnings (for new test session)
-  resetWarnings: () => void
+  // False once the test has ended and warnings are no longer reported
+  isMonitoring: boolean
+  endMonitoring: () => void
 }
 
 const WarningContext = createContext<WarningContextType | undefined>(undefined)
 
 interface WarningProviderProps {
   children: ReactNode
+  roundId: string
+  // Server action opening the proctoring session of the candidate's running test
+  startProctoring: (roundId: string) => Promise<{ success: boolean; data?: ProctoringCredentials }>
+  // Server action comparing a face seen during the test with the candidate's enrolled face
+  verifyIdentity: (roundId: string, descriptor: number[]) => Promise<unknown>
   tabSwitchLimit: number
   fullscreenExitLimit: number
   audioWarningLimit: number
@@ -48,95 +56,91 @@ interface WarningProviderProps {
 
 export function WarningProvider({
   children,
+  roundId,
+  startProctoring,
+  verifyIdentity,
   tabSwitchLimit,
   fullscreenExitLimit,
   audioWarningLimit
 }: WarningProviderProps) {
-  const tabSwitchCount = useRef(0)
-  const fullscreenExitCount = useRef(0)
-  const audioWarningCount = useRef(0)
-  
+  const streamRef = useRef<ProctoringStream | null>(null)
+  const [counts, setCounts] = useState({ tabSwitch: 0, fullscreen: 0, audio: 0 })
+  const [termination, setTermination] = useState<{ terminated: boolean; reason?: string }>({ terminated: false })
+  const [isMonitoring, setIsMonitoring] = useState(true)
+
+  useEffect(() => {
+    const stream = createProctoringStream({
+      start: async () => {
+        const result = await startProctoring(roundId)
+        return result.success && result.data ? result.data : null
+      },
+      onUpload: (result: ProctoringUploadResult) => {
+        if (result.warnings) setCounts(result.warnings)
+        if (result.terminated) setTermination({ terminated: true, reason: result.terminationReason })
+      }
+    })
+    streamRef.current = stream
 
-  const [, forceUpdate] = useState({})
+    return () => {
+      stream.close()
+      streamRef.current = null
+    }
+  }, [roundId, startProctoring])
 
-  const incrementTabSwitch = useCallback(() => {
-    tabSwitchCount.current += 1
-    console.log(' Tab switch incremented. New count:', tabSwitchCount.current)
-    forceUpdate({}) // Trigger re-render
+  useEffect(() => {
+    if (!isMonitoring) return
+    return startFaceVerification(descriptor => verifyIdentity(roundId, descriptor))
+  }, [roundId, verifyIdentity, isMonitoring])
+
+  const reportDetection = useCallback((detection: ProctoringDetection) => {
+    streamRef.current?.report(detection)
   }, [])
 
+  const incrementTabSwitch = useCallback(() => {
+    reportDetection({ type: 'tab-switch' })
+  }, [reportDetection])
+
   const incrementFullscreenExit = useCallback(() => {
-    fullscreenExitCount.current += 1
-    console.log('Fullscreen exit incremented. New count:', fullscreenExitCount.current)
-    forceUpdate({}) // Trigger re-render
-  }, [])
+    reportDetection({ type: 'fullscreen-exit' })
+  }, [reportDetection])
 
   const incrementAudioWarning = useCallback(() => {
-    audioWarningCount.current += 1
-    console.log('Audio warning incremented. New count:', audioWarningCount.current)
-    forceUpdate({}) // Trigger re-render
-  }, [])
+    reportDetection({ type: 'audio' })
+  }, [reportDetection])
 
-  const hasExceededLimits = useCallback(() => {
-    return (
-      tabSwitchCount.current > tabSwitchLimit ||
-      fullscreenExitCount.current > fullscreenExitLimit ||
-      audioWarningCount.current > audioWarningLimit
-    )
-  }, [tabSwitchLimit, fullscreenExitLimit, audioWarningLimit])
+  const hasExceededLimits = useCallback(() => termination.terminated, [termination])
 
   const getExceededWarnings = useCallback(() => {
     const exceeded: string[] = []
-    if (tabSwitchCount.current > tabSwitchLimit) exceeded.push('tab_switch')
-    if (fullscreenExitCount.current > fullscreenExitLimit) exceeded.push('fullscreen_exit')
-    if (audioWarningCount.current > audioWarningLimit) exceeded.push('audio_warning')
+    if (counts.tabSwitch > tabSwitchLimit) exceeded.push('tab_switch')
+    if (counts.fullscreen > fullscreenExitLimit) exceeded.push('fullscreen_exit')
+    if (counts.audio > audioWarningLimit) exceeded.push('audio_warning')
     return exceeded
-  }, [tabSwitchLimit, fullscreenExitLimit, audioWarningLimit])
-
-  const getWarningState = useCallback(() => {
-    const state = {
-      tabSwitch: {
-        count: tabSwitchCount.current,
-        maxAllowed: tabSwitchLimit,
-        exceeded: tabSwitchCount.current > tabSwitchLimit
-      },
-      fullscreen: {
-        count: fullscreenExitCount.current,
-        maxAllowed: fullscreenExitLimit,
-        exceeded: fullscreenExitCount.current > fullscreenExitLimit
-      },
-      audio: {
-        count: audioWarningCount.current,
-        maxAllowed: audioWarningLimit,
-        exceeded: audioWarningCount.current > audioWarningLimit
-      }
-    }
-    console.log('Warning state retrieved:', state)
-    return state
-  }, [tabSwitchLimit, fullscreenExitLimit, audioWarningLimit])
-
-  const resetWarnings = useCallback(() => {
-    tabSwitchCount.current = 0
-    fullscreenExitCount.current = 0
-    audioWarningCount.current = 0
-    console.log('Warning counts reset to 0')
-    forceUpdate({}) // Trigger re-render
+  }, [counts, tabSwitchLimit, fullscreenExitLimit, audioWarningLimit])
+
+  const endMonitoring = useCallback(() => {
+    streamRef.current?.close()
+    streamRef.current = null
+    setIsMonitoring(false)
   }, [])
 
   const value: WarningContextType = {
-    tabSwitchCount: tabSwitchCount.current,
-    fullscreenExitCount: fullscreenExitCount.current,
-    audioWarningCount: audioWarningCount.current,
+    tabSwitchCount: counts.tabSwitch,
+    fullscreenExitCount: counts.fullscreen,
+    audioWarningCount: counts.audio,
     tabSwitchLimit,
     fullscreenExitLimit,
     audioWarningLimit,
     incrementTabSwitch,
     incrementFullscreenExit,
     incrementAudioWarning,
+    reportDetection,
+    isTerminated: termination.terminated,
+    terminationReason: termination.reason,
     hasExceededLimits,
     getExceededWarnings,
-    getWarningState,
-    resetWarnings
+    isMonitoring,
+    endMonitoring
   }
 
   return (
@@ -157,8 +161,3 @@ export function useWarningContext(): WarningContextType {
   }
   return context
 }
-
-
-
-
-
@@ -0,0 +1,144 @@
+// Aptitude exam sessions - runs a round's sections in order with server-side section timers
+//
+// - The exam follows the round's configured sections; rounds without sectioned questions run as one section
+// - A section's timeLimit counts from the moment the candidate enters it and never runs past the test duration
+// - A section locks when the candidate moves on or its time runs out, and locked sections accept no answers.
+//   Every section is locked once the test's own time runs out
+// - Answers are keyed by question ID, so grading does not depend on question order
+//
+import type { Aptitude } from "@/models/aptitude.model";
+import type { AptitudeTopic } from "@/models/aptitudeQuestion.model";
+
+export interface ExamSection {
+  name: string;
+  description?: string;
+  topic?: AptitudeTopic;
+  questionIds: number[];
+  timeLimit?: number; // minutes
+}
+
+export interface SectionProgress {
+  startedAt?: Date;
+  lockedAt?: Date;
+}
+
+export interface SectionSession {
+  currentSection: number; // equals the number of sections once every section is locked
+  sectionProgress: SectionProgress[];
+}
+
+/**
+ * Sections the candidate takes, in order. Questions missing from every section are added as a final section.
+ */
+export function resolveExamSections(aptitude: Pick<Aptitude, "sections" | "questionIds">): ExamSection[] {
+  const sections: ExamSection[] = (aptitude.sections || [])
+    .filter(section => section.questionIds?.length)
+    .map(section => ({
+      name: section.name,
+      description: section.description || undefined,
+      topic: section.topic,
+      questionIds: [...section.questionIds],
+      timeLimit: section.timeLimit || undefined
+    }));
+
+  const sectioned = new Set(sections.flatMap(section => section.questionIds));
+  const remaining = (aptitude.questionIds || []).filter(id => !sectioned.has(id));
+  if (remaining.length) {
+    sections.push({ name: sections.length ? "Additional Questions" : "Aptitude", questionIds: remaining });
+  }
+
+  return sections;
+}
+
+/**
+ * When the section closes: its own time limit from when it started, capped by the end of the test.
+ */
+export function getSectionDeadline(section: ExamSection, progress: SectionProgress | undefined, testDeadline: Date): Date {
+  if (!section.timeLimit || !progress?.startedAt) return testDeadline;
+
+  const sectionDeadline = new Date(progress.startedAt.getTime() + section.timeLimit * 60 * 1000);
+  return sectionDeadline < testDeadline ? sectionDeadline : testDeadline;
+}
+
+/**
+ * Locks sections whose time ran out and starts the following ones. A section that expired while the
+ * candidate was away starts the next section at its deadline, so the time away still counts. After the
+ * test deadline the remaining sections start and lock at the deadline, leaving no section open.
+ * Returns whether the session changed.
+ */
+export function syncSectionSession(
+  sections: ExamSection[],
+  session: SectionSession,
+  testDeadline: Date,
+  now: Date = new Date()
+): boolean {
+  let changed = false;
+
+  while (session.currentSection < sections.length) {
+    const index = session.currentSection;
+    if (!session.sectionProgress[index]?.startedAt) {
+      session.sectionProgress[index] = { startedAt: now };
+      changed = true;
+    }
+
+    const deadline = getSectionDeadline(sections[index], session.sectionProgress[index], testDeadline);
+    if (deadline > now) break;
+
+    session.sectionProgress[index].lockedAt = deadline;
+    if (index + 1 < sections.length) {
+      session.sectionProgress[index + 1] = { startedAt: deadline };
+    }
+    session.currentSection = index + 1;
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * Locks the current section and starts the next one.
+ */
+export function advanceSectionSession(sections: ExamSection[], session: SectionSession, now: Date = new Date()): void {
+  const index = session.currentSection;
+  if (index >= sections.length) return;
+
+  session.sectionProgress[index] = { ...session.sectionProgress[index], lockedAt: now };
+  if (index + 1 < sections.length) {
+    session.sectionProgress[index + 1] = { startedAt: now };
+  }
+  session.currentSection = index + 1;
+}
+
+/**
+ * Indexes of the sections that no longer accept answers.
+ */
+export function getLockedSections(session: SectionSession): number[] {
+  return session.sectionProgress
+    .map((progress, index) => (progress?.lockedAt || index < session.currentSection ? index : -1))
+    .filter(index => index >= 0);
+}
+
+/**
+ * Whether the question belongs to the section the candidate is currently taking.
+ */
+export function isQuestionOpen(sections: ExamSection[], session: SectionSession, questionId: number): boolean {
+  return !!sections[session.currentSection]?.questionIds.includes(questionId);
+}
+
+/**
+ * Adds incoming answers to the stored ones, keeping only answers to questions of the open section.
+ */
+export function acceptAnswers(
+  sections: ExamSection[],
+  session: SectionSession,
+  stored: Record<string, number>,
+  incoming: Record<string, number> = {}
+): Record<string, number> {
+  const answers = { ...stored };
+  for (const [questionId, answer] of Object.entries(incoming)) {
+    if (Number.isInteger(answer) && answer >= 0 && isQuestionOpen(sections, session, Number(questionId))) {
+      answers[questionId] = answer;
+    }
+  }
+  return answers;
+}
@@ -0,0 +1,462 @@
+// Aptitude question bank - MongoDB-backed storage for aptitude round questions
+//
+// - Questions keep a numeric questionId so rounds can keep referencing them through Aptitude.questionIds
+// - Built-in questions (employer: null) are seeded from app/assessment/aptitude/aptitude_questions.json
+//   the first time the bank is used, when that file is present
+// - Employer questions are imported in bulk from CSV or JSON and are only visible to the importing
+//   employer's organization
+// - Rounds draw questions per topic following the round's question pool and difficulty mix,
+//   skipping expired questions and questions the organization already used in earlier rounds. A topic
+//   without enough unused questions fails the draw rather than repeating questions
+// - Employer question IDs come from an atomic counter, so concurrent imports never collide
+//
+import { promises as fs } from "fs";
+import path from "path";
+import mongoose from "mongoose";
+import AptitudeQuestionModel, {
+  AptitudeDifficulty,
+  AptitudeQuestionDoc,
+  AptitudeTopic
+} from "@/models/aptitudeQuestion.model";
+import AptitudeModel from "@/models/aptitude.model";
+import AssessmentModel from "@/models/assesment.model";
+import CounterModel from "@/models/counter.model";
+import type { ProcessedQuestion } from "@/app/assessment/aptitude/types";
+
+export const APTITUDE_TOPICS: AptitudeTopic[] = ["logicalReasoning", "quantitative", "technical", "verbal"];
+export const APTITUDE_DIFFICULTIES: AptitudeDifficulty[] = ["easy", "medium", "hard"];
+
+export const TOPIC_LABELS: Record<AptitudeTopic, string> = {
+  logicalReasoning: "Logical Reasoning",
+  quantitative: "Quantitative",
+  technical: "Technical",
+  verbal: "Verbal"
+};
+
+const BUILT_IN_QUESTIONS_FILE = path.join(process.cwd(), "app/assessment/aptitude/aptitude_questions.json");
+const QUESTION_ID_COUNTER = "aptitudeQuestionId";
+
+export interface AptitudeQuestionInput {
+  topic: string;
+  subtopic?: string;
+  difficulty?: string;
+  question: string;
+  options: string[];
+  answer: string | number; // correct option text, letter (A-D) or zero-based index
+  explanation?: string;
+}
+
+export type QuestionPool = Record<AptitudeTopic, number>;
+export type DifficultyMix = Record<AptitudeDifficulty, number>;
+
+export const DEFAULT_DIFFICULTY_MIX: DifficultyMix = { easy: 30, medium: 50, hard: 20 };
+
+let seeded = false;
+
+/**
+ * Maps free-text topic names ("Quantitative Aptitude", "Verbal Ability", ...) onto the bank's topics.
+ */
+export function normalizeTopic(topic: string): AptitudeTopic | null {
+  const value = topic.toLowerCase().replace(/[^a-z]/g, "");
+  if (!value) return null;
+  if (APTITUDE_TOPICS.includes(topic as AptitudeTopic)) return topic as AptitudeTopic;
+  if (/logic|reason|puzzle|analytical/.test(value)) return "logicalReasoning";
+  if (/quant|math|arith|numer|algebra|data/.test(value)) return "quantitative";
+  if (/verbal|english|grammar|vocab|reading|comprehension/.test(value)) return "verbal";
+  if (/tech|program|comput|software|coding/.test(value)) return "technical";
+  return null;
+}
+
+function normalizeDifficulty(difficulty?: string): AptitudeDifficulty {
+  const value = (difficulty || "").trim().toLowerCase();
+  return APTITUDE_DIFFICULTIES.includes(value as AptitudeDifficulty) ? (value as AptitudeDifficulty) : "medium";
+}
+
+/**
+ * Resolves the correct answer of an imported question to an option index, or -1 when it matches no option.
+ */
+function resolveAnswerIndex(options: string[], answer: string | number): number {
+  if (typeof answer === "number") return Number.isInteger(answer) && answer >= 0 && answer < options.length ? answer : -1;
+
+  const value = answer.trim();
+  const byText = options.findIndex(option => option.trim().toLowerCase() === value.toLowerCase());
+  if (byText >= 0) return byText;
+  if (/^[A-Za-z]$/.test(value)) {
+    const index = value.toUpperCase().charCodeAt(0) - 65;
+    return index < options.length ? index : -1;
+  }
+  if (/^\d+$/.test(value)) {
+    const index = Number(value);
+    return index < options.length ? index : -1;
+  }
+  return -1;
+}
+
+/**
+ * Checks an imported question and converts it into the stored shape.
+ * Returns a readable error message instead when the question is invalid.
+ */
+export function toQuestionRecord(
+  input: AptitudeQuestionInput
+): { record: Omit<AptitudeQuestionDoc, keyof mongoose.Document | "questionId" | "employer" | "createdAt" | "updatedAt"> } | { error: string } {
+  const topic = normalizeTopic(input.topic || "");
+  if (!topic) return { error: `Unknown topic "${input.topic || ""}"` };
+  if (!input.question?.trim()) return { error: "Question text is required" };
+
+  const options = (input.options || []).map(option => String(option).trim()).filter(Boolean);
+  if (options.length < 2) return { error: "At least two options are required" };
+
+  const correctAnswer = resolveAnswerIndex(options, input.answer ?? "");
+  if (correctAnswer < 0) return { error: `Answer "${input.answer ?? ""}" does not match any option` };
+
+  return {
+    record: {
+      topic,
+      subtopic: input.subtopic?.trim() || "",
+      difficulty: normalizeDifficulty(input.difficulty),
+      question: input.question.trim(),
+      options,
+      correctAnswer,
+      explanation: input.explanation?.trim() || undefined
+    }
+  };
+}
+
+/**
+ * Splits CSV text into rows, handling quoted fields with commas, quotes and line breaks.
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+/**
+ * Parses a CSV or JSON question file into importable questions.
+ *
+ * CSV needs a header row with topic, question and answer columns, plus either an options column
+ * (options separated by "|") or option_a, option_b, ... columns. subtopic, difficulty and explanation are optional.
+ * JSON is an array (or { questions: [...] }) of objects with the same fields; correct_answer is accepted for answer.
+ */
+export function parseQuestionFile(content: string, format: "csv" | "json"): AptitudeQuestionInput[] {
+  if (format === "json") {
+    const parsed = JSON.parse(content);
+    const items: any[] = Array.isArray(parsed) ? parsed : parsed?.questions;
+    if (!Array.isArray(items)) throw new Error("JSON must be an array of questions or { questions: [...] }");
+
+    return items.map(item => ({
+      topic: item.topic ?? "",
+      subtopic: item.subtopic,
+      difficulty: item.difficulty,
+      question: item.question ?? item.text ?? "",
+      options: Array.isArray(item.options) ? item.options : [],
+      answer: item.answer ?? item.correct_answer ?? item.correctAnswer ?? "",
+      explanation: item.explanation
+    }));
+  }
+
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim().toLowerCase().replace(/\s+/g, "_"));
+  const column = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? (row[index] ?? "").trim() : "";
+  };
+  const optionColumns = columns.filter(name => /^option_?[a-z0-9]$/.test(name));
+
+  for (const required of ["topic", "question", "answer"]) {
+    if (!columns.includes(required)) throw new Error(`CSV is missing the "${required}" column`);
+  }
+  if (!columns.includes("options") && optionColumns.length === 0) {
+    throw new Error('CSV needs an "options" column or option_a, option_b, ... columns');
+  }
+
+  return rows.map(row => ({
+    topic: column(row, "topic"),
+    subtopic: column(row, "subtopic"),
+    difficulty: column(row, "difficulty"),
+    question: column(row, "question"),
+    options: columns.includes("options")
+      ? column(row, "options").split("|")
+      : optionColumns.map(name => column(row, name)),
+    answer: column(row, "answer"),
+    explanation: column(row, "explanation")
+  }));
+}
+
+/**
+ * Inserts the built-in questions into an empty bank when the questions file is available.
+ */
+export async function ensureQuestionBankSeeded(): Promise<void> {
+  if (seeded) return;
+
+  const count = await AptitudeQuestionModel.estimatedDocumentCount();
+  if (count === 0) {
+    const content = await fs.readFile(BUILT_IN_QUESTIONS_FILE, "utf8").catch(() => null);
+    if (content) {
+      const items: any[] = JSON.parse(content).questions || [];
+      const records = items.flatMap(item => {
+        const result = toQuestionRecord({
+          topic: item.topic,
+          subtopic: item.subtopic,
+          difficulty: item.difficulty,
+          question: item.question,
+          options: item.options,
+          answer: item.correct_answer ?? item.answer
+        });
+        return "record" in result ? [{ ...result.record, questionId: item.id, employer: null }] : [];
+      });
+      await AptitudeQuestionModel.insertMany(records, { ordered: false });
+    }
+  }
+  seeded = true;
+}
+
+/**
+ * Query matching the questions an organization may use: built-in ones plus its own.
+ */
+export function visibleToOrganization(organizationId: mongoose.Types.ObjectId): mongoose.FilterQuery<AptitudeQuestionDoc> {
+  return { $or: [{ employer: null }, { organization: organizationId }] };
+}
+
+/**
+ * Converts a stored question into the shape used by the exam and scoring.
+ */
+export function toProcessedQuestion(doc: Pick<AptitudeQuestionDoc, "questionId" | "question" | "options" | "correctAnswer">): ProcessedQuestion {
+  return {
+    id: doc.questionId,
+    text: doc.question,
+    options: doc.options,
+    correctAnswer: doc.correctAnswer
+  };
+}
+
+/**
+ * Loads questions by numeric ID, preserving the order of the given IDs.
+ */
+export async function getQuestionsByIds(questionIds: number[]): Promise<ProcessedQuestion[]> {
+  await ensureQuestionBankSeeded();
+
+  const docs = await AptitudeQuestionModel.find({ questionId: { $in: questionIds } })
+    .select("questionId question options correctAnswer")
+    .lean();
+  const byId = new Map(docs.map(doc => [doc.questionId, toProcessedQuestion(doc)]));
+  return questionIds.map(id => byId.get(id)).filter((q): q is ProcessedQuestion => !!q);
+}
+
+/**
+ * Splits a topic's question count across difficulties by the mix percentages (largest remainder).
+ */
+export function splitByDifficulty(count: number, mix: DifficultyMix): DifficultyMix {
+  const total = APTITUDE_DIFFICULTIES.reduce((sum, d) => sum + Math.max(0, mix[d] || 0), 0);
+  const shares = APTITUDE_DIFFICULTIES.map(d => (total > 0 ? (Math.max(0, mix[d] || 0) / total) * count : count / 3));
+  const counts = shares.map(Math.floor);
+
+  let remaining = count - counts.reduce((sum, c) => sum + c, 0);
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining === 0) break;
+    counts[index]++;
+    remaining--;
+  }
+
+  return { easy: counts[0], medium: counts[1], hard: counts[2] };
+}
+
+async function sampleQuestionIds(
+  match: mongoose.FilterQuery<AptitudeQuestionDoc>,
+  size: number
+): Promise<number[]> {
+  if (size <= 0) return [];
+  const sample = await AptitudeQuestionModel.aggregate<{ questionId: number }>([
+    { $match: match },
+    { $sample: { size } },
+    { $project: { questionId: 1 } }
+  ]);
+  return sample.map(q => q.questionId);
+}
+
+/**
+ * Draws a round's questions from the organization's bank.
+ *
+ * Every topic gets its question pool count, split across difficulties by the difficulty mix.
+ * When a difficulty runs short the topic is topped up from its other difficulties. Expired questions and
+ * questions used in the organization's earlier rounds are never drawn; a topic that runs out of unused
+ * questions fails the draw. Returns the drawn IDs grouped by topic.
+ */
+export async function drawQuestionsFromPool(
+  organizationId: mongoose.Types.ObjectId,
+  pool: Partial<QuestionPool>,
+  mix: DifficultyMix,
+  options: { expiredQuestionIds?: number[]; usedQuestionIds?: number[] } = {}
+): Promise<Record<AptitudeTopic, number[]>> {
+  await ensureQuestionBankSeeded();
+
+  const expired = options.expiredQuestionIds || [];
+  const used = options.usedQuestionIds || [];
+  const drawn = {} as Record<AptitudeTopic, number[]>;
+
+  for (const topic of APTITUDE_TOPICS) {
+    const count = pool[topic] || 0;
+    const ids: number[] = [];
+    const base = { ...visibleToOrganization(organizationId), topic };
+    const exclude = () => [...expired, ...used, ...ids];
+
+    const perDifficulty = splitByDifficulty(count, mix);
+    for (const difficulty of APTITUDE_DIFFICULTIES) {
+      ids.push(...await sampleQuestionIds(
+        { ...base, difficulty, questionId: { $nin: exclude() } },
+        perDifficulty[difficulty]
+      ));
+    }
+
+    // Top up from any difficulty
+    ids.push(...await sampleQuestionIds({ ...base, questionId: { $nin: exclude() } }, count - ids.length));
+
+    if (ids.length < count) {
+      throw new Error(
+        `Not enough unused ${TOPIC_LABELS[topic].toLowerCase()} questions in the question bank ` +
+        `(need ${count}, found ${ids.length}). Import more questions or lower the question pool.`
+      );
+    }
+    drawn[topic] = ids;
+  }
+
+  return drawn;
+}
+
+/**
+ * Number of questions available to the organization per topic and difficulty.
+ */
+export async function countQuestionsByTopic(
+  organizationId: mongoose.Types.ObjectId
+): Promise<Record<AptitudeTopic, DifficultyMix & { total: number }>> {
+  await ensureQuestionBankSeeded();
+
+  const groups = await AptitudeQuestionModel.aggregate<{ _id: { topic: AptitudeTopic; difficulty: AptitudeDifficulty }; count: number }>([
+    { $match: visibleToOrganization(organizationId) },
+    { $group: { _id: { topic: "$topic", difficulty: "$difficulty" }, count: { $sum: 1 } } }
+  ]);
+
+  const counts = Object.fromEntries(
+    APTITUDE_TOPICS.map(topic => [topic, { easy: 0, medium: 0, hard: 0, total: 0 }])
+  ) as Record<AptitudeTopic, DifficultyMix & { total: number }>;
+  for (const group of groups) {
+    const entry = counts[group._id.topic];
+    if (!entry) continue;
+    entry[group._id.difficulty] += group.count;
+    entry.total += group.count;
+  }
+  return counts;
+}
+
+/**
+ * Reserves `count` consecutive question IDs and returns the first. The counter starts after the highest
+ * stored ID the first time it is used.
+ */
+export async function reserveQuestionIds(count: number): Promise<number> {
+  await ensureQuestionBankSeeded();
+
+  if (!await CounterModel.exists({ _id: QUESTION_ID_COUNTER })) {
+    const last = await AptitudeQuestionModel.findOne().sort({ questionId: -1 }).select("questionId").lean();
+    await CounterModel.updateOne(
+      { _id: QUESTION_ID_COUNTER },
+      { $setOnInsert: { seq: last?.questionId || 0 } },
+      { upsert: true }
+    ).catch(error => {
+      // Another import created the counter first
+      if ((error as { code?: number }).code !== 11000) throw error;
+    });
+  }
+
+  const counter = await CounterModel.findOneAndUpdate(
+    { _id: QUESTION_ID_COUNTER },
+    { $inc: { seq: count } },
+    { new: true }
+  ).lean();
+  if (!counter) throw new Error("Failed to reserve question IDs");
+  return counter.seq - count + 1;
+}
+
+/**
+ * Question IDs already drawn into the organization's earlier aptitude rounds.
+ */
+export async function findUsedQuestionIds(organizationId: mongoose.Types.ObjectId): Promise<number[]> {
+  const assessments = await AssessmentModel.find({
+    organization: organizationId,
+    aptitudeId: { $exists: true, $ne: null }
+  })
+    .select("aptitudeId")
+    .lean();
+  if (assessments.length === 0) return [];
+
+  const rounds = await AptitudeModel.find({ _id: { $in: assessments.map(a => a.aptitudeId) } })
+    .select("questionIds")
+    .lean();
+  return [...new Set(rounds.flatMap(round => round.questionIds || []))];
+}
+
+/**
+ * Adds imported questions to the organization's bank. Invalid questions are skipped and reported by position.
+ */
+export async function importQuestions(
+  employerId: string,
+  organizationId: mongoose.Types.ObjectId,
+  inputs: AptitudeQuestionInput[]
+): Promise<{ imported: number; errors: string[] }> {
+  const errors: string[] = [];
+  const records = inputs.flatMap((input, index) => {
+    const result = toQuestionRecord(input);
+    if ("error" in result) {
+      errors.push(`Question ${index + 1}: ${result.error}`);
+      return [];
+    }
+    return [result.record];
+  });
+  if (records.length === 0) return { imported: 0, errors };
+
+  const firstId = await reserveQuestionIds(records.length);
+  const employer = new mongoose.Types.ObjectId(employerId);
+  await AptitudeQuestionModel.insertMany(
+    records.map((record, index) => ({ ...record, questionId: firstId + index, employer, organization: organizationId }))
+  );
+
+  return { imported: records.length, errors };
+}
@@ -0,0 +1,121 @@
+// Aptitude scoring - grades a candidate's answers against the round's questions
+//
+// - Answers are keyed by question ID; questions without an answer count as unattempted
+// - With negative marking every wrong answer deducts negativeMarkingPercentage of a mark;
+//   a section's score never drops below zero
+// - Each section is scored as a percentage; the test percentage weights sections by the round's
+//   sectionWeightage for their topic, or by question count when sections have no topic weighting
+//
+import type { Aptitude } from "@/models/aptitude.model";
+import type { AptitudeTopic } from "@/models/aptitudeQuestion.model";
+import type { ProcessedQuestion } from "@/app/assessment/aptitude/types";
+import type { ExamSection } from "./examSession";
+
+export interface SectionScore {
+  name: string;
+  topic?: AptitudeTopic;
+  totalQuestions: number;
+  correctCount: number;
+  incorrectCount: number;
+  unattemptedCount: number;
+  score: number; // marks after negative marking
+  percentage: number; // 0-100
+  weightage: number; // share of the test percentage, 0-100
+}
+
+export interface AptitudeScore {
+  totalQuestions: number;
+  correctCount: number;
+  incorrectCount: number;
+  unattemptedCount: number;
+  score: number;
+  percentage: number;
+  sectionScores: SectionScore[];
+}
+
+export type ScoringConfig = Partial<Pick<Aptitude, "negativeMarking" | "negativeMarkingPercentage" | "sectionWeightage">>;
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Section weights as fractions of 1. The round's topic weightage is used when every section has a
+ * topic with a weight; otherwise every question counts the same.
+ */
+function resolveSectionWeights(sections: { topic?: AptitudeTopic; totalQuestions: number }[], config: ScoringConfig): number[] {
+  const topicWeights = sections.map(section => (section.topic ? config.sectionWeightage?.[section.topic] ?? 0 : 0));
+  const topicTotal = topicWeights.reduce((sum, weight) => sum + weight, 0);
+  if (topicTotal > 0 && topicWeights.every(weight => weight > 0)) {
+    return topicWeights.map(weight => weight / topicTotal);
+  }
+
+  const questionTotal = sections.reduce((sum, section) => sum + section.totalQuestions, 0);
+  return sections.map(section => (questionTotal ? section.totalQuestions / questionTotal : 0));
+}
+
+/**
+ * Scores a submitted test section by section.
+ */
+export function scoreAptitudeTest(
+  sections: ExamSection[],
+  questions: ProcessedQuestion[],
+  answers: Record<string, number>,
+  config: ScoringConfig = {}
+): AptitudeScore {
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+  const penalty = config.negativeMarking ? (config.negativeMarkingPercentage ?? 0) / 100 : 0;
+
+  const graded = sections.map(section => {
+    let correctCount = 0;
+    let incorrectCount = 0;
+    let totalQuestions = 0;
+
+    for (const questionId of section.questionIds) {
+      const question = questionsById.get(questionId);
+      if (!question) continue;
+      totalQuestions++;
+
+      const answer = answers[String(questionId)];
+      if (answer === undefined || answer === null) continue;
+      if (answer === question.correctAnswer) {
+        correctCount++;
+      } else {
+        incorrectCount++;
+      }
+    }
+
+    const score = Math.max(0, correctCount - incorrectCount * penalty);
+    return {
+      name: section.name,
+      topic: section.topic,
+      totalQuestions,
+      correctCount,
+      incorrectCount,
+      unattemptedCount: totalQuestions - correctCount - incorrectCount,
+      score: roundScore(score),
+      percentage: totalQuestions ? roundScore((score / totalQuestions) * 100) : 0
+    };
+  });
+
+  const weights = resolveSectionWeights(graded, config);
+  const sectionScores: SectionScore[] = graded.map((section, index) => ({
+    ...section,
+    weightage: roundScore(weights[index] * 100)
+  }));
+
+  const sum = (key: "totalQuestions" | "correctCount" | "incorrectCount" | "unattemptedCount" | "score") =>
+    sectionScores.reduce((total, section) => total + section[key], 0);
+
+  return {
+    totalQuestions: sum("totalQuestions"),
+    correctCount: sum("correctCount"),
+    incorrectCount: sum("incorrectCount"),
+    unattemptedCount: sum("unattemptedCount"),
+    score: roundScore(sum("score")),
+    percentage: roundScore(
+      Math.min(100, sectionScores.reduce((total, section, index) => total + section.percentage * weights[index], 0))
+    ),
+    sectionScores
+  };
+}
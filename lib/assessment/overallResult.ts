@@ -0,0 +1,289 @@
+// Overall assessment result - combines a candidate's round scores into the final pass/fail decision
+//
+// - Every enabled round is normalized to a 0-100 score with its own pass/fail:
+//   aptitude from TestResult, coding from CodingEvaluation and both interviews from their evaluations
+// - Round scores are combined with Assessment.overallPassingCriteria.weightagePerRound
+// - The candidate passes when enough rounds were passed (minimumRoundsToPass) and the weighted
+//   score reaches overallMinimumScore (when one is configured)
+// - The result is only finalized once, after the last enabled round is finished, and is stored on
+//   the candidate's Application together with the assessment's completed/passing counters
+// - Rounds the employer invalidated count as failed with a score of 0. Invalidating a round after the
+//   result was finalized revises it (reviseAssessmentResult)
+//
+import mongoose from "mongoose";
+import AssessmentModel, { Assessment } from "@/models/assesment.model";
+import ApplicationModel, { Application, OverallResult } from "@/models/application.model";
+import TestResultModel from "@/models/aptitudeEvaluation.model";
+import CodingEvaluationModel from "@/models/codingEvaluation.model";
+import TechnicalInterviewEvaluationModel from "@/models/technicalInterviewEvaluation.model";
+import HRInterviewEvaluationModel from "@/models/hrInterviewEvaluation.model";
+import { notifyRejected, notifyResult } from "@/lib/notifications/notify";
+
+export type AssessmentRound = "aptitude" | "coding" | "technicalInterview" | "hrInterview";
+
+export const ASSESSMENT_ROUNDS: AssessmentRound[] = ["aptitude", "coding", "technicalInterview", "hrInterview"];
+
+// Interview rounds have no configurable passing score
+export const INTERVIEW_PASSING_SCORE = 50;
+
+const PASSING_VERDICTS = ["pass", "strong-pass"];
+
+// Application statuses the automatic decision and round progression may move on from. Employer decisions
+// and withdrawals are kept.
+export const UNDECIDED_STATUSES = ["applied", "under-review", "shortlisted", "interviewed"];
+
+export interface RoundResult {
+  round: AssessmentRound;
+  score: number; // 0-100
+  passed: boolean;
+}
+
+type PassingCriteria = Partial<Assessment["overallPassingCriteria"]>;
+
+export type AssessmentRounds = Pick<
+  Assessment,
+  "toConductRounds" | "aptitudeId" | "codingRoundId" | "technicalInterviewId" | "hrInterviewId"
+>;
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Assessment field holding the round document of each round type
+export const ROUND_ID_FIELDS = {
+  aptitude: "aptitudeId",
+  coding: "codingRoundId",
+  technicalInterview: "technicalInterviewId",
+  hrInterview: "hrInterviewId"
+} as const satisfies Record<AssessmentRound, keyof Assessment>;
+
+/**
+ * Rounds the candidate has to finish, in order. A round only counts when it is enabled and was actually created.
+ */
+export function getEnabledRounds(assessment: AssessmentRounds): AssessmentRound[] {
+  return ASSESSMENT_ROUNDS.filter(round => assessment.toConductRounds?.[round] && assessment[ROUND_ID_FIELDS[round]]);
+}
+
+/**
+ * Interview score from the AI overall score, falling back to the average correctness of the answered questions.
+ */
+export function calculateInterviewScore(evaluation: {
+  overallScore?: number | null;
+  askedQuestions?: { evaluation?: { correctness?: number } }[];
+}): number {
+  if (typeof evaluation.overallScore === "number") return evaluation.overallScore;
+
+  const scores = (evaluation.askedQuestions || [])
+    .map(question => question.evaluation?.correctness)
+    .filter((score): score is number => typeof score === "number");
+
+  return scores.length ? roundScore(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
+}
+
+/**
+ * Round weights as fractions of 1. Configured weights are used as given and rounds without a weight count 0;
+ * when no enabled round has a weight, every round counts equally.
+ */
+export function resolveRoundWeights(
+  rounds: AssessmentRound[],
+  weightagePerRound: PassingCriteria["weightagePerRound"] = {}
+): Partial<Record<AssessmentRound, number>> {
+  const configured = rounds.map(round => Math.max(0, weightagePerRound?.[round] ?? 0));
+  const total = configured.reduce((sum, weight) => sum + weight, 0);
+
+  return Object.fromEntries(
+    rounds.map((round, index) => [round, total > 0 ? configured[index] / total : 1 / rounds.length])
+  );
+}
+
+/**
+ * Combines normalized round results into the overall weighted score and pass/fail decision.
+ */
+export function combineRoundResults(results: RoundResult[], criteria: PassingCriteria = {}): OverallResult {
+  const weights = resolveRoundWeights(results.map(result => result.round), criteria.weightagePerRound);
+
+  const score = roundScore(
+    results.reduce((sum, result) => sum + result.score * (weights[result.round] ?? 0), 0)
+  );
+  const roundsPassed = results.filter(result => result.passed).length;
+
+  // Never require more rounds than the assessment has
+  const minimumRoundsToPass = Math.min(Math.max(criteria.minimumRoundsToPass ?? 1, 1), results.length);
+  const passed = roundsPassed >= minimumRoundsToPass
+    && (criteria.overallMinimumScore == null || score >= criteria.overallMinimumScore);
+
+  return {
+    score,
+    passed,
+    roundsPassed,
+    roundScores: Object.fromEntries(results.map(result => [result.round, result.score])),
+    evaluatedAt: new Date()
+  };
+}
+
+/**
+ * Round results with the rounds the employer invalidated counted as failed, whatever the candidate scored.
+ */
+function applyInvalidations(results: RoundResult[], invalidatedRounds: Application["invalidatedRounds"]): RoundResult[] {
+  return results.map(result => (invalidatedRounds?.[result.round] ? { round: result.round, score: 0, passed: false } : result));
+}
+
+/**
+ * Loads the candidate's normalized result for one round, or null when the round is not finished yet.
+ */
+export async function loadRoundResult(
+  assessment: AssessmentRounds,
+  candidateId: mongoose.Types.ObjectId,
+  round: AssessmentRound
+): Promise<RoundResult | null> {
+  const roundId = assessment[ROUND_ID_FIELDS[round]];
+  if (!roundId) return null;
+
+  if (round === "aptitude") {
+    const testResult = await TestResultModel.findOne({
+      candidateId,
+      aptitudeId: roundId,
+      status: { $in: ["completed", "terminated"] }
+    })
+      .sort({ submittedAt: -1 })
+      .select("percentage passed")
+      .lean();
+    return testResult ? { round, score: testResult.percentage, passed: testResult.passed } : null;
+  }
+
+  if (round === "coding") {
+    const evaluation = await CodingEvaluationModel.findOne({ candidateId, codingRoundId: roundId, isSubmitted: true })
+      .select("score passed")
+      .lean();
+    return evaluation ? { round, score: evaluation.score ?? 0, passed: !!evaluation.passed } : null;
+  }
+
+  const model = (round === "technicalInterview"
+    ? TechnicalInterviewEvaluationModel
+    : HRInterviewEvaluationModel) as mongoose.Model<any>;
+  const evaluation = await model.findOne({ candidateId, [ROUND_ID_FIELDS[round]]: roundId, status: "completed" })
+    .sort({ endedAt: -1 })
+    .select("overallScore verdict askedQuestions.evaluation")
+    .lean() as any;
+  if (!evaluation) return null;
+
+  const score = calculateInterviewScore(evaluation);
+  const passed = evaluation.verdict
+    ? PASSING_VERDICTS.includes(evaluation.verdict)
+    : score >= INTERVIEW_PASSING_SCORE;
+  return { round, score, passed };
+}
+
+/**
+ * Finalizes the candidate's overall result once every enabled round is finished.
+ * Call after any round is completed; returns null while rounds are still outstanding
+ * or when the result was already finalized, so counters are only incremented once.
+ */
+export async function finalizeAssessmentResult(
+  assessmentId: string | mongoose.Types.ObjectId,
+  candidateId: string | mongoose.Types.ObjectId
+): Promise<OverallResult | null> {
+  const assessment = await AssessmentModel.findById(assessmentId)
+    .select("jobOpportunity toConductRounds aptitudeId codingRoundId technicalInterviewId hrInterviewId overallPassingCriteria publishResults")
+    .lean();
+  if (!assessment?.jobOpportunity) return null;
+
+  const candidateObjectId = new mongoose.Types.ObjectId(String(candidateId));
+  const rounds = getEnabledRounds(assessment);
+  const results = await Promise.all(rounds.map(round => loadRoundResult(assessment, candidateObjectId, round)));
+  if (!rounds.length || results.some(result => !result)) return null;
+
+  const invalidations = await ApplicationModel.findOne({ candidateId: candidateObjectId, jobId: assessment.jobOpportunity })
+    .select("invalidatedRounds")
+    .lean();
+  const overallResult = combineRoundResults(
+    applyInvalidations(results as RoundResult[], invalidations?.invalidatedRounds),
+    assessment.overallPassingCriteria
+  );
+
+  // Claim the application atomically so concurrent round completions only finalize once
+  const application = await ApplicationModel.findOneAndUpdate(
+    {
+      candidateId: candidateObjectId,
+      jobId: assessment.jobOpportunity,
+      "overallResult.evaluatedAt": { $exists: false }
+    },
+    { $set: { overallResult } },
+    { new: true }
+  );
+  if (!application) return null;
+
+  const [statusUpdate] = await Promise.all([
+    ApplicationModel.updateOne(
+      { _id: application._id, status: { $in: UNDECIDED_STATUSES } },
+      { $set: { status: overallResult.passed ? "shortlisted" : "rejected" } }
+    ),
+    AssessmentModel.updateOne(
+      { _id: assessment._id },
+      { $inc: { completedCandidates: 1, passingCandidates: overallResult.passed ? 1 : 0 } }
+    )
+  ]);
+
+  const applicationId = application._id as mongoose.Types.ObjectId;
+  if (assessment.publishResults) {
+    await notifyResult(applicationId, assessment._id as mongoose.Types.ObjectId, overallResult);
+  }
+  if (!overallResult.passed && statusUpdate.modifiedCount) {
+    await notifyRejected(applicationId);
+  }
+
+  return overallResult;
+}
+
+/**
+ * Recomputes a finalized overall result after the employer invalidated a round. A candidate who no longer
+ * passes is rejected (unless the employer already decided) and leaves the assessment's passing counter.
+ * Returns null while the result is not finalized; finalizeAssessmentResult applies the invalidation then.
+ */
+export async function reviseAssessmentResult(
+  assessmentId: string | mongoose.Types.ObjectId,
+  applicationId: string | mongoose.Types.ObjectId
+): Promise<OverallResult | null> {
+  const assessment = await AssessmentModel.findById(assessmentId)
+    .select("toConductRounds aptitudeId codingRoundId technicalInterviewId hrInterviewId overallPassingCriteria")
+    .lean();
+  if (!assessment) return null;
+
+  // Retried when another revision lands first, so concurrent invalidations are all applied and counted once
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const application = await ApplicationModel.findById(applicationId)
+      .select("candidateId overallResult invalidatedRounds")
+      .lean();
+    const previous = application?.overallResult;
+    if (!application || !previous?.evaluatedAt) return null;
+
+    const rounds = getEnabledRounds(assessment);
+    const results = await Promise.all(rounds.map(round => loadRoundResult(assessment, application.candidateId, round)));
+    if (results.some(result => !result)) return null;
+
+    const overallResult = combineRoundResults(
+      applyInvalidations(results as RoundResult[], application.invalidatedRounds),
+      assessment.overallPassingCriteria
+    );
+    const { modifiedCount } = await ApplicationModel.updateOne(
+      { _id: application._id, "overallResult.evaluatedAt": previous.evaluatedAt },
+      { $set: { overallResult } }
+    );
+    if (!modifiedCount) continue;
+
+    if (previous.passed && !overallResult.passed) {
+      const [statusUpdate] = await Promise.all([
+        ApplicationModel.updateOne(
+          { _id: application._id, status: { $in: UNDECIDED_STATUSES } },
+          { $set: { status: "rejected" } }
+        ),
+        AssessmentModel.updateOne({ _id: assessment._id }, { $inc: { passingCandidates: -1 } })
+      ]);
+      if (statusUpdate.modifiedCount) {
+        await notifyRejected(application._id as mongoose.Types.ObjectId);
+      }
+    }
+    return overallResult;
+  }
+  return null;
+}
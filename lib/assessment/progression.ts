@@ -0,0 +1,175 @@
+// Round progression rules engine - moves candidates through an assessment without manual selection
+//
+// - When a candidate finishes a round it is marked completed on their Application. A round only moves to a
+//   final status once, so finishing it again never overrides progression or an employer's review
+// - Rounds with autoAdvance shortlist candidates who pass the round into the next enabled round
+// - Rounds with rejectBelow reject candidates whose round score falls below the floor
+// - Jobs with autoScreen shortlist new applications into the first enabled round when the
+//   resume covers every skill in the job's tech stack (its must-have skills)
+//
+import mongoose from "mongoose";
+import AssessmentModel, { Assessment } from "@/models/assesment.model";
+import ApplicationModel from "@/models/application.model";
+import JobOpportunityModel from "@/models/jobOpportunity.model";
+import ResumeModel from "@/models/resume.model";
+import AptitudeModel from "@/models/aptitude.model";
+import CodingModel from "@/models/coding.model";
+import TechnicalInterviewModel from "@/models/technicalInterview.model";
+import HRInterviewModel from "@/models/hrInterview.model";
+import { hasSkill, parseResumeSkills } from "@/utils/skills";
+import {
+  notifyApplicationShortlisted,
+  notifyRejected,
+  notifyRoundCompleted,
+  notifyShortlisted
+} from "@/lib/notifications/notify";
+import {
+  ROUND_ID_FIELDS,
+  UNDECIDED_STATUSES,
+  finalizeAssessmentResult,
+  getEnabledRounds,
+  loadRoundResult,
+  type AssessmentRound,
+  type AssessmentRounds
+} from "./overallResult";
+
+export const ROUND_MODELS: Record<AssessmentRound, mongoose.Model<any>> = {
+  aptitude: AptitudeModel,
+  coding: CodingModel,
+  technicalInterview: TechnicalInterviewModel,
+  hrInterview: HRInterviewModel
+};
+
+// Round statuses that are never changed by progression once set
+const FINAL_ROUND_STATUSES = ["completed", "rejected"];
+
+type ProgressionAssessment = AssessmentRounds & Pick<Assessment, "_id" | "jobOpportunity" | "progressionRules">;
+
+export type ProgressionOutcome = "advanced" | "rejected" | "completed";
+
+/**
+ * Adds candidates to a round and marks it shortlisted on their applications.
+ */
+export async function shortlistForRound(
+  assessment: ProgressionAssessment,
+  round: AssessmentRound,
+  candidateIds: mongoose.Types.ObjectId[]
+): Promise<void> {
+  const roundId = assessment[ROUND_ID_FIELDS[round]];
+  if (!roundId || candidateIds.length === 0) return;
+
+  await ROUND_MODELS[round].updateOne(
+    { _id: roundId },
+    { $addToSet: { candidateIds: { $each: candidateIds } } }
+  );
+  await ApplicationModel.updateMany(
+    {
+      candidateId: { $in: candidateIds },
+      jobId: assessment.jobOpportunity,
+      status: { $in: UNDECIDED_STATUSES },
+      [`rounds.${round}`]: { $nin: FINAL_ROUND_STATUSES }
+    },
+    { $set: { status: "shortlisted", [`rounds.${round}`]: "shortlisted" } }
+  );
+  await notifyShortlisted(assessment, round, candidateIds);
+}
+
+/**
+ * Applies the round's progression rule to a candidate who just finished it. Returns null when there is no
+ * result yet or the round already has a final status, in which case nothing is changed.
+ */
+async function applyProgressionRule(
+  assessment: ProgressionAssessment,
+  candidateId: mongoose.Types.ObjectId,
+  round: AssessmentRound
+): Promise<ProgressionOutcome | null> {
+  const result = await loadRoundResult(assessment, candidateId, round);
+  if (!result) return null;
+
+  const rule = assessment.progressionRules?.[round];
+  const application = { candidateId, jobId: assessment.jobOpportunity };
+  const rejectedBelowFloor = rule?.rejectBelow != null && result.score < rule.rejectBelow;
+
+  // Claim the round's transition to a final status so only the first completion applies the rule
+  const claimed = await ApplicationModel.updateOne(
+    { ...application, [`rounds.${round}`]: { $nin: FINAL_ROUND_STATUSES } },
+    { $set: { [`rounds.${round}`]: rejectedBelowFloor ? "rejected" : "completed" } }
+  );
+  if (claimed.modifiedCount === 0) return null;
+
+  if (rejectedBelowFloor) {
+    const rejected = await ApplicationModel.findOneAndUpdate(
+      { ...application, status: { $in: UNDECIDED_STATUSES } },
+      { $set: { status: "rejected" } }
+    ).select("_id").lean();
+    if (rejected) {
+      await notifyRejected(rejected._id as mongoose.Types.ObjectId);
+    }
+    return "rejected";
+  }
+
+  const rounds = getEnabledRounds(assessment);
+  const nextRound = rounds[rounds.indexOf(round) + 1];
+  if (rule?.autoAdvance && result.passed && nextRound) {
+    await shortlistForRound(assessment, nextRound, [candidateId]);
+    return "advanced";
+  }
+
+  return "completed";
+}
+
+/**
+ * Runs everything that follows a candidate finishing a round: the round's progression
+ * rule and, after the last enabled round, the overall result.
+ */
+export async function handleRoundCompleted(
+  assessmentId: string | mongoose.Types.ObjectId,
+  candidateId: string | mongoose.Types.ObjectId,
+  round: AssessmentRound
+): Promise<ProgressionOutcome | null> {
+  const assessment = await AssessmentModel.findById(assessmentId)
+    .select("jobOpportunity toConductRounds aptitudeId codingRoundId technicalInterviewId hrInterviewId progressionRules")
+    .lean();
+  if (!assessment?.jobOpportunity) return null;
+
+  const candidateObjectId = new mongoose.Types.ObjectId(String(candidateId));
+  const outcome = await applyProgressionRule(assessment, candidateObjectId, round);
+  if (outcome) {
+    await notifyRoundCompleted(assessment, round, candidateObjectId);
+  }
+  await finalizeAssessmentResult(assessment._id as mongoose.Types.ObjectId, candidateObjectId);
+
+  return outcome;
+}
+
+/**
+ * Shortlists a new application into the job's first round when the job has autoScreen on
+ * and the application's resume lists all of the job's must-have skills.
+ * Returns whether the application was shortlisted.
+ */
+export async function autoScreenApplication(applicationId: string | mongoose.Types.ObjectId): Promise<boolean> {
+  const application = await ApplicationModel.findById(applicationId).select("candidateId jobId resumeId status").lean();
+  if (!application?.resumeId || application.status !== "applied") return false;
+
+  const job = await JobOpportunityModel.findById(application.jobId).select("autoScreen techStack").lean();
+  const mustHaveSkills = job?.techStack?.filter(Boolean) || [];
+  if (!job?.autoScreen || mustHaveSkills.length === 0) return false;
+
+  const resume = await ResumeModel.findById(application.resumeId).select("parsedData.skills").lean();
+  const resumeSkills = parseResumeSkills(resume?.parsedData?.skills);
+  if (!mustHaveSkills.every(skill => hasSkill(resumeSkills, skill))) return false;
+
+  const assessment = await AssessmentModel.findOne({ jobOpportunity: application.jobId, status: { $ne: "archived" } })
+    .sort({ createdAt: -1 })
+    .select("jobOpportunity toConductRounds aptitudeId codingRoundId technicalInterviewId hrInterviewId")
+    .lean();
+  const firstRound = assessment ? getEnabledRounds(assessment)[0] : undefined;
+
+  if (assessment && firstRound) {
+    await shortlistForRound(assessment, firstRound, [application.candidateId]);
+  } else {
+    await ApplicationModel.updateOne({ _id: application._id }, { $set: { status: "shortlisted" } });
+    await notifyApplicationShortlisted(application._id as mongoose.Types.ObjectId);
+  }
+  return true;
+}
@@ -0,0 +1,200 @@
+// Round scheduling windows - when a candidate may start each round of an assessment
+//
+// - A round with a scheduledDate opens at its startTime (midnight when unset) and closes at its endTime
+//   (the following midnight when unset). An endTime before the startTime closes on the next day
+// - Assessment.assessmentStartDate/assessmentEndDate bound every round to whole days
+// - Dates are calendar days and times are wall-clock HH:MM in the assessment's time zone, so a round
+//   opens at the same instant for candidates everywhere
+// - Employers can extend the closing time per candidate and round (Application.scheduleExtensions)
+// - Windows only gate starting a round; an attempt started inside the window runs until its own timer ends
+//
+import mongoose from "mongoose";
+import AssessmentModel, { Assessment } from "@/models/assesment.model";
+import ApplicationModel, { ScheduleExtension } from "@/models/application.model";
+import { ROUND_ID_FIELDS, type AssessmentRound } from "./overallResult";
+import { ROUND_MODELS } from "./progression";
+
+export type RoundWindowState = "open" | "upcoming" | "closed";
+
+export interface RoundSchedule {
+  scheduledDate?: Date | null;
+  startTime?: string;
+  endTime?: string;
+}
+
+export type AssessmentSchedule = Pick<Assessment, "assessmentStartDate" | "assessmentEndDate" | "timezone">;
+
+export interface RoundWindow {
+  opensAt: Date | null;
+  closesAt: Date | null;
+  timezone: string;
+  extended: boolean; // closesAt comes from an extension granted to the candidate
+}
+
+// Serializable form sent to the client
+export interface RoundWindowInfo {
+  state: RoundWindowState;
+  opensAt: string | null;
+  closesAt: string | null;
+  timezone: string;
+  extended: boolean;
+}
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+export function isValidTimezone(timeZone: string | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Milliseconds the time zone is ahead of UTC at the given instant.
+ */
+function timezoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a calendar day and HH:MM time occur in the time zone. The day is read from the UTC date,
+ * which is how date inputs are stored.
+ */
+export function zonedTimeToUtc(date: Date, time: string, timeZone: string, addDays: number = 0): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const day = new Date(date);
+  const wallClock = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + addDays, hours || 0, minutes || 0);
+
+  // The offset is checked again at the result because it changes across daylight saving transitions
+  const guess = wallClock - timezoneOffset(wallClock, timeZone);
+  return new Date(wallClock - timezoneOffset(guess, timeZone));
+}
+
+export function getRoundWindow(
+  round: RoundSchedule | null | undefined,
+  assessment: AssessmentSchedule | null | undefined,
+  extension?: Pick<ScheduleExtension, "closesAt"> | null
+): RoundWindow {
+  const timezone = isValidTimezone(assessment?.timezone) ? assessment.timezone : DEFAULT_TIMEZONE;
+  const opens: Date[] = [];
+  const closes: Date[] = [];
+
+  if (round?.scheduledDate) {
+    const startTime = round.startTime || "00:00";
+    opens.push(zonedTimeToUtc(round.scheduledDate, startTime, timezone));
+    closes.push(round.endTime
+      ? zonedTimeToUtc(round.scheduledDate, round.endTime, timezone, round.endTime <= startTime ? 1 : 0)
+      : zonedTimeToUtc(round.scheduledDate, "00:00", timezone, 1));
+  }
+  if (assessment?.assessmentStartDate) {
+    opens.push(zonedTimeToUtc(assessment.assessmentStartDate, "00:00", timezone));
+  }
+  if (assessment?.assessmentEndDate) {
+    closes.push(zonedTimeToUtc(assessment.assessmentEndDate, "00:00", timezone, 1));
+  }
+
+  const opensAt = opens.length ? new Date(Math.max(...opens.map(d => d.getTime()))) : null;
+  let closesAt = closes.length ? new Date(Math.min(...closes.map(d => d.getTime()))) : null;
+
+  // An extension only ever keeps a window open longer
+  let extended = false;
+  if (closesAt && extension?.closesAt && new Date(extension.closesAt) > closesAt) {
+    closesAt = new Date(extension.closesAt);
+    extended = true;
+  }
+
+  return { opensAt, closesAt, timezone, extended };
+}
+
+export function getWindowState(window: RoundWindow, now: Date = new Date()): RoundWindowState {
+  if (window.opensAt && now < window.opensAt) return "upcoming";
+  if (window.closesAt && now >= window.closesAt) return "closed";
+  return "open";
+}
+
+export function toRoundWindowInfo(window: RoundWindow, now: Date = new Date()): RoundWindowInfo {
+  return {
+    state: getWindowState(window, now),
+    opensAt: window.opensAt?.toISOString() ?? null,
+    closesAt: window.closesAt?.toISOString() ?? null,
+    timezone: window.timezone,
+    extended: window.extended
+  };
+}
+
+export function formatInTimezone(date: Date | string, timeZone: string): string {
+  return new Date(date).toLocaleString("en-US", {
+    timeZone,
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short"
+  });
+}
+
+/**
+ * Why the round cannot be started, or null while its window is open.
+ */
+export function describeWindow(info: RoundWindowInfo): string | null {
+  if (info.state === "upcoming" && info.opensAt) {
+    return `This round opens on ${formatInTimezone(info.opensAt, info.timezone)}.`;
+  }
+  if (info.state === "closed" && info.closesAt) {
+    return `The window for this round closed on ${formatInTimezone(info.closesAt, info.timezone)}.`;
+  }
+  return null;
+}
+
+/**
+ * Loads the round's window for a candidate, including any extension they were granted, as it stood at `at`.
+ */
+export async function loadRoundWindow(
+  round: AssessmentRound,
+  roundId: string | mongoose.Types.ObjectId,
+  candidateId: string | mongoose.Types.ObjectId,
+  at: Date = new Date()
+): Promise<RoundWindowInfo> {
+  const [roundDoc, assessment] = await Promise.all([
+    ROUND_MODELS[round].findById(roundId).select("scheduledDate startTime endTime").lean<RoundSchedule>(),
+    AssessmentModel.findOne({ [ROUND_ID_FIELDS[round]]: roundId })
+      .select("jobOpportunity assessmentStartDate assessmentEndDate timezone")
+      .lean()
+  ]);
+
+  const application = assessment?.jobOpportunity
+    ? await ApplicationModel.findOne({ candidateId, jobId: assessment.jobOpportunity }).select("scheduleExtensions").lean()
+    : null;
+
+  return toRoundWindowInfo(getRoundWindow(roundDoc, assessment, application?.scheduleExtensions?.[round]), at);
+}
+
+/**
+ * Returns the reason a candidate cannot start the round at `at` (now by default), or null when they can.
+ * Pass an attempt's start time to check that it was started inside the window.
+ */
+export async function checkRoundWindow(
+  round: AssessmentRound,
+  roundId: string | mongoose.Types.ObjectId,
+  candidateId: string | mongoose.Types.ObjectId,
+  at: Date = new Date()
+): Promise<string | null> {
+  return describeWindow(await loadRoundWindow(round, roundId, candidateId, at));
+}
@@ -3,6 +3,10 @@ import  { NextAuthOptions } from "next-auth";
 import { connectToDatabase } from "@/utils/connectDb";
 import bcrypt from "bcryptjs"
 
+// signIn error for a correct password on an account whose email is not verified yet. Only accounts that
+// signed up with email verification in place are held back
+export const EMAIL_NOT_VERIFIED = "EmailNotVerified";
+
 export const authOptions : NextAuthOptions = {
   providers: [
     CredentialsProvider({
@@ -33,12 +37,19 @@ export const authOptions : NextAuthOptions = {
             if (!isPasswordValid) {
                 throw new Error("Invalid email or password");
             }
+            if (user.emailVerificationRequired && !user.isVerified) {
+                throw new Error(EMAIL_NOT_VERIFIED);
+            }
             user = await candidate.findOne({ email }).lean();
 
             return user;
 
         } catch (error) {
             console.error("Candidate auth error:", error);
+            // Passed on to signIn so the login screen can send the user to email verification
+            if (error instanceof Error && error.message === EMAIL_NOT_VERIFIED) {
+                throw error;
+            }
             return null;
         }
         }
@@ -62,12 +73,19 @@ export const authOptions : NextAuthOptions = {
             if (!isPasswordValid) {
                 throw new Error("Invalid email or password");
             }
+            if (user.emailVerificationRequired && !user.isVerified) {
+                throw new Error(EMAIL_NOT_VERIFIED);
+            }
             user = await employer.findOne({ email }).lean();
 
             return user;
 
         } catch (error) {
             console.error("Employer auth error:", error);
+            // Passed on to signIn so the login screen can send the user to email verification
+            if (error instanceof Error && error.message === EMAIL_NOT_VERIFIED) {
+                throw error;
+            }
             return null;
         }
         }
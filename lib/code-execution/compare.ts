@@ -0,0 +1,60 @@
+import { parseValueType } from "./signature";
+import type { OutputComparison, ParsedValueType, ValueType } from "./types";
+
+const DEFAULT_FLOAT_TOLERANCE = 1e-6;
+
+// Stable key used to sort array elements when order does not matter
+function canonicalKey(value: any, unordered: boolean): string {
+  if (Array.isArray(value)) {
+    const keys = value.map((item) => canonicalKey(item, unordered));
+    return `[${(unordered ? keys.sort() : keys).join(",")}]`;
+  }
+  return JSON.stringify(value);
+}
+
+function valuesMatch(actual: any, expected: any, type: ParsedValueType, comparison: Required<OutputComparison>): boolean {
+  if (type.depth === 0) {
+    if (type.base === "double") {
+      if (typeof actual !== "number" || typeof expected !== "number") return false;
+      const tolerance = comparison.floatTolerance;
+      return Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected));
+    }
+    return actual === expected;
+  }
+
+  if (!Array.isArray(actual) || !Array.isArray(expected) || actual.length !== expected.length) {
+    return false;
+  }
+
+  const elementType = { base: type.base, depth: type.depth - 1 };
+  let actualItems = actual;
+  let expectedItems = expected;
+
+  if (comparison.unordered) {
+    const byKey = (a: any, b: any) => {
+      const ka = canonicalKey(a, true);
+      const kb = canonicalKey(b, true);
+      return ka < kb ? -1 : ka > kb ? 1 : 0;
+    };
+    actualItems = [...actual].sort(byKey);
+    expectedItems = [...expected].sort(byKey);
+  }
+
+  return actualItems.every((item, index) => valuesMatch(item, expectedItems[index], elementType, comparison));
+}
+
+/**
+ * Compares a solution's return value with the expected output using the
+ * signature's return type (float tolerance for doubles, optional order-insensitive arrays).
+ */
+export function outputsMatch(
+  actual: any,
+  expected: any,
+  returnType: ValueType,
+  comparison: OutputComparison = {}
+): boolean {
+  return valuesMatch(actual, expected, parseValueType(returnType), {
+    unordered: comparison.unordered ?? false,
+    floatTolerance: comparison.floatTolerance ?? DEFAULT_FLOAT_TOLERANCE,
+  });
+}
@@ -0,0 +1,165 @@
+import { outputsMatch } from "./compare";
+import { buildTestProgram, HarnessUnavailableError, parseProgramOutput } from "./harness";
+import { getCodeRunner } from "./runner";
+import type {
+  CodeExecutionSummary,
+  CodeRunner,
+  CodingProblem,
+  CodingTestCase,
+  ExecutionLimits,
+  ExecutionResult,
+  SupportedLanguage,
+  TestCaseResult,
+} from "./types";
+
+function describeFailure(execution: ExecutionResult): string | null {
+  switch (execution.status) {
+    case "success":
+      return null;
+    case "compile_error":
+      return `Compilation Error:\n${execution.compileOutput || ""}`.trim();
+    case "time_limit_exceeded":
+      return "Time Limit Exceeded";
+    case "memory_limit_exceeded":
+      return "Memory Limit Exceeded";
+    case "runtime_error":
+      return execution.stderr.trim() || `Runtime Error (exit code ${execution.exitCode})`;
+    default:
+      return execution.stderr.trim() || "Internal Error";
+  }
+}
+
+async function runTestCase(
+  problem: CodingProblem,
+  language: SupportedLanguage,
+  code: string,
+  testCase: CodingTestCase,
+  limits: ExecutionLimits,
+  runner: CodeRunner
+): Promise<TestCaseResult> {
+  const source = buildTestProgram(problem, language, code, testCase);
+  const execution = await runner.execute({ language, source, limits });
+  const { output, result, hasResult } = parseProgramOutput(execution.stdout);
+
+  let error = describeFailure(execution);
+  if (!error && !hasResult) {
+    error = "No result was produced by the solution";
+  }
+
+  return {
+    input: testCase.input,
+    expected: testCase.expected,
+    actual: hasResult ? result : null,
+    passed: !error && outputsMatch(result, testCase.expected, problem.signature.returnType, problem.comparison),
+    status: execution.status,
+    error,
+    stdout: output,
+    stderr: execution.stderr,
+    time: execution.time,
+    memory: execution.memory,
+    hidden: testCase.hidden ?? false,
+    weight: testCaseWeight(testCase),
+  };
+}
+
+function testCaseWeight(testCase: CodingTestCase): number {
+  return typeof testCase.weight === "number" && testCase.weight >= 0 ? testCase.weight : 1;
+}
+
+/**
+ * Executes a candidate's solution against the given test cases on the configured code runner.
+ * Stops early on compilation errors since every remaining test would fail the same way.
+ */
+export async function runTestCases(
+  problem: CodingProblem,
+  language: SupportedLanguage,
+  code: string,
+  testCases: CodingTestCase[],
+  limits: ExecutionLimits,
+  runner: CodeRunner = getCodeRunner()
+): Promise<CodeExecutionSummary> {
+  const results: TestCaseResult[] = [];
+
+  for (const testCase of testCases) {
+    try {
+      const result = await runTestCase(problem, language, code, testCase, limits, runner);
+      results.push(result);
+      if (result.status === "compile_error") break;
+    } catch (error) {
+      if (!(error instanceof HarnessUnavailableError)) {
+        console.error("Test case execution failed:", error);
+      }
+      results.push({
+        input: testCase.input,
+        expected: testCase.expected,
+        actual: null,
+        passed: false,
+        status: "internal_error",
+        error: error instanceof Error ? error.message : "Unknown error",
+        stdout: "",
+        stderr: "",
+        time: null,
+        memory: null,
+        hidden: testCase.hidden ?? false,
+        weight: testCaseWeight(testCase),
+      });
+      if (error instanceof HarnessUnavailableError) break;
+    }
+  }
+
+  // Tests skipped after a compilation error still count towards the totals and the score
+  const passedTests = results.filter((r) => r.passed).length;
+  const totalWeight = testCases.reduce((sum, testCase) => sum + testCaseWeight(testCase), 0);
+  const passedWeight = results.filter((r) => r.passed).reduce((sum, r) => sum + r.weight, 0);
+  const lastWithMetrics = [...results].reverse().find((r) => r.time !== null || r.memory !== null);
+
+  return {
+    results,
+    allPassed: testCases.length > 0 && passedTests === testCases.length,
+    totalTests: testCases.length,
+    passedTests,
+    hiddenTests: testCases.filter((testCase) => testCase.hidden).length,
+    hiddenPassed: results.filter((r) => r.hidden && r.passed).length,
+    score: totalWeight > 0 ? Math.round((passedWeight / totalWeight) * 10000) / 100 : 0,
+    lastTime: lastWithMetrics?.time ?? null,
+    lastMemory: lastWithMetrics?.memory ?? null,
+  };
+}
+
+/**
+ * Strips inputs, expected values and program output from hidden test results
+ * so a submission response reveals only whether each hidden test passed.
+ */
+export function redactHiddenResults(summary: CodeExecutionSummary): CodeExecutionSummary {
+  return {
+    ...summary,
+    results: summary.results.map((result) =>
+      result.hidden
+        ? {
+            ...result,
+            input: {},
+            expected: null,
+            actual: null,
+            stdout: "",
+            stderr: "",
+            error: result.status === "compile_error" ? result.error : result.passed ? null : describeHiddenFailure(result),
+          }
+        : result
+    ),
+  };
+}
+
+function describeHiddenFailure(result: TestCaseResult): string {
+  switch (result.status) {
+    case "time_limit_exceeded":
+      return "Time Limit Exceeded";
+    case "memory_limit_exceeded":
+      return "Memory Limit Exceeded";
+    case "runtime_error":
+      return "Runtime Error";
+    case "success":
+      return "Wrong Answer";
+    default:
+      return "Internal Error";
+  }
+}
@@ -0,0 +1,418 @@
+import { cppType, cType, goType, javaType, parseValueType } from "./signature";
+import type { CodingProblem, CodingTestCase, FunctionSignature, SupportedLanguage, ValueType } from "./types";
+
+// Printed by every driver right before the serialized return value so that
+// anything the candidate writes to stdout can be told apart from the result
+export const RESULT_MARKER = "__CALIBR_RESULT__";
+
+export class HarnessUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HarnessUnavailableError";
+  }
+}
+
+/**
+ * Orders a test case's named inputs by the signature's parameter list.
+ */
+function orderedArguments(signature: FunctionSignature, testCase: CodingTestCase): any[] {
+  return signature.params.map((param) => {
+    if (!(param.name in testCase.input)) {
+      throw new HarnessUnavailableError(`Test case is missing input "${param.name}"`);
+    }
+    return testCase.input[param.name];
+  });
+}
+
+// ============== LITERALS FOR STATICALLY TYPED LANGUAGES ==============
+
+// JSON string literals are valid C, C++, Java and Go string literals
+const stringLiteral = (value: string) => JSON.stringify(value);
+
+function scalarLiteral(value: any, type: ValueType, longSuffix: string): string {
+  const { base } = parseValueType(type);
+  switch (base) {
+    case "string":
+      return stringLiteral(String(value));
+    case "boolean":
+      return value ? "true" : "false";
+    case "long":
+      return `${value}${longSuffix}`;
+    case "double":
+      return Number.isInteger(value) ? `${value}.0` : String(value);
+    default:
+      return String(value);
+  }
+}
+
+const elementType = (type: ValueType) => type.slice(0, -2);
+
+function cppLiteral(value: any, type: ValueType): string {
+  if (parseValueType(type).depth === 0) return scalarLiteral(value, type, "LL");
+  return `${cppType(type)}{${(value as any[]).map((item) => cppLiteral(item, elementType(type))).join(", ")}}`;
+}
+
+function javaLiteral(value: any, type: ValueType): string {
+  if (parseValueType(type).depth === 0) return scalarLiteral(value, type, "L");
+  return `new ${javaType(type)}{${(value as any[]).map((item) => javaLiteral(item, elementType(type))).join(", ")}}`;
+}
+
+function goLiteral(value: any, type: ValueType): string {
+  if (parseValueType(type).depth === 0) return scalarLiteral(value, type, "");
+  return `${goType(type)}{${(value as any[]).map((item) => goLiteral(item, elementType(type))).join(", ")}}`;
+}
+
+// ============== DRIVERS ==============
+
+function buildJavaScriptProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  const { functionName } = signature;
+
+  return `${code}
+
+;(() => {
+  const __args = ${JSON.stringify(args)};
+  const __fn = typeof ${functionName} === "function"
+    ? ${functionName}
+    : (typeof Solution === "function" ? (...a) => new Solution().${functionName}(...a) : null);
+  if (!__fn) throw new Error("Function ${functionName} is not defined");
+  const __result = __fn(...__args);
+  process.stdout.write("\\n${RESULT_MARKER}" + JSON.stringify(__result === undefined ? null : __result) + "\\n");
+})();
+`;
+}
+
+function buildTypeScriptProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  // Called through `any` so the driver itself never introduces type errors
+  return `${code}
+
+;(() => {
+  const __args: any[] = ${JSON.stringify(args)};
+  const __result = (${signature.functionName} as any)(...__args);
+  console.log("\\n${RESULT_MARKER}" + JSON.stringify(__result === undefined ? null : __result));
+})();
+`;
+}
+
+function buildPythonProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  const { functionName } = signature;
+
+  return `from typing import *
+import json
+import sys
+
+${code}
+
+if __name__ == "__main__":
+    __args = json.loads(${JSON.stringify(JSON.stringify(args))})
+    if "Solution" in globals():
+        __fn = getattr(Solution(), "${functionName}")
+    else:
+        __fn = globals()["${functionName}"]
+    __result = __fn(*__args)
+    sys.stdout.write("\\n${RESULT_MARKER}" + json.dumps(__result, separators=(",", ":")) + "\\n")
+`;
+}
+
+function buildRubyProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  const json = JSON.stringify(args).replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+
+  return `require 'json'
+
+${code}
+
+__args = JSON.parse('${json}')
+__result = if defined?(Solution)
+  Solution.new.${signature.functionName}(*__args)
+else
+  method(:${signature.functionName}).call(*__args)
+end
+print "\\n${RESULT_MARKER}" + JSON.generate(__result) + "\\n"
+`;
+}
+
+function buildPhpProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  const json = JSON.stringify(args).replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+  const userCode = code.replace(/^\s*<\?php/, "").replace(/\?>\s*$/, "");
+
+  return `<?php
+${userCode}
+
+$__args = json_decode('${json}', true);
+if (class_exists('Solution')) {
+    $__result = (new Solution())->${signature.functionName}(...$__args);
+} else {
+    $__result = ${signature.functionName}(...$__args);
+}
+echo "\\n${RESULT_MARKER}" . json_encode($__result) . "\\n";
+`;
+}
+
+function buildCppProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  const declarations = signature.params
+    .map((param, index) => `    ${cppType(param.type)} ${param.name} = ${cppLiteral(args[index], param.type)};`)
+    .join("\n");
+
+  return `#include <bits/stdc++.h>
+using namespace std;
+
+${code}
+
+static string __calibr_quote(const string& s) {
+    string out = "\\"";
+    for (unsigned char c : s) {
+        if (c == '"' || c == '\\\\') { out += '\\\\'; out += (char)c; }
+        else if (c == '\\n') out += "\\\\n";
+        else if (c == '\\r') out += "\\\\r";
+        else if (c == '\\t') out += "\\\\t";
+        else if (c < 0x20) { char buf[8]; snprintf(buf, sizeof(buf), "\\\\u%04x", c); out += buf; }
+        else out += (char)c;
+    }
+    return out + "\\"";
+}
+static string __calibr_json(int v) { return to_string(v); }
+static string __calibr_json(long v) { return to_string(v); }
+static string __calibr_json(long long v) { return to_string(v); }
+static string __calibr_json(bool v) { return v ? "true" : "false"; }
+static string __calibr_json(double v) { ostringstream out; out << setprecision(15) << v; return out.str(); }
+static string __calibr_json(const string& v) { return __calibr_quote(v); }
+template <typename T> static string __calibr_json(const vector<T>& v) {
+    string out = "[";
+    for (size_t i = 0; i < v.size(); i++) { if (i) out += ","; out += __calibr_json((T)v[i]); }
+    return out + "]";
+}
+
+int main() {
+${declarations}
+    Solution __solution;
+    ${cppType(signature.returnType)} __result = __solution.${signature.functionName}(${signature.params.map((p) => p.name).join(", ")});
+    cout << "\\n${RESULT_MARKER}" << __calibr_json(__result) << endl;
+    return 0;
+}
+`;
+}
+
+function buildJavaProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  const declarations = signature.params
+    .map((param, index) => `        ${javaType(param.type)} ${param.name} = ${javaLiteral(args[index], param.type)};`)
+    .join("\n");
+  // Only Main may be public since the file is compiled as Main.java
+  const userCode = code.replace(/public\s+class\s+Solution\b/, "class Solution");
+
+  return `import java.util.*;
+
+${userCode}
+
+public class Main {
+    public static void main(String[] __argv) {
+${declarations}
+        Solution __solution = new Solution();
+        Object __result = __solution.${signature.functionName}(${signature.params.map((p) => p.name).join(", ")});
+        System.out.print("\\n${RESULT_MARKER}" + __toJson(__result) + "\\n");
+    }
+
+    static String __toJson(Object o) {
+        if (o == null) return "null";
+        if (o instanceof String || o instanceof Character) return __quote(String.valueOf(o));
+        if (o instanceof Double || o instanceof Float) {
+            double d = ((Number) o).doubleValue();
+            return Double.isFinite(d) ? String.valueOf(d) : "null";
+        }
+        if (o instanceof Number || o instanceof Boolean) return String.valueOf(o);
+        StringBuilder sb = new StringBuilder("[");
+        if (o.getClass().isArray()) {
+            for (int i = 0; i < java.lang.reflect.Array.getLength(o); i++) {
+                if (i > 0) sb.append(",");
+                sb.append(__toJson(java.lang.reflect.Array.get(o, i)));
+            }
+            return sb.append("]").toString();
+        }
+        if (o instanceof Iterable) {
+            boolean first = true;
+            for (Object item : (Iterable<?>) o) {
+                if (!first) sb.append(",");
+                sb.append(__toJson(item));
+                first = false;
+            }
+            return sb.append("]").toString();
+        }
+        return __quote(o.toString());
+    }
+
+    static String __quote(String s) {
+        StringBuilder sb = new StringBuilder("\\"");
+        for (char c : s.toCharArray()) {
+            if (c == '"' || c == '\\\\') sb.append('\\\\').append(c);
+            else if (c == '\\n') sb.append("\\\\n");
+            else if (c == '\\r') sb.append("\\\\r");
+            else if (c == '\\t') sb.append("\\\\t");
+            else if (c < 0x20) sb.append(String.format("\\\\u%04x", (int) c));
+            else sb.append(c);
+        }
+        return sb.append("\\"").toString();
+    }
+}
+`;
+}
+
+function buildGoProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  // Hoist the candidate's imports so they can be merged with the driver's own
+  const imports = new Set(['"encoding/json"', '"fmt"']);
+  const body = code
+    .replace(/^\s*package\s+\w+\s*$/m, "")
+    .replace(/^\s*import\s*\(([\s\S]*?)\)/gm, (_match, block: string) => {
+      block.split("\n").map((line) => line.trim()).filter(Boolean).forEach((line) => imports.add(line));
+      return "";
+    })
+    .replace(/^\s*import\s+(.+)$/gm, (_match, spec: string) => {
+      imports.add(spec.trim());
+      return "";
+    });
+
+  const declarations = signature.params
+    .map((param, index) => `\tvar ${param.name} ${goType(param.type)} = ${goLiteral(args[index], param.type)}`)
+    .join("\n");
+
+  return `package main
+
+import (
+${[...imports].map((spec) => `\t${spec}`).join("\n")}
+)
+
+${body.trim()}
+
+func main() {
+${declarations}
+\t__result := ${signature.functionName}(${signature.params.map((p) => p.name).join(", ")})
+\t__encoded, _ := json.Marshal(__result)
+\tfmt.Print("\\n${RESULT_MARKER}" + string(__encoded) + "\\n")
+}
+`;
+}
+
+function buildCProgram(signature: FunctionSignature, code: string, args: any[]): string {
+  const declarations: string[] = [];
+  const callArgs: string[] = [];
+
+  signature.params.forEach((param, index) => {
+    const { base, depth } = parseValueType(param.type);
+    if (depth === 1) {
+      const items = args[index] as any[];
+      const literals = items.map((item) => scalarLiteral(item, base, "LL"));
+      // Zero-length arrays are not valid C, keep a placeholder element
+      declarations.push(`    ${cType(base)} ${param.name}[] = {${literals.length ? literals.join(", ") : "0"}};`);
+      declarations.push(`    int ${param.name}Size = ${items.length};`);
+      callArgs.push(param.name, `${param.name}Size`);
+    } else {
+      declarations.push(`    ${cType(param.type)} ${param.name} = ${scalarLiteral(args[index], param.type, "LL")};`);
+      callArgs.push(param.name);
+    }
+  });
+
+  const { base, depth } = parseValueType(signature.returnType);
+  if (depth === 1) {
+    declarations.push("    int __returnSize = 0;");
+    callArgs.push("&__returnSize");
+  }
+
+  const printScalar = (expression: string) => `__calibr_print_${base}(${expression});`;
+  const printResult = depth === 1
+    ? `printf("[");\n    for (int i = 0; i < __returnSize; i++) { if (i) printf(","); ${printScalar("__result[i]")} }\n    printf("]");`
+    : printScalar("__result");
+
+  return `#include <stdio.h>
+#include <stdlib.h>
+#include <string.h>
+#include <stdbool.h>
+#include <math.h>
+
+${code}
+
+static void __calibr_print_int(int v) { printf("%d", v); }
+static void __calibr_print_long(long long v) { printf("%lld", v); }
+static void __calibr_print_double(double v) { printf("%.15g", v); }
+static void __calibr_print_boolean(bool v) { printf(v ? "true" : "false"); }
+static void __calibr_print_string(const char* s) {
+    putchar('"');
+    for (; s && *s; s++) {
+        unsigned char c = (unsigned char)*s;
+        if (c == '"' || c == '\\\\') printf("\\\\%c", c);
+        else if (c == '\\n') printf("\\\\n");
+        else if (c == '\\r') printf("\\\\r");
+        else if (c == '\\t') printf("\\\\t");
+        else if (c < 0x20) printf("\\\\u%04x", c);
+        else putchar(c);
+    }
+    putchar('"');
+}
+
+int main(void) {
+${declarations.join("\n")}
+    ${cType(signature.returnType)} __result = ${signature.functionName}(${callArgs.join(", ")});
+    printf("\\n${RESULT_MARKER}");
+    ${printResult}
+    printf("\\n");
+    return 0;
+}
+`;
+}
+
+/**
+ * Wraps the candidate's solution in a driver program that calls it with a
+ * single test case (arguments ordered by the problem signature) and prints
+ * the JSON-serialized return value after RESULT_MARKER.
+ */
+export function buildTestProgram(
+  problem: CodingProblem,
+  language: SupportedLanguage,
+  code: string,
+  testCase: CodingTestCase
+): string {
+  const { signature } = problem;
+  if (!signature) {
+    throw new HarnessUnavailableError(`Problem ${problem.id} does not declare a function signature`);
+  }
+
+  const args = orderedArguments(signature, testCase);
+
+  switch (language) {
+    case "javascript":
+      return buildJavaScriptProgram(signature, code, args);
+    case "typescript":
+      return buildTypeScriptProgram(signature, code, args);
+    case "python":
+      return buildPythonProgram(signature, code, args);
+    case "java":
+      return buildJavaProgram(signature, code, args);
+    case "cpp":
+      return buildCppProgram(signature, code, args);
+    case "c":
+      return buildCProgram(signature, code, args);
+    case "go":
+      return buildGoProgram(signature, code, args);
+    case "ruby":
+      return buildRubyProgram(signature, code, args);
+    case "php":
+      return buildPhpProgram(signature, code, args);
+    default:
+      throw new HarnessUnavailableError(`Test harness is not available for ${language}`);
+  }
+}
+
+/**
+ * Splits program output into the candidate's own prints and the driver result.
+ */
+export function parseProgramOutput(stdout: string): { output: string; result: any; hasResult: boolean } {
+  const markerIndex = stdout.lastIndexOf(RESULT_MARKER);
+  if (markerIndex === -1) {
+    return { output: stdout, result: null, hasResult: false };
+  }
+
+  const output = stdout.slice(0, markerIndex).replace(/\n$/, "");
+  const raw = stdout.slice(markerIndex + RESULT_MARKER.length).trim();
+
+  try {
+    return { output, result: JSON.parse(raw), hasResult: true };
+  } catch {
+    return { output, result: raw, hasResult: true };
+  }
+}
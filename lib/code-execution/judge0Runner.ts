@@ -0,0 +1,137 @@
+// Judge0-compatible HTTP code runner - server-side only
+//
+// Works against Judge0 CE or any service exposing the same /submissions API.
+// Submissions are sent base64 encoded and polled until Judge0 reports a final status.
+//
+import axios from "axios";
+import type { CodeRunner, ExecutionRequest, ExecutionResult, ExecutionStatus, SupportedLanguage } from "./types";
+
+// Judge0 CE language ids
+export const JUDGE0_LANGUAGE_IDS: Record<SupportedLanguage, number> = {
+  javascript: 63, // Node.js 12.14.0
+  typescript: 74, // TypeScript 3.7.4
+  python: 71, // Python 3.8.1
+  java: 62, // OpenJDK 13.0.1
+  cpp: 54, // GCC 9.2.0
+  c: 50, // GCC 9.2.0
+  go: 60, // Go 1.13.5
+  ruby: 72, // Ruby 2.7.0
+  php: 68, // PHP 7.4.1
+};
+
+// Judge0 status ids: 1 In Queue, 2 Processing, 3 Accepted, 4 Wrong Answer,
+// 5 Time Limit Exceeded, 6 Compilation Error, 7-12 Runtime Error, 13 Internal Error
+const JUDGE0_PENDING_STATUS_MAX = 2;
+const POLL_INTERVAL_MS = 1000;
+const RESULT_FIELDS = "stdout,stderr,compile_output,message,status,time,memory,exit_code";
+
+export interface Judge0Config {
+  baseUrl: string;
+  authToken?: string;
+  pollIntervalMs?: number;
+}
+
+interface Judge0Submission {
+  stdout: string | null;
+  stderr: string | null;
+  compile_output: string | null;
+  message: string | null;
+  status: { id: number; description: string } | null;
+  time: string | null;
+  memory: number | null;
+  exit_code: number | null;
+}
+
+const encodeBase64 = (value: string) => Buffer.from(value, "utf8").toString("base64");
+const decodeBase64 = (value: string | null) => (value ? Buffer.from(value, "base64").toString("utf8") : "");
+
+function mapJudge0Status(statusId: number): ExecutionStatus {
+  if (statusId === 3 || statusId === 4) return "success";
+  if (statusId === 5) return "time_limit_exceeded";
+  if (statusId === 6) return "compile_error";
+  if (statusId >= 7 && statusId <= 12) return "runtime_error";
+  return "internal_error";
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createJudge0Runner(config: Judge0Config): CodeRunner {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+  const pollIntervalMs = config.pollIntervalMs ?? POLL_INTERVAL_MS;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.authToken) {
+    headers["X-Auth-Token"] = config.authToken;
+  }
+
+  const toInternalError = (message: string): ExecutionResult => ({
+    status: "internal_error",
+    stdout: "",
+    stderr: message,
+    exitCode: null,
+    time: null,
+    memory: null,
+  });
+
+  const execute = async (request: ExecutionRequest): Promise<ExecutionResult> => {
+    const timeLimitSeconds = request.limits.timeoutMs / 1000;
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/submissions?base64_encoded=true&wait=false`,
+        {
+          language_id: JUDGE0_LANGUAGE_IDS[request.language],
+          source_code: encodeBase64(request.source),
+          stdin: encodeBase64(request.stdin || ""),
+          cpu_time_limit: timeLimitSeconds,
+          wall_time_limit: timeLimitSeconds * 2,
+          memory_limit: request.limits.memoryLimitMb * 1024,
+        },
+        { headers }
+      );
+
+      const token: string | undefined = response.data?.token;
+      if (!token) {
+        return toInternalError("Code runner did not return a submission token");
+      }
+
+      // Allow queueing time on top of the wall time limit before giving up
+      const maxAttempts = Math.ceil((timeLimitSeconds * 2 * 1000) / pollIntervalMs) + 15;
+
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        await sleep(pollIntervalMs);
+
+        const { data } = await axios.get<Judge0Submission>(
+          `${baseUrl}/submissions/${token}?base64_encoded=true&fields=${RESULT_FIELDS}`,
+          { headers }
+        );
+
+        if (!data.status || data.status.id <= JUDGE0_PENDING_STATUS_MAX) {
+          continue;
+        }
+
+        const status = mapJudge0Status(data.status.id);
+        const stderr = decodeBase64(data.stderr);
+
+        return {
+          status,
+          stdout: decodeBase64(data.stdout),
+          stderr: status === "internal_error" && !stderr ? decodeBase64(data.message) || data.status.description : stderr,
+          compileOutput: status === "compile_error" ? decodeBase64(data.compile_output) : undefined,
+          exitCode: data.exit_code,
+          time: data.time !== null ? parseFloat(data.time) : null,
+          memory: data.memory,
+        };
+      }
+
+      return toInternalError("Execution timed out while waiting for result");
+    } catch (error: any) {
+      console.error("Judge0 runner error:", error.response?.data || error.message);
+      return toInternalError("Code runner connection failed");
+    }
+  };
+
+  return {
+    name: "judge0",
+    execute,
+  };
+}
@@ -0,0 +1,105 @@
+import path from "path";
+import type { SupportedLanguage } from "./types";
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = [
+  "javascript",
+  "typescript",
+  "python",
+  "java",
+  "cpp",
+  "c",
+  "go",
+  "ruby",
+  "php",
+];
+
+export interface ToolchainCommand {
+  command: string;
+  args: string[];
+}
+
+export interface LanguageToolchain {
+  sourceFile: string;
+  compile?: (workDir: string) => ToolchainCommand;
+  run: (workDir: string, memoryLimitMb: number) => ToolchainCommand;
+  /**
+   * Whether the address-space rlimit (`ulimit -v`) can be applied safely.
+   * Runtimes that reserve large virtual regions up front (V8, the JVM, Go,
+   * Ruby) rely on their own heap flags and the RSS watchdog instead.
+   */
+  addressSpaceLimit: boolean;
+}
+
+const TYPESCRIPT_COMPILER = path.join(process.cwd(), "node_modules", "typescript", "bin", "tsc");
+
+export const LANGUAGE_TOOLCHAINS: Record<SupportedLanguage, LanguageToolchain> = {
+  javascript: {
+    sourceFile: "main.js",
+    run: (_workDir, memoryLimitMb) => ({
+      command: "node",
+      args: [`--max-old-space-size=${memoryLimitMb}`, "main.js"],
+    }),
+    addressSpaceLimit: false,
+  },
+  typescript: {
+    sourceFile: "main.ts",
+    compile: () => ({
+      command: "node",
+      args: [TYPESCRIPT_COMPILER, "--target", "es2020", "--module", "commonjs", "--skipLibCheck", "main.ts"],
+    }),
+    run: (_workDir, memoryLimitMb) => ({
+      command: "node",
+      args: [`--max-old-space-size=${memoryLimitMb}`, "main.js"],
+    }),
+    addressSpaceLimit: false,
+  },
+  python: {
+    sourceFile: "main.py",
+    run: () => ({ command: "python3", args: ["-u", "main.py"] }),
+    addressSpaceLimit: true,
+  },
+  java: {
+    sourceFile: "Main.java",
+    compile: () => ({ command: "javac", args: ["-encoding", "UTF-8", "Main.java"] }),
+    run: (_workDir, memoryLimitMb) => ({
+      command: "java",
+      args: [`-Xmx${memoryLimitMb}m`, "-Xss64m", "-cp", ".", "Main"],
+    }),
+    addressSpaceLimit: false,
+  },
+  cpp: {
+    sourceFile: "main.cpp",
+    compile: () => ({ command: "g++", args: ["-O2", "-std=c++17", "-o", "main", "main.cpp"] }),
+    run: (workDir) => ({ command: path.join(workDir, "main"), args: [] }),
+    addressSpaceLimit: true,
+  },
+  c: {
+    sourceFile: "main.c",
+    compile: () => ({ command: "gcc", args: ["-O2", "-std=c11", "-o", "main", "main.c", "-lm"] }),
+    run: (workDir) => ({ command: path.join(workDir, "main"), args: [] }),
+    addressSpaceLimit: true,
+  },
+  go: {
+    sourceFile: "main.go",
+    compile: () => ({ command: "go", args: ["build", "-o", "main", "main.go"] }),
+    run: (workDir) => ({ command: path.join(workDir, "main"), args: [] }),
+    addressSpaceLimit: false,
+  },
+  ruby: {
+    sourceFile: "main.rb",
+    run: () => ({ command: "ruby", args: ["main.rb"] }),
+    addressSpaceLimit: false,
+  },
+  php: {
+    sourceFile: "main.php",
+    run: (_workDir, memoryLimitMb) => ({
+      command: "php",
+      args: ["-d", `memory_limit=${memoryLimitMb}M`, "main.php"],
+    }),
+    addressSpaceLimit: true,
+  },
+};
+
+export function isSupportedLanguage(language: string): language is SupportedLanguage {
+  return (SUPPORTED_LANGUAGES as string[]).includes(language);
+}
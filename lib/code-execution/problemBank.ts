@@ -0,0 +1,205 @@
+// Coding problem bank - MongoDB-backed storage for coding round problems
+//
+// - Problems keep a numeric problemId so rounds can keep referencing them through Coding.problemIds
+// - Built-in problems (employer: null) are seeded from app/assessment/coding/questions.json
+//   the first time the bank is used and are visible to every employer
+// - Employer problems are only visible to, and editable by, the organization of the employer that created them
+//
+import mongoose from "mongoose";
+import CodingProblemModel, { CodingProblemDoc } from "@/models/codingProblem.model";
+import CounterModel from "@/models/counter.model";
+import builtInProblems from "@/app/assessment/coding/questions.json";
+import { parseValueType } from "./signature";
+import type { CodingProblem, CodingProblemInput } from "./types";
+
+const DIFFICULTIES = ["Easy", "Medium", "Hard"] as const;
+
+const PROBLEM_ID_COUNTER = "codingProblemId";
+
+let seeded = false;
+
+/**
+ * Inserts the built-in problems into an empty bank.
+ */
+export async function ensureProblemBankSeeded(): Promise<void> {
+  if (seeded) return;
+
+  const count = await CodingProblemModel.estimatedDocumentCount();
+  if (count === 0) {
+    await CodingProblemModel.insertMany(
+      (builtInProblems as CodingProblem[]).map(({ id, ...problem }) => ({
+        ...problem,
+        problemId: id,
+        employer: null,
+        tags: problem.tags || [],
+      }))
+    );
+  }
+  seeded = true;
+}
+
+/**
+ * Converts a stored problem into the shape used by the code execution pipeline.
+ */
+export function toCodingProblem(doc: any): CodingProblem {
+  const starterCode = doc.starterCode instanceof Map ? Object.fromEntries(doc.starterCode) : doc.starterCode || {};
+
+  return {
+    id: doc.problemId,
+    title: doc.title,
+    difficulty: doc.difficulty,
+    description: doc.description,
+    constraints: doc.constraints || [],
+    examples: (doc.examples || []).map((e: any) => ({ input: e.input, output: e.output, explanation: e.explanation })),
+    starterCode,
+    testCases: (doc.testCases || []).map((t: any) => ({
+      input: t.input,
+      expected: t.expected,
+      hidden: !!t.hidden,
+      weight: t.weight ?? 1,
+    })),
+    signature: {
+      functionName: doc.signature.functionName,
+      params: (doc.signature.params || []).map((p: any) => ({ name: p.name, type: p.type })),
+      returnType: doc.signature.returnType,
+    },
+    ...(doc.comparison && (doc.comparison.unordered !== undefined || doc.comparison.floatTolerance !== undefined)
+      ? { comparison: { unordered: doc.comparison.unordered, floatTolerance: doc.comparison.floatTolerance } }
+      : {}),
+    tags: doc.tags || [],
+  };
+}
+
+/**
+ * Query matching the problems an organization may use: built-in ones plus its own.
+ */
+export function visibleToOrganization(organizationId: mongoose.Types.ObjectId): mongoose.FilterQuery<CodingProblemDoc> {
+  return { $or: [{ employer: null }, { organization: organizationId }] };
+}
+
+/**
+ * Loads problems by numeric ID, preserving the order of the given IDs.
+ */
+export async function getProblemsByIds(problemIds: number[]): Promise<CodingProblem[]> {
+  await ensureProblemBankSeeded();
+
+  const docs = await CodingProblemModel.find({ problemId: { $in: problemIds } }).lean();
+  const byId = new Map(docs.map((doc) => [doc.problemId, toCodingProblem(doc)]));
+  return problemIds.map((id) => byId.get(id)).filter((p): p is CodingProblem => !!p);
+}
+
+/**
+ * Loads the built-in problems, used by rounds that were created without stored problem IDs.
+ */
+export async function getBuiltInProblems(): Promise<CodingProblem[]> {
+  await ensureProblemBankSeeded();
+
+  const docs = await CodingProblemModel.find({ employer: null }).sort({ problemId: 1 }).lean();
+  return docs.map(toCodingProblem);
+}
+
+/**
+ * Randomly draws the configured number of problems per difficulty from the organization's bank.
+ * When tags are given only problems carrying at least one of them are eligible.
+ */
+export async function drawProblemsFromPool(
+  organizationId: mongoose.Types.ObjectId,
+  pool: { easy: number; medium: number; hard: number },
+  tags: string[] = []
+): Promise<number[]> {
+  await ensureProblemBankSeeded();
+
+  const drawn: number[] = [];
+  for (const difficulty of DIFFICULTIES) {
+    const count = pool[difficulty.toLowerCase() as keyof typeof pool] || 0;
+    if (count === 0) continue;
+
+    const sample = await CodingProblemModel.aggregate<{ problemId: number }>([
+      {
+        $match: {
+          ...visibleToOrganization(organizationId),
+          difficulty,
+          ...(tags.length ? { tags: { $in: tags } } : {}),
+        },
+      },
+      { $sample: { size: count } },
+      { $project: { problemId: 1 } },
+    ]);
+
+    if (sample.length < count) {
+      throw new Error(`Not enough ${difficulty.toLowerCase()} problems in the problem bank (need ${count}, found ${sample.length})`);
+    }
+    drawn.push(...sample.map((p) => p.problemId));
+  }
+
+  return drawn;
+}
+
+/**
+ * Reserves the next free numeric problem ID, so concurrent creates and imports never share one. The counter
+ * starts after the highest stored ID the first time it is used.
+ */
+export async function nextProblemId(): Promise<number> {
+  await ensureProblemBankSeeded();
+
+  if (!await CounterModel.exists({ _id: PROBLEM_ID_COUNTER })) {
+    const last = await CodingProblemModel.findOne().sort({ problemId: -1 }).select("problemId").lean();
+    await CounterModel.updateOne(
+      { _id: PROBLEM_ID_COUNTER },
+      { $setOnInsert: { seq: last?.problemId || 0 } },
+      { upsert: true }
+    ).catch(error => {
+      // Another request created the counter first
+      if ((error as { code?: number }).code !== 11000) throw error;
+    });
+  }
+
+  const counter = await CounterModel.findOneAndUpdate(
+    { _id: PROBLEM_ID_COUNTER },
+    { $inc: { seq: 1 } },
+    { new: true }
+  ).lean();
+  if (!counter) throw new Error("Failed to reserve a problem ID");
+  return counter.seq;
+}
+
+/**
+ * Checks that a problem definition can be executed by the test harness.
+ * Returns a readable error message, or null when the definition is valid.
+ */
+export function validateProblemDefinition(problem: CodingProblemInput): string | null {
+  if (!problem.title?.trim()) return "Title is required";
+  if (!problem.description?.trim()) return "Description is required";
+  if (!DIFFICULTIES.includes(problem.difficulty as (typeof DIFFICULTIES)[number])) {
+    return "Difficulty must be Easy, Medium or Hard";
+  }
+
+  const { signature } = problem;
+  if (!signature?.functionName || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(signature.functionName)) {
+    return "Signature needs a valid function name";
+  }
+
+  try {
+    parseValueType(signature.returnType);
+    for (const param of signature.params || []) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(param.name)) return `Invalid parameter name "${param.name}"`;
+      parseValueType(param.type);
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid signature";
+  }
+
+  if (!problem.testCases?.length) return "At least one test case is required";
+  if (!problem.testCases.some((t) => !t.hidden)) return "At least one sample (visible) test case is required";
+
+  for (const [index, testCase] of problem.testCases.entries()) {
+    const missing = (signature.params || []).find((p) => !(p.name in (testCase.input || {})));
+    if (missing) return `Test case ${index + 1} is missing input "${missing.name}"`;
+    if (testCase.expected === undefined) return `Test case ${index + 1} is missing an expected output`;
+    if (testCase.weight !== undefined && (typeof testCase.weight !== "number" || testCase.weight < 0)) {
+      return `Test case ${index + 1} has an invalid weight`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,41 @@
+import { createJudge0Runner } from "./judge0Runner";
+import { createLocalRunner } from "./sandbox";
+import type { CodeRunner } from "./types";
+
+// Lazy singleton, configured once per server process
+let runner: CodeRunner | null = null;
+
+/**
+ * Returns the code runner configured for this deployment.
+ *
+ * CODE_RUNNER=judge0 (default) - Judge0-compatible API at JUDGE0_URL
+ *                                (optional JUDGE0_AUTH_TOKEN for X-Auth-Token)
+ * CODE_RUNNER=local            - child-process sandbox on the app server, development only.
+ *                                It does not isolate the filesystem or network from candidate code
+ */
+export function getCodeRunner(): CodeRunner {
+  if (runner) return runner;
+
+  const kind = (process.env.CODE_RUNNER || "judge0").toLowerCase();
+
+  switch (kind) {
+    case "judge0": {
+      const baseUrl = process.env.JUDGE0_URL;
+      if (!baseUrl) {
+        throw new Error("JUDGE0_URL environment variable is required when CODE_RUNNER=judge0");
+      }
+      runner = createJudge0Runner({ baseUrl, authToken: process.env.JUDGE0_AUTH_TOKEN });
+      break;
+    }
+    case "local":
+      if (process.env.NODE_ENV !== "development") {
+        throw new Error("CODE_RUNNER=local runs candidate code unisolated and is only allowed in development");
+      }
+      runner = createLocalRunner();
+      break;
+    default:
+      throw new Error(`Unknown CODE_RUNNER "${kind}". Expected "local" or "judge0"`);
+  }
+
+  return runner;
+}
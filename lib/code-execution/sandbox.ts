@@ -0,0 +1,245 @@
+// Local code execution sandbox - server-side only (development code runner)
+//
+// Candidate code runs as the app's own OS user, with the app's filesystem and network reachable. This is
+// not a security boundary, so getCodeRunner only allows it in development; deployments use Judge0
+//
+// Isolation model:
+// - Every execution gets a fresh temporary working directory that is removed afterwards
+// - Processes run with a stripped environment (no app secrets are inherited)
+// - Each process is started in its own process group so the whole tree can be killed
+// - Wall-clock timeout and peak memory (RSS sampled from /proc) are enforced per step
+// - Native runtimes additionally get an address-space rlimit via `ulimit -v`
+//
+import { spawn } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { LANGUAGE_TOOLCHAINS, type ToolchainCommand } from "./languages";
+import type { CodeRunner, ExecutionRequest, ExecutionResult } from "./types";
+
+const MAX_OUTPUT_BYTES = 1024 * 1024; // 1MB per stream
+const MIN_COMPILE_TIMEOUT_MS = 30000;
+const MEMORY_SAMPLE_INTERVAL_MS = 20;
+const GO_BUILD_CACHE = path.join(os.tmpdir(), "calibr-go-cache");
+const OUT_OF_MEMORY_PATTERN = /MemoryError|std::bad_alloc|out of memory|OutOfMemoryError|heap out of memory|Allowed memory size/i;
+
+interface ProcessOutcome {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  memoryExceeded: boolean;
+  time: number;
+  memory: number | null;
+}
+
+interface ProcessOptions {
+  cwd: string;
+  stdin: string;
+  timeoutMs: number;
+  memoryLimitMb: number;
+  addressSpaceLimit: boolean;
+}
+
+function buildSandboxEnv(workDir: string): typeof process.env {
+  return {
+    NODE_ENV: "production",
+    PATH: process.env.PATH || "/usr/local/bin:/usr/bin:/bin",
+    HOME: workDir,
+    TMPDIR: workDir,
+    LANG: "C.UTF-8",
+    GOCACHE: GO_BUILD_CACHE,
+    GOPATH: path.join(workDir, ".go"),
+    GO111MODULE: "off",
+  };
+}
+
+/**
+ * Reads the resident set size (KB) of a process from /proc.
+ * Returns null when unavailable (non-Linux hosts or process already exited).
+ */
+async function readResidentMemoryKb(pid: number): Promise<number | null> {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, "utf8");
+    const match = status.match(/VmRSS:\s+(\d+)\s+kB/);
+    return match ? parseInt(match[1], 10) : null;
+  } catch {
+    return null;
+  }
+}
+
+function killProcessGroup(pid: number | undefined) {
+  if (!pid) return;
+  try {
+    process.kill(-pid, "SIGKILL");
+  } catch {
+    // Process group already gone
+  }
+}
+
+function runProcess(command: ToolchainCommand, options: ProcessOptions): Promise<ProcessOutcome> {
+  return new Promise((resolve) => {
+    const startedAt = process.hrtime.bigint();
+    const limitKb = options.memoryLimitMb * 1024;
+
+    // `exec` keeps the sandboxed program on the shell's pid so memory sampling sees it
+    const script = options.addressSpaceLimit
+      ? `ulimit -v ${limitKb} 2>/dev/null; exec "$0" "$@"`
+      : `exec "$0" "$@"`;
+
+    const child = spawn("/bin/sh", ["-c", script, command.command, ...command.args], {
+      cwd: options.cwd,
+      env: buildSandboxEnv(options.cwd),
+      detached: true,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    let memoryExceeded = false;
+    let peakMemory: number | null = null;
+    let settled = false;
+
+    const collect = (current: string, chunk: Buffer) => {
+      if (current.length >= MAX_OUTPUT_BYTES) return current;
+      return current + chunk.toString("utf8").slice(0, MAX_OUTPUT_BYTES - current.length);
+    };
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout = collect(stdout, chunk);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = collect(stderr, chunk);
+    });
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      killProcessGroup(child.pid);
+    }, options.timeoutMs);
+
+    const sampler = setInterval(async () => {
+      if (!child.pid || settled) return;
+      const rss = await readResidentMemoryKb(child.pid);
+      if (rss === null) return;
+      peakMemory = Math.max(peakMemory ?? 0, rss);
+      if (rss > limitKb) {
+        memoryExceeded = true;
+        killProcessGroup(child.pid);
+      }
+    }, MEMORY_SAMPLE_INTERVAL_MS);
+
+    const finish = (exitCode: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      clearInterval(sampler);
+      killProcessGroup(child.pid);
+      resolve({
+        stdout,
+        stderr,
+        exitCode,
+        timedOut,
+        memoryExceeded,
+        time: Number(process.hrtime.bigint() - startedAt) / 1e9,
+        memory: peakMemory,
+      });
+    };
+
+    child.on("error", (error) => {
+      stderr = collect(stderr, Buffer.from(error.message));
+      finish(null);
+    });
+    child.on("close", (code) => finish(code));
+
+    // Programs that never read stdin close the pipe early; ignore EPIPE
+    child.stdin.on("error", () => {});
+    child.stdin.end(options.stdin);
+  });
+}
+
+/**
+ * Compiles (where needed) and runs a single program inside the local sandbox.
+ */
+export async function runInSandbox(request: ExecutionRequest): Promise<ExecutionResult> {
+  const toolchain = LANGUAGE_TOOLCHAINS[request.language];
+  const workDir = await mkdtemp(path.join(os.tmpdir(), "calibr-run-"));
+
+  try {
+    await writeFile(path.join(workDir, toolchain.sourceFile), request.source, "utf8");
+
+    if (toolchain.compile) {
+      const compiled = await runProcess(toolchain.compile(workDir), {
+        cwd: workDir,
+        stdin: "",
+        timeoutMs: Math.max(request.limits.timeoutMs, MIN_COMPILE_TIMEOUT_MS),
+        memoryLimitMb: Math.max(request.limits.memoryLimitMb, 1024),
+        addressSpaceLimit: false,
+      });
+
+      if (compiled.timedOut || compiled.exitCode !== 0) {
+        return {
+          status: "compile_error",
+          stdout: "",
+          stderr: "",
+          compileOutput: compiled.timedOut
+            ? "Compilation timed out"
+            : (compiled.stderr || compiled.stdout).trim() || "Compilation failed",
+          exitCode: compiled.exitCode,
+          time: null,
+          memory: null,
+        };
+      }
+    }
+
+    const run = await runProcess(toolchain.run(workDir, request.limits.memoryLimitMb), {
+      cwd: workDir,
+      stdin: request.stdin || "",
+      timeoutMs: request.limits.timeoutMs,
+      memoryLimitMb: request.limits.memoryLimitMb,
+      addressSpaceLimit: toolchain.addressSpaceLimit,
+    });
+
+    // Allocation failures under the rlimit surface as runtime errors; report them as MLE
+    const outOfMemory = run.memoryExceeded || (run.exitCode !== 0 && OUT_OF_MEMORY_PATTERN.test(run.stderr));
+
+    const status = run.timedOut
+      ? "time_limit_exceeded"
+      : outOfMemory
+        ? "memory_limit_exceeded"
+        : run.exitCode === 0
+          ? "success"
+          : "runtime_error";
+
+    return {
+      status,
+      stdout: run.stdout,
+      stderr: run.stderr,
+      exitCode: run.exitCode,
+      time: Number(run.time.toFixed(3)),
+      memory: run.memory,
+    };
+  } catch (error) {
+    console.error("Sandbox execution failed:", error);
+    return {
+      status: "internal_error",
+      stdout: "",
+      stderr: error instanceof Error ? error.message : "Sandbox execution failed",
+      exitCode: null,
+      time: null,
+      memory: null,
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Child-process runner used for local development.
+ */
+export function createLocalRunner(): CodeRunner {
+  return {
+    name: "local",
+    execute: runInSandbox,
+  };
+}
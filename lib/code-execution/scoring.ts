@@ -0,0 +1,44 @@
+type Difficulty = "easy" | "medium" | "hard";
+
+export interface DifficultyWeightage {
+  easy: number;
+  medium: number;
+  hard: number;
+}
+
+/**
+ * Rolls per-problem scores (0-100) up into a round score.
+ * Problems are averaged within their difficulty, then the difficulties present in
+ * the round are combined using the round's difficulty weightage. Unattempted problems score 0.
+ */
+export function calculateRoundScore(
+  problems: { id: number; difficulty: string }[],
+  problemScores: Record<string, number>,
+  weightage: DifficultyWeightage
+): number {
+  const groups = new Map<Difficulty, number[]>();
+
+  for (const problem of problems) {
+    const difficulty = problem.difficulty.toLowerCase() as Difficulty;
+    if (!(difficulty in weightage)) continue;
+    const scores = groups.get(difficulty) || [];
+    scores.push(problemScores[String(problem.id)] ?? 0);
+    groups.set(difficulty, scores);
+  }
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  groups.forEach((scores, difficulty) => {
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    weightedSum += average * weightage[difficulty];
+    totalWeight += weightage[difficulty];
+  });
+
+  // Fall back to a plain average when every present difficulty has zero weightage
+  if (totalWeight === 0) {
+    const all = Array.from(groups.values()).flat();
+    return all.length ? Math.round((all.reduce((sum, score) => sum + score, 0) / all.length) * 100) / 100 : 0;
+  }
+
+  return Math.round((weightedSum / totalWeight) * 100) / 100;
+}
@@ -0,0 +1,146 @@
+import type { FunctionSignature, ParsedValueType, ScalarType, ValueType } from "./types";
+
+const SCALAR_TYPES: ScalarType[] = ["int", "long", "double", "boolean", "string"];
+
+/**
+ * Parses a signature value type such as "int[][]" into its scalar base and array depth.
+ */
+export function parseValueType(type: ValueType): ParsedValueType {
+  const match = type.trim().match(/^(\w+)((?:\[\])*)$/);
+  if (!match || !(SCALAR_TYPES as string[]).includes(match[1])) {
+    throw new Error(`Unsupported value type "${type}"`);
+  }
+  return { base: match[1] as ScalarType, depth: match[2].length / 2 };
+}
+
+// ============== PER-LANGUAGE TYPE NAMES ==============
+
+const CPP_SCALARS: Record<ScalarType, string> = {
+  int: "int",
+  long: "long long",
+  double: "double",
+  boolean: "bool",
+  string: "string",
+};
+
+const JAVA_SCALARS: Record<ScalarType, string> = {
+  int: "int",
+  long: "long",
+  double: "double",
+  boolean: "boolean",
+  string: "String",
+};
+
+const GO_SCALARS: Record<ScalarType, string> = {
+  int: "int",
+  long: "int64",
+  double: "float64",
+  boolean: "bool",
+  string: "string",
+};
+
+const C_SCALARS: Record<ScalarType, string> = {
+  int: "int",
+  long: "long long",
+  double: "double",
+  boolean: "bool",
+  string: "char*",
+};
+
+const TS_SCALARS: Record<ScalarType, string> = {
+  int: "number",
+  long: "number",
+  double: "number",
+  boolean: "boolean",
+  string: "string",
+};
+
+const PYTHON_SCALARS: Record<ScalarType, string> = {
+  int: "int",
+  long: "int",
+  double: "float",
+  boolean: "bool",
+  string: "str",
+};
+
+export function cppType(type: ValueType): string {
+  const { base, depth } = parseValueType(type);
+  let name = CPP_SCALARS[base];
+  for (let i = 0; i < depth; i++) name = `vector<${name}>`;
+  return name;
+}
+
+export function javaType(type: ValueType): string {
+  const { base, depth } = parseValueType(type);
+  return JAVA_SCALARS[base] + "[]".repeat(depth);
+}
+
+export function goType(type: ValueType): string {
+  const { base, depth } = parseValueType(type);
+  return "[]".repeat(depth) + GO_SCALARS[base];
+}
+
+export function cType(type: ValueType): string {
+  const { base, depth } = parseValueType(type);
+  if (depth > 1) {
+    throw new Error(`C signatures support at most one array dimension (got "${type}")`);
+  }
+  return C_SCALARS[base] + (depth === 1 ? "*" : "");
+}
+
+export function typeScriptType(type: ValueType): string {
+  const { base, depth } = parseValueType(type);
+  return TS_SCALARS[base] + "[]".repeat(depth);
+}
+
+export function pythonType(type: ValueType): string {
+  const { base, depth } = parseValueType(type);
+  let name = PYTHON_SCALARS[base];
+  for (let i = 0; i < depth; i++) name = `List[${name}]`;
+  return name;
+}
+
+// ============== STARTER CODE ==============
+
+/**
+ * Generates starter code for a language from the problem's signature.
+ * Used whenever a problem does not ship hand-written starter code for a language.
+ */
+export function generateStarterCode(signature: FunctionSignature, language: string): string {
+  const { functionName, params, returnType } = signature;
+  const names = params.map((p) => p.name);
+
+  switch (language) {
+    case "javascript":
+      return `/**\n${params.map((p) => ` * @param {${typeScriptType(p.type)}} ${p.name}`).join("\n")}\n * @return {${typeScriptType(returnType)}}\n */\nvar ${functionName} = function(${names.join(", ")}) {\n    // Your code here\n};`;
+    case "typescript":
+      return `function ${functionName}(${params.map((p) => `${p.name}: ${typeScriptType(p.type)}`).join(", ")}): ${typeScriptType(returnType)} {\n    // Your code here\n}`;
+    case "python":
+      return `class Solution:\n    def ${functionName}(self${params.map((p) => `, ${p.name}: ${pythonType(p.type)}`).join("")}) -> ${pythonType(returnType)}:\n        # Your code here\n        pass`;
+    case "java":
+      return `class Solution {\n    public ${javaType(returnType)} ${functionName}(${params.map((p) => `${javaType(p.type)} ${p.name}`).join(", ")}) {\n        // Your code here\n    }\n}`;
+    case "cpp":
+      // Containers are taken by reference, matching the usual LeetCode-style signatures
+      return `class Solution {\npublic:\n    ${cppType(returnType)} ${functionName}(${params.map((p) => `${cppType(p.type)}${parseValueType(p.type).depth > 0 ? "&" : ""} ${p.name}`).join(", ")}) {\n        // Your code here\n    }\n};`;
+    case "c": {
+      const cParams = params.flatMap((p) =>
+        parseValueType(p.type).depth === 1 ? [`${cType(p.type)} ${p.name}`, `int ${p.name}Size`] : [`${cType(p.type)} ${p.name}`]
+      );
+      if (parseValueType(returnType).depth === 1) {
+        cParams.push("int* returnSize");
+      }
+      const note = parseValueType(returnType).depth === 1
+        ? "/**\n * Note: The returned array must be malloced, set *returnSize to its length.\n */\n"
+        : "";
+      return `${note}${cType(returnType)} ${functionName}(${cParams.join(", ")}) {\n    // Your code here\n}`;
+    }
+    case "go":
+      return `func ${functionName}(${params.map((p) => `${p.name} ${goType(p.type)}`).join(", ")}) ${goType(returnType)} {\n    // Your code here\n}`;
+    case "ruby":
+      return `# ${params.map((p) => `@param {${typeScriptType(p.type)}} ${p.name}`).join("\n# ")}\n# @return {${typeScriptType(returnType)}}\ndef ${functionName}(${names.join(", ")})\n    # Your code here\nend`;
+    case "php":
+      return `<?php\n\nclass Solution {\n    /**\n${params.map((p) => `     * @param ${typeScriptType(p.type)} $${p.name}`).join("\n")}\n     * @return ${typeScriptType(returnType)}\n     */\n    function ${functionName}(${names.map((n) => `$${n}`).join(", ")}) {\n        // Your code here\n    }\n}`;
+    default:
+      return "";
+  }
+}
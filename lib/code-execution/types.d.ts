@@ -0,0 +1,123 @@
+export type SupportedLanguage =
+  | "javascript"
+  | "typescript"
+  | "python"
+  | "java"
+  | "cpp"
+  | "c"
+  | "go"
+  | "ruby"
+  | "php";
+
+export type ExecutionStatus =
+  | "success"
+  | "compile_error"
+  | "runtime_error"
+  | "time_limit_exceeded"
+  | "memory_limit_exceeded"
+  | "internal_error";
+
+// Limits come from the coding round configuration (compilerTimeout / memoryLimit)
+export interface ExecutionLimits {
+  timeoutMs: number;
+  memoryLimitMb: number;
+}
+
+export interface ExecutionRequest {
+  language: SupportedLanguage;
+  source: string;
+  stdin?: string;
+  limits: ExecutionLimits;
+}
+
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  stdout: string;
+  stderr: string;
+  compileOutput?: string;
+  exitCode: number | null;
+  time: number | null; // seconds
+  memory: number | null; // KB (peak resident set size)
+}
+
+// Value types usable in problem signatures: a scalar optionally followed by
+// one `[]` per array dimension, e.g. "int", "string[]", "double[][]"
+export type ScalarType = "int" | "long" | "double" | "boolean" | "string";
+export type ValueType = string;
+
+export interface ParsedValueType {
+  base: ScalarType;
+  depth: number;
+}
+
+export interface FunctionSignature {
+  functionName: string;
+  params: { name: string; type: ValueType }[];
+  returnType: ValueType;
+}
+
+// How a returned value is compared against the expected one
+export interface OutputComparison {
+  unordered?: boolean; // ignore element order at every array level
+  floatTolerance?: number; // absolute/relative tolerance for double values
+}
+
+export interface CodingTestCase {
+  input: Record<string, any>;
+  expected: any;
+  hidden?: boolean; // only executed on submission, never sent to the candidate
+  weight?: number; // relative weight within the problem score (default 1)
+}
+
+export interface CodingProblem {
+  id: number;
+  title: string;
+  difficulty: string;
+  description: string;
+  constraints: string[];
+  examples: { input: any; output: any; explanation?: string }[];
+  starterCode: Record<string, string>;
+  testCases: CodingTestCase[];
+  signature: FunctionSignature;
+  comparison?: OutputComparison;
+  tags?: string[];
+}
+
+// Problem definition as authored in the problem bank (the numeric ID is assigned on creation)
+export type CodingProblemInput = Omit<CodingProblem, "id">;
+
+export interface TestCaseResult {
+  input: Record<string, any>;
+  expected: any;
+  actual: any;
+  passed: boolean;
+  status: ExecutionStatus;
+  error: string | null;
+  stdout: string;
+  stderr: string;
+  time: number | null;
+  memory: number | null;
+  hidden: boolean;
+  weight: number;
+}
+
+export interface CodeExecutionSummary {
+  results: TestCaseResult[];
+  allPassed: boolean;
+  totalTests: number;
+  passedTests: number;
+  hiddenTests: number;
+  hiddenPassed: number;
+  score: number; // weighted percentage of passed tests (0-100)
+  lastTime: number | null;
+  lastMemory: number | null;
+}
+
+/**
+ * Backend that compiles and runs a single program.
+ * Selected per deployment through the CODE_RUNNER environment variable.
+ */
+export interface CodeRunner {
+  readonly name: string;
+  execute(request: ExecutionRequest): Promise<ExecutionResult>;
+}
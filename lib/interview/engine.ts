@@ -3,7 +3,8 @@ import type { Queues, Question, EngineStats, EngineAdapter } from "./types";
 export function createInterviewEngine(
   adapter: EngineAdapter, 
   useVideoProcessing: boolean = false,
-  hasQueue2: boolean = true // New param: false for HR interviews
+  hasQueue2: boolean = true, // New param: false for HR interviews
+  interviewId: string = ''
 ) {
   const state = {
     queues: { 
@@ -52,7 +53,7 @@ export function createInterviewEngine(
     }
 
     try {
-      const videoStatus = await adapter.checkVideoViolations('current');
+      const videoStatus = await adapter.checkVideoViolations(interviewId);
       
       // Update Queue 0 state
       if (state.queues.queue0) {
@@ -61,8 +62,8 @@ export function createInterviewEngine(
         state.stats.violationCount = videoStatus.violation_count;
       }
 
-      // CRITICAL: End interview if violations >= 3
-      if (videoStatus.violation_count >= 3) {
+      // CRITICAL: End interview once the server has counted VIOLATION_LIMIT (3) violations
+      if (videoStatus.should_end) {
         state.stats.interviewEnded = true;
         return true;
       }
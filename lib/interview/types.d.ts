@@ -34,6 +34,7 @@ export interface VideoInputQueue {
 }
 
 export interface VideoLog {
+  type: 'mood' | 'violation' | 'person-changed';
   timestamp: Date;
   mood?: string;
   gesture?: string;
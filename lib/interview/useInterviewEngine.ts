@@ -10,7 +10,7 @@ export interface UseInterviewEngineOptions {
   useVideoProcessing?: boolean;
   hasQueue2?: boolean; // New: false for HR interviews, true for technical
   enableChunking?: boolean; // Enable chunking/batching
-  interviewId?: string; // Required if chunking enabled
+  interviewId?: string; // Required if chunking or video processing enabled
 }
 
 export function useInterviewEngine(
@@ -27,8 +27,8 @@ export function useInterviewEngine(
   const videoProcessing = options.useVideoProcessing ?? useVideoProcessing;
 
   const engine = useMemo(
-    () => createInterviewEngine(adapter, videoProcessing, hasQueue2), 
-    [adapter, videoProcessing, hasQueue2]
+    () => createInterviewEngine(adapter, videoProcessing, hasQueue2, interviewId), 
+    [adapter, videoProcessing, hasQueue2, interviewId]
   );
   const [queues, setQueuesState] = useState<Queues>(engine.state.queues);
   const [currentQuestion, setCurrentQuestion] = useState<Question | null>(engine.state.currentQuestion);
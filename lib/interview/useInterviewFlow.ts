@@ -65,6 +65,8 @@ interface UseInterviewFlowOptions {
   adapter: {
     startEvaluation: (interviewId: string) => Promise<void>;
     analyze: (question: string, idealAnswer: string, userAnswer: string, queues: any, currentQuestion: any, interviewId: string) => Promise<any>;
+    // Optional: Queue 0 proctoring status, counted on the server
+    checkVideoViolations?: (interviewId: string) => Promise<{ should_end: boolean }>;
   };
   
   // Helper functions
@@ -394,6 +396,19 @@ export function useInterviewFlow(options: UseInterviewFlowOptions) {
    */
   const askNextQuestion = async () => {
     try {
+      // Queue 0 has the highest priority: stop once the server has counted too many violations
+      if (adapter.checkVideoViolations) {
+        const videoStatus = await adapter.checkVideoViolations(interviewId).catch((error) => {
+          console.error('[NextQ] Failed to check video violations:', error);
+          return null;
+        });
+        if (videoStatus?.should_end) {
+          console.log('[NextQ] Proctoring violation limit reached, ending interview');
+          endInterview();
+          return;
+        }
+      }
+
       console.log('[NextQ] Loading questions from database...');
       const askedQuestions = await loadAskedQuestions();
 
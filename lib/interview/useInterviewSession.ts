@@ -35,7 +35,6 @@ interface UseInterviewSessionOptions {
     deleteInterviewAudio: (interviewId: string) => Promise<any>;
     markQuestionAsked: (interviewId: string, questionId: string) => Promise<any>;
     completeInterview: (interviewId: string) => Promise<any>;
-    storeVideoLogs: (interviewId: string, logs: any[]) => Promise<any>;
     markChunkPreprocessed: (interviewId: string, chunkNumber: number) => Promise<any>;
   };
   
@@ -21,9 +21,7 @@ let videoState: VideoState = {
   current_violations: []
 };
 
-let lastMoodState = 'neutral';
-
-// Callback for immediate log persistence (set by TechnicalInterviewClient)
+// Callback for immediate log persistence (set by the interview clients to stream proctoring events)
 let onLogCreated: ((log: VideoLog) => void) | null = null;
 
 /**
@@ -37,8 +35,11 @@ export function setLogCallback(callback: ((log: VideoLog) => void) | null) {
 /**
  * Update video state from video-processing component
  * Call this from the video processing component when violations or mood changes
+ * Only violation and person-changed updates add to the local violation count; the
+ * count that ends the interview is kept by the server (see lib/proctoring/session)
  */
 export function updateVideoState(update: {
+  type: VideoLog['type'];
   violations?: string[];
   mood?: string;
   gesture?: string;
@@ -54,11 +55,15 @@ export function updateVideoState(update: {
   // Track violations
   const newViolations: string[] = [];
   
-  if (update.gesture && update.gesture !== 'facing_forward') {
+  if (update.type === 'person-changed') {
+    newViolations.push('person_changed');
+  }
+
+  if (update.type === 'violation' && update.gesture && update.gesture !== 'facing_forward') {
     newViolations.push(`gesture:${update.gesture}`);
   }
   
-  if (update.objects && update.objects.length > 0) {
+  if (update.type === 'violation' && update.objects && update.objects.length > 0) {
     // Filter out normal single person detection
     const filteredObjects = update.objects.filter(obj => 
       obj.toLowerCase() !== 'person' || update.objects!.length > 1
@@ -78,6 +83,7 @@ export function updateVideoState(update: {
 
   // Log the event
   const log: VideoLog = {
+    type: update.type,
     timestamp,
     mood: update.mood,
     gesture: update.gesture,
@@ -93,32 +99,12 @@ export function updateVideoState(update: {
   }
 
   // IMMEDIATE PERSISTENCE: Invoke callback if registered
-  // This ensures logs are stored in DB right away for mood-based question generation
+  // This streams the log to the server, which counts violations and tracks mood changes
   if (onLogCreated) {
     onLogCreated(log);
   }
 }
 
-/**
- * Get current video state for Queue 0 processing
- */
-export function getVideoState(): {
-  violation_count: number;
-  mood_state: string;
-  should_end: boolean;
-  mood_changed: boolean;
-} {
-  const mood_changed = videoState.mood_state !== lastMoodState && videoState.mood_state !== 'neutral';
-  lastMoodState = videoState.mood_state;
-
-  return {
-    violation_count: videoState.violation_count,
-    mood_state: videoState.mood_state,
-    should_end: videoState.violation_count >= 3,
-    mood_changed
-  };
-}
-
 /**
  * Get full Queue 0 data structure
  */
@@ -141,7 +127,6 @@ export function resetVideoState() {
     logs: [],
     current_violations: []
   };
-  lastMoodState = 'neutral';
   onLogCreated = null; // Clear callback on reset
 }
 
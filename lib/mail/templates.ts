@@ -0,0 +1,108 @@
+// Mail templates - subject, plain text and HTML bodies for transactional email
+//
+import type { MailMessage } from "./transport";
+import type { OtpPurpose } from "@/lib/verification/otp";
+import type { NotificationType } from "@/models/notification.model";
+
+type MailContent = Omit<MailMessage, "to">;
+
+const OTP_COPY: Record<OtpPurpose, { subject: string; intro: string }> = {
+  "verify-email": {
+    subject: "Verify your Calibr account",
+    intro: "Use this code to verify your email address and finish setting up your Calibr account."
+  },
+  "reset-password": {
+    subject: "Reset your Calibr password",
+    intro: "Use this code to reset your Calibr password. If you did not ask for a reset, you can ignore this email."
+  }
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export function otpEmail(purpose: OtpPurpose, code: string, firstName: string, ttlMinutes: number): MailContent {
+  const { subject, intro } = OTP_COPY[purpose];
+  const expiry = `The code expires in ${ttlMinutes} minutes.`;
+
+  return {
+    subject,
+    text: `Hi ${firstName},\n\n${intro}\n\n${code}\n\n${expiry}\n\n- The Calibr team`,
+    html: `<p>Hi ${escapeHtml(firstName)},</p>
+<p>${intro}</p>
+<p style="font-size:28px;font-weight:bold;letter-spacing:6px">${code}</p>
+<p>${expiry}</p>
+<p>- The Calibr team</p>`
+  };
+}
+
+export function organizationInvitationEmail(
+  organizationName: string,
+  inviterName: string,
+  role: string,
+  link: string,
+  ttlDays: number
+): MailContent {
+  const intro = `${inviterName} invited you to join ${organizationName} on Calibr as ${role === "interviewer" ? "an" : "a"} ${role}.`;
+  const expiry = `The invitation expires in ${ttlDays} days. Sign in with an employer account for this email address to accept it.`;
+
+  return {
+    subject: `Join ${organizationName} on Calibr`,
+    text: `Hi,\n\n${intro}\n\nAccept the invitation: ${link}\n\n${expiry}\n\n- The Calibr team`,
+    html: `<p>Hi,</p>
+<p>${escapeHtml(intro)}</p>
+<p><a href="${escapeHtml(link)}">Accept the invitation</a></p>
+<p>${expiry}</p>
+<p>- The Calibr team</p>`
+  };
+}
+
+// Records of the candidate's own actions are not emailed, but still have copy so every type can be rendered
+const NOTIFICATION_COPY: Record<NotificationType, { subject: (title: string) => string; action: string }> = {
+  applied: {
+    subject: title => `${title} - Calibr`,
+    action: "View your application"
+  },
+  shortlisted: {
+    subject: title => `${title} - Calibr`,
+    action: "Open your assessment"
+  },
+  reminder: {
+    subject: title => `Reminder: ${title}`,
+    action: "Open your assessment"
+  },
+  result: {
+    subject: title => `${title} - Calibr`,
+    action: "View your application"
+  },
+  rejected: {
+    subject: () => "An update on your Calibr application",
+    action: "View your application"
+  },
+  "round-completed": {
+    subject: title => `${title} - Calibr`,
+    action: "View your application"
+  },
+  withdrawn: {
+    subject: title => `${title} - Calibr`,
+    action: "View your application"
+  }
+};
+
+export function notificationEmail(
+  type: NotificationType,
+  firstName: string,
+  title: string,
+  message: string,
+  link?: string
+): MailContent {
+  const { subject, action } = NOTIFICATION_COPY[type];
+
+  return {
+    subject: subject(title),
+    text: `Hi ${firstName},\n\n${message}${link ? `\n\n${action}: ${link}` : ""}\n\n- The Calibr team`,
+    html: `<p>Hi ${escapeHtml(firstName)},</p>
+<p>${escapeHtml(message)}</p>
+${link ? `<p><a href="${escapeHtml(link)}">${action}</a></p>\n` : ""}<p>- The Calibr team</p>`
+  };
+}
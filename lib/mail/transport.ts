@@ -0,0 +1,93 @@
+// Mail transport - sends transactional email through a pluggable transport
+//
+// - MAIL_TRANSPORT picks the transport: "console", "file" or "http"; development defaults to "console"
+// - The file transport writes every message as JSON into MAIL_FILE_DIR (default .mail/) so flows can be
+//   followed locally without a mail server
+// - The http transport POSTs the message as JSON to MAIL_HTTP_URL, with MAIL_HTTP_API_KEY as a bearer token
+// - Other transports are added with registerMailTransport
+//
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+};
+
+const fileTransport: MailTransport = {
+  async send(message) {
+    const dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), ".mail");
+    await mkdir(dir, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.json`;
+    await writeFile(path.join(dir, fileName), JSON.stringify({ ...message, sentAt }, null, 2));
+  }
+};
+
+const httpTransport: MailTransport = {
+  async send(message) {
+    const url = process.env.MAIL_HTTP_URL;
+    if (!url) {
+      throw new Error("MAIL_HTTP_URL is required for the http mail transport");
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.MAIL_HTTP_API_KEY ? { Authorization: `Bearer ${process.env.MAIL_HTTP_API_KEY}` } : {})
+      },
+      body: JSON.stringify(message)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail provider responded with ${response.status}`);
+    }
+  }
+};
+
+const transports = new Map<string, MailTransport>([
+  ["console", consoleTransport],
+  ["file", fileTransport],
+  ["http", httpTransport]
+]);
+
+/**
+ * Makes a transport available under the given MAIL_TRANSPORT name.
+ */
+export function registerMailTransport(name: string, transport: MailTransport): void {
+  transports.set(name, transport);
+}
+
+/**
+ * The configured transport. Production has no default, so codes are never only written to the logs.
+ */
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? undefined : "console");
+  if (!name) {
+    throw new Error("MAIL_TRANSPORT is not configured");
+  }
+
+  const transport = transports.get(name);
+  if (!transport) {
+    throw new Error(`Unknown mail transport: ${name}`);
+  }
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ ...message, from: process.env.MAIL_FROM || "Calibr <no-reply@calibr.app>" });
+}
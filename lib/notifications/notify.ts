@@ -0,0 +1,315 @@
+// Candidate notifications - in-app notices for hiring events, emailed by the notification runner
+//
+// - Each notification is shown in the candidate's dashboard from deliverAt on, and the runner emails it once
+//   it is due (see ./runner)
+// - The same store is the candidate's activity timeline. Records of their own actions (applying, completing
+//   a round, withdrawing) are stored as already read and are never emailed
+// - dedupeKey makes every event notify once, however many times the code path that raises it runs
+// - Raising a notification never fails the action it belongs to; errors are only logged
+//
+import mongoose from "mongoose";
+import NotificationModel, { type NotificationType } from "@/models/notification.model";
+import ApplicationModel, { type OverallResult } from "@/models/application.model";
+import JobOpportunityModel from "@/models/jobOpportunity.model";
+import { logError } from "@/utils/action-helpers";
+import type { AssessmentRound } from "@/lib/assessment/overallResult";
+
+export interface NotificationInput {
+  recipient: mongoose.Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  application?: mongoose.Types.ObjectId;
+  assessment?: mongoose.Types.ObjectId;
+  round?: AssessmentRound;
+  deliverAt?: Date;
+  dedupeKey?: string;
+}
+
+export const ROUND_LABELS: Record<AssessmentRound, string> = {
+  aptitude: "Aptitude Round",
+  coding: "Coding Round",
+  technicalInterview: "Technical Interview",
+  hrInterview: "HR Interview"
+};
+
+export function assessmentLink(assessmentId: mongoose.Types.ObjectId | string): string {
+  return `/assessment/process/${assessmentId}`;
+}
+
+// Types that record what the candidate did themselves rather than news for them
+const ACTIVITY_TYPES: NotificationType[] = ["applied", "round-completed", "withdrawn"];
+
+export function applicationLink(applicationId: mongoose.Types.ObjectId | string): string {
+  return `/dashboard/candidate/applications/${applicationId}`;
+}
+
+/**
+ * Stores notifications, skipping any whose dedupeKey was already used. Returns how many were created.
+ */
+export async function createNotifications(inputs: NotificationInput[]): Promise<number> {
+  if (inputs.length === 0) return 0;
+
+  const documents = inputs.map(input => ACTIVITY_TYPES.includes(input.type)
+    ? { ...input, readAt: input.deliverAt ?? new Date(), email: { status: "skipped" as const, attempts: 0 } }
+    : input
+  );
+
+  const result = await NotificationModel.bulkWrite(
+    documents.map(document => document.dedupeKey
+      ? { updateOne: { filter: { dedupeKey: document.dedupeKey }, update: { $setOnInsert: document }, upsert: true } }
+      : { insertOne: { document } }
+    ),
+    { ordered: false }
+  );
+  return result.insertedCount + result.upsertedCount;
+}
+
+async function notifySafely(description: string, build: () => Promise<NotificationInput[]>): Promise<void> {
+  try {
+    await createNotifications(await build());
+  } catch (error) {
+    logError(`Failed to notify ${description}`, error);
+  }
+}
+
+async function loadJobTitle(jobId: mongoose.Types.ObjectId | undefined): Promise<string> {
+  const job = jobId ? await JobOpportunityModel.findById(jobId).select("title").lean() : null;
+  return job?.title || "your application";
+}
+
+/**
+ * Records that a candidate applied for a job.
+ */
+export async function notifyApplied(applicationId: mongoose.Types.ObjectId): Promise<void> {
+  await notifySafely("submitted application", async () => {
+    const application = await ApplicationModel.findById(applicationId).select("candidateId jobId").lean();
+    if (!application) return [];
+
+    const jobTitle = await loadJobTitle(application.jobId);
+    return [{
+      recipient: application.candidateId,
+      type: "applied",
+      title: "Application submitted",
+      message: `You applied for ${jobTitle}.`,
+      link: applicationLink(applicationId),
+      application: applicationId,
+      dedupeKey: `applied:${applicationId}`
+    }];
+  });
+}
+
+/**
+ * Records that a candidate withdrew their application.
+ */
+export async function notifyWithdrawn(applicationId: mongoose.Types.ObjectId): Promise<void> {
+  await notifySafely("withdrawn application", async () => {
+    const application = await ApplicationModel.findById(applicationId).select("candidateId jobId").lean();
+    if (!application) return [];
+
+    const jobTitle = await loadJobTitle(application.jobId);
+    return [{
+      recipient: application.candidateId,
+      type: "withdrawn",
+      title: "Application withdrawn",
+      message: `You withdrew your application for ${jobTitle}.`,
+      link: applicationLink(applicationId),
+      application: applicationId,
+      dedupeKey: `withdrawn:${applicationId}`
+    }];
+  });
+}
+
+/**
+ * Tells a candidate their application was shortlisted when the job has no assessment to shortlist them into.
+ */
+export async function notifyApplicationShortlisted(applicationId: mongoose.Types.ObjectId): Promise<void> {
+  await notifySafely("shortlisted application", async () => {
+    const application = await ApplicationModel.findById(applicationId).select("candidateId jobId").lean();
+    if (!application) return [];
+
+    const jobTitle = await loadJobTitle(application.jobId);
+    return [{
+      recipient: application.candidateId,
+      type: "shortlisted",
+      title: "Application shortlisted",
+      message: `Your application for ${jobTitle} has been shortlisted.`,
+      link: applicationLink(applicationId),
+      application: applicationId,
+      dedupeKey: `shortlisted:${applicationId}`
+    }];
+  });
+}
+
+/**
+ * Tells candidates they were shortlisted for a round.
+ */
+export async function notifyShortlisted(
+  assessment: { _id: unknown; jobOpportunity?: mongoose.Types.ObjectId },
+  round: AssessmentRound,
+  candidateIds: mongoose.Types.ObjectId[]
+): Promise<void> {
+  await notifySafely("shortlisted candidates", async () => {
+    if (!assessment.jobOpportunity || candidateIds.length === 0) return [];
+
+    const [applications, jobTitle] = await Promise.all([
+      ApplicationModel.find({
+        candidateId: { $in: candidateIds },
+        jobId: assessment.jobOpportunity,
+        [`rounds.${round}`]: "shortlisted"
+      })
+        .select("candidateId")
+        .lean(),
+      loadJobTitle(assessment.jobOpportunity)
+    ]);
+
+    return applications.map(application => ({
+      recipient: application.candidateId,
+      type: "shortlisted" as const,
+      title: `Shortlisted for the ${ROUND_LABELS[round]}`,
+      message: `You have been shortlisted for the ${ROUND_LABELS[round]} of ${jobTitle}.`,
+      link: assessmentLink(String(assessment._id)),
+      application: application._id as mongoose.Types.ObjectId,
+      assessment: assessment._id as mongoose.Types.ObjectId,
+      round,
+      dedupeKey: `shortlisted:${application._id}:${round}`
+    }));
+  });
+}
+
+/**
+ * Tells a candidate their application was rejected.
+ */
+export async function notifyRejected(applicationId: mongoose.Types.ObjectId): Promise<void> {
+  await notifySafely("rejected candidate", async () => {
+    const application = await ApplicationModel.findById(applicationId).select("candidateId jobId").lean();
+    if (!application) return [];
+
+    const jobTitle = await loadJobTitle(application.jobId);
+    return [{
+      recipient: application.candidateId,
+      type: "rejected",
+      title: "Application update",
+      message: `Thank you for your interest in ${jobTitle}. After careful review, we will not be moving forward with your application.`,
+      link: applicationLink(applicationId),
+      application: applicationId,
+      dedupeKey: `rejected:${applicationId}`
+    }];
+  });
+}
+
+function resultNotification(
+  applicationId: mongoose.Types.ObjectId,
+  candidateId: mongoose.Types.ObjectId,
+  assessmentId: mongoose.Types.ObjectId,
+  result: Pick<OverallResult, "score" | "passed">,
+  jobTitle: string
+): NotificationInput {
+  return {
+    recipient: candidateId,
+    type: "result",
+    title: "Assessment results are available",
+    message: `You ${result.passed ? "passed" : "did not pass"} the assessment for ${jobTitle} with an overall score of ${Math.round(result.score)}%.`,
+    link: applicationLink(applicationId),
+    application: applicationId,
+    assessment: assessmentId,
+    dedupeKey: `result:${applicationId}`
+  };
+}
+
+/**
+ * Tells a candidate their overall assessment result. Only sent when the assessment publishes results.
+ */
+export async function notifyResult(
+  applicationId: mongoose.Types.ObjectId,
+  assessmentId: mongoose.Types.ObjectId,
+  result: Pick<OverallResult, "score" | "passed">
+): Promise<void> {
+  await notifySafely("assessment result", async () => {
+    const application = await ApplicationModel.findById(applicationId).select("candidateId jobId").lean();
+    if (!application) return [];
+
+    const jobTitle = await loadJobTitle(application.jobId);
+    return [resultNotification(applicationId, application.candidateId, assessmentId, result, jobTitle)];
+  });
+}
+
+/**
+ * Records that a candidate finished a round.
+ */
+export async function notifyRoundCompleted(
+  assessment: { _id: unknown; jobOpportunity?: mongoose.Types.ObjectId },
+  round: AssessmentRound,
+  candidateId: mongoose.Types.ObjectId
+): Promise<void> {
+  await notifySafely("completed round", async () => {
+    if (!assessment.jobOpportunity) return [];
+
+    const [application, jobTitle] = await Promise.all([
+      ApplicationModel.findOne({ candidateId, jobId: assessment.jobOpportunity }).select("_id").lean(),
+      loadJobTitle(assessment.jobOpportunity)
+    ]);
+    if (!application) return [];
+
+    return [{
+      recipient: candidateId,
+      type: "round-completed" as const,
+      title: `${ROUND_LABELS[round]} completed`,
+      message: `You completed the ${ROUND_LABELS[round]} of ${jobTitle}.`,
+      link: applicationLink(String(application._id)),
+      application: application._id as mongoose.Types.ObjectId,
+      assessment: assessment._id as mongoose.Types.ObjectId,
+      round,
+      dedupeKey: `round-completed:${application._id}:${round}`
+    }];
+  });
+}
+
+/**
+ * Tells every candidate who already finished the assessment their result, for when the employer
+ * turns on publishResults after candidates were evaluated.
+ */
+export async function notifyPublishedResults(
+  assessment: { _id: unknown; jobOpportunity?: mongoose.Types.ObjectId }
+): Promise<void> {
+  await notifySafely("published results", async () => {
+    if (!assessment.jobOpportunity) return [];
+
+    const [applications, jobTitle] = await Promise.all([
+      ApplicationModel.find({ jobId: assessment.jobOpportunity, "overallResult.evaluatedAt": { $exists: true } })
+        .select("candidateId overallResult")
+        .lean(),
+      loadJobTitle(assessment.jobOpportunity)
+    ]);
+
+    return applications.map(application => resultNotification(
+      application._id as mongoose.Types.ObjectId,
+      application.candidateId,
+      assessment._id as mongoose.Types.ObjectId,
+      application.overallResult!,
+      jobTitle
+    ));
+  });
+}
+
+/**
+ * Tells a candidate they were selected for the job.
+ */
+export async function notifySelected(applicationId: mongoose.Types.ObjectId): Promise<void> {
+  await notifySafely("selected candidate", async () => {
+    const application = await ApplicationModel.findById(applicationId).select("candidateId jobId").lean();
+    if (!application) return [];
+
+    const jobTitle = await loadJobTitle(application.jobId);
+    return [{
+      recipient: application.candidateId,
+      type: "result",
+      title: "You have been selected",
+      message: `Congratulations! You have been selected for ${jobTitle}. The hiring team will be in touch with next steps.`,
+      link: applicationLink(applicationId),
+      application: applicationId,
+      dedupeKey: `selected:${applicationId}`
+    }];
+  });
+}
@@ -0,0 +1,178 @@
+// Notification runner - background job that plans assessment reminders and emails due notifications
+//
+// - Each run reminds candidates shortlisted for a round that opens within Assessment.reminderTimings hours,
+//   for assessments with sendReminders on. A candidate shortlisted late only gets the most recent reminder
+//   that is already due, not every one they missed
+// - Reminders are keyed by the round's opening time, so rescheduling a round reminds candidates again
+// - Due notifications are emailed in batches; failed sends are retried on later runs up to MAX_EMAIL_ATTEMPTS
+// - Runs are triggered by POST /api/notifications/run with NOTIFICATION_RUNNER_SECRET as a bearer token, which
+//   `npm run notifications` does on an interval. Overlapping runs never email a notification twice
+//
+import mongoose from "mongoose";
+import AssessmentModel from "@/models/assesment.model";
+import ApplicationModel from "@/models/application.model";
+import CandidateModel from "@/models/candidate.model";
+import JobOpportunityModel from "@/models/jobOpportunity.model";
+import NotificationModel from "@/models/notification.model";
+import { connectToDatabase } from "@/utils/connectDb";
+import { logError } from "@/utils/action-helpers";
+import { sendMail } from "@/lib/mail/transport";
+import { notificationEmail } from "@/lib/mail/templates";
+import { ROUND_ID_FIELDS, getEnabledRounds } from "@/lib/assessment/overallResult";
+import { ROUND_MODELS } from "@/lib/assessment/progression";
+import { formatInTimezone, getRoundWindow, type RoundSchedule } from "@/lib/assessment/schedule";
+import { ROUND_LABELS, assessmentLink, createNotifications, type NotificationInput } from "./notify";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_EMAIL_ATTEMPTS = 5;
+const EMAIL_BATCH_SIZE = 100;
+
+export interface NotificationRunSummary {
+  remindersCreated: number;
+  emailsSent: number;
+  emailsFailed: number;
+}
+
+function formatHours(hours: number): string {
+  if (hours < 1) return `${Math.round(hours * 60)} minutes`;
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+/**
+ * The reminder timing to send now: the smallest one whose time has come, or null when none has.
+ */
+export function dueReminderTiming(timings: number[], opensAt: Date, now: Date): number | null {
+  const due = timings.filter(hours => hours > 0 && opensAt.getTime() - hours * HOUR_MS <= now.getTime());
+  return due.length ? Math.min(...due) : null;
+}
+
+/**
+ * Creates the reminders that are due for rounds opening soon.
+ */
+export async function planRoundReminders(now: Date = new Date()): Promise<number> {
+  const assessments = await AssessmentModel.find({
+    sendReminders: true,
+    status: { $nin: ["completed", "archived"] },
+    jobOpportunity: { $exists: true },
+    "reminderTimings.0": { $exists: true }
+  })
+    .select("jobOpportunity toConductRounds aptitudeId codingRoundId technicalInterviewId hrInterviewId assessmentStartDate assessmentEndDate timezone reminderTimings")
+    .lean();
+
+  let created = 0;
+  for (const assessment of assessments) {
+    const horizon = Math.max(...assessment.reminderTimings) * HOUR_MS;
+
+    for (const round of getEnabledRounds(assessment)) {
+      const roundDoc = await ROUND_MODELS[round].findById(assessment[ROUND_ID_FIELDS[round]])
+        .select("scheduledDate startTime endTime")
+        .lean<RoundSchedule>();
+      const { opensAt, timezone } = getRoundWindow(roundDoc, assessment);
+      if (!opensAt || opensAt <= now || opensAt.getTime() - now.getTime() > horizon) continue;
+
+      const hours = dueReminderTiming(assessment.reminderTimings, opensAt, now);
+      if (hours === null) continue;
+
+      const [applications, job] = await Promise.all([
+        ApplicationModel.find({
+          jobId: assessment.jobOpportunity,
+          [`rounds.${round}`]: "shortlisted",
+          status: { $nin: ["rejected", "withdrawn"] }
+        })
+          .select("candidateId")
+          .lean(),
+        JobOpportunityModel.findById(assessment.jobOpportunity).select("title").lean()
+      ]);
+
+      const reminders: NotificationInput[] = applications.map(application => ({
+        recipient: application.candidateId,
+        type: "reminder",
+        title: `${ROUND_LABELS[round]} starts in ${formatHours(hours)}`,
+        message: `Your ${ROUND_LABELS[round]} for ${job?.title || "your application"} opens on ${formatInTimezone(opensAt, timezone)}.`,
+        link: assessmentLink(String(assessment._id)),
+        application: application._id as mongoose.Types.ObjectId,
+        assessment: assessment._id as mongoose.Types.ObjectId,
+        round,
+        deliverAt: now,
+        dedupeKey: `reminder:${application._id}:${round}:${hours}:${opensAt.toISOString()}`
+      }));
+      created += await createNotifications(reminders);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Emails notifications that are due and not yet sent.
+ */
+export async function deliverNotificationEmails(now: Date = new Date()): Promise<Omit<NotificationRunSummary, "remindersCreated">> {
+  const notifications = await NotificationModel.find({ "email.status": "pending", deliverAt: { $lte: now } })
+    .sort({ deliverAt: 1 })
+    .limit(EMAIL_BATCH_SIZE)
+    .lean();
+
+  const candidates = await CandidateModel.find({ _id: { $in: notifications.map(n => n.recipient) } })
+    .select("firstName email")
+    .lean();
+  const candidateMap = new Map(candidates.map(c => [String(c._id), c]));
+
+  let emailsSent = 0;
+  let emailsFailed = 0;
+  for (const notification of notifications) {
+    const attempts = notification.email.attempts + 1;
+
+    // Claim the notification so an overlapping run skips it
+    const { modifiedCount } = await NotificationModel.updateOne(
+      { _id: notification._id, "email.status": "pending", "email.attempts": notification.email.attempts },
+      { $set: { "email.attempts": attempts } }
+    );
+    if (!modifiedCount) continue;
+
+    const candidate = candidateMap.get(String(notification.recipient));
+    if (!candidate?.email) {
+      await NotificationModel.updateOne({ _id: notification._id }, { $set: { "email.status": "skipped" } });
+      continue;
+    }
+
+    try {
+      await sendMail({
+        to: candidate.email,
+        ...notificationEmail(
+          notification.type,
+          candidate.firstName,
+          notification.title,
+          notification.message,
+          notification.link ? `${process.env.NEXTAUTH_URL || ""}${notification.link}` : undefined
+        )
+      });
+      await NotificationModel.updateOne(
+        { _id: notification._id },
+        { $set: { "email.status": "sent", "email.sentAt": new Date() }, $unset: { "email.lastError": "" } }
+      );
+      emailsSent++;
+    } catch (error: any) {
+      logError(`Failed to email notification ${notification._id}`, error);
+      await NotificationModel.updateOne(
+        { _id: notification._id },
+        {
+          $set: {
+            "email.lastError": String(error?.message || error),
+            ...(attempts >= MAX_EMAIL_ATTEMPTS ? { "email.status": "failed" } : {})
+          }
+        }
+      );
+      emailsFailed++;
+    }
+  }
+
+  return { emailsSent, emailsFailed };
+}
+
+export async function runNotificationJobs(now: Date = new Date()): Promise<NotificationRunSummary> {
+  await connectToDatabase();
+
+  const remindersCreated = await planRoundReminders(now);
+  const { emailsSent, emailsFailed } = await deliverNotificationEmails(now);
+  return { remindersCreated, emailsSent, emailsFailed };
+}
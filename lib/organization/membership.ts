@@ -0,0 +1,174 @@
+// Organization membership - employer accounts act on behalf of the organization they belong to
+//
+// - Jobs, assessments, the company profile and custom aptitude questions and coding problems belong to an
+//   organization; `employer` on those records only says which member created them
+// - Assessment rounds record the organization that created them; a round with no owner that no assessment uses
+//   is not visible to anyone
+// - Members are owners, recruiters or interviewers: interviewers can view hiring data, recruiters also manage
+//   jobs, assessments and candidates, and owners also manage the company profile and the team
+// - An employer without an organization gets a personal one the first time they act; records they created
+//   before organizations existed are moved into it
+// - Joining another organization moves the employer out of their current one. A personal organization they
+//   were the only member of is merged into the new one, so their postings come with them
+//
+import mongoose from "mongoose";
+import OrganizationModel, { type OrganizationRole } from "@/models/organization.model";
+import EmployerModel from "@/models/employer.model";
+import EmployerProfileModel from "@/models/employerProfile.model";
+import JobOpportunityModel from "@/models/jobOpportunity.model";
+import AssessmentModel from "@/models/assesment.model";
+import AptitudeQuestionModel from "@/models/aptitudeQuestion.model";
+import CodingProblemModel from "@/models/codingProblem.model";
+import { connectToDatabase } from "@/utils/connectDb";
+import { AuthorizationError } from "@/utils/action-helpers";
+import { requireRole } from "@/utils/auth-helpers";
+import { ROUND_ID_FIELDS, type AssessmentRound } from "@/lib/assessment/overallResult";
+import { ROUND_MODELS } from "@/lib/assessment/progression";
+
+export interface OrganizationContext {
+  userId: string;
+  organizationId: mongoose.Types.ObjectId;
+  role: OrganizationRole;
+}
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  interviewer: 0,
+  recruiter: 1,
+  owner: 2
+};
+
+// Records an organization owns; the profile is handled separately because each organization has one
+const OWNED_MODELS: mongoose.Model<any>[] = [
+  JobOpportunityModel,
+  AssessmentModel,
+  AptitudeQuestionModel,
+  CodingProblemModel
+];
+
+export function hasOrganizationRole(role: OrganizationRole, minimumRole: OrganizationRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+async function findMembership(user: mongoose.Types.ObjectId) {
+  const organization = await OrganizationModel.findOne({ "members.user": user }).select("members").lean();
+  const member = organization?.members.find(m => m.user.equals(user));
+  return organization && member ? { organizationId: organization._id as mongoose.Types.ObjectId, role: member.role } : null;
+}
+
+/**
+ * The employer's organization and role, creating a personal organization when they have none.
+ */
+export async function ensureOrganization(userId: string): Promise<Omit<OrganizationContext, "userId">> {
+  const user = new mongoose.Types.ObjectId(userId);
+  const existing = await findMembership(user);
+  if (existing) return existing;
+
+  const [employer, profile] = await Promise.all([
+    EmployerModel.findById(user).select("firstName lastName").lean(),
+    EmployerProfileModel.findOne({ employer: user, organization: { $exists: false } }).select("companyName").lean()
+  ]);
+
+  let organizationId: mongoose.Types.ObjectId;
+  try {
+    const organization = await OrganizationModel.create({
+      name: profile?.companyName || [employer?.firstName, employer?.lastName].filter(Boolean).join(" "),
+      members: [{ user, role: "owner" }]
+    });
+    organizationId = organization._id as mongoose.Types.ObjectId;
+  } catch (error: any) {
+    // A parallel request created the organization first
+    if (error?.code === 11000) {
+      const created = await findMembership(user);
+      if (created) return created;
+    }
+    throw error;
+  }
+
+  const unassigned = { employer: user, organization: { $exists: false } };
+  await Promise.all([
+    ...OWNED_MODELS.map(model => model.updateMany(unassigned, { $set: { organization: organizationId } })),
+    EmployerProfileModel.updateOne(unassigned, { $set: { organization: organizationId } })
+  ]);
+
+  return { organizationId, role: "owner" };
+}
+
+/**
+ * Resolves the signed-in employer's organization and checks their role in it.
+ * Throws an AuthorizationError, which safeAction turns into a 401 or 403 response.
+ */
+export async function requireOrganization(minimumRole: OrganizationRole = "interviewer"): Promise<OrganizationContext> {
+  const userId = await requireRole("employer");
+  await connectToDatabase();
+
+  const { organizationId, role } = await ensureOrganization(userId);
+  if (!hasOrganizationRole(role, minimumRole)) {
+    throw new AuthorizationError(403, `Forbidden - This action requires the ${minimumRole} role in your organization`);
+  }
+
+  return { userId, organizationId, role };
+}
+
+/**
+ * Rejects access to a round that belongs to another organization. Rounds record the organization that created
+ * them; older rounds without one are checked through the assessment that uses them, and are denied when no
+ * assessment does.
+ */
+export async function assertRoundInOrganization(
+  round: AssessmentRound,
+  roundId: string,
+  organizationId: mongoose.Types.ObjectId
+): Promise<void> {
+  const roundDoc = await ROUND_MODELS[round].findById(roundId).select("organization").lean<{
+    organization?: mongoose.Types.ObjectId;
+  }>();
+  // A missing round is reported as not found by the caller
+  if (!roundDoc) return;
+
+  const owner = roundDoc.organization ?? (
+    await AssessmentModel.findOne({ [ROUND_ID_FIELDS[round]]: roundId }).select("organization").lean()
+  )?.organization;
+  if (!owner?.equals(organizationId)) {
+    throw new AuthorizationError(403, "Forbidden - This round belongs to another organization");
+  }
+}
+
+/**
+ * Moves the employer into the organization with the given role.
+ */
+export async function joinOrganization(
+  userId: string,
+  organizationId: mongoose.Types.ObjectId,
+  role: OrganizationRole
+): Promise<void> {
+  const user = new mongoose.Types.ObjectId(userId);
+  const current = await OrganizationModel.findOne({ "members.user": user }).select("members").lean();
+
+  if (current && organizationId.equals(current._id as mongoose.Types.ObjectId)) {
+    throw new Error("You are already a member of this organization");
+  }
+
+  if (current) {
+    const others = current.members.filter(m => !m.user.equals(user));
+    if (others.length === 0) {
+      await Promise.all([
+        ...OWNED_MODELS.map(model =>
+          model.updateMany({ organization: current._id }, { $set: { organization: organizationId } })
+        ),
+        EmployerProfileModel.deleteOne({ organization: current._id })
+      ]);
+      await OrganizationModel.deleteOne({ _id: current._id });
+    } else {
+      const isOwner = current.members.some(m => m.user.equals(user) && m.role === "owner");
+      if (isOwner && !others.some(m => m.role === "owner")) {
+        throw new Error("Make another member an owner of your current organization before joining a new one");
+      }
+      await OrganizationModel.updateOne({ _id: current._id }, { $pull: { members: { user } } });
+    }
+  }
+
+  await OrganizationModel.updateOne(
+    { _id: organizationId },
+    { $push: { members: { user, role, joinedAt: new Date() } } }
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+// Proctoring stream - sends what the browser's detectors see to the server as proctoring events
+//
+// - Events are queued in the order they happen and uploaded in batches to /api/proctoring/events
+// - Violations are uploaded right away; everything else waits for the next FLUSH_INTERVAL_MS tick. Every
+//   tick uploads, even with nothing queued, so the server knows the stream is alive
+// - Uploads that fail stay queued and are retried, and the server stores a retried event once
+// - onUpload receives the server's counts after each upload, and onTerminated runs once when the server
+//   reports that the session was terminated
+//
+import {
+  MAX_EVENTS_PER_UPLOAD,
+  type ProctoringCredentials,
+  type ProctoringEventInput,
+  type ProctoringEventType,
+  type ProctoringUploadResult
+} from "./protocol";
+
+const FLUSH_INTERVAL_MS = 5 * 1000;
+
+export interface ProctoringDetection {
+  type: ProctoringEventType;
+  mood?: string;
+  gesture?: string;
+  objects?: string[];
+}
+
+export interface ProctoringStream {
+  report: (detection: ProctoringDetection) => void;
+  flush: () => Promise<void>;
+  close: () => void;
+}
+
+interface ProctoringStreamOptions {
+  // Opens the session on the server; resolves to null while the round has not been started
+  start: () => Promise<ProctoringCredentials | null>;
+  onUpload?: (result: ProctoringUploadResult) => void;
+  onTerminated?: () => void;
+}
+
+export function createProctoringStream({ start, onUpload, onTerminated }: ProctoringStreamOptions): ProctoringStream {
+  const queue: ProctoringEventInput[] = [];
+  let seq = 0;
+  let session: ProctoringCredentials | null = null;
+  let uploading = false;
+  let terminated = false;
+  let closed = false;
+
+  const openSession = async () => {
+    if (!session) session = await start();
+    return session;
+  };
+
+  // Heartbeats upload even when nothing is queued
+  const upload = async ({ keepalive = false, heartbeat = false } = {}) => {
+    if (uploading || (queue.length === 0 && !heartbeat)) return;
+    uploading = true;
+    try {
+      const current = await openSession();
+      if (!current) return;
+
+      const batch = queue.slice(0, MAX_EVENTS_PER_UPLOAD);
+      const response = await fetch("/api/proctoring/events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: current.token, events: batch }),
+        keepalive
+      });
+
+      if (response.status === 403) {
+        // The session was replaced (e.g. the evaluation restarted); open the new one on the next upload
+        session = null;
+        return;
+      }
+      if (!response.ok) return;
+
+      queue.splice(0, batch.length);
+      const { data } = (await response.json()) as { data?: ProctoringUploadResult };
+      if (data) onUpload?.(data);
+      if (data?.terminated && !terminated) {
+        terminated = true;
+        onTerminated?.();
+      }
+    } catch (error) {
+      console.error("[Proctoring] Failed to upload events:", error);
+    } finally {
+      uploading = false;
+    }
+  };
+
+  const interval = setInterval(() => upload({ heartbeat: true }), FLUSH_INTERVAL_MS);
+  const handlePageHide = () => upload({ keepalive: true });
+  window.addEventListener("pagehide", handlePageHide);
+
+  return {
+    report: (detection) => {
+      if (closed) return;
+      queue.push({
+        id: crypto.randomUUID(),
+        seq: seq++,
+        type: detection.type,
+        mood: detection.mood,
+        gesture: detection.gesture,
+        objects: detection.objects,
+        occurredAt: new Date().toISOString()
+      });
+      if (detection.type !== "mood") upload();
+    },
+    flush: () => upload(),
+    close: () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(interval);
+      window.removeEventListener("pagehide", handlePageHide);
+      upload({ keepalive: true });
+    }
+  };
+}
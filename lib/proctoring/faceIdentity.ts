@@ -0,0 +1,99 @@
+"use client";
+
+// Face identity - the browser side of identity verification (see ./identity)
+//
+// - Computes face-api.js descriptors with the models in /public/face-api, loaded once per page
+// - The system check enrols a descriptor of the candidate's face, optionally with one of their profile photo
+// - During a round, startFaceVerification sends a descriptor every VERIFY_INTERVAL_MS from its own camera
+//   stream. Frames without a face are skipped; the video detectors report those
+//
+import * as faceapi from "face-api.js";
+
+const MODELS_URL = "/face-api/";
+const VERIFY_INTERVAL_MS = 60 * 1000;
+
+let modelsLoaded: Promise<void> | null = null;
+
+export function loadFaceModels(): Promise<void> {
+  modelsLoaded ??= Promise.all([
+    faceapi.nets.tinyFaceDetector.loadFromUri(MODELS_URL),
+    faceapi.nets.faceLandmark68Net.loadFromUri(MODELS_URL),
+    faceapi.nets.faceRecognitionNet.loadFromUri(MODELS_URL)
+  ]).then(() => undefined).catch(error => {
+    modelsLoaded = null;
+    throw error;
+  });
+  return modelsLoaded;
+}
+
+/**
+ * The descriptor of the most prominent face in a video frame or image, or null when there is no face.
+ */
+export async function getFaceDescriptor(input: HTMLVideoElement | HTMLImageElement): Promise<number[] | null> {
+  await loadFaceModels();
+  const detection = await faceapi
+    .detectSingleFace(input, new faceapi.TinyFaceDetectorOptions())
+    .withFaceLandmarks()
+    .withFaceDescriptor();
+  return detection ? Array.from(detection.descriptor) : null;
+}
+
+/**
+ * The descriptor of the face in a photo, or null when it has no face or cannot be loaded (e.g. no CORS access).
+ */
+export async function getPhotoDescriptor(url: string): Promise<number[] | null> {
+  try {
+    return await getFaceDescriptor(await faceapi.fetchImage(url));
+  } catch (error) {
+    console.warn("[FaceIdentity] Could not read the photo:", error);
+    return null;
+  }
+}
+
+/**
+ * Re-verifies the candidate's face periodically until the returned function is called.
+ */
+export function startFaceVerification(verify: (descriptor: number[]) => Promise<unknown>): () => void {
+  let stopped = false;
+  let stream: MediaStream | null = null;
+  let interval: ReturnType<typeof setInterval> | undefined;
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+
+  const check = async () => {
+    if (stopped || video.readyState < 2) return;
+    try {
+      const descriptor = await getFaceDescriptor(video);
+      if (descriptor && !stopped) await verify(descriptor);
+    } catch (error) {
+      console.warn("[FaceIdentity] Verification failed:", error);
+    }
+  };
+
+  const start = async () => {
+    try {
+      await loadFaceModels();
+      const camera = await navigator.mediaDevices.getUserMedia({ video: true });
+      if (stopped) {
+        camera.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = camera;
+      video.srcObject = camera;
+      await video.play();
+      check();
+      interval = setInterval(check, VERIFY_INTERVAL_MS);
+    } catch (error) {
+      console.warn("[FaceIdentity] Could not start verification:", error);
+    }
+  };
+  start();
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+    stream?.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  };
+}
@@ -0,0 +1,120 @@
+// Identity verification - checks that the person taking a round is the candidate enrolled at the system check
+//
+// - Faces are compared as face-api.js descriptors (FACE_DESCRIPTOR_LENGTH numbers) by euclidean distance. The
+//   browser computes the descriptors; the server keeps the enrolled one and computes every distance itself
+// - Faces further apart than faceMatchThreshold() are different people. FACE_MATCH_THRESHOLD overrides the
+//   default of 0.6, the distance face-api.js recommends
+// - Enrolment may also be compared with the candidate's profile photo; the distance is kept for the employer
+// - Re-verifications that do not match are raised as "identity" proctoring flags on the round's evaluation,
+//   at most once per IDENTITY_FLAG_COOLDOWN_MS so a sustained mismatch does not flood the evaluation
+//
+import mongoose from "mongoose";
+import CandidateModel from "@/models/candidate.model";
+import type { AssessmentRound } from "@/lib/assessment/overallResult";
+import { findCurrentEvaluation } from "./session";
+
+export const FACE_DESCRIPTOR_LENGTH = 128;
+const DEFAULT_FACE_MATCH_THRESHOLD = 0.6;
+const IDENTITY_FLAG_COOLDOWN_MS = 2 * 60 * 1000;
+
+export interface FaceEnrolmentResult {
+  // Unset when there was no profile photo to compare with, or no face was found in it
+  profilePhotoMatched?: boolean;
+}
+
+export interface IdentityCheckResult {
+  enrolled: boolean;
+  matched: boolean;
+  distance?: number;
+}
+
+export function faceMatchThreshold(): number {
+  const threshold = Number(process.env.FACE_MATCH_THRESHOLD);
+  return threshold > 0 ? threshold : DEFAULT_FACE_MATCH_THRESHOLD;
+}
+
+export function isFaceDescriptor(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === FACE_DESCRIPTOR_LENGTH &&
+    value.every(component => typeof component === "number" && Number.isFinite(component))
+  );
+}
+
+export function faceDistance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, component, i) => sum + (component - b[i]) ** 2, 0));
+}
+
+/**
+ * Enrols the candidate's face, replacing any earlier enrolment.
+ */
+export async function enrolCandidateFace(
+  candidateId: string,
+  descriptor: number[],
+  profilePhotoDescriptor?: number[] | null
+): Promise<FaceEnrolmentResult> {
+  const profilePhotoDistance = profilePhotoDescriptor ? faceDistance(descriptor, profilePhotoDescriptor) : undefined;
+
+  await CandidateModel.updateOne(
+    { _id: candidateId },
+    { $set: { faceIdentity: { descriptor, enrolledAt: new Date(), profilePhotoDistance } } }
+  );
+
+  return {
+    profilePhotoMatched: profilePhotoDistance === undefined ? undefined : profilePhotoDistance <= faceMatchThreshold()
+  };
+}
+
+async function flagIdentity(
+  evaluation: { model: mongoose.Model<any>; id: mongoose.Types.ObjectId },
+  severity: "medium" | "high",
+  message: string
+): Promise<void> {
+  const now = new Date();
+  await evaluation.model.updateOne(
+    {
+      _id: evaluation.id,
+      flags: {
+        $not: {
+          $elemMatch: { type: "identity", createdAt: { $gt: new Date(now.getTime() - IDENTITY_FLAG_COOLDOWN_MS) } }
+        }
+      }
+    },
+    { $push: { flags: { type: "identity", severity, message, createdAt: now } } }
+  );
+}
+
+/**
+ * Compares a face seen during a round with the candidate's enrolled face, flagging the candidate's current
+ * evaluation of the round when it does not match. Returns null when the round has not been started.
+ */
+export async function verifyCandidateFace(
+  round: AssessmentRound,
+  roundId: string,
+  candidateId: string,
+  descriptor: number[]
+): Promise<IdentityCheckResult | null> {
+  const evaluation = await findCurrentEvaluation(round, roundId, candidateId);
+  if (!evaluation) return null;
+
+  const candidate = await CandidateModel.findById(candidateId)
+    .select("+faceIdentity")
+    .lean<{ faceIdentity?: { descriptor: number[] } }>();
+  const enrolled = candidate?.faceIdentity?.descriptor;
+
+  if (!enrolled || !isFaceDescriptor(enrolled)) {
+    await flagIdentity(evaluation, "medium", "Identity not verified: no face was enrolled at the system check");
+    return { enrolled: false, matched: false };
+  }
+
+  const distance = faceDistance(enrolled, descriptor);
+  const matched = distance <= faceMatchThreshold();
+  if (!matched) {
+    await flagIdentity(
+      evaluation,
+      "high",
+      `Possible impersonation: face does not match the enrolled candidate (distance ${distance.toFixed(2)})`
+    );
+  }
+  return { enrolled: true, matched, distance };
+}
@@ -0,0 +1,107 @@
+// Proctoring event log - the tamper-evident record of a proctoring session that employers review
+//
+// - Every stored event carries a hash over its content, the time the server received it, the server's
+//   classification and the previous event's hash, so the log forms a chain per session
+// - An event is stored before it is counted, so a retried upload finds it and never counts it twice.
+//   Whether it counted is recorded afterwards and is not part of the hash
+// - The hash is an HMAC keyed with the proctoring secret, so only the server can produce a valid chain
+// - Editing, reordering or deleting a stored event breaks the chain from that event on, which
+//   verifyEventChain reports
+//
+import mongoose from "mongoose";
+import ProctoringSessionModel from "@/models/proctoringSession.model";
+import ProctoringEventModel, { type ProctoringEventType } from "@/models/proctoringEvent.model";
+import type { AssessmentRound } from "@/lib/assessment/overallResult";
+import { canonicalEvent } from "./protocol";
+import { hmac, proctoringSecret } from "./secret";
+
+export interface ChainedEventFields {
+  clientEventId: string;
+  seq: number;
+  type: ProctoringEventType;
+  mood?: string;
+  gesture?: string;
+  objects?: string[];
+  occurredAt: Date;
+  receivedAt: Date;
+  violation?: string;
+}
+
+export interface ProctoringLogEntry {
+  id: string;
+  type: ProctoringEventType;
+  occurredAt: string;
+  receivedAt: string;
+  violation?: string;
+  counted: boolean;
+  mood?: string;
+  gesture?: string;
+  objects: string[];
+}
+
+export interface ProctoringLog {
+  intact: boolean; // false when the stored chain does not verify
+  terminatedAt?: string;
+  events: ProctoringLogEntry[];
+}
+
+/**
+ * The hash of an event that follows the event hashed as previousHash (null for the first event).
+ */
+export function chainHash(previousHash: string | null, event: ChainedEventFields): string {
+  const content = canonicalEvent({
+    id: event.clientEventId,
+    seq: event.seq,
+    type: event.type,
+    mood: event.mood ?? undefined,
+    gesture: event.gesture ?? undefined,
+    objects: event.objects,
+    occurredAt: event.occurredAt.toISOString()
+  });
+  return hmac(
+    proctoringSecret(),
+    JSON.stringify([previousHash, content, event.receivedAt.toISOString(), event.violation ?? null])
+  );
+}
+
+/**
+ * Whether events, in log order, form an unbroken chain starting at the first event of the session.
+ */
+export function verifyEventChain(events: (ChainedEventFields & { index: number; hash: string })[]): boolean {
+  let previousHash: string | null = null;
+  return events.every((event, position) => {
+    const valid = event.index === position && event.hash === chainHash(previousHash, event);
+    previousHash = event.hash;
+    return valid;
+  });
+}
+
+/**
+ * The event log of the proctoring session for an evaluation, or undefined when the round was not proctored.
+ */
+export async function loadProctoringLog(
+  round: AssessmentRound,
+  evaluationId: mongoose.Types.ObjectId | string
+): Promise<ProctoringLog | undefined> {
+  const session = await ProctoringSessionModel.findOne({ round, evaluation: evaluationId })
+    .select("terminatedAt")
+    .lean();
+  if (!session) return undefined;
+
+  const events = await ProctoringEventModel.find({ session: session._id }).sort({ index: 1 }).lean();
+  return {
+    intact: verifyEventChain(events),
+    terminatedAt: session.terminatedAt?.toISOString(),
+    events: events.map(event => ({
+      id: String(event._id),
+      type: event.type,
+      occurredAt: event.occurredAt.toISOString(),
+      receivedAt: event.receivedAt.toISOString(),
+      violation: event.violation,
+      counted: event.counted,
+      mood: event.mood,
+      gesture: event.gesture,
+      objects: event.objects || []
+    }))
+  };
+}
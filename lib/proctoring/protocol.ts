@@ -0,0 +1,66 @@
+// Proctoring protocol - the event format shared by the browser stream and the proctoring API
+//
+// - The browser reports what its detectors saw; the server decides what counts as a violation
+// - Uploads are authenticated by the session token. The browser holds no key, so it signs nothing; the
+//   server's hash-chained log is what makes stored events tamper-evident
+// - Events carry a per-session id and sequence number, so retried uploads are stored once and in order
+// - The browser uploads at least every few seconds, even with nothing to report. The server records a
+//   missed heartbeat when uploads stop
+// - Interviews report video detections and screen sharing being stopped; aptitude and coding rounds
+//   report warnings (tab switches, fullscreen exits, audio), which count against the round's warning limits
+//
+export type ProctoringEventType =
+  | "mood"
+  | "violation"
+  | "person-changed"
+  | "tab-switch"
+  | "fullscreen-exit"
+  | "audio"
+  | "screen-share-stopped"
+  | "heartbeat-missed"; // recorded by the server, never accepted from the browser
+
+// Keys of a round's `warnings` limits
+export type WarningKind = "tabSwitch" | "fullscreen" | "audio";
+
+export interface ProctoringEventInput {
+  id: string;
+  seq: number;
+  type: ProctoringEventType;
+  mood?: string;
+  gesture?: string;
+  objects?: string[];
+  occurredAt: string; // ISO timestamp from the browser clock
+}
+
+export interface ProctoringCredentials {
+  token: string; // identifies the session to the API
+}
+
+export interface ProctoringUploadResult {
+  accepted: number;
+  violationCount: number;
+  warnings?: Record<WarningKind, number>; // aptitude and coding rounds only
+  terminated: boolean;
+  terminationReason?: string;
+}
+
+// Violations that end an interview (Queue 0)
+export const VIOLATION_LIMIT = 3;
+
+export const MAX_EVENTS_PER_UPLOAD = 50;
+
+/**
+ * The canonical form of an event's content hashed into the log, so field order and missing values never
+ * change a hash.
+ */
+export function canonicalEvent(event: ProctoringEventInput): string {
+  return JSON.stringify([
+    event.id,
+    event.seq,
+    event.type,
+    event.mood ?? null,
+    event.gesture ?? null,
+    event.objects ?? [],
+    event.occurredAt
+  ]);
+}
@@ -0,0 +1,210 @@
+// Proctoring review - the timeline employers review for a candidate's round, and their decisions on it
+//
+// - The timeline merges the session's event log (violations, warnings and mood changes) with the flags raised
+//   on the evaluation (terminations, identity mismatches). Rounds proctored before the event log existed
+//   fall back to the evaluation's videoLogs
+// - Counted violations are high severity and counted warnings medium; what the server did not count is low.
+//   Flags keep their own severity
+// - Interview items link to the recording at the moment they happened and to the nearest screen capture
+// - Items are dismissed as false positives or confirmed. Decisions are stored apart from the event log, so
+//   reviewing never touches its hash chain
+//
+import mongoose from "mongoose";
+import ProctoringReviewModel, { type ProctoringReview } from "@/models/proctoringReview.model";
+import type { AssessmentRound } from "@/lib/assessment/overallResult";
+import { loadProctoringLog } from "./log";
+import { isWarningEvent } from "./session";
+import type { ProctoringEventType } from "./protocol";
+
+// Screen captures are taken every minute, so the nearest one is at most this far from an item
+const SNAPSHOT_WINDOW_MS = 60 * 1000;
+
+export type ProctoringSeverity = "low" | "medium" | "high";
+export type ProctoringDecision = ProctoringReview["decision"];
+
+export interface ProctoringTimelineItem {
+  id: string; // "event:<id>", "flag:<id>" or "log:<id>"
+  kind: "violation" | "warning" | "mood" | "flag";
+  severity: ProctoringSeverity;
+  occurredAt: string;
+  title: string;
+  detail?: string;
+  recordingOffset?: number; // seconds into the interview recording
+  snapshotUrl?: string;
+  review?: {
+    decision: ProctoringDecision;
+    note?: string;
+    reviewedAt: string;
+  };
+}
+
+export interface ProctoringTimeline {
+  logIntact?: boolean; // unset when the round has no event log
+  terminatedAt?: string;
+  recordingUrl?: string;
+  items: ProctoringTimelineItem[];
+}
+
+// The evaluation fields the timeline is built from; exam rounds only have flags
+export interface ReviewedEvaluation {
+  _id: mongoose.Types.ObjectId;
+  flags?: { _id?: mongoose.Types.ObjectId; type: string; severity: string; message: string; createdAt: Date }[];
+  videoLogs?: {
+    _id?: mongoose.Types.ObjectId;
+    timestamp: Date;
+    mood?: string;
+    gesture?: string;
+    objects?: string[];
+    violationType?: string;
+  }[];
+  videoUrl?: string;
+  startedAt?: Date;
+  screenCaptures?: { url: string; capturedAt: Date }[];
+}
+
+interface Detection {
+  id: string;
+  type?: ProctoringEventType;
+  occurredAt: Date;
+  mood?: string;
+  gesture?: string;
+  objects?: string[];
+  violation?: string;
+  counted?: boolean;
+}
+
+function describeDetection(detection: Detection): string | undefined {
+  const parts = [
+    detection.gesture && `Gesture: ${detection.gesture}`,
+    detection.objects?.length && `Detected: ${detection.objects.join(", ")}`
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : undefined;
+}
+
+/**
+ * Violations, warnings and mood changes, in the order they happened. Repeated moods are left out.
+ */
+function detectionItems(detections: Detection[]): ProctoringTimelineItem[] {
+  const items: ProctoringTimelineItem[] = [];
+  let mood = "neutral";
+
+  for (const detection of detections) {
+    const occurredAt = detection.occurredAt.toISOString();
+    if (detection.violation) {
+      const kind = detection.type && isWarningEvent(detection.type) ? "warning" : "violation";
+      items.push({
+        id: detection.id,
+        kind,
+        severity: !detection.counted ? "low" : kind === "violation" ? "high" : "medium",
+        occurredAt,
+        title: detection.violation,
+        detail: describeDetection(detection)
+      });
+    } else if (detection.mood && detection.mood !== mood) {
+      mood = detection.mood;
+      items.push({ id: detection.id, kind: "mood", severity: "low", occurredAt, title: `Mood changed to ${mood}` });
+    }
+  }
+  return items;
+}
+
+function nearestCapture(captures: { url: string; capturedAt: Date }[], time: number): string | undefined {
+  let nearest: { url: string; distance: number } | undefined;
+  for (const capture of captures) {
+    const distance = Math.abs(new Date(capture.capturedAt).getTime() - time);
+    if (distance <= SNAPSHOT_WINDOW_MS && (!nearest || distance < nearest.distance)) {
+      nearest = { url: capture.url, distance };
+    }
+  }
+  return nearest?.url;
+}
+
+/**
+ * The review timeline of a candidate's evaluation of a round, with the employer's decisions so far.
+ */
+export async function loadProctoringTimeline(
+  round: AssessmentRound,
+  evaluation: ReviewedEvaluation
+): Promise<ProctoringTimeline> {
+  const [log, reviews] = await Promise.all([
+    loadProctoringLog(round, evaluation._id),
+    ProctoringReviewModel.find({ round, evaluation: evaluation._id }).lean()
+  ]);
+
+  // Interview videoLogs mirror the event log, so they are only read for rounds without one
+  const detections: Detection[] = log
+    ? log.events.map(event => ({
+        id: `event:${event.id}`,
+        type: event.type,
+        occurredAt: new Date(event.occurredAt),
+        mood: event.type === "mood" ? event.mood : undefined,
+        gesture: event.gesture,
+        objects: event.objects,
+        violation: event.violation,
+        counted: event.counted
+      }))
+    : (evaluation.videoLogs || []).map((videoLog, index) => ({
+        id: `log:${videoLog._id ?? index}`,
+        occurredAt: new Date(videoLog.timestamp),
+        mood: videoLog.violationType ? undefined : videoLog.mood,
+        gesture: videoLog.gesture,
+        objects: videoLog.objects,
+        violation: videoLog.violationType,
+        counted: true
+      }));
+
+  const flagItems: ProctoringTimelineItem[] = (evaluation.flags || []).map((flag, index) => ({
+    id: `flag:${flag._id ?? index}`,
+    kind: "flag",
+    severity: (["low", "medium", "high"].includes(flag.severity) ? flag.severity : "medium") as ProctoringSeverity,
+    occurredAt: new Date(flag.createdAt).toISOString(),
+    title: flag.message,
+    detail: flag.type
+  }));
+
+  const startedAt = evaluation.startedAt ? new Date(evaluation.startedAt).getTime() : undefined;
+  const reviewsByItem = new Map(reviews.map(review => [review.item, review]));
+
+  const items = [...detectionItems(detections), ...flagItems]
+    .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt))
+    .map(item => {
+      const time = new Date(item.occurredAt).getTime();
+      const review = reviewsByItem.get(item.id);
+      return {
+        ...item,
+        recordingOffset: evaluation.videoUrl && startedAt !== undefined
+          ? Math.max(0, Math.round((time - startedAt) / 1000))
+          : undefined,
+        snapshotUrl: evaluation.screenCaptures ? nearestCapture(evaluation.screenCaptures, time) : undefined,
+        review: review
+          ? { decision: review.decision, note: review.note, reviewedAt: review.reviewedAt.toISOString() }
+          : undefined
+      };
+    });
+
+  return {
+    logIntact: log?.intact,
+    terminatedAt: log?.terminatedAt,
+    recordingUrl: evaluation.videoUrl,
+    items
+  };
+}
+
+/**
+ * Records the employer's decision on a timeline item, replacing an earlier decision on it.
+ */
+export async function recordProctoringReview(
+  round: AssessmentRound,
+  evaluationId: mongoose.Types.ObjectId,
+  item: string,
+  decision: ProctoringDecision,
+  reviewerId: string,
+  note?: string
+): Promise<void> {
+  const decided = { round, decision, reviewedBy: reviewerId, reviewedAt: new Date() };
+  await ProctoringReviewModel.updateOne(
+    { evaluation: evaluationId, item },
+    note ? { $set: { ...decided, note } } : { $set: decided, $unset: { note: 1 } },
+    { upsert: true }
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+// Screen share - the candidate's shared screen during proctored interviews
+//
+// - Only a share of the entire screen is accepted; window and tab shares are stopped and rejected
+// - While the share runs, a low-resolution JPEG is captured when it starts and every CAPTURE_INTERVAL_MS
+// - onEnded runs once when the share stops (the browser's "Stop sharing" button or the track ending)
+//
+const CAPTURE_INTERVAL_MS = 60 * 1000;
+const CAPTURE_MAX_WIDTH = 640;
+const CAPTURE_QUALITY = 0.5;
+
+export class ScreenShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScreenShareError";
+  }
+}
+
+/**
+ * Asks the candidate to share their entire screen. Throws ScreenShareError when they decline or
+ * share only a window or tab.
+ */
+export async function requestEntireScreen(): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new ScreenShareError("Screen sharing is not supported in this browser");
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({
+      video: { displaySurface: "monitor" },
+      audio: false
+    });
+  } catch {
+    throw new ScreenShareError("Screen sharing is required to start the interview");
+  }
+
+  // Browsers that do not report the shared surface cannot prove it is the entire screen
+  const [track] = stream.getVideoTracks();
+  const surface = track?.getSettings().displaySurface;
+  if (surface !== "monitor") {
+    stream.getTracks().forEach(t => t.stop());
+    throw new ScreenShareError("Please share your entire screen, not a window or browser tab");
+  }
+  return stream;
+}
+
+export function isScreenShareActive(stream: MediaStream | null): boolean {
+  return Boolean(stream?.getVideoTracks().some(track => track.readyState === "live"));
+}
+
+interface ScreenCaptureOptions {
+  onCapture: (image: Blob) => void;
+  onEnded: () => void;
+}
+
+/**
+ * Captures the shared screen periodically until the returned function is called or the share ends.
+ */
+export function startScreenCapture(stream: MediaStream, { onCapture, onEnded }: ScreenCaptureOptions): () => void {
+  const [track] = stream.getVideoTracks();
+  const video = document.createElement("video");
+  video.muted = true;
+  video.srcObject = stream;
+  video.play().catch(error => console.warn("[ScreenShare] Failed to play the shared screen:", error));
+
+  const capture = () => {
+    if (!video.videoWidth) return;
+    const scale = Math.min(1, CAPTURE_MAX_WIDTH / video.videoWidth);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(image => image && onCapture(image), "image/jpeg", CAPTURE_QUALITY);
+  };
+
+  let stopped = false;
+  video.addEventListener("loadeddata", capture, { once: true });
+  const interval = setInterval(capture, CAPTURE_INTERVAL_MS);
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(interval);
+    track?.removeEventListener("ended", handleEnded);
+    video.removeEventListener("loadeddata", capture);
+    video.srcObject = null;
+  };
+  const handleEnded = () => {
+    stop();
+    onEnded();
+  };
+
+  if (!track || track.readyState === "ended") {
+    handleEnded();
+  } else {
+    track.addEventListener("ended", handleEnded);
+  }
+  return stop;
+}
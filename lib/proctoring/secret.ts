@@ -0,0 +1,15 @@
+// Proctoring secret - the server-only key behind session tokens and the event log's chain hashes
+//
+// - PROCTORING_SECRET, or NEXTAUTH_SECRET when unset. It never leaves the server
+//
+import { createHmac } from "crypto";
+
+export function proctoringSecret(): string {
+  const secret = process.env.PROCTORING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("PROCTORING_SECRET is not configured");
+  return secret;
+}
+
+export function hmac(key: string, value: string): string {
+  return createHmac("sha256", key).update(value).digest("hex");
+}
@@ -0,0 +1,584 @@
+// Proctoring sessions - server-side record of what the browser's proctoring detectors saw during a round
+//
+// - A session belongs to one evaluation document, so a retake gets a fresh session and a fresh count. The
+//   server opens it when it creates the evaluation; the browser only fetches its token
+// - The session token is an HMAC of the session ID with the proctoring secret, so it is not stored. It is
+//   all the browser receives
+// - Each event is stored once, with the browser's timestamp and the time the server received it. Events with
+//   an implausible timestamp are dropped. Storing it claims it under its client ID, and only the upload that
+//   stored it counts it, so retried and concurrent uploads never count an event twice
+// - Every upload is a heartbeat. When none arrives for HEARTBEAT_TIMEOUT_MS the server records a missed
+//   heartbeat, which counts as a violation in interviews and as a tab switch warning in aptitude and coding
+//   rounds. Uploads, status checks and the round's answer actions all run the check, so it fires even once
+//   the browser stops sending
+// - The server classifies events itself. In interviews a violation counts at most once per
+//   VIOLATION_COOLDOWN_MS, and the session is terminated when the count reaches VIOLATION_LIMIT
+// - In aptitude and coding rounds each warning counts on the TestResult/CodingEvaluation against the
+//   round's `warnings` limits. Exceeding a limit terminates the test; the submit actions finish it
+// - Events are appended to a hash-chained log (see ./log). Interview events are also mirrored into the
+//   evaluation's videoLogs
+// - The round's answer, submission and upload actions reject the candidate once the session is terminated,
+//   and when there is no session at all (see checkProctoringSession)
+//
+import { timingSafeEqual } from "crypto";
+import mongoose from "mongoose";
+import ProctoringSessionModel, { type ProctoringSession } from "@/models/proctoringSession.model";
+import ProctoringEventModel, { type ProctoringEvent } from "@/models/proctoringEvent.model";
+import TechnicalInterviewEvaluationModel from "@/models/technicalInterviewEvaluation.model";
+import HRInterviewEvaluationModel from "@/models/hrInterviewEvaluation.model";
+import TestResultModel from "@/models/aptitudeEvaluation.model";
+import CodingEvaluationModel from "@/models/codingEvaluation.model";
+import AptitudeModel from "@/models/aptitude.model";
+import CodingModel from "@/models/coding.model";
+import { AuthorizationError } from "@/utils/action-helpers";
+import type { AssessmentRound } from "@/lib/assessment/overallResult";
+import {
+  VIOLATION_LIMIT,
+  type ProctoringCredentials,
+  type ProctoringEventInput,
+  type ProctoringEventType,
+  type ProctoringUploadResult,
+  type WarningKind
+} from "./protocol";
+import { chainHash } from "./log";
+import { hmac, proctoringSecret } from "./secret";
+
+export const VIOLATION_COOLDOWN_MS = 5 * 1000;
+// How far the browser clock may run ahead of the server, and how late a buffered event may arrive
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+const MAX_EVENT_AGE_MS = 10 * 60 * 1000;
+// The browser uploads every few seconds; hidden tabs may be throttled to about once a minute
+const HEARTBEAT_TIMEOUT_MS = 2 * 60 * 1000;
+
+const EVENT_TYPES: ProctoringEventType[] = [
+  "mood",
+  "violation",
+  "person-changed",
+  "tab-switch",
+  "fullscreen-exit",
+  "audio",
+  "screen-share-stopped"
+];
+
+// The round limit each warning event counts against, and how it is named in a termination reason
+const WARNING_EVENTS: Partial<Record<ProctoringEventType, { kind: WarningKind; reason: string }>> = {
+  "tab-switch": { kind: "tabSwitch", reason: "tab_switch" },
+  "fullscreen-exit": { kind: "fullscreen", reason: "fullscreen_exit" },
+  "audio": { kind: "audio", reason: "audio_warning" }
+};
+
+const WARNING_KINDS: WarningKind[] = ["tabSwitch", "fullscreen", "audio"];
+
+// A page that stops reporting is treated like one the candidate switched away from
+const HEARTBEAT_WARNING: { kind: WarningKind; reason: string } = { kind: "tabSwitch", reason: "heartbeat_missed" };
+
+const NO_SESSION = "Proctoring has not been started for this round";
+const TERMINATED = "This round was ended by proctoring";
+
+export function isWarningEvent(type: ProctoringEventType): boolean {
+  return Boolean(WARNING_EVENTS[type]);
+}
+
+// Evaluation documents of the rounds that are proctored, with the field that points at the round.
+// Rounds with warning limits also say where the limits live and which evaluations still count warnings
+const EVALUATIONS: Record<AssessmentRound, {
+  model: mongoose.Model<any>;
+  roundField: string;
+  warnings?: { roundModel: mongoose.Model<any>; running: Record<string, unknown> };
+}> = {
+  aptitude: {
+    model: TestResultModel,
+    roundField: "aptitudeId",
+    warnings: { roundModel: AptitudeModel, running: { status: "incomplete" } }
+  },
+  coding: {
+    model: CodingEvaluationModel,
+    roundField: "codingRoundId",
+    warnings: { roundModel: CodingModel, running: { isSubmitted: { $ne: true } } }
+  },
+  technicalInterview: { model: TechnicalInterviewEvaluationModel, roundField: "technicalInterviewId" },
+  hrInterview: { model: HRInterviewEvaluationModel, roundField: "hrInterviewId" }
+};
+
+export interface ProctoringStatus {
+  violation_count: number;
+  mood_state: string;
+  mood_changed: boolean;
+  current_violations: string[];
+  should_end: boolean;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function sessionCredentials(sessionId: string): ProctoringCredentials {
+  return { token: `${sessionId}.${hmac(proctoringSecret(), `token:${sessionId}`)}` };
+}
+
+/**
+ * The session ID a token was issued for, or null when the token was not issued by this server.
+ */
+export function verifySessionToken(token: string): string | null {
+  const [sessionId, mac] = token.split(".");
+  if (!sessionId || !mac || !mongoose.Types.ObjectId.isValid(sessionId)) return null;
+  return safeEqual(mac, hmac(proctoringSecret(), `token:${sessionId}`)) ? sessionId : null;
+}
+
+/**
+ * Validates an uploaded event's shape. Returns null for anything that is not a well-formed event.
+ */
+export function parseProctoringEvent(raw: unknown): ProctoringEventInput | null {
+  if (!raw || typeof raw !== "object") return null;
+  const event = raw as Record<string, unknown>;
+  const isOptionalString = (value: unknown) => value === undefined || (typeof value === "string" && value.length <= 64);
+
+  if (typeof event.id !== "string" || !event.id || event.id.length > 64) return null;
+  if (typeof event.seq !== "number" || !Number.isInteger(event.seq) || event.seq < 0) return null;
+  if (!EVENT_TYPES.includes(event.type as ProctoringEventType)) return null;
+  if (!isOptionalString(event.mood) || !isOptionalString(event.gesture)) return null;
+  if (event.objects !== undefined && (
+    !Array.isArray(event.objects) || event.objects.length > 20 || !event.objects.every(isOptionalString)
+  )) return null;
+  if (typeof event.occurredAt !== "string" || isNaN(Date.parse(event.occurredAt))) return null;
+
+  return {
+    id: event.id,
+    seq: event.seq,
+    type: event.type as ProctoringEventType,
+    mood: event.mood as string | undefined,
+    gesture: event.gesture as string | undefined,
+    objects: event.objects as string[] | undefined,
+    occurredAt: event.occurredAt
+  };
+}
+
+/**
+ * The violations an event shows, decided from the detections rather than from what the browser concluded.
+ * Mood events never count.
+ */
+export function classifyEvent(event: Pick<ProctoringEventInput, "type" | "gesture" | "objects">): string[] {
+  const warning = WARNING_EVENTS[event.type];
+  if (warning) return [warning.reason];
+  if (event.type === "person-changed") return ["person_changed"];
+  if (event.type === "screen-share-stopped") return ["screen_share_stopped"];
+  if (event.type !== "violation") return [];
+
+  const violations: string[] = [];
+  if (event.gesture && event.gesture !== "facing_forward") {
+    violations.push(`gesture:${event.gesture}`);
+  }
+
+  // A single person is the candidate; anyone else in frame, or any flagged object, is a violation
+  const objects = event.objects ?? [];
+  const people = objects.filter(object => object.toLowerCase() === "person").length;
+  if (people > 1) violations.push("object:person");
+  for (const object of new Set(objects.filter(object => object.toLowerCase() !== "person"))) {
+    violations.push(`object:${object}`);
+  }
+  return violations;
+}
+
+/**
+ * The candidate's current (latest) evaluation of a round, with the model it is stored in.
+ * Returns null when the candidate has not started the round yet.
+ */
+export async function findCurrentEvaluation(
+  round: AssessmentRound,
+  roundId: string,
+  candidateId: string
+): Promise<{ model: mongoose.Model<any>; id: mongoose.Types.ObjectId } | null> {
+  const { model, roundField } = EVALUATIONS[round];
+  if (!mongoose.Types.ObjectId.isValid(roundId)) return null;
+
+  const evaluation = await model.findOne({ [roundField]: roundId, candidateId })
+    .sort({ _id: -1 })
+    .select("_id")
+    .lean<{ _id: mongoose.Types.ObjectId }>();
+  return evaluation ? { model, id: evaluation._id } : null;
+}
+
+/**
+ * Opens (or resumes) the proctoring session for a candidate's current evaluation of a round. The round's
+ * actions call it as soon as they create the evaluation, and the browser calls it for its token.
+ * Returns null when the candidate has not started the round yet.
+ */
+export async function openProctoringSession(
+  round: AssessmentRound,
+  roundId: string,
+  candidateId: string
+): Promise<ProctoringCredentials | null> {
+  const evaluation = await findCurrentEvaluation(round, roundId, candidateId);
+  if (!evaluation) return null;
+
+  const session = await ProctoringSessionModel.findOneAndUpdate(
+    { round, evaluation: evaluation.id },
+    { $setOnInsert: { candidate: candidateId, roundId, lastHeartbeatAt: new Date() } },
+    { upsert: true, new: true }
+  ).select("_id").lean();
+
+  return sessionCredentials(String(session!._id));
+}
+
+/**
+ * Server-computed proctoring state of the candidate's latest session for a round. A mood change is
+ * reported once, to the first caller after it happened.
+ */
+export async function getProctoringStatus(
+  round: AssessmentRound,
+  roundId: string,
+  candidateId: string
+): Promise<ProctoringStatus> {
+  const status: ProctoringStatus = {
+    violation_count: 0,
+    mood_state: "neutral",
+    mood_changed: false,
+    current_violations: [],
+    should_end: false
+  };
+  if (!mongoose.Types.ObjectId.isValid(roundId)) return status;
+
+  const session = await ProctoringSessionModel.findOne({ candidate: candidateId, round, roundId })
+    .sort({ createdAt: -1 })
+    .lean();
+  if (!session) return status;
+
+  const heartbeat = await checkHeartbeat(session, new Date());
+  const [claimedMood, lastEvent] = await Promise.all([
+    ProctoringSessionModel.updateOne(
+      {
+        _id: session._id,
+        $expr: { $gt: ["$mood.changedAt", { $ifNull: ["$mood.checkedAt", new Date(0)] }] }
+      },
+      { $set: { "mood.checkedAt": new Date() } }
+    ),
+    ProctoringEventModel.findOne({ session: session._id }).sort({ occurredAt: -1 }).select("violation").lean()
+  ]);
+
+  return {
+    violation_count: heartbeat.violationCount ?? session.violationCount,
+    mood_state: session.mood.state,
+    mood_changed: claimedMood.modifiedCount > 0 && session.mood.state !== "neutral",
+    current_violations: lastEvent?.violation ? lastEvent.violation.split(", ") : [],
+    should_end: Boolean(session.terminatedAt) || heartbeat.terminated
+  };
+}
+
+/**
+ * Counts a violation unless the session is terminated or the last one was too recent. Returns the new
+ * count, or null when the violation did not count.
+ */
+async function countViolation(sessionId: mongoose.Types.ObjectId, occurredAt: Date): Promise<number | null> {
+  const session = await ProctoringSessionModel.findOneAndUpdate(
+    {
+      _id: sessionId,
+      terminatedAt: { $exists: false },
+      $or: [
+        { lastViolationAt: { $exists: false } },
+        { lastViolationAt: { $lte: new Date(occurredAt.getTime() - VIOLATION_COOLDOWN_MS) } }
+      ]
+    },
+    { $inc: { violationCount: 1 }, $set: { lastViolationAt: occurredAt } },
+    { new: true }
+  ).select("violationCount").lean();
+  return session ? session.violationCount : null;
+}
+
+async function terminateSession(
+  sessionId: mongoose.Types.ObjectId,
+  round: AssessmentRound,
+  evaluationId: mongoose.Types.ObjectId,
+  now: Date
+): Promise<void> {
+  const { modifiedCount } = await ProctoringSessionModel.updateOne(
+    { _id: sessionId, terminatedAt: { $exists: false } },
+    { $set: { terminatedAt: now } }
+  );
+  if (!modifiedCount) return;
+
+  await EVALUATIONS[round].model.updateOne(
+    { _id: evaluationId },
+    {
+      $push: {
+        flags: {
+          type: "proctoring",
+          severity: "high",
+          message: `Ended after ${VIOLATION_LIMIT} proctoring violations`,
+          createdAt: now
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Counts a warning on the evaluation while its test is running, terminating the test and its session when
+ * the count exceeds the round's limit. Returns whether the warning counted and whether it ended the test.
+ */
+async function countWarning(
+  session: Pick<ProctoringSession, "round" | "roundId" | "evaluation"> & { _id: unknown },
+  warning: { kind: WarningKind; reason: string },
+  now: Date
+): Promise<{ counted: boolean; terminated: boolean }> {
+  const { model, warnings } = EVALUATIONS[session.round];
+  const evaluationId = session.evaluation;
+  if (!warnings) return { counted: false, terminated: false };
+
+  const roundDoc = await warnings.roundModel.findById(session.roundId).select("warnings").lean<{ warnings?: Record<WarningKind, number> }>();
+  const maxAllowed = roundDoc?.warnings?.[warning.kind] ?? 0;
+
+  const evaluation = await model.findOneAndUpdate(
+    { _id: evaluationId, terminatedDueToWarnings: { $ne: true }, ...warnings.running },
+    { $inc: { [`warnings.${warning.kind}.count`]: 1 }, $set: { [`warnings.${warning.kind}.maxAllowed`]: maxAllowed } },
+    { new: true }
+  ).select("warnings").lean<{ warnings: Record<WarningKind, { count: number }> }>();
+  if (!evaluation) return { counted: false, terminated: false };
+
+  // Limits are the number of warnings allowed, so the test ends on the one after the last allowed warning
+  const terminated = evaluation.warnings[warning.kind].count > maxAllowed;
+  if (terminated) {
+    await model.updateOne(
+      { _id: evaluationId, terminatedDueToWarnings: { $ne: true } },
+      {
+        $set: {
+          [`warnings.${warning.kind}.exceeded`]: true,
+          terminatedDueToWarnings: true,
+          terminationReason: `Test terminated due to: ${warning.reason}`
+        }
+      }
+    );
+    await ProctoringSessionModel.updateOne(
+      { _id: session._id, terminatedAt: { $exists: false } },
+      { $set: { terminatedAt: now } }
+    );
+  }
+  return { counted: true, terminated };
+}
+
+/**
+ * Appends an event to the session's log, chained to the event before it. Returns the stored event's ID,
+ * or null when the event was stored by an earlier upload.
+ */
+async function appendEvent(
+  sessionId: mongoose.Types.ObjectId,
+  fields: Omit<ProctoringEvent, keyof mongoose.Document | "index" | "hash">
+): Promise<mongoose.Types.ObjectId | null> {
+  for (let attempt = 0; ; attempt++) {
+    const head = await ProctoringEventModel.findOne({ session: sessionId })
+      .sort({ index: -1 })
+      .select("index hash")
+      .lean();
+    try {
+      const event = await ProctoringEventModel.create({
+        ...fields,
+        index: head ? head.index + 1 : 0,
+        hash: chainHash(head?.hash ?? null, fields)
+      });
+      return event._id as mongoose.Types.ObjectId;
+    } catch (error: unknown) {
+      const duplicate = error as { code?: number; keyPattern?: Record<string, unknown> } | null;
+      if (duplicate?.code !== 11000) throw error;
+      if (duplicate.keyPattern?.clientEventId) return null;
+      // Another upload took this position in the log; chain onto its event instead
+      if (attempt >= 5) throw error;
+    }
+  }
+}
+
+/**
+ * Records a missed heartbeat when the browser has not uploaded for HEARTBEAT_TIMEOUT_MS. In interviews it
+ * counts as a violation, in aptitude and coding rounds as a warning. Returns the new violation count (null
+ * when no violation was counted) and whether the missed heartbeat ended the round.
+ */
+async function checkHeartbeat(
+  session: Pick<
+    ProctoringSession,
+    "candidate" | "round" | "roundId" | "evaluation" | "lastHeartbeatAt" | "terminatedAt"
+  > & { _id: unknown },
+  now: Date
+): Promise<{ violationCount: number | null; terminated: boolean }> {
+  const { lastHeartbeatAt } = session;
+  const nothingMissed = { violationCount: null, terminated: false };
+  if (session.terminatedAt || !lastHeartbeatAt) return nothingMissed;
+  const missedAt = new Date(lastHeartbeatAt.getTime() + HEARTBEAT_TIMEOUT_MS);
+  if (now < missedAt) return nothingMissed;
+
+  // Each gap is recorded once, by the request that moves the heartbeat on
+  const sessionId = session._id as mongoose.Types.ObjectId;
+  const claimed = await ProctoringSessionModel.updateOne(
+    { _id: sessionId, lastHeartbeatAt },
+    { $set: { lastHeartbeatAt: now } }
+  );
+  if (!claimed.modifiedCount) return nothingMissed;
+
+  let count: number | null = null;
+  let counted: boolean;
+  let terminated: boolean;
+  if (EVALUATIONS[session.round].warnings) {
+    ({ counted, terminated } = await countWarning(session, HEARTBEAT_WARNING, now));
+  } else {
+    count = await countViolation(sessionId, missedAt);
+    counted = count !== null;
+    terminated = count !== null && count >= VIOLATION_LIMIT;
+    if (terminated) {
+      await terminateSession(sessionId, session.round, session.evaluation, now);
+    }
+  }
+
+  await appendEvent(sessionId, {
+    session: sessionId,
+    candidate: session.candidate,
+    round: session.round,
+    clientEventId: `heartbeat:${lastHeartbeatAt.getTime()}`,
+    seq: -1,
+    type: "heartbeat-missed",
+    objects: [],
+    occurredAt: missedAt,
+    receivedAt: now,
+    violation: HEARTBEAT_WARNING.reason,
+    counted
+  });
+  return { violationCount: count, terminated };
+}
+
+/**
+ * Why the candidate's current evaluation of a round may not take answers, or null while its proctoring
+ * session is live. Records a missed heartbeat first if the browser stopped uploading. An evaluation
+ * without a session is rejected, so a browser that never starts proctoring cannot skip the counting.
+ */
+export async function checkProctoringSession(
+  round: AssessmentRound,
+  roundId: string,
+  candidateId: string
+): Promise<string | null> {
+  const evaluation = await findCurrentEvaluation(round, roundId, candidateId);
+  const session = evaluation
+    ? await ProctoringSessionModel.findOne({ round, evaluation: evaluation.id }).lean()
+    : null;
+  if (!session) return NO_SESSION;
+  if (session.terminatedAt) return TERMINATED;
+
+  return (await checkHeartbeat(session, new Date())).terminated ? TERMINATED : null;
+}
+
+/**
+ * Verifies and stores events uploaded by the candidate's browser, counting the violations and warnings
+ * they show. Throws AuthorizationError when the token is invalid or belongs to another candidate.
+ */
+export async function recordProctoringEvents(
+  token: string,
+  candidateId: string,
+  events: ProctoringEventInput[]
+): Promise<ProctoringUploadResult> {
+  const sessionId = verifySessionToken(token);
+  if (!sessionId) throw new AuthorizationError(403, "Invalid proctoring session");
+
+  const session = await ProctoringSessionModel.findById(sessionId).lean();
+  if (!session || String(session.candidate) !== candidateId) {
+    throw new AuthorizationError(403, "Invalid proctoring session");
+  }
+  const sessionObjectId = session._id as mongoose.Types.ObjectId;
+
+  const receivedAt = new Date();
+  const evaluations = EVALUATIONS[session.round];
+  // The upload itself is the heartbeat; a gap before it is recorded first
+  let violationCount = (await checkHeartbeat(session, receivedAt)).violationCount ?? session.violationCount;
+  await ProctoringSessionModel.updateOne({ _id: session._id }, { $max: { lastHeartbeatAt: receivedAt } });
+  let accepted = 0;
+
+  for (const event of [...events].sort((a, b) => a.seq - b.seq)) {
+    const occurredAt = new Date(event.occurredAt);
+    const age = receivedAt.getTime() - occurredAt.getTime();
+    if (age < -MAX_CLOCK_SKEW_MS || age > MAX_EVENT_AGE_MS) continue;
+
+    const violations = classifyEvent(event);
+    const violation = violations.length ? violations.join(", ") : undefined;
+
+    // Storing the event claims it; a retried or parallel upload of the same event stores nothing and
+    // counts nothing
+    const stored = await appendEvent(sessionObjectId, {
+      session: sessionObjectId,
+      candidate: session.candidate,
+      round: session.round,
+      clientEventId: event.id,
+      seq: event.seq,
+      type: event.type,
+      mood: event.mood,
+      gesture: event.gesture,
+      objects: event.objects ?? [],
+      occurredAt,
+      receivedAt,
+      violation,
+      counted: false
+    });
+    if (!stored) continue;
+    accepted++;
+
+    let counted = false;
+    const warning = WARNING_EVENTS[event.type];
+    if (warning) {
+      ({ counted } = await countWarning(session, warning, receivedAt));
+    } else if (violation && !evaluations.warnings) {
+      // Video and screen share detections only count in interviews
+      const count = await countViolation(sessionObjectId, occurredAt);
+      if (count !== null) {
+        counted = true;
+        violationCount = count;
+        if (count >= VIOLATION_LIMIT) {
+          await terminateSession(sessionObjectId, session.round, session.evaluation, receivedAt);
+        }
+      }
+    }
+    if (counted) {
+      await ProctoringEventModel.updateOne({ _id: stored }, { $set: { counted: true } });
+    }
+
+    if (warning || evaluations.warnings) continue;
+
+    if (event.type === "mood" && event.mood && event.mood !== "neutral") {
+      await ProctoringSessionModel.updateOne(
+        { _id: session._id, "mood.state": { $ne: event.mood } },
+        { $set: { "mood.state": event.mood, "mood.changedAt": occurredAt } }
+      );
+    }
+
+    await evaluations.model.updateOne(
+      { _id: session.evaluation },
+      {
+        $push: {
+          videoLogs: {
+            timestamp: occurredAt,
+            mood: event.mood,
+            gesture: event.gesture,
+            objects: event.objects ?? [],
+            violationType: violation
+          }
+        }
+      }
+    );
+  }
+
+  if (!evaluations.warnings) {
+    return {
+      accepted,
+      violationCount,
+      terminated: violationCount >= VIOLATION_LIMIT || Boolean(session.terminatedAt)
+    };
+  }
+
+  const evaluation = await evaluations.model.findById(session.evaluation)
+    .select("warnings terminatedDueToWarnings terminationReason")
+    .lean<{ warnings?: Record<WarningKind, { count: number }>; terminatedDueToWarnings?: boolean; terminationReason?: string }>();
+
+  return {
+    accepted,
+    violationCount,
+    warnings: Object.fromEntries(
+      WARNING_KINDS.map(kind => [kind, evaluation?.warnings?.[kind]?.count ?? 0])
+    ) as Record<WarningKind, number>,
+    terminated: Boolean(evaluation?.terminatedDueToWarnings),
+    terminationReason: evaluation?.terminationReason
+  };
+}
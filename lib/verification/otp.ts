@@ -0,0 +1,155 @@
+// One-time passwords - email verification and password reset codes for candidate and employer accounts
+//
+// - A code is 6 random digits; the account only stores its bcrypt hash together with its purpose
+// - Codes expire after OTP_TTL_MINUTES and stop working after OTP_MAX_ATTEMPTS wrong guesses
+// - A new code can be requested once OTP_RESEND_COOLDOWN_SECONDS have passed; it replaces the previous one
+// - A redeemed code is removed, so every code works once
+//
+import { randomInt } from "crypto";
+import mongoose from "mongoose";
+import bcrypt from "bcryptjs";
+import CandidateModel from "@/models/candidate.model";
+import EmployerModel from "@/models/employer.model";
+import { sendMail } from "@/lib/mail/transport";
+import { otpEmail } from "@/lib/mail/templates";
+import type { UserRole } from "@/utils/auth-helpers";
+
+export type OtpPurpose = "verify-email" | "reset-password";
+
+export interface StoredOtp {
+  hash: string;
+  purpose: OtpPurpose;
+  expiresAt: Date;
+  attempts: number;
+  sentAt: Date;
+}
+
+export const OTP_TTL_MINUTES = 10;
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+
+export type OtpCheck =
+  | { valid: true }
+  | { valid: false; reason: "missing" | "expired" | "locked" }
+  | { valid: false; reason: "mismatch"; attemptsLeft: number };
+
+export type OtpDelivery =
+  | { status: "sent" | "no-account" | "already-verified" }
+  | { status: "cooldown"; retryAfter: number };
+
+const ACCOUNT_MODELS: Record<UserRole, mongoose.Model<any>> = {
+  candidate: CandidateModel,
+  employer: EmployerModel
+};
+
+export function generateOtp(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+export async function createStoredOtp(code: string, purpose: OtpPurpose, now: Date = new Date()): Promise<StoredOtp> {
+  return {
+    hash: await bcrypt.hash(code, 10),
+    purpose,
+    expiresAt: new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000),
+    attempts: 0,
+    sentAt: now
+  };
+}
+
+/**
+ * Seconds left before another code may be sent; 0 when one can be sent now.
+ */
+export function getResendWait(otp: StoredOtp | undefined, now: Date = new Date()): number {
+  if (!otp?.sentAt) return 0;
+  const elapsed = (now.getTime() - new Date(otp.sentAt).getTime()) / 1000;
+  return Math.max(0, Math.ceil(OTP_RESEND_COOLDOWN_SECONDS - elapsed));
+}
+
+export async function checkOtp(
+  otp: StoredOtp | undefined,
+  purpose: OtpPurpose,
+  code: string,
+  now: Date = new Date()
+): Promise<OtpCheck> {
+  if (!otp?.hash || otp.purpose !== purpose) return { valid: false, reason: "missing" };
+  if (new Date(otp.expiresAt) <= now) return { valid: false, reason: "expired" };
+  if (otp.attempts >= OTP_MAX_ATTEMPTS) return { valid: false, reason: "locked" };
+
+  if (await bcrypt.compare(code.trim(), otp.hash)) return { valid: true };
+  return { valid: false, reason: "mismatch", attemptsLeft: Math.max(0, OTP_MAX_ATTEMPTS - otp.attempts - 1) };
+}
+
+export function describeOtpFailure(check: Exclude<OtpCheck, { valid: true }>): string {
+  switch (check.reason) {
+    case "missing":
+      return "No active code for this account. Request a new one.";
+    case "expired":
+      return "This code has expired. Request a new one.";
+    case "locked":
+      return "Too many incorrect attempts. Request a new code.";
+    case "mismatch":
+      return check.attemptsLeft > 0
+        ? `Incorrect code. ${check.attemptsLeft} attempt${check.attemptsLeft === 1 ? "" : "s"} left.`
+        : "Incorrect code. Request a new one.";
+  }
+}
+
+/**
+ * Issues a new code for the account and emails it, unless the resend cooldown is still running.
+ */
+export async function sendAccountOtp(role: UserRole, email: string, purpose: OtpPurpose): Promise<OtpDelivery> {
+  const account = await ACCOUNT_MODELS[role].findOne({ email }).select("+otp");
+  if (!account) return { status: "no-account" };
+  if (purpose === "verify-email" && account.isVerified) return { status: "already-verified" };
+
+  const retryAfter = getResendWait(account.otp);
+  if (retryAfter > 0) return { status: "cooldown", retryAfter };
+
+  const code = generateOtp();
+  account.otp = await createStoredOtp(code, purpose);
+  await account.save();
+
+  await sendMail({ to: account.email, ...otpEmail(purpose, code, account.firstName, OTP_TTL_MINUTES) });
+  return { status: "sent" };
+}
+
+/**
+ * Checks a code against the account. Every check uses up an attempt before the code is compared, so
+ * parallel guesses cannot get past OTP_MAX_ATTEMPTS. A valid code is removed and `update` is applied
+ * to the account in the same write.
+ */
+export async function redeemAccountOtp(
+  role: UserRole,
+  email: string,
+  purpose: OtpPurpose,
+  code: string,
+  update: Record<string, unknown> = {}
+): Promise<OtpCheck> {
+  type AccountOtp = { _id: mongoose.Types.ObjectId; otp?: StoredOtp };
+  const model = ACCOUNT_MODELS[role];
+
+  const account = await model
+    .findOneAndUpdate(
+      { email, "otp.purpose": purpose, "otp.attempts": { $lt: OTP_MAX_ATTEMPTS } },
+      { $inc: { "otp.attempts": 1 } }
+    )
+    .select("+otp")
+    .lean<AccountOtp>();
+
+  if (!account) {
+    const current = await model.findOne({ email }).select("+otp").lean<AccountOtp>();
+    if (!current?.otp?.hash || current.otp.purpose !== purpose) return { valid: false, reason: "missing" };
+    return { valid: false, reason: new Date(current.otp.expiresAt) <= new Date() ? "expired" : "locked" };
+  }
+
+  const check = await checkOtp(account.otp, purpose, code);
+  if (check.valid) {
+    // Matching on the hash keeps a code that is redeemed twice at once from applying the update twice
+    const { modifiedCount } = await model.updateOne(
+      { _id: account._id, "otp.hash": account.otp?.hash },
+      { $set: update, $unset: { otp: 1 } }
+    );
+    if (!modifiedCount) return { valid: false, reason: "missing" };
+  }
+  return check;
+}
@@ -18,8 +18,6 @@ export default function VideoProcessing({
   const holisticRef = useRef<any>(null);
   const hasUsedCameraRef = useRef<boolean>(false); // Track if camera was used before
 
-  const [moodLogs, setMoodLogs] = useState<any[]>([]);
-  const [violationLogs, setViolationLogs] = useState<any[]>([]);
   const [cameraStatus, setCameraStatus] = useState<
     "idle" | "requesting" | "granted" | "denied" | "initializing"
   >("idle");
@@ -62,43 +60,6 @@ export default function VideoProcessing({
   const frameCount = useRef<number>(0);
   const lastFaceCheck = useRef<number>(0);
 
-  // Load logs from localStorage on mount
-  useEffect(() => {
-    try {
-      const savedMoodLogs = localStorage.getItem("calibr_mood_logs");
-      const savedViolationLogs = localStorage.getItem("calibr_violation_logs");
-
-      if (savedMoodLogs) {
-        setMoodLogs(JSON.parse(savedMoodLogs));
-      }
-      if (savedViolationLogs) {
-        setViolationLogs(JSON.parse(savedViolationLogs));
-      }
-    } catch (err) {
-      console.error("Error loading logs from localStorage:", err);
-    }
-  }, []);
-
-  // Save logs to localStorage whenever they change
-  useEffect(() => {
-    try {
-      localStorage.setItem("calibr_mood_logs", JSON.stringify(moodLogs));
-    } catch (err) {
-      console.error("Error saving mood logs to localStorage:", err);
-    }
-  }, [moodLogs]);
-
-  useEffect(() => {
-    try {
-      localStorage.setItem(
-        "calibr_violation_logs",
-        JSON.stringify(violationLogs)
-      );
-    } catch (err) {
-      console.error("Error saving violation logs to localStorage:", err);
-    }
-  }, [violationLogs]);
-
   /** Utility: load external scripts safely */
   const loadScript = (src: string) =>
     new Promise<void>((resolve, reject) => {
@@ -180,17 +141,12 @@ export default function VideoProcessing({
       };
       console.log("😊 Mood Change (sustained 1s+):", moodLog);
 
-      setMoodLogs((prev) => {
-        const next = [...prev, moodLog];
-        if (next.length > 500) next.shift(); // cap at 500
-        return next;
-      });
-
       lastLoggedMood.current = currentMood;
 
       // === UPDATE QUEUE 0 - MOOD CHANGE ===
       // Only store in DB when mood actually changes (not every frame)
       updateVideoState({
+        type: "mood",
         mood: currentMood || undefined,
         gesture: lastGesture.current || undefined,
         objects: lastObjects.current,
@@ -265,12 +221,6 @@ export default function VideoProcessing({
         // More than just time and timestamp
         console.log("🚨 Violation (sustained 3s+):", violationLog);
 
-        setViolationLogs((prev) => {
-          const next = [...prev, violationLog];
-          if (next.length > 500) next.shift(); // cap at 500 logs
-          return next;
-        });
-
         // Update last logged states
         if (gesturePersisted) lastLoggedGesture.current = currentGesture;
         if (objectsPersisted) lastLoggedObjects.current = currentObjects;
@@ -279,6 +229,7 @@ export default function VideoProcessing({
         // === UPDATE QUEUE 0 - VIOLATION DETECTED ===
         // Only store in DB when violation actually occurs (not every frame)
         updateVideoState({
+          type: "violation",
           mood: lastMood.current || undefined,
           gesture: currentGesture || undefined,
           objects: currentObjects.length > 0 ? currentObjects : undefined,
@@ -758,17 +709,11 @@ export default function VideoProcessing({
               personChangeLog
             );
 
-            setViolationLogs((prev) => {
-              const next = [...prev, personChangeLog];
-              if (next.length > 500) next.shift();
-              return next;
-            });
-
-            // Optional: Update queue
             updateVideoState({
+              type: "person-changed",
               mood: lastMood.current || undefined,
               gesture: lastGesture.current || undefined,
-              objects: [...(lastObjects.current || []), "person_changed"],
+              objects: lastObjects.current || [],
             });
 
             diffCount = 0;
@@ -7,6 +7,31 @@ export interface RoundStatus {
   hrInterview: 'pending' | 'shortlisted' | 'rejected' | 'completed';
 }
 
+export interface ScheduleExtension {
+  closesAt: Date; // the round's window stays open for this candidate until then
+  grantedBy: mongoose.Types.ObjectId;
+  grantedAt: Date;
+}
+
+export interface RoundInvalidation {
+  reason: string;
+  invalidatedBy: mongoose.Types.ObjectId;
+  invalidatedAt: Date;
+}
+
+export interface OverallResult {
+  score: number; // weighted score of all enabled rounds (0-100)
+  passed: boolean;
+  roundsPassed: number;
+  roundScores: {
+    aptitude?: number;
+    coding?: number;
+    technicalInterview?: number;
+    hrInterview?: number;
+  };
+  evaluatedAt: Date;
+}
+
 export interface Application extends Document {
   candidateId: mongoose.Types.ObjectId;
   jobId: mongoose.Types.ObjectId;
@@ -14,8 +39,30 @@ export interface Application extends Document {
   applicationDate: Date;
   status: 'applied' | 'under-review' | 'shortlisted' | 'interviewed' | 'rejected' | 'accepted' | 'withdrawn';
   rounds?: RoundStatus;
+  scheduleExtensions?: Partial<Record<keyof RoundStatus, ScheduleExtension>>;
+  // Rounds the employer invalidated after confirming a proctoring violation; they count as failed
+  invalidatedRounds?: Partial<Record<keyof RoundStatus, RoundInvalidation>>;
+  overallResult?: OverallResult; // set once the candidate finishes the last enabled round
 }
 
+const ScheduleExtensionSchema = new Schema(
+  {
+    closesAt: { type: Date, required: true },
+    grantedBy: { type: Schema.Types.ObjectId, ref: "employers", required: true },
+    grantedAt: { type: Date, default: Date.now }
+  },
+  { _id: false }
+);
+
+const RoundInvalidationSchema = new Schema(
+  {
+    reason: { type: String, required: true, maxlength: 500 },
+    invalidatedBy: { type: Schema.Types.ObjectId, ref: "employers", required: true },
+    invalidatedAt: { type: Date, default: Date.now }
+  },
+  { _id: false }
+);
+
 const ApplicationSchema: Schema = new Schema(
   {
     candidateId: { 
@@ -65,6 +112,30 @@ const ApplicationSchema: Schema = new Schema(
         enum: ['pending', 'shortlisted', 'rejected', 'completed'],
         default: 'pending'
       }
+    },
+    scheduleExtensions: {
+      aptitude: ScheduleExtensionSchema,
+      coding: ScheduleExtensionSchema,
+      technicalInterview: ScheduleExtensionSchema,
+      hrInterview: ScheduleExtensionSchema
+    },
+    invalidatedRounds: {
+      aptitude: RoundInvalidationSchema,
+      coding: RoundInvalidationSchema,
+      technicalInterview: RoundInvalidationSchema,
+      hrInterview: RoundInvalidationSchema
+    },
+    overallResult: {
+      score: { type: Number, min: 0, max: 100 },
+      passed: { type: Boolean },
+      roundsPassed: { type: Number, min: 0 },
+      roundScores: {
+        aptitude: { type: Number },
+        coding: { type: Number },
+        technicalInterview: { type: Number },
+        hrInterview: { type: Number }
+      },
+      evaluatedAt: { type: Date }
     }
   },
   { timestamps: true }
@@ -1,6 +1,5 @@
 import mongoose, { Schema, Document } from "mongoose";
-
-// Function to generate N unique random numbers between 1 and 31900
+import type { AptitudeTopic } from "./aptitudeQuestion.model";
 
 export interface Aptitude extends Document {
   // From second interface (renamed from numberOfQuestions)
@@ -29,17 +28,24 @@ export interface Aptitude extends Document {
     technical: number;
     verbal: number;
   };
+  difficultyMix: {
+    easy: number; // percentage of each topic's questions
+    medium: number;
+    hard: number;
+  };
   randomizeQuestions: boolean;
   showResultImmediately: boolean;
   allowReviewBeforeSubmit: boolean;
   negativeMarking: boolean;
   negativeMarkingPercentage?: number;
   assessmentId: mongoose.Types.ObjectId | null; // Can be null initially, updated after assessment creation
+  organization?: mongoose.Types.ObjectId; // organization that created the round
   questionIds: number[]; 
-  expiredQuestionIds: number[];
+  expiredQuestionIds: number[]; // questions never drawn for this round, e.g. retired or leaked questions
   sections: {
     name: string;
     description?: string;
+    topic?: AptitudeTopic;
     questionIds: number[];
     timeLimit?: number;
   }[];
@@ -75,6 +81,11 @@ export const AptitudeSchema: Schema = new Schema({
     technical: { type: Number, default: 0, min: 0 },
     verbal: { type: Number, default: 0, min: 0 }
   },
+  difficultyMix: {
+    easy: { type: Number, min: 0, max: 100, default: 30 },
+    medium: { type: Number, min: 0, max: 100, default: 50 },
+    hard: { type: Number, min: 0, max: 100, default: 20 }
+  },
   randomizeQuestions: { type: Boolean, default: true },
   showResultImmediately: { type: Boolean, default: false },
   allowReviewBeforeSubmit: { type: Boolean, default: true },
@@ -86,11 +97,13 @@ export const AptitudeSchema: Schema = new Schema({
     ref: "assessment",
     default: null
   },
+  organization: { type: Schema.Types.ObjectId, ref: "organization" },
   questionIds: [{ type: Number }], 
   expiredQuestionIds: [{ type: Number }],
   sections: [{
     name: { type: String, required: true },
     description: { type: String },
+    topic: { type: String, enum: ['logicalReasoning', 'quantitative', 'technical', 'verbal'] },
     questionIds: [{ type: Number }],
     timeLimit: { type: Number }
   }],
@@ -3,19 +3,35 @@ import mongoose, { Schema, Document } from "mongoose";
 export interface TestResult extends Document {
   candidateId: mongoose.Types.ObjectId;
   aptitudeId: mongoose.Types.ObjectId;
-  answers: Record<string, number>; 
+  answers: Record<string, number>; // selected option index keyed by question ID
   score: number;
   totalQuestions: number;
   correctCount: number;
   incorrectCount: number;
   unattemptedCount: number;
-  percentage: number;
+  percentage: number; // weighted across sections
+  sectionScores: {
+    name: string;
+    topic?: string;
+    totalQuestions: number;
+    correctCount: number;
+    incorrectCount: number;
+    unattemptedCount: number;
+    score: number;
+    percentage: number;
+    weightage: number;
+  }[];
   passed: boolean;
   passingScore: number;
   timeTaken: number; 
   submittedAt: Date;
   startTime: Date;
   status: 'completed' | 'incomplete' | 'terminated';
+  currentSection: number; // index of the section being taken; equals the section count once all are locked
+  sectionProgress: {
+    startedAt?: Date;
+    lockedAt?: Date;
+  }[];
   warnings: {
     tabSwitch: {
       count: number;
@@ -35,6 +51,7 @@ export interface TestResult extends Document {
   };
   terminatedDueToWarnings: boolean;
   terminationReason?: string;
+  flags?: { type: string; severity: 'low' | 'medium' | 'high'; message: string; createdAt: Date }[];
 }
 
 export const TestResultSchema: Schema = new Schema({
@@ -85,6 +102,18 @@ export const TestResultSchema: Schema = new Schema({
     min: 0,
     max: 100
   },
+  sectionScores: [{
+    _id: false,
+    name: { type: String, required: true },
+    topic: { type: String },
+    totalQuestions: { type: Number, min: 0 },
+    correctCount: { type: Number, min: 0 },
+    incorrectCount: { type: Number, min: 0 },
+    unattemptedCount: { type: Number, min: 0 },
+    score: { type: Number, min: 0 },
+    percentage: { type: Number, min: 0, max: 100 },
+    weightage: { type: Number, min: 0, max: 100 }
+  }],
   passed: {
     type: Boolean,
     required: true
@@ -111,6 +140,16 @@ export const TestResultSchema: Schema = new Schema({
     enum: ['completed', 'incomplete', 'terminated'],
     default: 'completed'
   },
+  currentSection: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  sectionProgress: [{
+    _id: false,
+    startedAt: { type: Date },
+    lockedAt: { type: Date }
+  }],
   warnings: {
     tabSwitch: {
       count: {
@@ -167,7 +206,13 @@ export const TestResultSchema: Schema = new Schema({
   },
   terminationReason: {
     type: String
-  }
+  },
+  flags: [{
+    type: { type: String },
+    severity: { type: String, enum: ['low', 'medium', 'high'] },
+    message: { type: String },
+    createdAt: { type: Date, default: Date.now }
+  }]
 });
 
 
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type AptitudeTopic = 'logicalReasoning' | 'quantitative' | 'technical' | 'verbal';
+export type AptitudeDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface AptitudeQuestionDoc extends Document {
+  questionId: number; // numeric ID referenced by Aptitude.questionIds
+  employer: mongoose.Types.ObjectId | null; // null for built-in questions shared by every employer
+  organization?: mongoose.Types.ObjectId; // the organization whose bank holds the question
+  topic: AptitudeTopic;
+  subtopic: string;
+  difficulty: AptitudeDifficulty;
+  question: string;
+  options: string[];
+  correctAnswer: number; // index into options
+  explanation?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AptitudeQuestionSchema: Schema = new Schema(
+  {
+    questionId: { type: Number, required: true, unique: true },
+    employer: { type: Schema.Types.ObjectId, ref: "employer", default: null },
+    organization: { type: Schema.Types.ObjectId, ref: "organization" },
+    topic: {
+      type: String,
+      enum: ['logicalReasoning', 'quantitative', 'technical', 'verbal'],
+      required: true
+    },
+    subtopic: { type: String, trim: true, default: '' },
+    difficulty: { type: String, enum: ['easy', 'medium', 'hard'], default: 'medium' },
+    question: { type: String, required: true, trim: true },
+    options: {
+      type: [{ type: String, trim: true }],
+      validate: {
+        validator: (options: string[]) => options.length >= 2,
+        message: 'A question needs at least two options'
+      }
+    },
+    correctAnswer: { type: Number, required: true, min: 0 },
+    explanation: { type: String, trim: true }
+  },
+  { timestamps: true }
+);
+
+AptitudeQuestionSchema.index({ employer: 1, topic: 1, difficulty: 1 });
+AptitudeQuestionSchema.index({ organization: 1, topic: 1, difficulty: 1 });
+
+const AptitudeQuestionModel = (mongoose.models.aptitudequestion as mongoose.Model<AptitudeQuestionDoc>) ||
+  mongoose.model<AptitudeQuestionDoc>("aptitudequestion", AptitudeQuestionSchema);
+
+export default AptitudeQuestionModel;
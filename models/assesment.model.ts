@@ -1,10 +1,16 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export interface RoundProgressionRule {
+  autoAdvance: boolean; // move candidates who pass this round into the next enabled round
+  rejectBelow?: number; // reject candidates scoring below this percentage
+}
+
 export interface Assessment extends Document {
   title: string;
   description?: string;
   jobOpportunity?: mongoose.Types.ObjectId;
-  employer: mongoose.Types.ObjectId;
+  employer: mongoose.Types.ObjectId; // the member who created the assessment
+  organization: mongoose.Types.ObjectId;
   status: 'draft' | 'active' | 'completed' | 'archived';
   
   // Rounds configuration
@@ -38,6 +44,14 @@ export interface Assessment extends Document {
     };
   };
 
+  // Automatic round progression
+  progressionRules?: {
+    aptitude?: RoundProgressionRule;
+    coding?: RoundProgressionRule;
+    technicalInterview?: RoundProgressionRule;
+    hrInterview?: RoundProgressionRule;
+  };
+
   // Assessment metadata
   totalCandidates: number;
   completedCandidates: number;
@@ -47,6 +61,7 @@ export interface Assessment extends Document {
   applicationDeadline?: Date;
   assessmentStartDate?: Date;
   assessmentEndDate?: Date;
+  timezone?: string; // IANA time zone the schedule dates and round start/end times are given in
   
   // Notifications
   sendReminders: boolean;
@@ -70,6 +85,14 @@ export interface Assessment extends Document {
   updatedAt: Date;
 }
 
+const RoundProgressionRuleSchema = new Schema(
+  {
+    autoAdvance: { type: Boolean, default: false },
+    rejectBelow: { type: Number, min: 0, max: 100 }
+  },
+  { _id: false }
+);
+
 const AssessmentSchema: Schema = new Schema(
   {
     title: {
@@ -95,6 +118,11 @@ const AssessmentSchema: Schema = new Schema(
       ref: "employer",
       required: true
     },
+
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: "organization"
+    },
     
     status: {
       type: String,
@@ -137,6 +165,13 @@ const AssessmentSchema: Schema = new Schema(
       }
     },
     
+    progressionRules: {
+      aptitude: RoundProgressionRuleSchema,
+      coding: RoundProgressionRuleSchema,
+      technicalInterview: RoundProgressionRuleSchema,
+      hrInterview: RoundProgressionRuleSchema
+    },
+    
     totalCandidates: { type: Number, default: 0, min: 0 },
     completedCandidates: { type: Number, default: 0, min: 0 },
     passingCandidates: { type: Number, default: 0, min: 0 },
@@ -144,6 +179,7 @@ const AssessmentSchema: Schema = new Schema(
     applicationDeadline: { type: Date },
     assessmentStartDate: { type: Date },
     assessmentEndDate: { type: Date },
+    timezone: { type: String, trim: true },
     
     sendReminders: { type: Boolean, default: true },
     reminderTimings: [{ type: Number }], // hours before assessment
@@ -168,6 +204,7 @@ const AssessmentSchema: Schema = new Schema(
 
 // Indexes for better performance
 AssessmentSchema.index({ employer: 1, createdAt: -1 });
+AssessmentSchema.index({ organization: 1, createdAt: -1 });
 AssessmentSchema.index({ jobOpportunity: 1 });
 AssessmentSchema.index({ status: 1 });
 AssessmentSchema.index({ "aptitude.scheduledDate": 1 });
@@ -185,16 +222,19 @@ AssessmentSchema.pre('save', function(next) {
   
   // Aptitude round config and sectionWeightage validation should be handled in Aptitude model/service
   
-  // Validate overall round weightage if specified
+  // Validate overall round weightage if specified: the enabled rounds must total 100%
   if (doc.overallPassingCriteria?.weightagePerRound) {
     const weights = doc.overallPassingCriteria.weightagePerRound;
-    
-    // Since only aptitude is implemented for now, validate accordingly
-    if (doc.toConductRounds?.aptitude && weights.aptitude && weights.aptitude !== 100) {
-      return next(new Error('Aptitude round weightage must be 100% when it\'s the only enabled round'));
+    const rounds = (['aptitude', 'coding', 'technicalInterview', 'hrInterview'] as const)
+      .filter(round => doc.toConductRounds?.[round]);
+    const configured = rounds.filter(round => weights[round] != null);
+
+    if (configured.length > 0) {
+      const total = rounds.reduce((sum, round) => sum + (weights[round] ?? 0), 0);
+      if (total !== 100) {
+        return next(new Error('Round weightage of the enabled rounds must total 100%'));
+      }
     }
-    
-    // Once other rounds are implemented, add validation for them here
   }
   
   next();
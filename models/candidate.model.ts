@@ -9,7 +9,19 @@ export interface Candidate extends Document{
     bio : string
     avatar : string
     isVerified : boolean,
-    otp : number,
+    emailVerificationRequired? : boolean,
+    otp? : {
+        hash : string
+        purpose : 'verify-email' | 'reset-password'
+        expiresAt : Date
+        attempts : number
+        sentAt : Date
+    },
+    faceIdentity? : {
+        descriptor : number[]
+        enrolledAt : Date
+        profilePhotoDistance? : number
+    },
     role : string
 }
 const candidateSchema : Schema<Candidate>  = new Schema({
@@ -45,6 +57,31 @@ const candidateSchema : Schema<Candidate>  = new Schema({
         type: Boolean, 
         default: false 
     },
+    // Set on signup. Accounts created before email verification existed may log in without verifying
+    emailVerificationRequired: {
+        type: Boolean,
+        default: false
+    },
+    // Latest one-time password for email verification or password reset; only its hash is stored
+    otp: {
+        type: {
+            hash: { type: String, required: true },
+            purpose: { type: String, enum: ['verify-email', 'reset-password'], required: true },
+            expiresAt: { type: Date, required: true },
+            attempts: { type: Number, default: 0 },
+            sentAt: { type: Date, required: true }
+        },
+        select: false
+    },
+    // Face enrolled at the system check, as a face-api.js descriptor; re-verified during proctored rounds
+    faceIdentity: {
+        type: {
+            descriptor: { type: [Number], required: true },
+            enrolledAt: { type: Date, required: true },
+            profilePhotoDistance: { type: Number }
+        },
+        select: false
+    },
     role : {
         type : String,
         required : true
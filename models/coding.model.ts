@@ -32,7 +32,9 @@ export interface Coding extends Document {
 	compilerTimeout: number; // seconds
 	memoryLimit: number; // MB
 	assessmentId: mongoose.Types.ObjectId | null;
+	organization?: mongoose.Types.ObjectId; // organization that created the round
 	problemIds: number[];
+	problemTags: string[]; // restricts randomly drawn problems to these problem bank tags
 	expiredProblemIds: number[];
 	sections: {
 		name: string;
@@ -83,7 +85,9 @@ export const CodingSchema: Schema = new Schema({
 		ref: "assessment",
 		default: null
 	},
+	organization: { type: Schema.Types.ObjectId, ref: "organization" },
 	problemIds: [{ type: Number }],
+	problemTags: [{ type: String, trim: true, lowercase: true }],
 	expiredProblemIds: [{ type: Number }],
 	sections: [{
 		name: { type: String, required: true },
@@ -16,6 +16,13 @@ export interface CodeSubmission {
   timestamp: Date;
   results?: any;
   passed?: boolean;
+  score?: number; // weighted percentage of visible and hidden tests passed
+}
+
+export interface WarningCount {
+  count: number;
+  maxAllowed: number;
+  exceeded: boolean;
 }
 
 export interface CodingEvaluation extends Document {
@@ -33,8 +40,18 @@ export interface CodingEvaluation extends Document {
   problemStatus: {
     [problemId: number]: 'solved' | 'attempted' | 'not-attempted';
   };
+  problemScores: Map<string, number>; // best submission score per problem ID (0-100)
+  score: number; // round score from problemScores and the round's difficulty weightage
   timeLeft: number; // Time remaining in seconds
   isSubmitted: boolean; // Explicit submission flag
+  warnings: {
+    tabSwitch: WarningCount;
+    fullscreen: WarningCount;
+    audio: WarningCount;
+  };
+  terminatedDueToWarnings: boolean; // set by the server when a warning limit is exceeded
+  terminationReason?: string;
+  flags?: { type: string; severity: 'low' | 'medium' | 'high'; message: string; createdAt: Date }[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -54,9 +71,17 @@ const CodeSubmissionSchema = new Schema({
   language: { type: String, required: true },
   timestamp: { type: Date, default: Date.now },
   results: { type: Schema.Types.Mixed },
-  passed: { type: Boolean, default: false }
+  passed: { type: Boolean, default: false },
+  score: { type: Number, default: 0 }
 });
 
+// maxAllowed is copied from the round when a warning is counted
+const WarningCountSchema = new Schema({
+  count: { type: Number, default: 0, min: 0 },
+  maxAllowed: { type: Number, default: 0, min: 0 },
+  exceeded: { type: Boolean, default: false }
+}, { _id: false });
+
 const CodingEvaluationSchema: Schema = new Schema(
   {
     candidateId: { type: Schema.Types.ObjectId, ref: "candidates", required: true },
@@ -71,8 +96,23 @@ const CodingEvaluationSchema: Schema = new Schema(
     codeRuns: [CodeRunSchema],
     codeSubmissions: [CodeSubmissionSchema],
     problemStatus: { type: Map, of: String, default: {} },
+    problemScores: { type: Map, of: Number, default: {} },
+    score: { type: Number, default: 0, min: 0, max: 100 },
     timeLeft: { type: Number, default: 0 }, // Time remaining in seconds
-    isSubmitted: { type: Boolean, default: false } // Explicit submission flag
+    isSubmitted: { type: Boolean, default: false }, // Explicit submission flag
+    warnings: {
+      tabSwitch: { type: WarningCountSchema, default: () => ({}) },
+      fullscreen: { type: WarningCountSchema, default: () => ({}) },
+      audio: { type: WarningCountSchema, default: () => ({}) }
+    },
+    terminatedDueToWarnings: { type: Boolean, default: false },
+    terminationReason: { type: String },
+    flags: [{
+      type: { type: String },
+      severity: { type: String, enum: ['low', 'medium', 'high'] },
+      message: { type: String },
+      createdAt: { type: Date, default: Date.now }
+    }]
   },
   { timestamps: true }
 );
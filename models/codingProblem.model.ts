@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface CodingProblemTestCase {
+  input: Record<string, any>;
+  expected: any;
+  hidden: boolean; // only executed on submission
+  weight: number;
+}
+
+export interface CodingProblemDoc extends Document {
+  problemId: number; // numeric ID referenced by Coding.problemIds
+  employer: mongoose.Types.ObjectId | null; // null for built-in problems shared by every employer
+  organization?: mongoose.Types.ObjectId; // the organization whose bank holds the problem
+  title: string;
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  description: string;
+  constraints: string[];
+  examples: {
+    input: string;
+    output: string;
+    explanation?: string;
+  }[];
+  starterCode: Map<string, string>;
+  testCases: CodingProblemTestCase[];
+  signature: {
+    functionName: string;
+    params: { name: string; type: string }[];
+    returnType: string;
+  };
+  comparison?: {
+    unordered?: boolean;
+    floatTolerance?: number;
+  };
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TestCaseSchema = new Schema({
+  input: { type: Schema.Types.Mixed, required: true },
+  expected: { type: Schema.Types.Mixed },
+  hidden: { type: Boolean, default: false },
+  weight: { type: Number, default: 1, min: 0 }
+}, { _id: false });
+
+const CodingProblemSchema: Schema = new Schema(
+  {
+    problemId: { type: Number, required: true, unique: true },
+    employer: { type: Schema.Types.ObjectId, ref: "employer", default: null },
+    organization: { type: Schema.Types.ObjectId, ref: "organization" },
+    title: { type: String, required: true, trim: true, maxlength: 200 },
+    difficulty: { type: String, enum: ['Easy', 'Medium', 'Hard'], required: true },
+    description: { type: String, required: true },
+    constraints: [{ type: String }],
+    examples: [{
+      input: { type: String, required: true },
+      output: { type: String, required: true },
+      explanation: { type: String },
+      _id: false
+    }],
+    starterCode: { type: Map, of: String, default: {} },
+    testCases: {
+      type: [TestCaseSchema],
+      validate: {
+        validator: (tests: CodingProblemTestCase[]) => tests.some(t => !t.hidden),
+        message: 'At least one sample (visible) test case is required'
+      }
+    },
+    signature: {
+      functionName: { type: String, required: true, match: /^[A-Za-z_][A-Za-z0-9_]*$/ },
+      params: [{
+        name: { type: String, required: true, match: /^[A-Za-z_][A-Za-z0-9_]*$/ },
+        type: { type: String, required: true },
+        _id: false
+      }],
+      returnType: { type: String, required: true }
+    },
+    comparison: {
+      unordered: { type: Boolean },
+      floatTolerance: { type: Number, min: 0 }
+    },
+    tags: [{ type: String, trim: true, lowercase: true }]
+  },
+  { timestamps: true }
+);
+
+CodingProblemSchema.index({ employer: 1, difficulty: 1 });
+CodingProblemSchema.index({ organization: 1, difficulty: 1 });
+CodingProblemSchema.index({ tags: 1 });
+
+const CodingProblemModel = (mongoose.models.codingproblem as mongoose.Model<CodingProblemDoc>) ||
+  mongoose.model<CodingProblemDoc>("codingproblem", CodingProblemSchema);
+
+export default CodingProblemModel;
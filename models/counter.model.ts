@@ -0,0 +1,20 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Named sequences for numeric IDs, advanced atomically with $inc
+export interface Counter extends Omit<Document, "_id"> {
+  _id: string;
+  seq: number; // last ID handed out
+}
+
+const CounterSchema: Schema = new Schema(
+  {
+    _id: { type: String, required: true },
+    seq: { type: Number, required: true, default: 0 }
+  },
+  { versionKey: false }
+);
+
+const CounterModel = (mongoose.models.counter as mongoose.Model<Counter>) ||
+  mongoose.model<Counter>("counter", CounterSchema);
+
+export default CounterModel;
@@ -7,7 +7,14 @@ export interface Employer extends Document{
     lastName : string
     avatar : string
     isVerified : boolean,
-    otp : number,
+    emailVerificationRequired? : boolean,
+    otp? : {
+        hash : string
+        purpose : 'verify-email' | 'reset-password'
+        expiresAt : Date
+        attempts : number
+        sentAt : Date
+    },
     role : string
 }
 const employerSchema : Schema<Employer>  = new Schema({
@@ -39,6 +46,22 @@ const employerSchema : Schema<Employer>  = new Schema({
         type: Boolean, 
         default: false 
     },
+    // Set on signup. Accounts created before email verification existed may log in without verifying
+    emailVerificationRequired: {
+        type: Boolean,
+        default: false
+    },
+    // Latest one-time password for email verification or password reset; only its hash is stored
+    otp: {
+        type: {
+            hash: { type: String, required: true },
+            purpose: { type: String, enum: ['verify-email', 'reset-password'], required: true },
+            expiresAt: { type: Date, required: true },
+            attempts: { type: Number, default: 0 },
+            sentAt: { type: Date, required: true }
+        },
+        select: false
+    },
     role : {
         type : String,
         required : true
@@ -1,7 +1,8 @@
 import mongoose, { Document, Schema } from "mongoose";
 
 export interface EmployerProfile extends Document {
-  employer: mongoose.Types.ObjectId;
+  employer: mongoose.Types.ObjectId; // the member who created the profile
+  organization: mongoose.Types.ObjectId; // the company the profile describes
   companyName: string;
   profileImage?: string; // Employer's personal profile image
   companyLogo: string;
@@ -29,7 +30,12 @@ const employerProfileSchema: Schema<EmployerProfile> = new Schema(
       type: Schema.Types.ObjectId,
       ref: "employers",
       required: true,
+    },
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: "organization",
       unique: true,
+      sparse: true,
     },
     companyName: {
       type: String,
@@ -15,6 +15,15 @@ export interface HRInterviewEvaluation extends Document {
   audioUrl?: string;
   videoUrl?: string;
 
+  // Video processing logs (Queue 0)
+  videoLogs: {
+    timestamp: Date;
+    mood?: string;
+    gesture?: string;
+    objects?: string[];
+    violationType?: string;
+  }[];
+
   // AI outputs
   aiSummary?: string;
   // NEW: Master Q1 questions array (basic data only, generated at start)
@@ -76,6 +85,19 @@ const HRInterviewEvaluationSchema: Schema = new Schema({
   audioUrl: { type: String },
   videoUrl: { type: String },
 
+  // Video processing logs (Queue 0)
+  videoLogs: {
+    type: [{
+      timestamp: { type: Date, required: true },
+      mood: { type: String },
+      gesture: { type: String },
+      objects: [{ type: String }],
+      violationType: { type: String },
+    }],
+    default: [],
+    required: true
+  },
+
   // Master Q1 questions array (basic data only)
   q1Questions: {
     type: [{
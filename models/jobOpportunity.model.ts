@@ -9,7 +9,8 @@ export interface JobOpportunity extends Document {
   locationType: string;
   location: string;
   openings: number;
-  employer: mongoose.Types.ObjectId;
+  employer: mongoose.Types.ObjectId; // the member who posted the job
+  organization: mongoose.Types.ObjectId;
   experience?: string;
   workMode?: string;
   salaryMin?: number;
@@ -56,6 +57,11 @@ const JobOpportunitySchema: Schema = new Schema(
       required: true,
       index: true
     },
+    organization: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "organization",
+      index: true
+    },
     experience: { type: String, trim: true },
     workMode: { type: String, trim: true },
     salaryMin: { type: Number, min: 0 },
@@ -72,6 +78,16 @@ const JobOpportunitySchema: Schema = new Schema(
   { timestamps: true }
 );
 
+// Full-text job search; title and tech stack matches rank above description matches
+JobOpportunitySchema.index(
+  { title: "text", techStack: "text", description: "text", requirements: "text" },
+  {
+    name: "job_search_text",
+    weights: { title: 10, techStack: 5, description: 2, requirements: 1 },
+  }
+);
+JobOpportunitySchema.index({ isPublic: 1, createdAt: -1 });
+
 const JobOpportunityModel =
   (mongoose.models.jobopportunity as mongoose.Model<JobOpportunity>) ||
   mongoose.model<JobOpportunity>("jobopportunity", JobOpportunitySchema);
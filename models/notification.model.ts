@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from "mongoose";
+import type { RoundStatus } from "./application.model";
+
+export type NotificationType =
+  | 'applied'
+  | 'shortlisted'
+  | 'round-completed'
+  | 'reminder'
+  | 'result'
+  | 'rejected'
+  | 'withdrawn';
+
+export type NotificationEmailStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface NotificationEmail {
+  status: NotificationEmailStatus;
+  attempts: number;
+  lastError?: string;
+  sentAt?: Date;
+}
+
+export interface Notification extends Document {
+  recipient: mongoose.Types.ObjectId; // candidate
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  application?: mongoose.Types.ObjectId;
+  assessment?: mongoose.Types.ObjectId;
+  round?: keyof RoundStatus;
+  deliverAt: Date; // hidden from the candidate and not emailed before this time
+  readAt?: Date;
+  email: NotificationEmail;
+  dedupeKey?: string; // the same event never notifies twice
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationEmailSchema = new Schema(
+  {
+    status: { type: String, enum: ['pending', 'sent', 'failed', 'skipped'], default: 'pending' },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String },
+    sentAt: { type: Date }
+  },
+  { _id: false }
+);
+
+const NotificationSchema: Schema = new Schema(
+  {
+    recipient: { type: Schema.Types.ObjectId, ref: "candidates", required: true },
+    type: {
+      type: String,
+      enum: ['applied', 'shortlisted', 'round-completed', 'reminder', 'result', 'rejected', 'withdrawn'],
+      required: true
+    },
+    title: { type: String, required: true, trim: true },
+    message: { type: String, required: true, trim: true },
+    link: { type: String },
+    application: { type: Schema.Types.ObjectId, ref: "application" },
+    assessment: { type: Schema.Types.ObjectId, ref: "assessment" },
+    round: { type: String, enum: ['aptitude', 'coding', 'technicalInterview', 'hrInterview'] },
+    deliverAt: { type: Date, default: Date.now },
+    readAt: { type: Date },
+    email: { type: NotificationEmailSchema, default: () => ({}) },
+    dedupeKey: { type: String }
+  },
+  { timestamps: true }
+);
+
+NotificationSchema.index({ recipient: 1, deliverAt: -1 });
+NotificationSchema.index({ recipient: 1, application: 1, deliverAt: 1 });
+NotificationSchema.index({ "email.status": 1, deliverAt: 1 });
+NotificationSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true });
+
+const NotificationModel = (mongoose.models.notification as mongoose.Model<Notification>) ||
+  mongoose.model<Notification>("notification", NotificationSchema);
+
+export default NotificationModel;
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type OrganizationRole = 'owner' | 'recruiter' | 'interviewer';
+
+export interface OrganizationMember {
+  user: mongoose.Types.ObjectId;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface OrganizationInvitation {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  tokenHash: string; // sha256 of the token sent in the invitation link
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface Organization extends Document {
+  name: string;
+  members: OrganizationMember[];
+  invitations: OrganizationInvitation[]; // pending only; accepted or revoked invitations are removed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrganizationMemberSchema = new Schema(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "employers", required: true },
+    role: { type: String, enum: ['owner', 'recruiter', 'interviewer'], required: true },
+    joinedAt: { type: Date, default: Date.now }
+  },
+  { _id: false }
+);
+
+const OrganizationInvitationSchema = new Schema(
+  {
+    email: { type: String, required: true, trim: true, lowercase: true },
+    role: { type: String, enum: ['recruiter', 'interviewer'], required: true },
+    tokenHash: { type: String, required: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: "employers", required: true },
+    expiresAt: { type: Date, required: true },
+    createdAt: { type: Date, default: Date.now }
+  }
+);
+
+const OrganizationSchema: Schema = new Schema(
+  {
+    name: { type: String, trim: true, default: '' },
+    members: { type: [OrganizationMemberSchema], default: [] },
+    invitations: { type: [OrganizationInvitationSchema], default: [] }
+  },
+  { timestamps: true }
+);
+
+// An employer belongs to a single organization
+OrganizationSchema.index(
+  { "members.user": 1 },
+  { unique: true, partialFilterExpression: { "members.user": { $exists: true } } }
+);
+OrganizationSchema.index({ "invitations.tokenHash": 1 });
+
+const OrganizationModel = (mongoose.models.organization as mongoose.Model<Organization>) ||
+  mongoose.model<Organization>("organization", OrganizationSchema);
+
+export default OrganizationModel;
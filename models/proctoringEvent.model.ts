@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from "mongoose";
+import type { RoundStatus } from "./application.model";
+
+export type ProctoringEventType =
+  | 'mood'
+  | 'violation'
+  | 'person-changed'
+  | 'tab-switch'
+  | 'fullscreen-exit'
+  | 'audio'
+  | 'screen-share-stopped'
+  | 'heartbeat-missed';
+
+export interface ProctoringEvent extends Document {
+  session: mongoose.Types.ObjectId;
+  candidate: mongoose.Types.ObjectId;
+  round: keyof RoundStatus;
+  clientEventId: string; // makes retried uploads idempotent
+  seq: number; // order the browser raised the events in, within one page load; -1 for server events
+  type: ProctoringEventType;
+  mood?: string;
+  gesture?: string;
+  objects: string[];
+  occurredAt: Date; // browser clock
+  receivedAt: Date; // server clock
+  violation?: string; // what the server classified as a violation or warning, if anything
+  counted: boolean; // whether the violation counted towards the session's limit; set once the event is stored
+  index: number; // position in the session's event log
+  hash: string; // chains the event to the one before it, so edits and deletions are detectable
+}
+
+const ProctoringEventSchema: Schema = new Schema({
+  session: { type: Schema.Types.ObjectId, ref: "proctoringsession", required: true },
+  candidate: { type: Schema.Types.ObjectId, ref: "candidates", required: true },
+  round: { type: String, enum: ['aptitude', 'coding', 'technicalInterview', 'hrInterview'], required: true },
+  clientEventId: { type: String, required: true },
+  seq: { type: Number, required: true },
+  type: {
+    type: String,
+    enum: ['mood', 'violation', 'person-changed', 'tab-switch', 'fullscreen-exit', 'audio', 'screen-share-stopped', 'heartbeat-missed'],
+    required: true
+  },
+  mood: { type: String },
+  gesture: { type: String },
+  objects: [{ type: String }],
+  occurredAt: { type: Date, required: true },
+  receivedAt: { type: Date, default: Date.now },
+  violation: { type: String },
+  counted: { type: Boolean, default: false },
+  index: { type: Number, required: true },
+  hash: { type: String, required: true }
+});
+
+ProctoringEventSchema.index({ session: 1, clientEventId: 1 }, { unique: true });
+ProctoringEventSchema.index({ session: 1, index: 1 }, { unique: true });
+ProctoringEventSchema.index({ session: 1, occurredAt: 1 });
+
+const ProctoringEventModel = (mongoose.models.proctoringevent as mongoose.Model<ProctoringEvent>) ||
+  mongoose.model<ProctoringEvent>("proctoringevent", ProctoringEventSchema);
+
+export default ProctoringEventModel;
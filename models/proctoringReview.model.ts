@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from "mongoose";
+import type { RoundStatus } from "./application.model";
+
+export interface ProctoringReview extends Document {
+  round: keyof RoundStatus;
+  evaluation: mongoose.Types.ObjectId; // the candidate's evaluation document for the round
+  item: string; // the reviewed timeline item, e.g. "event:<id>" or "flag:<id>"
+  decision: 'dismissed' | 'confirmed'; // dismissed as a false positive, or confirmed as a violation
+  note?: string;
+  reviewedBy: mongoose.Types.ObjectId;
+  reviewedAt: Date;
+}
+
+const ProctoringReviewSchema: Schema = new Schema({
+  round: { type: String, enum: ['aptitude', 'coding', 'technicalInterview', 'hrInterview'], required: true },
+  evaluation: { type: Schema.Types.ObjectId, required: true },
+  item: { type: String, required: true },
+  decision: { type: String, enum: ['dismissed', 'confirmed'], required: true },
+  note: { type: String, trim: true, maxlength: 1000 },
+  reviewedBy: { type: Schema.Types.ObjectId, ref: "employers", required: true },
+  reviewedAt: { type: Date, default: Date.now }
+});
+
+ProctoringReviewSchema.index({ evaluation: 1, item: 1 }, { unique: true });
+
+const ProctoringReviewModel = (mongoose.models.proctoringreview as mongoose.Model<ProctoringReview>) ||
+  mongoose.model<ProctoringReview>("proctoringreview", ProctoringReviewSchema);
+
+export default ProctoringReviewModel;
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document } from "mongoose";
+import type { RoundStatus } from "./application.model";
+
+export interface ProctoringMood {
+  state: string;
+  changedAt?: Date;
+  checkedAt?: Date; // last time a mood change was handed to the interview engine
+}
+
+export interface ProctoringSession extends Document {
+  candidate: mongoose.Types.ObjectId;
+  round: keyof RoundStatus;
+  roundId: mongoose.Types.ObjectId;
+  evaluation: mongoose.Types.ObjectId; // the candidate's evaluation document for the round
+  violationCount: number;
+  lastViolationAt?: Date;
+  lastHeartbeatAt?: Date; // last upload from the browser, or the last missed heartbeat recorded
+  mood: ProctoringMood;
+  terminatedAt?: Date; // set once violationCount reaches the limit
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProctoringMoodSchema = new Schema(
+  {
+    state: { type: String, default: 'neutral' },
+    changedAt: { type: Date },
+    checkedAt: { type: Date }
+  },
+  { _id: false }
+);
+
+const ProctoringSessionSchema: Schema = new Schema(
+  {
+    candidate: { type: Schema.Types.ObjectId, ref: "candidates", required: true },
+    round: { type: String, enum: ['aptitude', 'coding', 'technicalInterview', 'hrInterview'], required: true },
+    roundId: { type: Schema.Types.ObjectId, required: true },
+    evaluation: { type: Schema.Types.ObjectId, required: true },
+    violationCount: { type: Number, default: 0 },
+    lastViolationAt: { type: Date },
+    lastHeartbeatAt: { type: Date },
+    mood: { type: ProctoringMoodSchema, default: () => ({}) },
+    terminatedAt: { type: Date }
+  },
+  { timestamps: true }
+);
+
+ProctoringSessionSchema.index({ round: 1, evaluation: 1 }, { unique: true });
+ProctoringSessionSchema.index({ candidate: 1, roundId: 1 });
+
+const ProctoringSessionModel = (mongoose.models.proctoringsession as mongoose.Model<ProctoringSession>) ||
+  mongoose.model<ProctoringSession>("proctoringsession", ProctoringSessionSchema);
+
+export default ProctoringSessionModel;
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface SavedJob extends Document {
+  candidateId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  savedAt: Date;
+}
+
+const SavedJobSchema: Schema = new Schema(
+  {
+    candidateId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "candidates",
+      required: true
+    },
+    jobId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "jobopportunity",
+      required: true
+    },
+    savedAt: {
+      type: Date,
+      default: Date.now,
+      required: true
+    }
+  },
+  { timestamps: true }
+);
+
+// A job can only be saved once per candidate
+SavedJobSchema.index({ candidateId: 1, jobId: 1 }, { unique: true });
+SavedJobSchema.index({ candidateId: 1, savedAt: -1 });
+
+const SavedJobModel =
+  (mongoose.models.savedjob as mongoose.Model<SavedJob>) ||
+  mongoose.model<SavedJob>("savedjob", SavedJobSchema);
+
+export default SavedJobModel;
@@ -39,6 +39,7 @@ export interface TechnicalInterview extends Document {
 
   // Optional linkage; evaluations are tracked in separate collections
   assessmentId: mongoose.Types.ObjectId | null;
+  organization?: mongoose.Types.ObjectId; // organization that created the round
 
   status: 'inactive' | 'active' | 'completed';
 }
@@ -82,6 +83,7 @@ export const TechnicalInterviewSchema: Schema = new Schema({
   endTime: { type: String, match: /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/ },
 
   assessmentId: { type: Schema.Types.ObjectId, ref: 'assessment', default: null },
+  organization: { type: Schema.Types.ObjectId, ref: 'organization' },
 
   status: { type: String, enum: ['inactive', 'active', 'completed'], default: 'inactive' }
 }, {
@@ -27,6 +27,13 @@ export interface TechnicalInterviewEvaluation extends Document {
     violationType?: string;
   }[];
 
+  // Low-resolution screenshots of the candidate's shared screen, stored in S3
+  screenCaptures: {
+    url: string;
+    s3Key: string;
+    capturedAt: Date;
+  }[];
+
   // NEW: Master Q1 questions array (basic data only, generated at start)
   // Used for dynamic chunking: chunk = Math.floor(index / 5)
   q1Questions: {
@@ -113,6 +120,16 @@ const TechnicalInterviewEvaluationSchema: Schema = new Schema({
     required: true
   },
 
+  // Screenshots of the shared screen
+  screenCaptures: {
+    type: [{
+      url: { type: String, required: true },
+      s3Key: { type: String, required: true },
+      capturedAt: { type: Date, required: true },
+    }],
+    default: []
+  },
+
   // Master Q1 questions array (basic data only)
   q1Questions: {
     type: [{
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+// Runs the notification jobs against a running app every NOTIFICATION_RUNNER_INTERVAL seconds (default 60).
+// Pass --once to run a single time, e.g. from cron.
+//
+//   NOTIFICATION_RUNNER_SECRET=... APP_URL=http://localhost:3000 npm run notifications
+
+const appUrl = process.env.APP_URL || process.env.NEXTAUTH_URL || "http://localhost:3000";
+const secret = process.env.NOTIFICATION_RUNNER_SECRET;
+const intervalSeconds = Number(process.env.NOTIFICATION_RUNNER_INTERVAL) || 60;
+const once = process.argv.includes("--once");
+
+if (!secret) {
+  console.error("❌ NOTIFICATION_RUNNER_SECRET is required");
+  process.exit(1);
+}
+
+async function run() {
+  try {
+    const response = await fetch(`${appUrl}/api/notifications/run`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      console.error(`❌ Notification run failed (${response.status}): ${result.message}`);
+      return false;
+    }
+
+    const { remindersCreated, emailsSent, emailsFailed } = result.data;
+    console.log(
+      `✅ ${new Date().toISOString()} reminders: ${remindersCreated}, emails sent: ${emailsSent}, failed: ${emailsFailed}`
+    );
+    return true;
+  } catch (error) {
+    console.error(`❌ Could not reach ${appUrl}: ${error.message}`);
+    return false;
+  }
+}
+
+if (once) {
+  process.exit((await run()) ? 0 : 1);
+}
+
+console.log(`🔔 Running notification jobs every ${intervalSeconds}s against ${appUrl}`);
+await run();
+setInterval(run, intervalSeconds * 1000);
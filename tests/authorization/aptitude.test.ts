@@ -0,0 +1,26 @@
+import {
+  advanceSection,
+  autoSaveTest,
+  fetchTestSession,
+  getSectionState,
+  getServerTimeLeft,
+  saveAnswer,
+  startProctoring,
+  startTestSession,
+  submitTest,
+  verifyIdentity
+} from "@/app/assessment/aptitude/actions";
+import { describeRoleGuard, OBJECT_ID, USER_ID } from "../session";
+
+describeRoleGuard("aptitude actions", "candidate", {
+  fetchTestSession: () => fetchTestSession(OBJECT_ID),
+  submitTest: () => submitTest(OBJECT_ID, USER_ID, {}),
+  autoSaveTest: () => autoSaveTest(OBJECT_ID, USER_ID),
+  startTestSession: () => startTestSession(OBJECT_ID),
+  getServerTimeLeft: () => getServerTimeLeft(OBJECT_ID),
+  getSectionState: () => getSectionState(OBJECT_ID),
+  saveAnswer: () => saveAnswer(OBJECT_ID, 1, 0),
+  advanceSection: () => advanceSection(OBJECT_ID),
+  startProctoring: () => startProctoring(OBJECT_ID),
+  verifyIdentity: () => verifyIdentity(OBJECT_ID, new Array(128).fill(0))
+});
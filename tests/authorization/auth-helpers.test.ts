@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthorizationError } from "@/utils/action-helpers";
+import { authorizeRole, requireRole } from "@/utils/auth-helpers";
+import { signInAs, USER_ID } from "../session";
+
+describe("requireRole", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("returns the user ID for the required role", async () => {
+    signInAs("candidate");
+    await expect(requireRole("candidate")).resolves.toBe(USER_ID);
+  });
+
+  it("throws a 401 without a session", async () => {
+    signInAs(null);
+    await expect(requireRole("candidate")).rejects.toMatchObject(new AuthorizationError(401, "Unauthorized - Please log in"));
+  });
+
+  it("throws a 403 for another role", async () => {
+    signInAs("employer");
+    await expect(requireRole("candidate")).rejects.toMatchObject({ name: "AuthorizationError", status: 403 });
+  });
+});
+
+describe("authorizeRole", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("resolves to the user ID for the required role", async () => {
+    signInAs("employer");
+    await expect(authorizeRole("employer")).resolves.toEqual({ userId: USER_ID });
+  });
+
+  it("resolves to a 401 response without a session", async () => {
+    signInAs(null);
+    await expect(authorizeRole("employer")).resolves.toMatchObject({ response: { success: false, status: 401 } });
+  });
+
+  it("resolves to a 403 response for another role", async () => {
+    signInAs("candidate");
+    await expect(authorizeRole("employer")).resolves.toMatchObject({ response: { success: false, status: 403 } });
+  });
+});
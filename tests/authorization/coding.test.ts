@@ -0,0 +1,28 @@
+import {
+  fetchCodingProblems,
+  fetchCodingRoundById,
+  getAssessmentByCodingRoundId,
+  getProblemStatus,
+  getSavedTimer,
+  markAssessmentAsSubmitted,
+  saveCodeRun,
+  saveCodeSubmission,
+  startProctoring,
+  updateTimer,
+  verifyIdentity
+} from "@/app/assessment/coding/actions";
+import { describeRoleGuard, OBJECT_ID } from "../session";
+
+describeRoleGuard("coding actions", "candidate", {
+  fetchCodingRoundById: () => fetchCodingRoundById(OBJECT_ID),
+  getAssessmentByCodingRoundId: () => getAssessmentByCodingRoundId(OBJECT_ID),
+  fetchCodingProblems: () => fetchCodingProblems(OBJECT_ID),
+  saveCodeRun: () => saveCodeRun(OBJECT_ID, 1, "", "javascript"),
+  saveCodeSubmission: () => saveCodeSubmission(OBJECT_ID, 1, "", "javascript"),
+  getProblemStatus: () => getProblemStatus(OBJECT_ID),
+  getSavedTimer: () => getSavedTimer(OBJECT_ID),
+  updateTimer: () => updateTimer(OBJECT_ID, 60),
+  markAssessmentAsSubmitted: () => markAssessmentAsSubmitted(OBJECT_ID),
+  startProctoring: () => startProctoring(OBJECT_ID),
+  verifyIdentity: () => verifyIdentity(OBJECT_ID, new Array(128).fill(0))
+});
@@ -0,0 +1,147 @@
+import {
+  createAptitudeRound,
+  fetchAptitudeById,
+  fetchAptitudeQuestionCounts,
+  importAptitudeQuestions,
+  updateAptitudeRound
+} from "@/app/dashboard/employer/actions/aptitude-actions";
+import {
+  createAssessment,
+  fetchAssessmentById,
+  fetchAssessmentsForJob,
+  fetchJobForAssessment,
+  fetchJobPostingsForAssessment,
+  updateAssessment
+} from "@/app/dashboard/employer/actions/assessment-actions";
+import {
+  fetchCandidateRoundDetails,
+  fetchEmployerJobs as fetchEvaluationJobs,
+  fetchProctoringReview,
+  fetchShortlistedCandidates,
+  reviewProctoringItem,
+  updateCandidateDecision
+} from "@/app/dashboard/employer/actions/candidate-evaluation-actions";
+import {
+  createBankProblem,
+  deleteBankProblem,
+  exportBankProblems,
+  fetchBankProblem,
+  fetchProblemBank,
+  importBankProblems,
+  updateBankProblem
+} from "@/app/dashboard/employer/actions/coding-problem-actions";
+import { createJobPosting } from "@/app/dashboard/employer/actions/createJob-actions";
+import {
+  fetchActivities,
+  fetchCandidates,
+  fetchJobs,
+  fetchLiveMonitoring,
+  fetchStats
+} from "@/app/dashboard/employer/actions/dashboard-actions";
+import {
+  fetchEmployerJobs,
+  fetchJobDetails,
+  updateAssessmentDetails,
+  updateJobDetails
+} from "@/app/dashboard/employer/actions/job-management-actions";
+import {
+  extendRoundWindow,
+  fetchCandidatesForJob,
+  fetchJobsWithAssessments,
+  fetchRoundInfo,
+  updateCandidatesForRound
+} from "@/app/dashboard/employer/actions/manageCandidates-actions";
+import {
+  acceptInvitation,
+  fetchInvitation,
+  fetchOrganization,
+  inviteOrganizationMember,
+  removeOrganizationMember,
+  revokeOrganizationInvitation,
+  updateOrganizationMemberRole
+} from "@/app/dashboard/employer/actions/organization-actions";
+import {
+  createTechnicalInterviewRound,
+  fetchTechnicalInterviewById,
+  updateTechnicalInterviewRound
+} from "@/app/dashboard/employer/actions/technical-interview-actions";
+import { describeRoleGuard, OBJECT_ID } from "../session";
+
+describeRoleGuard("employer aptitude round actions", "employer", {
+  createAptitudeRound: () => createAptitudeRound({} as never),
+  updateAptitudeRound: () => updateAptitudeRound(OBJECT_ID, {}),
+  fetchAptitudeById: () => fetchAptitudeById(OBJECT_ID),
+  importAptitudeQuestions: () => importAptitudeQuestions("[]", "json"),
+  fetchAptitudeQuestionCounts: () => fetchAptitudeQuestionCounts()
+});
+
+describeRoleGuard("employer assessment actions", "employer", {
+  fetchJobPostingsForAssessment: () => fetchJobPostingsForAssessment(),
+  createAssessment: () => createAssessment({} as never),
+  fetchAssessmentsForJob: () => fetchAssessmentsForJob(OBJECT_ID),
+  fetchAssessmentById: () => fetchAssessmentById(OBJECT_ID),
+  updateAssessment: () => updateAssessment(OBJECT_ID, {}),
+  fetchJobForAssessment: () => fetchJobForAssessment(OBJECT_ID)
+});
+
+describeRoleGuard("employer candidate evaluation actions", "employer", {
+  fetchEmployerJobs: () => fetchEvaluationJobs(),
+  fetchShortlistedCandidates: () => fetchShortlistedCandidates(OBJECT_ID),
+  fetchCandidateRoundDetails: () => fetchCandidateRoundDetails(OBJECT_ID),
+  updateCandidateDecision: () => updateCandidateDecision(OBJECT_ID, "accepted"),
+  fetchProctoringReview: () => fetchProctoringReview(OBJECT_ID, "coding"),
+  reviewProctoringItem: () => reviewProctoringItem(OBJECT_ID, "coding", OBJECT_ID, "dismissed")
+});
+
+describeRoleGuard("employer coding problem bank actions", "employer", {
+  fetchProblemBank: () => fetchProblemBank(),
+  fetchBankProblem: () => fetchBankProblem(1),
+  createBankProblem: () => createBankProblem({} as never),
+  updateBankProblem: () => updateBankProblem(1, {} as never),
+  deleteBankProblem: () => deleteBankProblem(1),
+  importBankProblems: () => importBankProblems("[]"),
+  exportBankProblems: () => exportBankProblems()
+});
+
+describeRoleGuard("employer job creation actions", "employer", {
+  createJobPosting: () => createJobPosting({} as never)
+});
+
+describeRoleGuard("employer dashboard actions", "employer", {
+  fetchStats: () => fetchStats(),
+  fetchActivities: () => fetchActivities(),
+  fetchCandidates: () => fetchCandidates(),
+  fetchLiveMonitoring: () => fetchLiveMonitoring(),
+  fetchJobs: () => fetchJobs()
+});
+
+describeRoleGuard("employer job management actions", "employer", {
+  fetchEmployerJobs: () => fetchEmployerJobs(),
+  fetchJobDetails: () => fetchJobDetails(OBJECT_ID),
+  updateJobDetails: () => updateJobDetails(OBJECT_ID, {} as never),
+  updateAssessmentDetails: () => updateAssessmentDetails(OBJECT_ID, {} as never)
+});
+
+describeRoleGuard("employer candidate management actions", "employer", {
+  fetchJobsWithAssessments: () => fetchJobsWithAssessments(),
+  fetchCandidatesForJob: () => fetchCandidatesForJob(OBJECT_ID),
+  fetchRoundInfo: () => fetchRoundInfo("coding", OBJECT_ID),
+  updateCandidatesForRound: () => updateCandidatesForRound("coding", OBJECT_ID, [OBJECT_ID]),
+  extendRoundWindow: () => extendRoundWindow(OBJECT_ID, "coding", [OBJECT_ID], null)
+});
+
+describeRoleGuard("employer organization actions", "employer", {
+  fetchOrganization: () => fetchOrganization(),
+  inviteOrganizationMember: () => inviteOrganizationMember("member@example.com", "recruiter"),
+  revokeOrganizationInvitation: () => revokeOrganizationInvitation(OBJECT_ID),
+  updateOrganizationMemberRole: () => updateOrganizationMemberRole(OBJECT_ID, "interviewer"),
+  removeOrganizationMember: () => removeOrganizationMember(OBJECT_ID),
+  fetchInvitation: () => fetchInvitation("token"),
+  acceptInvitation: () => acceptInvitation("token")
+});
+
+describeRoleGuard("employer technical interview round actions", "employer", {
+  createTechnicalInterviewRound: () => createTechnicalInterviewRound({} as never),
+  updateTechnicalInterviewRound: () => updateTechnicalInterviewRound(OBJECT_ID, {}),
+  fetchTechnicalInterviewById: () => fetchTechnicalInterviewById(OBJECT_ID)
+});
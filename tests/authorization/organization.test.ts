@@ -0,0 +1,71 @@
+import mongoose from "mongoose";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import OrganizationModel, { type OrganizationRole } from "@/models/organization.model";
+import { requireOrganization } from "@/lib/organization/membership";
+import { createAssessment } from "@/app/dashboard/employer/actions/assessment-actions";
+import { updateCandidatesForRound } from "@/app/dashboard/employer/actions/manageCandidates-actions";
+import { inviteOrganizationMember } from "@/app/dashboard/employer/actions/organization-actions";
+import { OBJECT_ID, signInAs, USER_ID } from "../session";
+
+/**
+ * Signs in as an employer who is a member of an organization with the role.
+ */
+function signInAsMember(role: OrganizationRole): void {
+  signInAs("employer");
+  const organization = {
+    _id: new mongoose.Types.ObjectId(OBJECT_ID),
+    members: [{ user: new mongoose.Types.ObjectId(USER_ID), role }]
+  };
+  vi.spyOn(OrganizationModel, "findOne").mockReturnValue({
+    select: () => ({ lean: async () => organization })
+  } as never);
+}
+
+describe("requireOrganization", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("resolves to the member's organization and role", async () => {
+    signInAsMember("recruiter");
+    await expect(requireOrganization("recruiter")).resolves.toMatchObject({ userId: USER_ID, role: "recruiter" });
+  });
+
+  it("lets higher roles through", async () => {
+    signInAsMember("owner");
+    await expect(requireOrganization("interviewer")).resolves.toMatchObject({ role: "owner" });
+  });
+
+  it("throws a 403 for interviewers when recruiters are required", async () => {
+    signInAsMember("interviewer");
+    await expect(requireOrganization("recruiter")).rejects.toMatchObject({ name: "AuthorizationError", status: 403 });
+  });
+
+  it("throws a 403 for recruiters when owners are required", async () => {
+    signInAsMember("recruiter");
+    await expect(requireOrganization("owner")).rejects.toMatchObject({ name: "AuthorizationError", status: 403 });
+  });
+});
+
+describe("organization role checks in employer actions", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("createAssessment rejects interviewers", async () => {
+    signInAsMember("interviewer");
+    await expect(createAssessment({} as never)).resolves.toMatchObject({ success: false, status: 403 });
+  });
+
+  it("updateCandidatesForRound rejects interviewers", async () => {
+    signInAsMember("interviewer");
+    await expect(updateCandidatesForRound("coding", OBJECT_ID, [OBJECT_ID]))
+      .resolves.toMatchObject({ success: false, status: 403 });
+  });
+
+  it("inviteOrganizationMember rejects recruiters", async () => {
+    signInAsMember("recruiter");
+    await expect(inviteOrganizationMember("member@example.com", "interviewer"))
+      .resolves.toMatchObject({ success: false, status: 403 });
+  });
+});
@@ -0,0 +1,12 @@
+import { enrolFace, fetchProfilePhoto } from "@/app/assessment/precheck/actions";
+import { fetchAssessmentDetails } from "@/app/assessment/process/actions";
+import { describeRoleGuard, OBJECT_ID } from "../session";
+
+describeRoleGuard("precheck actions", "candidate", {
+  fetchProfilePhoto: () => fetchProfilePhoto(),
+  enrolFace: () => enrolFace(new Array(128).fill(0))
+});
+
+describeRoleGuard("assessment process actions", "candidate", {
+  fetchAssessmentDetails: () => fetchAssessmentDetails(OBJECT_ID)
+});
@@ -0,0 +1,13 @@
+import { fetchCandidateProfile, updateCandidateProfile } from "@/app/profile/candidate/actions/profile-actions";
+import { fetchEmployerProfile, updateEmployerProfile } from "@/app/profile/employer/actions/profile-actions";
+import { describeRoleGuard, USER_ID } from "../session";
+
+describeRoleGuard("candidate profile actions", "candidate", {
+  fetchCandidateProfile: () => fetchCandidateProfile(USER_ID),
+  updateCandidateProfile: () => updateCandidateProfile({} as never)
+});
+
+describeRoleGuard("employer profile actions", "employer", {
+  fetchEmployerProfile: () => fetchEmployerProfile(USER_ID),
+  updateEmployerProfile: () => updateEmployerProfile({} as never)
+});
@@ -0,0 +1,36 @@
+import { uploadProfileImage, uploadResume } from "@/app/profile/candidate/actions/upload-actions";
+import {
+  applyResumeToProfile,
+  deleteResume,
+  getActiveResume,
+  getCandidateResumes,
+  getResumeParsedData,
+  getResumeProfile,
+  setActiveResume,
+  updateResumeParsedData,
+  updateResumeProfile
+} from "@/app/profile/candidate/actions/resume-actions";
+import { parseAndSaveResume, parseResumeFromS3 } from "@/app/profile/candidate/actions/resume-parsing";
+import { describeRoleGuard, OBJECT_ID, USER_ID } from "../session";
+
+describeRoleGuard("candidate upload actions", "candidate", {
+  uploadProfileImage: () => uploadProfileImage(new FormData()),
+  uploadResume: () => uploadResume(new FormData())
+});
+
+describeRoleGuard("candidate resume actions", "candidate", {
+  getCandidateResumes: () => getCandidateResumes(USER_ID),
+  deleteResume: () => deleteResume(OBJECT_ID),
+  getResumeProfile: () => getResumeProfile(OBJECT_ID),
+  updateResumeProfile: () => updateResumeProfile(OBJECT_ID, {}),
+  applyResumeToProfile: () => applyResumeToProfile(OBJECT_ID),
+  getResumeParsedData: () => getResumeParsedData(OBJECT_ID),
+  updateResumeParsedData: () => updateResumeParsedData(OBJECT_ID, {}),
+  getActiveResume: () => getActiveResume(USER_ID),
+  setActiveResume: () => setActiveResume(USER_ID, OBJECT_ID)
+});
+
+describeRoleGuard("candidate resume parsing actions", "candidate", {
+  parseAndSaveResume: () => parseAndSaveResume("https://example.com/resume.pdf", "resume.pdf", 1024, "resumes/resume.pdf"),
+  parseResumeFromS3: () => parseResumeFromS3(OBJECT_ID)
+});
@@ -0,0 +1,56 @@
+import {
+  analyzeAnswer,
+  checkVideoViolations,
+  startProctoring,
+  verifyIdentity
+} from "@/app/assessment/technical-interview/actions/analysis.actions";
+import { getInterviewConfig } from "@/app/assessment/technical-interview/actions/config.actions";
+import { appendQA, completeInterview, startEvaluation } from "@/app/assessment/technical-interview/actions/evaluation.actions";
+import { deleteInterviewAudio, uploadScreenCapture } from "@/app/assessment/technical-interview/actions/media.actions";
+import {
+  generateFollowupQuestion,
+  generateQ2Questions,  generateQuestions,
+  preprocessQuestion
+} from "@/app/assessment/technical-interview/actions/question-generation.actions";
+import { fetchInterviewSession } from "@/app/assessment/technical-interview/actions/session.actions";
+import {
+  addAskedQuestion,
+  getAskedQuestions,
+  getQ1Questions,
+  getQ1QuestionsForChunk,
+  markChunkPreprocessed,
+  markQuestionAsked,
+  removeAskedQuestion,
+  storeQ1Questions,
+  updateAskedQuestion,
+  updateAskedQuestionAnswer
+} from "@/app/assessment/technical-interview/actions/storage.actions";
+import { describeRoleGuard, OBJECT_ID } from "../session";
+
+const question = { id: "q1", question: "Question", category: "technical" as const, queueType: "Q1" as const, preprocessed: false };
+
+describeRoleGuard("technical interview actions", "candidate", {
+  analyzeAnswer: () => analyzeAnswer("Question", "Answer", "Answer", {} as never, { id: "q1" } as never, OBJECT_ID),
+  startProctoring: () => startProctoring(OBJECT_ID),
+  verifyIdentity: () => verifyIdentity(OBJECT_ID, new Array(128).fill(0)),
+  checkVideoViolations: () => checkVideoViolations(OBJECT_ID),
+  getInterviewConfig: () => getInterviewConfig(OBJECT_ID),
+  startEvaluation: () => startEvaluation(OBJECT_ID),
+  appendQA: () => appendQA(OBJECT_ID, {} as never),
+  completeInterview: () => completeInterview(OBJECT_ID),
+  deleteInterviewAudio: () => deleteInterviewAudio(OBJECT_ID),
+  uploadScreenCapture: () => uploadScreenCapture(OBJECT_ID, new FormData()),  generateQuestions: () => generateQuestions({}),
+  generateQ2Questions: () => generateQ2Questions("Question", "Answer", "topic"),
+  generateFollowupQuestion: () => generateFollowupQuestion("Question", "Answer"),  preprocessQuestion: () => preprocessQuestion("Question"),
+  fetchInterviewSession: () => fetchInterviewSession(OBJECT_ID),
+  storeQ1Questions: () => storeQ1Questions(OBJECT_ID, []),
+  getQ1QuestionsForChunk: () => getQ1QuestionsForChunk(OBJECT_ID, 1),
+  getQ1Questions: () => getQ1Questions(OBJECT_ID),
+  addAskedQuestion: () => addAskedQuestion(OBJECT_ID, question),
+  markQuestionAsked: () => markQuestionAsked(OBJECT_ID, "q1"),
+  updateAskedQuestionAnswer: () => updateAskedQuestionAnswer(OBJECT_ID, "q1", "Answer"),
+  updateAskedQuestion: () => updateAskedQuestion(OBJECT_ID, "q1", {}),
+  removeAskedQuestion: () => removeAskedQuestion(OBJECT_ID, "q1"),
+  getAskedQuestions: () => getAskedQuestions(OBJECT_ID),
+  markChunkPreprocessed: () => markChunkPreprocessed(OBJECT_ID, 1)
+});
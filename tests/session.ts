@@ -0,0 +1,48 @@
+import { getServerSession } from "next-auth";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { UserRole } from "@/utils/auth-helpers";
+
+export const USER_ID = "507f1f77bcf86cd799439011";
+export const OBJECT_ID = "507f191e810c19729de860ea";
+
+/**
+ * Signs the next calls in as a user with the role, or signs out with null.
+ */
+export function signInAs(role: UserRole | null): void {
+  vi.mocked(getServerSession).mockResolvedValue(role ? { user: { _id: USER_ID, role } } : null);
+}
+
+async function expectRejected(call: () => Promise<unknown>, status: 401 | 403): Promise<void> {
+  const result = await call();
+  expect(result).toMatchObject({ status });
+  expect(result).not.toMatchObject({ success: true });
+}
+
+/**
+ * Checks that every action turns away signed-out callers (401) and callers with the other role (403).
+ */
+export function describeRoleGuard(
+  name: string,
+  role: UserRole,
+  actions: Record<string, () => Promise<unknown>>
+): void {
+  const otherRole: UserRole = role === "candidate" ? "employer" : "candidate";
+
+  describe(name, () => {
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    for (const [action, call] of Object.entries(actions)) {
+      it(`${action} rejects signed-out callers`, async () => {
+        signInAs(null);
+        await expectRejected(call, 401);
+      });
+
+      it(`${action} rejects ${otherRole}s`, async () => {
+        signInAs(otherRole);
+        await expectRejected(call, 403);
+      });
+    }
+  });
+}
@@ -0,0 +1,14 @@
+// Test setup - server actions run without a session provider or database
+//
+// - getServerSession is mocked; tests sign in with signInAs from ./session
+// - connectToDatabase resolves without connecting, and mongoose does not buffer queries, so an action
+//   that reaches the database before checking the caller fails the test instead of hanging
+//
+import mongoose from "mongoose";
+import { vi } from "vitest";
+
+vi.mock("next-auth", () => ({ getServerSession: vi.fn() }));
+vi.mock("@/lib/auth", () => ({ authOptions: {} }));
+vi.mock("@/utils/connectDb", () => ({ connectToDatabase: vi.fn().mockResolvedValue(undefined) }));
+
+mongoose.set("bufferCommands", false);
@@ -9,6 +9,17 @@ export interface ActionResponse<T = any> {
   message: string;
   data?: T;
   error?: string;
+  status?: 401 | 403; // set when the caller is not signed in (401) or lacks the required role (403)
+}
+
+/**
+ * Thrown when the caller is not signed in (401) or not allowed to perform the action (403)
+ */
+export class AuthorizationError extends Error {
+  constructor(public readonly status: 401 | 403, message: string) {
+    super(message);
+    this.name = "AuthorizationError";
+  }
 }
 
 /**
@@ -58,6 +69,15 @@ export function createErrorResponse(
       ? error 
       : "Unknown error";
   
+  if (error instanceof AuthorizationError) {
+    return {
+      success: false,
+      message: error.message,
+      error: errorMessage,
+      status: error.status,
+    };
+  }
+
   return {
     success: false,
     message,
@@ -1,6 +1,8 @@
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { logAction, logError } from "@/utils/action-helpers";
+import { AuthorizationError, createErrorResponse, logError, type ActionResponse } from "@/utils/action-helpers";
+
+export type UserRole = "employer" | "candidate";
 
 // Helper function for session validation
 export async function validateSession(): Promise<{ success: boolean; candidateId?: string; error?: string }> {
@@ -22,7 +24,40 @@ export async function validateSession(): Promise<{ success: boolean; candidateId
 export async function requireAuth(): Promise<string> {
   const { success, candidateId, error } = await validateSession();
   if (!success || !candidateId) {
-    throw new Error(error || "Unauthorized - Please log in");
+    throw new AuthorizationError(401, error || "Unauthorized - Please log in");
   }
   return candidateId;
 }
+
+// Helper function for role-restricted actions; returns the signed-in user's ID.
+// Throws an AuthorizationError (401 without a session, 403 for another role), which safeAction turns into an error response.
+export async function requireRole(role: UserRole): Promise<string> {
+  const session = await getServerSession(authOptions);
+  const userId = session?.user?._id;
+
+  if (!userId) {
+    logError("Role check failed - no user ID");
+    throw new AuthorizationError(401, "Unauthorized - Please log in");
+  }
+
+  if (session.user.role?.toLowerCase() !== role) {
+    logError(`Role check failed - ${session.user.role} is not allowed, expected ${role}`);
+    throw new AuthorizationError(403, `Forbidden - This action is only available to ${role}s`);
+  }
+
+  return userId;
+}
+
+// Same check for actions that do not run through safeAction: resolves to the user ID, or to the error response to return
+export async function authorizeRole(
+  role: UserRole
+): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: ActionResponse }> {
+  try {
+    return { userId: await requireRole(role) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return { response: createErrorResponse(error.message, error) };
+    }
+    throw error;
+  }
+}
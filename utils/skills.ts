@@ -0,0 +1,29 @@
+/**
+ * Normalizes a skill name so "Node.js", "NodeJS" and "nodejs" compare equal
+ */
+export function normalizeSkill(skill: string): string {
+  return skill.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+}
+
+/**
+ * Splits the free-text skills field of a parsed resume into individual skills
+ */
+export function parseResumeSkills(skills?: string): string[] {
+  if (!skills) return [];
+  return skills
+    .split(/[,;\n|•]/)
+    .map(skill => skill.replace(/^[^:]*:/, '').trim())
+    .filter(skill => skill.length > 0 && skill.length <= 40);
+}
+
+/**
+ * Whether a list of skills covers a required skill, treating "React" and "React.js" as the same skill
+ */
+export function hasSkill(skills: string[], required: string): boolean {
+  const withoutJs = (skill: string) => skill.replace(/js$/, '');
+  const target = normalizeSkill(required);
+  return skills.some(skill => {
+    const normalized = normalizeSkill(skill);
+    return normalized === target || (withoutJs(normalized) === withoutJs(target) && withoutJs(target).length > 0);
+  });
+}
@@ -0,0 +1,21 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": root }
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    setupFiles: ["tests/setup.ts"],
+    // Modules that check their configuration on import only need it to be present
+    env: {
+      NEXT_MONGODB_URI: "mongodb://localhost:27017/test",
+      AWS_S3_BUCKET_NAME: "test-bucket"
+    }
+  }
+});